@@ -0,0 +1,47 @@
+// Service worker for browser push notifications. The send-push-notifications
+// edge function sends { title, body, url, tag }; clicking the notification
+// focuses an open CRM tab on that record, or opens a new one.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = payload.title || 'CRM notification';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      icon: '/favicon.ico',
+      badge: '/favicon.ico',
+      // Same tag replaces the earlier notification instead of stacking
+      tag: payload.tag,
+      data: { url: payload.url || '/notifications' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/notifications', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (open) {
+        return open.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -10,6 +10,7 @@ import { useAuth } from "@/hooks/useAuth";
 import SecurityEnhancedApp from "@/components/SecurityEnhancedApp";
 import { AppSidebar } from "@/components/AppSidebar";
 import PageAccessGuard from "@/components/PageAccessGuard";
+import MfaGuard from "@/components/MfaGuard";
 import { useState, lazy, Suspense, useEffect, useRef } from "react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { supabase } from "@/integrations/supabase/client";
@@ -27,6 +28,9 @@ const Auth = lazy(() => import("./pages/Auth"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 const Notifications = lazy(() => import("./pages/Notifications"));
 const Tasks = lazy(() => import("./pages/Tasks"));
+const Approvals = lazy(() => import("./pages/Approvals"));
+const Campaigns = lazy(() => import("./pages/Campaigns"));
+const PipelineAnalytics = lazy(() => import("./pages/PipelineAnalytics"));
 const StickyHeaderTest = lazy(() => import("./pages/StickyHeaderTest"));
 
 // Build version for cache busting on deployments
@@ -151,6 +155,9 @@ const useAppSetup = (isAuthenticated: boolean) => {
         scheduleImport(() => import("./pages/Tasks"));
         scheduleImport(() => import("./pages/Settings"));
         scheduleImport(() => import("./pages/Notifications"));
+        scheduleImport(() => import("./pages/Approvals"));
+        scheduleImport(() => import("./pages/Campaigns"));
+        scheduleImport(() => import("./pages/PipelineAnalytics"));
       };
       
       // Start prefetching after initial render settles
@@ -184,15 +191,18 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
   // Use FixedSidebarLayout for all protected routes with Page Access Guard
   // Suspense is inside layout so sidebar stays visible while content loads
   // RealtimeSync enables live updates across all users
+  // MfaGuard asks for the authenticator code before any of it renders
   return (
-    <FixedSidebarLayout>
-      <RealtimeSync />
-      <PageAccessGuard>
-        <Suspense fallback={<ContentLoader />}>
-          {children}
-        </Suspense>
-      </PageAccessGuard>
-    </FixedSidebarLayout>
+    <MfaGuard>
+      <FixedSidebarLayout>
+        <RealtimeSync />
+        <PageAccessGuard>
+          <Suspense fallback={<ContentLoader />}>
+            {children}
+          </Suspense>
+        </PageAccessGuard>
+      </FixedSidebarLayout>
+    </MfaGuard>
   );
 };
 
@@ -276,6 +286,21 @@ const AppRouter = () => (
           <Tasks />
         </ProtectedRoute>
       } />
+      <Route path="/approvals" element={
+        <ProtectedRoute>
+          <Approvals />
+        </ProtectedRoute>
+      } />
+      <Route path="/campaigns" element={
+        <ProtectedRoute>
+          <Campaigns />
+        </ProtectedRoute>
+      } />
+      <Route path="/pipeline-analytics" element={
+        <ProtectedRoute>
+          <PipelineAnalytics />
+        </ProtectedRoute>
+      } />
       <Route path="/settings" element={
         <ProtectedRoute>
           <Settings />
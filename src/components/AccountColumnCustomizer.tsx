@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -19,6 +19,8 @@ interface AccountColumnCustomizerProps {
   onColumnsChange: (columns: AccountColumnConfig[]) => void;
   onSave?: (columns: AccountColumnConfig[]) => Promise<unknown>;
   isSaving?: boolean;
+  // Columns for the entity's custom fields, offered after the defaults
+  customColumns?: AccountColumnConfig[];
 }
 
 export const defaultAccountColumns: AccountColumnConfig[] = [
@@ -38,6 +40,8 @@ export const defaultAccountColumns: AccountColumnConfig[] = [
   { field: 'account_owner', label: 'Account Owner', visible: true, order: 13 },
 ];
 
+const NO_CUSTOM_COLUMNS: AccountColumnConfig[] = [];
+
 export const AccountColumnCustomizer = ({
   open,
   onOpenChange,
@@ -45,12 +49,19 @@ export const AccountColumnCustomizer = ({
   onColumnsChange,
   onSave,
   isSaving = false,
+  customColumns = NO_CUSTOM_COLUMNS,
 }: AccountColumnCustomizerProps) => {
+  const availableColumns = useMemo(
+    () => [...defaultAccountColumns, ...customColumns],
+    [customColumns]
+  );
+  const customFieldKeys = useMemo(() => new Set(customColumns.map(c => c.field)), [customColumns]);
+
   const [localColumns, setLocalColumns] = useState<AccountColumnConfig[]>(() => {
     const existingFields = new Set(columns.map(c => c.field));
-    const missingColumns = defaultAccountColumns.filter(dc => !existingFields.has(dc.field));
+    const missingColumns = availableColumns.filter(dc => !existingFields.has(dc.field));
     const validColumns = columns.filter(c => 
-      defaultAccountColumns.some(dc => dc.field === c.field)
+      availableColumns.some(dc => dc.field === c.field)
     );
     return [...validColumns, ...missingColumns];
   });
@@ -59,9 +70,9 @@ export const AccountColumnCustomizer = ({
   useEffect(() => {
     if (open) {
       const existingFields = new Set(columns.map(c => c.field));
-      const missingColumns = defaultAccountColumns.filter(dc => !existingFields.has(dc.field));
+      const missingColumns = availableColumns.filter(dc => !existingFields.has(dc.field));
       const validColumns = columns.filter(c => 
-        defaultAccountColumns.some(dc => dc.field === c.field)
+        availableColumns.some(dc => dc.field === c.field)
       );
       setLocalColumns([...validColumns, ...missingColumns]);
     }
@@ -83,7 +94,7 @@ export const AccountColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultAccountColumns);
+    setLocalColumns(availableColumns);
   };
 
   return (
@@ -111,6 +122,9 @@ export const AccountColumnCustomizer = ({
                 />
                 <Label htmlFor={column.field} className="flex-1 cursor-pointer">
                   {column.label}
+                  {customFieldKeys.has(column.field) && (
+                    <span className="ml-2 text-xs text-muted-foreground">Custom</span>
+                  )}
                 </Label>
               </div>
             ))}
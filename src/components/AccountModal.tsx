@@ -6,6 +6,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useDuplicateDetection } from "@/hooks/useDuplicateDetection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useApprovalWorkflows } from "@/hooks/useApprovalWorkflows";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -18,6 +20,8 @@ import { X, ChevronDown } from "lucide-react";
 import { Account } from "./AccountTable";
 import { DuplicateWarning } from "./shared/DuplicateWarning";
 import { MergeRecordsModal } from "./shared/MergeRecordsModal";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
+import { CustomFieldValues, getCustomFieldValues, getMissingRequiredFields } from "@/utils/customFieldUtils";
 import { regions, regionCountries } from "@/utils/countryData";
 
 const accountSchema = z.object({
@@ -77,8 +81,12 @@ const companyTypes = ["OEM", "Tier-1", "Tier-2", "Startup", "Enterprise", "SMB",
 
 export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated }: AccountModalProps) => {
   const { toast } = useToast();
+  const { requestApprovalIfRequired } = useApprovalWorkflows();
   const { logCreate, logUpdate } = useCRUDAudit();
   const [loading, setLoading] = useState(false);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
+  const [showCustomFieldErrors, setShowCustomFieldErrors] = useState(false);
+  const { fields: customFields } = useCustomFields('account');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [availableCountries, setAvailableCountries] = useState<string[]>([]);
   const [users, setUsers] = useState<{ id: string; full_name: string | null }[]>([]);
@@ -172,6 +180,7 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
         account_owner: account.account_owner || "",
       });
       setSelectedTags(account.tags || []);
+      setCustomFieldValues(getCustomFieldValues(account));
       if (account.region && regionCountries[account.region]) {
         setAvailableCountries(regionCountries[account.region]);
       }
@@ -190,7 +199,9 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
         account_owner: "",
       });
       setSelectedTags([]);
+      setCustomFieldValues({});
     }
+    setShowCustomFieldErrors(false);
   }, [account, form]);
 
   const toggleTag = (tag: string) => {
@@ -213,6 +224,17 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
         return;
       }
 
+      const missingCustomFields = getMissingRequiredFields(customFields, customFieldValues);
+      if (missingCustomFields.length > 0) {
+        setShowCustomFieldErrors(true);
+        toast({
+          title: "Missing required fields",
+          description: `Please fill in: ${missingCustomFields.join(', ')}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
       // Check for exact email duplicate (blocking)
       if (data.email && !account) {
         const { data: existingAccount } = await supabase
@@ -247,8 +269,28 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
         phone: data.phone || null,
         modified_by: user.data.user.id,
         account_owner: data.account_owner || user.data.user.id,
+        custom_fields: customFieldValues,
       };
 
+      // Held changes are written by the final approver, not here
+      const pendingApproval = await requestApprovalIfRequired({
+        entityType: 'accounts',
+        entityId: account?.id || crypto.randomUUID(),
+        entityName: data.company_name,
+        changes: account ? accountData : { ...accountData, created_by: user.data.user.id },
+        currentRecord: account as unknown as Record<string, unknown>,
+      });
+
+      if (pendingApproval) {
+        toast({
+          title: "Submitted for approval",
+          description: `This change requires approval (${pendingApproval.workflowName}) and will be applied once approved.`,
+        });
+        onSuccess();
+        onOpenChange(false);
+        return;
+      }
+
       if (account) {
         const { error } = await supabase
           .from('accounts')
@@ -645,6 +687,13 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
               )}
             />
 
+            <CustomFieldsSection
+              entityType="account"
+              values={customFieldValues}
+              onChange={setCustomFieldValues}
+              showErrors={showCustomFieldErrors}
+            />
+
             <div className="flex justify-end gap-2 pt-4">
               <Button
                 type="button"
@@ -27,6 +27,11 @@ import { formatDateTimeStandard } from "@/utils/formatUtils";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { TableSkeleton } from "./shared/Skeletons";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { CustomFieldValues } from "@/utils/customFieldUtils";
+import { useColumnsWithCustomFields } from "@/hooks/useCustomFields";
+import { AdvancedSearchBar, SearchGroup, applyAdvancedSearch } from "./shared/AdvancedSearchBar";
+import { CustomFieldValueCell } from "./shared/CustomFieldValueCell";
+import { getCustomFieldSortValue, isCustomFieldColumn } from "@/utils/customFieldUtils";
 
 // Export ref interface for parent component
 export interface AccountTableRef {
@@ -53,6 +58,7 @@ export interface Account {
   deal_count?: number;
   contact_count?: number;
   lead_count?: number;
+  custom_fields?: CustomFieldValues;
 }
 interface AccountTableProps {
   showColumnCustomizer: boolean;
@@ -85,17 +91,21 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   const [searchParams, setSearchParams] = useSearchParams();
   const [filteredAccounts, setFilteredAccounts] = useState<Account[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
+  // Remounts the advanced search so clearing filters also clears its conditions
+  const [advancedSearchKey, setAdvancedSearchKey] = useState(0);
   const [statusFilter, setStatusFilter] = useState(initialStatus);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
   // Column preferences hook
+  const { columns: accountColumns, customColumns, customFields } = useColumnsWithCustomFields('account', defaultAccountColumns);
   const {
     columns,
     saveColumns,
     isSaving
   } = useColumnPreferences({
     moduleName: 'accounts',
-    defaultColumns: defaultAccountColumns
+    defaultColumns: accountColumns
   });
   const [localColumns, setLocalColumns] = useState<AccountColumnConfig[]>(columns);
 
@@ -273,10 +283,11 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
     if (tagFilter) {
       filtered = filtered.filter(account => account.tags?.includes(tagFilter));
     }
+    filtered = applyAdvancedSearch(filtered, searchGroups);
     if (sortField) {
       filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Account] || '';
-        const bValue = b[sortField as keyof Account] || '';
+        const aValue = (isCustomFieldColumn(sortField) ? getCustomFieldSortValue(a, sortField) : a[sortField as keyof Account]) || '';
+        const bValue = (isCustomFieldColumn(sortField) ? getCustomFieldSortValue(b, sortField) : b[sortField as keyof Account]) || '';
 
         // Handle numeric sorting for counts
         if (typeof aValue === 'number' && typeof bValue === 'number') {
@@ -288,7 +299,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
     }
     setFilteredAccounts(filtered);
     setCurrentPage(1);
-  }, [accounts, searchTerm, statusFilter, ownerFilter, tagFilter, sortField, sortDirection]);
+  }, [accounts, searchTerm, statusFilter, ownerFilter, tagFilter, searchGroups, sortField, sortDirection]);
   
   const handleSort = (field: string) => {
     if (sortField === field) {
@@ -429,12 +440,14 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   const pageAccounts = getCurrentPageAccounts();
 
   // Check if any filters are active
-  const hasActiveFilters = searchTerm !== "" || statusFilter !== "all" || ownerFilter !== "all" || tagFilter !== null;
+  const hasActiveFilters = searchTerm !== "" || statusFilter !== "all" || ownerFilter !== "all" || tagFilter !== null || searchGroups.length > 0;
   const clearAllFilters = () => {
     setSearchTerm("");
     setStatusFilter("all");
     setOwnerFilter("all");
     setTagFilter(null);
+    setSearchGroups([]);
+    setAdvancedSearchKey(key => key + 1);
   };
 
   // Generate initials from company name
@@ -488,6 +501,12 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
               </button>
             </Badge>}
           
+          <AdvancedSearchBar
+            key={advancedSearchKey}
+            fields={defaultAccountColumns.map(column => ({ value: column.field, label: column.label }))}
+            customFields={customFields}
+            onSearch={setSearchGroups}
+          />
           <ClearFiltersButton hasActiveFilters={hasActiveFilters} onClear={clearAllFilters} />
         </div>
         
@@ -655,6 +674,8 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
                             )
+                          ) : isCustomFieldColumn(column.field) ? (
+                            <CustomFieldValueCell record={account} columnKey={column.field} fields={customFields} />
                           ) : (
                             account[column.field as keyof Account] ? (
                               <span title={account[column.field as keyof Account]?.toString()} className="truncate block">{account[column.field as keyof Account]?.toString()}</span>
@@ -737,7 +758,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
       setEditingAccount(null);
     }} />
 
-      <AccountColumnCustomizer open={showColumnCustomizer} onOpenChange={setShowColumnCustomizer} columns={localColumns} onColumnsChange={setLocalColumns} onSave={saveColumns} isSaving={isSaving} />
+      <AccountColumnCustomizer open={showColumnCustomizer} onOpenChange={setShowColumnCustomizer} columns={localColumns} onColumnsChange={setLocalColumns} onSave={saveColumns} isSaving={isSaving} customColumns={customColumns} />
 
       <AccountDeleteConfirmDialog open={showDeleteDialog} onConfirm={handleDelete} onCancel={() => {
       setShowDeleteDialog(false);
@@ -11,7 +11,10 @@ import {
   Sun,
   Moon,
   Building2,
-  CheckSquare
+  CheckSquare,
+  ClipboardCheck,
+  Megaphone,
+  TrendingUp
 } from "lucide-react";
 import { NavLink, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
@@ -43,7 +46,10 @@ const allMenuItems = [
   { title: "Leads", url: "/leads", route: "/leads", icon: UserPlus },
   { title: "Meetings", url: "/meetings", route: "/meetings", icon: Video },
   { title: "Deals", url: "/deals", route: "/deals", icon: BarChart3 },
+  { title: "Pipeline Analytics", url: "/pipeline-analytics", route: "/pipeline-analytics", icon: TrendingUp },
   { title: "Tasks", url: "/tasks", route: "/tasks", icon: CheckSquare },
+  { title: "Approvals", url: "/approvals", route: "/approvals", icon: ClipboardCheck },
+  { title: "Campaigns", url: "/campaigns", route: "/campaigns", icon: Megaphone },
   { title: "Settings", url: "/settings", route: "/settings", icon: Settings },
 ];
 
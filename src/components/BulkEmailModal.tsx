@@ -40,8 +40,9 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
   const [selectedTemplate, setSelectedTemplate] = useState<string>("");
   const [subject, setSubject] = useState("");
   const [body, setBody] = useState("");
+  const [campaignName, setCampaignName] = useState("");
+  const [throttlePerMinute, setThrottlePerMinute] = useState(30);
   const [isSending, setIsSending] = useState(false);
-  const [sendProgress, setSendProgress] = useState({ sent: 0, total: 0 });
   
   const senderEmail = user?.email || "noreply@acmecrm.com";
   
@@ -55,7 +56,8 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
       setSelectedTemplate("");
       setSubject("");
       setBody("");
-      setSendProgress({ sent: 0, total: 0 });
+      setCampaignName("");
+      setThrottlePerMinute(30);
     }
   }, [open]);
 
@@ -89,12 +91,6 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
     }
   };
 
-  const replaceVariables = (text: string, recipient: BulkEmailRecipient) => {
-    return text
-      .replace(/\{\{contact_name\}\}/g, recipient.name || '')
-      .replace(/\{\{name\}\}/g, recipient.name || '');
-  };
-
   const handleSendBulkEmail = async () => {
     if (validRecipients.length === 0) {
       toast({
@@ -115,66 +111,39 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
     }
 
     setIsSending(true);
-    setSendProgress({ sent: 0, total: validRecipients.length });
-    
-    let successCount = 0;
-    let failCount = 0;
-
-    for (const recipient of validRecipients) {
-      try {
-        const personalizedSubject = replaceVariables(subject.trim(), recipient);
-        const personalizedBody = replaceVariables(body.trim(), recipient);
-
-        const { data, error } = await supabase.functions.invoke('send-email', {
-          body: {
-            to: recipient.email,
-            toName: recipient.name,
-            subject: personalizedSubject,
-            body: personalizedBody,
-            from: senderEmail,
-          },
-        });
 
-        if (error) throw error;
-
-        // Log email to history
-        await supabase.from('email_history').insert({
-          recipient_email: recipient.email!,
-          recipient_name: recipient.name,
-          subject: personalizedSubject,
-          body: personalizedBody,
-          sender_email: senderEmail,
-          sent_by: user?.id,
-          lead_id: recipient.type === 'lead' ? recipient.id : null,
-          contact_id: recipient.type === 'contact' ? recipient.id : null,
-          account_id: recipient.type === 'account' ? recipient.id : null,
-          status: 'sent',
-        });
+    try {
+      // Sending happens server-side so it survives the tab closing; the worker
+      // personalises {{name}} per recipient and writes each email_history row
+      const { data: campaignId, error } = await supabase.rpc('create_email_campaign', {
+        p_name: campaignName.trim() || subject.trim(),
+        p_subject: subject.trim(),
+        p_body: body.trim(),
+        p_sender_email: senderEmail,
+        p_throttle_per_minute: throttlePerMinute,
+        p_recipients: validRecipients.map(r => ({ type: r.type, id: r.id, email: r.email, name: r.name })),
+      });
 
-        successCount++;
-      } catch (error) {
-        console.error(`Failed to send email to ${recipient.email}:`, error);
-        failCount++;
-      }
-      
-      setSendProgress(prev => ({ ...prev, sent: prev.sent + 1 }));
-    }
+      if (error) throw new Error(error.message);
 
-    setIsSending(false);
+      // Start the first batch now rather than on the next scheduled run
+      supabase.functions.invoke('process-email-campaigns', { body: { campaignId } }).catch(() => undefined);
 
-    if (successCount > 0) {
       toast({
-        title: "Bulk email completed",
-        description: `Successfully sent ${successCount} emails${failCount > 0 ? `, ${failCount} failed` : ''}`,
+        title: "Campaign queued",
+        description: `${validRecipients.length} emails will be sent at up to ${throttlePerMinute} per minute. Track progress on the Campaigns page.`,
       });
       onEmailsSent?.();
       onOpenChange(false);
-    } else {
+    } catch (error) {
+      console.error('Failed to queue bulk email campaign:', error);
       toast({
-        title: "Failed to send emails",
-        description: "All emails failed to send. Please try again.",
+        title: "Failed to queue emails",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setIsSending(false);
     }
   };
 
@@ -213,6 +182,29 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
             <p className="font-medium text-sm">{senderEmail}</p>
           </div>
 
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="campaign-name">Campaign Name</Label>
+              <Input
+                id="campaign-name"
+                value={campaignName}
+                onChange={(e) => setCampaignName(e.target.value)}
+                placeholder="Defaults to the subject"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="throttle">Emails per minute</Label>
+              <Input
+                id="throttle"
+                type="number"
+                min={1}
+                max={600}
+                value={throttlePerMinute}
+                onChange={(e) => setThrottlePerMinute(Math.min(600, Math.max(1, parseInt(e.target.value) || 1)))}
+              />
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="template">Email Template</Label>
             <Select value={selectedTemplate} onValueChange={handleTemplateSelect}>
@@ -254,23 +246,6 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
             />
           </div>
 
-          {isSending && (
-            <div className="p-3 bg-muted/50 rounded-lg">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm">Sending emails...</span>
-                <span className="text-sm text-muted-foreground">
-                  {sendProgress.sent} / {sendProgress.total}
-                </span>
-              </div>
-              <div className="w-full bg-secondary rounded-full h-2">
-                <div 
-                  className="bg-primary h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${(sendProgress.sent / sendProgress.total) * 100}%` }}
-                />
-              </div>
-            </div>
-          )}
-
           <div className="flex justify-end gap-2 pt-4">
             <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>
               Cancel
@@ -283,7 +258,7 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
               {isSending ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Sending...
+                  Queuing...
                 </>
               ) : (
                 <>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -19,6 +19,8 @@ interface ContactColumnCustomizerProps {
   onColumnsChange: (columns: ContactColumnConfig[]) => void;
   onSave?: (columns: ContactColumnConfig[]) => Promise<unknown>;
   isSaving?: boolean;
+  // Columns for the entity's custom fields, offered after the defaults
+  customColumns?: ContactColumnConfig[];
 }
 
 // Updated default columns - removed redundant fields (region, industry, website are in Account; engagement metrics are in detail view)
@@ -36,6 +38,8 @@ export const defaultContactColumns: ContactColumnConfig[] = [
   { field: 'contact_owner', label: 'Contact Owner', visible: true, order: 10 },
 ];
 
+const NO_CUSTOM_COLUMNS: ContactColumnConfig[] = [];
+
 export const ContactColumnCustomizer = ({
   open,
   onOpenChange,
@@ -43,7 +47,14 @@ export const ContactColumnCustomizer = ({
   onColumnsChange,
   onSave,
   isSaving = false,
+  customColumns = NO_CUSTOM_COLUMNS,
 }: ContactColumnCustomizerProps) => {
+  const availableColumns = useMemo(
+    () => [...defaultContactColumns, ...customColumns],
+    [customColumns]
+  );
+  const customFieldKeys = useMemo(() => new Set(customColumns.map(c => c.field)), [customColumns]);
+
   // Initialize local columns only when dialog opens
   const [localColumns, setLocalColumns] = useState<ContactColumnConfig[]>([]);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -52,11 +63,11 @@ export const ContactColumnCustomizer = ({
   useEffect(() => {
     if (open && !isInitialized) {
       const existingFields = new Set(columns.map(c => c.field));
-      const missingColumns = defaultContactColumns.filter(dc => !existingFields.has(dc.field));
+      const missingColumns = availableColumns.filter(dc => !existingFields.has(dc.field));
       
       // Filter out invalid columns that are not in the default columns list
       const validColumns = columns.filter(c => 
-        defaultContactColumns.some(dc => dc.field === c.field)
+        availableColumns.some(dc => dc.field === c.field)
       );
       
       if (missingColumns.length > 0 || validColumns.length !== columns.length) {
@@ -71,7 +82,7 @@ export const ContactColumnCustomizer = ({
     if (!open) {
       setIsInitialized(false);
     }
-  }, [open, columns, isInitialized]);
+  }, [open, columns, isInitialized, availableColumns]);
 
   const handleVisibilityChange = (field: string, visible: boolean) => {
     const updatedColumns = localColumns.map(col =>
@@ -89,7 +100,7 @@ export const ContactColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultContactColumns);
+    setLocalColumns(availableColumns);
   };
 
   return (
@@ -123,6 +134,9 @@ export const ContactColumnCustomizer = ({
                   className="flex-1 cursor-pointer"
                 >
                   {column.label}
+                  {customFieldKeys.has(column.field) && (
+                    <span className="ml-2 text-xs text-muted-foreground">Custom</span>
+                  )}
                 </Label>
               </div>
             ))}
@@ -6,6 +6,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useDuplicateDetection } from "@/hooks/useDuplicateDetection";
+import { useCustomFields } from "@/hooks/useCustomFields";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -17,6 +18,8 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { X, ChevronDown, Plus, Loader2 } from "lucide-react";
 import { DuplicateWarning } from "./shared/DuplicateWarning";
 import { MergeRecordsModal } from "./shared/MergeRecordsModal";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
+import { CustomFieldValues, getCustomFieldValues, getMissingRequiredFields } from "@/utils/customFieldUtils";
 import { AccountModal } from "./AccountModal";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
@@ -70,6 +73,7 @@ interface Contact {
   contact_source?: string;
   description?: string;
   tags?: string[];
+  custom_fields?: CustomFieldValues;
 }
 
 interface Account {
@@ -107,6 +111,9 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
   const { toast } = useToast();
   const { logCreate, logUpdate } = useCRUDAudit();
   const [loading, setLoading] = useState(false);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
+  const [showCustomFieldErrors, setShowCustomFieldErrors] = useState(false);
+  const { fields: customFields } = useCustomFields('contact');
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [accountSearch, setAccountSearch] = useState("");
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
@@ -204,6 +211,7 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         contact_owner: (contact as any).contact_owner || "",
       });
       setSelectedTags(contact.tags || []);
+      setCustomFieldValues(getCustomFieldValues(contact));
     } else {
       form.reset({
         contact_name: "",
@@ -217,7 +225,9 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         contact_owner: "",
       });
       setSelectedTags([]);
+      setCustomFieldValues({});
     }
+    setShowCustomFieldErrors(false);
   }, [contact, form]);
 
   const onSubmit = async (data: ContactFormData) => {
@@ -234,6 +244,17 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         return;
       }
 
+      const missingCustomFields = getMissingRequiredFields(customFields, customFieldValues);
+      if (missingCustomFields.length > 0) {
+        setShowCustomFieldErrors(true);
+        toast({
+          title: "Missing required fields",
+          description: `Please fill in: ${missingCustomFields.join(', ')}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
       // Check for exact email duplicate (blocking)
       if (data.email && !contact) {
         const { data: existingContact } = await supabase
@@ -270,6 +291,7 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         created_by: user.data.user.id,
         modified_by: user.data.user.id,
         contact_owner: data.contact_owner || user.data.user.id,
+        custom_fields: customFieldValues,
       };
 
       if (contact) {
@@ -615,6 +637,13 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
               )}
             />
 
+            <CustomFieldsSection
+              entityType="contact"
+              values={customFieldValues}
+              onChange={setCustomFieldValues}
+              showErrors={showCustomFieldErrors}
+            />
+
             <div className="flex justify-end gap-2 pt-4">
               <Button
                 type="button"
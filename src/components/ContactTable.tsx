@@ -31,6 +31,10 @@ import { TableSkeleton } from "./shared/Skeletons";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { moveFieldToEnd } from "@/utils/columnOrderUtils";
 import { formatDateTimeStandard } from "@/utils/formatUtils";
+import { useColumnsWithCustomFields } from "@/hooks/useCustomFields";
+import { AdvancedSearchBar, SearchGroup, applyAdvancedSearch } from "./shared/AdvancedSearchBar";
+import { CustomFieldValueCell } from "./shared/CustomFieldValueCell";
+import { getCustomFieldSortValue, isCustomFieldColumn } from "@/utils/customFieldUtils";
 
 // Export ref interface for parent component
 export interface ContactTableRef {
@@ -96,13 +100,17 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
   const [searchParams, setSearchParams] = useSearchParams();
   const [filteredContacts, setFilteredContacts] = useState<Contact[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
+  // Remounts the advanced search so clearing filters also clears its conditions
+  const [advancedSearchKey, setAdvancedSearchKey] = useState(0);
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
   // Column preferences hook
+  const { columns: contactColumns, customColumns, customFields } = useColumnsWithCustomFields('contact', defaultContactColumns);
   const { columns, saveColumns, isSaving } = useColumnPreferences({
     moduleName: 'contacts',
-    defaultColumns: defaultContactColumns,
+    defaultColumns: contactColumns,
   });
   const [localColumns, setLocalColumns] = useState<ContactColumnConfig[]>(columns);
 
@@ -316,11 +324,13 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
       filtered = filtered.filter(contact => contact.tags?.includes(tagFilter));
     }
 
+    filtered = applyAdvancedSearch(filtered, searchGroups);
+
     // Apply sorting
     if (sortField) {
       filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Contact] || '';
-        const bValue = b[sortField as keyof Contact] || '';
+        const aValue = (isCustomFieldColumn(sortField) ? getCustomFieldSortValue(a, sortField) : a[sortField as keyof Contact]) || '';
+        const bValue = (isCustomFieldColumn(sortField) ? getCustomFieldSortValue(b, sortField) : b[sortField as keyof Contact]) || '';
 
         if (typeof aValue === 'number' && typeof bValue === 'number') {
           return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
@@ -333,7 +343,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
 
     setFilteredContacts(filtered);
     setCurrentPage(1);
-  }, [contacts, debouncedSearchTerm, sourceFilter, ownerFilter, tagFilter, sortField, sortDirection]);
+  }, [contacts, debouncedSearchTerm, sourceFilter, ownerFilter, tagFilter, searchGroups, sortField, sortDirection]);
 
   const handleSort = (field: string) => {
     if (sortField === field) {
@@ -471,13 +481,15 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
   const { displayNames } = useUserDisplayNames(ownerIds);
 
   // Check if any filters are active
-  const hasActiveFilters = debouncedSearchTerm !== "" || sourceFilter !== "all" || ownerFilter !== "all" || tagFilter !== null;
+  const hasActiveFilters = debouncedSearchTerm !== "" || sourceFilter !== "all" || ownerFilter !== "all" || tagFilter !== null || searchGroups.length > 0;
 
   const clearAllFilters = () => {
     setSearchTerm("");
     setSourceFilter("all");
     setOwnerFilter("all");
     setTagFilter(null);
+    setSearchGroups([]);
+    setAdvancedSearchKey(key => key + 1);
   };
 
   // Generate initials from contact name
@@ -574,6 +586,12 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
             </Badge>
           )}
 
+          <AdvancedSearchBar
+            key={advancedSearchKey}
+            fields={defaultContactColumns.map(column => ({ value: column.field, label: column.label }))}
+            customFields={customFields}
+            onSearch={setSearchGroups}
+          />
           <ClearFiltersButton hasActiveFilters={hasActiveFilters} onClear={clearAllFilters} />
         </div>
 
@@ -758,6 +776,8 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
                           ) : (
                             <span className="text-center text-muted-foreground w-full block">-</span>
                           )
+                        ) : isCustomFieldColumn(column.field) ? (
+                          <CustomFieldValueCell record={contact} columnKey={column.field} fields={customFields} />
                         ) : (
                           getDisplayValue(contact, column.field) && getDisplayValue(contact, column.field) !== '-' ? (
                             <span className="truncate block" title={String(getDisplayValue(contact, column.field))}>
@@ -898,6 +918,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
         onColumnsChange={setLocalColumns}
         onSave={saveColumns}
         isSaving={isSaving}
+        customColumns={customColumns}
       />
 
       <ContactDeleteConfirmDialog
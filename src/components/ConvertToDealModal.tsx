@@ -1,22 +1,25 @@
 
-import { useState } from "react";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { useToast } from "@/hooks/use-toast";
-import { DealForm } from "./DealForm";
-import { supabase } from "@/integrations/supabase/client";
-import { Deal } from "@/types/deal";
-import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
-import { useCRUDAudit } from "@/hooks/useCRUDAudit";
+import { Loader2, ArrowLeft, ArrowRight } from "lucide-react";
+import { useLeadConversion, useLeadConversionCandidates } from "@/hooks/useLeadConversion";
+import { AccountContactStep } from "./leads/conversion/AccountContactStep";
+import { DealMapping, DealMappingStep } from "./leads/conversion/DealMappingStep";
+import { RelatedRecordSelection, RelatedRecordsStep } from "./leads/conversion/RelatedRecordsStep";
 
 interface Lead {
   id: string;
   lead_name: string;
-  company_name?: string;
-  country?: string;
-  contact_owner?: string;
-  created_by?: string;
-  lead_status?: string;
+  company_name?: string | null;
+  email?: string | null;
+  country?: string | null;
+  description?: string | null;
+  account_id?: string | null;
+  converted_from_contact_id?: string | null;
+  contact_owner?: string | null;
+  created_by?: string | null;
+  lead_status?: string | null;
 }
 
 interface ConvertToDealModalProps {
@@ -26,124 +29,146 @@ interface ConvertToDealModalProps {
   onSuccess: () => void;
 }
 
+const STEPS = [
+  { key: 'match', title: 'Account & contact' },
+  { key: 'deal', title: 'Deal fields' },
+  { key: 'related', title: 'Related records' },
+] as const;
+
+const ALL_RELATED: RelatedRecordSelection = { actionItems: true, tasks: true, meetings: true, emails: true };
+
+const mapLeadToDeal = (lead: Lead): DealMapping => ({
+  deal_name: `Deal for ${lead.lead_name}`,
+  customer_name: lead.company_name || '',
+  lead_name: lead.lead_name,
+  lead_owner: lead.contact_owner || lead.created_by || null,
+  region: lead.country || '',
+  priority: 3,
+  currency_type: 'EUR',
+  project_name: '',
+  internal_comment: lead.description || '',
+});
+
 export const ConvertToDealModal = ({ open, onOpenChange, lead, onSuccess }: ConvertToDealModalProps) => {
-  const { toast } = useToast();
-  const { logCreate, logUpdate } = useCRUDAudit();
+  const [step, setStep] = useState(0);
+  // Empty until the user picks, so the suggested match applies once candidates load
+  const [accountChoice, setAccountChoice] = useState('');
+  const [contactChoice, setContactChoice] = useState('');
+  const [deal, setDeal] = useState<DealMapping | null>(null);
+  const [related, setRelated] = useState<RelatedRecordSelection>(ALL_RELATED);
+
+  const { accounts, contacts, related: counts, loading } = useLeadConversionCandidates(lead, open);
+  const { convertLead, converting } = useLeadConversion();
+
+  useEffect(() => {
+    if (open && lead) {
+      setStep(0);
+      setAccountChoice('');
+      setContactChoice('');
+      setDeal(mapLeadToDeal(lead));
+      setRelated(ALL_RELATED);
+    }
+  }, [open, lead]);
+
+  const effectiveAccount = useMemo(
+    () => accountChoice || accounts[0]?.id || (lead?.company_name?.trim() ? 'new' : 'none'),
+    [accountChoice, accounts, lead]
+  );
+  const effectiveContact = contactChoice || contacts[0]?.id || 'new';
 
-  // Get display names for lead owner
-  const leadOwnerIds = lead?.created_by ? [lead.created_by] : [];
-  const { displayNames } = useUserDisplayNames(leadOwnerIds);
+  if (!lead || !deal) return null;
 
-  if (!lead) return null;
+  const isLastStep = step === STEPS.length - 1;
+  const canContinue = step !== 1 || deal.deal_name.trim().length > 0;
 
-  const handleSaveDeal = async (dealData: Partial<Deal>) => {
+  const handleConvert = async () => {
     try {
-      console.log("Converting lead to deal with data:", dealData);
-      
-      // Get current user for created_by field
-      const { data: { user }, error: userError } = await supabase.auth.getUser();
-      
-      if (userError || !user) {
-        throw new Error("User not authenticated");
-      }
-
-      // Get the lead owner display name from the hook
-      const leadOwnerDisplayName = lead.created_by ? displayNames[lead.created_by] || 'Unknown User' : '';
-
-      // Ensure required fields are present and remove any undefined/null values that could cause UUID errors
-      const dealToInsert = {
-        deal_name: dealData.deal_name || `Deal for ${lead.lead_name}`,
-        stage: dealData.stage || 'Lead',
-        project_name: dealData.project_name || '',
-        customer_name: dealData.customer_name || lead.company_name || '',
-        lead_name: dealData.lead_name || lead.lead_name,
-        lead_owner: dealData.lead_owner || leadOwnerDisplayName,
-        region: dealData.region || lead.country || '',
-        priority: dealData.priority || 3,
-        created_by: user.id, // Ensure created_by is set for RLS
-        // Only include fields that have actual values to avoid UUID parsing errors
-        ...(dealData.currency_type && { currency_type: dealData.currency_type }),
-        ...(dealData.quarterly_revenue_q1 !== undefined && { quarterly_revenue_q1: dealData.quarterly_revenue_q1 }),
-        ...(dealData.quarterly_revenue_q2 !== undefined && { quarterly_revenue_q2: dealData.quarterly_revenue_q2 }),
-        ...(dealData.quarterly_revenue_q3 !== undefined && { quarterly_revenue_q3: dealData.quarterly_revenue_q3 }),
-        ...(dealData.quarterly_revenue_q4 !== undefined && { quarterly_revenue_q4: dealData.quarterly_revenue_q4 }),
-      };
-      
-      const { data: insertedDeal, error } = await supabase
-        .from('deals')
-        .insert([dealToInsert])
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // Log deal creation
-      await logCreate('deals', insertedDeal.id, dealToInsert);
-
-      // Update lead status to 'Converted'
-      const { error: leadUpdateError } = await supabase
-        .from('leads')
-        .update({ lead_status: 'Converted' })
-        .eq('id', lead.id);
-
-      if (leadUpdateError) {
-        console.error("Error updating lead status:", leadUpdateError);
-        throw leadUpdateError; // Throw the error so user knows about it
-      }
-
-      // Log lead update
-      await logUpdate('leads', lead.id, { lead_status: 'Converted' }, { lead_status: lead.lead_status });
-
-      toast({
-        title: "Success",
-        description: "Lead converted to deal successfully",
+      await convertLead({
+        leadId: lead.id,
+        deal: { ...deal, deal_name: deal.deal_name.trim() },
+        accountId: effectiveAccount === 'none' ? null : effectiveAccount,
+        contactId: effectiveContact === 'none' ? null : effectiveContact,
+        moveActionItems: related.actionItems && counts.actionItems > 0,
+        moveTasks: related.tasks && counts.tasks > 0,
+        moveMeetings: related.meetings && counts.meetings > 0,
+        moveEmails: related.emails && counts.emails > 0,
       });
-      
       onSuccess();
       onOpenChange(false);
-    } catch (error) {
-      console.error("Error converting lead to deal:", error);
-      toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to convert lead to deal",
-        variant: "destructive",
-      });
-      throw error;
+    } catch {
+      // Error toast comes from the hook
     }
   };
 
-  // Create initial deal data based on lead with all required fields
-  // Keep Project Name blank as requested
-  const initialDeal: Deal = {
-    id: '', // Will be generated by database
-    created_at: new Date().toISOString(),
-    modified_at: new Date().toISOString(),
-    created_by: null, // Will be set by RLS
-    modified_by: null,
-    deal_name: `Deal for ${lead.lead_name}`, // This will be the deal name, not project name
-    stage: 'Lead',
-    project_name: '', // Keep blank as requested
-    customer_name: lead.company_name || '',
-    lead_name: lead.lead_name,
-    lead_owner: lead.created_by ? (displayNames[lead.created_by] || 'Unknown User') : '', // Use display name from hook
-    region: lead.country || '',
-    priority: 3, // Default priority
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Convert Lead to Deal</DialogTitle>
+          <DialogDescription>
+            Step {step + 1} of {STEPS.length}: {STEPS[step].title}
+          </DialogDescription>
         </DialogHeader>
-        <DealForm 
-          deal={initialDeal}
-          isOpen={true}
-          onClose={() => onOpenChange(false)}
-          onSave={handleSaveDeal}
-          isCreating={true}
-          initialStage="Lead"
-        />
+
+        <div className="flex gap-2">
+          {STEPS.map((s, index) => (
+            <div key={s.key} className={`h-1 flex-1 rounded-full ${index <= step ? 'bg-primary' : 'bg-muted'}`} />
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            <span className="ml-2 text-muted-foreground">Checking for duplicates...</span>
+          </div>
+        ) : (
+          <>
+            {STEPS[step].key === 'match' && (
+              <AccountContactStep
+                lead={lead}
+                accounts={accounts}
+                contacts={contacts}
+                accountChoice={effectiveAccount}
+                contactChoice={effectiveContact}
+                onAccountChoiceChange={setAccountChoice}
+                onContactChoiceChange={setContactChoice}
+              />
+            )}
+            {STEPS[step].key === 'deal' && (
+              <DealMappingStep
+                values={deal}
+                onChange={(field, value) => setDeal(prev => (prev ? { ...prev, [field]: value } : prev))}
+              />
+            )}
+            {STEPS[step].key === 'related' && (
+              <RelatedRecordsStep
+                counts={counts}
+                selection={related}
+                onChange={(key, checked) => setRelated(prev => ({ ...prev, [key]: checked }))}
+              />
+            )}
+          </>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step > 0 && (
+            <Button variant="outline" onClick={() => setStep(step - 1)} disabled={converting}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          )}
+          {isLastStep ? (
+            <Button onClick={handleConvert} disabled={converting || loading}>
+              {converting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Convert to Deal
+            </Button>
+          ) : (
+            <Button onClick={() => setStep(step + 1)} disabled={loading || !canContinue}>
+              Next
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          )}
+        </DialogFooter>
       </DialogContent>
     </Dialog>
   );
@@ -3,9 +3,11 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Deal, STAGE_COLORS } from "@/types/deal";
+import { Deal } from "@/types/deal";
 import { format } from "date-fns";
 import { Trash2, XCircle } from "lucide-react";
+import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { getDealRateDate } from "@/utils/currencyConversion";
 
 interface DealCardProps {
   deal: Deal;
@@ -14,7 +16,9 @@ interface DealCardProps {
   isSelected?: boolean;
   selectionMode?: boolean;
   onDelete?: (dealId: string) => void;
-  onStageChange?: (dealId: string, newStage: any) => void;
+  onStageChange?: (dealId: string, newStage: string) => void;
+  // Stage offered as a one-click "drop" action on this card
+  dropStage?: string;
   displayNames?: Record<string, string>;
 }
 
@@ -26,17 +30,15 @@ export const DealCard = ({
   selectionMode, 
   onDelete, 
   onStageChange,
+  dropStage,
   displayNames 
 }: DealCardProps) => {
-  const formatCurrency = (amount: number, currency: string = 'EUR') => {
-    const symbols = { USD: '$', EUR: '€', INR: '₹' };
-    return `${symbols[currency as keyof typeof symbols] || '€'}${amount.toLocaleString()}`;
-  };
+  const { formatAmount } = useCurrencyConversion();
 
   const handleMoveToDropped = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (onStageChange) {
-      onStageChange(deal.id, 'Dropped');
+    if (onStageChange && dropStage) {
+      onStageChange(deal.id, dropStage);
     }
   };
 
@@ -55,13 +57,13 @@ export const DealCard = ({
             {deal.project_name || 'Untitled Deal'}
           </CardTitle>
           <div className="flex items-center gap-1">
-            {!selectionMode && deal.stage === 'Offered' && onStageChange && (
+            {!selectionMode && dropStage && onStageChange && (
               <Button
                 size="sm"
                 variant="ghost"
                 onClick={handleMoveToDropped}
                 className="opacity-0 group-hover:opacity-100 transition-all duration-200 p-1 h-6 w-6 bg-amber-50 hover:bg-amber-100 text-amber-700"
-                title="Move to Dropped"
+                title={`Move to ${dropStage}`}
               >
                 <XCircle className="w-3 h-3" />
               </Button>
@@ -135,7 +137,7 @@ export const DealCard = ({
           <div className="flex items-center justify-between pt-2 border-t border-border/30">
             <span className="text-xs text-muted-foreground font-medium">Value:</span>
             <p className="font-bold text-sm text-primary">
-              {formatCurrency(deal.total_contract_value, deal.currency_type)}
+              {formatAmount(deal.total_contract_value, deal.currency_type, getDealRateDate(deal))}
             </p>
           </div>
         )}
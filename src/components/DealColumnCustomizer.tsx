@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -19,6 +19,8 @@ interface DealColumnCustomizerProps {
   onColumnsChange: (columns: DealColumnConfig[]) => void;
   onSave?: (columns: DealColumnConfig[]) => Promise<unknown>;
   isSaving?: boolean;
+  // Columns for the entity's custom fields, offered after the defaults
+  customColumns?: DealColumnConfig[];
 }
 
 // Removed region column - available from linked Account/Customer
@@ -39,6 +41,8 @@ export const defaultDealColumns: DealColumnConfig[] = [
   { field: 'lead_owner', label: 'Lead Owner', visible: true, order: 13 },
 ];
 
+const NO_CUSTOM_COLUMNS: DealColumnConfig[] = [];
+
 export const DealColumnCustomizer = ({ 
   open, 
   onOpenChange, 
@@ -46,7 +50,14 @@ export const DealColumnCustomizer = ({
   onColumnsChange,
   onSave,
   isSaving = false,
+  customColumns = NO_CUSTOM_COLUMNS,
 }: DealColumnCustomizerProps) => {
+  const availableColumns = useMemo(
+    () => [...defaultDealColumns, ...customColumns],
+    [customColumns]
+  );
+  const customFieldKeys = useMemo(() => new Set(customColumns.map(c => c.field)), [customColumns]);
+
   const [localColumns, setLocalColumns] = useState<DealColumnConfig[]>(columns);
 
   // Sync local columns when props change
@@ -70,7 +81,7 @@ export const DealColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultDealColumns);
+    setLocalColumns(availableColumns);
   };
 
   return (
@@ -104,6 +115,9 @@ export const DealColumnCustomizer = ({
                   className="flex-1 cursor-pointer"
                 >
                   {column.label}
+                  {customFieldKeys.has(column.field) && (
+                    <span className="ml-2 text-xs text-muted-foreground">Custom</span>
+                  )}
                 </Label>
               </div>
             ))}
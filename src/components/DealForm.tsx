@@ -5,19 +5,25 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Deal, DealStage, getNextStage, getFinalStageOptions, getStageIndex, DEAL_STAGES } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { useToast } from "@/hooks/use-toast";
 import { validateRequiredFields, getFieldErrors, validateDateLogic, validateRevenueSum } from "./deal-form/validation";
 import { DealStageForm } from "./deal-form/DealStageForm";
 import { supabase } from "@/integrations/supabase/client";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
+import { getCustomFieldValues, getMissingRequiredFields } from "@/utils/customFieldUtils";
+import { getPipelineStageStyle } from "@/utils/statusBadgeUtils";
 import { Plus, ListTodo } from "lucide-react";
 
 interface DealFormProps {
   deal: Deal | null;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (dealData: Partial<Deal>) => Promise<void>;
+  // Resolves to false when the change was held back for approval
+  onSave: (dealData: Partial<Deal>) => Promise<boolean | void>;
   onRefresh?: () => Promise<void>;
   isCreating?: boolean;
   initialStage?: DealStage;
@@ -32,6 +38,8 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
   const [showValidationErrors, setShowValidationErrors] = useState(false);
   const [linkedTasksCount, setLinkedTasksCount] = useState(0);
   const { toast } = useToast();
+  const { fields: customFields } = useCustomFields('deal');
+  const { activeStages, defaultStage, getStage, getNextStage } = usePipelineStages();
 
   // NEW: Track current user id for default Lead Owner
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -83,10 +91,10 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       };
       setFormData(initializedDeal);
       setShowValidationErrors(false);
-    } else if (isCreating && initialStage) {
+    } else if (isCreating) {
       // Set default values for new deals
       const defaultData: Partial<Deal> = {
-        stage: initialStage,
+        stage: initialStage || defaultStage,
         currency_type: 'EUR', // Default to EUR
         quarterly_revenue_q1: 0,
         quarterly_revenue_q2: 0,
@@ -97,7 +105,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       setShowValidationErrors(false);
     }
     setShowPreviousStages(false);
-  }, [deal, isCreating, initialStage, isOpen]);
+  }, [deal, isCreating, initialStage, defaultStage, isOpen]);
 
   // Fetch linked tasks count for this deal
   useEffect(() => {
@@ -125,7 +133,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
     }
   }, [deal?.id, isOpen, isCreating]);
 
-  const currentStage = formData.stage || 'Lead';
+  const currentStage = formData.stage || defaultStage;
 
   // No field errors since validation is removed
   useEffect(() => {
@@ -156,6 +164,17 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
     setLoading(true);
 
     try {
+      const missingCustomFields = getMissingRequiredFields(customFields, getCustomFieldValues(formData));
+      if (missingCustomFields.length > 0) {
+        setShowValidationErrors(true);
+        toast({
+          title: "Missing required fields",
+          description: `Please fill in: ${missingCustomFields.join(', ')}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
       console.log("=== DEAL FORM SUBMIT DEBUG ===");
       console.log("Current stage:", currentStage);
       console.log("Form data before save:", formData);
@@ -170,7 +189,11 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       
       console.log("Save data:", saveData);
       
-      await onSave(saveData);
+      const saved = await onSave(saveData);
+      if (saved === false) {
+        onClose();
+        return;
+      }
       
       console.log("Save successful");
       toast({
@@ -213,7 +236,11 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
           modified_by: deal?.created_by || formData.created_by
         };
         
-        await onSave(updatedData);
+        const saved = await onSave(updatedData);
+        if (saved === false) {
+          onClose();
+          return;
+        }
         
         toast({
           title: "Success",
@@ -252,7 +279,11 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       };
       
       setFormData(updatedData);
-      await onSave(updatedData);
+      const saved = await onSave(updatedData);
+      if (saved === false) {
+        onClose();
+        return;
+      }
       
       toast({
         title: "Success",
@@ -290,7 +321,11 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       };
       
       setFormData(updatedData);
-      await onSave(updatedData);
+      const saved = await onSave(updatedData);
+      if (saved === false) {
+        onClose();
+        return;
+      }
       
       toast({
         title: "Success",
@@ -313,10 +348,9 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
     }
   };
 
-  // Allow movement to any stage - no restrictions
+  // Allow movement to any active stage - no restrictions
   const getAvailableStagesForMoveTo = (): DealStage[] => {
-    const allStages: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-    return allStages.filter(stage => stage !== currentStage);
+    return activeStages.map(stage => stage.stage_name).filter(stage => stage !== currentStage);
   };
 
   // No validation - always allow movement and saving
@@ -370,7 +404,11 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
                 {isCreating ? 'Create New Deal' : formData.project_name || 'Edit Deal'}
               </DialogTitle>
               <div className="flex items-center gap-2 mt-2">
-                <Badge variant="outline" className="text-sm px-3 py-1">
+                <Badge
+                  variant="outline"
+                  className="text-sm px-3 py-1"
+                  style={getPipelineStageStyle(getStage(currentStage)?.stage_color)}
+                >
                   {currentStage}
                 </Badge>
                 {!isCreating && (
@@ -432,6 +470,13 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
               stage={currentStage}
               showPreviousStages={showPreviousStages}
             />
+            <CustomFieldsSection
+              entityType="deal"
+              values={getCustomFieldValues(formData)}
+              onChange={(values) => handleFieldChange('custom_fields', values)}
+              showErrors={showValidationErrors}
+              className="mt-4"
+            />
           </div>
 
           {/* Action Buttons - Fixed at bottom */}
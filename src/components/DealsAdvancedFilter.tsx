@@ -10,9 +10,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Filter, X, Save, FolderOpen, Trash2, Search } from "lucide-react";
-import { DealStage, DEAL_STAGES } from "@/types/deal";
+import { DealStage } from "@/types/deal";
 import { cn } from "@/lib/utils";
 import { useSavedFilters } from "@/hooks/useSavedFilters";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 
 export interface AdvancedFilterState {
   stages: DealStage[];
@@ -33,6 +34,8 @@ interface DealsAdvancedFilterProps {
   availablePriorities: string[];
   availableProbabilities: string[];
   availableHandoffStatuses: string[];
+  // localStorage key the applied filters are kept under between sessions
+  storageKey?: string;
 }
 
 const initialFilters: AdvancedFilterState = {
@@ -57,7 +60,8 @@ export const DealsAdvancedFilter = ({
   availableLeadOwners,
   availablePriorities,
   availableProbabilities,
-  availableHandoffStatuses
+  availableHandoffStatuses,
+  storageKey = "deals-filters"
 }: DealsAdvancedFilterProps) => {
   const [localFilters, setLocalFilters] = useState<AdvancedFilterState>(filters);
   const [isOpen, setIsOpen] = useState(false);
@@ -66,6 +70,7 @@ export const DealsAdvancedFilter = ({
   const filterRef = useRef<HTMLDivElement>(null);
 
   const { savedFilters, loading, saveFilter, deleteFilter } = useSavedFilters('deals');
+  const { stages } = usePipelineStages();
 
   // Sync local filters with props
   useEffect(() => {
@@ -74,8 +79,8 @@ export const DealsAdvancedFilter = ({
 
   // Save filters to localStorage for session persistence
   useEffect(() => {
-    localStorage.setItem("deals-filters", JSON.stringify(filters));
-  }, [filters]);
+    localStorage.setItem(storageKey, JSON.stringify(filters));
+  }, [filters, storageKey]);
 
   const updateLocalFilter = <K extends keyof AdvancedFilterState,>(key: K, value: AdvancedFilterState[K]) => {
     setLocalFilters(prev => ({
@@ -277,7 +282,7 @@ export const DealsAdvancedFilter = ({
               <div className="grid grid-cols-2 gap-6">
                 {/* Left Column */}
                 <div className="space-y-4">
-                  {renderMultiSelectSection("Stages", "stages", DEAL_STAGES)}
+                  {renderMultiSelectSection("Stages", "stages", stages.map(stage => stage.stage_name))}
                   {renderMultiSelectSection("Regions", "regions", REGION_OPTIONS)}
                   {renderMultiSelectSection("Priorities", "priorities", PRIORITY_OPTIONS)}
                 </div>
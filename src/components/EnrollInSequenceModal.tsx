@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListOrdered, Loader2 } from "lucide-react";
+import { BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { useEmailSequences, useEnrollInSequence } from "@/hooks/useEmailSequences";
+
+interface EnrollInSequenceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipients: BulkEmailRecipient[];
+  onEnrolled?: () => void;
+}
+
+export const EnrollInSequenceModal = ({ open, onOpenChange, recipients, onEnrolled }: EnrollInSequenceModalProps) => {
+  const { sequences, loading } = useEmailSequences(open);
+  const { enroll, enrolling } = useEnrollInSequence();
+  const [sequenceId, setSequenceId] = useState("");
+
+  const activeSequences = sequences.filter(s => s.is_active && s.steps.length > 0);
+  const selectedSequence = activeSequences.find(s => s.id === sequenceId);
+  const withEmail = recipients.filter(r => r.email);
+
+  useEffect(() => {
+    if (open) setSequenceId("");
+  }, [open]);
+
+  const handleEnroll = async () => {
+    if (!sequenceId) return;
+    try {
+      await enroll({
+        sequenceId,
+        enrollees: withEmail
+          .filter(r => r.type === 'lead' || r.type === 'contact')
+          .map(r => ({ type: r.type as 'lead' | 'contact', id: r.id, email: r.email ?? null, name: r.name })),
+      });
+      onEnrolled?.();
+      onOpenChange(false);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5" />
+            Add to Sequence
+          </DialogTitle>
+          <DialogDescription>
+            {withEmail.length} of {recipients.length} selected have an email address and can be enrolled.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Sequence</Label>
+            <Select value={sequenceId} onValueChange={setSequenceId} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue placeholder={loading ? "Loading..." : "Choose a sequence"} />
+              </SelectTrigger>
+              <SelectContent>
+                {activeSequences.map(sequence => (
+                  <SelectItem key={sequence.id} value={sequence.id}>
+                    {sequence.name} ({sequence.steps.length} steps)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!loading && activeSequences.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                No active sequences. Create one under Settings → Email Center → Sequences.
+              </p>
+            )}
+            {selectedSequence?.description && (
+              <p className="text-xs text-muted-foreground">{selectedSequence.description}</p>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            The first step runs right away. Recipients leave the sequence when they reply, bounce, book a meeting or convert.
+          </p>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={enrolling}>
+              Cancel
+            </Button>
+            <Button onClick={handleEnroll} disabled={!sequenceId || withEmail.length === 0 || enrolling} className="gap-2">
+              {enrolling && <Loader2 className="h-4 w-4 animate-spin" />}
+              Enroll {withEmail.length}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
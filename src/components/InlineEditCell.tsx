@@ -6,7 +6,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Check, X, Edit3 } from "lucide-react";
-import { Deal, DealStage, DEAL_STAGES } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 
 interface InlineEditCellProps {
   value: any;
@@ -193,7 +193,7 @@ export const InlineEditCell = ({
               <SelectValue placeholder="Select stage" />
             </SelectTrigger>
             <SelectContent>
-              {DEAL_STAGES.map(stage => (
+              {options.map(stage => (
                 <SelectItem key={stage} value={stage}>
                   {stage}
                 </SelectItem>
@@ -1,6 +1,6 @@
 import { useState, useMemo, useEffect } from "react";
 import { DragDropContext, Droppable, Draggable, DropResult } from "@hello-pangea/dnd";
-import { Deal, DealStage, DEAL_STAGES, STAGE_COLORS } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { DealCard } from "./DealCard";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -9,13 +9,20 @@ import { Plus, Search } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { BulkActionsBar } from "./BulkActionsBar";
 import { DealsAdvancedFilter, AdvancedFilterState } from "./DealsAdvancedFilter";
+import { getAdvancedFilterOptions, matchesAdvancedFilters } from "@/utils/dealFilters";
 import { DeleteConfirmDialog } from "./shared/DeleteConfirmDialog";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { getPipelineStageStyle } from "@/utils/statusBadgeUtils";
+import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { CurrencyDisplayToggle } from "./shared/CurrencyDisplayToggle";
+import { addToMoneyTotal, emptyMoneyTotal, getDealRateDate } from "@/utils/currencyConversion";
 
 interface KanbanBoardProps {
   deals: Deal[];
-  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<void>;
+  // Resolves to false when the change was held back for approval
+  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<boolean | void>;
   onDealClick: (deal: Deal) => void;
   onCreateDeal: (stage: DealStage) => void;
   onDeleteDeals: (dealIds: string[]) => void;
@@ -49,6 +56,12 @@ export const KanbanBoard = ({
     probabilityRange: [0, 100],
   });
   const { toast } = useToast();
+  const { stages, openStages, closedStages, getStage } = usePipelineStages();
+  const { reportingCurrency, rates, formatTotal } = useCurrencyConversion();
+  const firstStage = openStages[0]?.stage_name;
+  const lastOpenStage = openStages[openStages.length - 1]?.stage_name;
+  // Quick "drop" action on cards in the last open stage goes to the last lost stage
+  const dropStage = [...closedStages].reverse().find(stage => stage.is_lost_stage)?.stage_name;
 
   // Get owner IDs for display names
   const ownerIds = useMemo(() => {
@@ -62,21 +75,7 @@ export const KanbanBoard = ({
   });
 
   // Generate available options for multi-select filters
-  const availableOptions = useMemo(() => {
-    const regions = Array.from(new Set(deals.map(d => d.region).filter(Boolean)));
-    const leadOwners = Array.from(new Set(deals.map(d => d.lead_owner).filter(Boolean)));
-    const priorities = Array.from(new Set(deals.map(d => String(d.priority)).filter(p => p !== 'undefined')));
-    const probabilities = Array.from(new Set(deals.map(d => String(d.probability)).filter(p => p !== 'undefined')));
-    const handoffStatuses = Array.from(new Set(deals.map(d => d.handoff_status).filter(Boolean)));
-    
-    return {
-      regions,
-      leadOwners,
-      priorities,
-      probabilities,
-      handoffStatuses,
-    };
-  }, [deals]);
+  const availableOptions = useMemo(() => getAdvancedFilterOptions(deals), [deals]);
 
   useEffect(() => {
     const savedFilters = localStorage.getItem('deals-kanban-filters');
@@ -97,31 +96,7 @@ export const KanbanBoard = ({
   }, [filters, searchTerm]);
 
   const filterDeals = (deals: Deal[]) => {
-    return deals.filter(deal => {
-      // Combine search from both searchTerm and filters.searchTerm
-      const allSearchTerms = [searchTerm, filters.searchTerm].filter(Boolean).join(' ').toLowerCase();
-      const searchMatch = !allSearchTerms || 
-        deal.deal_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.project_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.lead_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.customer_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.region?.toLowerCase().includes(allSearchTerms);
-      
-      // Apply multi-select filters
-      const matchesStages = filters.stages.length === 0 || filters.stages.includes(deal.stage);
-      const matchesRegions = filters.regions.length === 0 || filters.regions.includes(deal.region || '');
-      const matchesLeadOwners = filters.leadOwners.length === 0 || filters.leadOwners.includes(deal.lead_owner || '');
-      const matchesPriorities = filters.priorities.length === 0 || filters.priorities.includes(String(deal.priority || ''));
-      const matchesProbabilities = filters.probabilities.length === 0 || filters.probabilities.includes(String(deal.probability || ''));
-      const matchesHandoffStatuses = filters.handoffStatuses.length === 0 || filters.handoffStatuses.includes(deal.handoff_status || '');
-      
-      // Probability range filter
-      const dealProbability = deal.probability || 0;
-      const matchesProbabilityRange = dealProbability >= filters.probabilityRange[0] && dealProbability <= filters.probabilityRange[1];
-      
-      return searchMatch && matchesStages && matchesRegions && matchesLeadOwners && 
-             matchesPriorities && matchesProbabilities && matchesHandoffStatuses && matchesProbabilityRange;
-    });
+    return deals.filter(deal => matchesAdvancedFilters(deal, filters, searchTerm));
   };
 
   const getDealsByStage = (stage: DealStage) => {
@@ -129,17 +104,16 @@ export const KanbanBoard = ({
     return filteredDeals.filter(deal => deal.stage === stage);
   };
 
-  const getVisibleStages = () => {
-    const leadDeals = getDealsByStage('Lead');
-    const lostDeals = getDealsByStage('Lost');
-    const droppedDeals = getDealsByStage('Dropped');
-    
-    return DEAL_STAGES.filter(stage => {
-      if (stage === 'Lead') return leadDeals.length > 0;
-      if (stage === 'Lost') return lostDeals.length > 0;
-      if (stage === 'Dropped') return droppedDeals.length > 0;
-      return true;
-    });
+  // The entry stage, lost stages and retired stages only get a column while they hold deals
+  const getVisibleStages = (): DealStage[] => {
+    return stages
+      .filter(stage => {
+        if (!stage.is_active || stage.is_lost_stage || stage.stage_name === firstStage) {
+          return getDealsByStage(stage.stage_name).length > 0;
+        }
+        return true;
+      })
+      .map(stage => stage.stage_name);
   };
 
   const onDragStart = (start: any) => {
@@ -152,7 +126,7 @@ export const KanbanBoard = ({
     if (!result.destination) return;
 
     const { draggableId, destination } = result;
-    const newStage = destination.droppableId as DealStage;
+    const newStage = destination.droppableId;
     const deal = deals.find(d => d.id === draggableId);
     
     if (!deal || deal.stage === newStage) return;
@@ -173,7 +147,8 @@ export const KanbanBoard = ({
         stage: newStage
       };
       
-      await onUpdateDeal(draggableId, updates);
+      const applied = await onUpdateDeal(draggableId, updates);
+      if (applied === false) return;
       
       toast({
         title: "Deal Moved",
@@ -253,7 +228,8 @@ export const KanbanBoard = ({
         stage: newStage
       };
       
-      await onUpdateDeal(dealId, updates);
+      const applied = await onUpdateDeal(dealId, updates);
+      if (applied === false) return;
       
       toast({
         title: "Deal Updated",
@@ -316,6 +292,8 @@ export const KanbanBoard = ({
                   <span className="font-medium">{selectedDeals.size} selected</span>
                 </div>
               )}
+
+              <CurrencyDisplayToggle />
             </div>
           </div>
         </div>
@@ -363,8 +341,18 @@ export const KanbanBoard = ({
                 const selectedInStage = stageDeals.filter(deal => selectedDeals.has(deal.id)).length;
                 const allSelected = selectedInStage === stageDeals.length && stageDeals.length > 0;
                 
+                const isRetired = getStage(stage)?.is_active === false;
+                const stageValue = stageDeals.reduce(
+                  (total, deal) => addToMoneyTotal(total, rates, deal.total_contract_value, deal.currency_type, reportingCurrency, getDealRateDate(deal)),
+                  emptyMoneyTotal()
+                );
+                
                 return (
-                  <div key={stage} className={`p-2 rounded-lg border-2 ${STAGE_COLORS[stage]} transition-all hover:shadow-md`}>
+                  <div
+                    key={stage}
+                    className="p-2 rounded-lg border-2 transition-all hover:shadow-md"
+                    style={getPipelineStageStyle(getStage(stage)?.stage_color)}
+                  >
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2 min-w-0 flex-1">
                         {selectionMode && (
@@ -375,6 +363,7 @@ export const KanbanBoard = ({
                           />
                         )}
                         <h3 className="font-semibold text-sm truncate">{stage}</h3>
+                        {isRetired && <span className="text-xs opacity-75 flex-shrink-0">(Retired)</span>}
                       </div>
                       <div className="flex items-center gap-2 flex-shrink-0">
                         <span className="text-xs font-medium whitespace-nowrap">
@@ -383,7 +372,7 @@ export const KanbanBoard = ({
                             <span className="text-primary ml-1">({selectedInStage})</span>
                           )}
                         </span>
-                        {stage === 'Lead' && (
+                        {stage === firstStage && (
                           <Button
                             size="sm"
                             variant="ghost"
@@ -395,6 +384,11 @@ export const KanbanBoard = ({
                         )}
                       </div>
                     </div>
+                    {stageDeals.length > 0 && (
+                      <p className="text-xs font-medium opacity-80 truncate mt-0.5" title={formatTotal(stageValue)}>
+                        {formatTotal(stageValue)}
+                      </p>
+                    )}
                   </div>
                 );
               })}
@@ -414,7 +408,7 @@ export const KanbanBoard = ({
                 
                 return (
                   <div key={stage} className="flex flex-col min-w-0">
-                    <Droppable droppableId={stage}>
+                    <Droppable droppableId={stage} isDropDisabled={getStage(stage)?.is_active === false}>
                       {(provided, snapshot) => (
                         <div
                           ref={provided.innerRef}
@@ -466,6 +460,7 @@ export const KanbanBoard = ({
                                       setDeleteDialogOpen(true);
                                     }}
                                     onStageChange={handleDealCardAction}
+                                    dropStage={deal.stage === lastOpenStage ? dropStage : undefined}
                                   />
                                 </div>
                               )}
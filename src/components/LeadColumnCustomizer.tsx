@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -19,6 +19,8 @@ interface LeadColumnCustomizerProps {
   onColumnsChange: (columns: LeadColumnConfig[]) => void;
   onSave?: (columns: LeadColumnConfig[]) => Promise<unknown>;
   isSaving?: boolean;
+  // Columns for the entity's custom fields, offered after the defaults
+  customColumns?: LeadColumnConfig[];
 }
 
 export const defaultLeadColumns: LeadColumnConfig[] = [
@@ -34,6 +36,8 @@ export const defaultLeadColumns: LeadColumnConfig[] = [
   { field: 'contact_owner', label: 'Lead Owner', visible: true, order: 9 },
 ];
 
+const NO_CUSTOM_COLUMNS: LeadColumnConfig[] = [];
+
 export const LeadColumnCustomizer = ({ 
   open, 
   onOpenChange, 
@@ -41,17 +45,24 @@ export const LeadColumnCustomizer = ({
   onColumnsChange,
   onSave,
   isSaving = false,
+  customColumns = NO_CUSTOM_COLUMNS,
 }: LeadColumnCustomizerProps) => {
+  const availableColumns = useMemo(
+    () => [...defaultLeadColumns, ...customColumns],
+    [customColumns]
+  );
+  const customFieldKeys = useMemo(() => new Set(customColumns.map(c => c.field)), [customColumns]);
+
   const [localColumns, setLocalColumns] = useState<LeadColumnConfig[]>(columns);
 
   // Sync local columns when props change, merging new columns if they don't exist
   useEffect(() => {
     const existingFields = new Set(columns.map(c => c.field));
-    const missingColumns = defaultLeadColumns.filter(dc => !existingFields.has(dc.field));
+    const missingColumns = availableColumns.filter(dc => !existingFields.has(dc.field));
     
     // Filter out invalid columns that are not in the default columns list
     const validColumns = columns.filter(c => 
-      defaultLeadColumns.some(dc => dc.field === c.field)
+      availableColumns.some(dc => dc.field === c.field)
     );
     
     if (missingColumns.length > 0 || validColumns.length !== columns.length) {
@@ -59,7 +70,7 @@ export const LeadColumnCustomizer = ({
     } else {
       setLocalColumns(columns);
     }
-  }, [columns]);
+  }, [columns, availableColumns]);
 
   const handleVisibilityChange = (field: string, visible: boolean) => {
     const updatedColumns = localColumns.map(col => 
@@ -77,7 +88,7 @@ export const LeadColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultLeadColumns);
+    setLocalColumns(availableColumns);
   };
 
   return (
@@ -111,6 +122,9 @@ export const LeadColumnCustomizer = ({
                   className="flex-1 cursor-pointer"
                 >
                   {column.label}
+                  {customFieldKeys.has(column.field) && (
+                    <span className="ml-2 text-xs text-muted-foreground">Custom</span>
+                  )}
                 </Label>
               </div>
             ))}
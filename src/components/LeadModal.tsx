@@ -6,6 +6,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useDuplicateDetection } from "@/hooks/useDuplicateDetection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useApprovalWorkflows } from "@/hooks/useApprovalWorkflows";
 import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -17,6 +19,8 @@ import { Plus, Loader2 } from "lucide-react";
 import { LEAD_SOURCES } from "@/utils/leadStatusUtils";
 import { DuplicateWarning } from "./shared/DuplicateWarning";
 import { MergeRecordsModal } from "./shared/MergeRecordsModal";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
+import { CustomFieldValues, getCustomFieldValues, getMissingRequiredFields } from "@/utils/customFieldUtils";
 import { AccountModal } from "./AccountModal";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
@@ -49,6 +53,7 @@ interface Lead {
   contact_source?: string;
   description?: string;
   lead_status?: string;
+  custom_fields?: CustomFieldValues;
 }
 
 interface Account {
@@ -72,8 +77,12 @@ interface LeadModalProps {
 
 export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProps) => {
   const { toast } = useToast();
+  const { requestApprovalIfRequired } = useApprovalWorkflows();
   const { logCreate, logUpdate } = useCRUDAudit();
   const [loading, setLoading] = useState(false);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
+  const [showCustomFieldErrors, setShowCustomFieldErrors] = useState(false);
+  const { fields: customFields } = useCustomFields('lead');
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [accountSearch, setAccountSearch] = useState("");
   const [accountModalOpen, setAccountModalOpen] = useState(false);
@@ -190,6 +199,7 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         description: lead.description || "",
         contact_owner: (lead as any).contact_owner || "",
       });
+      setCustomFieldValues(getCustomFieldValues(lead));
     } else {
       form.reset({
         lead_name: "",
@@ -203,7 +213,9 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         description: "",
         contact_owner: "",
       });
+      setCustomFieldValues({});
     }
+    setShowCustomFieldErrors(false);
   }, [lead, form]);
 
   const onSubmit = async (data: LeadFormData) => {
@@ -220,6 +232,17 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         return;
       }
 
+      const missingCustomFields = getMissingRequiredFields(customFields, customFieldValues);
+      if (missingCustomFields.length > 0) {
+        setShowCustomFieldErrors(true);
+        toast({
+          title: "Missing required fields",
+          description: `Please fill in: ${missingCustomFields.join(', ')}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
       // Check for exact email duplicate (blocking)
       if (data.email && !lead) {
         const { data: existingLead } = await supabase
@@ -252,8 +275,30 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         description: data.description || null,
         modified_by: user.data.user.id,
         contact_owner: data.contact_owner || user.data.user.id,
+        custom_fields: customFieldValues,
       };
 
+      // Held changes are written by the final approver, not here
+      const pendingApproval = await requestApprovalIfRequired({
+        entityType: 'leads',
+        entityId: lead?.id || crypto.randomUUID(),
+        entityName: data.lead_name,
+        changes: lead
+          ? baseLeadData
+          : { ...baseLeadData, created_by: user.data.user.id, created_time: new Date().toISOString() },
+        currentRecord: lead as unknown as Record<string, unknown>,
+      });
+
+      if (pendingApproval) {
+        toast({
+          title: "Submitted for approval",
+          description: `This change requires approval (${pendingApproval.workflowName}) and will be applied once approved.`,
+        });
+        onSuccess();
+        onOpenChange(false);
+        return;
+      }
+
       if (lead) {
         console.log('Updating lead with data:', { ...baseLeadData, modified_time: new Date().toISOString() });
         
@@ -601,6 +646,13 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
               )}
             />
 
+            <CustomFieldsSection
+              entityType="lead"
+              values={customFieldValues}
+              onChange={setCustomFieldValues}
+              showErrors={showCustomFieldErrors}
+            />
+
             <div className="flex justify-end gap-2 pt-4">
               <Button
                 type="button"
@@ -14,12 +14,13 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, CalendarPlus, CheckSquare, FileText, Plus, Eye, User } from "lucide-react";
+import { Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, CalendarPlus, CheckSquare, FileText, Plus, Eye, User, Undo2 } from "lucide-react";
 import { RowActionsDropdown, Edit, Trash2, Mail, RefreshCw } from "./RowActionsDropdown";
 import { LeadModal } from "./LeadModal";
 import { LeadColumnCustomizer, LeadColumnConfig, defaultLeadColumns } from "./LeadColumnCustomizer";
 import { LeadStatusFilter } from "./LeadStatusFilter";
 import { ConvertToDealModal } from "./ConvertToDealModal";
+import { UndoLeadConversionDialog } from "./leads/conversion/UndoLeadConversionDialog";
 import { LeadDeleteConfirmDialog } from "./LeadDeleteConfirmDialog";
 import { AccountDetailModalById } from "./accounts/AccountDetailModalById";
 import { SendEmailModal, EmailRecipient } from "./SendEmailModal";
@@ -28,10 +29,14 @@ import { LeadDetailModal } from "./leads/LeadDetailModal";
 import { HighlightedText } from "./shared/HighlightedText";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { TableSkeleton } from "./shared/Skeletons";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { moveFieldToEnd } from "@/utils/columnOrderUtils";
 import { formatDateTimeStandard } from "@/utils/formatUtils";
 import { getLeadStatusColor } from "@/utils/statusBadgeUtils";
+import { useColumnsWithCustomFields } from "@/hooks/useCustomFields";
+import { AdvancedSearchBar, SearchGroup, applyAdvancedSearch } from "./shared/AdvancedSearchBar";
+import { CustomFieldValueCell } from "./shared/CustomFieldValueCell";
+import { getCustomFieldSortValue, isCustomFieldColumn } from "@/utils/customFieldUtils";
 
 // Export ref interface for parent component
 export interface LeadTableRef {
@@ -60,6 +65,8 @@ interface Lead {
   modified_by?: string;
   country?: string | null;
   industry?: string | null;
+  converted_from_contact_id?: string | null;
+  converted_to_deal_id?: string | null;
 }
 
 // Use defaultLeadColumns from LeadColumnCustomizer (imported above)
@@ -90,11 +97,13 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   const { toast } = useToast();
   const { logDelete, logBulkDelete } = useCRUDAudit();
   const { userRole } = useUserRole();
-  const queryClient = useQueryClient();
   const [searchParams, setSearchParams] = useSearchParams();
   const [filteredLeads, setFilteredLeads] = useState<Lead[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
+  // Remounts the advanced search so clearing filters also clears its conditions
+  const [advancedSearchKey, setAdvancedSearchKey] = useState(0);
   const [statusFilter, setStatusFilter] = useState(initialStatus);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
@@ -159,9 +168,10 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   // viewId effect is moved below the leads query
   
   // Column preferences hook
+  const { columns: leadColumns, customColumns, customFields } = useColumnsWithCustomFields('lead', defaultLeadColumns);
   const { columns, saveColumns, isSaving } = useColumnPreferences({
     moduleName: 'leads',
-    defaultColumns: defaultLeadColumns,
+    defaultColumns: leadColumns,
   });
   const [localColumns, setLocalColumns] = useState<LeadColumnConfig[]>(columns);
   
@@ -173,6 +183,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   const [itemsPerPage, setItemsPerPage] = useState(25);
   const [showConvertModal, setShowConvertModal] = useState(false);
   const [leadToConvert, setLeadToConvert] = useState<Lead | null>(null);
+  const [leadToUnconvert, setLeadToUnconvert] = useState<Lead | null>(null);
   const [sortField, setSortField] = useState<string | null>('lead_name');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [viewAccountId, setViewAccountId] = useState<string | null>(null);
@@ -264,6 +275,8 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     if (statusFilter !== "all") {
       filtered = filtered.filter(lead => lead.lead_status === statusFilter);
     }
+
+    filtered = applyAdvancedSearch(filtered, searchGroups);
     
     // FIX: Use contact_owner instead of created_by for owner filtering
     if (ownerFilter !== "all") {
@@ -289,15 +302,15 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     // Apply sorting
     if (sortField) {
       filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Lead] || '';
-        const bValue = b[sortField as keyof Lead] || '';
+        const aValue = (isCustomFieldColumn(sortField) ? getCustomFieldSortValue(a, sortField) : a[sortField as keyof Lead]) || '';
+        const bValue = (isCustomFieldColumn(sortField) ? getCustomFieldSortValue(b, sortField) : b[sortField as keyof Lead]) || '';
         const comparison = aValue.toString().localeCompare(bValue.toString());
         return sortDirection === 'asc' ? comparison : -comparison;
       });
     }
     setFilteredLeads(filtered);
     setCurrentPage(1);
-  }, [leads, debouncedSearchTerm, statusFilter, ownerFilter, dateFromFilter, dateToFilter, sortField, sortDirection]);
+  }, [leads, debouncedSearchTerm, statusFilter, searchGroups, ownerFilter, dateFromFilter, dateToFilter, sortField, sortDirection]);
 
   const handleSort = (field: string) => {
     if (sortField === field) {
@@ -451,11 +464,13 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   const pageLeads = getCurrentPageLeads();
 
   // Check if any filters are active
-  const hasActiveFilters = debouncedSearchTerm !== "" || statusFilter !== "all" || ownerFilter !== "all" || dateFromFilter !== null || dateToFilter !== null;
+  const hasActiveFilters = debouncedSearchTerm !== "" || statusFilter !== "all" || searchGroups.length > 0 || ownerFilter !== "all" || dateFromFilter !== null || dateToFilter !== null;
 
   const clearAllFilters = () => {
     setSearchTerm("");
     setStatusFilter("all");
+    setSearchGroups([]);
+    setAdvancedSearchKey(key => key + 1);
     setOwnerFilter("all");
     setDateFromFilter(null);
     setDateToFilter(null);
@@ -467,21 +482,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     setShowConvertModal(true);
   };
 
-  const handleConvertSuccess = async () => {
-    if (leadToConvert) {
-      try {
-        const { error } = await supabase.from('leads').update({
-          lead_status: 'Converted'
-        }).eq('id', leadToConvert.id);
-        
-        if (!error) {
-          // Invalidate cache to trigger refetch
-          queryClient.invalidateQueries({ queryKey: ['leads'] });
-        }
-      } catch (error) {
-        // Silent fail for status update
-      }
-    }
+  const handleConvertSuccess = () => {
     fetchLeads();
     setLeadToConvert(null);
   };
@@ -540,6 +541,12 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
               ))}
             </SelectContent>
           </Select>
+          <AdvancedSearchBar
+            key={advancedSearchKey}
+            fields={defaultLeadColumns.map(column => ({ value: column.field, label: column.label }))}
+            customFields={customFields}
+            onSearch={setSearchGroups}
+          />
           <ClearFiltersButton hasActiveFilters={hasActiveFilters} onClear={clearAllFilters} />
         </div>
         
@@ -716,6 +723,8 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
                             )
+                          ) : isCustomFieldColumn(column.field) ? (
+                            <CustomFieldValueCell record={lead} columnKey={column.field} fields={customFields} />
                           ) : (
                             lead[column.field as keyof Lead] ? (
                               <span className="truncate block" title={lead[column.field as keyof Lead]?.toString()}>
@@ -771,7 +780,17 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                                 icon: <CheckSquare className="w-4 h-4" />,
                                 onClick: () => handleCreateTask(lead)
                               },
-                              ...(userRole !== 'user' ? [{
+                              ...(lead.converted_to_deal_id ? [{
+                                label: "View Deal",
+                                icon: <Eye className="w-4 h-4" />,
+                                onClick: () => navigate(`/deals?viewId=${lead.converted_to_deal_id}`),
+                                separator: true
+                              }] : []),
+                              ...(userRole !== 'user' ? [lead.converted_to_deal_id ? {
+                                label: "Undo Conversion",
+                                icon: <Undo2 className="w-4 h-4" />,
+                                onClick: () => setLeadToUnconvert(lead)
+                              } : {
                                 label: "Convert to Deal",
                                 icon: <RefreshCw className="w-4 h-4" />,
                                 onClick: () => handleConvertToDeal(lead),
@@ -853,6 +872,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
         onColumnsChange={setLocalColumns} 
         onSave={saveColumns} 
         isSaving={isSaving} 
+        customColumns={customColumns} 
       />
 
       <ConvertToDealModal 
@@ -862,6 +882,13 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
         onSuccess={handleConvertSuccess} 
       />
 
+      <UndoLeadConversionDialog
+        open={!!leadToUnconvert}
+        onOpenChange={(open) => !open && setLeadToUnconvert(null)}
+        lead={leadToUnconvert}
+        onSuccess={fetchLeads}
+      />
+
       <LeadDeleteConfirmDialog
         open={showDeleteDialog} 
         onConfirm={handleDelete} 
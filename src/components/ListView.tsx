@@ -6,7 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Deal, DealStage, DEAL_STAGES, STAGE_COLORS } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { Search, Filter, X, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, Briefcase, Edit3 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RowActionsDropdown, Edit, Trash2, CheckSquare } from "./RowActionsDropdown";
@@ -15,31 +15,40 @@ import { formatDateTimeStandard } from "@/utils/formatUtils";
 import { DealColumnCustomizer, DealColumnConfig, defaultDealColumns } from "./DealColumnCustomizer";
 import { BulkActionsBar } from "./BulkActionsBar";
 import { DealsAdvancedFilter, AdvancedFilterState } from "./DealsAdvancedFilter";
+import { getAdvancedFilterOptions, matchesAdvancedFilters } from "@/utils/dealFilters";
 import { InlineEditCell } from "./InlineEditCell";
 
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
+import { useColumnsWithCustomFields } from "@/hooks/useCustomFields";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import { DeleteConfirmDialog } from "./shared/DeleteConfirmDialog";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { HighlightedText } from "./shared/HighlightedText";
+import { CustomFieldValueCell } from "./shared/CustomFieldValueCell";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { moveFieldToEnd } from "@/utils/columnOrderUtils";
-import { getDealStageColor } from "@/utils/statusBadgeUtils";
+import { getCustomFieldSortValue, isCustomFieldColumn } from "@/utils/customFieldUtils";
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
 interface ListViewProps {
   deals: Deal[];
   onDealClick: (deal: Deal) => void;
-  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => void;
+  // Resolves to false when the change was held back for approval
+  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<boolean | void>;
   onDeleteDeals: (dealIds: string[]) => void;
   onImportDeals: (deals: Partial<Deal>[]) => void;
   initialStageFilter?: string;
   onSelectionChange?: (selectedIds: string[]) => void;
 }
 
+// The ?stage= filter from the URL: one stage name, or several separated by commas
+const parseStageFilter = (stageFilter: string): DealStage[] =>
+  stageFilter === 'all' ? [] : stageFilter.split(',').filter(Boolean) as DealStage[];
+
 export const ListView = ({ 
   deals, 
   onDealClick, 
@@ -52,7 +61,7 @@ export const ListView = ({
   const [searchTerm, setSearchTerm] = useState("");
   const [leadOwnerFilter, setLeadOwnerFilter] = useState("all");
   const [filters, setFilters] = useState<AdvancedFilterState>(() => ({
-    stages: initialStageFilter !== 'all' ? [initialStageFilter as DealStage] : [],
+    stages: parseStageFilter(initialStageFilter),
     regions: [],
     leadOwners: [],
     priorities: [],
@@ -76,7 +85,7 @@ export const ListView = ({
   // Sync stage filter when initialStageFilter prop changes (from URL)
   useEffect(() => {
     if (initialStageFilter !== 'all') {
-      setFilters(prev => ({ ...prev, stages: [initialStageFilter as DealStage] }));
+      setFilters(prev => ({ ...prev, stages: parseStageFilter(initialStageFilter) }));
     }
   }, [initialStageFilter]);
 
@@ -105,6 +114,8 @@ export const ListView = ({
     gcTime: 30 * 60 * 1000,
   });
 
+  const { columns: dealColumns, customColumns, customFields } = useColumnsWithCustomFields('deal', defaultDealColumns);
+
   // Use column preferences hook for database persistence
   const { 
     columns: savedColumns, 
@@ -113,7 +124,7 @@ export const ListView = ({
     isLoading: columnsLoading 
   } = useColumnPreferences({
     moduleName: 'deals',
-    defaultColumns: defaultDealColumns,
+    defaultColumns: dealColumns,
   });
 
   // Local state for optimistic updates
@@ -152,6 +163,7 @@ export const ListView = ({
   const tableRef = useRef<HTMLTableElement>(null);
 
   const { toast } = useToast();
+  const { activeStages } = usePipelineStages();
 
   const formatCurrency = (amount: number | undefined, currency: string = 'EUR') => {
     if (!amount) return '-';
@@ -164,9 +176,6 @@ export const ListView = ({
     return formatDateTimeStandard(date) || '-';
   };
 
-  // Use shared stage badge styling from utilities
-  const getStageBadgeClasses = (stage?: string) => getDealStageColor(stage);
-
   // Generate initials from project name
   const getProjectInitials = (name: string) => {
     return name.split(' ').slice(0, 2).map(word => word.charAt(0).toUpperCase()).join('');
@@ -322,7 +331,8 @@ export const ListView = ({
     }
     
     try {
-      await onUpdateDeal(dealId, { [field]: value });
+      const applied = await onUpdateDeal(dealId, { [field]: value });
+      if (applied === false) return;
       toast({
         title: "Deal updated",
         description: "Field updated successfully",
@@ -348,6 +358,9 @@ export const ListView = ({
   };
 
   const getFieldOptions = (field: string): string[] => {
+    if (field === 'stage') {
+      return activeStages.map(stage => stage.stage_name);
+    }
     if (field === 'handoff_status') {
       return ['Not Started', 'In Progress', 'Complete'];
     }
@@ -376,21 +389,7 @@ export const ListView = ({
   );
 
   // Generate available options for multi-select filters
-  const availableOptions = useMemo(() => {
-    const regions = Array.from(new Set(deals.map(d => d.region).filter(Boolean)));
-    const leadOwners = Array.from(new Set(deals.map(d => d.lead_owner).filter(Boolean)));
-    const priorities = Array.from(new Set(deals.map(d => String(d.priority)).filter(p => p !== 'undefined')));
-    const probabilities = Array.from(new Set(deals.map(d => String(d.probability)).filter(p => p !== 'undefined')));
-    const handoffStatuses = Array.from(new Set(deals.map(d => d.handoff_status).filter(Boolean)));
-    
-    return {
-      regions,
-      leadOwners,
-      priorities,
-      probabilities,
-      handoffStatuses,
-    };
-  }, [deals]);
+  const availableOptions = useMemo(() => getAdvancedFilterOptions(deals), [deals]);
 
   useEffect(() => {
     const savedFilters = localStorage.getItem('deals-filters');
@@ -412,36 +411,13 @@ export const ListView = ({
 
   const filteredAndSortedDeals = deals
     .filter(deal => {
-      // Combine search from both searchTerm and filters.searchTerm
-      const allSearchTerms = [searchTerm, filters.searchTerm].filter(Boolean).join(' ').toLowerCase();
-      const matchesSearch = !allSearchTerms || 
-        deal.deal_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.project_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.lead_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.customer_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.region?.toLowerCase().includes(allSearchTerms);
-      
-      // Apply lead owner filter (standalone dropdown)
+      // Lead owner dropdown sits outside the advanced filter
       const matchesLeadOwnerDropdown = leadOwnerFilter === "all" || deal.lead_owner === leadOwnerFilter;
-      
-      // Apply multi-select filters
-      const matchesStages = filters.stages.length === 0 || filters.stages.includes(deal.stage);
-      const matchesRegions = filters.regions.length === 0 || filters.regions.includes(deal.region || '');
-      const matchesLeadOwners = filters.leadOwners.length === 0 || filters.leadOwners.includes(deal.lead_owner || '');
-      const matchesPriorities = filters.priorities.length === 0 || filters.priorities.includes(String(deal.priority || ''));
-      const matchesProbabilities = filters.probabilities.length === 0 || filters.probabilities.includes(String(deal.probability || ''));
-      const matchesHandoffStatuses = filters.handoffStatuses.length === 0 || filters.handoffStatuses.includes(deal.handoff_status || '');
-      
-      // Probability range filter
-      const dealProbability = deal.probability || 0;
-      const matchesProbabilityRange = dealProbability >= filters.probabilityRange[0] && dealProbability <= filters.probabilityRange[1];
-      
-      return matchesSearch && matchesLeadOwnerDropdown && matchesStages && matchesRegions && matchesLeadOwners && 
-             matchesPriorities && matchesProbabilities && matchesHandoffStatuses && matchesProbabilityRange;
+      return matchesLeadOwnerDropdown && matchesAdvancedFilters(deal, filters, searchTerm);
     })
     .sort((a, b) => {
-      const aValue = a[sortBy as keyof Deal];
-      const bValue = b[sortBy as keyof Deal];
+      const aValue = isCustomFieldColumn(sortBy) ? getCustomFieldSortValue(a, sortBy) : a[sortBy as keyof Deal];
+      const bValue = isCustomFieldColumn(sortBy) ? getCustomFieldSortValue(b, sortBy) : b[sortBy as keyof Deal];
 
       // Handle null/undefined - push to end
       if (aValue == null && bValue == null) return 0;
@@ -696,6 +672,8 @@ export const ListView = ({
                             <Edit3 className="w-3 h-3 text-muted-foreground" />
                           </button>
                         </div>
+                      ) : isCustomFieldColumn(column.field) ? (
+                        <CustomFieldValueCell record={deal} columnKey={column.field} fields={customFields} />
                       ) : (
                         <InlineEditCell
                           value={deal[column.field as keyof Deal]}
@@ -795,6 +773,7 @@ export const ListView = ({
         onColumnsChange={setLocalColumns}
         onSave={saveColumns}
         isSaving={isSavingColumns}
+        customColumns={customColumns}
       />
 
       <DeleteConfirmDialog
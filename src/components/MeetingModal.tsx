@@ -17,6 +17,8 @@ import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { MeetingOutcomeSelect } from "@/components/meetings/MeetingOutcomeSelect";
 import { MeetingConflictWarning } from "@/components/meetings/MeetingConflictWarning";
+import { MeetingAvailabilityGrid } from "@/components/meetings/MeetingAvailabilityGrid";
+import { useCalendarAvailability, getInternalEmails } from "@/hooks/useCalendarAvailability";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { getMeetingStatus } from "@/utils/meetingStatus";
 
@@ -518,6 +520,23 @@ export const MeetingModal = ({
     const utcTime = fromZonedTime(dt, timezone);
     return Number.isNaN(utcTime.getTime()) ? "" : utcTime.toISOString();
   }, [startDate, startTime, endTime, timezone]);
+
+  // Outlook free/busy of the organizer and internal participants for the selected day
+  const calendarEmails = useMemo(() => getInternalEmails(user?.email, participants), [user?.email, participants]);
+  const availabilityWindow = useMemo(() => {
+    if (!startDate || Number.isNaN(startDate.getTime())) return { start: "", end: "" };
+    const dayStart = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+    const nextDay = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + 1);
+    return {
+      start: fromZonedTime(dayStart, timezone).toISOString(),
+      end: fromZonedTime(nextDay, timezone).toISOString()
+    };
+  }, [startDate, timezone]);
+  const {
+    schedules: calendarSchedules,
+    loading: availabilityLoading,
+    error: availabilityError
+  } = useCalendarAvailability(calendarEmails, availabilityWindow.start, availabilityWindow.end);
   useEffect(() => {
     const initializeModal = async () => {
       if (open) {
@@ -1073,7 +1092,7 @@ export const MeetingModal = ({
           </div>
 
           {/* Conflict Warning */}
-          {proposedStartTime && proposedEndTime && <MeetingConflictWarning startTime={proposedStartTime} endTime={proposedEndTime} excludeMeetingId={meeting?.id} />}
+          {proposedStartTime && proposedEndTime && <MeetingConflictWarning startTime={proposedStartTime} endTime={proposedEndTime} excludeMeetingId={meeting?.id} calendarSchedules={calendarSchedules} />}
 
           {/* Related To */}
           <div className="space-y-1.5">
@@ -1163,6 +1182,12 @@ export const MeetingModal = ({
                 </div>}
             </div>}
 
+          {/* Availability - Outlook free/busy of internal attendees */}
+          {startDate && <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Availability</Label>
+              <MeetingAvailabilityGrid schedules={calendarSchedules} loading={availabilityLoading} error={!!availabilityError} date={startDate} timezone={timezone} durationMinutes={parseInt(duration)} proposedStartTime={proposedStartTime} proposedEndTime={proposedEndTime} onSelectTime={handleStartTimeChange} />
+            </div>}
+
           {/* Description */}
           <div className="space-y-1.5">
             <Label htmlFor="description" className="text-xs font-medium">Agenda</Label>
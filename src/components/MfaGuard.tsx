@@ -0,0 +1,60 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ShieldCheck } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useMfa } from '@/hooks/useMfa';
+import MfaChallenge from './mfa/MfaChallenge';
+import TotpEnrollment from './mfa/TotpEnrollment';
+
+interface MfaGuardProps {
+  children: React.ReactNode;
+}
+
+// Holds the app back until the session has passed the authenticator step, and
+// until an authenticator is set up when the user's role requires one
+const MfaGuard = ({ children }: MfaGuardProps) => {
+  const { signOut } = useAuth();
+  const { status, loading, refresh } = useMfa();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const needsChallenge = !!status?.factorId && status.currentLevel !== 'aal2';
+  const needsEnrollment = !!status?.required && !status.factorId;
+
+  if (!needsChallenge && !needsEnrollment) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <ShieldCheck className="h-10 w-10 text-primary mx-auto mb-2" />
+          <CardTitle>Two-factor authentication</CardTitle>
+          <CardDescription>
+            {needsChallenge
+              ? 'Confirm it is you to finish signing in.'
+              : 'Your administrator requires two-factor authentication for your role. Set it up to continue.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {needsChallenge ? <MfaChallenge /> : <TotpEnrollment onDone={refresh} />}
+          <Button variant="ghost" className="w-full text-muted-foreground" onClick={signOut}>
+            Sign out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MfaGuard;
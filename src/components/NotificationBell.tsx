@@ -52,7 +52,19 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
     const leadMatch = message.match(/lead[:\s]+([a-f0-9-]{36})/);
     
     // Navigate based on the notification content and available IDs
-    if (notification.lead_id) {
+    if (notification.link) {
+      navigate(notification.link);
+    } else if (notification.notification_type?.startsWith('approval_')) {
+      navigate('/approvals');
+    } else if (notification.notification_type === 'meeting_reminder') {
+      navigate('/meetings');
+    } else if (notification.notification_type === 'backup_failed') {
+      navigate('/settings?tab=admin&section=backup');
+    } else if (notification.notification_type === 'campaign_completed') {
+      navigate('/campaigns');
+    } else if (notification.notification_type === 'email_reply' || notification.notification_type === 'email_bounced') {
+      navigate(notification.lead_id ? `/leads?highlight=${notification.lead_id}` : '/contacts');
+    } else if (notification.lead_id) {
       // Direct lead ID available, navigate to leads page
       navigate(`/leads?highlight=${notification.lead_id}`);
     } else if (dealMatch) {
@@ -73,7 +85,7 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
         // Default to deals page for action items
         navigate('/deals');
       }
-    } else if (notification.notification_type === 'deal_update') {
+    } else if (notification.notification_type === 'deal_update' || notification.notification_type === 'deal_assigned') {
       navigate('/deals');
     } else if (notification.notification_type === 'lead_update') {
       navigate('/leads');
@@ -100,9 +112,21 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
       case 'action_item':
         return '📋';
       case 'lead_update':
+      case 'lead_assigned':
         return '👤';
       case 'deal_update':
+      case 'deal_assigned':
         return '💼';
+      case 'meeting_reminder':
+        return '📅';
+      case 'backup_failed':
+        return '⚠️';
+      case 'email_reply':
+        return '↩️';
+      case 'email_bounced':
+        return '📭';
+      case 'campaign_completed':
+        return '📣';
       default:
         return '🔔';
     }
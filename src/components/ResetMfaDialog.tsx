@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+
+interface User {
+  id: string;
+  email: string;
+  user_metadata: {
+    full_name?: string;
+  };
+}
+
+interface ResetMfaDialogProps {
+  open: boolean;
+  onClose: () => void;
+  user: User | null;
+}
+
+const ResetMfaDialog = ({ open, onClose, user }: ResetMfaDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleReset = async () => {
+    if (!user) return;
+
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('user-admin', {
+        method: 'POST',
+        body: { action: 'reset-mfa', userId: user.id }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast({
+        title: "Success",
+        description: data?.factorsRemoved
+          ? `Two-factor authentication reset for "${user.user_metadata?.full_name || user.email}".`
+          : `"${user.user_metadata?.full_name || user.email}" had no authenticator set up.`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error resetting 2FA:', error);
+      toast({
+        title: "Reset Failed",
+        description: error instanceof Error ? error.message : "Failed to reset two-factor authentication",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!loading) {
+      onClose();
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleClose}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Reset Two-Factor Authentication</AlertDialogTitle>
+          <AlertDialogDescription>
+            Remove the authenticator and recovery codes of "{user.user_metadata?.full_name || user.email}"?
+            <br /><br />
+            They will sign in with their password only, or be asked to set up a new authenticator if their role
+            requires two-factor authentication.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleReset}
+            disabled={loading}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {loading ? 'Resetting...' : 'Reset 2FA'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ResetMfaDialog;
@@ -9,7 +9,7 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useUserRole } from "@/hooks/useUserRole";
-import { Plus, RefreshCw, Shield, ShieldAlert, User, Key, Upload, Search, Edit, Eye, Link2, UserCog, Trash2, ArrowUpDown, MoreHorizontal } from "lucide-react";
+import { Plus, RefreshCw, Shield, ShieldAlert, User, Key, Upload, Search, Edit, Eye, Link2, UserCog, ShieldOff, Trash2, ArrowUpDown, MoreHorizontal } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { format } from "date-fns";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
@@ -18,6 +18,7 @@ import EditUserModal from "./EditUserModal";
 import ChangeRoleModal from "./ChangeRoleModal";
 import DeleteUserDialog from "./DeleteUserDialog";
 import SetPasswordModal from "./SetPasswordModal";
+import ResetMfaDialog from "./ResetMfaDialog";
 interface UserData {
   id: string;
   email: string;
@@ -38,6 +39,7 @@ const UserManagement = () => {
   const [showRoleModal, setShowRoleModal] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showSetPasswordModal, setShowSetPasswordModal] = useState(false);
+  const [showResetMfaDialog, setShowResetMfaDialog] = useState(false);
   const [selectedUser, setSelectedUser] = useState<UserData | null>(null);
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
@@ -154,6 +156,18 @@ const UserManagement = () => {
     setSelectedUser(user);
     setShowSetPasswordModal(true);
   }, [isAdmin, toast]);
+  const handleResetMfa = useCallback((user: UserData) => {
+    if (!isAdmin) {
+      toast({
+        title: "Access Denied",
+        description: "Only Admins can reset two-factor authentication.",
+        variant: "destructive"
+      });
+      return;
+    }
+    setSelectedUser(user);
+    setShowResetMfaDialog(true);
+  }, [isAdmin, toast]);
   const handleToggleUserStatus = useCallback(async (user: UserData) => {
     if (!isAdmin) {
       toast({
@@ -486,6 +500,10 @@ const UserManagement = () => {
                                 <Link2 className="h-4 w-4 mr-2" />
                                 Set Password
                               </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleResetMfa(user)}>
+                                <ShieldOff className="h-4 w-4 mr-2" />
+                                Reset 2FA
+                              </DropdownMenuItem>
                               <DropdownMenuItem onClick={() => handleChangeRole(user)}>
                                 <UserCog className="h-4 w-4 mr-2" />
                                 Change Role
@@ -525,6 +543,8 @@ const UserManagement = () => {
         <DeleteUserDialog open={showDeleteDialog} onClose={() => setShowDeleteDialog(false)} user={selectedUser} onSuccess={handleUserSuccess} />
         
         <SetPasswordModal open={showSetPasswordModal} onClose={() => setShowSetPasswordModal(false)} user={selectedUser} onSuccess={handleUserSuccess} />
+        
+        <ResetMfaDialog open={showResetMfaDialog} onClose={() => setShowResetMfaDialog(false)} user={selectedUser} />
       </>
     </TooltipProvider>;
 };
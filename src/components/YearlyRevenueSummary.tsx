@@ -2,7 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { TrendingUp, Target, Euro, Calendar, Edit2, Check, X, AlertCircle } from "lucide-react";
+import { TrendingUp, Target, Banknote, Calendar, Edit2, Check, X, AlertCircle } from "lucide-react";
 import { NotificationBell } from "@/components/NotificationBell";
 import { useYearlyRevenueData, useAvailableYears } from "@/hooks/useYearlyRevenueData";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -11,6 +11,11 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
+import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { CurrencyDisplayToggle } from "@/components/shared/CurrencyDisplayToggle";
+import { getCurrencySymbol } from "@/utils/formatUtils";
+import { mergeMoneyTotals } from "@/utils/currencyConversion";
 interface YearlyRevenueSummaryProps {
   selectedYear?: number;
 }
@@ -24,6 +29,7 @@ const YearlyRevenueSummary = ({
     toast
   } = useToast();
   const navigate = useNavigate();
+  const { stages, wonStageNames, lostStageNames } = usePipelineStages();
   const {
     years,
     isLoading: yearsLoading
@@ -41,10 +47,16 @@ const YearlyRevenueSummary = ({
   } = useYearlyRevenueData(selectedYear);
   const [editingTarget, setEditingTarget] = useState(false);
   const [targetValue, setTargetValue] = useState('');
+  const {
+    reportingCurrency,
+    showConverted,
+    formatTotal
+  } = useCurrencyConversion();
+  // Targets are always set in the reporting currency
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'EUR',
+      currency: reportingCurrency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0
     }).format(amount);
@@ -82,11 +94,10 @@ const YearlyRevenueSummary = ({
   };
   const handleCardClick = (type: 'actual' | 'projected', quarter?: string) => {
     const params = new URLSearchParams();
-    if (type === 'actual') {
-      params.append('stage', 'Won');
-    } else {
-      params.append('stage', 'RFQ');
-    }
+    const stageNames = type === 'actual'
+      ? Array.from(wonStageNames)
+      : stages.map(stage => stage.stage_name).filter(name => !wonStageNames.has(name) && !lostStageNames.has(name));
+    params.append('stage', stageNames.join(','));
     if (quarter) {
       const quarterNum = parseInt(quarter.replace('q', ''));
       params.append('quarter', quarterNum.toString());
@@ -125,9 +136,17 @@ const YearlyRevenueSummary = ({
         </Card>
       </div>;
   }
-  const totalCombined = (revenueData?.totalActual || 0) + (revenueData?.totalProjected || 0);
-  const progressPercentage = getProgressPercentage(revenueData?.totalActual || 0, revenueData?.target || 0);
+  const totalCombined = revenueData ? mergeMoneyTotals(revenueData.totalActual, revenueData.totalProjected) : null;
+  const progressPercentage = getProgressPercentage(revenueData?.totalActual.converted || 0, revenueData?.target || 0);
+  const hasUnconverted = !!totalCombined && Object.keys(totalCombined.unconverted).length > 0;
   return <div className="space-y-6">
+      <div className="flex items-center justify-end gap-4">
+        {showConverted && hasUnconverted && <p className="text-xs text-muted-foreground">
+            Amounts after + have no exchange rate to {reportingCurrency} yet
+          </p>}
+        <CurrencyDisplayToggle />
+      </div>
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card className="hover-scale">
@@ -153,7 +172,7 @@ const YearlyRevenueSummary = ({
           <CardContent>
             {editingTarget ? (
               <div className="flex items-center gap-1">
-                <span className="text-lg font-semibold">€</span>
+                <span className="text-lg font-semibold">{getCurrencySymbol(reportingCurrency)}</span>
                 <Input 
                   value={targetValue ? Number(targetValue).toLocaleString('en-US') : ''} 
                   onChange={e => {
@@ -176,11 +195,11 @@ const YearlyRevenueSummary = ({
         <Card className="hover-scale cursor-pointer" onClick={() => handleCardClick('actual')}>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Actual Revenue</CardTitle>
-            <Euro className="w-4 h-4 text-green-600" />
+            <Banknote className="w-4 h-4 text-green-600" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
-              {formatCurrency(revenueData?.totalActual || 0)}
+              {formatTotal(revenueData?.totalActual)}
             </div>
             <p className="text-xs text-muted-foreground">
               {progressPercentage.toFixed(1)}% of target
@@ -195,9 +214,9 @@ const YearlyRevenueSummary = ({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-blue-600">
-              {formatCurrency(revenueData?.totalProjected || 0)}
+              {formatTotal(revenueData?.totalProjected)}
             </div>
-            <p className="text-xs text-muted-foreground">From RFQ deals</p>
+            <p className="text-xs text-muted-foreground">From open deals</p>
           </CardContent>
         </Card>
 
@@ -208,7 +227,7 @@ const YearlyRevenueSummary = ({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-purple-600">
-              {formatCurrency(totalCombined)}
+              {formatTotal(totalCombined)}
             </div>
             <p className="text-xs text-muted-foreground">Actual + Projected</p>
           </CardContent>
@@ -249,19 +268,19 @@ const YearlyRevenueSummary = ({
                     <div className="flex justify-between items-center cursor-pointer hover:bg-background/50 p-2 rounded transition-colors" onClick={() => handleCardClick('actual', quarter)}>
                       <span className="text-sm text-muted-foreground">Actual</span>
                       <span className="font-semibold text-green-600">
-                        {formatCurrency(revenueData?.actualRevenue[quarter] || 0)}
+                        {formatTotal(revenueData?.actualRevenue[quarter])}
                       </span>
                     </div>
                     <div className="flex justify-between items-center cursor-pointer hover:bg-background/50 p-2 rounded transition-colors" onClick={() => handleCardClick('projected', quarter)}>
                       <span className="text-sm text-muted-foreground">Projected</span>
                       <span className="font-semibold text-blue-600">
-                        {formatCurrency(revenueData?.projectedRevenue[quarter] || 0)}
+                        {formatTotal(revenueData?.projectedRevenue[quarter])}
                       </span>
                     </div>
                     <div className="flex justify-between items-center pt-2 border-t border-border/50">
                       <span className="text-sm font-medium">Total</span>
                       <span className="font-bold">
-                        {formatCurrency((revenueData?.actualRevenue[quarter] || 0) + (revenueData?.projectedRevenue[quarter] || 0))}
+                        {formatTotal(revenueData && mergeMoneyTotals(revenueData.actualRevenue[quarter], revenueData.projectedRevenue[quarter]))}
                       </span>
                     </div>
                   </div>
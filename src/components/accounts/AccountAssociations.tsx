@@ -1,5 +1,7 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { getPipelineStageStyle } from "@/utils/statusBadgeUtils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -39,6 +41,7 @@ interface AccountAssociationsProps {
 
 export const AccountAssociations = ({ accountId, companyName }: AccountAssociationsProps) => {
   const navigate = useNavigate();
+  const { getStage } = usePipelineStages();
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [deals, setDeals] = useState<Deal[]>([]);
   const [leads, setLeads] = useState<Lead[]>([]);
@@ -86,20 +89,6 @@ export const AccountAssociations = ({ accountId, companyName }: AccountAssociati
     }
   };
 
-  const getStageColor = (stage: string) => {
-    const stageColors: Record<string, string> = {
-      'Lead': 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
-      'Qualified': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-      'RFQ': 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
-      'Discussions': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
-      'Offered': 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
-      'Won': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-      'Lost': 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
-      'Dropped': 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
-    };
-    return stageColors[stage] || 'bg-gray-100 text-gray-800';
-  };
-
   const getLeadStatusColor = (status?: string) => {
     const statusColors: Record<string, string> = {
       'New': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
@@ -266,7 +255,7 @@ export const AccountAssociations = ({ accountId, companyName }: AccountAssociati
                           </p>
                         )}
                       </div>
-                      <Badge className={`ml-2 text-xs ${getStageColor(deal.stage)}`}>
+                      <Badge variant="outline" className="ml-2 text-xs" style={getPipelineStageStyle(getStage(deal.stage)?.stage_color)}>
                         {deal.stage}
                       </Badge>
                     </div>
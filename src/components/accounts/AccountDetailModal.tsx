@@ -2,6 +2,8 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { getPipelineStageStyle } from "@/utils/statusBadgeUtils";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -12,6 +14,7 @@ import { RelatedTasksSection } from "@/components/shared/RelatedTasksSection";
 import { Task } from "@/types/task";
 import { Building2, Globe, Phone, MapPin, Factory, Clock, Plus, ExternalLink, Mail, Pencil, ListTodo, History, Link2, Activity, User, UserPlus, Briefcase, Calendar, Loader2 } from "lucide-react";
 import { RecordChangeHistory } from "@/components/shared/RecordChangeHistory";
+import { RecordScoreCard } from "@/components/shared/RecordScoreCard";
 import { format } from "date-fns";
 import { formatDateTimeStandard } from "@/utils/formatUtils";
 import { AccountActivityTimeline } from "./AccountActivityTimeline";
@@ -105,6 +108,7 @@ export const AccountDetailModal = ({
   defaultTab = "overview"
 }: AccountDetailModalProps) => {
   const navigate = useNavigate();
+  const { getStage } = usePipelineStages();
   const [showActivityLog, setShowActivityLog] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
   const [activeTab, setActiveTab] = useState(defaultTab);
@@ -245,19 +249,6 @@ export const AccountDetailModal = ({
     setRefreshKey(prev => prev + 1);
     onUpdate?.();
   };
-  const getStageColor = (stage: string) => {
-    const stageColors: Record<string, string> = {
-      'Lead': 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
-      'Qualified': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-      'RFQ': 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
-      'Discussions': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
-      'Offered': 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
-      'Won': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-      'Lost': 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
-      'Dropped': 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200'
-    };
-    return stageColors[stage] || 'bg-gray-100 text-gray-800';
-  };
   const getLeadStatusColor = (status?: string | null) => {
     const statusColors: Record<string, string> = {
       'New': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
@@ -376,6 +367,8 @@ export const AccountDetailModal = ({
                   </CardContent>
                 </Card>}
 
+              <RecordScoreCard entityType="account" entityId={account.id} />
+
               {/* Timestamps */}
               <div className="flex items-center gap-4 text-xs text-muted-foreground">
                 {account.created_at && <span className="flex items-center gap-1">
@@ -495,7 +488,7 @@ export const AccountDetailModal = ({
                                     ${deal.total_contract_value.toLocaleString()}
                                   </p>}
                               </div>
-                              <Badge className={`ml-2 text-xs ${getStageColor(deal.stage)}`}>
+                              <Badge variant="outline" className="ml-2 text-xs" style={getPipelineStageStyle(getStage(deal.stage)?.stage_color)}>
                                 {deal.stage}
                               </Badge>
                             </div>)}
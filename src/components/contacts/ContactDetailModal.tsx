@@ -13,6 +13,7 @@ import { ContactEmailTracking } from './ContactEmailTracking';
 import { EntityEmailHistory } from '@/components/shared/EntityEmailHistory';
 import { RecordChangeHistory } from '@/components/shared/RecordChangeHistory';
 import { RelatedTasksSection } from '@/components/shared/RelatedTasksSection';
+import { RecordScoreCard } from '@/components/shared/RecordScoreCard';
 import { SendEmailModal } from '@/components/SendEmailModal';
 import { AccountDetailModalById } from '@/components/accounts/AccountDetailModalById';
 import { MeetingModal } from '@/components/MeetingModal';
@@ -306,6 +307,8 @@ export const ContactDetailModal = ({
                   </div>
                 </>}
 
+              <RecordScoreCard entityType="contact" entityId={contact.id} />
+
               {/* Timestamps */}
               <div className="flex items-center gap-4 text-xs text-muted-foreground pt-2">
                 {contact.created_time && <span className="flex items-center gap-1">
@@ -1,16 +1,25 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { BarChart3, Users, Euro } from "lucide-react";
+import { BarChart3, Users, Banknote } from "lucide-react";
 import { Deal } from "@/types/deal";
+import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { CurrencyDisplayToggle } from "@/components/shared/CurrencyDisplayToggle";
+import { addToMoneyTotal, emptyMoneyTotal, getDealRateDate } from "@/utils/currencyConversion";
 
 interface DashboardStatsProps {
   deals: Deal[];
 }
 
 export const DashboardStats = ({ deals }: DashboardStatsProps) => {
+  const { reportingCurrency, rates, formatTotal } = useCurrencyConversion();
+  const { wonStageNames } = usePipelineStages();
   const totalDeals = deals.length;
-  const totalValue = deals.reduce((sum, deal) => sum + (deal.total_contract_value || 0), 0);
-  const wonDeals = deals.filter(deal => deal.stage === 'Won').length;
+  const totalValue = deals.reduce(
+    (total, deal) => addToMoneyTotal(total, rates, deal.total_contract_value, deal.currency_type, reportingCurrency, getDealRateDate(deal)),
+    emptyMoneyTotal()
+  );
+  const wonDeals = deals.filter(deal => wonStageNames.has(deal.stage)).length;
 
   return (
     <div className="w-full px-6 py-6">
@@ -28,12 +37,13 @@ export const DashboardStats = ({ deals }: DashboardStatsProps) => {
         <Card className="animate-fade-in hover-scale">
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Total Value</CardTitle>
-            <Euro className="w-4 h-4 text-muted-foreground" />
+            <Banknote className="w-4 h-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              €{totalValue.toLocaleString()}
+              {formatTotal(totalValue)}
             </div>
+            <CurrencyDisplayToggle className="mt-1" />
           </CardContent>
         </Card>
         
@@ -30,6 +30,11 @@ import { EmptyState } from "@/components/shared/EmptyState";
 import { GlobalSearch } from "@/components/shared/GlobalSearch";
 import { WidgetLoadingSkeleton } from "./widgets/WidgetLoadingSkeleton";
 import { DailyTasksPopup } from "./DailyTasksPopup";
+import { TeamScopeSelector } from "@/components/shared/TeamScopeSelector";
+import { useTeamScope } from "@/hooks/useTeamScope";
+import { fetchCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { fetchPipelineStages, getStageOutcomes, usePipelineStages, withDefaultStages } from "@/hooks/usePipelineStages";
+import { addToMoneyTotal, emptyMoneyTotal, getDealRateDate } from "@/utils/currencyConversion";
 
 // Static color mappings to avoid dynamic Tailwind class issues
 const COLOR_CLASSES = {
@@ -108,8 +113,16 @@ interface UserDashboardProps {
 const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
   const { user } = useAuth();
   const { isAdmin } = useUserRole();
+  const { userIds: teamUserIds } = useTeamScope();
+  const { stages, wonStageNames, lostStageNames } = usePipelineStages();
+  // Whose records the widgets count: the user's own, or the manager's chosen team scope
+  const scopeIds = teamUserIds ?? (user?.id ? [user.id] : []);
+  const scopeIdList = scopeIds.join(',');
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const openStageNames = stages.map(stage => stage.stage_name).filter(name => !wonStageNames.has(name) && !lostStageNames.has(name));
+  const navigateToDealStages = (stageNames: string[]) =>
+    navigate(`/deals?stage=${encodeURIComponent(stageNames.join(','))}&owner=me`);
   const [isResizeMode, setIsResizeMode] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   // Initialize with a reasonable default based on window width minus sidebar
@@ -461,9 +474,9 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Leads data - enhanced
   const { data: leadsData, isLoading: leadsLoading } = useQuery({
-    queryKey: ['user-leads-enhanced', user?.id],
+    queryKey: ['user-leads-enhanced', user?.id, scopeIdList],
     queryFn: async () => {
-      const { data, error } = await supabase.from('leads').select('id, lead_status, lead_name, created_time').eq('created_by', user?.id);
+      const { data, error } = await supabase.from('leads').select('id, lead_status, lead_name, created_time').in('created_by', scopeIds);
       if (error) throw error;
       const leads = data || [];
       const recentLead = leads.sort((a, b) => new Date(b.created_time || 0).getTime() - new Date(a.created_time || 0).getTime())[0];
@@ -482,9 +495,9 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Contacts data - enhanced with contact_source
   const { data: contactsData, isLoading: contactsLoading } = useQuery({
-    queryKey: ['user-contacts-enhanced', user?.id],
+    queryKey: ['user-contacts-enhanced', user?.id, scopeIdList],
     queryFn: async () => {
-      const { data, error } = await supabase.from('contacts').select('id, contact_name, email, phone_no, segment, contact_source, created_time').eq('created_by', user?.id);
+      const { data, error } = await supabase.from('contacts').select('id, contact_name, email, phone_no, segment, contact_source, created_time').in('created_by', scopeIds);
       if (error) throw error;
       const contacts = data || [];
       const bySource = {
@@ -499,31 +512,35 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
     ...QUERY_OPTIONS,
   });
 
-  // Deals data - enhanced with stages RFQ, Offered, Won, Lost
+  // Deals data - open, won and lost by the pipeline stage flags
   const { data: dealsData, isLoading: dealsLoading } = useQuery({
-    queryKey: ['user-deals-enhanced', user?.id],
+    queryKey: ['user-deals-enhanced', user?.id, scopeIdList],
     queryFn: async () => {
-      const { data, error } = await supabase.from('deals').select('id, stage, total_contract_value, deal_name, created_by, lead_owner, expected_closing_date');
+      const [{ data, error }, pipelineStages, { reportingCurrency, rates }] = await Promise.all([
+        supabase.from('deals').select('id, stage, total_contract_value, currency_type, deal_name, created_by, created_at, lead_owner, expected_closing_date, signed_contract_date'),
+        fetchPipelineStages(),
+        fetchCurrencyConversion(),
+      ]);
       if (error) throw error;
-      const userDeals = (data || []).filter(d => d.created_by === user?.id || d.lead_owner === user?.id);
-      const activeDeals = userDeals.filter(d => !['Won', 'Lost', 'Dropped'].includes(d.stage));
-      const wonDeals = userDeals.filter(d => d.stage === 'Won');
-      const totalPipeline = activeDeals.reduce((sum, d) => sum + (d.total_contract_value || 0), 0);
-      const wonValue = wonDeals.reduce((sum, d) => sum + (d.total_contract_value || 0), 0);
+      const { won, lost } = getStageOutcomes(withDefaultStages(pipelineStages));
+      const userDeals = (data || []).filter(d => scopeIds.includes(d.created_by ?? '') || scopeIds.includes(d.lead_owner ?? ''));
+      const activeDeals = userDeals.filter(d => !won.has(d.stage) && !lost.has(d.stage));
+      const wonDeals = userDeals.filter(d => won.has(d.stage));
+      const lostDeals = userDeals.filter(d => lost.has(d.stage));
+      const sumValues = (deals: typeof userDeals) => deals.reduce(
+        (total, d) => addToMoneyTotal(total, rates, d.total_contract_value, d.currency_type, reportingCurrency, getDealRateDate(d)),
+        emptyMoneyTotal()
+      );
+      const totalPipeline = sumValues(activeDeals);
+      const wonValue = sumValues(wonDeals);
       
       return {
         total: userDeals.length,
         active: activeDeals.length,
         won: wonDeals.length,
-        lost: userDeals.filter(d => d.stage === 'Lost').length,
+        lost: lostDeals.length,
         totalPipeline,
         wonValue,
-        byStage: {
-          rfq: userDeals.filter(d => d.stage === 'RFQ').length,
-          offered: userDeals.filter(d => d.stage === 'Offered').length,
-          won: wonDeals.length,
-          lost: userDeals.filter(d => d.stage === 'Lost').length,
-        }
       };
     },
     enabled: !!user?.id,
@@ -532,9 +549,9 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Accounts data - enhanced with status counts
   const { data: accountsData, isLoading: accountsLoading } = useQuery({
-    queryKey: ['user-accounts-enhanced', user?.id],
+    queryKey: ['user-accounts-enhanced', user?.id, scopeIdList],
     queryFn: async () => {
-      const { data, error } = await supabase.from('accounts').select('id, company_name, status, created_at').eq('created_by', user?.id);
+      const { data, error } = await supabase.from('accounts').select('id, company_name, status, created_at').in('created_by', scopeIds);
       if (error) throw error;
       const accounts = data || [];
       const byStatus = {
@@ -551,12 +568,12 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Upcoming meetings - enhanced with status counts using getMeetingStatus for consistency
   const { data: upcomingMeetings, isLoading: meetingsLoading } = useQuery({
-    queryKey: ['user-upcoming-meetings-enhanced', user?.id],
+    queryKey: ['user-upcoming-meetings-enhanced', user?.id, scopeIdList],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('meetings')
         .select('id, subject, start_time, end_time, status, attendees')
-        .eq('created_by', user?.id);
+        .in('created_by', scopeIds);
       if (error) throw error;
       const meetings = data || [];
       const now = new Date();
@@ -587,7 +604,7 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Today's meetings for agenda
   const { data: todaysMeetings } = useQuery({
-    queryKey: ['user-todays-meetings', user?.id],
+    queryKey: ['user-todays-meetings', user?.id, scopeIdList],
     queryFn: async () => {
       const todayStart = new Date();
       todayStart.setHours(0, 0, 0, 0);
@@ -596,7 +613,7 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
       const { data, error } = await supabase
         .from('meetings')
         .select('id, subject, start_time, end_time, status')
-        .eq('created_by', user?.id)
+        .in('created_by', scopeIds)
         .gte('start_time', todayStart.toISOString())
         .lte('start_time', todayEnd.toISOString())
         .order('start_time', { ascending: true });
@@ -608,13 +625,13 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Today's tasks for agenda
   const { data: todaysTasks } = useQuery({
-    queryKey: ['user-todays-tasks', user?.id],
+    queryKey: ['user-todays-tasks', user?.id, scopeIdList],
     queryFn: async () => {
       const today = format(new Date(), 'yyyy-MM-dd');
       const { data, error } = await supabase
         .from('tasks')
         .select('id, title, due_date, priority, status')
-        .or(`assigned_to.eq.${user?.id},created_by.eq.${user?.id}`)
+        .or(`assigned_to.in.(${scopeIdList}),created_by.in.(${scopeIdList})`)
         .in('status', ['open', 'in_progress'])
         .eq('due_date', today)
         .order('priority', { ascending: true });
@@ -626,13 +643,13 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Overdue tasks for agenda
   const { data: overdueTasks } = useQuery({
-    queryKey: ['user-overdue-tasks', user?.id],
+    queryKey: ['user-overdue-tasks', user?.id, scopeIdList],
     queryFn: async () => {
       const today = format(new Date(), 'yyyy-MM-dd');
       const { data, error } = await supabase
         .from('tasks')
         .select('id, title, due_date, priority, status')
-        .or(`assigned_to.eq.${user?.id},created_by.eq.${user?.id}`)
+        .or(`assigned_to.in.(${scopeIdList}),created_by.in.(${scopeIdList})`)
         .in('status', ['open', 'in_progress'])
         .lt('due_date', today)
         .order('due_date', { ascending: true })
@@ -645,12 +662,12 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Task reminders with status counts
   const { data: taskReminders, isLoading: tasksLoading } = useQuery({
-    queryKey: ['user-task-reminders-enhanced', user?.id],
+    queryKey: ['user-task-reminders-enhanced', user?.id, scopeIdList],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('tasks')
         .select('id, title, due_date, priority, status')
-        .or(`assigned_to.eq.${user?.id},created_by.eq.${user?.id}`);
+        .or(`assigned_to.in.(${scopeIdList}),created_by.in.(${scopeIdList})`);
       if (error) throw error;
       const tasks = data || [];
       const byStatus = {
@@ -671,12 +688,12 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Email stats - enhanced
   const { data: emailStats } = useQuery({
-    queryKey: ['user-email-stats-enhanced', user?.id],
+    queryKey: ['user-email-stats-enhanced', user?.id, scopeIdList],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('email_history')
         .select('id, status, open_count, click_count, subject, sent_at')
-        .eq('sent_by', user?.id)
+        .in('sent_by', scopeIds)
         .order('sent_at', { ascending: false });
       if (error) throw error;
       const emails = data || [];
@@ -692,12 +709,12 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Follow-ups due
   const { data: followUpsDue } = useQuery({
-    queryKey: ['user-follow-ups-due', user?.id],
+    queryKey: ['user-follow-ups-due', user?.id, scopeIdList],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('meeting_follow_ups')
         .select('id, title, status, due_date, meeting_id')
-        .eq('assigned_to', user?.id)
+        .in('assigned_to', scopeIds)
         .eq('status', 'pending')
         .order('due_date', { ascending: true })
         .limit(5);
@@ -722,7 +739,7 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Weekly summary with comparison data
   const { data: weeklySummary } = useQuery({
-    queryKey: ['user-weekly-summary-enhanced', user?.id],
+    queryKey: ['user-weekly-summary-enhanced', user?.id, scopeIdList],
     queryFn: async () => {
       const now = new Date();
       const weekStart = startOfWeek(now, { weekStartsOn: 1 });
@@ -748,26 +765,26 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
         leadsAllTime, contactsAllTime, accountsAllTime, dealsAllTime, meetingsAllTime, tasksAllTime
       ] = await Promise.all([
         // This week
-        supabase.from('leads').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_time', startStr).lte('created_time', endStr),
-        supabase.from('contacts').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_time', startStr).lte('created_time', endStr),
-        supabase.from('accounts').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_at', startStr).lte('created_at', endStr),
-        supabase.from('deals').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_at', startStr).lte('created_at', endStr),
-        supabase.from('meetings').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).eq('status', 'completed').gte('start_time', startStr).lte('start_time', endStr),
-        supabase.from('tasks').select('id', { count: 'exact', head: true }).or(`assigned_to.eq.${user?.id},created_by.eq.${user?.id}`).eq('status', 'completed').gte('completed_at', startStr).lte('completed_at', endStr),
+        supabase.from('leads').select('id', { count: 'exact', head: true }).in('created_by', scopeIds).gte('created_time', startStr).lte('created_time', endStr),
+        supabase.from('contacts').select('id', { count: 'exact', head: true }).in('created_by', scopeIds).gte('created_time', startStr).lte('created_time', endStr),
+        supabase.from('accounts').select('id', { count: 'exact', head: true }).in('created_by', scopeIds).gte('created_at', startStr).lte('created_at', endStr),
+        supabase.from('deals').select('id', { count: 'exact', head: true }).in('created_by', scopeIds).gte('created_at', startStr).lte('created_at', endStr),
+        supabase.from('meetings').select('id', { count: 'exact', head: true }).in('created_by', scopeIds).eq('status', 'completed').gte('start_time', startStr).lte('start_time', endStr),
+        supabase.from('tasks').select('id', { count: 'exact', head: true }).or(`assigned_to.in.(${scopeIdList}),created_by.in.(${scopeIdList})`).eq('status', 'completed').gte('completed_at', startStr).lte('completed_at', endStr),
         // Last week
-        supabase.from('leads').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_time', lastStartStr).lte('created_time', lastEndStr),
-        supabase.from('contacts').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_time', lastStartStr).lte('created_time', lastEndStr),
-        supabase.from('accounts').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_at', lastStartStr).lte('created_at', lastEndStr),
-        supabase.from('deals').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_at', lastStartStr).lte('created_at', lastEndStr),
-        supabase.from('meetings').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).eq('status', 'completed').gte('start_time', lastStartStr).lte('start_time', lastEndStr),
-        supabase.from('tasks').select('id', { count: 'exact', head: true }).or(`assigned_to.eq.${user?.id},created_by.eq.${user?.id}`).eq('status', 'completed').gte('completed_at', lastStartStr).lte('completed_at', lastEndStr),
+        supabase.from('leads').select('id', { count: 'exact', head: true }).in('created_by', scopeIds).gte('created_time', lastStartStr).lte('created_time', lastEndStr),
+        supabase.from('contacts').select('id', { count: 'exact', head: true }).in('created_by', scopeIds).gte('created_time', lastStartStr).lte('created_time', lastEndStr),
+        supabase.from('accounts').select('id', { count: 'exact', head: true }).in('created_by', scopeIds).gte('created_at', lastStartStr).lte('created_at', lastEndStr),
+        supabase.from('deals').select('id', { count: 'exact', head: true }).in('created_by', scopeIds).gte('created_at', lastStartStr).lte('created_at', lastEndStr),
+        supabase.from('meetings').select('id', { count: 'exact', head: true }).in('created_by', scopeIds).eq('status', 'completed').gte('start_time', lastStartStr).lte('start_time', lastEndStr),
+        supabase.from('tasks').select('id', { count: 'exact', head: true }).or(`assigned_to.in.(${scopeIdList}),created_by.in.(${scopeIdList})`).eq('status', 'completed').gte('completed_at', lastStartStr).lte('completed_at', lastEndStr),
         // All time
-        supabase.from('leads').select('id', { count: 'exact', head: true }).eq('created_by', user?.id),
-        supabase.from('contacts').select('id', { count: 'exact', head: true }).eq('created_by', user?.id),
-        supabase.from('accounts').select('id', { count: 'exact', head: true }).eq('created_by', user?.id),
-        supabase.from('deals').select('id', { count: 'exact', head: true }).eq('created_by', user?.id),
-        supabase.from('meetings').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).eq('status', 'completed'),
-        supabase.from('tasks').select('id', { count: 'exact', head: true }).or(`assigned_to.eq.${user?.id},created_by.eq.${user?.id}`).eq('status', 'completed'),
+        supabase.from('leads').select('id', { count: 'exact', head: true }).in('created_by', scopeIds),
+        supabase.from('contacts').select('id', { count: 'exact', head: true }).in('created_by', scopeIds),
+        supabase.from('accounts').select('id', { count: 'exact', head: true }).in('created_by', scopeIds),
+        supabase.from('deals').select('id', { count: 'exact', head: true }).in('created_by', scopeIds),
+        supabase.from('meetings').select('id', { count: 'exact', head: true }).in('created_by', scopeIds).eq('status', 'completed'),
+        supabase.from('tasks').select('id', { count: 'exact', head: true }).or(`assigned_to.in.(${scopeIdList}),created_by.in.(${scopeIdList})`).eq('status', 'completed'),
       ]);
       
       return {
@@ -826,7 +843,7 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
   };
 
   const { data: recentActivities } = useQuery({
-    queryKey: ['user-recent-activities', user?.id, userProfiles, showAllActivities],
+    queryKey: ['user-recent-activities', user?.id, scopeIdList, userProfiles, showAllActivities],
     queryFn: async () => {
       let query = supabase
         .from('security_audit_log')
@@ -838,7 +855,7 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
       
       // Only filter by user_id if not showing all activities
       if (!showAllActivities) {
-        query = query.eq('user_id', user?.id);
+        query = query.in('user_id', scopeIds);
       }
       
       const { data, error } = await query;
@@ -1034,30 +1051,30 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
               <div className="grid grid-cols-2 gap-1.5 flex-1 min-h-0">
                 <div 
                   className="text-center p-1.5 bg-blue-50 dark:bg-blue-950/20 rounded cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
-                  onClick={(e) => { e.stopPropagation(); navigate('/deals?stage=RFQ&owner=me'); }}
+                  onClick={(e) => { e.stopPropagation(); navigate('/deals?owner=me'); }}
                 >
-                  <p className="text-base font-bold text-blue-600 leading-tight">{dealsData?.byStage?.rfq || 0}</p>
-                  <p className="text-[9px] text-muted-foreground leading-tight">RFQ</p>
+                  <p className="text-base font-bold text-blue-600 leading-tight">{dealsData?.total || 0}</p>
+                  <p className="text-[9px] text-muted-foreground leading-tight">Total</p>
                 </div>
                 <div 
                   className="text-center p-1.5 bg-yellow-50 dark:bg-yellow-950/20 rounded cursor-pointer hover:bg-yellow-100 dark:hover:bg-yellow-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
-                  onClick={(e) => { e.stopPropagation(); navigate('/deals?stage=Offered&owner=me'); }}
+                  onClick={(e) => { e.stopPropagation(); navigateToDealStages(openStageNames); }}
                 >
-                  <p className="text-base font-bold text-yellow-600 leading-tight">{dealsData?.byStage?.offered || 0}</p>
-                  <p className="text-[9px] text-muted-foreground leading-tight">Offered</p>
+                  <p className="text-base font-bold text-yellow-600 leading-tight">{dealsData?.active || 0}</p>
+                  <p className="text-[9px] text-muted-foreground leading-tight">Open</p>
                 </div>
                 <div 
                   className="text-center p-1.5 bg-green-50 dark:bg-green-950/20 rounded cursor-pointer hover:bg-green-100 dark:hover:bg-green-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
-                  onClick={(e) => { e.stopPropagation(); navigate('/deals?stage=Won&owner=me'); }}
+                  onClick={(e) => { e.stopPropagation(); navigateToDealStages(Array.from(wonStageNames)); }}
                 >
-                  <p className="text-base font-bold text-green-600 leading-tight">{dealsData?.byStage?.won || 0}</p>
+                  <p className="text-base font-bold text-green-600 leading-tight">{dealsData?.won || 0}</p>
                   <p className="text-[9px] text-muted-foreground leading-tight">Won</p>
                 </div>
                 <div 
                   className="text-center p-1.5 bg-red-50 dark:bg-red-950/20 rounded cursor-pointer hover:bg-red-100 dark:hover:bg-red-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
-                  onClick={(e) => { e.stopPropagation(); navigate('/deals?stage=Lost&owner=me'); }}
+                  onClick={(e) => { e.stopPropagation(); navigateToDealStages(Array.from(lostStageNames)); }}
                 >
-                  <p className="text-base font-bold text-red-600 leading-tight">{dealsData?.byStage?.lost || 0}</p>
+                  <p className="text-base font-bold text-red-600 leading-tight">{dealsData?.lost || 0}</p>
                   <p className="text-[9px] text-muted-foreground leading-tight">Lost</p>
                 </div>
               </div>
@@ -1892,9 +1909,12 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
               </Button>
             </>
           ) : (
-            <Button variant="outline" size="sm" onClick={handleEnterCustomizeMode} className="gap-2">
-              <Settings2 className="w-4 h-4" /> Customize
-            </Button>
+            <>
+              <TeamScopeSelector />
+              <Button variant="outline" size="sm" onClick={handleEnterCustomizeMode} className="gap-2">
+                <Settings2 className="w-4 h-4" /> Customize
+              </Button>
+            </>
           )}
         </div>
       </div>
@@ -1919,8 +1939,8 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
         onOpenChange={(open) => { setTaskModalOpen(open); if (!open) setSelectedTask(null); }}
         task={selectedTask}
         onSubmit={createTask}
-        onUpdate={async (taskId, updates, original) => {
-          const result = await updateTask(taskId, updates, original);
+        onUpdate={async (taskId, updates, original, scope) => {
+          const result = await updateTask(taskId, updates, original, scope);
           if (result) queryClient.invalidateQueries({ queryKey: ['user-task-reminders-enhanced', user?.id] });
           return result;
         }}
@@ -0,0 +1,114 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw } from "lucide-react";
+import { FORECAST_CATEGORY_LABELS, ForecastCategory, OPEN_FORECAST_CATEGORIES } from "@/types/deal";
+import { ForecastDeal } from "@/utils/forecasting";
+import { formatCurrency, formatDate } from "@/utils/formatUtils";
+
+interface ForecastDealsTableProps {
+  deals: ForecastDeal[];
+  ownerNames: Record<string, string>;
+  periodLabel: string;
+  reportingCurrency: string;
+  canEditDeal: (deal: ForecastDeal) => boolean;
+  onCategoryChange: (dealId: string, category: ForecastCategory | null) => Promise<unknown>;
+}
+
+const CATEGORY_ORDER: ForecastCategory[] = ['closed', 'commit', 'best_case', 'pipeline', 'omitted'];
+
+export const ForecastDealsTable = ({
+  deals,
+  ownerNames,
+  periodLabel,
+  reportingCurrency,
+  canEditDeal,
+  onCategoryChange,
+}: ForecastDealsTableProps) => {
+  const sorted = [...deals].sort((a, b) =>
+    CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) || (b.amount ?? 0) - (a.amount ?? 0)
+  );
+
+  const changeCategory = async (dealId: string, category: ForecastCategory | null) => {
+    try {
+      await onCategoryChange(dealId, category);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  if (sorted.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">No deals are expected to close in {periodLabel}.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Deal</TableHead>
+            <TableHead>Owner</TableHead>
+            <TableHead>Stage</TableHead>
+            <TableHead>Close Date</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead className="text-right">Probability</TableHead>
+            <TableHead className="text-right">Weighted ({reportingCurrency})</TableHead>
+            <TableHead className="w-48">Category</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sorted.map(deal => (
+            <TableRow key={deal.dealId} className={deal.category === 'omitted' ? 'opacity-60' : undefined}>
+              <TableCell className="font-medium">{deal.dealName}</TableCell>
+              <TableCell>{deal.ownerId ? ownerNames[deal.ownerId] || 'Unknown User' : '—'}</TableCell>
+              <TableCell>{deal.stage}</TableCell>
+              <TableCell>{formatDate(deal.closeDate)}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatCurrency(deal.originalAmount, deal.currency)}</TableCell>
+              <TableCell className="text-right tabular-nums">{deal.probability}%</TableCell>
+              <TableCell className="text-right tabular-nums">
+                {deal.weightedAmount === null
+                  ? <span className="text-muted-foreground">No rate</span>
+                  : formatCurrency(Math.round(deal.weightedAmount), reportingCurrency)}
+              </TableCell>
+              <TableCell>
+                {deal.category === 'closed' || !canEditDeal(deal) ? (
+                  <Badge variant={deal.category === 'closed' ? 'default' : 'outline'}>
+                    {FORECAST_CATEGORY_LABELS[deal.category]}
+                  </Badge>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <Select
+                      value={deal.category}
+                      onValueChange={value => changeCategory(deal.dealId, value as ForecastCategory)}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {OPEN_FORECAST_CATEGORIES.map(category => (
+                          <SelectItem key={category} value={category}>{FORECAST_CATEGORY_LABELS[category]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {deal.categoryOverridden && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 flex-shrink-0"
+                        title="Use the stage's category"
+                        onClick={() => changeCategory(deal.dealId, null)}
+                      >
+                        <RotateCcw className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Camera, Loader2 } from "lucide-react";
+import { useForecastSnapshots } from "@/hooks/useForecast";
+import { buildForecastTrend, DealMovement, findDealMovements, ForecastDeal, fromSnapshotDeal } from "@/utils/forecasting";
+import { Quarter } from "@/utils/revenueAttainment";
+import { formatCurrency, formatDate } from "@/utils/formatUtils";
+
+interface ForecastHistoryProps {
+  year: number;
+  quarter: Quarter;
+  liveDeals: ForecastDeal[];
+  ownerNames: Record<string, string>;
+  periodLabel: string;
+  reportingCurrency: string;
+  canTakeSnapshot: boolean;
+}
+
+const DIRECTION_LABELS: Record<DealMovement['direction'], string> = {
+  slipped: 'Slipped',
+  removed: 'Dropped out',
+  pulled_in: 'Pulled in',
+};
+
+export const ForecastHistory = ({
+  year,
+  quarter,
+  liveDeals,
+  ownerNames,
+  periodLabel,
+  reportingCurrency,
+  canTakeSnapshot,
+}: ForecastHistoryProps) => {
+  const { snapshots, snapshotDeals, loading, takeSnapshot, takingSnapshot } = useForecastSnapshots(year);
+  const [baselineId, setBaselineId] = useState<string>('');
+
+  // Compare against the most recent snapshot until another is picked
+  useEffect(() => {
+    if (!snapshots.some(s => s.id === baselineId)) setBaselineId(snapshots[0]?.id ?? '');
+  }, [snapshots, baselineId]);
+
+  const trend = useMemo(
+    () => buildForecastTrend(snapshots, snapshotDeals, liveDeals, year, quarter),
+    [snapshots, snapshotDeals, liveDeals, year, quarter]
+  );
+
+  const movements = useMemo(() => {
+    const baseline = snapshots.find(s => s.id === baselineId);
+    if (!baseline) return [];
+    const baselineDeals = snapshotDeals
+      .filter(row => row.snapshot_id === baseline.id)
+      .map(row => fromSnapshotDeal(row, baseline.reporting_currency));
+    return findDealMovements(baselineDeals, liveDeals, year, quarter);
+  }, [snapshots, snapshotDeals, baselineId, liveDeals, year, quarter]);
+
+  const money = (amount: number) => formatCurrency(Math.round(amount), reportingCurrency);
+  const chartData = trend.map(point => ({
+    ...point,
+    label: point.label === 'Now' ? 'Now' : format(new Date(point.label), 'dd MMM'),
+  }));
+
+  const handleTakeSnapshot = async () => {
+    try {
+      await takeSnapshot();
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  if (loading) {
+    return <Skeleton className="h-[300px] w-full" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {snapshots.length === 0
+            ? 'No snapshots yet. One is taken every week; you can also take one now.'
+            : `How the ${periodLabel} forecast moved across ${snapshots.length} weekly snapshot${snapshots.length === 1 ? '' : 's'}.`}
+        </p>
+        {canTakeSnapshot && (
+          <Button variant="outline" size="sm" onClick={handleTakeSnapshot} disabled={takingSnapshot}>
+            {takingSnapshot ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Camera className="h-4 w-4 mr-1" />}
+            Take snapshot
+          </Button>
+        )}
+      </div>
+
+      {trend.length > 1 && (
+        <div className="h-[280px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="label" tick={{ fontSize: 12 }} tickLine={false} axisLine={false} />
+              <YAxis
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(value: number) => new Intl.NumberFormat('en', { notation: 'compact' }).format(value)}
+              />
+              <Tooltip
+                formatter={(value: number) => money(value)}
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--background))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px',
+                }}
+              />
+              <Legend />
+              <Line type="monotone" dataKey="closed" stroke="#22c55e" strokeWidth={2} name="Closed" />
+              <Line type="monotone" dataKey="forecast" stroke="#3b82f6" strokeWidth={2} name="Closed + Commit" />
+              <Line type="monotone" dataKey="upside" stroke="#f59e0b" strokeWidth={2} name="Best Case" />
+              <Line type="monotone" dataKey="weighted" stroke="#8b5cf6" strokeWidth={2} strokeDasharray="4 4" name="Weighted" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {snapshots.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <h4 className="text-sm font-medium">Deals that moved since</h4>
+            <Select value={baselineId} onValueChange={setBaselineId}>
+              <SelectTrigger className="w-44 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {snapshots.map(snapshot => (
+                  <SelectItem key={snapshot.id} value={snapshot.id}>{formatDate(snapshot.snapshot_date)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {movements.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No deals have moved in or out of {periodLabel} since this snapshot.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Deal</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Was closing</TableHead>
+                  <TableHead>Now closing</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map(movement => (
+                  <TableRow key={`${movement.dealId}-${movement.direction}`}>
+                    <TableCell className="font-medium">{movement.dealName}</TableCell>
+                    <TableCell>{movement.ownerId ? ownerNames[movement.ownerId] || 'Unknown User' : '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={movement.direction === 'pulled_in' ? 'default' : 'destructive'}>
+                        {DIRECTION_LABELS[movement.direction]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(movement.fromDate)} ({movement.from})</TableCell>
+                    <TableCell>
+                      {movement.toDate ? `${formatDate(movement.toDate)} (${movement.to})` : 'Lost or omitted'}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {movement.amount === null ? '—' : money(movement.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
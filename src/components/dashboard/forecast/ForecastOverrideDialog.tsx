@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { ForecastOverrideInput } from "@/hooks/useForecast";
+import { ForecastRow } from "@/utils/forecasting";
+import { formatCurrency } from "@/utils/formatUtils";
+
+interface ForecastOverrideDialogProps {
+  row: ForecastRow | null;
+  ownerName: string;
+  periodLabel: string;
+  reportingCurrency: string;
+  saving: boolean;
+  onSave: (input: ForecastOverrideInput) => Promise<unknown>;
+  onOpenChange: (open: boolean) => void;
+}
+
+const parseOptionalAmount = (value: string) => {
+  if (value.trim() === '') return null;
+  const amount = parseFloat(value);
+  return isNaN(amount) || amount < 0 ? null : amount;
+};
+
+export const ForecastOverrideDialog = ({
+  row,
+  ownerName,
+  periodLabel,
+  reportingCurrency,
+  saving,
+  onSave,
+  onOpenChange,
+}: ForecastOverrideDialogProps) => {
+  const [commitAmount, setCommitAmount] = useState('');
+  const [bestCaseAmount, setBestCaseAmount] = useState('');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    setCommitAmount(row?.override?.commit_amount?.toString() ?? '');
+    setBestCaseAmount(row?.override?.best_case_amount?.toString() ?? '');
+    setNote(row?.override?.note ?? '');
+  }, [row]);
+
+  if (!row?.ownerId) return null;
+  const ownerId = row.ownerId;
+  const money = (amount: number) => formatCurrency(Math.round(amount), reportingCurrency);
+
+  const save = async (input: Omit<ForecastOverrideInput, 'owner_id'>) => {
+    try {
+      await onSave({ owner_id: ownerId, ...input });
+      onOpenChange(false);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  return (
+    <Dialog open={!!row} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Override forecast — {ownerName}</DialogTitle>
+          <DialogDescription>
+            Your call for {periodLabel} in {reportingCurrency}. Leave a field empty to use the rolled-up deal figure.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="override-commit">Commit</Label>
+            <Input
+              id="override-commit"
+              type="number"
+              min={0}
+              placeholder={money(row.closed + row.commit)}
+              value={commitAmount}
+              onChange={e => setCommitAmount(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              From deals: {money(row.closed)} closed + {money(row.commit)} commit
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="override-best-case">Best case</Label>
+            <Input
+              id="override-best-case"
+              type="number"
+              min={0}
+              placeholder={money(row.closed + row.commit + row.bestCase)}
+              value={bestCaseAmount}
+              onChange={e => setBestCaseAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="override-note">Note</Label>
+            <Textarea
+              id="override-note"
+              rows={3}
+              placeholder="Why the numbers differ from the deals"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {row.override && (
+            <Button
+              variant="outline"
+              disabled={saving}
+              onClick={() => save({ commit_amount: null, best_case_amount: null, note: null })}
+            >
+              Clear override
+            </Button>
+          )}
+          <Button
+            disabled={saving}
+            onClick={() => save({
+              commit_amount: parseOptionalAmount(commitAmount),
+              best_case_amount: parseOptionalAmount(bestCaseAmount),
+              note,
+            })}
+          >
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
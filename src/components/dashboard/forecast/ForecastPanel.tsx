@@ -0,0 +1,161 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LineChart as ForecastIcon } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { createNameMap, useProfiles } from "@/hooks/useProfiles";
+import { useForecast } from "@/hooks/useForecast";
+import { buildForecastRows, ForecastDeal, periodLabel as formatPeriod } from "@/utils/forecasting";
+import { Quarter, QUARTERS } from "@/utils/revenueAttainment";
+import { DEFAULT_DEAL_CURRENCY } from "@/utils/currencyConversion";
+import { formatCurrency } from "@/utils/formatUtils";
+import { ForecastRepTable } from "./ForecastRepTable";
+import { ForecastDealsTable } from "./ForecastDealsTable";
+import { ForecastHistory } from "./ForecastHistory";
+
+interface ForecastPanelProps {
+  year: number;
+}
+
+const currentQuarter = (year: number): Quarter => {
+  const now = new Date();
+  return now.getFullYear() === year ? (Math.floor(now.getMonth() / 3) + 1) as Quarter : 1;
+};
+
+export const ForecastPanel = ({ year }: ForecastPanelProps) => {
+  const { user } = useAuth();
+  const { isAdmin, isManager } = useUserRole();
+  const { data: profiles = [] } = useProfiles();
+  const [selectedQuarter, setSelectedQuarter] = useState<{ year: number; quarter: Quarter } | null>(null);
+  // Follow the dashboard's year, starting on the current quarter when it is this year
+  const quarter = selectedQuarter?.year === year ? selectedQuarter.quarter : currentQuarter(year);
+  const {
+    deals,
+    overrides,
+    rates,
+    reportingCurrency = DEFAULT_DEAL_CURRENCY,
+    loading,
+    saveOverride,
+    savingOverride,
+    setDealCategory,
+  } = useForecast(year, quarter);
+
+  const ownerNames = useMemo(() => createNameMap(profiles), [profiles]);
+  const periodLabel = formatPeriod(year, quarter);
+  const canManage = isAdmin || isManager;
+
+  const rows = useMemo(
+    () => buildForecastRows(deals, overrides, year, quarter, rates, reportingCurrency),
+    [deals, overrides, year, quarter, rates, reportingCurrency]
+  );
+  const periodDeals = useMemo(() => deals.filter(d => d.year === year && d.quarter === quarter), [deals, year, quarter]);
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      closed: sum.closed + row.closed,
+      forecast: sum.forecast + row.forecast,
+      upside: sum.upside + row.upside,
+      pipeline: sum.pipeline + row.pipeline,
+      weighted: sum.weighted + row.weighted,
+    }),
+    { closed: 0, forecast: 0, upside: 0, pipeline: 0, weighted: 0 }
+  );
+  const summary = [
+    { label: 'Closed', value: totals.closed, className: 'text-green-600' },
+    { label: 'Forecast', value: totals.forecast, className: 'text-blue-600' },
+    { label: 'Best Case', value: totals.upside, className: 'text-amber-600' },
+    { label: 'Pipeline', value: totals.pipeline, className: 'text-muted-foreground' },
+    { label: 'Weighted', value: totals.weighted, className: 'text-purple-600' },
+  ];
+
+  const canEditDeal = (deal: ForecastDeal) => canManage || deal.ownerId === user?.id;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <ForecastIcon className="h-5 w-5" />
+          Forecast
+        </CardTitle>
+        <Select
+          value={String(quarter)}
+          onValueChange={value => setSelectedQuarter({ year, quarter: Number(value) as Quarter })}
+        >
+          <SelectTrigger className="w-32 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {QUARTERS.map(q => <SelectItem key={q} value={String(q)}>{formatPeriod(year, q)}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map(i => <Skeleton key={i} className="h-10 w-full" />)}
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {summary.map(item => (
+                <div key={item.label} className="rounded-lg border p-3">
+                  <p className="text-xs text-muted-foreground">{item.label}</p>
+                  <p className={`text-lg font-semibold tabular-nums ${item.className}`}>
+                    {formatCurrency(Math.round(item.value), reportingCurrency)}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Forecast is closed plus commit, and best case adds best-case deals, unless a manager has overridden a rep.
+              Weighted multiplies each open deal by its probability.
+            </p>
+
+            <Tabs defaultValue="reps">
+              <TabsList>
+                <TabsTrigger value="reps">By Rep</TabsTrigger>
+                <TabsTrigger value="deals">Deals ({periodDeals.length})</TabsTrigger>
+                <TabsTrigger value="history">Trend & Slippage</TabsTrigger>
+              </TabsList>
+              <TabsContent value="reps" className="mt-4">
+                <ForecastRepTable
+                  rows={rows}
+                  ownerNames={ownerNames}
+                  periodLabel={periodLabel}
+                  reportingCurrency={reportingCurrency}
+                  canOverride={canManage}
+                  savingOverride={savingOverride}
+                  onSaveOverride={saveOverride}
+                />
+              </TabsContent>
+              <TabsContent value="deals" className="mt-4">
+                <ForecastDealsTable
+                  deals={periodDeals}
+                  ownerNames={ownerNames}
+                  periodLabel={periodLabel}
+                  reportingCurrency={reportingCurrency}
+                  canEditDeal={canEditDeal}
+                  onCategoryChange={(dealId, category) => setDealCategory({ dealId, category })}
+                />
+              </TabsContent>
+              <TabsContent value="history" className="mt-4">
+                <ForecastHistory
+                  year={year}
+                  quarter={quarter}
+                  liveDeals={deals}
+                  ownerNames={ownerNames}
+                  periodLabel={periodLabel}
+                  reportingCurrency={reportingCurrency}
+                  canTakeSnapshot={canManage}
+                />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
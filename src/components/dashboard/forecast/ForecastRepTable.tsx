@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { Pencil } from "lucide-react";
+import { ForecastOverrideInput } from "@/hooks/useForecast";
+import { ForecastRow } from "@/utils/forecasting";
+import { formatCurrency } from "@/utils/formatUtils";
+import { ForecastOverrideDialog } from "./ForecastOverrideDialog";
+
+interface ForecastRepTableProps {
+  rows: ForecastRow[];
+  ownerNames: Record<string, string>;
+  periodLabel: string;
+  reportingCurrency: string;
+  canOverride: boolean;
+  savingOverride: boolean;
+  onSaveOverride: (input: ForecastOverrideInput) => Promise<unknown>;
+}
+
+export const ForecastRepTable = ({
+  rows,
+  ownerNames,
+  periodLabel,
+  reportingCurrency,
+  canOverride,
+  savingOverride,
+  onSaveOverride,
+}: ForecastRepTableProps) => {
+  const [editingRow, setEditingRow] = useState<ForecastRow | null>(null);
+
+  const money = (amount: number) => formatCurrency(Math.round(amount), reportingCurrency);
+  const ownerName = (ownerId: string | null) => (ownerId ? ownerNames[ownerId] || 'Unknown User' : 'Unassigned');
+  const total = (pick: (row: ForecastRow) => number) => rows.reduce((sum, row) => sum + pick(row), 0);
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">No deals are expected to close in {periodLabel}.</p>;
+  }
+
+  return (
+    <>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rep</TableHead>
+              <TableHead className="text-right">Closed</TableHead>
+              <TableHead className="text-right">Commit</TableHead>
+              <TableHead className="text-right">Best Case</TableHead>
+              <TableHead className="text-right">Pipeline</TableHead>
+              <TableHead className="text-right">Weighted</TableHead>
+              <TableHead className="text-right">Forecast</TableHead>
+              <TableHead className="text-right">Upside</TableHead>
+              {canOverride && <TableHead className="w-10" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.ownerId ?? 'unassigned'}>
+                <TableCell className="font-medium">
+                  <div className="flex items-center gap-2">
+                    {ownerName(row.ownerId)}
+                    {row.override && (
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Badge variant="secondary" className="text-xs">Override</Badge>
+                          </TooltipTrigger>
+                          <TooltipContent className="max-w-xs">
+                            {row.override.note || 'Manager override'}
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right tabular-nums">{money(row.closed)}</TableCell>
+                <TableCell className="text-right tabular-nums">{money(row.commit)}</TableCell>
+                <TableCell className="text-right tabular-nums">{money(row.bestCase)}</TableCell>
+                <TableCell className="text-right tabular-nums text-muted-foreground">{money(row.pipeline)}</TableCell>
+                <TableCell className="text-right tabular-nums">{money(row.weighted)}</TableCell>
+                <TableCell className="text-right tabular-nums font-semibold">{money(row.forecast)}</TableCell>
+                <TableCell className="text-right tabular-nums">{money(row.upside)}</TableCell>
+                {canOverride && (
+                  <TableCell>
+                    {row.ownerId && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingRow(row)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell className="font-medium">Total</TableCell>
+              <TableCell className="text-right tabular-nums">{money(total(r => r.closed))}</TableCell>
+              <TableCell className="text-right tabular-nums">{money(total(r => r.commit))}</TableCell>
+              <TableCell className="text-right tabular-nums">{money(total(r => r.bestCase))}</TableCell>
+              <TableCell className="text-right tabular-nums">{money(total(r => r.pipeline))}</TableCell>
+              <TableCell className="text-right tabular-nums">{money(total(r => r.weighted))}</TableCell>
+              <TableCell className="text-right tabular-nums font-semibold">{money(total(r => r.forecast))}</TableCell>
+              <TableCell className="text-right tabular-nums">{money(total(r => r.upside))}</TableCell>
+              {canOverride && <TableCell />}
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+
+      <ForecastOverrideDialog
+        row={editingRow}
+        ownerName={ownerName(editingRow?.ownerId ?? null)}
+        periodLabel={periodLabel}
+        reportingCurrency={reportingCurrency}
+        saving={savingOverride}
+        onSave={onSaveOverride}
+        onOpenChange={(open) => !open && setEditingRow(null)}
+      />
+    </>
+  );
+};
@@ -0,0 +1,70 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AttainmentRow } from "@/utils/revenueAttainment";
+import { formatCurrency } from "@/utils/formatUtils";
+
+interface AttainmentDealsDialogProps {
+  row: AttainmentRow | null;
+  title: string;
+  reportingCurrency: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const AttainmentDealsDialog = ({ row, title, reportingCurrency, onOpenChange }: AttainmentDealsDialogProps) => {
+  const contributions = [...(row?.contributions ?? [])].sort(
+    (a, b) => a.quarter - b.quarter || (b.reportingAmount ?? 0) - (a.reportingAmount ?? 0)
+  );
+  const missingRates = contributions.filter(c => c.reportingAmount === null).length;
+
+  return (
+    <Dialog open={!!row} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Deals behind the won and committed figures. Committed amounts are weighted by probability.
+            {missingRates > 0 && ` ${missingRates} without an exchange rate to ${reportingCurrency} are not counted.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {contributions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No won or committed deals in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Deal</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead>Region</TableHead>
+                <TableHead>Quarter</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Probability</TableHead>
+                <TableHead className="text-right">Counts as ({reportingCurrency})</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {contributions.map(c => (
+                <TableRow key={`${c.dealId}-${c.quarter}`}>
+                  <TableCell className="font-medium">{c.dealName}</TableCell>
+                  <TableCell>
+                    <Badge variant={c.kind === 'won' ? 'default' : 'outline'}>{c.stage}</Badge>
+                  </TableCell>
+                  <TableCell>{c.region || '—'}</TableCell>
+                  <TableCell>Q{c.quarter}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatCurrency(c.originalAmount, c.currency)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{c.probability === null ? '—' : `${c.probability}%`}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {c.reportingAmount === null
+                      ? <span className="text-muted-foreground">No rate</span>
+                      : formatCurrency(c.reportingAmount, reportingCurrency)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
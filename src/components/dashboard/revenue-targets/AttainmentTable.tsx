@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Progress } from "@/components/ui/progress";
+import { AttainmentRow } from "@/utils/revenueAttainment";
+import { formatCurrency } from "@/utils/formatUtils";
+import { AttainmentDealsDialog } from "./AttainmentDealsDialog";
+
+interface AttainmentTableProps {
+  rows: AttainmentRow[];
+  reportingCurrency: string;
+  ownerNames: Record<string, string>;
+  periodLabel: string;
+}
+
+export const AttainmentTable = ({ rows, reportingCurrency, ownerNames, periodLabel }: AttainmentTableProps) => {
+  const [selectedRow, setSelectedRow] = useState<AttainmentRow | null>(null);
+
+  const rowLabel = (row: AttainmentRow) => {
+    const owner = row.ownerId ? ownerNames[row.ownerId] || 'Unknown User' : 'All owners';
+    return row.region ? `${owner} · ${row.region}` : owner;
+  };
+  const money = (amount: number) => formatCurrency(Math.round(amount), reportingCurrency);
+
+  // Reps first, then shared team/region targets; largest targets on top
+  const sorted = [...rows].sort((a, b) =>
+    Number(a.ownerId === null) - Number(b.ownerId === null) || b.target - a.target || b.won - a.won
+  );
+
+  if (sorted.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        No targets and no won or committed deals for {periodLabel}.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Owner / Region</TableHead>
+            <TableHead className="text-right">Target</TableHead>
+            <TableHead className="text-right">Won</TableHead>
+            <TableHead className="text-right">Committed</TableHead>
+            <TableHead className="text-right">Gap</TableHead>
+            <TableHead className="w-48">Attainment</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sorted.map(row => {
+            const attainment = row.target > 0 ? (row.won / row.target) * 100 : null;
+            const withCommitted = row.target > 0 ? ((row.won + row.committed) / row.target) * 100 : null;
+            return (
+              <TableRow key={row.key} className="cursor-pointer" onClick={() => setSelectedRow(row)}>
+                <TableCell className="font-medium">{rowLabel(row)}</TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {row.target > 0 ? money(row.target) : <span className="text-muted-foreground">No target</span>}
+                </TableCell>
+                <TableCell className="text-right tabular-nums text-green-600">{money(row.won)}</TableCell>
+                <TableCell className="text-right tabular-nums text-blue-600">{money(row.committed)}</TableCell>
+                <TableCell className={`text-right tabular-nums ${row.gap > 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                  {row.target > 0 ? money(row.gap) : '—'}
+                </TableCell>
+                <TableCell>
+                  {attainment === null ? (
+                    <span className="text-xs text-muted-foreground">—</span>
+                  ) : (
+                    <div className="space-y-1">
+                      <Progress value={Math.min(attainment, 100)} className="h-2" />
+                      <p className="text-xs text-muted-foreground">
+                        {attainment.toFixed(0)}% won · {withCommitted!.toFixed(0)}% with committed
+                      </p>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <AttainmentDealsDialog
+        row={selectedRow}
+        title={selectedRow ? `${rowLabel(selectedRow)} — ${periodLabel}` : ''}
+        reportingCurrency={reportingCurrency}
+        onOpenChange={(open) => !open && setSelectedRow(null)}
+      />
+    </>
+  );
+};
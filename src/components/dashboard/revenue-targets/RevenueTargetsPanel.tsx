@@ -0,0 +1,88 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Target } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { createNameMap, useProfiles } from "@/hooks/useProfiles";
+import { useRevenueAttainment } from "@/hooks/useRevenueTargets";
+import { buildAttainmentRows, Quarter, QUARTERS } from "@/utils/revenueAttainment";
+import { DEFAULT_DEAL_CURRENCY } from "@/utils/currencyConversion";
+import { AttainmentTable } from "./AttainmentTable";
+import { TargetGrid } from "./TargetGrid";
+
+interface RevenueTargetsPanelProps {
+  year: number;
+}
+
+const FULL_YEAR = 'year';
+
+export const RevenueTargetsPanel = ({ year }: RevenueTargetsPanelProps) => {
+  const { isAdmin, isManager } = useUserRole();
+  const { data: profiles = [] } = useProfiles();
+  const { targets, contributions, regions, rates, reportingCurrency = DEFAULT_DEAL_CURRENCY, loading } = useRevenueAttainment(year);
+  const [period, setPeriod] = useState(FULL_YEAR);
+
+  const periodLabel = period === FULL_YEAR ? `${year}` : `Q${period} ${year}`;
+  const ownerNames = useMemo(() => createNameMap(profiles), [profiles]);
+
+  const rows = useMemo(() => {
+    const quarters: Quarter[] = period === FULL_YEAR ? QUARTERS : [Number(period) as Quarter];
+    return buildAttainmentRows(targets, contributions, quarters, rates, reportingCurrency);
+  }, [targets, contributions, period, rates, reportingCurrency]);
+
+  const canSetTargets = isAdmin || isManager;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Target className="h-5 w-5" />
+          Targets & Attainment
+        </CardTitle>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-32 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={FULL_YEAR}>Full year</SelectItem>
+            {QUARTERS.map(q => <SelectItem key={q} value={String(q)}>Q{q}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="attainment">
+          <TabsList>
+            <TabsTrigger value="attainment">Attainment</TabsTrigger>
+            {canSetTargets && <TabsTrigger value="targets">Set Targets</TabsTrigger>}
+          </TabsList>
+          <TabsContent value="attainment" className="mt-4">
+            {loading ? (
+              <div className="space-y-2">
+                {[1, 2, 3].map(i => <Skeleton key={i} className="h-10 w-full" />)}
+              </div>
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Committed is deals in commit and best case stages weighted by probability. Click a row to see the deals behind it.
+                </p>
+                <AttainmentTable
+                  rows={rows}
+                  reportingCurrency={reportingCurrency}
+                  ownerNames={ownerNames}
+                  periodLabel={periodLabel}
+                />
+              </>
+            )}
+          </TabsContent>
+          {canSetTargets && (
+            <TabsContent value="targets" className="mt-4">
+              <TargetGrid year={year} regions={regions} reportingCurrency={reportingCurrency} />
+            </TabsContent>
+          )}
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
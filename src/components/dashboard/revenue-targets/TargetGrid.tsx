@@ -0,0 +1,245 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Save, Trash2, Loader2 } from "lucide-react";
+import { useProfiles } from "@/hooks/useProfiles";
+import { useAuth } from "@/hooks/useAuth";
+import { useTeamScope } from "@/hooks/useTeamScope";
+import { usePermissions } from "@/contexts/PermissionsContext";
+import { useRevenueTargets } from "@/hooks/useRevenueTargets";
+import { useYearlyRevenueData } from "@/hooks/useYearlyRevenueData";
+import { QUARTERS, RevenueTarget } from "@/utils/revenueAttainment";
+import { formatCurrency } from "@/utils/formatUtils";
+
+const ALL_OWNERS = '__all__';
+
+interface GridRow {
+  rowId: string;
+  ownerId: string | null;
+  region: string;
+  amounts: string[];
+}
+
+interface TargetGridProps {
+  year: number;
+  regions: string[];
+  reportingCurrency: string;
+}
+
+let nextRowId = 0;
+const newRowId = () => `row-${++nextRowId}`;
+
+const emptyRow = (ownerId: string | null = null): GridRow => ({ rowId: newRowId(), ownerId, region: '', amounts: ['', '', '', ''] });
+
+// Stored targets are one row per quarter; the grid shows one line per owner × region
+const toGridRows = (targets: RevenueTarget[]): GridRow[] => {
+  const rows = new Map<string, GridRow>();
+  targets.forEach(t => {
+    const key = `${t.owner_id ?? ''}|${t.region ?? ''}`;
+    const row = rows.get(key) ?? { rowId: newRowId(), ownerId: t.owner_id, region: t.region ?? '', amounts: ['', '', '', ''] };
+    row.amounts[t.quarter - 1] = String(t.amount);
+    rows.set(key, row);
+  });
+  return Array.from(rows.values());
+};
+
+const parseAmount = (value: string) => {
+  const amount = parseFloat(value);
+  return isNaN(amount) || amount < 0 ? 0 : amount;
+};
+
+export const TargetGrid = ({ year, regions, reportingCurrency }: TargetGridProps) => {
+  const { data: profiles = [] } = useProfiles();
+  const { user } = useAuth();
+  const { isAdmin } = usePermissions();
+  const { reportIds } = useTeamScope();
+  const { targets, loading, saveTargets, saving } = useRevenueTargets(year);
+  const { revenueData } = useYearlyRevenueData(year);
+  const [rows, setRows] = useState<GridRow[]>([]);
+
+  useEffect(() => {
+    if (!loading) setRows(toGridRows(targets));
+  }, [targets, loading]);
+
+  // Mirrors can_manage_user(): admins set every target, including "All owners" rows;
+  // team managers their own and their reports', other managers anyone's personal targets
+  const canEditOwner = (ownerId: string | null) =>
+    isAdmin || (!!ownerId && (reportIds.length === 0 || ownerId === user?.id || reportIds.includes(ownerId)));
+
+  const sortedProfiles = useMemo(
+    () => [...profiles].filter(p => p.full_name).sort((a, b) => (a.full_name || '').localeCompare(b.full_name || '')),
+    [profiles]
+  );
+
+  const updateRow = (rowId: string, patch: Partial<GridRow>) =>
+    setRows(prev => prev.map(row => (row.rowId === rowId ? { ...row, ...patch } : row)));
+
+  const updateAmount = (row: GridRow, index: number, value: string) => {
+    const amounts = [...row.amounts];
+    amounts[index] = value;
+    updateRow(row.rowId, { amounts });
+  };
+
+  const slotKeys = rows.map(row => `${row.ownerId ?? ''}|${row.region.trim().toLowerCase()}`);
+  const hasDuplicates = new Set(slotKeys).size !== slotKeys.length;
+  const quarterTotals = QUARTERS.map((_, index) => rows.reduce((sum, row) => sum + parseAmount(row.amounts[index]), 0));
+  const grandTotal = quarterTotals.reduce((sum, amount) => sum + amount, 0);
+  const companyTarget = revenueData?.target || 0;
+  const money = (amount: number) => formatCurrency(amount, reportingCurrency);
+
+  const handleSave = async () => {
+    const payload = rows.flatMap(row =>
+      QUARTERS.map((quarter, index) => ({
+        owner_id: row.ownerId,
+        region: row.region.trim() || null,
+        quarter,
+        amount: parseAmount(row.amounts[index]),
+      }))
+    ).filter(t => t.amount > 0);
+
+    try {
+      await saveTargets({ targets: payload, currency: reportingCurrency });
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  if (loading) {
+    return <div className="h-40 rounded-md skeleton-shimmer" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Set quarterly targets in {reportingCurrency} for each rep, region, or both. Leave the owner as "All owners" for a
+        regional target, and the region empty for a rep's overall target.
+        {!isAdmin && " You can change targets of the people you manage; other rows are read-only."}
+      </p>
+
+      <datalist id="revenue-target-regions">
+        {regions.map(region => <option key={region} value={region} />)}
+      </datalist>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[180px]">Owner</TableHead>
+              <TableHead className="min-w-[140px]">Region</TableHead>
+              {QUARTERS.map(q => <TableHead key={q} className="min-w-[110px] text-right">Q{q}</TableHead>)}
+              <TableHead className="text-right">Year</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-6">
+                  No targets for {year} yet.
+                </TableCell>
+              </TableRow>
+            )}
+            {rows.map(row => {
+              const editable = canEditOwner(row.ownerId);
+              return (
+                <TableRow key={row.rowId}>
+                  <TableCell>
+                    <Select
+                      value={row.ownerId ?? ALL_OWNERS}
+                      onValueChange={value => updateRow(row.rowId, { ownerId: value === ALL_OWNERS ? null : value })}
+                      disabled={!editable}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_OWNERS} disabled={!canEditOwner(null)}>All owners</SelectItem>
+                        {sortedProfiles.map(profile => (
+                          <SelectItem key={profile.id} value={profile.id} disabled={!canEditOwner(profile.id)}>
+                            {profile.full_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      className="h-8"
+                      list="revenue-target-regions"
+                      placeholder="All regions"
+                      value={row.region}
+                      onChange={e => updateRow(row.rowId, { region: e.target.value })}
+                      disabled={!editable}
+                    />
+                  </TableCell>
+                  {QUARTERS.map((q, index) => (
+                    <TableCell key={q}>
+                      <Input
+                        className="h-8 text-right"
+                        type="number"
+                        min={0}
+                        placeholder="0"
+                        value={row.amounts[index]}
+                        onChange={e => updateAmount(row, index, e.target.value)}
+                        disabled={!editable}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right tabular-nums whitespace-nowrap">
+                    {money(row.amounts.reduce((sum, value) => sum + parseAmount(value), 0))}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setRows(prev => prev.filter(r => r.rowId !== row.rowId))}
+                      disabled={!editable}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+          {rows.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2} className="font-medium">Sum of all rows</TableCell>
+                {quarterTotals.map((total, index) => (
+                  <TableCell key={index} className="text-right tabular-nums">{money(total)}</TableCell>
+                ))}
+                <TableCell className="text-right tabular-nums font-medium">{money(grandTotal)}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </div>
+
+      {companyTarget > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Company target for {year}: {money(companyTarget)}. Rep and regional rows can overlap, so the sum above is not
+          expected to match it.
+        </p>
+      )}
+      {hasDuplicates && (
+        <p className="text-sm text-destructive">Each owner and region combination can only appear once.</p>
+      )}
+
+      <div className="flex justify-between">
+        <Button variant="outline" size="sm" onClick={() => setRows(prev => [...prev, emptyRow(isAdmin ? null : user?.id ?? null)])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add row
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving || hasDuplicates}>
+          {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+          Save targets
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,8 @@
-
-import { Deal, DealStage } from "@/types/deal";
-import { LeadStageForm } from "./LeadStageForm";
-import { DiscussionsStageForm } from "./DiscussionsStageForm";
-import { QualifiedStageForm } from "./QualifiedStageForm";
-import { RFQStageForm } from "./RFQStageForm";
-import { OfferedStageForm } from "./OfferedStageForm";
-import { FinalStageForm } from "./FinalStageForm";
+import { useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Deal, DealStage, PipelineStage, isClosedStage } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { FormFieldRenderer } from "./FormFieldRenderer";
 
 interface DealStageFormProps {
   formData: Partial<Deal>;
@@ -16,112 +13,100 @@ interface DealStageFormProps {
   showPreviousStages: boolean;
 }
 
-export const DealStageForm = ({ 
-  formData, 
-  onFieldChange, 
-  onLeadSelect, 
-  fieldErrors, 
-  stage, 
-  showPreviousStages 
+const FULL_WIDTH_FIELDS = ['action_items', 'internal_comment', 'won_reason', 'lost_reason', 'need_improvement', 'drop_reason'];
+
+export const DealStageForm = ({
+  formData,
+  onFieldChange,
+  onLeadSelect,
+  fieldErrors,
+  stage,
+  showPreviousStages
 }: DealStageFormProps) => {
-  const getStageIndex = (stage: DealStage): number => {
-    const stages = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-    return stages.indexOf(stage);
-  };
+  const { activeStages, getStage } = usePipelineStages();
+  const currentStage = getStage(stage);
 
-  const currentStageIndex = getStageIndex(stage);
-  const isFinalStage = ['Won', 'Lost', 'Dropped'].includes(stage);
+  const getStagesToShow = (): PipelineStage[] => {
+    if (!currentStage) return [];
+    if (!showPreviousStages) return [currentStage];
 
-  const renderStageComponent = (stageToRender: DealStage) => {
-    switch (stageToRender) {
-      case 'Lead':
-        return (
-          <LeadStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            onLeadSelect={onLeadSelect}
-            fieldErrors={fieldErrors}
-          />
-        );
-      case 'Discussions':
-        return (
-          <DiscussionsStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            fieldErrors={fieldErrors}
-          />
-        );
-      case 'Qualified':
-        return (
-          <QualifiedStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            fieldErrors={fieldErrors}
-          />
-        );
-      case 'RFQ':
-        return (
-          <RFQStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            fieldErrors={fieldErrors}
-          />
-        );
-      case 'Offered':
-        return (
-          <OfferedStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            fieldErrors={fieldErrors}
-          />
-        );
-      case 'Won':
-      case 'Lost':
-      case 'Dropped':
-        return (
-          <FinalStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            fieldErrors={fieldErrors}
-            stage={stageToRender}
-          />
-        );
-      default:
-        return null;
-    }
+    // Every open stage up to the current one; closed stages add their own section last
+    const previous = activeStages.filter(s =>
+      !isClosedStage(s) &&
+      s.id !== currentStage.id &&
+      (isClosedStage(currentStage) || s.stage_order < currentStage.stage_order)
+    );
+    return [...previous, currentStage];
   };
 
-  if (showPreviousStages) {
-    // Show all stages up to current stage
-    const stagesToShow: DealStage[] = [];
-    const allStages: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered'];
-    
-    if (isFinalStage) {
-      // For final stages, show all previous stages plus the final stage
-      stagesToShow.push(...allStages);
-      stagesToShow.push(stage);
-    } else {
-      // For regular stages, show all stages up to current
-      for (let i = 0; i <= currentStageIndex && i < allStages.length; i++) {
-        stagesToShow.push(allStages[i]);
+  const stagesToShow = getStagesToShow();
+  const visibleFields = new Set(stagesToShow.flatMap(s => s.form_fields));
+  const showsProjectDuration = visibleFields.has('project_duration');
+  const showsTotalRevenue = visibleFields.has('total_revenue');
+
+  // Auto-calculate project_duration when dates change
+  useEffect(() => {
+    if (!showsProjectDuration) return;
+    if (formData.start_date && formData.end_date) {
+      const startDate = new Date(formData.start_date);
+      const endDate = new Date(formData.end_date);
+
+      if (startDate <= endDate) {
+        // Calculate months between dates
+        const months = (endDate.getFullYear() - startDate.getFullYear()) * 12 +
+                      (endDate.getMonth() - startDate.getMonth());
+
+        if (months !== (Number(formData.project_duration) || 0)) {
+          onFieldChange('project_duration', months);
+        }
       }
     }
+  }, [showsProjectDuration, formData.start_date, formData.end_date, formData.project_duration, onFieldChange]);
 
-    return (
-      <div className="space-y-6">
-        {stagesToShow.map(stageToRender => (
-          <div key={stageToRender}>
-            {renderStageComponent(stageToRender)}
-          </div>
-        ))}
-      </div>
-    );
-  } else {
-    // Show only current stage
-    return (
-      <div>
-        {renderStageComponent(stage)}
-      </div>
-    );
-  }
+  // Auto-calculate total_revenue when quarterly revenues change
+  useEffect(() => {
+    if (!showsTotalRevenue) return;
+    const q1 = Number(formData.quarterly_revenue_q1) || 0;
+    const q2 = Number(formData.quarterly_revenue_q2) || 0;
+    const q3 = Number(formData.quarterly_revenue_q3) || 0;
+    const q4 = Number(formData.quarterly_revenue_q4) || 0;
+
+    const totalRevenue = q1 + q2 + q3 + q4;
+
+    // Only update if quarterly revenues are filled and total doesn't match
+    if ((q1 > 0 || q2 > 0 || q3 > 0 || q4 > 0) && totalRevenue !== (Number(formData.total_revenue) || 0)) {
+      onFieldChange('total_revenue', totalRevenue);
+    }
+  }, [showsTotalRevenue, formData.quarterly_revenue_q1, formData.quarterly_revenue_q2, formData.quarterly_revenue_q3, formData.quarterly_revenue_q4, formData.total_revenue, onFieldChange]);
+
+  return (
+    <div className="space-y-6">
+      {stagesToShow.map(stageToRender => (
+        <Card key={stageToRender.id}>
+          <CardHeader className="pb-4">
+            <CardTitle className="text-lg font-semibold">{stageToRender.stage_name} Stage</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {stageToRender.form_fields.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No fields are configured for this stage.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {stageToRender.form_fields.map(field => (
+                  <div key={field} className={FULL_WIDTH_FIELDS.includes(field) ? 'md:col-span-2 lg:col-span-3' : ''}>
+                    <FormFieldRenderer
+                      field={field}
+                      value={formData[field as keyof Deal]}
+                      onChange={onFieldChange}
+                      onLeadSelect={onLeadSelect}
+                      error={fieldErrors[field]}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
 };
@@ -8,7 +8,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { CalendarIcon } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
-import { Deal } from "@/types/deal";
+import { Deal, DEAL_FIELD_LABELS } from "@/types/deal";
 import { LeadSearchableDropdown } from "@/components/LeadSearchableDropdown";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery } from "@tanstack/react-query";
@@ -24,54 +24,13 @@ interface FormFieldRendererProps {
 export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error }: FormFieldRendererProps) => {
 
   const getFieldLabel = (field: string) => {
-    const labels: Record<string, string> = {
-      project_name: 'Project Name',
-      customer_name: 'Customer Name',
-      lead_name: 'Lead Name',
-      lead_owner: 'Lead Owner',
-      account_id: 'Account',
-      contact_id: 'Contact',
-      region: 'Region',
-      priority: 'Priority',
-      probability: 'Probability (%)',
-      internal_comment: 'Internal Comment',
-      expected_closing_date: 'Expected Closing Date',
-      customer_need: 'Customer Need',
-      customer_challenges: 'Customer Challenges',
-      relationship_strength: 'Relationship Strength',
-      budget: 'Budget',
-      is_recurring: 'Is Recurring?',
+    const legacyLabels: Record<string, string> = {
       project_type: 'Project Type',
       duration: 'Duration (months)',
       revenue: 'Revenue',
-      start_date: 'Start Date',
-      end_date: 'End Date',
-      total_contract_value: 'Total Contract Value',
-      currency_type: 'Currency Type',
-      project_duration: 'Project Duration (months)',
-      rfq_received_date: 'RFQ Received Date',
-      proposal_due_date: 'Proposal Due Date',
-      rfq_status: 'RFQ Status',
-      quarterly_revenue_q1: 'Q1 Revenue',
-      quarterly_revenue_q2: 'Q2 Revenue',
-      quarterly_revenue_q3: 'Q3 Revenue',
-      quarterly_revenue_q4: 'Q4 Revenue',
-      total_revenue: 'Total Revenue',
-      action_items: 'Action Items',
-      current_status: 'Current Status',
-      closing: 'Closing',
-      won_reason: 'Won Reason',
-      lost_reason: 'Lost Reason',
-      need_improvement: 'Need Improvement',
-      drop_reason: 'Drop Reason',
       fax: 'Fax',
-      business_value: 'Business Value',
-      decision_maker_level: 'Decision Maker Level',
-      signed_contract_date: 'Signed Contract Date',
-      implementation_start_date: 'Implementation Start Date',
-      handoff_status: 'Handoff Status',
     };
-    return labels[field] || field;
+    return DEAL_FIELD_LABELS[field] || legacyLabels[field] || field;
   };
 
   const getStringValue = (val: any): string => {
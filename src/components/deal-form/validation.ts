@@ -1,5 +1,5 @@
 
-import { Deal, DealStage, getRequiredFieldsForStage } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 
 export const validateField = (field: string, value: any, stage: DealStage, formData?: Partial<Deal>): boolean => {
   // Always return true - no validation
@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { getPipelineStageStyle } from '@/utils/statusBadgeUtils';
 import {
   Dialog,
   DialogContent,
@@ -16,6 +18,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { EntityEmailHistory } from '@/components/shared/EntityEmailHistory';
 import { RecordChangeHistory } from '@/components/shared/RecordChangeHistory';
 import { RelatedTasksSection } from '@/components/shared/RelatedTasksSection';
+import { RecordScoreCard } from '@/components/shared/RecordScoreCard';
 import { SendEmailModal } from '@/components/SendEmailModal';
 import { LeadActivityTimeline } from './LeadActivityTimeline';
 import { LeadActivityLogModal } from './LeadActivityLogModal';
@@ -128,6 +131,7 @@ export const LeadDetailModal = ({
   onEdit,
 }: LeadDetailModalProps) => {
   const navigate = useNavigate();
+  const { getStage } = usePipelineStages();
   const [activeTab, setActiveTab] = useState('overview');
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [showActivityLogModal, setShowActivityLogModal] = useState(false);
@@ -251,20 +255,6 @@ export const LeadDetailModal = ({
     return statusColors[status] || 'bg-gray-100 text-gray-800';
   };
 
-  const getStageColor = (stage: string) => {
-    const stageColors: Record<string, string> = {
-      'Lead': 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
-      'Qualified': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-      'RFQ': 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
-      'Discussions': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
-      'Offered': 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
-      'Won': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-      'Lost': 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
-      'Dropped': 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
-    };
-    return stageColors[stage] || 'bg-gray-100 text-gray-800';
-  };
-
   const handleAddTag = () => {
     if (newTag.trim() && !tags.includes(newTag.trim())) {
       setTags([...tags, newTag.trim()]);
@@ -436,6 +426,8 @@ export const LeadDetailModal = ({
                 </Card>
               )}
 
+              <RecordScoreCard entityType="lead" entityId={lead.id} />
+
               {/* Timestamps */}
               <div className="flex items-center gap-4 text-xs text-muted-foreground">
                 {lead.created_time && (
@@ -584,7 +576,7 @@ export const LeadDetailModal = ({
                                   </p>
                                 )}
                               </div>
-                              <Badge className={`ml-2 ${getStageColor(deal.stage)}`}>
+                              <Badge variant="outline" className="ml-2" style={getPipelineStageStyle(getStage(deal.stage)?.stage_color)}>
                                 {deal.stage}
                               </Badge>
                             </div>
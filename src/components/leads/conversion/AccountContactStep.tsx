@@ -0,0 +1,115 @@
+import { ReactNode } from "react";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Building2, User } from "lucide-react";
+import { AccountMatch, ContactMatch, ConvertibleLead } from "@/hooks/useLeadConversion";
+
+interface AccountContactStepProps {
+  lead: ConvertibleLead;
+  accounts: AccountMatch[];
+  contacts: ContactMatch[];
+  accountChoice: string;
+  contactChoice: string;
+  onAccountChoiceChange: (value: string) => void;
+  onContactChoiceChange: (value: string) => void;
+}
+
+interface ChoiceProps {
+  id: string;
+  value: string;
+  disabled?: boolean;
+  children: ReactNode;
+}
+
+const Choice = ({ id, value, disabled, children }: ChoiceProps) => (
+  <Label
+    htmlFor={id}
+    className={`flex items-start gap-3 rounded-md border p-3 font-normal ${disabled ? 'opacity-50' : 'cursor-pointer hover:bg-muted/50'}`}
+  >
+    <RadioGroupItem value={value} id={id} disabled={disabled} className="mt-0.5" />
+    <div className="flex-1 min-w-0 space-y-0.5">{children}</div>
+  </Label>
+);
+
+export const AccountContactStep = ({
+  lead,
+  accounts,
+  contacts,
+  accountChoice,
+  contactChoice,
+  onAccountChoiceChange,
+  onContactChoiceChange,
+}: AccountContactStepProps) => {
+  const company = lead.company_name?.trim();
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-3">
+        <h4 className="font-medium flex items-center gap-2">
+          <Building2 className="h-4 w-4" />
+          Account
+        </h4>
+        {accounts.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {accounts.length} existing account{accounts.length === 1 ? '' : 's'} may already be this company.
+          </p>
+        )}
+        <RadioGroup value={accountChoice} onValueChange={onAccountChoiceChange} className="gap-2">
+          {accounts.map(account => (
+            <Choice key={account.id} id={`account-${account.id}`} value={account.id}>
+              <div className="flex items-center gap-2">
+                <span className="font-medium truncate">{account.company_name}</span>
+                <Badge variant="secondary" className="text-xs">{account.reason}</Badge>
+              </div>
+              {account.country && <p className="text-xs text-muted-foreground">{account.country}</p>}
+            </Choice>
+          ))}
+          <Choice id="account-new" value="new" disabled={!company}>
+            <span className="font-medium">Create a new account</span>
+            <p className="text-xs text-muted-foreground">
+              {company ? `"${company}" with the lead's website, industry and country` : 'The lead has no company name'}
+            </p>
+          </Choice>
+          <Choice id="account-none" value="none">
+            <span className="font-medium">Don't link an account</span>
+          </Choice>
+        </RadioGroup>
+      </section>
+
+      <section className="space-y-3">
+        <h4 className="font-medium flex items-center gap-2">
+          <User className="h-4 w-4" />
+          Contact
+        </h4>
+        {contacts.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {contacts.length} existing contact{contacts.length === 1 ? '' : 's'} may already be this person.
+          </p>
+        )}
+        <RadioGroup value={contactChoice} onValueChange={onContactChoiceChange} className="gap-2">
+          {contacts.map(contact => (
+            <Choice key={contact.id} id={`contact-${contact.id}`} value={contact.id}>
+              <div className="flex items-center gap-2">
+                <span className="font-medium truncate">{contact.contact_name}</span>
+                <Badge variant="secondary" className="text-xs">{contact.reason}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {[contact.email, contact.company_name].filter(Boolean).join(' · ') || 'No email or company'}
+              </p>
+            </Choice>
+          ))}
+          <Choice id="contact-new" value="new">
+            <span className="font-medium">Create a new contact</span>
+            <p className="text-xs text-muted-foreground">
+              {lead.lead_name}{lead.email ? ` (${lead.email})` : ''}, linked to the chosen account
+            </p>
+          </Choice>
+          <Choice id="contact-none" value="none">
+            <span className="font-medium">Don't link a contact</span>
+          </Choice>
+        </RadioGroup>
+      </section>
+    </div>
+  );
+};
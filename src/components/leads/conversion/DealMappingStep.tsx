@@ -0,0 +1,104 @@
+import { ReactNode } from "react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ConvertLeadInput } from "@/hooks/useLeadConversion";
+import { useProfiles, createNameMap } from "@/hooks/useProfiles";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { DEAL_CURRENCIES } from "@/utils/currencyConversion";
+
+export type DealMapping = ConvertLeadInput['deal'];
+
+interface DealMappingStepProps {
+  values: DealMapping;
+  onChange: <K extends keyof DealMapping>(field: K, value: DealMapping[K]) => void;
+}
+
+interface MappingRowProps {
+  label: string;
+  source: string;
+  htmlFor: string;
+  children: ReactNode;
+}
+
+const MappingRow = ({ label, source, htmlFor, children }: MappingRowProps) => (
+  <div className="grid grid-cols-[160px_1fr] items-start gap-3">
+    <div className="pt-2">
+      <Label htmlFor={htmlFor}>{label}</Label>
+      <p className="text-xs text-muted-foreground">{source}</p>
+    </div>
+    {children}
+  </div>
+);
+
+export const DealMappingStep = ({ values, onChange }: DealMappingStepProps) => {
+  const { data: profiles = [] } = useProfiles();
+  const names = createNameMap(profiles);
+  const { defaultStage } = usePipelineStages();
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Fields are filled from the lead. Adjust anything before the deal is created in the {defaultStage || "first"} stage.
+      </p>
+      <MappingRow label="Deal name *" source="From lead name" htmlFor="map-deal-name">
+        <Input id="map-deal-name" value={values.deal_name} onChange={e => onChange('deal_name', e.target.value)} />
+      </MappingRow>
+      <MappingRow label="Customer" source="From company name" htmlFor="map-customer">
+        <Input id="map-customer" value={values.customer_name} onChange={e => onChange('customer_name', e.target.value)} />
+      </MappingRow>
+      <MappingRow label="Lead name" source="From lead name" htmlFor="map-lead-name">
+        <Input id="map-lead-name" value={values.lead_name} onChange={e => onChange('lead_name', e.target.value)} />
+      </MappingRow>
+      <MappingRow label="Lead owner" source="From lead owner" htmlFor="map-owner">
+        <Select value={values.lead_owner || 'none'} onValueChange={value => onChange('lead_owner', value === 'none' ? null : value)}>
+          <SelectTrigger id="map-owner">
+            <SelectValue placeholder="Select lead owner..." />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No owner</SelectItem>
+            {profiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>{names[profile.id]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </MappingRow>
+      <MappingRow label="Region" source="From country" htmlFor="map-region">
+        <Input id="map-region" value={values.region} onChange={e => onChange('region', e.target.value)} />
+      </MappingRow>
+      <MappingRow label="Project name" source="Not on the lead" htmlFor="map-project">
+        <Input id="map-project" value={values.project_name} onChange={e => onChange('project_name', e.target.value)} />
+      </MappingRow>
+      <div className="grid grid-cols-2 gap-4">
+        <MappingRow label="Priority" source="Default 3" htmlFor="map-priority">
+          <Select value={values.priority.toString()} onValueChange={value => onChange('priority', parseInt(value))}>
+            <SelectTrigger id="map-priority">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[1, 2, 3, 4, 5].map(num => (
+                <SelectItem key={num} value={num.toString()}>Priority {num}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </MappingRow>
+        <MappingRow label="Currency" source="Default EUR" htmlFor="map-currency">
+          <Select value={values.currency_type} onValueChange={value => onChange('currency_type', value)}>
+            <SelectTrigger id="map-currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEAL_CURRENCIES.map(currency => (
+                <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </MappingRow>
+      </div>
+      <MappingRow label="Internal comment" source="From description" htmlFor="map-comment">
+        <Textarea id="map-comment" rows={3} value={values.internal_comment} onChange={e => onChange('internal_comment', e.target.value)} />
+      </MappingRow>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RelatedRecordCounts } from "@/hooks/useLeadConversion";
+
+export type RelatedRecordSelection = Record<keyof RelatedRecordCounts, boolean>;
+
+interface RelatedRecordsStepProps {
+  counts: RelatedRecordCounts;
+  selection: RelatedRecordSelection;
+  onChange: (key: keyof RelatedRecordCounts, checked: boolean) => void;
+}
+
+const RECORD_TYPES: { key: keyof RelatedRecordCounts; label: string; description: string }[] = [
+  { key: 'actionItems', label: 'Open action items', description: 'Recreated as deal action items and removed from the lead' },
+  { key: 'tasks', label: 'Open tasks', description: 'Linked to the deal; completed tasks stay on the lead' },
+  { key: 'meetings', label: 'Meetings', description: 'Linked to the deal, and to the contact and account where not already set' },
+  { key: 'emails', label: 'Email history', description: 'Linked to the deal, so it also shows on the contact and account' },
+];
+
+export const RelatedRecordsStep = ({ counts, selection, onChange }: RelatedRecordsStepProps) => (
+  <div className="space-y-3">
+    <p className="text-sm text-muted-foreground">
+      Choose what moves to the new deal. The lead keeps its own history, and undoing the conversion puts everything back.
+    </p>
+    {RECORD_TYPES.map(({ key, label, description }) => (
+      <Label
+        key={key}
+        htmlFor={`move-${key}`}
+        className={`flex items-start gap-3 rounded-md border p-3 font-normal ${counts[key] === 0 ? 'opacity-50' : 'cursor-pointer'}`}
+      >
+        <Checkbox
+          id={`move-${key}`}
+          checked={selection[key] && counts[key] > 0}
+          disabled={counts[key] === 0}
+          onCheckedChange={checked => onChange(key, checked === true)}
+          className="mt-0.5"
+        />
+        <div className="flex-1 space-y-0.5">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{label}</span>
+            <span className="text-sm tabular-nums text-muted-foreground">{counts[key]}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </div>
+      </Label>
+    ))}
+  </div>
+);
@@ -0,0 +1,83 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useEffect, useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { useLeadConversion } from "@/hooks/useLeadConversion";
+
+interface UndoLeadConversionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lead: { id: string; lead_name: string } | null;
+  onSuccess: () => void;
+}
+
+export const UndoLeadConversionDialog = ({ open, onOpenChange, lead, onSuccess }: UndoLeadConversionDialogProps) => {
+  const { revertConversion, reverting } = useLeadConversion();
+  // Set once the server refused because the deal was worked on after conversion
+  const [dealChanged, setDealChanged] = useState(false);
+
+  useEffect(() => {
+    if (open) setDealChanged(false);
+  }, [open]);
+
+  const handleConfirm = async () => {
+    if (!lead) return;
+    try {
+      const result = await revertConversion({ leadId: lead.id, force: dealChanged });
+      if (result.dealChanged) {
+        setDealChanged(true);
+        return;
+      }
+      onSuccess();
+      onOpenChange(false);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Undo Conversion</AlertDialogTitle>
+          <AlertDialogDescription>
+            The deal created from "{lead?.lead_name}" will be deleted and the lead gets its previous status back.
+            Moved action items, tasks, meetings and emails return to the lead. An account or contact created by the
+            conversion is removed only if nothing else uses it yet.
+          </AlertDialogDescription>
+          {dealChanged && (
+            <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                The deal has moved to another stage or its value changed since the conversion. Undoing now deletes
+                the deal together with those changes.
+              </span>
+            </div>
+          )}
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={reverting}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={e => {
+              e.preventDefault();
+              handleConfirm();
+            }}
+            disabled={reverting}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {reverting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {dealChanged ? 'Undo Anyway' : 'Undo Conversion'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -29,6 +29,8 @@ import {
   Line,
   Legend
 } from "recharts";
+import { TeamScopeSelector } from "@/components/shared/TeamScopeSelector";
+import { useTeamScope } from "@/hooks/useTeamScope";
 import { format, startOfWeek, endOfWeek, subWeeks, differenceInMinutes, parseISO } from "date-fns";
 
 interface Meeting {
@@ -48,21 +50,29 @@ export const MeetingAnalyticsDashboard = ({ onClose }: MeetingAnalyticsDashboard
   const [meetings, setMeetings] = useState<Meeting[]>([]);
   const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState("4"); // weeks
+  const { userIds } = useTeamScope();
+  const scopeKey = userIds?.join(',');
 
   useEffect(() => {
     fetchMeetings();
-  }, [timeRange]);
+  }, [timeRange, scopeKey]);
 
   const fetchMeetings = async () => {
     setLoading(true);
     try {
       const weeksAgo = subWeeks(new Date(), parseInt(timeRange));
       
-      const { data, error } = await supabase
+      let query = supabase
         .from('meetings')
         .select('id, subject, start_time, end_time, status, outcome')
-        .gte('start_time', weeksAgo.toISOString())
-        .order('start_time', { ascending: true });
+        .gte('start_time', weeksAgo.toISOString());
+
+      // Managers only count meetings organised within their chosen team scope
+      if (userIds) {
+        query = query.in('created_by', userIds);
+      }
+
+      const { data, error } = await query.order('start_time', { ascending: true });
 
       if (error) throw error;
       setMeetings(data || []);
@@ -197,17 +207,20 @@ export const MeetingAnalyticsDashboard = ({ onClose }: MeetingAnalyticsDashboard
           <BarChart3 className="h-5 w-5" />
           Meeting Analytics
         </h2>
-        <Select value={timeRange} onValueChange={setTimeRange}>
-          <SelectTrigger className="w-40">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="2">Last 2 weeks</SelectItem>
-            <SelectItem value="4">Last 4 weeks</SelectItem>
-            <SelectItem value="8">Last 8 weeks</SelectItem>
-            <SelectItem value="12">Last 12 weeks</SelectItem>
-          </SelectContent>
-        </Select>
+        <div className="flex items-center gap-2">
+          <TeamScopeSelector />
+          <Select value={timeRange} onValueChange={setTimeRange}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="2">Last 2 weeks</SelectItem>
+              <SelectItem value="4">Last 4 weeks</SelectItem>
+              <SelectItem value="8">Last 8 weeks</SelectItem>
+              <SelectItem value="12">Last 12 weeks</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       {/* Stats Cards */}
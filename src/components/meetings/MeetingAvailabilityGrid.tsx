@@ -0,0 +1,217 @@
+import { useCallback, useMemo } from "react";
+import { fromZonedTime } from "date-fns-tz";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { Loader2, CalendarClock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { BusyStatus, CalendarSchedule } from "@/hooks/useCalendarAvailability";
+import { findCommonFreeSlots } from "@/utils/calendarAvailability";
+
+interface MeetingAvailabilityGridProps {
+  schedules: CalendarSchedule[];
+  loading: boolean;
+  error: boolean;
+  date: Date; // Selected day, as a wall-clock date in the timezone
+  timezone: string;
+  durationMinutes: number;
+  proposedStartTime: string; // ISO string
+  proposedEndTime: string; // ISO string
+  onSelectTime: (time: string) => void; // "HH:mm" in the timezone
+}
+
+const CELL_MINUTES = 30;
+const SUGGESTION_STEP_MINUTES = 15;
+const MAX_SUGGESTIONS = 3;
+const WORKDAY_START_HOUR = 8;
+const WORKDAY_END_HOUR = 20;
+
+const STATUS_STYLES: Record<BusyStatus, string> = {
+  free: "bg-muted",
+  tentative: "bg-yellow-400/70",
+  busy: "bg-blue-500/80",
+  oof: "bg-purple-500/80",
+  workingElsewhere: "bg-muted-foreground/30",
+  unknown: "bg-muted-foreground/20",
+};
+
+const STATUS_LABELS: Record<BusyStatus, string> = {
+  free: "Free",
+  tentative: "Tentative",
+  busy: "Busy",
+  oof: "Out of office",
+  workingElsewhere: "Working elsewhere",
+  unknown: "Unknown",
+};
+
+// Most to least restrictive, for cells covered by several items
+const STATUS_PRIORITY: BusyStatus[] = ["oof", "busy", "tentative", "workingElsewhere", "unknown", "free"];
+
+const toTimeLabel = (minutes: number) =>
+  `${Math.floor(minutes / 60).toString().padStart(2, "0")}:${(minutes % 60).toString().padStart(2, "0")}`;
+
+const formatDisplayTime = (minutes: number) => {
+  const hour = Math.floor(minutes / 60) % 24;
+  const ampm = hour >= 12 ? "PM" : "AM";
+  return `${hour % 12 || 12}:${(minutes % 60).toString().padStart(2, "0")} ${ampm}`;
+};
+
+/**
+ * Outlook free/busy of the organizer and internal attendees for the selected
+ * day, with the first slots everyone has free for the chosen duration.
+ */
+export const MeetingAvailabilityGrid = ({
+  schedules,
+  loading,
+  error,
+  date,
+  timezone,
+  durationMinutes,
+  proposedStartTime,
+  proposedEndTime,
+  onSelectTime,
+}: MeetingAvailabilityGridProps) => {
+  // UTC instant of a wall-clock time on the selected day
+  const instantAt = useCallback((minutes: number) => {
+    const dt = new Date(date);
+    dt.setHours(0, minutes, 0, 0);
+    return fromZonedTime(dt, timezone).getTime();
+  }, [date, timezone]);
+
+  const proposedStart = proposedStartTime ? new Date(proposedStartTime).getTime() : NaN;
+  const proposedEnd = proposedEndTime ? new Date(proposedEndTime).getTime() : NaN;
+
+  // Working hours, widened to include the proposed meeting
+  const { firstMinute, lastMinute } = useMemo(() => {
+    let first = WORKDAY_START_HOUR * 60;
+    let last = WORKDAY_END_HOUR * 60;
+    if (!Number.isNaN(proposedStart) && !Number.isNaN(proposedEnd)) {
+      const startOffset = Math.floor((proposedStart - instantAt(0)) / 60000);
+      const endOffset = Math.ceil((proposedEnd - instantAt(0)) / 60000);
+      first = Math.max(0, Math.min(first, Math.floor(startOffset / 60) * 60));
+      last = Math.min(24 * 60, Math.max(last, Math.ceil(endOffset / 60) * 60));
+    }
+    return { firstMinute: first, lastMinute: last };
+  }, [instantAt, proposedStart, proposedEnd]);
+
+  const cells = useMemo(() => {
+    const result: number[] = [];
+    for (let minute = firstMinute; minute < lastMinute; minute += CELL_MINUTES) result.push(minute);
+    return result;
+  }, [firstMinute, lastMinute]);
+
+  const statusAt = (schedule: CalendarSchedule, start: number, end: number): BusyStatus => {
+    const overlapping = schedule.items.filter(
+      item => new Date(item.start).getTime() < end && new Date(item.end).getTime() > start
+    );
+    return STATUS_PRIORITY.find(status => overlapping.some(item => item.status === status)) || "free";
+  };
+
+  // First start times on the 15-minute grid where nobody is busy, skipping the past
+  const suggestions = useMemo(() => findCommonFreeSlots(schedules, {
+    instantAt,
+    durationMinutes,
+    firstMinute: WORKDAY_START_HOUR * 60,
+    lastMinute: WORKDAY_END_HOUR * 60,
+    stepMinutes: SUGGESTION_STEP_MINUTES,
+    limit: MAX_SUGGESTIONS,
+    now: Date.now(),
+  }), [schedules, durationMinutes, instantAt]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Checking Outlook calendars...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-xs text-muted-foreground">Outlook availability is unavailable right now.</p>;
+  }
+
+  if (schedules.length === 0) return null;
+
+  return (
+    <TooltipProvider>
+      <div className="space-y-2">
+        <div className="overflow-x-auto">
+          <div className="min-w-[420px] space-y-1">
+            {/* Hour labels */}
+            <div className="flex items-end">
+              <div className="w-28 shrink-0" />
+              <div className="flex flex-1">
+                {cells.map(minute => (
+                  <div key={minute} className="flex-1 whitespace-nowrap text-[10px] text-muted-foreground leading-none">
+                    {minute % 120 === 0 ? formatDisplayTime(minute).replace(":00", "") : ""}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {schedules.map(schedule => (
+              <div key={schedule.email} className="flex items-center">
+                <div className="w-28 shrink-0 truncate pr-2 text-xs" title={schedule.email}>
+                  {schedule.email.split("@")[0]}
+                </div>
+                {schedule.error ? (
+                  <div className="flex-1 text-[10px] text-muted-foreground truncate">{schedule.error}</div>
+                ) : (
+                  <div className="flex flex-1 gap-px">
+                    {cells.map(minute => {
+                      const start = instantAt(minute);
+                      const end = instantAt(minute + CELL_MINUTES);
+                      const status = statusAt(schedule, start, end);
+                      const inProposed = start < proposedEnd && end > proposedStart;
+                      return (
+                        <Tooltip key={minute}>
+                          <TooltipTrigger asChild>
+                            <div
+                              className={cn(
+                                "h-4 flex-1 rounded-[2px]",
+                                STATUS_STYLES[status],
+                                inProposed && "ring-1 ring-primary ring-offset-1 ring-offset-background"
+                              )}
+                            />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p className="text-xs">
+                              {formatDisplayTime(minute)} · {STATUS_LABELS[status]}
+                            </p>
+                          </TooltipContent>
+                        </Tooltip>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1.5">
+          <CalendarClock className="h-3 w-3 text-muted-foreground" />
+          {suggestions.length > 0 ? (
+            <>
+              <span className="text-xs text-muted-foreground">Everyone is free at</span>
+              {suggestions.map(minute => (
+                <Button
+                  key={minute}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => onSelectTime(toTimeLabel(minute))}
+                >
+                  {formatDisplayTime(minute)}
+                </Button>
+              ))}
+            </>
+          ) : (
+            <span className="text-xs text-muted-foreground">No common free time left in working hours on this day</span>
+          )}
+        </div>
+      </div>
+    </TooltipProvider>
+  );
+};
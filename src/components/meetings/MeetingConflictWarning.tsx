@@ -3,6 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { AlertTriangle, Clock } from "lucide-react";
 import { format } from "date-fns";
+import { BLOCKING_STATUSES, CalendarSchedule } from "@/hooks/useCalendarAvailability";
 
 interface ConflictingMeeting {
   id: string;
@@ -15,16 +16,29 @@ interface MeetingConflictWarningProps {
   startTime: string; // ISO string
   endTime: string; // ISO string
   excludeMeetingId?: string; // Exclude current meeting when editing
+  calendarSchedules?: CalendarSchedule[]; // Outlook free/busy of the organizer and internal attendees
 }
 
 export const MeetingConflictWarning = ({ 
   startTime, 
   endTime, 
-  excludeMeetingId 
+  excludeMeetingId,
+  calendarSchedules = []
 }: MeetingConflictWarningProps) => {
   const [conflicts, setConflicts] = useState<ConflictingMeeting[]>([]);
   const [loading, setLoading] = useState(false);
 
+  // People whose Outlook calendar is blocked during the proposed time
+  const proposedStart = new Date(startTime).getTime();
+  const proposedEnd = new Date(endTime).getTime();
+  const busyPeople = calendarSchedules.filter(schedule =>
+    schedule.items.some(item =>
+      BLOCKING_STATUSES.includes(item.status) &&
+      new Date(item.start).getTime() < proposedEnd &&
+      new Date(item.end).getTime() > proposedStart
+    )
+  );
+
   useEffect(() => {
     if (startTime && endTime) {
       checkConflicts();
@@ -62,7 +76,7 @@ export const MeetingConflictWarning = ({
     }
   };
 
-  if (loading || conflicts.length === 0) {
+  if (loading || (conflicts.length === 0 && busyPeople.length === 0)) {
     return null;
   }
 
@@ -73,6 +87,12 @@ export const MeetingConflictWarning = ({
         Schedule Conflict Detected
       </AlertTitle>
       <AlertDescription className="text-yellow-700 dark:text-yellow-300">
+        {busyPeople.length > 0 && (
+          <p className="mb-2">
+            Busy in Outlook: {busyPeople.map(schedule => schedule.email.split('@')[0]).join(', ')}
+          </p>
+        )}
+        {conflicts.length > 0 && <>
         <p className="mb-2">
           This meeting overlaps with {conflicts.length} existing meeting{conflicts.length > 1 ? 's' : ''}:
         </p>
@@ -92,6 +112,7 @@ export const MeetingConflictWarning = ({
             </li>
           )}
         </ul>
+        </>}
       </AlertDescription>
     </Alert>
   );
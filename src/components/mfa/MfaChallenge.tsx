@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useMfa } from '@/hooks/useMfa';
+import { Loader2 } from 'lucide-react';
+
+// Second sign-in step: a code from the authenticator, or a recovery code when it is lost
+const MfaChallenge = () => {
+  const { verify, redeemRecoveryCode, saving } = useMfa();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
+
+  const handleVerify = async (value = code) => {
+    if (value.length !== 6) return;
+    try {
+      await verify(value);
+    } catch {
+      setCode('');
+    }
+  };
+
+  const handleRedeem = async () => {
+    if (!recoveryCode.trim()) return;
+    try {
+      await redeemRecoveryCode(recoveryCode.trim());
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  if (useRecoveryCode) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Enter one of the recovery codes you saved when setting up two-factor authentication. Your authenticator will be
+          removed, so set it up again afterwards.
+        </p>
+        <Input
+          value={recoveryCode}
+          onChange={(e) => setRecoveryCode(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleRedeem()}
+          placeholder="xxxxx-xxxxx"
+          className="font-mono"
+          autoFocus
+        />
+        <Button className="w-full" onClick={handleRedeem} disabled={saving || !recoveryCode.trim()}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Use recovery code
+        </Button>
+        <Button variant="link" className="w-full" onClick={() => setUseRecoveryCode(false)}>
+          Use authenticator app instead
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">Enter the six-digit code from your authenticator app.</p>
+      <div className="flex justify-center">
+        <InputOTP
+          maxLength={6}
+          value={code}
+          onChange={setCode}
+          onComplete={(value: string) => handleVerify(value)}
+          disabled={saving}
+          autoFocus
+        >
+          <InputOTPGroup>
+            {Array.from({ length: 6 }, (_, i) => (
+              <InputOTPSlot key={i} index={i} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <Button className="w-full" onClick={() => handleVerify()} disabled={saving || code.length !== 6}>
+        {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Verify
+      </Button>
+      <Button variant="link" className="w-full" onClick={() => setUseRecoveryCode(true)}>
+        Lost your authenticator? Use a recovery code
+      </Button>
+    </div>
+  );
+};
+
+export default MfaChallenge;
@@ -0,0 +1,55 @@
+import { Button } from '@/components/ui/button';
+import { Copy, Download } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+// Recovery codes are only readable right after they are generated
+const RecoveryCodesList = ({ codes }: RecoveryCodesListProps) => {
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Failed to copy recovery codes');
+    }
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob([codes.join('\n') + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'crm-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Store these codes somewhere safe. Each one signs you in once if you lose your authenticator, and they will not be
+        shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted/40 p-4 font-mono text-sm">
+        {codes.map(code => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={copyCodes}>
+          <Copy className="h-3.5 w-3.5 mr-1" />
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" onClick={downloadCodes}>
+          <Download className="h-3.5 w-3.5 mr-1" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodesList;
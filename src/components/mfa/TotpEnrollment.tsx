@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { MfaEnrollment, useMfa } from '@/hooks/useMfa';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import RecoveryCodesList from './RecoveryCodesList';
+
+interface TotpEnrollmentProps {
+  onDone: () => void;
+}
+
+// Scan the QR code, confirm with a first code, then save the recovery codes
+const TotpEnrollment = ({ onDone }: TotpEnrollmentProps) => {
+  const { startEnrollment, confirmEnrollment, refresh, saving } = useMfa();
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const handleStart = async () => {
+    try {
+      setEnrollment(await startEnrollment());
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  const handleConfirm = async (value = code) => {
+    if (!enrollment || value.length !== 6) return;
+    try {
+      setRecoveryCodes(await confirmEnrollment({ factorId: enrollment.factorId, code: value }));
+    } catch {
+      setCode('');
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button
+          className="w-full"
+          onClick={() => {
+            refresh();
+            onDone();
+          }}
+        >
+          I have saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Use an authenticator app such as Microsoft Authenticator, Google Authenticator or 1Password to generate a
+          six-digit code each time you sign in.
+        </p>
+        <Button className="w-full" onClick={handleStart} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+          Set up authenticator
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">Scan this QR code with your authenticator app.</p>
+      <div className="flex justify-center">
+        <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-44 w-44 rounded-lg border bg-white p-2" />
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        Can't scan it? Enter this key instead:
+        <span className="block mt-1 font-mono text-foreground break-all">{enrollment.secret}</span>
+      </p>
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Enter the six-digit code from the app</p>
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={code} onChange={setCode} onComplete={(value: string) => handleConfirm(value)} disabled={saving}>
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, i) => (
+                <InputOTPSlot key={i} index={i} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      </div>
+      <Button className="w-full" onClick={() => handleConfirm()} disabled={saving || code.length !== 6}>
+        {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Verify and enable
+      </Button>
+    </div>
+  );
+};
+
+export default TotpEnrollment;
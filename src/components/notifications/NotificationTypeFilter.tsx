@@ -16,6 +16,14 @@ const types = [
   { value: "task_deleted", label: "Task Deleted" },
   { value: "lead_update", label: "Lead Update" },
   { value: "deal_update", label: "Deal Update" },
+  { value: "approval_request", label: "Approval Request" },
+  { value: "approval_approved", label: "Approval Approved" },
+  { value: "approval_rejected", label: "Approval Rejected" },
+  { value: "meeting_reminder", label: "Meeting Reminder" },
+  { value: "backup_failed", label: "Backup Failed" },
+  { value: "email_reply", label: "Email Reply" },
+  { value: "email_bounced", label: "Email Bounced" },
+  { value: "campaign_completed", label: "Campaign Completed" },
 ];
 
 export const NotificationTypeFilter = ({ value, onValueChange }: NotificationTypeFilterProps) => {
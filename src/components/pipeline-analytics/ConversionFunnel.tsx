@@ -0,0 +1,43 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowDown } from "lucide-react";
+import { FunnelStep } from "@/utils/pipelineAnalytics";
+
+interface ConversionFunnelProps {
+  steps: FunnelStep[];
+}
+
+export const ConversionFunnel = ({ steps }: ConversionFunnelProps) => {
+  const top = Math.max(...steps.map(s => s.reached), 1);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Stage Conversion</CardTitle>
+        <CardDescription>Deals that reached each stage, and how many moved on to the next</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {steps.map(step => (
+          <div key={step.stage}>
+            <div className="flex items-center gap-3">
+              <span className="w-28 text-sm truncate" title={step.stage}>{step.stage}</span>
+              <div className="flex-1 h-7 bg-muted rounded">
+                <div
+                  className="h-7 rounded flex items-center px-2 text-xs font-medium text-white"
+                  style={{ width: `${Math.max((step.reached / top) * 100, 4)}%`, backgroundColor: step.color }}
+                >
+                  {step.reached}
+                </div>
+              </div>
+            </div>
+            {step.conversionToNext !== null && (
+              <div className="flex items-center gap-1 pl-32 py-0.5 text-xs text-muted-foreground">
+                <ArrowDown className="h-3 w-3" />
+                {step.conversionToNext.toFixed(0)}% converted
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
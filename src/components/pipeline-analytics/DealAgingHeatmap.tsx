@@ -0,0 +1,51 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AGING_BUCKETS, AgingRow } from "@/utils/pipelineAnalytics";
+
+interface DealAgingHeatmapProps {
+  rows: AgingRow[];
+}
+
+export const DealAgingHeatmap = ({ rows }: DealAgingHeatmapProps) => {
+  const max = Math.max(1, ...rows.flatMap(r => r.counts));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Deal Aging</CardTitle>
+        <CardDescription>Open deals by how long they have been in their current stage</CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-sm border-separate border-spacing-1">
+          <thead>
+            <tr>
+              <th className="text-left font-medium text-muted-foreground">Stage</th>
+              {AGING_BUCKETS.map(bucket => (
+                <th key={bucket.label} className="font-medium text-muted-foreground text-xs">{bucket.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.stage}>
+                <td className="pr-2 whitespace-nowrap">{row.stage}</td>
+                {row.counts.map((count, index) => (
+                  <td
+                    key={AGING_BUCKETS[index].label}
+                    className="h-9 min-w-[48px] rounded text-center tabular-nums"
+                    style={{
+                      backgroundColor: count ? `hsl(var(--primary) / ${0.12 + (count / max) * 0.78})` : 'hsl(var(--muted))',
+                      color: count / max > 0.5 ? 'hsl(var(--primary-foreground))' : undefined,
+                    }}
+                    title={`${count} deal${count === 1 ? '' : 's'} in ${row.stage} for ${AGING_BUCKETS[index].label}`}
+                  >
+                    {count || ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,49 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { StageVelocity } from "@/utils/pipelineAnalytics";
+
+interface StageVelocityTableProps {
+  rows: StageVelocity[];
+}
+
+const formatDays = (days: number | null) => (days === null ? '—' : `${days.toFixed(1)}d`);
+
+export const StageVelocityTable = ({ rows }: StageVelocityTableProps) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="text-base">Stage Velocity</CardTitle>
+      <CardDescription>Time deals spend in each open stage before moving on</CardDescription>
+    </CardHeader>
+    <CardContent>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Stage</TableHead>
+            <TableHead className="text-right">Avg days</TableHead>
+            <TableHead className="text-right">Median</TableHead>
+            <TableHead className="text-right">Moves</TableHead>
+            <TableHead className="text-right">In stage now</TableHead>
+            <TableHead className="text-right">Avg age now</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.stage}>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: row.color }} />
+                  {row.stage}
+                </div>
+              </TableCell>
+              <TableCell className="text-right tabular-nums font-medium">{formatDays(row.avgDays)}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatDays(row.medianDays)}</TableCell>
+              <TableCell className="text-right tabular-nums text-muted-foreground">{row.completedStays}</TableCell>
+              <TableCell className="text-right tabular-nums">{row.currentDeals}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatDays(row.avgCurrentAge)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </CardContent>
+  </Card>
+);
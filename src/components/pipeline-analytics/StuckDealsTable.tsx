@@ -0,0 +1,68 @@
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { StuckDeal } from "@/utils/pipelineAnalytics";
+import { formatCurrency } from "@/utils/formatUtils";
+
+interface StuckDealsTableProps {
+  deals: StuckDeal[];
+  ownerNames: Record<string, string>;
+}
+
+export const StuckDealsTable = ({ deals, ownerNames }: StuckDealsTableProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          Stuck Deals
+          {deals.length > 0 && <Badge variant="destructive">{deals.length}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Open deals in their stage longer than the stage's threshold. Thresholds are set per stage in Settings under Pipeline &amp; Status Management.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {deals.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No deals are past their stage threshold.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Deal</TableHead>
+                <TableHead>Owner</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead className="text-right">Days in stage</TableHead>
+                <TableHead className="text-right">Threshold</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deals.map(({ deal, stage, daysInStage, threshold }) => {
+                const ownerId = deal.lead_owner || deal.created_by;
+                return (
+                  <TableRow
+                    key={deal.id}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/deals?viewId=${deal.id}`)}
+                  >
+                    <TableCell className="font-medium">{deal.deal_name}</TableCell>
+                    <TableCell>{ownerId ? ownerNames[ownerId] || 'Unknown User' : '—'}</TableCell>
+                    <TableCell>{stage}</TableCell>
+                    <TableCell className="text-right tabular-nums text-red-600 font-medium">{Math.floor(daysInStage)}</TableCell>
+                    <TableCell className="text-right tabular-nums text-muted-foreground">{threshold}</TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {deal.total_contract_value ? formatCurrency(deal.total_contract_value, deal.currency_type || 'EUR') : '—'}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
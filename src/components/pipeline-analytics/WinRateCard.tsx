@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { WinRateDimension, WinRateRow } from "@/utils/pipelineAnalytics";
+
+interface WinRateCardProps {
+  rowsByDimension: Record<WinRateDimension, WinRateRow[]>;
+}
+
+const DIMENSION_LABELS: Record<WinRateDimension, string> = {
+  owner: 'Owner',
+  region: 'Region',
+  source: 'Source',
+};
+
+export const WinRateCard = ({ rowsByDimension }: WinRateCardProps) => {
+  const [dimension, setDimension] = useState<WinRateDimension>('owner');
+  const rows = rowsByDimension[dimension];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">Win Rate</CardTitle>
+          <CardDescription>Won out of won and lost deals. Source comes from the deal's contact.</CardDescription>
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={dimension}
+          onValueChange={value => value && setDimension(value as WinRateDimension)}
+        >
+          {(Object.keys(DIMENSION_LABELS) as WinRateDimension[]).map(key => (
+            <ToggleGroupItem key={key} value={key} className="text-xs">{DIMENSION_LABELS[key]}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No won or lost deals match the filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{DIMENSION_LABELS[dimension]}</TableHead>
+                <TableHead className="text-right">Won</TableHead>
+                <TableHead className="text-right">Lost</TableHead>
+                <TableHead className="w-40">Win rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.key}</TableCell>
+                  <TableCell className="text-right tabular-nums text-green-600">{row.won}</TableCell>
+                  <TableCell className="text-right tabular-nums text-red-600">{row.lost}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Progress value={row.winRate} className="h-2 flex-1" />
+                      <span className="text-xs tabular-nums w-10 text-right">{row.winRate.toFixed(0)}%</span>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
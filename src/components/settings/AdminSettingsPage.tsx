@@ -1,5 +1,5 @@
 import { useState, lazy, Suspense, useEffect } from 'react';
-import { Users, Lock, GitBranch, Plug, Database, Shield, Activity, FileText, Megaphone, CheckSquare, Palette } from 'lucide-react';
+import { Users, Lock, GitBranch, Plug, Database, Shield, Activity, FileText, Megaphone, CheckSquare, Palette, ListPlus, Flame, Coins, Route, Network, Timer } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
 import { useUserRole } from '@/hooks/useUserRole';
@@ -19,6 +19,12 @@ const ScheduledReportsSettings = lazy(() => import('@/components/settings/Schedu
 const AnnouncementSettings = lazy(() => import('@/components/settings/AnnouncementSettings'));
 const ApprovalWorkflowSettings = lazy(() => import('@/components/settings/ApprovalWorkflowSettings'));
 const BrandingSettings = lazy(() => import('@/components/settings/BrandingSettings'));
+const CustomFieldsSettings = lazy(() => import('@/components/settings/CustomFieldsSettings'));
+const ScoringRulesSettings = lazy(() => import('@/components/settings/ScoringRulesSettings'));
+const CurrencySettings = lazy(() => import('@/components/settings/CurrencySettings'));
+const AssignmentRulesSettings = lazy(() => import('@/components/settings/AssignmentRulesSettings'));
+const TeamsSettings = lazy(() => import('@/components/settings/TeamsSettings'));
+const SessionPolicySettings = lazy(() => import('@/components/settings/SessionPolicySettings'));
 
 const adminTabs = [
   { id: 'users', label: 'Users', icon: Users },
@@ -39,11 +45,17 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
     if (!section) return 'users';
     const sectionToTab: Record<string, string> = {
       'users': 'users',
+      'teams': 'users',
       'page-access': 'access',
+      'session-policies': 'access',
       'pipeline': 'config',
       'integrations': 'config',
       'branding': 'config',
       'approval-workflows': 'config',
+      'custom-fields': 'config',
+      'scoring': 'config',
+      'assignment-rules': 'config',
+      'currency': 'config',
       'backup': 'system',
       'audit-logs': 'system',
       'system-status': 'system',
@@ -109,6 +121,12 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
               <UserManagement />
             </Suspense>
           </SettingsCard>
+
+          <SettingsCard icon={Network} title="Teams" description="Group users into teams under a manager and build the reporting hierarchy">
+            <Suspense fallback={<SettingsLoadingSkeleton />}>
+              <TeamsSettings />
+            </Suspense>
+          </SettingsCard>
         </TabsContent>
 
         <TabsContent value="access" className="mt-6 space-y-6">
@@ -117,6 +135,12 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
               <PageAccessSettings />
             </Suspense>
           </SettingsCard>
+
+          <SettingsCard icon={Timer} title="Session Policies" description="Idle timeout and concurrent session limits for each role">
+            <Suspense fallback={<SettingsLoadingSkeleton />}>
+              <SessionPolicySettings />
+            </Suspense>
+          </SettingsCard>
         </TabsContent>
 
         <TabsContent value="config" className="mt-6 space-y-6">
@@ -126,6 +150,30 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
             </Suspense>
           </SettingsCard>
 
+          <SettingsCard icon={ListPlus} title="Custom Fields" description="Define extra fields for leads, contacts, accounts and deals">
+            <Suspense fallback={<SettingsLoadingSkeleton />}>
+              <CustomFieldsSettings />
+            </Suspense>
+          </SettingsCard>
+
+          <SettingsCard icon={Flame} title="Lead & Account Scoring" description="Define the rules that score leads, contacts and accounts">
+            <Suspense fallback={<SettingsLoadingSkeleton />}>
+              <ScoringRulesSettings />
+            </Suspense>
+          </SettingsCard>
+
+          <SettingsCard icon={Route} title="Assignment Rules" description="Route new leads and deals to owners by territory and source">
+            <Suspense fallback={<SettingsLoadingSkeleton />}>
+              <AssignmentRulesSettings />
+            </Suspense>
+          </SettingsCard>
+
+          <SettingsCard icon={Coins} title="Currencies & Exchange Rates" description="Set the reporting currency and the rates used to convert deal amounts">
+            <Suspense fallback={<SettingsLoadingSkeleton />}>
+              <CurrencySettings />
+            </Suspense>
+          </SettingsCard>
+
           <SettingsCard icon={Plug} title="Third-Party Integrations" description="Connect with Microsoft Teams, Email, and Calendar">
             <Suspense fallback={<SettingsLoadingSkeleton />}>
               <IntegrationSettings />
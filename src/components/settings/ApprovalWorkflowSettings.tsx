@@ -4,12 +4,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import type { Json } from '@/integrations/supabase/types';
 import { 
   GitBranch, 
   Plus, 
@@ -19,22 +21,21 @@ import {
   UserCheck,
   ArrowRight
 } from 'lucide-react';
-import { format } from 'date-fns';
-
-interface ApprovalWorkflow {
-  id: string;
-  name: string;
-  entity_type: string;
-  trigger_conditions: any;
-  approval_steps: {
-    step: number;
-    role: string;
-    user_id?: string;
-  }[];
-  is_enabled: boolean;
+import {
+  APPROVAL_TRIGGER_EVENTS,
+  ApprovalStep,
+  ApprovalTriggerConditions,
+  ApprovalTriggerEvent,
+  ApprovalWorkflowDefinition,
+  DEFAULT_TRIGGER_EVENTS,
+} from '@/utils/approvalUtils';
+
+interface ApprovalWorkflow extends ApprovalWorkflowDefinition {
   created_at: string;
 }
 
+const ANY_APPROVER = '__any__';
+
 const entityTypes = [
   { value: 'deals', label: 'Deals' },
   { value: 'leads', label: 'Leads' },
@@ -46,6 +47,7 @@ const conditionFields = {
     { value: 'total_revenue', label: 'Total Revenue' },
     { value: 'total_contract_value', label: 'Contract Value' },
     { value: 'probability', label: 'Probability (%)' },
+    { value: 'stage', label: 'Stage' },
   ],
   leads: [
     { value: 'lead_status', label: 'Lead Status' },
@@ -71,13 +73,15 @@ const ApprovalWorkflowSettings = () => {
   const [saving, setSaving] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [editingWorkflow, setEditingWorkflow] = useState<ApprovalWorkflow | null>(null);
+  const [users, setUsers] = useState<{ id: string; full_name: string | null }[]>([]);
   const [formData, setFormData] = useState({
     name: '',
     entity_type: 'deals',
     condition_field: 'total_revenue',
     condition_operator: '>=',
     condition_value: '100000',
-    approval_steps: [{ step: 1, role: 'manager' }],
+    events: DEFAULT_TRIGGER_EVENTS as ApprovalTriggerEvent[],
+    approval_steps: [{ step: 1, role: 'manager' }] as ApprovalStep[],
     is_enabled: true,
   });
 
@@ -93,8 +97,9 @@ const ApprovalWorkflowSettings = () => {
       // Map the data to match our interface, casting JSON fields
       const mappedWorkflows: ApprovalWorkflow[] = (data || []).map(item => ({
         ...item,
-        trigger_conditions: item.trigger_conditions as any,
-        approval_steps: (item.approval_steps as any) || [],
+        trigger_conditions: item.trigger_conditions as unknown as ApprovalTriggerConditions,
+        approval_steps: (item.approval_steps as unknown as ApprovalStep[]) || [],
+        is_enabled: item.is_enabled ?? false,
       }));
       
       setWorkflows(mappedWorkflows);
@@ -106,8 +111,22 @@ const ApprovalWorkflowSettings = () => {
     }
   };
 
+  const fetchUsers = async () => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .order('full_name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching approvers:', error);
+      return;
+    }
+    setUsers(data || []);
+  };
+
   useEffect(() => {
     fetchWorkflows();
+    fetchUsers();
   }, []);
 
   const handleOpenModal = (workflow?: ApprovalWorkflow) => {
@@ -120,6 +139,7 @@ const ApprovalWorkflowSettings = () => {
         condition_field: condition?.field || 'total_revenue',
         condition_operator: condition?.operator || '>=',
         condition_value: condition?.value?.toString() || '100000',
+        events: condition?.events?.length ? condition.events : DEFAULT_TRIGGER_EVENTS,
         approval_steps: workflow.approval_steps || [{ step: 1, role: 'manager' }],
         is_enabled: workflow.is_enabled,
       });
@@ -131,6 +151,7 @@ const ApprovalWorkflowSettings = () => {
         condition_field: 'total_revenue',
         condition_operator: '>=',
         condition_value: '100000',
+        events: DEFAULT_TRIGGER_EVENTS,
         approval_steps: [{ step: 1, role: 'manager' }],
         is_enabled: true,
       });
@@ -162,12 +183,33 @@ const ApprovalWorkflowSettings = () => {
     setFormData({ ...formData, approval_steps: newSteps });
   };
 
+  const handleStepUserChange = (index: number, userId: string) => {
+    const newSteps = [...formData.approval_steps];
+    const { user_id: _previous, ...step } = newSteps[index];
+    newSteps[index] = userId === ANY_APPROVER ? step : { ...step, user_id: userId };
+    setFormData({ ...formData, approval_steps: newSteps });
+  };
+
+  const handleEventToggle = (event: ApprovalTriggerEvent, checked: boolean) => {
+    setFormData({
+      ...formData,
+      events: checked
+        ? [...formData.events, event]
+        : formData.events.filter(e => e !== event),
+    });
+  };
+
   const handleSave = async () => {
     if (!formData.name) {
       toast.error('Workflow name is required');
       return;
     }
 
+    if (formData.events.length === 0) {
+      toast.error('Select at least one event the workflow applies to');
+      return;
+    }
+
     setSaving(true);
     try {
       const payload = {
@@ -179,8 +221,9 @@ const ApprovalWorkflowSettings = () => {
           value: isNaN(Number(formData.condition_value)) 
             ? formData.condition_value 
             : Number(formData.condition_value),
+          events: formData.events,
         },
-        approval_steps: formData.approval_steps,
+        approval_steps: formData.approval_steps as unknown as Json,
         is_enabled: formData.is_enabled,
         created_by: user?.id,
       };
@@ -250,7 +293,15 @@ const ApprovalWorkflowSettings = () => {
     if (!condition) return 'No conditions';
     
     const op = operators.find(o => o.value === condition.operator)?.label || condition.operator;
-    return `${condition.field} ${op} ${condition.value}`;
+    const events = (condition.events?.length ? condition.events : DEFAULT_TRIGGER_EVENTS)
+      .map(e => APPROVAL_TRIGGER_EVENTS.find(t => t.value === e)?.label || e)
+      .join(', ');
+    return `${condition.field} ${op} ${condition.value} (on ${events.toLowerCase()})`;
+  };
+
+  const getStepLabel = (step: ApprovalStep) => {
+    if (!step.user_id) return step.role;
+    return users.find(u => u.id === step.user_id)?.full_name || step.role;
   };
 
   return (
@@ -309,7 +360,7 @@ const ApprovalWorkflowSettings = () => {
                           <div key={i} className="flex items-center gap-1">
                             <Badge variant="secondary" className="capitalize">
                               <UserCheck className="h-3 w-3 mr-1" />
-                              {step.role}
+                              {getStepLabel(step)}
                             </Badge>
                             {i < workflow.approval_steps.length - 1 && (
                               <ArrowRight className="h-3 w-3 text-muted-foreground" />
@@ -419,6 +470,26 @@ const ApprovalWorkflowSettings = () => {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Applies On</Label>
+              <div className="flex flex-wrap gap-4">
+                {APPROVAL_TRIGGER_EVENTS
+                  .filter(event => event.value !== 'stage_change' || formData.entity_type === 'deals')
+                  .map((event) => (
+                    <div key={event.value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`event-${event.value}`}
+                        checked={formData.events.includes(event.value)}
+                        onCheckedChange={(checked) => handleEventToggle(event.value, checked === true)}
+                      />
+                      <Label htmlFor={`event-${event.value}`} className="font-normal">
+                        {event.label}
+                      </Label>
+                    </div>
+                  ))}
+              </div>
+            </div>
+
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label>Approval Steps</Label>
@@ -443,6 +514,22 @@ const ApprovalWorkflowSettings = () => {
                         <SelectItem value="admin">Admin</SelectItem>
                       </SelectContent>
                     </Select>
+                    <Select 
+                      value={step.user_id || ANY_APPROVER} 
+                      onValueChange={(v) => handleStepUserChange(index, v)}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY_APPROVER}>Any {step.role}</SelectItem>
+                        {users.map((u) => (
+                          <SelectItem key={u.id} value={u.id}>
+                            {u.full_name || 'Unknown User'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     {formData.approval_steps.length > 1 && (
                       <Button 
                         variant="ghost" 
@@ -0,0 +1,357 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+import { createNameMap, useProfiles } from '@/hooks/useProfiles';
+import {
+  AssignmentDistribution,
+  AssignmentEntityType,
+  AssignmentRule,
+  AssignmentRuleInput,
+  useAssignmentRules,
+} from '@/hooks/useAssignmentRules';
+import { Loader2, Plus, Trash2, AlertCircle, ArrowUp, ArrowDown } from 'lucide-react';
+
+const ENTITY_TYPES: { value: AssignmentEntityType; label: string }[] = [
+  { value: 'lead', label: 'Leads' },
+  { value: 'deal', label: 'Deals' },
+];
+
+const DISTRIBUTIONS: { value: AssignmentDistribution; label: string; hint: string }[] = [
+  { value: 'round_robin', label: 'Round robin', hint: 'Members take turns in the order listed' },
+  { value: 'load_balanced', label: 'Load balanced', hint: 'The member with the fewest open records gets the next one' },
+];
+
+type ConditionKey = 'regions' | 'countries' | 'industries' | 'sources';
+
+// Where each condition is read from, per record type
+const CONDITIONS: { key: ConditionKey; label: string; source: Record<AssignmentEntityType, string>; placeholder: string }[] = [
+  { key: 'regions', label: 'Region', source: { lead: "account's region", deal: "deal's region" }, placeholder: 'e.g. EU, APAC' },
+  { key: 'countries', label: 'Country', source: { lead: "lead's country", deal: "account's country" }, placeholder: 'e.g. Germany, Austria' },
+  { key: 'industries', label: 'Industry', source: { lead: "lead's industry", deal: "account's industry" }, placeholder: 'e.g. Automotive' },
+  { key: 'sources', label: 'Source', source: { lead: "lead's source", deal: "contact's source" }, placeholder: 'e.g. Website, Referral' },
+];
+
+const splitValues = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+type RuleForm = Omit<AssignmentRuleInput, ConditionKey> & Record<ConditionKey, string>;
+
+const emptyForm = (entityType: AssignmentEntityType, priority: number): RuleForm => ({
+  entity_type: entityType,
+  name: '',
+  priority,
+  regions: '',
+  countries: '',
+  industries: '',
+  sources: '',
+  distribution: 'round_robin',
+  member_ids: [],
+  is_active: true,
+});
+
+const AssignmentRulesSettings = () => {
+  const [entityType, setEntityType] = useState<AssignmentEntityType>('lead');
+  const { rules, loading, saveRule, deleteRule, reorderRules, saving } = useAssignmentRules(entityType);
+  const { data: profiles = [] } = useProfiles();
+  const names = createNameMap(profiles);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<AssignmentRule | null>(null);
+
+  const describeConditions = (rule: AssignmentRule) => {
+    const parts = CONDITIONS
+      .filter(condition => rule[condition.key].length > 0)
+      .map(condition => `${condition.label} is ${rule[condition.key].join(' or ')}`);
+    return parts.length > 0 ? parts.join(', ') : 'Every new record';
+  };
+
+  const openCreate = () => {
+    const nextPriority = rules.length > 0 ? Math.max(...rules.map(r => r.priority)) + 1 : 0;
+    setForm(emptyForm(entityType, nextPriority));
+    setValidationError(null);
+  };
+
+  const openEdit = (rule: AssignmentRule) => {
+    const { last_assigned_to: _lastAssignedTo, ...values } = rule;
+    setForm({
+      ...values,
+      regions: rule.regions.join(', '),
+      countries: rule.countries.join(', '),
+      industries: rule.industries.join(', '),
+      sources: rule.sources.join(', '),
+    });
+    setValidationError(null);
+  };
+
+  const updateForm = (patch: Partial<RuleForm>) => setForm(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const toggleMember = (userId: string, checked: boolean) => {
+    if (!form) return;
+    updateForm({
+      member_ids: checked ? [...form.member_ids, userId] : form.member_ids.filter(id => id !== userId),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      setValidationError('Name is required');
+      return;
+    }
+    if (form.member_ids.length === 0) {
+      setValidationError('Choose at least one team member');
+      return;
+    }
+
+    try {
+      await saveRule({
+        ...form,
+        name: form.name.trim(),
+        regions: splitValues(form.regions),
+        countries: splitValues(form.countries),
+        industries: splitValues(form.industries),
+        sources: splitValues(form.sources),
+      });
+      setForm(null);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  const toggleActive = async (rule: AssignmentRule, isActive: boolean) => {
+    const { last_assigned_to: _lastAssignedTo, ...values } = rule;
+    try {
+      await saveRule({ ...values, is_active: isActive });
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  const moveRule = async (index: number, direction: -1 | 1) => {
+    const ids = rules.map(r => r.id);
+    [ids[index], ids[index + direction]] = [ids[index + direction], ids[index]];
+    try {
+      await reorderRules(ids);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!ruleToDelete) return;
+    try {
+      await deleteRule(ruleToDelete.id);
+      setRuleToDelete(null);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Tabs value={entityType} onValueChange={(v) => setEntityType(v as AssignmentEntityType)}>
+          <TabsList>
+            {ENTITY_TYPES.map(entity => (
+              <TabsTrigger key={entity.value} value={entity.value}>{entity.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Rules run top to bottom when a {entityType} is created by hand or imported, and the first match picks the owner. They only
+        replace the default owner (nobody, or the person creating the record), so an owner chosen explicitly is kept. The new owner is
+        notified and the assignment shows in the record's history.
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No assignment rules yet. New {entityType}s stay with whoever creates them.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule, index) => (
+            <div key={rule.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg hover:bg-muted/50">
+              <div className="flex items-center gap-3 min-w-0">
+                <div className="flex flex-col">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5"
+                    disabled={saving || index === 0}
+                    onClick={() => moveRule(index, -1)}
+                    aria-label={`Move ${rule.name} up`}
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5"
+                    disabled={saving || index === rules.length - 1}
+                    onClick={() => moveRule(index, 1)}
+                    aria-label={`Move ${rule.name} down`}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                </div>
+                <Switch
+                  checked={rule.is_active}
+                  disabled={saving}
+                  onCheckedChange={(checked) => toggleActive(rule, checked)}
+                  aria-label={`Toggle ${rule.name}`}
+                />
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`font-medium truncate ${rule.is_active ? '' : 'text-muted-foreground'}`}>{rule.name}</span>
+                    <Badge variant="outline">{DISTRIBUTIONS.find(d => d.value === rule.distribution)?.label}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {describeConditions(rule)} → {rule.member_ids.map(id => names[id] || 'Unknown User').join(', ')}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" onClick={() => openEdit(rule)} aria-label={`Edit ${rule.name}`}>
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => setRuleToDelete(rule)}
+                  aria-label={`Delete ${rule.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit Assignment Rule' : 'Add Assignment Rule'}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder="e.g. DACH inbound"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {CONDITIONS.map(condition => (
+                  <div key={condition.key} className="space-y-2">
+                    <Label>{condition.label}</Label>
+                    <Input
+                      value={form[condition.key]}
+                      onChange={(e) => updateForm({ [condition.key]: e.target.value })}
+                      placeholder={condition.placeholder}
+                    />
+                    <p className="text-xs text-muted-foreground">Matches the {condition.source[entityType]}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Separate values with commas to match any of them. Case is ignored, and an empty condition matches everything.
+              </p>
+
+              <div className="space-y-2">
+                <Label>Distribution</Label>
+                <Select value={form.distribution} onValueChange={(v) => updateForm({ distribution: v as AssignmentDistribution })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DISTRIBUTIONS.map(distribution => (
+                      <SelectItem key={distribution.value} value={distribution.value}>{distribution.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{DISTRIBUTIONS.find(d => d.value === form.distribution)?.hint}</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Team members ({form.member_ids.length})</Label>
+                <ScrollArea className="h-40 rounded-md border p-2">
+                  <div className="space-y-1">
+                    {profiles.map(profile => (
+                      <label key={profile.id} className="flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-muted cursor-pointer">
+                        <Checkbox
+                          checked={form.member_ids.includes(profile.id)}
+                          onCheckedChange={(checked) => toggleMember(profile.id, checked === true)}
+                        />
+                        {names[profile.id]}
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label>Active</Label>
+                <Switch checked={form.is_active} onCheckedChange={(checked) => updateForm({ is_active: checked })} />
+              </div>
+
+              {validationError && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  {validationError}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!ruleToDelete}
+        onOpenChange={(open) => !open && setRuleToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Assignment Rule"
+        description={`Delete "${ruleToDelete?.name}"? New ${entityType}s will no longer be routed by it.`}
+      />
+    </div>
+  );
+};
+
+export default AssignmentRulesSettings;
@@ -1,9 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Switch } from "@/components/ui/switch";
-import { Label } from "@/components/ui/label";
-import { Badge } from "@/components/ui/badge";
 import { toast } from 'sonner';
 import { supabase } from "@/integrations/supabase/client";
 import { useUserRole } from "@/hooks/useUserRole";
@@ -31,7 +28,8 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Input } from "@/components/ui/input";
+import { RestoreBackupModal } from "./backup/RestoreBackupModal";
+import { BackupScheduleSettings } from "./backup/BackupScheduleSettings";
 
 interface Backup {
   id: string;
@@ -51,13 +49,10 @@ const BackupRestoreSettings = () => {
   const [backups, setBackups] = useState<Backup[]>([]);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
-  const [restoring, setRestoring] = useState<string | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
-  const [showRestoreDialog, setShowRestoreDialog] = useState(false);
+  const [restoreBackup, setRestoreBackup] = useState<Backup | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [selectedBackup, setSelectedBackup] = useState<Backup | null>(null);
-  const [confirmText, setConfirmText] = useState('');
-  const [scheduledBackup, setScheduledBackup] = useState(false);
   const [userNames, setUserNames] = useState<Record<string, string>>({});
   const { isAdmin, loading: roleLoading } = useUserRole();
   const { user } = useAuth();
@@ -156,33 +151,7 @@ const BackupRestoreSettings = () => {
   };
 
   const handleRestoreClick = (backup: Backup) => {
-    setSelectedBackup(backup);
-    setConfirmText('');
-    setShowRestoreDialog(true);
-  };
-
-  const handleRestoreConfirm = async () => {
-    if (!selectedBackup || confirmText !== 'CONFIRM') return;
-
-    setRestoring(selectedBackup.id);
-    setShowRestoreDialog(false);
-
-    try {
-      const { data, error } = await supabase.functions.invoke('restore-backup', {
-        method: 'POST',
-        body: { backupId: selectedBackup.id }
-      });
-
-      if (error) throw error;
-
-      toast.success('Restore process initiated. This may take a few minutes.');
-    } catch (error: any) {
-      console.error('Error restoring backup:', error);
-      toast.error(error.message || 'Failed to restore backup');
-    } finally {
-      setRestoring(null);
-      setSelectedBackup(null);
-    }
+    setRestoreBackup(backup);
   };
 
   const handleDeleteClick = (backup: Backup) => {
@@ -328,28 +297,7 @@ const BackupRestoreSettings = () => {
           </Card>
         </div>
 
-        {/* Scheduled Backup Toggle - Feature Coming Soon */}
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <div className="flex items-center gap-2">
-                  <Label htmlFor="scheduled-backup" className="text-base">Scheduled Backups</Label>
-                  <Badge variant="secondary" className="text-xs">Coming Soon</Badge>
-                </div>
-                <p className="text-sm text-muted-foreground">
-                  Automatically create daily backups at midnight
-                </p>
-              </div>
-              <Switch
-                id="scheduled-backup"
-                checked={scheduledBackup}
-                onCheckedChange={setScheduledBackup}
-                disabled
-              />
-            </div>
-          </CardContent>
-        </Card>
+        <BackupScheduleSettings onBackupCreated={fetchBackups} />
 
         {/* Backup History */}
         <Card>
@@ -411,13 +359,8 @@ const BackupRestoreSettings = () => {
                       variant="secondary" 
                       size="sm"
                       onClick={() => handleRestoreClick(backup)}
-                      disabled={restoring === backup.id}
                     >
-                      {restoring === backup.id ? (
-                        <RefreshCw className="h-4 w-4 mr-1 animate-spin" />
-                      ) : (
-                        <Database className="h-4 w-4 mr-1" />
-                      )}
+                      <Database className="h-4 w-4 mr-1" />
                       Restore
                     </Button>
                     <Button 
@@ -441,45 +384,12 @@ const BackupRestoreSettings = () => {
         </Card>
       </div>
 
-      {/* Restore Confirmation Dialog */}
-      <AlertDialog open={showRestoreDialog} onOpenChange={setShowRestoreDialog}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle className="text-destructive">⚠️ Confirm Restore</AlertDialogTitle>
-            <AlertDialogDescription className="space-y-4">
-              <p>You are about to restore the database from backup:</p>
-              <p className="font-mono text-sm bg-muted p-2 rounded">{selectedBackup?.file_name}</p>
-              <div className="bg-destructive/10 border border-destructive/20 rounded p-3 text-sm">
-                <p className="font-semibold text-destructive">This action will:</p>
-                <ul className="list-disc list-inside mt-2 space-y-1">
-                  <li>Overwrite all current database tables</li>
-                  <li>Replace all storage files</li>
-                  <li>May cause brief downtime</li>
-                  <li>Cannot be undone</li>
-                </ul>
-              </div>
-              <div className="space-y-2">
-                <Label>Type "CONFIRM" to proceed:</Label>
-                <Input 
-                  value={confirmText}
-                  onChange={(e) => setConfirmText(e.target.value)}
-                  placeholder="CONFIRM"
-                />
-              </div>
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction 
-              onClick={handleRestoreConfirm}
-              disabled={confirmText !== 'CONFIRM'}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-            >
-              Restore Backup
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {/* Restore Preview & Selective Restore */}
+      <RestoreBackupModal
+        open={!!restoreBackup}
+        onOpenChange={(open) => !open && setRestoreBackup(null)}
+        backup={restoreBackup}
+      />
 
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
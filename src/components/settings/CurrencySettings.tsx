@@ -0,0 +1,330 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+import { ExchangeRateInput, useCurrencyConversion, useExchangeRates } from '@/hooks/useCurrencyConversion';
+import { DEAL_CURRENCIES, ExchangeRate } from '@/utils/currencyConversion';
+import { CSVParser } from '@/utils/csvParser';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Loader2, Plus, Trash2, Upload, AlertCircle } from 'lucide-react';
+
+const HEADER_ALIASES: Record<string, keyof Omit<ExchangeRateInput, 'id'>> = {
+  from_currency: 'from_currency',
+  from: 'from_currency',
+  to_currency: 'to_currency',
+  to: 'to_currency',
+  rate: 'rate',
+  effective_date: 'effective_date',
+  date: 'effective_date',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const emptyRate = (reportingCurrency: string): ExchangeRateInput => ({
+  from_currency: DEAL_CURRENCIES.find(c => c !== reportingCurrency) ?? 'USD',
+  to_currency: reportingCurrency,
+  rate: 0,
+  effective_date: format(new Date(), 'yyyy-MM-dd'),
+});
+
+// Returns valid rows plus one message per rejected row
+const parseRatesCSV = (text: string) => {
+  const { headers, rows } = CSVParser.parseCSV(text);
+  const columns = headers.map(header => HEADER_ALIASES[header.trim().toLowerCase()]);
+  const missing = ['from_currency', 'to_currency', 'rate', 'effective_date'].filter(field => !columns.includes(field as never));
+  if (missing.length > 0) {
+    return { rates: [], errors: [`Missing column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`] };
+  }
+
+  const rates: Omit<ExchangeRateInput, 'id'>[] = [];
+  const errors: string[] = [];
+  rows.forEach((row, index) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      if (column) record[column] = (row[i] ?? '').trim();
+    });
+
+    const from = record.from_currency.toUpperCase();
+    const to = record.to_currency.toUpperCase();
+    const rate = Number(record.rate);
+    const rowNumber = index + 2;
+
+    if (!/^[A-Z]{3}$/.test(from) || !/^[A-Z]{3}$/.test(to) || from === to) {
+      errors.push(`Row ${rowNumber}: currencies must be two different 3-letter codes`);
+    } else if (!(rate > 0)) {
+      errors.push(`Row ${rowNumber}: rate must be a positive number`);
+    } else if (!DATE_PATTERN.test(record.effective_date) || isNaN(new Date(record.effective_date).getTime())) {
+      errors.push(`Row ${rowNumber}: date must be YYYY-MM-DD`);
+    } else {
+      rates.push({ from_currency: from, to_currency: to, rate, effective_date: record.effective_date });
+    }
+  });
+
+  return { rates, errors };
+};
+
+const CurrencySettings = () => {
+  const { reportingCurrency, rates, loading } = useCurrencyConversion();
+  const { saveRate, deleteRate, importRates, setReportingCurrency, saving } = useExchangeRates();
+  const [form, setForm] = useState<ExchangeRateInput | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [rateToDelete, setRateToDelete] = useState<ExchangeRate | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const openEdit = (rate: ExchangeRate) => {
+    setForm({
+      id: rate.id,
+      from_currency: rate.from_currency,
+      to_currency: rate.to_currency,
+      rate: Number(rate.rate),
+      effective_date: rate.effective_date,
+    });
+    setValidationError(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (form.from_currency === form.to_currency) {
+      setValidationError('Choose two different currencies');
+      return;
+    }
+    if (!(form.rate > 0)) {
+      setValidationError('Rate must be greater than 0');
+      return;
+    }
+    if (!DATE_PATTERN.test(form.effective_date)) {
+      setValidationError('Choose the date the rate applies from');
+      return;
+    }
+
+    try {
+      await saveRate(form);
+      setForm(null);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const { rates: parsed, errors } = parseRatesCSV(await file.text());
+    if (errors.length > 0) {
+      toast.error(`${errors.length} row${errors.length === 1 ? '' : 's'} skipped`, {
+        description: errors.slice(0, 5).join('\n') + (errors.length > 5 ? `\n…and ${errors.length - 5} more` : ''),
+      });
+    }
+    if (parsed.length === 0) {
+      if (errors.length === 0) toast.error('No exchange rates found in the file');
+      return;
+    }
+
+    try {
+      await importRates(parsed);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!rateToDelete) return;
+    try {
+      await deleteRate(rateToDelete.id);
+      setRateToDelete(null);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-2">
+          <Label>Reporting Currency</Label>
+          <Select
+            value={reportingCurrency}
+            onValueChange={(value) => setReportingCurrency(value).catch(() => undefined)}
+            disabled={loading || saving}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEAL_CURRENCIES.map(currency => (
+                <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={saving}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import CSV
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+          <Button onClick={() => { setForm(emptyRate(reportingCurrency)); setValidationError(null); }}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rate
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Revenue summaries, dashboards, board totals and exports convert deal amounts into {reportingCurrency} using the
+        latest rate on or before each deal's signing or expected closing date. A rate also works in reverse. CSV files need
+        the columns from_currency, to_currency, rate and effective_date (YYYY-MM-DD).
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : rates.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No exchange rates yet. Deals in other currencies are shown separately until a rate is added.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Pair</TableHead>
+              <TableHead>Rate</TableHead>
+              <TableHead>Effective From</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead className="w-32" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rates.map(rate => (
+              <TableRow key={rate.id}>
+                <TableCell className="font-medium">{rate.from_currency} → {rate.to_currency}</TableCell>
+                <TableCell className="tabular-nums">{Number(rate.rate)}</TableCell>
+                <TableCell>{rate.effective_date}</TableCell>
+                <TableCell>
+                  <Badge variant="outline">{rate.source === 'csv' ? 'CSV' : 'Manual'}</Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="sm" onClick={() => openEdit(rate)}>
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => setRateToDelete(rate)}
+                    aria-label={`Delete ${rate.from_currency} to ${rate.to_currency} rate`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit Exchange Rate' : 'Add Exchange Rate'}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  <Select value={form.from_currency} onValueChange={(v) => setForm({ ...form, from_currency: v })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DEAL_CURRENCIES.map(currency => (
+                        <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>To</Label>
+                  <Select value={form.to_currency} onValueChange={(v) => setForm({ ...form, to_currency: v })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DEAL_CURRENCIES.map(currency => (
+                        <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Rate</Label>
+                  <Input
+                    type="number"
+                    step="any"
+                    min={0}
+                    value={form.rate || ''}
+                    onChange={(e) => setForm({ ...form, rate: Number(e.target.value) })}
+                    placeholder="0.92"
+                  />
+                  <p className="text-xs text-muted-foreground">1 {form.from_currency} = {form.rate || '?'} {form.to_currency}</p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Effective From</Label>
+                  <Input
+                    type="date"
+                    value={form.effective_date}
+                    onChange={(e) => setForm({ ...form, effective_date: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {validationError && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  {validationError}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!rateToDelete}
+        onOpenChange={(open) => !open && setRateToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Exchange Rate"
+        description={`Delete the ${rateToDelete?.from_currency} → ${rateToDelete?.to_currency} rate from ${rateToDelete?.effective_date}? Amounts will be converted with the nearest remaining rate.`}
+      />
+    </div>
+  );
+};
+
+export default CurrencySettings;
@@ -0,0 +1,444 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import { isReservedCustomFieldName } from '@/hooks/import-export/customFieldsCSV';
+import { toast } from 'sonner';
+import { Loader2, Plus, Trash2, GripVertical, AlertCircle, EyeOff } from 'lucide-react';
+import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+import {
+  CUSTOM_FIELD_ENTITY_TYPES,
+  CUSTOM_FIELD_TYPES,
+  CustomFieldDefinition,
+  CustomFieldEntityType,
+  CustomFieldType,
+  isValidCustomFieldName,
+  toCustomFieldName,
+} from '@/utils/customFieldUtils';
+
+interface FieldFormState {
+  id?: string;
+  field_label: string;
+  field_name: string;
+  field_type: CustomFieldType;
+  options_text: string;
+  is_required: boolean;
+  is_visible: boolean;
+}
+
+const emptyForm: FieldFormState = {
+  field_label: '',
+  field_name: '',
+  field_type: 'text',
+  options_text: '',
+  is_required: false,
+  is_visible: true,
+};
+
+const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multiselect';
+
+const parseOptions = (text: string) =>
+  Array.from(new Set(text.split('\n').map(option => option.trim()).filter(Boolean)));
+
+const CustomFieldsSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [entityType, setEntityType] = useState<CustomFieldEntityType>('lead');
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [form, setForm] = useState<FieldFormState>(emptyForm);
+  const [nameTouched, setNameTouched] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [fieldToDelete, setFieldToDelete] = useState<CustomFieldDefinition | null>(null);
+
+  const fetchFields = useCallback(async () => {
+    setLoading(true);
+    try {
+      setFields(await fetchCustomFields(entityType));
+    } catch (error) {
+      console.error('Error fetching custom fields:', error);
+      toast.error('Failed to load custom fields');
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType]);
+
+  useEffect(() => {
+    fetchFields();
+  }, [fetchFields]);
+
+  // Forms, tables and CSV read definitions through the cached query
+  const refreshDefinitions = () => {
+    queryClient.invalidateQueries({ queryKey: ['custom-fields', entityType] });
+    fetchFields();
+  };
+
+  const openCreate = () => {
+    setForm(emptyForm);
+    setNameTouched(false);
+    setValidationError(null);
+    setShowModal(true);
+  };
+
+  const openEdit = (field: CustomFieldDefinition) => {
+    setForm({
+      id: field.id,
+      field_label: field.field_label,
+      field_name: field.field_name,
+      field_type: field.field_type,
+      options_text: field.field_options.join('\n'),
+      is_required: field.is_required,
+      is_visible: field.is_visible,
+    });
+    setNameTouched(true);
+    setValidationError(null);
+    setShowModal(true);
+  };
+
+  const handleLabelChange = (label: string) => {
+    setForm(prev => ({
+      ...prev,
+      field_label: label,
+      // Keep deriving the key from the label until it is edited by hand
+      field_name: prev.id || nameTouched ? prev.field_name : toCustomFieldName(label),
+    }));
+  };
+
+  const validateForm = (): string | null => {
+    const label = form.field_label.trim();
+    if (!label) return 'Label is required';
+    if (!isValidCustomFieldName(form.field_name)) {
+      return 'Field key must start with a letter and contain only lowercase letters, numbers and underscores';
+    }
+    if (!form.id && isReservedCustomFieldName(entityType, form.field_name)) {
+      return `"${form.field_name}" is already a built-in field`;
+    }
+    if (isReservedCustomFieldName(entityType, label)) {
+      return `"${label}" is already a built-in field`;
+    }
+
+    const others = fields.filter(f => f.id !== form.id);
+    if (others.some(f => f.field_name === form.field_name)) {
+      return 'A field with this key already exists';
+    }
+    if (others.some(f => f.field_label.toLowerCase() === label.toLowerCase())) {
+      return 'A field with this label already exists';
+    }
+    if (hasOptions(form.field_type) && parseOptions(form.options_text).length === 0) {
+      return 'Add at least one option';
+    }
+    return null;
+  };
+
+  const saveField = async () => {
+    const error = validateForm();
+    if (error) {
+      setValidationError(error);
+      return;
+    }
+
+    setSaving(true);
+    setValidationError(null);
+
+    const payload = {
+      field_label: form.field_label.trim(),
+      field_options: hasOptions(form.field_type) ? parseOptions(form.options_text) : [],
+      is_required: form.is_required,
+      is_visible: form.is_visible,
+    };
+
+    try {
+      if (form.id) {
+        const { error } = await supabase
+          .from('crm_custom_fields')
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq('id', form.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('crm_custom_fields')
+          .insert({
+            ...payload,
+            entity_type: entityType,
+            field_name: form.field_name,
+            field_type: form.field_type,
+            display_order: fields.length,
+            created_by: user?.id,
+          });
+        if (error) throw error;
+      }
+
+      toast.success('Custom field saved');
+      setShowModal(false);
+      refreshDefinitions();
+    } catch (error) {
+      console.error('Error saving custom field:', error);
+      toast.error('Failed to save custom field');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!fieldToDelete) return;
+    try {
+      const { error } = await supabase
+        .from('crm_custom_fields')
+        .delete()
+        .eq('id', fieldToDelete.id);
+      if (error) throw error;
+      toast.success('Custom field deleted');
+      setFieldToDelete(null);
+      refreshDefinitions();
+    } catch (error) {
+      console.error('Error deleting custom field:', error);
+      toast.error('Failed to delete custom field');
+    }
+  };
+
+  const handleDragEnd = async (result: DropResult) => {
+    if (!result.destination) return;
+
+    const items = Array.from(fields);
+    const [reorderedItem] = items.splice(result.source.index, 1);
+    items.splice(result.destination.index, 0, reorderedItem);
+
+    const updatedFields = items.map((field, index) => ({ ...field, display_order: index }));
+    setFields(updatedFields);
+
+    try {
+      for (const field of updatedFields) {
+        const { error } = await supabase
+          .from('crm_custom_fields')
+          .update({ display_order: field.display_order })
+          .eq('id', field.id);
+        if (error) throw error;
+      }
+      queryClient.invalidateQueries({ queryKey: ['custom-fields', entityType] });
+      toast.success('Field order updated');
+    } catch (error) {
+      console.error('Error updating field order:', error);
+      toast.error('Failed to update field order');
+      fetchFields();
+    }
+  };
+
+  const typeLabel = (type: CustomFieldType) => CUSTOM_FIELD_TYPES.find(t => t.value === type)?.label || type;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Tabs value={entityType} onValueChange={(v) => setEntityType(v as CustomFieldEntityType)}>
+          <TabsList>
+            {CUSTOM_FIELD_ENTITY_TYPES.map(entity => (
+              <TabsTrigger key={entity.value} value={entity.value}>{entity.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Field
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : fields.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No custom fields yet. Add one to capture information the standard fields don't cover.
+        </p>
+      ) : (
+        <DragDropContext onDragEnd={handleDragEnd}>
+          <Droppable droppableId="custom-fields">
+            {(provided) => (
+              <div className="space-y-2" {...provided.droppableProps} ref={provided.innerRef}>
+                {fields.map((field, index) => (
+                  <Draggable key={field.id} draggableId={field.id} index={index}>
+                    {(provided, snapshot) => (
+                      <div
+                        ref={provided.innerRef}
+                        {...provided.draggableProps}
+                        className={`flex items-center justify-between p-3 border rounded-lg transition-colors ${
+                          snapshot.isDragging ? 'bg-muted shadow-md' : 'hover:bg-muted/50'
+                        }`}
+                      >
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div {...provided.dragHandleProps} className="cursor-grab active:cursor-grabbing">
+                            <GripVertical className="h-4 w-4 text-muted-foreground" />
+                          </div>
+                          <span className="font-medium truncate">{field.field_label}</span>
+                          <code className="text-xs text-muted-foreground">{field.field_name}</code>
+                          <Badge variant="outline">{typeLabel(field.field_type)}</Badge>
+                          {field.is_required && <Badge variant="secondary">Required</Badge>}
+                          {!field.is_visible && (
+                            <Badge variant="secondary" className="gap-1">
+                              <EyeOff className="h-3 w-3" />
+                              Hidden
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openEdit(field)}
+                            aria-label={`Edit ${field.field_label}`}
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => setFieldToDelete(field)}
+                            aria-label={`Delete ${field.field_label}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </Draggable>
+                ))}
+                {provided.placeholder}
+              </div>
+            )}
+          </Droppable>
+        </DragDropContext>
+      )}
+
+      <Dialog open={showModal} onOpenChange={setShowModal}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form.id ? 'Edit Custom Field' : 'Add Custom Field'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Label</Label>
+              <Input
+                value={form.field_label}
+                onChange={(e) => handleLabelChange(e.target.value)}
+                placeholder="e.g. Partner Tier"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Field Key</Label>
+              <Input
+                value={form.field_name}
+                disabled={!!form.id}
+                onChange={(e) => {
+                  setNameTouched(true);
+                  setForm(prev => ({ ...prev, field_name: e.target.value }));
+                }}
+                placeholder="partner_tier"
+              />
+              <p className="text-xs text-muted-foreground">
+                {form.id
+                  ? 'The key and type cannot be changed once a field exists.'
+                  : 'Used as the stored key and as an alternative CSV column header.'}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={form.field_type}
+                disabled={!!form.id}
+                onValueChange={(v) => setForm(prev => ({ ...prev, field_type: v as CustomFieldType }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOM_FIELD_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {hasOptions(form.field_type) && (
+              <div className="space-y-2">
+                <Label>Options</Label>
+                <Textarea
+                  value={form.options_text}
+                  onChange={(e) => setForm(prev => ({ ...prev, options_text: e.target.value }))}
+                  placeholder={'One option per line\nGold\nSilver\nBronze'}
+                  rows={5}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label>Required</Label>
+              <Switch
+                checked={form.is_required}
+                disabled={form.field_type === 'boolean'}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, is_required: checked }))}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Visible</Label>
+                <p className="text-xs text-muted-foreground">Hidden fields keep their data but are not shown in forms, tables or exports</p>
+              </div>
+              <Switch
+                checked={form.is_visible}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, is_visible: checked }))}
+              />
+            </div>
+
+            {validationError && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {validationError}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowModal(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveField} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!fieldToDelete}
+        onOpenChange={(open) => !open && setFieldToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Custom Field"
+        description={`Delete "${fieldToDelete?.field_label}"? Values stored in this field will be removed from every record. This action cannot be undone.`}
+      />
+    </div>
+  );
+};
+
+export default CustomFieldsSettings;
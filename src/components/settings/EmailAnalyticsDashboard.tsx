@@ -19,7 +19,7 @@ import {
   Cell,
   Legend,
 } from 'recharts';
-import { Mail, Eye, TrendingUp, Download } from 'lucide-react';
+import { Mail, Eye, TrendingUp, Download, MousePointerClick } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface DailyStats {
@@ -33,15 +33,23 @@ interface StatusDistribution {
   value: number;
 }
 
+interface LinkClickStats {
+  url: string;
+  clicks: number;
+  emails: number;
+}
+
 export const EmailAnalyticsDashboard = () => {
   const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState('30');
   const [dailyStats, setDailyStats] = useState<DailyStats[]>([]);
   const [statusDistribution, setStatusDistribution] = useState<StatusDistribution[]>([]);
+  const [linkClicks, setLinkClicks] = useState<LinkClickStats[]>([]);
   const [totals, setTotals] = useState({
     totalSent: 0,
     totalOpened: 0,
     openRate: 0,
+    clickRate: 0,
   });
 
   useEffect(() => {
@@ -69,11 +77,13 @@ export const EmailAnalyticsDashboard = () => {
         // Calculate totals
         const totalSent = emails?.length || 0;
         const totalOpened = emails?.filter(e => e.open_count && e.open_count > 0).length || 0;
+        const totalClicked = emails?.filter(e => e.click_count && e.click_count > 0).length || 0;
 
         setTotals({
           totalSent,
           totalOpened,
           openRate: totalSent > 0 ? Math.round((totalOpened / totalSent) * 100) : 0,
+          clickRate: totalSent > 0 ? Math.round((totalClicked / totalSent) * 100) : 0,
         });
 
         // Calculate daily stats
@@ -104,6 +114,30 @@ export const EmailAnalyticsDashboard = () => {
           Object.entries(statusCounts).map(([name, value]) => ({ name, value }))
         );
 
+        // Per-link click breakdown for the same emails
+        const { data: clicks, error: clicksError } = await supabase
+          .from('email_link_clicks')
+          .select('link_url, email_id, email_history!inner(sent_by, sent_at)')
+          .eq('email_history.sent_by', user.data.user.id)
+          .gte('email_history.sent_at', startDate.toISOString())
+          .lte('email_history.sent_at', endDate.toISOString());
+
+        if (clicksError) throw clicksError;
+
+        const linkStats = new Map<string, { clicks: number; emails: Set<string> }>();
+        clicks?.forEach(click => {
+          const stats = linkStats.get(click.link_url) || { clicks: 0, emails: new Set<string>() };
+          stats.clicks += 1;
+          stats.emails.add(click.email_id);
+          linkStats.set(click.link_url, stats);
+        });
+
+        setLinkClicks(
+          Array.from(linkStats.entries())
+            .map(([url, stats]) => ({ url, clicks: stats.clicks, emails: stats.emails.size }))
+            .sort((a, b) => b.clicks - a.clicks)
+        );
+
       } catch (error) {
         console.error('Error fetching analytics:', error);
       } finally {
@@ -179,7 +213,7 @@ export const EmailAnalyticsDashboard = () => {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <Card>
           <CardContent className="pt-6">
             <div className="flex items-center gap-3">
@@ -221,6 +255,20 @@ export const EmailAnalyticsDashboard = () => {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-purple-100 dark:bg-purple-900 rounded-lg">
+                <MousePointerClick className="h-5 w-5 text-purple-600 dark:text-purple-400" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{totals.clickRate}%</p>
+                <p className="text-xs text-muted-foreground">Click Rate</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Charts */}
@@ -399,6 +447,37 @@ export const EmailAnalyticsDashboard = () => {
             </div>
           </CardContent>
         </Card>
+
+        {/* Link Clicks - Per-link breakdown */}
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle className="text-base">Link Clicks</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {linkClicks.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 font-medium">Link</th>
+                    <th className="py-2 font-medium text-right w-24">Clicks</th>
+                    <th className="py-2 font-medium text-right w-24">Emails</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {linkClicks.slice(0, 10).map((link) => (
+                    <tr key={link.url} className="border-b last:border-0">
+                      <td className="py-2 pr-4 max-w-0 truncate" title={link.url}>{link.url}</td>
+                      <td className="py-2 text-right">{link.clicks}</td>
+                      <td className="py-2 text-right">{link.emails}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-6">No link clicks recorded</p>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -1,10 +1,11 @@
 import { useState, useEffect, lazy, Suspense } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { FileText, History, BarChart3 } from 'lucide-react';
+import { FileText, History, BarChart3, ListOrdered } from 'lucide-react';
 import SettingsLoadingSkeleton from './shared/SettingsLoadingSkeleton';
 
 // Lazy load heavy components
 const EmailTemplatesSettings = lazy(() => import('@/components/settings/EmailTemplatesSettings'));
+const EmailSequencesSettings = lazy(() => import('@/components/settings/EmailSequencesSettings'));
 const EmailHistorySettings = lazy(() => import('@/components/settings/EmailHistorySettings'));
 const EmailAnalyticsDashboard = lazy(() => import('@/components/settings/EmailAnalyticsDashboard').then(m => ({ default: m.EmailAnalyticsDashboard })));
 
@@ -12,7 +13,7 @@ interface EmailCenterPageProps {
   defaultTab?: string | null;
 }
 
-const validTabs = ['templates', 'history', 'analytics'];
+const validTabs = ['templates', 'sequences', 'history', 'analytics'];
 
 const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
   const [activeTab, setActiveTab] = useState(() => {
@@ -31,11 +32,15 @@ const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
   return (
     <div className="space-y-6 max-w-6xl">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3 max-w-md">
+        <TabsList className="grid w-full grid-cols-4 max-w-lg">
           <TabsTrigger value="templates" className="flex items-center gap-2">
             <FileText className="h-4 w-4" />
             <span className="sr-only sm:not-sr-only">Templates</span>
           </TabsTrigger>
+          <TabsTrigger value="sequences" className="flex items-center gap-2">
+            <ListOrdered className="h-4 w-4" />
+            <span className="sr-only sm:not-sr-only">Sequences</span>
+          </TabsTrigger>
           <TabsTrigger value="history" className="flex items-center gap-2">
             <History className="h-4 w-4" />
             <span className="sr-only sm:not-sr-only">History</span>
@@ -52,6 +57,12 @@ const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
           </Suspense>
         </TabsContent>
 
+        <TabsContent value="sequences" className="mt-6">
+          <Suspense fallback={<SettingsLoadingSkeleton />}>
+            <EmailSequencesSettings />
+          </Suspense>
+        </TabsContent>
+
         <TabsContent value="history" className="mt-6">
           <Suspense fallback={<SettingsLoadingSkeleton />}>
             <EmailHistorySettings />
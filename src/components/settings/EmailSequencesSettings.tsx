@@ -0,0 +1,221 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { BarChart3, Edit, Plus, Trash2 } from "lucide-react";
+import { EmailSequence, useEmailSequences } from "@/hooks/useEmailSequences";
+import { SequenceEditorDialog } from "./email/SequenceEditorDialog";
+import { SequenceDashboard } from "./email/SequenceDashboard";
+
+const EmailSequencesSettings = () => {
+  const { user } = useAuth();
+  const { sequences, loading, saveSequence, saving, deleteSequence } = useEmailSequences();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingSequence, setEditingSequence] = useState<EmailSequence | null>(null);
+  const [dashboardSequenceId, setDashboardSequenceId] = useState<string | null>(null);
+  const [sequenceToDelete, setSequenceToDelete] = useState<EmailSequence | null>(null);
+
+  const { data: templateNames = {} } = useQuery({
+    queryKey: ['email-template-names'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('email_templates').select('id, name');
+      if (error) throw error;
+      return Object.fromEntries((data || []).map(t => [t.id, t.name])) as Record<string, string>;
+    },
+    enabled: !!user,
+    staleTime: 60 * 1000,
+  });
+
+  const dashboardSequence = useMemo(
+    () => sequences.find(s => s.id === dashboardSequenceId) ?? null,
+    [sequences, dashboardSequenceId]
+  );
+
+  const openEditor = (sequence: EmailSequence | null) => {
+    setEditingSequence(sequence);
+    setEditorOpen(true);
+  };
+
+  const toggleActive = (sequence: EmailSequence, isActive: boolean) => {
+    saveSequence({
+      id: sequence.id,
+      name: sequence.name,
+      description: sequence.description ?? "",
+      is_active: isActive,
+      steps: sequence.steps,
+    }).catch(() => undefined);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading sequences...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <CardTitle>Email Sequences</CardTitle>
+              <CardDescription>
+                Multi-step cadences of template emails, waits and follow-up tasks for leads and contacts
+              </CardDescription>
+            </div>
+            <Button onClick={() => openEditor(null)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Sequence
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <caption className="sr-only">Email sequences list</caption>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Steps</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Completed</TableHead>
+                <TableHead>Exited</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="w-[120px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sequences.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    No sequences yet. Create one, then add leads or contacts from their list.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sequences.map(sequence => (
+                  <TableRow key={sequence.id}>
+                    <TableCell>
+                      <div className="font-medium">{sequence.name}</div>
+                      {sequence.description && (
+                        <div className="text-xs text-muted-foreground truncate max-w-[260px]">{sequence.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {sequence.steps.map(step => (
+                          <Badge key={step.id} variant="outline" className="text-xs capitalize">
+                            {step.step_type === 'wait' ? `${step.wait_days}d` : step.step_type}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{sequence.counts.active}</TableCell>
+                    <TableCell>{sequence.counts.completed}</TableCell>
+                    <TableCell>{sequence.counts.exited}</TableCell>
+                    <TableCell>{format(new Date(sequence.created_at), 'dd/MM/yyyy')}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={sequence.is_active}
+                        disabled={saving}
+                        onCheckedChange={(checked) => toggleActive(sequence, checked)}
+                        aria-label={`${sequence.is_active ? 'Pause' : 'Enable'} ${sequence.name}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button variant="ghost" size="icon" onClick={() => setDashboardSequenceId(sequence.id)} aria-label={`Open ${sequence.name} dashboard`}>
+                              <BarChart3 className="h-4 w-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Dashboard</TooltipContent>
+                        </Tooltip>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button variant="ghost" size="icon" onClick={() => openEditor(sequence)} aria-label={`Edit ${sequence.name}`}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Edit</TooltipContent>
+                        </Tooltip>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button variant="ghost" size="icon" onClick={() => setSequenceToDelete(sequence)} aria-label={`Delete ${sequence.name}`}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Delete</TooltipContent>
+                        </Tooltip>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <SequenceEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        sequence={editingSequence}
+        saving={saving}
+        onSave={saveSequence}
+      />
+
+      <Dialog open={!!dashboardSequence} onOpenChange={(open) => !open && setDashboardSequenceId(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          {dashboardSequence && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{dashboardSequence.name}</DialogTitle>
+                <DialogDescription>
+                  {dashboardSequence.is_active ? 'Running' : 'Paused'} · {dashboardSequence.steps.length} steps
+                </DialogDescription>
+              </DialogHeader>
+              <SequenceDashboard sequence={dashboardSequence} templateNames={templateNames} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!sequenceToDelete} onOpenChange={(open) => !open && setSequenceToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Sequence</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{sequenceToDelete?.name}"? Its {sequenceToDelete?.counts.active ?? 0} active enrollment(s) stop immediately and its history is removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => sequenceToDelete && deleteSequence(sequenceToDelete.id).catch(() => undefined)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default EmailSequencesSettings;
@@ -4,6 +4,7 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Bell, Loader2 } from 'lucide-react';
@@ -96,6 +97,23 @@ const NotificationSettings = () => {
     setPrefs(p => ({ ...p, [key]: !p[key] }));
   };
 
+  const push = usePushNotifications();
+
+  // Subscribe this browser before the preference can be turned on
+  const togglePush = async () => {
+    try {
+      if (prefs.push_notifications) {
+        setPrefs(p => ({ ...p, push_notifications: false }));
+        await push.disable();
+      } else {
+        await push.enable();
+        setPrefs(p => ({ ...p, push_notifications: true }));
+      }
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-32">
@@ -148,7 +166,8 @@ const NotificationSettings = () => {
               <Switch
                 id="push_notifications"
                 checked={prefs.push_notifications}
-                onCheckedChange={() => togglePref('push_notifications')}
+                onCheckedChange={togglePush}
+                disabled={!push.supported || push.pending}
               />
             </div>
           </div>
@@ -1,10 +1,13 @@
 import { useState, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useUserRole } from '@/hooks/useUserRole';
@@ -36,17 +39,8 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
-
-interface PipelineStage {
-  id: string;
-  stage_name: string;
-  stage_order: number;
-  stage_color: string;
-  stage_probability: number;
-  is_active: boolean;
-  is_won_stage: boolean;
-  is_lost_stage: boolean;
-}
+import { DEAL_FIELD_LABELS, FORECAST_CATEGORY_LABELS, ForecastCategory, OPEN_FORECAST_CATEGORIES, PipelineStage } from '@/types/deal';
+import { RemovePipelineStageDialog } from './pipeline/RemovePipelineStageDialog';
 
 interface LeadStatus {
   id: string;
@@ -72,6 +66,7 @@ const colorOptions = [
 
 const PipelineSettings = () => {
   const { userRole } = useUserRole();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [stages, setStages] = useState<PipelineStage[]>([]);
@@ -129,7 +124,7 @@ const PipelineSettings = () => {
       const stagesData = stagesRes.data || [];
       const statusesData = statusesRes.data || [];
       
-      setStages(stagesData);
+      setStages(stagesData as PipelineStage[]);
       setStatuses(statusesData);
       
       // Store initial state
@@ -143,6 +138,22 @@ const PipelineSettings = () => {
     }
   };
 
+  // Deals board, forms and filters read stages through usePipelineStages
+  const refreshStages = () => {
+    fetchData();
+    queryClient.invalidateQueries({ queryKey: ['pipeline-stages'] });
+  };
+
+  const toggleStageField = (field: string, checked: boolean) => {
+    setEditingStage(s => {
+      const current = s?.form_fields || [];
+      const next = checked ? [...current, field] : current.filter(f => f !== field);
+      // Keep the picker's order so forms lay out predictably
+      const known = Object.keys(DEAL_FIELD_LABELS).filter(f => next.includes(f));
+      return { ...s, form_fields: [...known, ...next.filter(f => !(f in DEAL_FIELD_LABELS))] };
+    });
+  };
+
   // Get colors already used by other stages (excluding current editing stage)
   const getUsedStageColors = () => {
     return stages
@@ -200,6 +211,9 @@ const PipelineSettings = () => {
             is_active: editingStage?.is_active ?? true,
             is_won_stage: editingStage?.is_won_stage || false,
             is_lost_stage: editingStage?.is_lost_stage || false,
+            forecast_category: editingStage?.forecast_category || 'pipeline',
+            stuck_after_days: editingStage?.stuck_after_days ?? null,
+            form_fields: editingStage?.form_fields || [],
             stage_order: stages.length,
           });
         if (error) throw error;
@@ -208,7 +222,7 @@ const PipelineSettings = () => {
       toast.success('Stage saved successfully');
       setShowStageModal(false);
       setEditingStage(null);
-      fetchData();
+      refreshStages();
     } catch (error) {
       console.error('Error saving stage:', error);
       toast.error('Failed to save stage');
@@ -259,22 +273,6 @@ const PipelineSettings = () => {
     }
   };
 
-  const confirmDeleteStage = async () => {
-    if (!stageToDelete) return;
-    try {
-      const { error } = await supabase
-        .from('pipeline_stages')
-        .delete()
-        .eq('id', stageToDelete.id);
-      if (error) throw error;
-      toast.success('Stage deleted');
-      setStageToDelete(null);
-      fetchData();
-    } catch (error) {
-      toast.error('Failed to delete stage');
-    }
-  };
-
   const confirmDeleteStatus = async () => {
     if (!statusToDelete) return;
     try {
@@ -320,6 +318,7 @@ const PipelineSettings = () => {
       }
       
       toast.success('Stage order updated');
+      queryClient.invalidateQueries({ queryKey: ['pipeline-stages'] });
     } catch (error) {
       console.error('Error updating stage order:', error);
       toast.error('Failed to update stage order');
@@ -400,7 +399,7 @@ const PipelineSettings = () => {
             </div>
             <Button
               onClick={() => {
-                setEditingStage({ stage_name: '', stage_color: '#3b82f6', stage_probability: 0 });
+                setEditingStage({ stage_name: '', stage_color: '#3b82f6', stage_probability: 0, forecast_category: 'pipeline', stuck_after_days: 30, form_fields: [] });
                 setValidationError(null);
                 setShowStageModal(true);
               }}
@@ -443,6 +442,7 @@ const PipelineSettings = () => {
                             />
                             <span className="font-medium">{stage.stage_name}</span>
                             <Badge variant="outline">{stage.stage_probability}%</Badge>
+                            <Badge variant="secondary">{FORECAST_CATEGORY_LABELS[stage.forecast_category] || 'Pipeline'}</Badge>
                             {stage.is_won_stage && <Badge className="bg-green-500">Won</Badge>}
                             {stage.is_lost_stage && <Badge variant="destructive">Lost/Dropped</Badge>}
                             {!stage.is_active && <Badge variant="secondary">Inactive</Badge>}
@@ -465,7 +465,7 @@ const PipelineSettings = () => {
                               size="sm"
                               className="text-destructive"
                               onClick={() => setStageToDelete(stage)}
-                              aria-label={`Delete ${stage.stage_name}`}
+                              aria-label={`Remove ${stage.stage_name}`}
                             >
                               <Trash2 className="h-4 w-4" />
                             </Button>
@@ -608,6 +608,11 @@ const PipelineSettings = () => {
                   {validationError}
                 </p>
               )}
+              {editingStage?.id && stages.find(s => s.id === editingStage.id)?.stage_name !== editingStage.stage_name && (
+                <p className="text-xs text-muted-foreground">
+                  Deals in this stage and their stage history will use the new name.
+                </p>
+              )}
             </div>
             <div className="space-y-2">
               <Label id="stage-color-label">Color</Label>
@@ -656,6 +661,59 @@ const PipelineSettings = () => {
                 onChange={(e) => setEditingStage(s => ({ ...s, stage_probability: parseInt(e.target.value) || 0 }))}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="stage-forecast-category">Forecast Category</Label>
+              <Select
+                value={editingStage?.forecast_category || 'pipeline'}
+                onValueChange={(value) => setEditingStage(s => ({ ...s, forecast_category: value as ForecastCategory }))}
+                disabled={editingStage?.is_won_stage || editingStage?.is_lost_stage}
+              >
+                <SelectTrigger id="stage-forecast-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(editingStage?.is_won_stage ? ['closed' as ForecastCategory] : OPEN_FORECAST_CATEGORIES).map(category => (
+                    <SelectItem key={category} value={category}>{FORECAST_CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Default forecast category for deals in this stage. Won stages always count as Closed.
+              </p>
+            </div>
+            {!editingStage?.is_won_stage && !editingStage?.is_lost_stage && (
+              <div className="space-y-2">
+                <Label htmlFor="stage-stuck-after">Flag as stuck after (days)</Label>
+                <Input
+                  id="stage-stuck-after"
+                  type="number"
+                  min="1"
+                  placeholder="Never"
+                  value={editingStage?.stuck_after_days ?? ''}
+                  onChange={(e) => setEditingStage(s => ({ ...s, stuck_after_days: parseInt(e.target.value) > 0 ? parseInt(e.target.value) : null }))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Open deals sitting in this stage longer are listed as stuck in Pipeline Analytics
+                </p>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Form Fields</Label>
+              <p className="text-xs text-muted-foreground">
+                Deal fields shown in this stage's section of the deal form
+              </p>
+              <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto border rounded-md p-3">
+                {Object.entries(DEAL_FIELD_LABELS).map(([field, label]) => (
+                  <label key={field} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={editingStage?.form_fields?.includes(field) || false}
+                      onCheckedChange={(checked) => toggleStageField(field, Boolean(checked))}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
             <div className="flex items-center justify-between">
               <Label htmlFor="stage-active">Active</Label>
               <Switch
@@ -669,7 +727,7 @@ const PipelineSettings = () => {
               <Switch
                 id="stage-won"
                 checked={editingStage?.is_won_stage || false}
-                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_won_stage: checked, is_lost_stage: false }))}
+                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_won_stage: checked, is_lost_stage: false, forecast_category: checked ? 'closed' : 'pipeline' }))}
               />
             </div>
             <div className="flex items-center justify-between">
@@ -677,7 +735,7 @@ const PipelineSettings = () => {
               <Switch
                 id="stage-lost"
                 checked={editingStage?.is_lost_stage || false}
-                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_lost_stage: checked, is_won_stage: false }))}
+                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_lost_stage: checked, is_won_stage: false, forecast_category: checked ? 'omitted' : 'pipeline' }))}
               />
             </div>
           </div>
@@ -788,12 +846,11 @@ const PipelineSettings = () => {
       </Dialog>
 
       {/* Delete Confirmation Dialogs */}
-      <DeleteConfirmDialog
-        open={!!stageToDelete}
+      <RemovePipelineStageDialog
+        stage={stageToDelete}
+        stages={stages}
         onOpenChange={(open) => !open && setStageToDelete(null)}
-        onConfirm={confirmDeleteStage}
-        title="Delete Pipeline Stage"
-        description={`Are you sure you want to delete the "${stageToDelete?.stage_name}" stage? Deals in this stage will need to be reassigned.`}
+        onRemoved={refreshStages}
       />
 
       <DeleteConfirmDialog
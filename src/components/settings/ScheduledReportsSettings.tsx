@@ -10,6 +10,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useProfiles } from '@/hooks/useProfiles';
+import { useTeams } from '@/hooks/useTeams';
+import { downloadCSV } from '@/utils/csvUtils';
 import { 
   FileText, 
   Plus, 
@@ -18,7 +21,10 @@ import {
   RefreshCw,
   Calendar,
   Clock,
-  Mail
+  Mail,
+  Eye,
+  Send,
+  Download
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -31,12 +37,29 @@ interface ReportSchedule {
   day_of_month: number | null;
   time_of_day: string;
   recipients: any;
-  filters: any;
+  filters: ReportFilters | null;
   is_enabled: boolean;
   last_sent_at: string | null;
   created_at: string;
 }
 
+interface ReportFilters {
+  date_range?: string;
+  owner_id?: string | null;
+  team_id?: string | null;
+  region?: string | null;
+}
+
+interface ReportPreview {
+  scheduleId: string;
+  subject: string;
+  html: string;
+  csv: string;
+  filename: string;
+  rowCount: number;
+  recipients: string[];
+}
+
 const reportTypes = [
   { value: 'deals_summary', label: 'Deals Summary' },
   { value: 'leads_activity', label: 'Leads Activity' },
@@ -51,6 +74,18 @@ const frequencyOptions = [
   { value: 'monthly', label: 'Monthly' },
 ];
 
+const dateRangeOptions = [
+  { value: 'default', label: 'Since previous report' },
+  { value: 'last_7_days', label: 'Last 7 days' },
+  { value: 'last_30_days', label: 'Last 30 days' },
+  { value: 'last_90_days', label: 'Last 90 days' },
+  { value: 'this_month', label: 'This month' },
+  { value: 'this_quarter', label: 'This quarter' },
+  { value: 'this_year', label: 'This year' },
+];
+
+const ALL_OWNERS = 'all';
+
 const daysOfWeek = [
   { value: 0, label: 'Sunday' },
   { value: 1, label: 'Monday' },
@@ -63,6 +98,8 @@ const daysOfWeek = [
 
 const ScheduledReportsSettings = () => {
   const { user } = useAuth();
+  const { data: profiles = [] } = useProfiles();
+  const { teams } = useTeams();
   const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -77,7 +114,13 @@ const ScheduledReportsSettings = () => {
     time_of_day: '08:00',
     recipients: '',
     is_enabled: true,
+    date_range: 'default',
+    owner_id: ALL_OWNERS,
+    team_id: ALL_OWNERS,
+    region: '',
   });
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ReportPreview | null>(null);
 
   const fetchSchedules = async () => {
     try {
@@ -87,7 +130,7 @@ const ScheduledReportsSettings = () => {
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setSchedules(data || []);
+      setSchedules((data || []) as ReportSchedule[]);
     } catch (error) {
       console.error('Error fetching report schedules:', error);
       toast.error('Failed to load report schedules');
@@ -112,6 +155,10 @@ const ScheduledReportsSettings = () => {
         time_of_day: schedule.time_of_day || '08:00',
         recipients: (schedule.recipients || []).join(', '),
         is_enabled: schedule.is_enabled,
+        date_range: schedule.filters?.date_range || 'default',
+        owner_id: schedule.filters?.owner_id || ALL_OWNERS,
+        team_id: schedule.filters?.team_id || ALL_OWNERS,
+        region: schedule.filters?.region || '',
       });
     } else {
       setEditingSchedule(null);
@@ -124,6 +171,10 @@ const ScheduledReportsSettings = () => {
         time_of_day: '08:00',
         recipients: user?.email || '',
         is_enabled: true,
+        date_range: 'default',
+        owner_id: ALL_OWNERS,
+        team_id: ALL_OWNERS,
+        region: '',
       });
     }
     setShowModal(true);
@@ -138,6 +189,12 @@ const ScheduledReportsSettings = () => {
     setSaving(true);
     try {
       const recipientsList = formData.recipients.split(',').map(e => e.trim()).filter(Boolean);
+      const filters: ReportFilters = {
+        date_range: formData.date_range,
+        owner_id: formData.owner_id === ALL_OWNERS ? null : formData.owner_id,
+        team_id: formData.team_id === ALL_OWNERS ? null : formData.team_id,
+        region: formData.region.trim() || null,
+      };
       
       const payload = {
         name: formData.name,
@@ -147,6 +204,7 @@ const ScheduledReportsSettings = () => {
         day_of_month: formData.frequency === 'monthly' ? formData.day_of_month : null,
         time_of_day: formData.time_of_day,
         recipients: recipientsList,
+        filters: { ...filters },
         is_enabled: formData.is_enabled,
         created_by: user?.id,
       };
@@ -211,6 +269,46 @@ const ScheduledReportsSettings = () => {
     }
   };
 
+  const handlePreview = async (schedule: ReportSchedule) => {
+    setRunningId(schedule.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('send-scheduled-reports', {
+        body: { scheduleId: schedule.id, mode: 'preview' },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to generate report');
+
+      setPreview({ scheduleId: schedule.id, ...data });
+    } catch (error) {
+      console.error('Error previewing report:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to generate report preview');
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleSendNow = async (scheduleId: string) => {
+    setRunningId(scheduleId);
+    try {
+      const { data, error } = await supabase.functions.invoke('send-scheduled-reports', {
+        body: { scheduleId, mode: 'send' },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to send report');
+
+      toast.success(`Report sent to ${data.recipients} recipient(s)`);
+      setPreview(null);
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error sending report:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send report');
+    } finally {
+      setRunningId(null);
+    }
+  };
+
   const getFrequencyLabel = (schedule: ReportSchedule) => {
     switch (schedule.frequency) {
       case 'daily':
@@ -291,6 +389,26 @@ const ScheduledReportsSettings = () => {
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Preview"
+                      disabled={runningId === schedule.id}
+                      onClick={() => handlePreview(schedule)}
+                    >
+                      {runningId === schedule.id
+                        ? <RefreshCw className="h-4 w-4 animate-spin" />
+                        : <Eye className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Send now"
+                      disabled={runningId === schedule.id}
+                      onClick={() => handleSendNow(schedule.id)}
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
                     <Switch
                       checked={schedule.is_enabled}
                       onCheckedChange={() => handleToggleEnabled(schedule.id, schedule.is_enabled)}
@@ -430,6 +548,77 @@ const ScheduledReportsSettings = () => {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label>Report Period</Label>
+              <Select
+                value={formData.date_range}
+                onValueChange={(v) => setFormData({ ...formData, date_range: v })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dateRangeOptions.map((range) => (
+                    <SelectItem key={range.value} value={range.value}>
+                      {range.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Team</Label>
+                <Select
+                  value={formData.team_id}
+                  onValueChange={(v) => setFormData({ ...formData, team_id: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_OWNERS}>All teams</SelectItem>
+                    {teams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Owner</Label>
+                <Select
+                  value={formData.owner_id}
+                  onValueChange={(v) => setFormData({ ...formData, owner_id: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_OWNERS}>All owners</SelectItem>
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.full_name || 'Unknown User'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="region">Region (deals)</Label>
+              <Input
+                id="region"
+                value={formData.region}
+                onChange={(e) => setFormData({ ...formData, region: e.target.value })}
+                placeholder="All regions"
+              />
+            </div>
+
             <div className="flex items-center gap-2">
               <Switch
                 checked={formData.is_enabled}
@@ -447,6 +636,42 @@ const ScheduledReportsSettings = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Preview Modal */}
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{preview?.subject}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              To: {preview?.recipients.join(', ') || 'No recipients'} · {preview?.rowCount} row(s) in {preview?.filename}
+            </p>
+            <iframe
+              title="Report preview"
+              srcDoc={preview?.html}
+              sandbox=""
+              className="w-full h-[60vh] border rounded-md bg-white"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => preview && downloadCSV(preview.csv, preview.filename)}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download CSV
+            </Button>
+            <Button
+              onClick={() => preview && handleSendNow(preview.scheduleId)}
+              disabled={!!runningId}
+            >
+              {runningId ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Send Now
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
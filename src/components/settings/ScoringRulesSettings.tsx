@@ -0,0 +1,447 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import {
+  ScoreEntityType,
+  ScoringMetric,
+  ScoringOperator,
+  ScoringRule,
+  ScoringRuleInput,
+  ScoringRuleType,
+  useScoringRules,
+} from '@/hooks/useRecordScores';
+import { Loader2, Plus, Trash2, RefreshCw, AlertCircle } from 'lucide-react';
+
+const ENTITY_TYPES: { value: ScoreEntityType; label: string }[] = [
+  { value: 'lead', label: 'Leads' },
+  { value: 'contact', label: 'Contacts' },
+  { value: 'account', label: 'Accounts' },
+];
+
+const RULE_TYPES: { value: ScoringRuleType; label: string; hint: string }[] = [
+  { value: 'field', label: 'Field match', hint: 'Points when a field matches a value' },
+  { value: 'engagement', label: 'Engagement', hint: 'Points for each unit of engagement, up to a cap' },
+  { value: 'recency', label: 'Recent activity', hint: 'Points when the last engagement is recent' },
+  { value: 'decay', label: 'Time decay', hint: 'Points (usually negative) for each period without engagement' },
+];
+
+const OPERATORS: { value: ScoringOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'is_set', label: 'is set' },
+  { value: 'is_empty', label: 'is empty' },
+];
+
+const METRICS: { value: ScoringMetric; label: string; entities: ScoreEntityType[] }[] = [
+  { value: 'email_opens', label: 'Email opens', entities: ['lead', 'contact', 'account'] },
+  { value: 'email_clicks', label: 'Email clicks', entities: ['lead', 'contact', 'account'] },
+  { value: 'email_replies', label: 'Email replies', entities: ['lead', 'contact', 'account'] },
+  { value: 'meetings_held', label: 'Meetings held', entities: ['lead', 'contact', 'account'] },
+  { value: 'activities', label: 'Logged activities', entities: ['contact', 'account'] },
+  { value: 'contacts', label: 'Contacts at the account', entities: ['account'] },
+];
+
+const BUILT_IN_FIELDS: Record<ScoreEntityType, { value: string; label: string }[]> = {
+  lead: [
+    { value: 'industry', label: 'Industry' },
+    { value: 'country', label: 'Country' },
+    { value: 'position', label: 'Position' },
+    { value: 'contact_source', label: 'Source' },
+    { value: 'lead_status', label: 'Lead Status' },
+    { value: 'company_name', label: 'Company' },
+    { value: 'email', label: 'Email' },
+    { value: 'phone_no', label: 'Phone' },
+  ],
+  contact: [
+    { value: 'industry', label: 'Industry' },
+    { value: 'region', label: 'Region' },
+    { value: 'position', label: 'Position' },
+    { value: 'contact_source', label: 'Source' },
+    { value: 'segment', label: 'Segment' },
+    { value: 'email', label: 'Email' },
+    { value: 'phone_no', label: 'Phone' },
+  ],
+  account: [
+    { value: 'industry', label: 'Industry' },
+    { value: 'region', label: 'Region' },
+    { value: 'country', label: 'Country' },
+    { value: 'company_type', label: 'Company Type' },
+    { value: 'status', label: 'Status' },
+    { value: 'website', label: 'Website' },
+    { value: 'phone', label: 'Phone' },
+  ],
+};
+
+const needsValue = (operator: ScoringOperator | null) => operator !== 'is_set' && operator !== 'is_empty';
+
+const emptyRule = (entityType: ScoreEntityType): ScoringRuleInput => ({
+  entity_type: entityType,
+  name: '',
+  rule_type: 'field',
+  field: null,
+  operator: 'equals',
+  value: '',
+  metric: null,
+  points: 10,
+  max_points: null,
+  period_days: null,
+  is_active: true,
+});
+
+const ScoringRulesSettings = () => {
+  const [entityType, setEntityType] = useState<ScoreEntityType>('lead');
+  const { rules, loading, saveRule, deleteRule, recalculate, saving } = useScoringRules(entityType);
+  const [form, setForm] = useState<ScoringRuleInput | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<ScoringRule | null>(null);
+
+  const { allFields: customFields } = useCustomFields(entityType);
+
+  const fieldOptions = [
+    ...BUILT_IN_FIELDS[entityType],
+    ...customFields.map(f => ({ value: `custom_fields.${f.field_name}`, label: f.field_label })),
+  ];
+  const metricOptions = METRICS.filter(m => m.entities.includes(entityType));
+
+  const fieldLabel = (field: string | null) => fieldOptions.find(f => f.value === field)?.label || field;
+
+  const describeRule = (rule: ScoringRule) => {
+    const points = rule.points > 0 ? `+${rule.points}` : `${rule.points}`;
+    const cap = rule.max_points != null ? ` (max ${rule.max_points})` : '';
+    switch (rule.rule_type) {
+      case 'field': {
+        const operator = OPERATORS.find(o => o.value === rule.operator)?.label;
+        const value = needsValue(rule.operator) ? ` "${rule.value}"` : '';
+        return `${points} when ${fieldLabel(rule.field)} ${operator}${value}`;
+      }
+      case 'engagement':
+        return `${points} per ${METRICS.find(m => m.value === rule.metric)?.label.toLowerCase()}${cap}`;
+      case 'recency':
+        return `${points} when engaged in the last ${rule.period_days} days`;
+      case 'decay':
+        return `${points} per ${rule.period_days} days without engagement${cap}`;
+    }
+  };
+
+  const openCreate = () => {
+    setForm(emptyRule(entityType));
+    setValidationError(null);
+  };
+
+  const openEdit = (rule: ScoringRule) => {
+    const { created_at: _createdAt, ...values } = rule;
+    setForm(values);
+    setValidationError(null);
+  };
+
+  const updateForm = (patch: Partial<ScoringRuleInput>) => setForm(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const validateForm = (rule: ScoringRuleInput): string | null => {
+    if (!rule.name.trim()) return 'Name is required';
+    if (!Number.isInteger(rule.points) || rule.points === 0) return 'Points must be a whole number other than 0';
+    if (rule.rule_type === 'field') {
+      if (!rule.field) return 'Choose a field';
+      if (!rule.operator) return 'Choose a condition';
+      if (needsValue(rule.operator) && !rule.value?.trim()) return 'Enter a value to compare against';
+    }
+    if (rule.rule_type === 'engagement' && !rule.metric) return 'Choose an engagement metric';
+    if ((rule.rule_type === 'recency' || rule.rule_type === 'decay') && !(rule.period_days && rule.period_days >= 1)) {
+      return 'Period must be at least 1 day';
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const error = validateForm(form);
+    if (error) {
+      setValidationError(error);
+      return;
+    }
+
+    // Only keep the columns the rule type reads so the shape check stays satisfied
+    const type = form.rule_type;
+    const rule: ScoringRuleInput = {
+      ...form,
+      name: form.name.trim(),
+      field: type === 'field' ? form.field : null,
+      operator: type === 'field' ? form.operator : null,
+      value: type === 'field' && needsValue(form.operator) ? form.value?.trim() || null : null,
+      metric: type === 'engagement' ? form.metric : null,
+      max_points: type === 'engagement' || type === 'decay' ? form.max_points : null,
+      period_days: type === 'recency' || type === 'decay' ? form.period_days : null,
+    };
+
+    try {
+      await saveRule(rule);
+      setForm(null);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  const toggleActive = async (rule: ScoringRule, isActive: boolean) => {
+    const { created_at: _createdAt, ...values } = rule;
+    try {
+      await saveRule({ ...values, is_active: isActive });
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!ruleToDelete) return;
+    try {
+      await deleteRule(ruleToDelete.id);
+      setRuleToDelete(null);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  const parseNumber = (value: string) => (value === '' ? null : Number(value));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Tabs value={entityType} onValueChange={(v) => setEntityType(v as ScoreEntityType)}>
+          <TabsList>
+            {ENTITY_TYPES.map(entity => (
+              <TabsTrigger key={entity.value} value={entity.value}>{entity.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => recalculate().catch(() => undefined)} disabled={saving}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${saving ? 'animate-spin' : ''}`} />
+            Recalculate
+          </Button>
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Scores add up the points of every matching rule and are kept between 0 and 100. Records are rescored when they or their
+        emails, meetings and activities change; saving a rule rescores every {entityType}.
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No scoring rules yet. Every {entityType} scores 0 until you add one.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50">
+              <div className="flex items-center gap-3 min-w-0">
+                <Switch
+                  checked={rule.is_active}
+                  disabled={saving}
+                  onCheckedChange={(checked) => toggleActive(rule, checked)}
+                  aria-label={`Toggle ${rule.name}`}
+                />
+                <span className={`font-medium truncate ${rule.is_active ? '' : 'text-muted-foreground'}`}>{rule.name}</span>
+                <Badge variant="outline">{RULE_TYPES.find(t => t.value === rule.rule_type)?.label}</Badge>
+                <span className="text-sm text-muted-foreground truncate">{describeRule(rule)}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" onClick={() => openEdit(rule)} aria-label={`Edit ${rule.name}`}>
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => setRuleToDelete(rule)}
+                  aria-label={`Delete ${rule.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit Scoring Rule' : 'Add Scoring Rule'}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder="e.g. Target industry"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Rule Type</Label>
+                <Select value={form.rule_type} onValueChange={(v) => updateForm({ rule_type: v as ScoringRuleType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RULE_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{RULE_TYPES.find(t => t.value === form.rule_type)?.hint}</p>
+              </div>
+
+              {form.rule_type === 'field' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Field</Label>
+                    <Select value={form.field ?? ''} onValueChange={(v) => updateForm({ field: v })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a field" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fieldOptions.map(field => (
+                          <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Condition</Label>
+                    <Select value={form.operator ?? ''} onValueChange={(v) => updateForm({ operator: v as ScoringOperator })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {OPERATORS.map(operator => (
+                          <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {needsValue(form.operator) && (
+                    <div className="space-y-2 col-span-2">
+                      <Label>Value</Label>
+                      <Input
+                        value={form.value ?? ''}
+                        onChange={(e) => updateForm({ value: e.target.value })}
+                        placeholder="e.g. Automotive, Manufacturing"
+                      />
+                      <p className="text-xs text-muted-foreground">Separate values with commas to match any of them. Case is ignored.</p>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {form.rule_type === 'engagement' && (
+                <div className="space-y-2">
+                  <Label>Metric</Label>
+                  <Select value={form.metric ?? ''} onValueChange={(v) => updateForm({ metric: v as ScoringMetric })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a metric" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {metricOptions.map(metric => (
+                        <SelectItem key={metric.value} value={metric.value}>{metric.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>{form.rule_type === 'engagement' ? 'Points per unit' : form.rule_type === 'decay' ? 'Points per period' : 'Points'}</Label>
+                  <Input
+                    type="number"
+                    value={form.points}
+                    onChange={(e) => updateForm({ points: Number(e.target.value) })}
+                  />
+                </div>
+                {(form.rule_type === 'recency' || form.rule_type === 'decay') && (
+                  <div className="space-y-2">
+                    <Label>Period (days)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={form.period_days ?? ''}
+                      onChange={(e) => updateForm({ period_days: parseNumber(e.target.value) })}
+                    />
+                  </div>
+                )}
+                {(form.rule_type === 'engagement' || form.rule_type === 'decay') && (
+                  <div className="space-y-2">
+                    <Label>Maximum points</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={form.max_points ?? ''}
+                      onChange={(e) => updateForm({ max_points: parseNumber(e.target.value) })}
+                      placeholder="No limit"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label>Active</Label>
+                <Switch checked={form.is_active} onCheckedChange={(checked) => updateForm({ is_active: checked })} />
+              </div>
+
+              {validationError && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  {validationError}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!ruleToDelete}
+        onOpenChange={(open) => !open && setRuleToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Scoring Rule"
+        description={`Delete "${ruleToDelete?.name}"? Scores will be recalculated without it.`}
+      />
+    </div>
+  );
+};
+
+export default ScoringRulesSettings;
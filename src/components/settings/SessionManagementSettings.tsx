@@ -1,10 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
-import { toast } from 'sonner';
+import { UserSession, useUserSessions } from '@/hooks/useUserSessions';
 import { Monitor, Smartphone, Tablet, Clock, MapPin, Loader2, LogOut, RefreshCw } from 'lucide-react';
 import { format } from 'date-fns';
 import {
@@ -18,93 +16,29 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 
-interface Session {
-  id: string;
-  ip_address: string | null;
-  user_agent: string | null;
-  device_info: {
-    browser?: string;
-    os?: string;
-    device?: string;
-  } | null;
-  last_active_at: string;
-  created_at: string;
-  is_active: boolean;
-}
+type Session = UserSession;
 
 const SessionManagementSettings = () => {
-  const { user, signOut } = useAuth();
-  const [loading, setLoading] = useState(true);
-  const [sessions, setSessions] = useState<Session[]>([]);
+  const { sessions, loading, refetch, revokeSession, revokeOtherSessions } = useUserSessions();
   const [terminatingSession, setTerminatingSession] = useState<string | null>(null);
   const [showTerminateAllDialog, setShowTerminateAllDialog] = useState(false);
 
-  useEffect(() => {
-    fetchSessions();
-  }, [user]);
-
-  const fetchSessions = async () => {
-    if (!user) return;
-    setLoading(true);
-
-    try {
-      const { data, error } = await supabase
-        .from('user_sessions')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('is_active', true)
-        .order('last_active_at', { ascending: false });
-
-      if (error) throw error;
-
-      setSessions((data || []).map(s => ({
-        ...s,
-        ip_address: s.ip_address as string | null,
-        device_info: s.device_info as Session['device_info']
-      })));
-    } catch (error) {
-      console.error('Error fetching sessions:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
+  // Revoked through user-admin, which deletes the auth session so the device is really signed out
   const terminateSession = async (sessionId: string) => {
     try {
-      const { error } = await supabase
-        .from('user_sessions')
-        .update({ is_active: false })
-        .eq('id', sessionId);
-
-      if (error) throw error;
-
-      toast.success('Session terminated');
-      fetchSessions();
-    } catch (error) {
-      console.error('Error terminating session:', error);
-      toast.error('Failed to terminate session');
+      await revokeSession(sessionId);
+    } catch {
+      // Error toast comes from the hook
     } finally {
       setTerminatingSession(null);
     }
   };
 
   const terminateAllOtherSessions = async () => {
-    if (!user) return;
-
     try {
-      const { error } = await supabase
-        .from('user_sessions')
-        .update({ is_active: false })
-        .eq('user_id', user.id)
-        .neq('id', sessions[0]?.id || '');
-
-      if (error) throw error;
-
-      toast.success('All other sessions terminated');
-      fetchSessions();
-    } catch (error) {
-      console.error('Error terminating sessions:', error);
-      toast.error('Failed to terminate sessions');
+      await revokeOtherSessions();
+    } catch {
+      // Error toast comes from the hook
     } finally {
       setShowTerminateAllDialog(false);
     }
@@ -176,11 +110,11 @@ const SessionManagementSettings = () => {
               </CardDescription>
             </div>
             <div className="flex gap-2">
-              <Button variant="outline" size="sm" onClick={fetchSessions}>
+              <Button variant="outline" size="sm" onClick={() => refetch()}>
                 <RefreshCw className="h-4 w-4 mr-2" />
                 Refresh
               </Button>
-              {sessions.length > 1 && (
+              {sessions.some(session => !session.is_current) && (
                 <Button
                   variant="destructive"
                   size="sm"
@@ -200,9 +134,9 @@ const SessionManagementSettings = () => {
             </p>
           ) : (
             <div className="space-y-4">
-              {sessions.map((session, index) => {
+              {sessions.map((session) => {
                 const { browser, os } = parseUserAgent(session.user_agent);
-                const isCurrentSession = index === 0;
+                const isCurrentSession = session.is_current;
 
                 return (
                   <div
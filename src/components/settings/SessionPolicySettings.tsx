@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SessionPolicy, SessionRole, useSessionPolicies } from '@/hooks/useSessionPolicies';
+import { Loader2, AlertCircle } from 'lucide-react';
+
+const ROLES: { role: SessionRole; label: string }[] = [
+  { role: 'admin', label: 'Admin' },
+  { role: 'manager', label: 'Manager' },
+  { role: 'user', label: 'User' },
+];
+
+// Matches the CHECK constraints on session_policies
+const MIN_IDLE_MINUTES = 5;
+
+type Draft = Record<SessionRole, { idle: string; max: string; mfa: boolean }>;
+
+const toDraft = (policies: SessionPolicy[]): Draft =>
+  Object.fromEntries(
+    ROLES.map(({ role }) => {
+      const policy = policies.find(p => p.role === role);
+      return [
+        role,
+        {
+          idle: policy?.idle_timeout_minutes?.toString() ?? '',
+          max: policy?.max_concurrent_sessions?.toString() ?? '',
+          mfa: !!policy?.require_mfa,
+        },
+      ];
+    })
+  ) as Draft;
+
+const SessionPolicySettings = () => {
+  const { policies, loading, savePolicy, saving } = useSessionPolicies();
+  const [draft, setDraft] = useState<Draft>(() => toDraft([]));
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(toDraft(policies));
+  }, [policies]);
+
+  const updateDraft = (role: SessionRole, patch: Partial<Draft[SessionRole]>) =>
+    setDraft(prev => ({ ...prev, [role]: { ...prev[role], ...patch } }));
+
+  const isDirty = (role: SessionRole) => {
+    const saved = toDraft(policies)[role];
+    return saved.idle !== draft[role].idle || saved.max !== draft[role].max || saved.mfa !== draft[role].mfa;
+  };
+
+  const handleSave = async (role: SessionRole) => {
+    const idle = draft[role].idle.trim() ? Number(draft[role].idle) : null;
+    const max = draft[role].max.trim() ? Number(draft[role].max) : null;
+
+    if (idle !== null && (!Number.isInteger(idle) || idle < MIN_IDLE_MINUTES)) {
+      setValidationError(`Idle timeout must be a whole number of at least ${MIN_IDLE_MINUTES} minutes`);
+      return;
+    }
+    if (max !== null && (!Number.isInteger(max) || max < 1)) {
+      setValidationError('Maximum sessions must be a whole number of at least 1');
+      return;
+    }
+    setValidationError(null);
+
+    try {
+      await savePolicy({ role, idle_timeout_minutes: idle, max_concurrent_sessions: max, require_mfa: draft[role].mfa });
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        Sessions idle for longer than the timeout are signed out within a minute. When someone signs in beyond the
+        maximum, their least recently used session is signed out. Leave a field empty for no limit. Users of a role
+        that requires 2FA must set up an authenticator app before they can continue.
+      </p>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Role</TableHead>
+            <TableHead>Idle timeout (minutes)</TableHead>
+            <TableHead>Maximum concurrent sessions</TableHead>
+            <TableHead>Require 2FA</TableHead>
+            <TableHead className="w-24" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {ROLES.map(({ role, label }) => (
+            <TableRow key={role}>
+              <TableCell className="font-medium">{label}</TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  min={MIN_IDLE_MINUTES}
+                  value={draft[role].idle}
+                  onChange={(e) => updateDraft(role, { idle: e.target.value })}
+                  placeholder="No timeout"
+                  className="h-8 w-36"
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft[role].max}
+                  onChange={(e) => updateDraft(role, { max: e.target.value })}
+                  placeholder="Unlimited"
+                  className="h-8 w-36"
+                />
+              </TableCell>
+              <TableCell>
+                <Switch checked={draft[role].mfa} onCheckedChange={(checked) => updateDraft(role, { mfa: checked })} />
+              </TableCell>
+              <TableCell>
+                <Button size="sm" onClick={() => handleSave(role)} disabled={saving || !isDirty(role)}>
+                  Save
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {validationError && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {validationError}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionPolicySettings;
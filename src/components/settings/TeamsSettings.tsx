@@ -0,0 +1,306 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+import { createNameMap, useProfiles } from '@/hooks/useProfiles';
+import { Team, TeamInput, useTeams } from '@/hooks/useTeams';
+import { Loader2, Plus, Trash2, AlertCircle, CornerDownRight } from 'lucide-react';
+
+const NONE = 'none';
+
+const emptyForm = (): TeamInput => ({
+  name: '',
+  description: null,
+  manager_id: null,
+  parent_team_id: null,
+  member_ids: [],
+});
+
+// Teams ordered so every sub-team follows its parent, with its depth for indenting
+const flattenHierarchy = (teams: Team[]) => {
+  const result: { team: Team; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    teams
+      .filter(team => team.parent_team_id === parentId)
+      .forEach(team => {
+        result.push({ team, depth });
+        visit(team.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  // Never hide a team, even if its parent is missing from the list
+  teams.filter(team => !result.some(r => r.team.id === team.id)).forEach(team => result.push({ team, depth: 0 }));
+  return result;
+};
+
+// The team itself and everything below it, which cannot become its parent
+const descendantIds = (teams: Team[], teamId: string): string[] => {
+  const children = teams.filter(team => team.parent_team_id === teamId);
+  return [teamId, ...children.flatMap(child => descendantIds(teams, child.id))];
+};
+
+const TeamsSettings = () => {
+  const { teams, loading, saveTeam, deleteTeam, saving } = useTeams();
+  const { data: profiles = [] } = useProfiles();
+  const names = createNameMap(profiles);
+  const [form, setForm] = useState<TeamInput | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [teamToDelete, setTeamToDelete] = useState<Team | null>(null);
+
+  const teamOfUser = (userId: string) => teams.find(team => team.member_ids.includes(userId));
+
+  const openCreate = () => {
+    setForm(emptyForm());
+    setValidationError(null);
+  };
+
+  const openEdit = (team: Team) => {
+    setForm({ ...team });
+    setValidationError(null);
+  };
+
+  const updateForm = (patch: Partial<TeamInput>) => setForm(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const toggleMember = (userId: string, checked: boolean) => {
+    if (!form) return;
+    updateForm({
+      member_ids: checked ? [...form.member_ids, userId] : form.member_ids.filter(id => id !== userId),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      setValidationError('Name is required');
+      return;
+    }
+    if (!form.manager_id) {
+      setValidationError('Choose a manager');
+      return;
+    }
+
+    try {
+      await saveTeam({
+        ...form,
+        name: form.name.trim(),
+        description: form.description?.trim() || null,
+        // The manager leads the team rather than being one of its members
+        member_ids: form.member_ids.filter(id => id !== form.manager_id),
+      });
+      setForm(null);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!teamToDelete) return;
+    try {
+      await deleteTeam(teamToDelete.id);
+      setTeamToDelete(null);
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
+  const parentOptions = form?.id
+    ? teams.filter(team => !descendantIds(teams, form.id!).includes(team.id))
+    : teams;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-xs text-muted-foreground">
+          A manager can update the records of their team members and of every team below theirs, and can switch dashboards and
+          analytics between their own numbers, one report or the whole team. Managers who lead no team keep access to all records.
+        </p>
+        <Button onClick={openCreate} className="shrink-0">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Team
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : teams.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No teams yet. Managers have access to every record until they lead a team.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {flattenHierarchy(teams).map(({ team, depth }) => (
+            <div
+              key={team.id}
+              className="flex items-center justify-between gap-3 p-3 border rounded-lg hover:bg-muted/50"
+              style={{ marginLeft: depth * 24 }}
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                {depth > 0 && <CornerDownRight className="h-4 w-4 text-muted-foreground shrink-0" />}
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{team.name}</span>
+                    <Badge variant="outline">{team.member_ids.length} {team.member_ids.length === 1 ? 'member' : 'members'}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">
+                    Manager: {team.manager_id ? names[team.manager_id] || 'Unknown User' : 'None'}
+                    {team.member_ids.length > 0 && ` · ${team.member_ids.map(id => names[id] || 'Unknown User').join(', ')}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" onClick={() => openEdit(team)} aria-label={`Edit ${team.name}`}>
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => setTeamToDelete(team)}
+                  aria-label={`Delete ${team.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit Team' : 'Add Team'}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder="e.g. DACH Sales"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Description</Label>
+                <Textarea
+                  value={form.description || ''}
+                  onChange={(e) => updateForm({ description: e.target.value })}
+                  rows={2}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Manager</Label>
+                  <Select value={form.manager_id || NONE} onValueChange={(v) => updateForm({ manager_id: v === NONE ? null : v })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Choose a manager</SelectItem>
+                      {profiles.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>{names[profile.id]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Reports to</Label>
+                  <Select
+                    value={form.parent_team_id || NONE}
+                    onValueChange={(v) => updateForm({ parent_team_id: v === NONE ? null : v })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>No parent team</SelectItem>
+                      {parentOptions.map(team => (
+                        <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The manager of a parent team also manages everyone in this team.
+              </p>
+
+              <div className="space-y-2">
+                <Label>Members ({form.member_ids.length})</Label>
+                <ScrollArea className="h-48 rounded-md border p-2">
+                  <div className="space-y-1">
+                    {profiles
+                      .filter(profile => profile.id !== form.manager_id)
+                      .map(profile => {
+                        const currentTeam = teamOfUser(profile.id);
+                        const inOtherTeam = currentTeam && currentTeam.id !== form.id;
+                        return (
+                          <label key={profile.id} className="flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-muted cursor-pointer">
+                            <Checkbox
+                              checked={form.member_ids.includes(profile.id)}
+                              onCheckedChange={(checked) => toggleMember(profile.id, checked === true)}
+                            />
+                            {names[profile.id]}
+                            {inOtherTeam && (
+                              <span className="text-xs text-muted-foreground">
+                                (in {currentTeam.name}{form.member_ids.includes(profile.id) ? ', will move' : ''})
+                              </span>
+                            )}
+                          </label>
+                        );
+                      })}
+                  </div>
+                </ScrollArea>
+              </div>
+
+              {validationError && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  {validationError}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!teamToDelete}
+        onOpenChange={(open) => !open && setTeamToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Team"
+        description={`Delete "${teamToDelete?.name}"? Its members leave the team and its sub-teams move to the top level.`}
+      />
+    </div>
+  );
+};
+
+export default TeamsSettings;
@@ -5,6 +5,7 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Bell, Clock, Building2, Users, UserCheck, Mail, Smartphone } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
 import { toast } from 'sonner';
 
 interface NotificationPrefs {
@@ -68,6 +69,27 @@ const NotificationsSection = ({ notificationPrefs, setNotificationPrefs, userId
     setNotificationPrefs(p => ({ ...p, [key]: !p[key] }));
   };
 
+  const push = usePushNotifications();
+
+  // Push needs this browser's permission and subscription before the preference means anything
+  const togglePush = async () => {
+    if (notificationPrefs.push_notifications) {
+      setNotificationPrefs(p => ({ ...p, push_notifications: false }));
+      try {
+        await push.disable();
+      } catch {
+        // Error toast comes from the hook
+      }
+      return;
+    }
+    try {
+      await push.enable();
+      setNotificationPrefs(p => ({ ...p, push_notifications: true }));
+    } catch {
+      // Error toast comes from the hook
+    }
+  };
+
   const deliveryMethods = [
     { key: 'email_notifications' as const, label: 'Email', icon: Mail },
     { key: 'in_app_notifications' as const, label: 'In-App', icon: Bell },
@@ -98,10 +120,17 @@ const NotificationsSection = ({ notificationPrefs, setNotificationPrefs, userId
       </CardHeader>
       <CardContent className="space-y-5">
         {/* Frequency */}
-        <div className="flex items-center justify-between p-3 rounded-lg bg-muted/40">
-          <div className="flex items-center gap-2">
-            <Clock className="h-4 w-4 text-muted-foreground" />
-            <span className="text-sm">Delivery Frequency</span>
+        <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/40">
+          <div className="flex items-start gap-2">
+            <Clock className="h-4 w-4 mt-0.5 text-muted-foreground" />
+            <div>
+              <span className="text-sm">Delivery Frequency</span>
+              {notificationPrefs.notification_frequency !== 'instant' && (
+                <p className="text-xs text-muted-foreground">
+                  Emails are collected into one digest instead of being sent one by one
+                </p>
+              )}
+            </div>
           </div>
           <Select 
             value={notificationPrefs.notification_frequency} 
@@ -112,6 +141,7 @@ const NotificationsSection = ({ notificationPrefs, setNotificationPrefs, userId
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="instant">Instant</SelectItem>
+              <SelectItem value="hourly">Hourly Digest</SelectItem>
               <SelectItem value="daily">Daily Digest</SelectItem>
               <SelectItem value="weekly">Weekly</SelectItem>
             </SelectContent>
@@ -128,10 +158,28 @@ const NotificationsSection = ({ notificationPrefs, setNotificationPrefs, userId
                   <Icon className="h-4 w-4 text-muted-foreground" />
                   <span className="text-sm">{label}</span>
                 </div>
-                <Switch checked={notificationPrefs[key]} onCheckedChange={() => togglePref(key)} />
+                {key === 'push_notifications' ? (
+                  <Switch
+                    checked={notificationPrefs.push_notifications}
+                    onCheckedChange={togglePush}
+                    disabled={!push.supported || push.pending}
+                  />
+                ) : (
+                  <Switch checked={notificationPrefs[key]} onCheckedChange={() => togglePref(key)} />
+                )}
               </div>
             ))}
           </div>
+          {!push.supported ? (
+            <p className="text-xs text-muted-foreground">This browser does not support push notifications.</p>
+          ) : notificationPrefs.push_notifications && !push.loading && !push.subscribed && (
+            <p className="text-xs text-muted-foreground">
+              Push is on for your other devices but not this browser.{' '}
+              <button type="button" className="underline" onClick={() => push.enable().catch(() => undefined)} disabled={push.pending}>
+                Enable here
+              </button>
+            </p>
+          )}
         </div>
 
         {/* Module Notifications */}
@@ -1,92 +1,65 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { format } from 'date-fns';
-import { Key, Loader2, Monitor, Smartphone, Clock, LogOut, RefreshCw } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
-import { toast } from 'sonner';
+import { Key, Loader2, Monitor, Smartphone, Clock, LogOut, RefreshCw, ShieldCheck } from 'lucide-react';
+import { useUserSessions } from '@/hooks/useUserSessions';
+import { useMfa } from '@/hooks/useMfa';
 import PasswordChangeModal from '../PasswordChangeModal';
-
-interface Session {
-  id: string;
-  session_token: string;
-  user_agent: string | null;
-  device_info: { browser?: string; os?: string } | null;
-  last_active_at: string;
-  is_current?: boolean;
-}
+import TotpEnrollment from '@/components/mfa/TotpEnrollment';
+import RecoveryCodesList from '@/components/mfa/RecoveryCodesList';
 
 interface SecuritySectionProps {
   userId: string;
 }
 
 const SecuritySection = ({ userId }: SecuritySectionProps) => {
-  const [sessions, setSessions] = useState<Session[]>([]);
-  const [loading, setLoading] = useState(true);
   const [showPasswordModal, setShowPasswordModal] = useState(false);
-  const [currentToken, setCurrentToken] = useState<string>('');
+  const [showEnrollment, setShowEnrollment] = useState(false);
+  const [showDisableConfirm, setShowDisableConfirm] = useState(false);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+  const { sessions, loading, refetch, revokeSession, revokeOtherSessions, revoking } = useUserSessions(userId);
+  const { status: mfa, loading: mfaLoading, refresh: refreshMfa, regenerateRecoveryCodes, disable: disableMfa, saving: mfaSaving } = useMfa();
+
+  // Closing the dialog early still picks up an enrollment that was confirmed
+  const closeEnrollment = () => {
+    setShowEnrollment(false);
+    refreshMfa();
+  };
 
-  const fetchSessions = async () => {
-    if (!userId) return;
-    setLoading(true);
+  const handleRegenerateCodes = async () => {
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      const token = session?.access_token?.substring(0, 20) || '';
-      setCurrentToken(token);
-
-      const { data, error } = await supabase
-        .from('user_sessions')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('is_active', true)
-        .order('last_active_at', { ascending: false });
-
-      if (error) throw error;
-
-      setSessions((data || []).map(s => ({
-        id: s.id,
-        session_token: s.session_token,
-        user_agent: s.user_agent,
-        device_info: s.device_info as { browser?: string; os?: string } | null,
-        last_active_at: s.last_active_at,
-        is_current: s.session_token === token
-      })));
-    } catch (error) {
-      console.error('Error fetching sessions:', error);
-    } finally {
-      setLoading(false);
+      setNewRecoveryCodes(await regenerateRecoveryCodes());
+    } catch {
+      // Error toast comes from the hook
     }
   };
 
-  useEffect(() => {
-    fetchSessions();
-  }, [userId]);
+  const handleDisableMfa = async () => {
+    try {
+      await disableMfa();
+    } catch {
+      // Error toast comes from the hook
+    }
+    setShowDisableConfirm(false);
+  };
 
   const terminateSession = async (sessionId: string) => {
     try {
-      await supabase
-        .from('user_sessions')
-        .update({ is_active: false })
-        .eq('id', sessionId);
-      toast.success('Session terminated');
-      fetchSessions();
-    } catch (error) {
-      toast.error('Failed to terminate session');
+      await revokeSession(sessionId);
+    } catch {
+      // Error toast comes from the hook
     }
   };
 
   const terminateAllOthers = async () => {
     try {
-      await supabase
-        .from('user_sessions')
-        .update({ is_active: false })
-        .eq('user_id', userId)
-        .neq('session_token', currentToken);
-      toast.success('All other sessions terminated');
-      fetchSessions();
-    } catch (error) {
-      toast.error('Failed to terminate sessions');
+      await revokeOtherSessions();
+    } catch {
+      // Error toast comes from the hook
     }
   };
 
@@ -135,6 +108,56 @@ const SecuritySection = ({ userId }: SecuritySectionProps) => {
           </CardContent>
         </Card>
 
+        {/* Two-Factor Authentication */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <ShieldCheck className="h-4 w-4" />
+              Two-Factor Authentication
+              {mfa?.factorId && <Badge variant="secondary" className="text-xs h-5">Enabled</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {mfaLoading ? (
+              <div className="flex justify-center py-2">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : mfa?.factorId ? (
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  Sign-in asks for a code from your authenticator app. {mfa.recoveryCodesLeft} recovery code
+                  {mfa.recoveryCodesLeft !== 1 ? 's' : ''} left.
+                </p>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" size="sm" onClick={handleRegenerateCodes} disabled={mfaSaving}>
+                    New Recovery Codes
+                  </Button>
+                  {!mfa.required && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => setShowDisableConfirm(true)}
+                      disabled={mfaSaving}
+                    >
+                      Disable
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  Protect your account with a code from an authenticator app in addition to your password
+                </p>
+                <Button variant="outline" size="sm" onClick={() => setShowEnrollment(true)}>
+                  Enable
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Active Sessions */}
         <Card>
           <CardHeader className="pb-3">
@@ -146,11 +169,11 @@ const SecuritySection = ({ userId }: SecuritySectionProps) => {
                 </p>
               </div>
               <div className="flex gap-2">
-                <Button variant="ghost" size="icon" onClick={fetchSessions} disabled={loading} className="h-8 w-8">
+                <Button variant="ghost" size="icon" onClick={() => refetch()} disabled={loading} className="h-8 w-8">
                   <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
                 </Button>
                 {otherSessionsCount > 0 && (
-                  <Button variant="outline" size="sm" onClick={terminateAllOthers} className="h-8 text-xs">
+                  <Button variant="outline" size="sm" onClick={terminateAllOthers} disabled={revoking} className="h-8 text-xs">
                     <LogOut className="h-3.5 w-3.5 mr-1" />
                     Sign Out Others
                   </Button>
@@ -196,6 +219,7 @@ const SecuritySection = ({ userId }: SecuritySectionProps) => {
                           size="icon"
                           className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
                           onClick={() => terminateSession(session.id)}
+                          disabled={revoking}
                         >
                           <LogOut className="h-4 w-4" />
                         </Button>
@@ -210,6 +234,43 @@ const SecuritySection = ({ userId }: SecuritySectionProps) => {
       </div>
 
       <PasswordChangeModal open={showPasswordModal} onOpenChange={setShowPasswordModal} />
+
+      <Dialog open={showEnrollment} onOpenChange={(open) => !open && closeEnrollment()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set up two-factor authentication</DialogTitle>
+            <DialogDescription>Link an authenticator app to your account.</DialogDescription>
+          </DialogHeader>
+          {showEnrollment && <TotpEnrollment onDone={closeEnrollment} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!newRecoveryCodes} onOpenChange={(open) => !open && setNewRecoveryCodes(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New recovery codes</DialogTitle>
+            <DialogDescription>Your previous recovery codes no longer work.</DialogDescription>
+          </DialogHeader>
+          {newRecoveryCodes && <RecoveryCodesList codes={newRecoveryCodes} />}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showDisableConfirm} onOpenChange={setShowDisableConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Disable two-factor authentication?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your authenticator and recovery codes will be removed and sign-in will only ask for your password.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={mfaSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDisableMfa} disabled={mfaSaving}>
+              Disable
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </>
   );
 };
@@ -0,0 +1,412 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CalendarClock, CheckCircle, Play, RefreshCw, Save, XCircle } from 'lucide-react';
+
+interface BackupSchedule {
+  id: string;
+  is_enabled: boolean | null;
+  frequency: string;
+  day_of_week: number | null;
+  day_of_month: number | null;
+  time_of_day: string;
+  timezone: string;
+  include_audit_logs: boolean;
+  keep_daily: number;
+  keep_weekly: number;
+  keep_monthly: number;
+  last_run_at: string | null;
+  next_run_at: string | null;
+  last_status: string | null;
+  last_error: string | null;
+}
+
+interface ScheduleRun {
+  id: string;
+  status: string;
+  started_at: string;
+  finished_at: string | null;
+  records_count: number | null;
+  size_bytes: number | null;
+  pruned_count: number;
+  error_message: string | null;
+  triggered_by: string | null;
+}
+
+type ScheduleForm = Pick<
+  BackupSchedule,
+  'frequency' | 'day_of_week' | 'day_of_month' | 'time_of_day' | 'include_audit_logs' | 'keep_daily' | 'keep_weekly' | 'keep_monthly'
+> & { is_enabled: boolean };
+
+interface BackupScheduleSettingsProps {
+  // Called after a run so the backup history picks up the new file
+  onBackupCreated?: () => void;
+}
+
+const DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DEFAULT_FORM: ScheduleForm = {
+  is_enabled: false,
+  frequency: 'daily',
+  day_of_week: 0,
+  day_of_month: 1,
+  time_of_day: '00:00',
+  include_audit_logs: true,
+  keep_daily: 7,
+  keep_weekly: 4,
+  keep_monthly: 6,
+};
+
+const formatBytes = (bytes: number | null) => {
+  if (!bytes) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const formatDuration = (run: ScheduleRun) => {
+  if (!run.finished_at) return '—';
+  const seconds = Math.round((new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export const BackupScheduleSettings = ({ onBackupCreated }: BackupScheduleSettingsProps) => {
+  const { user } = useAuth();
+  const [schedule, setSchedule] = useState<BackupSchedule | null>(null);
+  const [form, setForm] = useState<ScheduleForm>(DEFAULT_FORM);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const fetchSchedule = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('backup_schedules')
+        .select('*')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      setSchedule(data);
+
+      if (data) {
+        setForm({
+          is_enabled: !!data.is_enabled,
+          frequency: data.frequency,
+          day_of_week: data.day_of_week ?? 0,
+          day_of_month: data.day_of_month ?? 1,
+          time_of_day: data.time_of_day.slice(0, 5),
+          include_audit_logs: data.include_audit_logs,
+          keep_daily: data.keep_daily,
+          keep_weekly: data.keep_weekly,
+          keep_monthly: data.keep_monthly,
+        });
+
+        const { data: runData, error: runsError } = await supabase
+          .from('backup_schedule_runs')
+          .select('*')
+          .eq('schedule_id', data.id)
+          .order('started_at', { ascending: false })
+          .limit(10);
+
+        if (runsError) throw runsError;
+        setRuns(runData || []);
+      }
+    } catch (error) {
+      console.error('Error fetching backup schedule:', error);
+      toast.error('Failed to load backup schedule');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  const updateForm = <K extends keyof ScheduleForm>(key: K, value: ScheduleForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    if ([form.keep_daily, form.keep_weekly, form.keep_monthly].some(n => n < 0 || !Number.isInteger(n))) {
+      toast.error('Retention counts must be whole numbers of zero or more');
+      return;
+    }
+    if (form.keep_daily + form.keep_weekly + form.keep_monthly === 0) {
+      toast.error('Keep at least one daily, weekly or monthly backup');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = {
+        ...form,
+        day_of_week: form.frequency === 'weekly' ? form.day_of_week : null,
+        day_of_month: form.frequency === 'monthly' ? form.day_of_month : null,
+      };
+
+      const { error } = schedule
+        ? await supabase.from('backup_schedules').update(payload).eq('id', schedule.id)
+        : await supabase.from('backup_schedules').insert({ ...payload, created_by: user?.id });
+
+      if (error) throw error;
+
+      toast.success('Backup schedule saved');
+      // next_run_at is worked out by the database from the saved settings
+      await fetchSchedule();
+    } catch (error) {
+      console.error('Error saving backup schedule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save backup schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    if (!schedule) return;
+
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('run-backup-schedules', {
+        body: { scheduleId: schedule.id },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      const result = data?.results?.[0];
+      if (result?.status === 'failed') {
+        toast.error(`Backup failed: ${result.error}`);
+      } else {
+        toast.success('Scheduled backup completed');
+      }
+    } catch (error) {
+      console.error('Error running backup schedule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to run backup schedule');
+    } finally {
+      setRunning(false);
+      await fetchSchedule();
+      onBackupCreated?.();
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center h-32">
+          <RefreshCw className="h-6 w-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Scheduled Backups
+            </CardTitle>
+            <CardDescription>
+              Back up automatically and keep a rolling set of daily, weekly and monthly copies
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="scheduled-backup" className="text-sm">Enabled</Label>
+            <Switch
+              id="scheduled-backup"
+              checked={form.is_enabled}
+              onCheckedChange={(checked) => updateForm('is_enabled', checked)}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Frequency</Label>
+            <Select value={form.frequency} onValueChange={(value) => updateForm('frequency', value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="monthly">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {form.frequency === 'weekly' && (
+            <div className="space-y-2">
+              <Label>Day of Week</Label>
+              <Select
+                value={String(form.day_of_week ?? 0)}
+                onValueChange={(value) => updateForm('day_of_week', Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAYS_OF_WEEK.map((day, index) => (
+                    <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {form.frequency === 'monthly' && (
+            <div className="space-y-2">
+              <Label>Day of Month</Label>
+              <Input
+                type="number"
+                min={1}
+                max={31}
+                value={form.day_of_month ?? 1}
+                onChange={(e) => updateForm('day_of_month', Math.min(31, Math.max(1, Number(e.target.value) || 1)))}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Time ({schedule?.timezone || 'Asia/Kolkata'})</Label>
+            <Input
+              type="time"
+              value={form.time_of_day}
+              onChange={(e) => updateForm('time_of_day', e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Retention</Label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {([
+              ['keep_daily', 'Daily backups'],
+              ['keep_weekly', 'Weekly backups'],
+              ['keep_monthly', 'Monthly backups'],
+            ] as const).map(([key, label]) => (
+              <div key={key} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-20"
+                  value={form[key]}
+                  onChange={(e) => updateForm(key, Math.max(0, Number(e.target.value) || 0))}
+                />
+                <span className="text-sm text-muted-foreground">{label}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            After each run, only the newest backup of each of the most recent days, weeks and months is kept.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="include-audit-logs"
+            checked={form.include_audit_logs}
+            onCheckedChange={(checked) => updateForm('include_audit_logs', checked)}
+          />
+          <Label htmlFor="include-audit-logs" className="text-sm">Include audit logs</Label>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 p-3 rounded-lg bg-muted/50 text-sm">
+          <div className="space-y-1">
+            <div>
+              <span className="text-muted-foreground">Next run: </span>
+              <span className="font-medium">
+                {schedule?.is_enabled && schedule.next_run_at
+                  ? format(new Date(schedule.next_run_at), 'dd/MM/yyyy, HH:mm')
+                  : 'Not scheduled'}
+              </span>
+            </div>
+            {schedule?.last_run_at && (
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">Last run:</span>
+                <span>{format(new Date(schedule.last_run_at), 'dd/MM/yyyy, HH:mm')}</span>
+                {schedule.last_status && (
+                  <Badge variant={schedule.last_status === 'success' ? 'secondary' : 'destructive'} className="capitalize">
+                    {schedule.last_status}
+                  </Badge>
+                )}
+              </div>
+            )}
+            {schedule?.last_status === 'failed' && schedule.last_error && (
+              <p className="text-xs text-destructive">{schedule.last_error}</p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleRunNow} disabled={!schedule || running || saving}>
+              {running ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+              Run Now
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={saving || running}>
+              {saving ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+              Save Schedule
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Run History</Label>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No scheduled runs yet</p>
+          ) : (
+            <div className="border rounded-lg divide-y">
+              {runs.map(run => (
+                <div key={run.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 px-3 py-2 text-sm">
+                  {run.status === 'success' ? (
+                    <CheckCircle className="h-4 w-4 text-green-500" />
+                  ) : run.status === 'failed' ? (
+                    <XCircle className="h-4 w-4 text-destructive" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4 animate-spin text-muted-foreground" />
+                  )}
+                  <span className="w-36">{format(new Date(run.started_at), 'dd/MM/yyyy, HH:mm')}</span>
+                  <span className="text-muted-foreground">{run.triggered_by ? 'Manual' : 'Scheduled'}</span>
+                  <span className="text-muted-foreground">{formatDuration(run)}</span>
+                  {run.status === 'success' && (
+                    <>
+                      <span>{run.records_count?.toLocaleString() ?? 0} records</span>
+                      <span>{formatBytes(run.size_bytes)}</span>
+                      {run.pruned_count > 0 && <span className="text-muted-foreground">{run.pruned_count} pruned</span>}
+                    </>
+                  )}
+                  {run.error_message && (
+                    <span className="text-destructive truncate max-w-full" title={run.error_message}>
+                      {run.error_message}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
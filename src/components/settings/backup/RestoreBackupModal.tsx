@@ -0,0 +1,405 @@
+import { useState, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, ChevronDown, ChevronRight, Database, FlaskConical, RefreshCw } from 'lucide-react';
+
+type ConflictPolicy = 'skip' | 'overwrite' | 'merge';
+
+interface TableDiff {
+  table: string;
+  backup_count: number;
+  live_count: number;
+  new_count: number;
+  changed_count: number;
+  unchanged_count: number;
+  live_only_count: number;
+  missing_columns: string[];
+  records: { id: string; status: 'new' | 'changed'; label: string }[];
+  records_truncated: boolean;
+  error?: string;
+}
+
+interface RestorePreview {
+  schema_version: number;
+  current_schema_version: number;
+  tables: TableDiff[];
+}
+
+interface TableResult {
+  table: string;
+  policy: ConflictPolicy;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  errors: string[];
+}
+
+interface RestoreResult {
+  dry_run: boolean;
+  results: TableResult[];
+  message: string;
+}
+
+interface RestoreBackupModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  backup: { id: string; file_name: string } | null;
+}
+
+const POLICY_OPTIONS: { value: ConflictPolicy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip existing', description: 'Only add records missing from live data' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace live records with the backup copy' },
+  { value: 'merge', label: 'Merge', description: 'Keep live values, fill empty fields from the backup' },
+];
+
+// Existing users keep their current profile and role unless the admin opts in
+const getDefaultPolicy = (table: string): ConflictPolicy =>
+  ['profiles', 'user_roles'].includes(table) ? 'skip' : 'overwrite';
+
+const formatTableName = (table: string) =>
+  table.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+export const RestoreBackupModal = ({ open, onOpenChange, backup }: RestoreBackupModalProps) => {
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [selectedTables, setSelectedTables] = useState<Set<string>>(new Set());
+  const [policies, setPolicies] = useState<Record<string, ConflictPolicy>>({});
+  // Tables missing here restore every record; a set restricts the table to those ids
+  const [selectedRecords, setSelectedRecords] = useState<Record<string, Set<string>>>({});
+  const [expandedTable, setExpandedTable] = useState<string | null>(null);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [running, setRunning] = useState<'dry-run' | 'restore' | null>(null);
+  const [confirmText, setConfirmText] = useState('');
+
+  useEffect(() => {
+    if (!open || !backup) return;
+
+    const loadPreview = async () => {
+      setLoadingPreview(true);
+      setPreview(null);
+      setResult(null);
+      setSelectedRecords({});
+      setExpandedTable(null);
+      setConfirmText('');
+      try {
+        const { data, error } = await supabase.functions.invoke('restore-backup', {
+          method: 'POST',
+          body: { backupId: backup.id, mode: 'preview' },
+        });
+
+        if (error) throw error;
+        if (data?.error) throw new Error(data.error);
+
+        const diff = data as RestorePreview;
+        setPreview(diff);
+        setSelectedTables(new Set(diff.tables.filter(t => t.new_count + t.changed_count > 0).map(t => t.table)));
+        setPolicies(Object.fromEntries(diff.tables.map(t => [t.table, getDefaultPolicy(t.table)])));
+      } catch (error) {
+        console.error('Error loading restore preview:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load restore preview');
+      } finally {
+        setLoadingPreview(false);
+      }
+    };
+
+    loadPreview();
+  }, [open, backup]);
+
+  const totals = useMemo(() => {
+    const tables = preview?.tables.filter(t => selectedTables.has(t.table)) || [];
+    return {
+      tables: tables.length,
+      records: tables.reduce((sum, t) => sum + (selectedRecords[t.table]?.size ?? t.new_count + t.changed_count), 0),
+    };
+  }, [preview, selectedTables, selectedRecords]);
+
+  const toggleTable = (table: string, checked: boolean) => {
+    setSelectedTables(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(table);
+      else next.delete(table);
+      return next;
+    });
+    setResult(null);
+  };
+
+  const toggleRecord = (diff: TableDiff, recordId: string, checked: boolean) => {
+    setSelectedRecords(prev => {
+      const current = new Set(prev[diff.table] ?? diff.records.map(r => r.id));
+      if (checked) current.add(recordId);
+      else current.delete(recordId);
+      return { ...prev, [diff.table]: current };
+    });
+    setResult(null);
+  };
+
+  const resetRecordSelection = (table: string) => {
+    setSelectedRecords(prev => {
+      const next = { ...prev };
+      delete next[table];
+      return next;
+    });
+    setResult(null);
+  };
+
+  const runRestore = async (dryRun: boolean) => {
+    if (!backup || selectedTables.size === 0) return;
+
+    setRunning(dryRun ? 'dry-run' : 'restore');
+    try {
+      const tables = [...selectedTables];
+      const records = Object.fromEntries(
+        Object.entries(selectedRecords)
+          .filter(([table]) => selectedTables.has(table))
+          .map(([table, ids]) => [table, [...ids]])
+      );
+
+      const { data, error } = await supabase.functions.invoke('restore-backup', {
+        method: 'POST',
+        body: {
+          backupId: backup.id,
+          mode: 'restore',
+          dryRun,
+          tables,
+          records,
+          conflictPolicy: Object.fromEntries(tables.map(table => [table, policies[table] || getDefaultPolicy(table)])),
+        },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      setResult(data as RestoreResult);
+      if (dryRun) {
+        toast.success('Dry run completed - no data was changed');
+      } else if (data.success) {
+        toast.success('Restore completed successfully');
+        setConfirmText('');
+      } else {
+        toast.error(data.message || 'Restore completed with errors');
+      }
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const isLegacyBackup = preview && preview.schema_version < preview.current_schema_version;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Database className="h-5 w-5" />
+            Restore Backup
+          </DialogTitle>
+          <DialogDescription>
+            Compare <span className="font-mono">{backup?.file_name}</span> with live data and choose what to restore.
+            Records that only exist in live data are never deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadingPreview ? (
+          <div className="flex items-center justify-center h-48">
+            <RefreshCw className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !preview ? (
+          <div className="text-center py-12 text-muted-foreground">Preview unavailable</div>
+        ) : (
+          <div className="flex-1 min-h-0 space-y-3">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Badge variant="outline">Schema v{preview.schema_version}</Badge>
+              {isLegacyBackup && (
+                <span className="flex items-center gap-1 text-amber-600">
+                  <AlertTriangle className="h-4 w-4" />
+                  Older backup format - only the tables it contains can be restored
+                </span>
+              )}
+            </div>
+
+            <ScrollArea className="h-[45vh] border rounded-lg">
+              <div className="divide-y">
+                {preview.tables.map(diff => {
+                  const isSelected = selectedTables.has(diff.table);
+                  const isExpanded = expandedTable === diff.table;
+                  const recordSelection = selectedRecords[diff.table];
+                  const hasDifferences = diff.new_count + diff.changed_count > 0;
+
+                  return (
+                    <div key={diff.table} className="p-3">
+                      <div className="flex items-center gap-3">
+                        <Checkbox
+                          checked={isSelected}
+                          onCheckedChange={(checked) => toggleTable(diff.table, !!checked)}
+                          disabled={!hasDifferences}
+                        />
+                        <button
+                          type="button"
+                          className="flex items-center gap-1 font-medium text-sm min-w-[180px] text-left disabled:cursor-default"
+                          onClick={() => setExpandedTable(isExpanded ? null : diff.table)}
+                          disabled={diff.records.length === 0}
+                        >
+                          {diff.records.length > 0 && (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                          {formatTableName(diff.table)}
+                        </button>
+                        <div className="flex flex-wrap items-center gap-1 flex-1 text-xs">
+                          {diff.new_count > 0 && <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{diff.new_count} new</Badge>}
+                          {diff.changed_count > 0 && <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">{diff.changed_count} changed</Badge>}
+                          {diff.unchanged_count > 0 && <Badge variant="outline">{diff.unchanged_count} unchanged</Badge>}
+                          {diff.live_only_count > 0 && <Badge variant="secondary">{diff.live_only_count} live only</Badge>}
+                          {diff.backup_count === 0 && <span className="text-muted-foreground">Empty in backup</span>}
+                          {recordSelection && (
+                            <Badge variant="outline" className="border-primary text-primary">
+                              {recordSelection.size} selected
+                            </Badge>
+                          )}
+                        </div>
+                        <Select
+                          value={policies[diff.table] || getDefaultPolicy(diff.table)}
+                          onValueChange={(value) => {
+                            setPolicies(prev => ({ ...prev, [diff.table]: value as ConflictPolicy }));
+                            setResult(null);
+                          }}
+                          disabled={!isSelected}
+                        >
+                          <SelectTrigger className="w-[150px] h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {POLICY_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>
+                                <div>
+                                  <div>{option.label}</div>
+                                  <div className="text-xs text-muted-foreground">{option.description}</div>
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {(diff.error || diff.missing_columns.length > 0) && (
+                        <div className="ml-7 mt-1 text-xs text-amber-600">
+                          {diff.error || `Columns no longer in the live schema will be dropped: ${diff.missing_columns.join(', ')}`}
+                        </div>
+                      )}
+
+                      {isExpanded && (
+                        <div className="ml-7 mt-2 space-y-1">
+                          <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span>
+                              {diff.records_truncated
+                                ? `Showing the first ${diff.records.length} differing records - picking records restricts the restore to the ones listed`
+                                : 'Pick individual records to restore'}
+                            </span>
+                            {recordSelection && (
+                              <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => resetRecordSelection(diff.table)}>
+                                Restore all records
+                              </Button>
+                            )}
+                          </div>
+                          {diff.records.map(record => (
+                            <label key={record.id} className="flex items-center gap-2 text-sm py-0.5 cursor-pointer">
+                              <Checkbox
+                                checked={recordSelection ? recordSelection.has(record.id) : true}
+                                onCheckedChange={(checked) => toggleRecord(diff, record.id, !!checked)}
+                                disabled={!isSelected}
+                              />
+                              <Badge variant="outline" className="text-[10px] px-1.5 capitalize">{record.status}</Badge>
+                              <span className="truncate">{record.label}</span>
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+
+            {result && (
+              <div className="border rounded-lg p-3 space-y-2 text-sm">
+                <div className="font-medium flex items-center gap-2">
+                  {result.dry_run && <FlaskConical className="h-4 w-4" />}
+                  {result.message}
+                </div>
+                <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-6 gap-y-1 text-xs">
+                  <span className="text-muted-foreground">Table</span>
+                  <span className="text-muted-foreground">{result.dry_run ? 'Would insert' : 'Inserted'}</span>
+                  <span className="text-muted-foreground">{result.dry_run ? 'Would update' : 'Updated'}</span>
+                  <span className="text-muted-foreground">Skipped</span>
+                  {result.results.map(r => (
+                    <div key={r.table} className="contents">
+                      <span className={r.errors.length > 0 ? 'text-destructive' : ''} title={r.errors.join('\n')}>
+                        {formatTableName(r.table)}{r.errors.length > 0 && ` (${r.errors.length} errors)`}
+                      </span>
+                      <span>{r.inserted}</span>
+                      <span>{r.updated}</span>
+                      <span>{r.skipped}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label className="text-xs">Type "CONFIRM" to restore {totals.records.toLocaleString()} records across {totals.tables} tables</Label>
+              <Input
+                value={confirmText}
+                onChange={(e) => setConfirmText(e.target.value)}
+                placeholder="CONFIRM"
+                className="h-8"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={!!running}>
+            Close
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => runRestore(true)}
+            disabled={!preview || selectedTables.size === 0 || !!running}
+          >
+            {running === 'dry-run' ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <FlaskConical className="h-4 w-4 mr-2" />}
+            Dry Run
+          </Button>
+          <Button
+            onClick={() => runRestore(false)}
+            disabled={!preview || selectedTables.size === 0 || confirmText !== 'CONFIRM' || !!running}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {running === 'restore' && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+            Restore Selected
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,195 @@
+import { useMemo } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Loader2, UserMinus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  EmailSequence,
+  EXIT_REASON_LABELS,
+  SequenceStep,
+  useSequenceDashboard,
+} from "@/hooks/useEmailSequences";
+
+const statusColors: Record<string, string> = {
+  active: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
+  completed: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300',
+  exited: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400',
+};
+
+const describeStep = (step: SequenceStep, templateNames: Record<string, string>) => {
+  if (step.step_type === 'email') return `Email: ${step.template_id ? templateNames[step.template_id] ?? 'Template' : 'Template deleted'}`;
+  if (step.step_type === 'wait') return `Wait ${step.wait_days} day${step.wait_days === 1 ? '' : 's'}`;
+  return `Task: ${step.task_title}`;
+};
+
+interface SequenceDashboardProps {
+  sequence: EmailSequence;
+  templateNames: Record<string, string>;
+}
+
+export const SequenceDashboard = ({ sequence, templateNames }: SequenceDashboardProps) => {
+  const { enrollments, runs, loading, exitEnrollment, exiting } = useSequenceDashboard(sequence.id);
+
+  // current_step is the next step to run, so an enrollment has reached every step up
+  // to it and finished every step before it
+  const funnel = useMemo(() => {
+    return sequence.steps.map(step => {
+      const reached = enrollments.filter(e => e.current_step >= step.step_order).length;
+      const done = enrollments.filter(e => e.current_step > step.step_order).length;
+      const exitedHere = enrollments.filter(e => e.status === 'exited' && e.current_step === step.step_order).length;
+      const stepRuns = runs.filter(r => r.step_id === step.id);
+      return {
+        step,
+        reached,
+        done,
+        exitedHere,
+        conversion: reached > 0 ? Math.round((done / reached) * 100) : 0,
+        opened: stepRuns.filter(r => r.email?.opened_at).length,
+        replied: stepRuns.filter(r => r.email?.replied_at).length,
+        bounced: stepRuns.filter(r => r.email?.bounced_at).length,
+      };
+    });
+  }, [sequence.steps, enrollments, runs]);
+
+  const summary = useMemo(() => {
+    const exits = enrollments.filter(e => e.status === 'exited');
+    const count = (reason: string) => exits.filter(e => e.exit_reason === reason).length;
+    return [
+      { label: 'Enrolled', value: enrollments.length },
+      { label: 'Active', value: enrollments.filter(e => e.status === 'active').length },
+      { label: 'Completed', value: enrollments.filter(e => e.status === 'completed').length },
+      { label: 'Replied', value: count('replied') },
+      { label: 'Meetings', value: count('meeting_booked') },
+      { label: 'Converted', value: count('converted') },
+    ];
+  }, [enrollments]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+        {summary.map(item => (
+          <Card key={item.label}>
+            <CardContent className="p-3">
+              <p className="text-xs text-muted-foreground">{item.label}</p>
+              <p className="text-lg font-semibold">{item.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium mb-2">Step-by-step conversion</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[40px]">#</TableHead>
+              <TableHead>Step</TableHead>
+              <TableHead className="text-right">Reached</TableHead>
+              <TableHead className="w-[180px]">Completed</TableHead>
+              <TableHead className="text-right">Opened</TableHead>
+              <TableHead className="text-right">Replied</TableHead>
+              <TableHead className="text-right">Exited here</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {funnel.map(row => (
+              <TableRow key={row.step.id ?? row.step.step_order}>
+                <TableCell>{row.step.step_order}</TableCell>
+                <TableCell className="max-w-[220px] truncate">{describeStep(row.step, templateNames)}</TableCell>
+                <TableCell className="text-right">{row.reached}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Progress value={row.conversion} className="h-2 flex-1" />
+                    <span className="text-xs text-muted-foreground w-16 text-right">{row.done} ({row.conversion}%)</span>
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">{row.step.step_type === 'email' ? row.opened : '—'}</TableCell>
+                <TableCell className="text-right">{row.step.step_type === 'email' ? row.replied : '—'}</TableCell>
+                <TableCell className="text-right">{row.exitedHere}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium mb-2">Enrollments</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Recipient</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Step</TableHead>
+              <TableHead>Next / Finished</TableHead>
+              <TableHead className="w-[60px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {enrollments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  Nobody is enrolled yet. Add leads or contacts from their list with "Add to Sequence".
+                </TableCell>
+              </TableRow>
+            ) : (
+              enrollments.map(enrollment => (
+                <TableRow key={enrollment.id}>
+                  <TableCell>
+                    <div className="font-medium">{enrollment.recipient_name || enrollment.recipient_email}</div>
+                    <div className="text-xs text-muted-foreground capitalize">
+                      {enrollment.entity_type} · {enrollment.recipient_email}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={statusColors[enrollment.status]}>
+                      {enrollment.status === 'exited'
+                        ? EXIT_REASON_LABELS[enrollment.exit_reason ?? ''] ?? 'Exited'
+                        : enrollment.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {Math.min(enrollment.current_step, sequence.steps.length)}/{sequence.steps.length}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {enrollment.status === 'active'
+                      ? formatDistanceToNow(new Date(enrollment.next_run_at), { addSuffix: true })
+                      : enrollment.finished_at ? format(new Date(enrollment.finished_at), 'dd/MM/yyyy HH:mm') : '—'}
+                    {enrollment.last_error && (
+                      <div className="text-xs text-destructive truncate max-w-[220px]" title={enrollment.last_error}>
+                        {enrollment.last_error}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {enrollment.status === 'active' && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={exiting}
+                        onClick={() => exitEnrollment(enrollment.id).catch(() => undefined)}
+                        aria-label={`Remove ${enrollment.recipient_email} from sequence`}
+                      >
+                        <UserMinus className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
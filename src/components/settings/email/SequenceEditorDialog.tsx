@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Clock, ListTodo, Mail, Plus, Trash2 } from "lucide-react";
+import { EmailSequence, SaveSequenceInput, SequenceStep, SequenceStepType } from "@/hooks/useEmailSequences";
+
+interface SequenceEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sequence: EmailSequence | null;
+  saving: boolean;
+  onSave: (input: SaveSequenceInput) => Promise<unknown>;
+}
+
+const stepIcons: Record<SequenceStepType, typeof Mail> = {
+  email: Mail,
+  wait: Clock,
+  task: ListTodo,
+};
+
+const newStep = (type: SequenceStepType): SequenceStep => ({
+  step_order: 0,
+  step_type: type,
+  template_id: null,
+  wait_days: type === 'wait' ? 2 : null,
+  task_title: type === 'task' ? 'Call {{name}}' : null,
+  task_description: null,
+  task_due_days: 0,
+});
+
+export const SequenceEditorDialog = ({ open, onOpenChange, sequence, saving, onSave }: SequenceEditorDialogProps) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isActive, setIsActive] = useState(true);
+  const [steps, setSteps] = useState<SequenceStep[]>([]);
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['email-templates-options'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('email_templates').select('id, name, subject').order('name');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open,
+    staleTime: 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setName(sequence?.name ?? "");
+    setDescription(sequence?.description ?? "");
+    setIsActive(sequence?.is_active ?? true);
+    setSteps(sequence?.steps.map(s => ({ ...s })) ?? [newStep('email'), newStep('wait'), newStep('email')]);
+  }, [open, sequence]);
+
+  const updateStep = (index: number, changes: Partial<SequenceStep>) => {
+    setSteps(prev => prev.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    setSteps(prev => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await onSave({
+        id: sequence?.id,
+        name,
+        description,
+        is_active: isActive,
+        steps: steps.map((s, i) => ({ ...s, step_order: i + 1 })),
+      });
+      onOpenChange(false);
+    } catch {
+      // The hook already reported the error; keep the dialog open for corrections
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{sequence ? "Edit Sequence" : "New Sequence"}</DialogTitle>
+          <DialogDescription>
+            Steps run top to bottom. Recipients leave automatically when they reply, bounce, book a meeting or convert.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sequence-name">Name *</Label>
+              <Input
+                id="sequence-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., New lead outreach"
+                required
+              />
+            </div>
+            <div className="flex items-center gap-2 sm:pt-8">
+              <Switch id="sequence-active" checked={isActive} onCheckedChange={setIsActive} />
+              <Label htmlFor="sequence-active">Active</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sequence-description">Description</Label>
+            <Textarea
+              id="sequence-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Steps</Label>
+            {steps.map((step, index) => {
+              const Icon = stepIcons[step.step_type];
+              return (
+                <Card key={step.id ?? `new-${index}`}>
+                  <CardContent className="p-3 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium w-6">{index + 1}.</span>
+                      <Icon className="h-4 w-4 text-muted-foreground" />
+                      <Select
+                        value={step.step_type}
+                        onValueChange={(value) => updateStep(index, { ...newStep(value as SequenceStepType), id: step.id })}
+                      >
+                        <SelectTrigger className="w-[150px] h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="email">Send email</SelectItem>
+                          <SelectItem value="wait">Wait</SelectItem>
+                          <SelectItem value="task">Create task</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <div className="ml-auto flex items-center gap-1">
+                        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => moveStep(index, -1)} aria-label="Move step up">
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={index === steps.length - 1} onClick={() => moveStep(index, 1)} aria-label="Move step down">
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))} aria-label="Remove step">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {step.step_type === 'email' && (
+                      <Select value={step.template_id ?? ""} onValueChange={(value) => updateStep(index, { template_id: value })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose an email template" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {templates.map(t => (
+                            <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+
+                    {step.step_type === 'wait' && (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          className="w-24"
+                          value={step.wait_days ?? 1}
+                          onChange={(e) => updateStep(index, { wait_days: Math.max(1, Number(e.target.value) || 1) })}
+                        />
+                        <span className="text-sm text-muted-foreground">day(s) before the next step</span>
+                      </div>
+                    )}
+
+                    {step.step_type === 'task' && (
+                      <div className="space-y-2">
+                        <Input
+                          value={step.task_title ?? ""}
+                          onChange={(e) => updateStep(index, { task_title: e.target.value })}
+                          placeholder="Task title, e.g. Call {{name}}"
+                        />
+                        <Textarea
+                          value={step.task_description ?? ""}
+                          onChange={(e) => updateStep(index, { task_description: e.target.value })}
+                          placeholder="Notes for the task (optional)"
+                          rows={2}
+                        />
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-muted-foreground">Due</span>
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-24"
+                            value={step.task_due_days}
+                            onChange={(e) => updateStep(index, { task_due_days: Math.max(0, Number(e.target.value) || 0) })}
+                          />
+                          <span className="text-sm text-muted-foreground">day(s) after it is created; assigned to whoever enrolled the recipient</span>
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+
+            <div className="flex flex-wrap gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setSteps(prev => [...prev, newStep('email')])} className="gap-1">
+                <Plus className="h-3 w-3" /> Email
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => setSteps(prev => [...prev, newStep('wait')])} className="gap-1">
+                <Plus className="h-3 w-3" /> Wait
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => setSteps(prev => [...prev, newStep('task')])} className="gap-1">
+                <Plus className="h-3 w-3" /> Task
+              </Button>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim() || steps.length === 0}>
+              {saving ? "Saving..." : sequence ? "Save Changes" : "Create Sequence"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
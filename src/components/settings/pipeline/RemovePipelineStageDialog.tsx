@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { PipelineStage } from '@/types/deal';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+
+interface RemovePipelineStageDialogProps {
+  stage: PipelineStage | null;
+  stages: PipelineStage[];
+  onOpenChange: (open: boolean) => void;
+  onRemoved: () => void;
+}
+
+const KEEP_IN_STAGE = 'keep';
+
+/**
+ * Retire or delete a pipeline stage. Deals in the stage are moved to another
+ * active stage first; retiring may also leave them where they are, deleting may not.
+ */
+export const RemovePipelineStageDialog = ({ stage, stages, onOpenChange, onRemoved }: RemovePipelineStageDialogProps) => {
+  const [dealCount, setDealCount] = useState<number | null>(null);
+  const [moveTo, setMoveTo] = useState<string>(KEEP_IN_STAGE);
+  const [working, setWorking] = useState<'retire' | 'delete' | null>(null);
+
+  const targetStages = stages.filter(s => s.is_active && s.id !== stage?.id);
+
+  useEffect(() => {
+    if (!stage) return;
+    setDealCount(null);
+    setMoveTo(KEEP_IN_STAGE);
+
+    supabase
+      .from('deals')
+      .select('id', { count: 'exact', head: true })
+      .eq('stage', stage.stage_name)
+      .then(({ count, error }) => {
+        if (error) {
+          console.error('Error counting deals in stage:', error);
+          return;
+        }
+        setDealCount(count || 0);
+      });
+  }, [stage]);
+
+  const hasDeals = (dealCount ?? 0) > 0;
+  const moveTarget = moveTo === KEEP_IN_STAGE ? null : moveTo;
+
+  const handleRemove = async (mode: 'retire' | 'delete') => {
+    if (!stage) return;
+    if (mode === 'delete' && hasDeals && !moveTarget) {
+      toast.error('Choose a stage to move the deals to before deleting');
+      return;
+    }
+
+    setWorking(mode);
+    try {
+      const { data: moved, error } = await supabase.rpc('retire_pipeline_stage', {
+        p_stage_id: stage.id,
+        p_move_to: moveTarget ?? undefined,
+        p_delete: mode === 'delete',
+      });
+
+      if (error) throw new Error(error.message);
+
+      const movedText = moved ? ` and ${moved} deal${moved === 1 ? '' : 's'} moved to ${moveTarget}` : '';
+      toast.success(`Stage ${mode === 'delete' ? 'deleted' : 'retired'}${movedText}`);
+      onOpenChange(false);
+      onRemoved();
+    } catch (error) {
+      console.error(`Error trying to ${mode} stage:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to ${mode} stage`);
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!stage} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Remove "{stage?.stage_name}"</DialogTitle>
+          <DialogDescription>
+            Retired stages disappear from forms and move-to lists but keep their deals and history.
+            Deleted stages are removed for good.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm">
+            {dealCount === null
+              ? 'Counting deals in this stage...'
+              : hasDeals
+                ? `${dealCount} deal${dealCount === 1 ? ' is' : 's are'} currently in this stage.`
+                : 'No deals are in this stage.'}
+          </p>
+
+          {hasDeals && (
+            <div className="space-y-2">
+              <Label>Move deals to</Label>
+              <Select value={moveTo} onValueChange={setMoveTo}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP_IN_STAGE}>Leave them in this stage (retire only)</SelectItem>
+                  {targetStages.map(s => (
+                    <SelectItem key={s.id} value={s.stage_name}>{s.stage_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={!!working}>
+            Cancel
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => handleRemove('retire')}
+            disabled={!!working || dealCount === null}
+          >
+            {working === 'retire' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Retire
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => handleRemove('delete')}
+            disabled={!!working || dealCount === null || (hasDeals && !moveTarget)}
+          >
+            {working === 'delete' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Delete
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
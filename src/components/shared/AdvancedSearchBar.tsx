@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -6,6 +6,14 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Search, Filter, Plus, X, HelpCircle } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  CustomFieldDefinition,
+  formatCustomFieldValue,
+  getCustomFieldColumnKey,
+  getCustomFieldNameFromColumn,
+  getCustomFieldValues,
+  isCustomFieldColumn,
+} from "@/utils/customFieldUtils";
 
 export interface SearchCondition {
   id: string;
@@ -22,6 +30,8 @@ export interface SearchGroup {
 
 interface AdvancedSearchBarProps {
   fields: { value: string; label: string }[];
+  // Custom field definitions offered alongside the built-in fields
+  customFields?: CustomFieldDefinition[];
   onSearch: (groups: SearchGroup[]) => void;
   placeholder?: string;
   simpleSearch?: string;
@@ -39,13 +49,24 @@ const OPERATORS = [
 ];
 
 export const AdvancedSearchBar = ({
-  fields,
+  fields: builtInFields,
+  customFields,
   onSearch,
   placeholder = "Search...",
   simpleSearch = "",
   onSimpleSearchChange,
 }: AdvancedSearchBarProps) => {
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
+  const fields = useMemo(
+    () => [
+      ...builtInFields,
+      ...(customFields || []).map(field => ({
+        value: getCustomFieldColumnKey(field.field_name),
+        label: field.field_label,
+      })),
+    ],
+    [builtInFields, customFields]
+  );
   const [groups, setGroups] = useState<SearchGroup[]>([
     {
       id: crypto.randomUUID(),
@@ -151,15 +172,18 @@ export const AdvancedSearchBar = ({
 
   return (
     <div className="flex items-center gap-2">
-      <div className="relative flex-1">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          value={simpleSearch}
-          onChange={(e) => onSimpleSearchChange?.(e.target.value)}
-          placeholder={placeholder}
-          className="pl-9 pr-4"
-        />
-      </div>
+      {/* Lists with their own search box only use the Advanced button */}
+      {onSimpleSearchChange && (
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={simpleSearch}
+            onChange={(e) => onSimpleSearchChange(e.target.value)}
+            placeholder={placeholder}
+            className="pl-9 pr-4"
+          />
+        </div>
+      )}
       
       <Popover open={isAdvancedOpen} onOpenChange={setIsAdvancedOpen}>
         <PopoverTrigger asChild>
@@ -362,7 +386,7 @@ function matchCondition<T extends Record<string, any>>(
   item: T,
   condition: SearchCondition
 ): boolean {
-  const value = item[condition.field];
+  const value = getConditionValue(item, condition.field);
   const valueStr = value ? String(value).toLowerCase() : '';
   const searchValue = condition.value.toLowerCase();
 
@@ -385,3 +409,13 @@ function matchCondition<T extends Record<string, any>>(
       return false;
   }
 }
+
+// Custom field conditions ("custom_fields.<name>") read from the record's custom_fields object
+function getConditionValue(item: Record<string, unknown>, field: string): unknown {
+  if (!isCustomFieldColumn(field)) return item[field];
+
+  const value = getCustomFieldValues(item)[getCustomFieldNameFromColumn(field)];
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return formatCustomFieldValue({ field_type: 'boolean' }, value);
+  return value;
+}
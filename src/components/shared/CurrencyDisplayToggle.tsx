@@ -0,0 +1,26 @@
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useCurrencyConversion } from '@/hooks/useCurrencyConversion';
+
+interface CurrencyDisplayToggleProps {
+  className?: string;
+}
+
+// Switches every amount on screen between each deal's own currency and the reporting currency
+export const CurrencyDisplayToggle = ({ className }: CurrencyDisplayToggleProps) => {
+  const { reportingCurrency, showConverted, setShowConverted } = useCurrencyConversion();
+
+  return (
+    <div className={`flex items-center gap-2 ${className ?? ''}`}>
+      <Switch
+        id="currency-display-toggle"
+        checked={showConverted}
+        onCheckedChange={setShowConverted}
+        className="scale-75"
+      />
+      <Label htmlFor="currency-display-toggle" className="text-xs text-muted-foreground cursor-pointer whitespace-nowrap">
+        {showConverted ? `In ${reportingCurrency}` : 'Original currencies'}
+      </Label>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import {
+  CustomFieldDefinition,
+  formatCustomFieldValue,
+  getCustomFieldNameFromColumn,
+  getCustomFieldValues,
+} from "@/utils/customFieldUtils";
+
+interface CustomFieldValueCellProps {
+  // Any CRM record; values are read from its custom_fields column
+  record: object;
+  columnKey: string;
+  fields: CustomFieldDefinition[];
+}
+
+export const CustomFieldValueCell = ({ record, columnKey, fields }: CustomFieldValueCellProps) => {
+  const fieldName = getCustomFieldNameFromColumn(columnKey);
+  const field = fields.find(f => f.field_name === fieldName);
+  const text = field ? formatCustomFieldValue(field, getCustomFieldValues(record as { custom_fields?: unknown })[fieldName]) : '';
+
+  if (!text) {
+    return <span className="text-center text-muted-foreground w-full block">-</span>;
+  }
+
+  return (
+    <span className="truncate block" title={text}>
+      {text}
+    </span>
+  );
+};
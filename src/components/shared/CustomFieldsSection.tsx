@@ -0,0 +1,168 @@
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import {
+  CustomFieldDefinition,
+  CustomFieldEntityType,
+  CustomFieldValue,
+  CustomFieldValues,
+  isEmptyCustomFieldValue,
+} from "@/utils/customFieldUtils";
+
+interface CustomFieldsSectionProps {
+  entityType: CustomFieldEntityType;
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+  // Highlight required fields that are still empty
+  showErrors?: boolean;
+  className?: string;
+}
+
+const NONE_VALUE = "__none__";
+
+export const CustomFieldsSection = ({
+  entityType,
+  values,
+  onChange,
+  showErrors = false,
+  className,
+}: CustomFieldsSectionProps) => {
+  const { fields } = useCustomFields(entityType);
+
+  if (fields.length === 0) return null;
+
+  const setValue = (fieldName: string, value: CustomFieldValue) => {
+    onChange({ ...values, [fieldName]: value });
+  };
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const value = values[field.field_name];
+
+    switch (field.field_type) {
+      case 'number':
+        return (
+          <Input
+            type="number"
+            value={value === null || value === undefined ? '' : String(value)}
+            onChange={(e) => setValue(field.field_name, e.target.value === '' ? null : Number(e.target.value))}
+          />
+        );
+      case 'date': {
+        const date = value ? new Date(String(value)) : undefined;
+        return (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="outline"
+                className={cn("w-full justify-start text-left font-normal", !date && "text-muted-foreground")}
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {date ? format(date, "dd/MM/yyyy") : <span>Pick a date</span>}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={date}
+                onSelect={(selected) => setValue(field.field_name, selected ? format(selected, "yyyy-MM-dd") : null)}
+                initialFocus
+                className={cn("p-3 pointer-events-auto")}
+              />
+            </PopoverContent>
+          </Popover>
+        );
+      }
+      case 'select':
+        return (
+          <Select
+            value={value ? String(value) : NONE_VALUE}
+            onValueChange={(v) => setValue(field.field_name, v === NONE_VALUE ? null : v)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select..." />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE_VALUE}>None</SelectItem>
+              {field.field_options.map((option) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'multiselect': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="flex flex-wrap gap-1.5 min-h-10 items-center">
+            {field.field_options.map((option) => {
+              const isSelected = selected.includes(option);
+              return (
+                <Badge
+                  key={option}
+                  variant={isSelected ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() =>
+                    setValue(
+                      field.field_name,
+                      isSelected ? selected.filter(o => o !== option) : [...selected, option]
+                    )
+                  }
+                >
+                  {option}
+                </Badge>
+              );
+            })}
+          </div>
+        );
+      }
+      case 'boolean':
+        return (
+          <div className="flex items-center h-10">
+            <Switch
+              checked={value === true}
+              onCheckedChange={(checked) => setValue(field.field_name, checked)}
+            />
+          </div>
+        );
+      default:
+        return (
+          <Input
+            value={value === null || value === undefined ? '' : String(value)}
+            onChange={(e) => setValue(field.field_name, e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="text-sm font-semibold text-muted-foreground border-b pb-1">Additional Fields</div>
+      <div className="grid grid-cols-2 gap-3">
+        {fields.map((field) => {
+          const missing = showErrors && field.is_required && field.field_type !== 'boolean'
+            && isEmptyCustomFieldValue(values[field.field_name]);
+          return (
+            <div key={field.id} className="space-y-2">
+              <Label className={cn(missing && "text-destructive")}>
+                {field.field_label}{field.is_required && field.field_type !== 'boolean' ? ' *' : ''}
+              </Label>
+              {renderInput(field)}
+              {missing && (
+                <p className="text-sm font-medium text-destructive">{field.field_label} is required</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
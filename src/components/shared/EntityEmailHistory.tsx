@@ -10,6 +10,7 @@ import {
   Eye,
   Clock,
   ExternalLink,
+  MousePointerClick,
 } from 'lucide-react';
 import {
   Dialog,
@@ -29,6 +30,15 @@ interface EmailHistoryItem {
   sent_at: string;
   opened_at: string | null;
   open_count: number | null;
+  click_count: number | null;
+  replied_at: string | null;
+  bounce_reason: string | null;
+}
+
+interface LinkClickSummary {
+  url: string;
+  clicks: number;
+  lastClickedAt: string;
 }
 
 interface EntityEmailHistoryProps {
@@ -40,6 +50,7 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
   const [emails, setEmails] = useState<EmailHistoryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedEmail, setSelectedEmail] = useState<EmailHistoryItem | null>(null);
+  const [linkClicks, setLinkClicks] = useState<LinkClickSummary[]>([]);
 
   useEffect(() => {
     const fetchEmails = async () => {
@@ -47,7 +58,7 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
       try {
         let query = supabase
           .from('email_history')
-          .select('id, subject, recipient_email, recipient_name, sender_email, body, status, sent_at, opened_at, open_count')
+          .select('id, subject, recipient_email, recipient_name, sender_email, body, status, sent_at, opened_at, open_count, click_count, replied_at, bounce_reason')
           .order('sent_at', { ascending: false });
 
         // Apply filter based on entity type
@@ -75,11 +86,42 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
     }
   }, [entityType, entityId]);
 
+  useEffect(() => {
+    setLinkClicks([]);
+    if (!selectedEmail?.click_count) return;
+
+    supabase
+      .from('email_link_clicks')
+      .select('link_url, clicked_at')
+      .eq('email_id', selectedEmail.id)
+      .order('clicked_at', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching link clicks:', error);
+          return;
+        }
+
+        // Rows are newest first, so the first row seen per link is its last click
+        const byLink = new Map<string, LinkClickSummary>();
+        data?.forEach(click => {
+          const existing = byLink.get(click.link_url);
+          if (existing) {
+            existing.clicks += 1;
+          } else {
+            byLink.set(click.link_url, { url: click.link_url, clicks: 1, lastClickedAt: click.clicked_at });
+          }
+        });
+        setLinkClicks(Array.from(byLink.values()).sort((a, b) => b.clicks - a.clicks));
+      });
+  }, [selectedEmail]);
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'sent': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
       case 'opened': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
-      case 'bounced': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+      case 'replied': return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
+      case 'bounced':
+      case 'failed': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
       default: return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200';
     }
   };
@@ -129,6 +171,10 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
                         <Eye className="h-3 w-3" />
                         {email.open_count || 0} opens
                       </span>
+                      <span className="flex items-center gap-1">
+                        <MousePointerClick className="h-3 w-3" />
+                        {email.click_count || 0} clicks
+                      </span>
                     </div>
                   </div>
                   <Badge className={getStatusColor(email.status)}>
@@ -181,9 +227,21 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
                     <p className="text-sm">{format(new Date(selectedEmail.opened_at), 'dd/MM/yyyy HH:mm')}</p>
                   </div>
                 )}
+                {selectedEmail.replied_at && (
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Replied At</p>
+                    <p className="text-sm">{format(new Date(selectedEmail.replied_at), 'dd/MM/yyyy HH:mm')}</p>
+                  </div>
+                )}
+                {selectedEmail.bounce_reason && (
+                  <div className="col-span-2">
+                    <p className="text-sm font-medium text-muted-foreground">Bounce Reason</p>
+                    <p className="text-sm text-destructive">{selectedEmail.bounce_reason}</p>
+                  </div>
+                )}
               </div>
 
-              <div className="flex justify-center">
+              <div className="flex justify-center gap-4">
                 <Card>
                   <CardContent className="p-4 flex items-center gap-3">
                     <Eye className="h-8 w-8 text-blue-500" />
@@ -193,8 +251,42 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
                     </div>
                   </CardContent>
                 </Card>
+                <Card>
+                  <CardContent className="p-4 flex items-center gap-3">
+                    <MousePointerClick className="h-8 w-8 text-purple-500" />
+                    <div>
+                      <p className="text-2xl font-bold">{selectedEmail.click_count || 0}</p>
+                      <p className="text-xs text-muted-foreground">Clicks</p>
+                    </div>
+                  </CardContent>
+                </Card>
               </div>
 
+              {linkClicks.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground mb-2">Clicked Links</p>
+                  <div className="border rounded-md divide-y">
+                    {linkClicks.map((link) => (
+                      <div key={link.url} className="flex items-center justify-between gap-4 p-2 text-sm">
+                        <a
+                          href={link.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 min-w-0 text-primary hover:underline"
+                          title={link.url}
+                        >
+                          <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                          <span className="truncate">{link.url}</span>
+                        </a>
+                        <span className="flex-shrink-0 text-xs text-muted-foreground">
+                          {link.clicks} click{link.clicks === 1 ? '' : 's'} · last {format(new Date(link.lastClickedAt), 'dd/MM/yyyy HH:mm')}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {selectedEmail.body && (
                 <div>
                   <p className="text-sm font-medium text-muted-foreground mb-2">Email Body</p>
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { format } from 'date-fns';
-import { Edit2, Plus, Trash2, Clock, ChevronDown, ChevronRight, Loader2, History } from 'lucide-react';
+import { Edit2, Plus, Trash2, Clock, ChevronDown, ChevronRight, Loader2, History, UserCheck } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
@@ -29,6 +29,9 @@ interface HistoryRecord {
     deleted_data?: Record<string, any>;
     bulk_count?: number;
     module?: string;
+    // ASSIGNMENT entries: 'rule' when an assignment rule picked the owner
+    method?: 'rule' | 'manual';
+    rule_name?: string | null;
   } | null;
 }
 
@@ -125,6 +128,8 @@ export const RecordChangeHistory = ({
         return <Edit2 className="h-4 w-4" />;
       case 'DELETE':
         return <Trash2 className="h-4 w-4" />;
+      case 'ASSIGNMENT':
+        return <UserCheck className="h-4 w-4" />;
       default:
         return <History className="h-4 w-4" />;
     }
@@ -138,6 +143,8 @@ export const RecordChangeHistory = ({
         return 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300';
       case 'DELETE':
         return 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300';
+      case 'ASSIGNMENT':
+        return 'bg-violet-100 text-violet-700 dark:bg-violet-900/30 dark:text-violet-300';
       default:
         return 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300';
     }
@@ -151,6 +158,8 @@ export const RecordChangeHistory = ({
         return 'Record Updated';
       case 'DELETE':
         return 'Record Deleted';
+      case 'ASSIGNMENT':
+        return 'Owner Assigned';
       default:
         return action;
     }
@@ -256,7 +265,9 @@ export const RecordChangeHistory = ({
                             )}
                           </div>
                           <p className="text-xs text-muted-foreground mt-0.5">
-                            by {record.user_id ? (displayNames[record.user_id] || 'Loading...') : 'System'}
+                            {record.details?.method === 'rule'
+                              ? `by rule "${record.details.rule_name}"`
+                              : `by ${record.user_id ? (displayNames[record.user_id] || 'Loading...') : 'System'}`}
                           </p>
                         </div>
                         <div className="flex flex-col items-end gap-1 flex-shrink-0">
@@ -0,0 +1,73 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Flame, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { getScoreTier, ScoreEntityType, useRecordScore } from '@/hooks/useRecordScores';
+import { cn } from '@/lib/utils';
+
+interface RecordScoreCardProps {
+  entityType: ScoreEntityType;
+  entityId: string;
+}
+
+// Score with the rules that produced it, so reps can see why a record is hot
+export const RecordScoreCard = ({ entityType, entityId }: RecordScoreCardProps) => {
+  const { score, loading } = useRecordScore(entityType, entityId);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-6 flex justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!score) return null;
+
+  const tier = getScoreTier(score.score);
+  const contributions = [...score.breakdown].sort((a, b) => Math.abs(b.points) - Math.abs(a.points));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Flame className="h-4 w-4" />
+          Score
+          <span className="text-2xl font-semibold ml-auto">{score.score}</span>
+          <Badge variant="outline" className={tier.className}>{tier.label}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={score.score} className="h-2" />
+
+        {contributions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No scoring rules match this record yet.</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {contributions.map(item => (
+              <li key={item.rule_id} className="flex items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <span>{item.name}</span>
+                  {item.detail && <span className="text-xs text-muted-foreground ml-2 truncate">{item.detail}</span>}
+                </div>
+                <span className={cn('font-medium tabular-nums', item.points > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400')}>
+                  {item.points > 0 ? `+${item.points}` : item.points}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {score.last_engagement_at
+            ? `Last engagement ${formatDistanceToNow(new Date(score.last_engagement_at), { addSuffix: true })}`
+            : 'No engagement recorded'}
+          {' · '}Scores are capped between 0 and 100
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,37 @@
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Users } from 'lucide-react';
+import { useTeamScope } from '@/hooks/useTeamScope';
+import { useProfiles, getDisplayName } from '@/hooks/useProfiles';
+
+interface TeamScopeSelectorProps {
+  className?: string;
+}
+
+// Lets a manager view their own numbers, one report's or the whole team's; hidden for users without reports
+export const TeamScopeSelector = ({ className }: TeamScopeSelectorProps) => {
+  const { scope, setScope, reportIds, canSwitch } = useTeamScope();
+  const { data: profiles = [] } = useProfiles();
+
+  if (!canSwitch) return null;
+
+  const reports = reportIds
+    .map(id => ({ id, name: getDisplayName(profiles, id) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <Select value={scope} onValueChange={setScope}>
+      <SelectTrigger className={`h-9 w-[180px] ${className ?? ''}`}>
+        <Users className="h-4 w-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="me">Just me</SelectItem>
+        <SelectItem value="team">My team ({reportIds.length + 1})</SelectItem>
+        <SelectSeparator />
+        {reports.map(report => (
+          <SelectItem key={report.id} value={report.id}>{report.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
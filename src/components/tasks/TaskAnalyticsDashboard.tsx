@@ -3,6 +3,8 @@ import { subDays, isAfter, isBefore, startOfDay } from 'date-fns';
 import { Task } from '@/types/task';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { TeamScopeSelector } from '@/components/shared/TeamScopeSelector';
+import { useTeamScope } from '@/hooks/useTeamScope';
 import {
   BarChart,
   Bar,
@@ -27,7 +29,17 @@ interface TaskAnalyticsDashboardProps {
   tasks: Task[];
 }
 
-export const TaskAnalyticsDashboard = ({ tasks }: TaskAnalyticsDashboardProps) => {
+export const TaskAnalyticsDashboard = ({ tasks: allTasks }: TaskAnalyticsDashboardProps) => {
+  const { userIds, canSwitch } = useTeamScope();
+
+  // Managers see the tasks assigned to or created by their chosen team scope
+  const tasks = useMemo(() => {
+    if (!userIds) return allTasks;
+    return allTasks.filter(t =>
+      (t.assigned_to && userIds.includes(t.assigned_to)) || (t.created_by && userIds.includes(t.created_by))
+    );
+  }, [allTasks, userIds]);
+
   const analytics = useMemo(() => {
     const today = startOfDay(new Date());
     const last7Days = subDays(today, 7);
@@ -96,6 +108,12 @@ export const TaskAnalyticsDashboard = ({ tasks }: TaskAnalyticsDashboardProps) =
 
   return (
     <div className="space-y-6">
+      {canSwitch && (
+        <div className="flex justify-end">
+          <TeamScopeSelector />
+        </div>
+      )}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
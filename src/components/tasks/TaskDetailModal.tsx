@@ -31,9 +31,11 @@ import {
   Loader2,
   Plus,
   History,
+  Repeat,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { formatDateTimeStandard } from '@/utils/formatUtils';
+import { getRecurrenceLabel, getTaskSeriesId, isTaskInSeries } from '@/utils/taskRecurrence';
 
 interface TaskDetailModalProps {
   open: boolean;
@@ -50,6 +52,12 @@ interface Subtask {
   order_index: number;
 }
 
+interface SeriesOccurrence {
+  id: string;
+  due_date: string | null;
+  status: string;
+}
+
 const priorityColors = {
   high: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400 border border-red-200 dark:border-red-800',
   medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400 border border-yellow-200 dark:border-yellow-800',
@@ -81,6 +89,7 @@ export const TaskDetailModal = ({
   const [activeTab, setActiveTab] = useState('overview');
   const [subtasks, setSubtasks] = useState<Subtask[]>([]);
   const [loadingSubtasks, setLoadingSubtasks] = useState(false);
+  const [occurrences, setOccurrences] = useState<SeriesOccurrence[]>([]);
 
   const userIds = [task?.assigned_to, task?.created_by].filter(Boolean) as string[];
   const { displayNames } = useUserDisplayNames(userIds);
@@ -88,9 +97,30 @@ export const TaskDetailModal = ({
   useEffect(() => {
     if (task && open) {
       fetchSubtasks();
+      fetchOccurrences();
     }
   }, [task?.id, open]);
 
+  const fetchOccurrences = async () => {
+    if (!task || !isTaskInSeries(task)) {
+      setOccurrences([]);
+      return;
+    }
+    const seriesId = getTaskSeriesId(task);
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, due_date, status')
+        .or(`id.eq.${seriesId},parent_task_id.eq.${seriesId}`)
+        .order('due_date', { ascending: true });
+
+      if (error) throw error;
+      setOccurrences(data || []);
+    } catch (error) {
+      console.error('Error fetching task series:', error);
+    }
+  };
+
   const fetchSubtasks = async () => {
     if (!task) return;
     setLoadingSubtasks(true);
@@ -224,6 +254,12 @@ export const TaskDetailModal = ({
                       {task.due_time && <span>at {task.due_time}</span>}
                     </div>
                   )}
+                  {isTaskInSeries(task) && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Repeat className="h-4 w-4 text-muted-foreground" />
+                      <span>{getRecurrenceLabel(task)}</span>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
@@ -308,6 +344,46 @@ export const TaskDetailModal = ({
               </Card>
             )}
 
+            {/* Recurring series */}
+            {occurrences.length > 1 && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <Repeat className="h-4 w-4" />
+                      Series
+                    </CardTitle>
+                    <span className="text-sm text-muted-foreground">
+                      {occurrences.filter(o => o.status === 'completed').length} of {occurrences.length} completed
+                    </span>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <ScrollArea className="max-h-48">
+                    <div className="space-y-1">
+                      {occurrences.map((occurrence) => (
+                        <div
+                          key={occurrence.id}
+                          className={`flex items-center justify-between p-2 rounded-lg text-sm ${
+                            occurrence.id === task.id ? 'bg-muted' : 'hover:bg-muted/50'
+                          }`}
+                        >
+                          <span className="flex items-center gap-2">
+                            <Calendar className="h-4 w-4 text-muted-foreground" />
+                            {occurrence.due_date ? format(new Date(occurrence.due_date), 'dd/MM/yyyy') : 'No due date'}
+                            {occurrence.id === task.id && <span className="text-xs text-muted-foreground">(this task)</span>}
+                          </span>
+                          <Badge className={statusColors[occurrence.status as keyof typeof statusColors] || statusColors.open}>
+                            {occurrence.status.replace('_', ' ')}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Timestamps */}
             <div className="flex items-center gap-4 text-xs text-muted-foreground">
               {task.created_at && (
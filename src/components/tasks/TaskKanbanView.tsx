@@ -4,8 +4,9 @@ import { Task, TaskStatus, TaskModuleType } from '@/types/task';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Edit, Trash2, Calendar, User, Building2, Briefcase, Users, FileText } from 'lucide-react';
+import { Edit, Trash2, Calendar, User, Building2, Briefcase, Users, FileText, Repeat } from 'lucide-react';
 import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { getRecurrenceLabel, isTaskInSeries } from '@/utils/taskRecurrence';
 
 interface TaskKanbanViewProps {
   tasks: Task[];
@@ -132,6 +133,11 @@ export const TaskKanbanView = ({
                                     <span className="font-medium text-sm line-clamp-2">
                                       {task.title}
                                     </span>
+                                    {isTaskInSeries(task) && (
+                                      <span title={getRecurrenceLabel(task)} className="shrink-0">
+                                        <Repeat className="h-3 w-3 text-muted-foreground" />
+                                      </span>
+                                    )}
                                   </div>
                                 </div>
 
@@ -39,6 +39,7 @@ import {
   ChevronRight,
   ListTodo,
   ExternalLink,
+  Repeat,
 } from 'lucide-react';
 import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
 import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
@@ -47,6 +48,7 @@ import { RowActionsDropdown } from '@/components/RowActionsDropdown';
 import { HighlightedText } from '@/components/shared/HighlightedText';
 import { ClearFiltersButton } from '@/components/shared/ClearFiltersButton';
 import { getTaskStatusColor, getTaskPriorityColor, getModuleTypeColor, getTaskStatusLabel } from '@/utils/statusBadgeUtils';
+import { getRecurrenceLabel, isTaskInSeries } from '@/utils/taskRecurrence';
 
 interface TaskListViewProps {
   tasks: Task[];
@@ -476,14 +478,21 @@ export const TaskListView = ({
                       )}
                       {visibleColumns.includes('title') && (
                         <TableCell className="px-4 py-3">
-                          <button
-                            onClick={() => setViewingTask(task)}
-                            className={`text-primary hover:underline font-medium text-left truncate ${
-                              task.status === 'completed' ? 'text-muted-foreground' : ''
-                            }`}
-                          >
-                            <HighlightedText text={task.title} highlight={searchTerm} />
-                          </button>
+                          <div className="flex items-center gap-1.5 min-w-0">
+                            <button
+                              onClick={() => setViewingTask(task)}
+                              className={`text-primary hover:underline font-medium text-left truncate ${
+                                task.status === 'completed' ? 'text-muted-foreground' : ''
+                              }`}
+                            >
+                              <HighlightedText text={task.title} highlight={searchTerm} />
+                            </button>
+                            {isTaskInSeries(task) && (
+                              <span title={getRecurrenceLabel(task)} className="shrink-0">
+                                <Repeat className="h-3.5 w-3.5 text-muted-foreground" />
+                              </span>
+                            )}
+                          </div>
                         </TableCell>
                       )}
                       {visibleColumns.includes('status') && (
@@ -4,7 +4,8 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
-import { Task, CreateTaskData, TaskStatus, TaskPriority, TaskModuleType, TaskModalContext } from '@/types/task';
+import { Task, CreateTaskData, TaskStatus, TaskPriority, TaskModuleType, TaskModalContext, TaskRecurrence, TaskSeriesScope } from '@/types/task';
+import { TASK_RECURRENCE_OPTIONS, isTaskInSeries } from '@/utils/taskRecurrence';
 import { format } from 'date-fns';
 import {
   Dialog,
@@ -37,7 +38,16 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
-import { Loader2, CalendarIcon, Plus, User } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, CalendarIcon, Plus, User, Repeat } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { AccountModal } from '@/components/AccountModal';
 import { ContactModal } from '@/components/ContactModal';
@@ -73,7 +83,12 @@ const taskSchema = z.object({
   lead_id: z.string().optional(),
   meeting_id: z.string().optional(),
   deal_id: z.string().optional(),
-});
+  recurrence: z.enum(['none', 'daily', 'weekly', 'monthly', 'yearly']),
+  recurrence_end_date: z.string().optional(),
+}).refine(
+  data => data.recurrence === 'none' || !data.recurrence_end_date || !data.due_date || data.recurrence_end_date >= data.due_date,
+  { message: 'End date must be on or after the due date', path: ['recurrence_end_date'] }
+);
 
 type TaskFormData = z.infer<typeof taskSchema>;
 
@@ -82,7 +97,7 @@ interface TaskModalProps {
   onOpenChange: (open: boolean) => void;
   task?: Task | null;
   onSubmit: (data: CreateTaskData) => Promise<any>;
-  onUpdate?: (taskId: string, data: Partial<Task>, originalTask?: Task) => Promise<boolean>;
+  onUpdate?: (taskId: string, data: Partial<Task>, originalTask?: Task, scope?: TaskSeriesScope) => Promise<boolean>;
   context?: TaskModalContext;
   nested?: boolean;
 }
@@ -106,6 +121,9 @@ export const TaskModal = ({
   const [meetings, setMeetings] = useState<{ id: string; subject: string; start_time: string }[]>([]);
   const [deals, setDeals] = useState<{ id: string; deal_name: string; stage: string }[]>([]);
   const [calendarOpen, setCalendarOpen] = useState(false);
+  const [endCalendarOpen, setEndCalendarOpen] = useState(false);
+  // Edit to a recurring task waiting for the user to pick which occurrences it applies to
+  const [pendingSeriesUpdate, setPendingSeriesUpdate] = useState<Partial<Task> | null>(null);
 
   // Modal states for creating new entities
   const [accountModalOpen, setAccountModalOpen] = useState(false);
@@ -128,10 +146,13 @@ export const TaskModal = ({
       lead_id: '',
       meeting_id: '',
       deal_id: '',
+      recurrence: 'none',
+      recurrence_end_date: '',
     },
   });
 
   const selectedModule = form.watch('module_type');
+  const selectedRecurrence = form.watch('recurrence');
   const isModuleLocked = context?.locked && context?.module;
 
   // Fetch current user's display name
@@ -170,6 +191,8 @@ export const TaskModal = ({
           lead_id: task.lead_id || '',
           meeting_id: task.meeting_id || '',
           deal_id: task.deal_id || '',
+          recurrence: task.recurrence || 'none',
+          recurrence_end_date: task.recurrence_end_date || '',
         });
       } else {
         form.reset({
@@ -186,6 +209,8 @@ export const TaskModal = ({
           lead_id: context?.module === 'leads' ? context?.recordId : '',
           meeting_id: context?.module === 'meetings' ? context?.recordId : '',
           deal_id: context?.module === 'deals' ? context?.recordId : '',
+          recurrence: 'none',
+          recurrence_end_date: '',
         });
       }
     }
@@ -234,6 +259,24 @@ export const TaskModal = ({
     setLeadModalOpen(false);
   };
 
+  const saveUpdate = async (taskData: Partial<Task>, scope?: TaskSeriesScope) => {
+    if (!task || !onUpdate) return;
+    setLoading(true);
+    try {
+      if (await onUpdate(task.id, taskData, task, scope)) {
+        onOpenChange(false);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSeriesScope = async (scope: TaskSeriesScope) => {
+    const taskData = pendingSeriesUpdate;
+    setPendingSeriesUpdate(null);
+    if (taskData) await saveUpdate(taskData, scope);
+  };
+
   const handleSubmit = async (data: TaskFormData) => {
     setLoading(true);
     try {
@@ -255,8 +298,16 @@ export const TaskModal = ({
         lead_id: data.lead_id || undefined,
         meeting_id: data.meeting_id || undefined,
         deal_id: data.deal_id || undefined,
+        recurrence: data.recurrence as TaskRecurrence,
+        recurrence_end_date: data.recurrence !== 'none' && data.recurrence_end_date ? data.recurrence_end_date : null,
       };
 
+      // Editing part of a series - ask whether the change applies to later occurrences too
+      if (task && onUpdate && isTaskInSeries(task)) {
+        setPendingSeriesUpdate(taskData);
+        return;
+      }
+
       let success = false;
       if (task && onUpdate) {
         success = await onUpdate(task.id, taskData, task);
@@ -700,7 +751,95 @@ export const TaskModal = ({
                 />
               </div>
 
-              {/* Row 5: Description */}
+              {/* Row 5: Recurrence */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="recurrence"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Repeat</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <div className="flex items-center gap-2">
+                              <Repeat className="h-4 w-4 text-muted-foreground" />
+                              <SelectValue placeholder="Does not repeat" />
+                            </div>
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {TASK_RECURRENCE_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {selectedRecurrence !== 'none' && (
+                  <FormField
+                    control={form.control}
+                    name="recurrence_end_date"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ends On</FormLabel>
+                        <Popover open={endCalendarOpen} onOpenChange={setEndCalendarOpen}>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button
+                                variant="outline"
+                                className={cn(
+                                  "w-full justify-start text-left font-normal h-8",
+                                  !field.value && "text-muted-foreground"
+                                )}
+                              >
+                                <CalendarIcon className="mr-2 h-4 w-4" />
+                                {field.value ? format(new Date(field.value), 'MMM d, yyyy') : 'Never'}
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0 pointer-events-auto" align="start">
+                            <Calendar
+                              mode="single"
+                              selected={field.value ? new Date(field.value) : undefined}
+                              onSelect={(date) => {
+                                field.onChange(date ? format(date, 'yyyy-MM-dd') : '');
+                                setEndCalendarOpen(false);
+                              }}
+                              initialFocus
+                              className="pointer-events-auto"
+                            />
+                            {field.value && (
+                              <div className="border-t p-2">
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  className="w-full"
+                                  onClick={() => {
+                                    field.onChange('');
+                                    setEndCalendarOpen(false);
+                                  }}
+                                >
+                                  Never ends
+                                </Button>
+                              </div>
+                            )}
+                          </PopoverContent>
+                        </Popover>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              {/* Row 6: Description */}
               <FormField
                 control={form.control}
                 name="description"
@@ -719,7 +858,7 @@ export const TaskModal = ({
                 )}
               />
 
-              {/* Row 6: Created By (Read-only) */}
+              {/* Row 7: Created By (Read-only) */}
               <div className="pt-2 border-t border-border">
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <User className="h-4 w-4" />
@@ -748,6 +887,27 @@ export const TaskModal = ({
         </DialogContent>
       </Dialog>
 
+      {/* Series edit scope */}
+      <AlertDialog open={!!pendingSeriesUpdate} onOpenChange={(isOpen) => !isOpen && setPendingSeriesUpdate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Edit Recurring Task</AlertDialogTitle>
+            <AlertDialogDescription>
+              This task is part of a recurring series. Apply your changes to this occurrence only, or to this and all future occurrences?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button variant="outline" onClick={() => handleSeriesScope('occurrence')}>
+              This Occurrence
+            </Button>
+            <Button onClick={() => handleSeriesScope('future')}>
+              All Future Occurrences
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Nested Modals */}
       <AccountModal
         open={accountModalOpen}
@@ -108,7 +108,6 @@ export const getColumnConfig = (table: string): ColumnConfig => {
       ],
       required: ['deal_name', 'stage'],
       enums: {
-        stage: ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'],
         currency_type: ['EUR', 'USD', 'INR'],
         customer_challenges: ['Open', 'Ongoing', 'Done'],
         relationship_strength: ['Low', 'Medium', 'High'],
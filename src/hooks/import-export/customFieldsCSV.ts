@@ -0,0 +1,101 @@
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import { getColumnConfig } from './columnConfig';
+import {
+  CustomFieldDefinition,
+  CustomFieldEntityType,
+  CustomFieldValues,
+  getCustomFieldValues,
+  isEmptyCustomFieldValue,
+  matchCustomFieldHeader,
+  parseCustomFieldValue,
+} from '@/utils/customFieldUtils';
+
+const ENTITY_TABLES: Record<CustomFieldEntityType, string> = {
+  lead: 'leads',
+  contact: 'contacts',
+  account: 'accounts',
+  deal: 'deals',
+};
+
+export const getCustomFieldEntityForTable = (tableName: string): CustomFieldEntityType | undefined =>
+  (Object.keys(ENTITY_TABLES) as CustomFieldEntityType[]).find(entityType => ENTITY_TABLES[entityType] === tableName);
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9_]/g, '_');
+
+// Built-in columns take precedence, so a custom field can never shadow them on import
+export const isReservedCustomFieldName = (entityType: CustomFieldEntityType, fieldName: string) =>
+  getColumnConfig(ENTITY_TABLES[entityType]).allowedColumns.includes(normalizeHeader(fieldName));
+
+// Visible custom fields included in CSV files - a failed lookup exports/imports built-in columns only
+export const fetchCSVCustomFields = async (entityType: CustomFieldEntityType): Promise<CustomFieldDefinition[]> => {
+  try {
+    const fields = await fetchCustomFields(entityType);
+    return fields.filter(field => field.is_visible);
+  } catch (error) {
+    console.error('Failed to load custom fields for CSV:', error);
+    return [];
+  }
+};
+
+// Custom field columns are exported under their labels
+export const getCustomFieldCSVHeaders = (fields: CustomFieldDefinition[]) =>
+  fields.map(field => field.field_label);
+
+export const getCustomFieldCSVValue = (field: CustomFieldDefinition, record: { custom_fields?: unknown }): string => {
+  const value = getCustomFieldValues(record)[field.field_name];
+  if (isEmptyCustomFieldValue(value)) return '';
+
+  switch (field.field_type) {
+    case 'boolean':
+      return value === true ? 'Yes' : 'No';
+    case 'multiselect':
+      return Array.isArray(value) ? value.join('; ') : String(value);
+    default:
+      return String(value);
+  }
+};
+
+export interface CustomFieldCSVResult {
+  values: CustomFieldValues;
+  errors: string[];
+  // Whether the row carried any custom field columns at all
+  hasValues: boolean;
+}
+
+/**
+ * Pick custom field columns out of a parsed CSV row, matching headers by label
+ * or field name. Values that don't fit the field type are reported as errors.
+ */
+export const readCustomFieldCSVValues = (
+  entityType: CustomFieldEntityType,
+  rowObj: Record<string, unknown>,
+  fields: CustomFieldDefinition[]
+): CustomFieldCSVResult => {
+  const result: CustomFieldCSVResult = { values: {}, errors: [], hasValues: false };
+  if (fields.length === 0) return result;
+
+  Object.entries(rowObj).forEach(([header, raw]) => {
+    if (isReservedCustomFieldName(entityType, header)) return;
+
+    const field = matchCustomFieldHeader(fields, header) ?? matchCustomFieldHeader(fields, normalizeHeader(header));
+    if (!field) return;
+
+    const rawValue = raw === null || raw === undefined ? '' : String(raw);
+    const parsed = parseCustomFieldValue(field, rawValue);
+    if (parsed === undefined) {
+      result.errors.push(`Invalid value "${rawValue}" for ${field.field_label}`);
+      return;
+    }
+
+    result.values[field.field_name] = parsed;
+    result.hasValues = true;
+  });
+
+  return result;
+};
+
+// Imported values overwrite matching keys; fields absent from the CSV keep their stored value
+export const mergeCustomFieldValues = (existing: unknown, imported: CustomFieldValues): CustomFieldValues => ({
+  ...getCustomFieldValues({ custom_fields: existing }),
+  ...imported,
+});
@@ -1,5 +1,8 @@
 
 import { GenericCSVExporter } from './genericCSVExporter';
+import { fetchCSVCustomFields } from './customFieldsCSV';
+import { fetchCurrencyConversion } from '@/hooks/useCurrencyConversion';
+import { convertAmount, getDealRateDate } from '@/utils/currencyConversion';
 
 // Exact field order as specified - Added account_id and contact_id
 const DEALS_EXPORT_FIELDS = [
@@ -15,6 +18,13 @@ const DEALS_EXPORT_FIELDS = [
   'rfq_received_date', 'proposal_due_date', 'rfq_status', 'account_id', 'contact_id'
 ];
 
+// Reporting-currency copies of the amount fields; import ignores them
+const CONVERTED_AMOUNT_FIELDS = ['total_contract_value', 'total_revenue'];
+const CONVERTED_EXPORT_FIELDS = [
+  'reporting_currency',
+  ...CONVERTED_AMOUNT_FIELDS.map(field => `${field}_converted`),
+];
+
 export class DealsCSVExporter {
   private genericExporter: GenericCSVExporter;
 
@@ -30,7 +40,28 @@ export class DealsCSVExporter {
     }
 
     // Export deals directly without action items JSON
-    await this.genericExporter.exportToCSV(deals, filename, DEALS_EXPORT_FIELDS);
+    const [customFields, { reportingCurrency, rates }] = await Promise.all([
+      fetchCSVCustomFields('deal'),
+      fetchCurrencyConversion(),
+    ]);
+
+    // Converted columns stay empty when no rate exists for the deal's currency
+    const dealsWithConversion = deals.map(deal => {
+      const converted: Record<string, string | number> = { reporting_currency: reportingCurrency };
+      CONVERTED_AMOUNT_FIELDS.forEach(field => {
+        if (deal[field] === null || deal[field] === undefined || deal[field] === '') return;
+        const result = convertAmount(rates, Number(deal[field]), deal.currency_type, reportingCurrency, getDealRateDate(deal));
+        converted[`${field}_converted`] = result.converted ? Math.round(result.amount * 100) / 100 : '';
+      });
+      return { ...deal, ...converted };
+    });
+
+    await this.genericExporter.exportToCSV(
+      dealsWithConversion,
+      filename,
+      [...DEALS_EXPORT_FIELDS, ...CONVERTED_EXPORT_FIELDS],
+      customFields
+    );
     console.log('DealsCSVExporter: Export completed successfully with YYYY-MM-DD date format');
   }
 }
@@ -3,6 +3,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { CSVParser } from '@/utils/csvParser';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { CustomFieldDefinition } from '@/utils/customFieldUtils';
+import { fetchCSVCustomFields, mergeCustomFieldValues, readCustomFieldCSVValues } from './customFieldsCSV';
 
 export interface DealsProcessingOptions {
   userId: string;
@@ -18,6 +20,7 @@ export interface DealsProcessingResult {
 
 export class DealsCSVProcessor {
   private userIdMap: Record<string, string> = {};
+  private customFields: CustomFieldDefinition[] = [];
 
   async processCSV(csvText: string, options: DealsProcessingOptions): Promise<DealsProcessingResult> {
     console.log('DealsCSVProcessor: Starting processing with standardized YYYY-MM-DD date format');
@@ -35,6 +38,8 @@ export class DealsCSVProcessor {
       this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('DealsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
 
+      this.customFields = await fetchCSVCustomFields('deal');
+
       const result: DealsProcessingResult = {
         successCount: 0,
         updateCount: 0,
@@ -116,10 +121,17 @@ export class DealsCSVProcessor {
           continue;
         }
 
+        const customFieldResult = readCustomFieldCSVValues('deal', rowObj, this.customFields);
+        if (customFieldResult.errors.length > 0) {
+          result.errorCount++;
+          result.errors.push(`Row ${actualRowNumber}: ${customFieldResult.errors.join(', ')}`);
+          continue;
+        }
+
         // Check for existing deal by name
         const { data: existingDeals } = await supabase
           .from('deals')
-          .select('id')
+          .select('id, custom_fields')
           .eq('deal_name', dealRecord.deal_name)
           .limit(1);
 
@@ -128,6 +140,9 @@ export class DealsCSVProcessor {
         if (existingDeals && existingDeals.length > 0) {
           // Update existing deal
           dealId = existingDeals[0].id;
+          if (customFieldResult.hasValues) {
+            dealRecord.custom_fields = mergeCustomFieldValues(existingDeals[0].custom_fields, customFieldResult.values);
+          }
           const { error: updateError } = await supabase
             .from('deals')
             .update(dealRecord)
@@ -143,7 +158,8 @@ export class DealsCSVProcessor {
           // Insert new deal
           const dealToInsert = {
             deal_name: dealRecord.deal_name,
-            stage: dealRecord.stage || 'Lead',
+            // Without a stage, the column default puts the deal in the first open stage
+            stage: dealRecord.stage || undefined,
             project_name: dealRecord.project_name,
             customer_name: dealRecord.customer_name,
             lead_name: dealRecord.lead_name,
@@ -183,6 +199,7 @@ export class DealsCSVProcessor {
             rfq_received_date: dealRecord.rfq_received_date,
             proposal_due_date: dealRecord.proposal_due_date,
             rfq_status: dealRecord.rfq_status,
+            custom_fields: customFieldResult.values,
             created_by: dealRecord.created_by,
             modified_by: dealRecord.modified_by,
             created_at: dealRecord.created_at,
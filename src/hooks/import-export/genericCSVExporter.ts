@@ -2,10 +2,12 @@
 import { downloadCSV } from '@/utils/csvUtils';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { CustomFieldDefinition } from '@/utils/customFieldUtils';
+import { getCustomFieldCSVHeaders, getCustomFieldCSVValue } from './customFieldsCSV';
 
 export class GenericCSVExporter {
   
-  async exportToCSV(data: any[], filename: string, fieldsOrder: string[]) {
+  async exportToCSV(data: any[], filename: string, fieldsOrder: string[], customFields: CustomFieldDefinition[] = []) {
     console.log(`GenericCSVExporter: Starting export of ${data.length} records`);
     
     if (!data || data.length === 0) {
@@ -17,12 +19,12 @@ export class GenericCSVExporter {
     const userNameMap = await UserNameUtils.fetchUserDisplayNames(userIds);
     console.log('GenericCSVExporter: Fetched display names for', Object.keys(userNameMap).length, 'users');
 
-    // Create CSV header row - exact field order
-    const headers = fieldsOrder;
+    // Create CSV header row - exact field order, custom fields last
+    const headers = [...fieldsOrder, ...getCustomFieldCSVHeaders(customFields)];
 
     // Convert data to CSV rows with proper formatting
     const csvRows = data.map((record, index) => {
-      return fieldsOrder.map(field => {
+      const values = fieldsOrder.map(field => {
         let value = record[field];
         
         // Format ID (shortened)
@@ -43,6 +45,8 @@ export class GenericCSVExporter {
         // Use existing date formatting for date-only fields
         return DateFormatUtils.processFieldForExport(field, value);
       });
+
+      return [...values, ...customFields.map(field => getCustomFieldCSVValue(field, record))];
     });
 
     // Combine headers and data
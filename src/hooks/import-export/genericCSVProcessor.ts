@@ -7,6 +7,13 @@ import { createDuplicateChecker } from './duplicateChecker';
 import { LeadsCSVProcessor } from './leadsCSVProcessor';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { CustomFieldDefinition } from '@/utils/customFieldUtils';
+import {
+  fetchCSVCustomFields,
+  getCustomFieldEntityForTable,
+  mergeCustomFieldValues,
+  readCustomFieldCSVValues,
+} from './customFieldsCSV';
 
 export interface ProcessingOptions {
   tableName: string;
@@ -70,6 +77,10 @@ export class GenericCSVProcessor {
       const userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('GenericCSVProcessor: Fetched user IDs for', Object.keys(userIdMap).length, 'users');
 
+      // Headers that don't map to a built-in column may be custom fields
+      const customFieldEntity = getCustomFieldEntityForTable(options.tableName);
+      const customFields = customFieldEntity ? await fetchCSVCustomFields(customFieldEntity) : [];
+
       const result: ProcessingResult = {
         successCount: 0,
         updateCount: 0,
@@ -82,7 +93,7 @@ export class GenericCSVProcessor {
       const batchSize = 50;
       for (let i = 0; i < rows.length; i += batchSize) {
         const batch = rows.slice(i, i + batchSize);
-        const batchResult = await this.processBatch(batch, headers, columnMap, options, userIdMap);
+        const batchResult = await this.processBatch(batch, headers, columnMap, options, userIdMap, customFields);
         
         result.successCount += batchResult.successCount;
         result.updateCount += batchResult.updateCount;
@@ -110,10 +121,12 @@ export class GenericCSVProcessor {
     headers: string[],
     columnMap: Record<string, string>,
     options: ProcessingOptions,
-    userIdMap: Record<string, string>
+    userIdMap: Record<string, string>,
+    customFields: CustomFieldDefinition[]
   ): Promise<ProcessingResult> {
     
     const recordValidator = createRecordValidator(options.tableName);
+    const customFieldEntity = getCustomFieldEntityForTable(options.tableName);
     
     const result: ProcessingResult = {
       successCount: 0,
@@ -127,8 +140,12 @@ export class GenericCSVProcessor {
       try {
         // Convert row to object
         const rowObj: Record<string, any> = {};
+        const unmappedValues: Record<string, string> = {};
         headers.forEach((header, index) => {
           const dbColumn = columnMap[header];
+          if (!dbColumn && row[index] !== undefined) {
+            unmappedValues[header] = row[index];
+          }
           if (dbColumn && row[index] !== undefined) {
             let value = row[index];
             
@@ -152,12 +169,25 @@ export class GenericCSVProcessor {
           continue;
         }
 
+        const customFieldResult = customFieldEntity
+          ? readCustomFieldCSVValues(customFieldEntity, unmappedValues, customFields)
+          : null;
+        if (customFieldResult && customFieldResult.errors.length > 0) {
+          result.errorCount++;
+          const rowPreview = rowObj.contact_name || rowObj.lead_name || rowObj.id || 'Unknown';
+          result.errors.push(`${rowPreview}: ${customFieldResult.errors.join(', ')}`);
+          continue;
+        }
+        if (customFieldResult?.hasValues) {
+          rowObj.custom_fields = customFieldResult.values;
+        }
+
         // Check if record exists by ID (if ID is provided)
         let existingRecord = null;
         if (rowObj.id) {
           const { data: existing } = await supabase
             .from(options.tableName as any)
-            .select('id')
+            .select(customFieldResult?.hasValues ? 'id, custom_fields' : 'id')
             .eq('id', rowObj.id)
             .single();
           
@@ -167,6 +197,9 @@ export class GenericCSVProcessor {
         if (existingRecord) {
           // Update existing record
           const updateData = { ...rowObj };
+          if (customFieldResult?.hasValues) {
+            updateData.custom_fields = mergeCustomFieldValues(existingRecord.custom_fields, customFieldResult.values);
+          }
           updateData.modified_by = options.userId;
           updateData.modified_time = new Date().toISOString();
           
@@ -1,6 +1,7 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { fetchCSVCustomFields, getCustomFieldCSVHeaders, getCustomFieldCSVValue } from './customFieldsCSV';
 
 export class LeadsCSVExporter {
   async exportLeads(leads: any[]): Promise<string> {
@@ -34,10 +35,14 @@ export class LeadsCSVExporter {
     const userNameMap = await UserNameUtils.fetchUserDisplayNames(userIds);
     console.log('LeadsCSVExporter: Fetched display names for', Object.keys(userNameMap).length, 'users');
 
+    // Custom fields follow the built-in columns
+    const customFields = await fetchCSVCustomFields('lead');
+
     const csvRows = [];
     
     // Add headers in exact order
-    csvRows.push(fieldOrder.join(','));
+    const customHeaders = getCustomFieldCSVHeaders(customFields).map(header => this.escapeCSVValue(header));
+    csvRows.push([...fieldOrder, ...customHeaders].join(','));
 
     // Process each lead
     for (const lead of leads) {
@@ -69,6 +74,10 @@ export class LeadsCSVExporter {
         return this.escapeCSVValue(String(value));
       });
 
+      customFields.forEach(field => {
+        rowValues.push(this.escapeCSVValue(getCustomFieldCSVValue(field, lead)));
+      });
+
       csvRows.push(rowValues.join(','));
     }
 
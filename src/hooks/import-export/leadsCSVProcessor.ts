@@ -3,6 +3,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { CSVParser } from '@/utils/csvParser';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { CustomFieldDefinition } from '@/utils/customFieldUtils';
+import { fetchCSVCustomFields, mergeCustomFieldValues, readCustomFieldCSVValues } from './customFieldsCSV';
 
 export interface LeadsProcessingOptions {
   userId: string;
@@ -18,6 +20,7 @@ export interface LeadsProcessingResult {
 
 export class LeadsCSVProcessor {
   private userIdMap: Record<string, string> = {};
+  private customFields: CustomFieldDefinition[] = [];
 
   async processCSV(csvText: string, options: LeadsProcessingOptions): Promise<LeadsProcessingResult> {
     console.log('LeadsCSVProcessor: Starting processing');
@@ -35,6 +38,8 @@ export class LeadsCSVProcessor {
       this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('LeadsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
 
+      this.customFields = await fetchCSVCustomFields('lead');
+
       const result: LeadsProcessingResult = {
         successCount: 0,
         updateCount: 0,
@@ -101,6 +106,16 @@ export class LeadsCSVProcessor {
           continue;
         }
 
+        const customFieldResult = readCustomFieldCSVValues('lead', rowObj, this.customFields);
+        if (customFieldResult.errors.length > 0) {
+          result.errorCount++;
+          result.errors.push(`${leadRecord.lead_name}: ${customFieldResult.errors.join(', ')}`);
+          continue;
+        }
+        if (customFieldResult.hasValues) {
+          leadRecord.custom_fields = customFieldResult.values;
+        }
+
         let leadId: string;
 
         // Check for existing lead by ID only (as per requirements)
@@ -108,13 +123,16 @@ export class LeadsCSVProcessor {
           console.log('Checking for existing lead with ID:', rowObj.id);
           const { data: existingLead } = await supabase
             .from('leads')
-            .select('id')
+            .select('id, custom_fields')
             .eq('id', rowObj.id.trim())
             .single();
 
           if (existingLead) {
             // Update existing lead
             leadId = existingLead.id;
+            if (customFieldResult.hasValues) {
+              leadRecord.custom_fields = mergeCustomFieldValues(existingLead.custom_fields, customFieldResult.values);
+            }
             const { error: updateError } = await supabase
               .from('leads')
               .update(leadRecord)
@@ -3,6 +3,13 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import {
+  fetchCSVCustomFields,
+  getCustomFieldCSVHeaders,
+  getCustomFieldCSVValue,
+  mergeCustomFieldValues,
+  readCustomFieldCSVValues,
+} from './import-export/customFieldsCSV';
 
 const validStatuses = ['New', 'Working', 'Warm', 'Hot', 'Nurture', 'Closed-Won', 'Closed-Lost'];
 const validTags = [
@@ -67,6 +74,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
 
       // Fetch user IDs by names
       const userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
+      const customFields = await fetchCSVCustomFields('account');
       
       const records: any[] = [];
       const errors: string[] = [];
@@ -99,6 +107,12 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
           tags = tagList.filter((t: string) => validTags.includes(t));
         }
 
+        const customFieldResult = readCustomFieldCSVValues('account', record, customFields);
+        if (customFieldResult.errors.length > 0) {
+          errors.push(`Row ${i + 1}: ${customFieldResult.errors.join(', ')}`);
+          continue;
+        }
+
         // UUID validation regex
         const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -122,6 +136,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
           original_created_by: UserNameUtils.resolveUserId(record.created_by, userIdMap, user.id),
           account_owner: UserNameUtils.resolveUserId(record.account_owner, userIdMap, user.id),
           modified_by: user.id,
+          imported_custom_fields: customFieldResult.hasValues ? customFieldResult.values : null,
         });
       }
 
@@ -135,20 +150,23 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
       const insertErrors: string[] = [];
 
       for (const record of records) {
-        const { id, original_created_by, ...recordWithoutId } = record;
+        const { id, original_created_by, imported_custom_fields, ...recordWithoutId } = record;
 
         // If id is provided, try to update by id first
         if (id) {
           const { data: existingById } = await supabase
             .from('accounts')
-            .select('id')
+            .select('id, custom_fields')
             .eq('id', id)
             .maybeSingle();
 
           if (existingById) {
+            const customFieldUpdate = imported_custom_fields
+              ? { custom_fields: mergeCustomFieldValues(existingById.custom_fields, imported_custom_fields) }
+              : {};
             const { error: updateError } = await supabase
               .from('accounts')
-              .update({ ...recordWithoutId, created_by: original_created_by, updated_at: new Date().toISOString() })
+              .update({ ...recordWithoutId, ...customFieldUpdate, created_by: original_created_by, updated_at: new Date().toISOString() })
               .eq('id', id);
             
             if (updateError) {
@@ -163,14 +181,17 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         // Otherwise, check by company_name
         const { data: existing } = await supabase
           .from('accounts')
-          .select('id')
+          .select('id, custom_fields')
           .eq('company_name', record.company_name)
           .maybeSingle();
 
         if (existing) {
+          const customFieldUpdate = imported_custom_fields
+            ? { custom_fields: mergeCustomFieldValues(existing.custom_fields, imported_custom_fields) }
+            : {};
           const { error: updateError } = await supabase
             .from('accounts')
-            .update({ ...recordWithoutId, created_by: original_created_by, updated_at: new Date().toISOString() })
+            .update({ ...recordWithoutId, ...customFieldUpdate, created_by: original_created_by, updated_at: new Date().toISOString() })
             .eq('id', existing.id);
           
           if (updateError) {
@@ -182,6 +203,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
           // For new inserts, MUST use current user as created_by (RLS requirement)
           const insertData = {
             ...recordWithoutId,
+            ...(imported_custom_fields ? { custom_fields: imported_custom_fields } : {}),
             created_by: user.id, // RLS requires created_by = auth.uid()
           };
           
@@ -281,11 +303,14 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         }
       });
 
+      const customFields = await fetchCSVCustomFields('account');
+
       const headers = [
         'ID', 'Company Name', 'Email', 'Phone', 'Company Type', 'Industry', 
         'Tags', 'Country', 'Region', 'Status', 'Website', 'Notes',
         'Last Activity Date', 'Linked Contacts', 'Linked Deals', 'Linked Leads', 'Tasks Count',
-        'Account Owner', 'Created By', 'Modified By', 'Created At', 'Updated At'
+        'Account Owner', 'Created By', 'Modified By', 'Created At', 'Updated At',
+        ...getCustomFieldCSVHeaders(customFields).map(escapeCSVField)
       ];
 
       const csvLines = [headers.join(',')];
@@ -314,6 +339,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
           account.modified_by ? (userNameMap[account.modified_by] || '') : '',
           account.created_at ? format(new Date(account.created_at), 'yyyy-MM-dd HH:mm:ss') : '',
           account.updated_at ? format(new Date(account.updated_at), 'yyyy-MM-dd HH:mm:ss') : '',
+          ...customFields.map(field => escapeCSVField(getCustomFieldCSVValue(field, account))),
         ];
         csvLines.push(row.join(','));
       }
@@ -0,0 +1,149 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import { toast } from 'sonner';
+import { ApprovalStep, canUserActOnStep } from '@/utils/approvalUtils';
+
+export interface ApprovalAction {
+  id: string;
+  step_number: number;
+  approver_id: string;
+  action: string;
+  comments: string | null;
+  acted_at: string | null;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  workflow_id: string | null;
+  entity_type: string;
+  entity_id: string;
+  entity_name: string | null;
+  action_type: string;
+  pending_changes: Record<string, unknown>;
+  current_step: number;
+  status: string;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  completed_at: string | null;
+  workflow_name: string;
+  approval_steps: ApprovalStep[];
+  actions: ApprovalAction[];
+}
+
+export const useApprovalRequests = () => {
+  const { user } = useAuth();
+  const { userRole } = usePermissions();
+  const queryClient = useQueryClient();
+
+  const { data: requests = [], isLoading: loading, refetch } = useQuery({
+    queryKey: ['approval-requests'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('approval_requests')
+        .select(`
+          *,
+          approval_workflows:workflow_id (name, approval_steps),
+          approval_actions (*)
+        `)
+        .order('submitted_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(item => ({
+        ...item,
+        pending_changes: (item.pending_changes || {}) as Record<string, unknown>,
+        current_step: item.current_step ?? 1,
+        status: item.status || 'pending',
+        workflow_name: item.approval_workflows?.name || 'Deleted workflow',
+        approval_steps: (item.approval_workflows?.approval_steps as unknown as ApprovalStep[]) || [],
+        actions: [...(item.approval_actions || [])].sort((a, b) =>
+          (a.acted_at || '').localeCompare(b.acted_at || '')
+        ),
+      })) as ApprovalRequest[];
+    },
+    enabled: !!user,
+    staleTime: 30 * 1000,
+  });
+
+  const awaitingMyAction = useMemo(() => {
+    if (!user) return [];
+    return requests.filter(request => {
+      if (request.status !== 'pending') return false;
+      const step = request.approval_steps.find(s => s.step === request.current_step);
+      return canUserActOnStep(step, user.id, userRole, request.submitted_by);
+    });
+  }, [requests, user, userRole]);
+
+  const mySubmissions = useMemo(
+    () => requests.filter(request => request.submitted_by === user?.id),
+    [requests, user?.id]
+  );
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ request, action, comments }: {
+      request: ApprovalRequest;
+      action: 'approved' | 'rejected';
+      comments?: string;
+    }) => {
+      const { data, error } = await supabase.rpc('process_approval_action', {
+        p_request_id: request.id,
+        p_action: action,
+        p_comments: comments?.trim() || null,
+      });
+      if (error) throw error;
+      return { request, status: data as string };
+    },
+    onSuccess: ({ request, status }) => {
+      if (status === 'approved') {
+        toast.success('Request approved and change applied');
+        // The held change has now been written to the record
+        queryClient.invalidateQueries({ queryKey: [request.entity_type] });
+      } else if (status === 'rejected') {
+        toast.success('Request rejected');
+      } else {
+        toast.success('Step approved, sent to the next approver');
+      }
+      queryClient.invalidateQueries({ queryKey: ['approval-requests'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error processing approval action:', error);
+      toast.error(error.message || 'Failed to process approval');
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (requestId: string) => {
+      const { error } = await supabase
+        .from('approval_requests')
+        .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+        .eq('id', requestId)
+        .eq('status', 'pending');
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Approval request cancelled');
+      queryClient.invalidateQueries({ queryKey: ['approval-requests'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error cancelling approval request:', error);
+      toast.error('Failed to cancel approval request');
+    },
+  });
+
+  return {
+    requests,
+    awaitingMyAction,
+    mySubmissions,
+    loading,
+    refetch,
+    approve: (request: ApprovalRequest, comments?: string) =>
+      decideMutation.mutateAsync({ request, action: 'approved', comments }),
+    reject: (request: ApprovalRequest, comments?: string) =>
+      decideMutation.mutateAsync({ request, action: 'rejected', comments }),
+    cancel: (requestId: string) => cancelMutation.mutateAsync(requestId),
+    deciding: decideMutation.isPending,
+  };
+};
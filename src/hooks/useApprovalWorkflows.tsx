@@ -0,0 +1,103 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  ApprovalEntityType,
+  ApprovalTriggerEvent,
+  ApprovalWorkflowDefinition,
+  findMatchingWorkflow,
+} from '@/utils/approvalUtils';
+
+interface ApprovalCheckParams {
+  entityType: ApprovalEntityType;
+  // Pre-generated id for creates so the record can be inserted with it once approved
+  entityId: string;
+  entityName?: string | null;
+  changes: Record<string, unknown>;
+  // Omit for creates
+  currentRecord?: Record<string, unknown> | null;
+}
+
+export interface SubmittedApproval {
+  requestId: string;
+  workflowName: string;
+  event: ApprovalTriggerEvent;
+}
+
+const fetchEnabledWorkflows = async (): Promise<ApprovalWorkflowDefinition[]> => {
+  const { data, error } = await supabase
+    .from('approval_workflows')
+    .select('*')
+    .eq('is_enabled', true)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(item => ({
+    ...item,
+    trigger_conditions: item.trigger_conditions as unknown as ApprovalWorkflowDefinition['trigger_conditions'],
+    approval_steps: (item.approval_steps as unknown as ApprovalWorkflowDefinition['approval_steps']) || [],
+    is_enabled: item.is_enabled ?? false,
+  }));
+};
+
+/**
+ * Gate for create/update flows. When an enabled workflow matches the change,
+ * the change is stored on an approval request instead of being written, and
+ * the caller must skip its own insert/update.
+ */
+export const useApprovalWorkflows = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: workflows = [] } = useQuery({
+    queryKey: ['approval-workflows', 'enabled'],
+    queryFn: fetchEnabledWorkflows,
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const requestApprovalIfRequired = useCallback(async ({
+    entityType,
+    entityId,
+    entityName,
+    changes,
+    currentRecord,
+  }: ApprovalCheckParams): Promise<SubmittedApproval | null> => {
+    // Make sure the check never runs against a list that hasn't loaded yet
+    const enabledWorkflows = await queryClient.fetchQuery({
+      queryKey: ['approval-workflows', 'enabled'],
+      queryFn: fetchEnabledWorkflows,
+      staleTime: 5 * 60 * 1000,
+    });
+
+    const match = findMatchingWorkflow(enabledWorkflows, entityType, changes, currentRecord);
+    if (!match) return null;
+
+    const { data: requestId, error } = await supabase.rpc('submit_approval_request', {
+      p_workflow_id: match.workflow.id,
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+      p_entity_name: entityName || null,
+      p_action_type: match.event,
+      p_pending_changes: changes as Json,
+    });
+
+    if (error) throw error;
+
+    queryClient.invalidateQueries({ queryKey: ['approval-requests'] });
+
+    return {
+      requestId: requestId as string,
+      workflowName: match.workflow.name,
+      event: match.event,
+    };
+  }, [queryClient]);
+
+  return {
+    workflows,
+    requestApprovalIfRequired,
+  };
+};
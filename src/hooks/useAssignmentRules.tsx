@@ -0,0 +1,104 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+export type AssignmentEntityType = 'lead' | 'deal';
+export type AssignmentDistribution = 'round_robin' | 'load_balanced';
+
+export interface AssignmentRule {
+  id: string;
+  entity_type: AssignmentEntityType;
+  name: string;
+  priority: number;
+  regions: string[];
+  countries: string[];
+  industries: string[];
+  sources: string[];
+  distribution: AssignmentDistribution;
+  member_ids: string[];
+  last_assigned_to: string | null;
+  is_active: boolean;
+}
+
+export type AssignmentRuleInput = Omit<AssignmentRule, 'id' | 'last_assigned_to'> & { id?: string };
+
+export const useAssignmentRules = (entityType: AssignmentEntityType) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: rules = [], isLoading: loading } = useQuery({
+    queryKey: ['assignment-rules', entityType],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('assignment_rules')
+        .select('id, entity_type, name, priority, regions, countries, industries, sources, distribution, member_ids, last_assigned_to, is_active')
+        .eq('entity_type', entityType)
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as AssignmentRule[];
+    },
+    enabled: !!user,
+    staleTime: 60 * 1000,
+  });
+
+  const afterChange = (message: string) => {
+    toast.success(message);
+    queryClient.invalidateQueries({ queryKey: ['assignment-rules', entityType] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (rule: AssignmentRuleInput) => {
+      const { id, ...values } = rule;
+      const { error } = id
+        ? await supabase.from('assignment_rules').update(values).eq('id', id)
+        : await supabase.from('assignment_rules').insert({ ...values, created_by: user?.id });
+      if (error) throw new Error(error.message);
+      return rule;
+    },
+    onSuccess: (rule) => afterChange(rule.id ? 'Assignment rule updated' : 'Assignment rule added'),
+    onError: (error: Error) => {
+      console.error('Error saving assignment rule:', error);
+      toast.error(error.message || 'Failed to save rule');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (ruleId: string) => {
+      const { error } = await supabase.from('assignment_rules').delete().eq('id', ruleId);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => afterChange('Assignment rule deleted'),
+    onError: (error: Error) => {
+      console.error('Error deleting assignment rule:', error);
+      toast.error(error.message || 'Failed to delete rule');
+    },
+  });
+
+  // Rewrites priorities as 0..n-1 in the given order
+  const reorderMutation = useMutation({
+    mutationFn: async (orderedIds: string[]) => {
+      const results = await Promise.all(
+        orderedIds.map((id, priority) => supabase.from('assignment_rules').update({ priority }).eq('id', id))
+      );
+      const failed = results.find(result => result.error);
+      if (failed?.error) throw new Error(failed.error.message);
+    },
+    onSuccess: () => afterChange('Rule order saved'),
+    onError: (error: Error) => {
+      console.error('Error reordering assignment rules:', error);
+      toast.error(error.message || 'Failed to reorder rules');
+    },
+  });
+
+  return {
+    rules,
+    loading,
+    saveRule: saveMutation.mutateAsync,
+    deleteRule: deleteMutation.mutateAsync,
+    reorderRules: reorderMutation.mutateAsync,
+    saving: saveMutation.isPending || deleteMutation.isPending || reorderMutation.isPending,
+  };
+};
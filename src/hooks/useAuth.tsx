@@ -2,6 +2,7 @@
 import { useState, useEffect, createContext, useContext } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { getAuthSessionId, SESSION_END_REASON_KEY } from "@/utils/authSession";
 
 interface AuthContextType {
   user: User | null;
@@ -13,6 +14,9 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// How often an open tab asks the server whether its session is still valid
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -54,6 +58,52 @@ const cleanupAuthState = () => {
   }
 };
 
+// Helper to parse user agent
+const parseUserAgent = (ua: string) => {
+  let browser = 'Unknown', os = 'Unknown';
+  if (ua.includes('Chrome') && !ua.includes('Edg')) browser = 'Chrome';
+  else if (ua.includes('Firefox')) browser = 'Firefox';
+  else if (ua.includes('Safari') && !ua.includes('Chrome')) browser = 'Safari';
+  else if (ua.includes('Edg')) browser = 'Edge';
+  if (ua.includes('Windows')) os = 'Windows';
+  else if (ua.includes('Mac')) os = 'macOS';
+  else if (ua.includes('Linux')) os = 'Linux';
+  else if (ua.includes('Android')) os = 'Android';
+  else if (ua.includes('iPhone') || ua.includes('iPad')) os = 'iOS';
+  return { browser, os };
+};
+
+// Sign out locally after the server ended this session; it no longer exists there
+const endRevokedSession = async (reason: string) => {
+  sessionStorage.setItem(SESSION_END_REASON_KEY, reason);
+  cleanupAuthState();
+  try {
+    await supabase.auth.signOut({ scope: 'local' });
+  } catch (error) {
+    console.warn('Local sign out failed:', error);
+  }
+  window.location.replace('/auth');
+};
+
+// Register the session with user-admin, which also applies the session limit and new-device alert
+const trackSession = async (session: Session | null) => {
+  if (!session?.user?.id) return;
+  const userAgent = navigator.userAgent;
+
+  try {
+    const { data, error } = await supabase.functions.invoke('user-admin', {
+      method: 'POST',
+      body: { action: 'register-session', userAgent, deviceInfo: parseUserAgent(userAgent) },
+    });
+    if (error) throw error;
+    if (data?.status && data.status !== 'active') {
+      await endRevokedSession(data.status);
+    }
+  } catch (error) {
+    console.error('Error tracking session:', error);
+  }
+};
+
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
@@ -75,64 +125,14 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
-  // Helper to parse user agent
-  const parseUserAgent = (ua: string) => {
-    let browser = 'Unknown', os = 'Unknown';
-    if (ua.includes('Chrome') && !ua.includes('Edg')) browser = 'Chrome';
-    else if (ua.includes('Firefox')) browser = 'Firefox';
-    else if (ua.includes('Safari') && !ua.includes('Chrome')) browser = 'Safari';
-    else if (ua.includes('Edg')) browser = 'Edge';
-    if (ua.includes('Windows')) os = 'Windows';
-    else if (ua.includes('Mac')) os = 'macOS';
-    else if (ua.includes('Linux')) os = 'Linux';
-    else if (ua.includes('Android')) os = 'Android';
-    else if (ua.includes('iPhone') || ua.includes('iPad')) os = 'iOS';
-    return { browser, os };
-  };
-
-  // Track session in database
-  const trackSession = async (session: Session | null) => {
-    if (!session?.user?.id) return;
-    const token = session.access_token.substring(0, 20);
-    const userAgent = navigator.userAgent;
-    const deviceInfo = parseUserAgent(userAgent);
-    
-    try {
-      const { data: existing } = await supabase
-        .from('user_sessions')
-        .select('id')
-        .eq('user_id', session.user.id)
-        .eq('session_token', token)
-        .single();
-      
-      if (existing) {
-        await supabase.from('user_sessions')
-          .update({ last_active_at: new Date().toISOString(), is_active: true })
-          .eq('id', existing.id);
-      } else {
-        await supabase.from('user_sessions').insert({
-          user_id: session.user.id,
-          session_token: token,
-          user_agent: userAgent,
-          device_info: deviceInfo,
-          last_active_at: new Date().toISOString(),
-          is_active: true
-        });
-      }
-    } catch (error) {
-      console.error('Error tracking session:', error);
-    }
-  };
-
-  // Deactivate session on logout
+  // Mark every session of the user as signed out, matching the global sign out below
   const deactivateSession = async (session: Session | null) => {
     if (!session?.user?.id) return;
-    const token = session.access_token.substring(0, 20);
     try {
-      await supabase.from('user_sessions')
-        .update({ is_active: false })
-        .eq('user_id', session.user.id)
-        .eq('session_token', token);
+      await supabase.functions.invoke('user-admin', {
+        method: 'POST',
+        body: { action: 'revoke-sessions', scope: 'all', reason: 'signed_out' },
+      });
     } catch (error) {
       console.error('Error deactivating session:', error);
     }
@@ -175,8 +175,6 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         if (event === 'TOKEN_REFRESHED' && session) {
           setSession(session);
           setUser(session.user);
-          // Update last active time
-          setTimeout(() => trackSession(session), 0);
         }
         
         setLoading(false);
@@ -227,6 +225,67 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     };
   }, []);
 
+  const authSessionId = getAuthSessionId(session);
+
+  // Ask the server every minute (and when the tab regains focus) whether this
+  // session was revoked or went idle, reporting whether the user did anything
+  useEffect(() => {
+    if (!authSessionId) return;
+
+    let lastActivity = Date.now();
+    let lastCheck = Date.now();
+    let checking = false;
+
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+
+    const checkSession = async () => {
+      if (checking) return;
+      checking = true;
+      const active = lastActivity > lastCheck;
+      lastCheck = Date.now();
+      try {
+        const { data: status, error } = await supabase.rpc('check_user_session', {
+          p_auth_session_id: authSessionId,
+          p_active: active,
+        });
+        if (error) throw error;
+        if (status === 'unknown') {
+          const { data: { session: current } } = await supabase.auth.getSession();
+          await trackSession(current);
+        } else if (status && status !== 'active') {
+          await endRevokedSession(status);
+        }
+      } catch (error) {
+        // Offline or a transient error; the next check tries again
+        console.warn('Session check failed:', error);
+      } finally {
+        checking = false;
+      }
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') {
+        markActive();
+        checkSession();
+      }
+    };
+
+    const activityEvents = ['mousedown', 'keydown', 'scroll', 'touchstart'];
+    activityEvents.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    const intervalId = setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+    // Also registers a session that was never tracked, e.g. when sign-in navigated away first
+    checkSession();
+
+    return () => {
+      activityEvents.forEach(event => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', handleVisibility);
+      clearInterval(intervalId);
+    };
+  }, [authSessionId]);
+
   const signOut = async () => {
     try {
       // Deactivate session before sign out
@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { CalendarSchedule } from '@/utils/calendarAvailability';
+
+export { BLOCKING_STATUSES } from '@/utils/calendarAvailability';
+export type { BusyStatus, BusyItem, CalendarSchedule } from '@/utils/calendarAvailability';
+
+// Colleagues share the organizer's mail domain; only their calendars are readable
+export const getInternalEmails = (organizerEmail: string | undefined, emails: string[]): string[] => {
+  const domain = organizerEmail?.split('@')[1]?.toLowerCase();
+  if (!domain || !organizerEmail) return [];
+  const internal = emails.map(e => e.trim().toLowerCase()).filter(e => e.split('@')[1] === domain);
+  return [...new Set([organizerEmail.toLowerCase(), ...internal])];
+};
+
+/**
+ * Outlook free/busy of the given internal calendars between two instants, read
+ * through create-teams-meeting's getSchedule lookup.
+ */
+export const useCalendarAvailability = (emails: string[], windowStart: string, windowEnd: string) => {
+  const { user } = useAuth();
+
+  const { data: schedules = [], isLoading: loading, error } = useQuery({
+    queryKey: ['calendar-availability', emails, windowStart, windowEnd],
+    queryFn: async (): Promise<CalendarSchedule[]> => {
+      const { data, error } = await supabase.functions.invoke('create-teams-meeting', {
+        body: { action: 'get-schedule', schedules: emails, startTime: windowStart, endTime: windowEnd },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return (data?.schedules as CalendarSchedule[]) || [];
+    },
+    enabled: !!user && emails.length > 0 && !!windowStart && !!windowEnd,
+    staleTime: 60 * 1000,
+    retry: false,
+  });
+
+  return { schedules, loading, error };
+};
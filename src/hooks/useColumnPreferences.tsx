@@ -1,3 +1,4 @@
+import { useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
@@ -107,7 +108,8 @@ export const useColumnPreferences = ({ moduleName, defaultColumns }: UseColumnPr
 
   // Use saved columns if available, otherwise use defaults
   // Filter out any columns that no longer exist in defaultColumns and add any new ones
-  const columns = (() => {
+  // Memoized so callers syncing local state from it don't re-render in a loop
+  const columns = useMemo(() => {
     if (!savedColumns) return defaultColumns;
     
     const validFields = new Set(defaultColumns.map(dc => dc.field));
@@ -119,8 +121,13 @@ export const useColumnPreferences = ({ moduleName, defaultColumns }: UseColumnPr
     const savedFields = new Set(validSavedColumns.map(sc => sc.field));
     const missingColumns = defaultColumns.filter(dc => !savedFields.has(dc.field));
     
-    return [...validSavedColumns, ...missingColumns];
-  })();
+    // Keep labels in sync (custom field labels can be renamed)
+    const labels = new Map(defaultColumns.map(dc => [dc.field, dc.label]));
+    return [
+      ...validSavedColumns.map(sc => ({ ...sc, label: labels.get(sc.field) || sc.label })),
+      ...missingColumns,
+    ];
+  }, [savedColumns, defaultColumns]);
 
   return {
     columns,
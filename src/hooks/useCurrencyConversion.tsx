@@ -0,0 +1,206 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { formatCurrency } from '@/utils/formatUtils';
+import {
+  convertAmount,
+  DEFAULT_DEAL_CURRENCY,
+  ExchangeRate,
+  formatCurrencyBreakdown,
+  MoneyTotal,
+} from '@/utils/currencyConversion';
+
+export interface CurrencyConversionData {
+  reportingCurrency: string;
+  rates: ExchangeRate[];
+}
+
+export interface ExchangeRateInput {
+  id?: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+const DISPLAY_MODE_STORAGE_KEY = 'currency-display-mode';
+
+// Anything that sums deal amounts has to be recalculated when rates change
+const CONVERTED_QUERY_KEYS = [['currency-conversion'], ['yearly-revenue'], ['dashboard-stats'], ['user-deals-enhanced'], ['revenue-attainment'], ['forecast']];
+
+export const fetchCurrencyConversion = async (): Promise<CurrencyConversionData> => {
+  const [{ data: settings, error: settingsError }, { data: rates, error: ratesError }] = await Promise.all([
+    supabase.from('currency_settings').select('reporting_currency').order('created_at').limit(1).maybeSingle(),
+    supabase
+      .from('exchange_rates')
+      .select('id, from_currency, to_currency, rate, effective_date, source')
+      .order('effective_date', { ascending: false }),
+  ]);
+
+  if (settingsError) throw settingsError;
+  if (ratesError) throw ratesError;
+
+  return {
+    reportingCurrency: settings?.reporting_currency || DEFAULT_DEAL_CURRENCY,
+    rates: (rates || []) as ExchangeRate[],
+  };
+};
+
+/**
+ * Reporting currency, exchange rates and the user's choice between original and
+ * converted amounts. The choice is kept in the query cache (and localStorage) so
+ * every summary on the page flips together.
+ */
+export const useCurrencyConversion = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading: loading } = useQuery({
+    queryKey: ['currency-conversion'],
+    queryFn: fetchCurrencyConversion,
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: showConverted = true } = useQuery({
+    queryKey: ['currency-display-mode'],
+    queryFn: () => localStorage.getItem(DISPLAY_MODE_STORAGE_KEY) !== 'original',
+    staleTime: Infinity,
+  });
+
+  const reportingCurrency = data?.reportingCurrency || DEFAULT_DEAL_CURRENCY;
+  const rates = data?.rates;
+
+  const setShowConverted = useCallback((value: boolean) => {
+    localStorage.setItem(DISPLAY_MODE_STORAGE_KEY, value ? 'converted' : 'original');
+    queryClient.setQueryData(['currency-display-mode'], value);
+  }, [queryClient]);
+
+  // A single deal amount, converted at the rate for `on` when showing converted amounts
+  const formatAmount = useCallback((amount: number | null | undefined, currency: string | null | undefined, on?: string | null) => {
+    if (amount === null || amount === undefined) return '';
+    const source = currency || DEFAULT_DEAL_CURRENCY;
+    if (!showConverted) return formatCurrency(amount, source);
+    const result = convertAmount(rates || [], amount, source, reportingCurrency, on);
+    return formatCurrency(result.amount, result.currency);
+  }, [rates, reportingCurrency, showConverted]);
+
+  // Totals show one converted figure, or one figure per deal currency
+  const formatTotal = useCallback((total: MoneyTotal | null | undefined) => {
+    if (!total) return formatCurrency(0, showConverted ? reportingCurrency : DEFAULT_DEAL_CURRENCY);
+    if (!showConverted) {
+      return formatCurrencyBreakdown(total.original) || formatCurrency(0, reportingCurrency);
+    }
+    const unconverted = formatCurrencyBreakdown(total.unconverted);
+    const converted = formatCurrency(total.converted, reportingCurrency);
+    return unconverted ? `${converted} + ${unconverted}` : converted;
+  }, [reportingCurrency, showConverted]);
+
+  return {
+    reportingCurrency,
+    rates: rates || [],
+    loading,
+    showConverted,
+    setShowConverted,
+    formatAmount,
+    formatTotal,
+  };
+};
+
+export const useExchangeRates = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    CONVERTED_QUERY_KEYS.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+  };
+
+  const saveRateMutation = useMutation({
+    mutationFn: async (input: ExchangeRateInput) => {
+      const { id, ...values } = input;
+      const { error } = id
+        ? await supabase.from('exchange_rates').update({ ...values, source: 'manual' }).eq('id', id)
+        : await supabase.from('exchange_rates').insert({ ...values, source: 'manual', created_by: user?.id });
+      if (error) {
+        throw new Error(error.code === '23505'
+          ? `A ${values.from_currency}→${values.to_currency} rate for ${values.effective_date} already exists`
+          : error.message);
+      }
+      return input;
+    },
+    onSuccess: (input) => {
+      toast.success(input.id ? 'Exchange rate updated' : 'Exchange rate added');
+      invalidate();
+    },
+    onError: (error: Error) => {
+      console.error('Error saving exchange rate:', error);
+      toast.error(error.message || 'Failed to save exchange rate');
+    },
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: async (rateId: string) => {
+      const { error } = await supabase.from('exchange_rates').delete().eq('id', rateId);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      toast.success('Exchange rate deleted');
+      invalidate();
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting exchange rate:', error);
+      toast.error(error.message || 'Failed to delete exchange rate');
+    },
+  });
+
+  // Re-importing a file replaces the rates for the same pair and date
+  const importRatesMutation = useMutation({
+    mutationFn: async (rows: Omit<ExchangeRateInput, 'id'>[]) => {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert(
+          rows.map(row => ({ ...row, source: 'csv', created_by: user?.id })),
+          { onConflict: 'from_currency,to_currency,effective_date' }
+        );
+      if (error) throw new Error(error.message);
+      return rows.length;
+    },
+    onSuccess: (count) => {
+      toast.success(`Imported ${count} exchange rate${count === 1 ? '' : 's'}`);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      console.error('Error importing exchange rates:', error);
+      toast.error(error.message || 'Failed to import exchange rates');
+    },
+  });
+
+  const reportingCurrencyMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const { error } = await supabase
+        .from('currency_settings')
+        .update({ reporting_currency: currency, updated_by: user?.id })
+        .eq('id', '00000000-0000-0000-0000-000000000001');
+      if (error) throw new Error(error.message);
+      return currency;
+    },
+    onSuccess: (currency) => {
+      toast.success(`Reporting currency set to ${currency}`);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      console.error('Error updating reporting currency:', error);
+      toast.error(error.message || 'Failed to update reporting currency');
+    },
+  });
+
+  return {
+    saveRate: saveRateMutation.mutateAsync,
+    deleteRate: deleteRateMutation.mutateAsync,
+    importRates: importRatesMutation.mutateAsync,
+    setReportingCurrency: reportingCurrencyMutation.mutateAsync,
+    saving: saveRateMutation.isPending || deleteRateMutation.isPending || importRatesMutation.isPending || reportingCurrencyMutation.isPending,
+  };
+};
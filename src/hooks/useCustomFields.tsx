@@ -0,0 +1,72 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  CustomFieldDefinition,
+  CustomFieldEntityType,
+  CustomFieldType,
+  buildCustomFieldColumns,
+} from '@/utils/customFieldUtils';
+
+export const fetchCustomFields = async (entityType: CustomFieldEntityType): Promise<CustomFieldDefinition[]> => {
+  const { data, error } = await supabase
+    .from('crm_custom_fields')
+    .select('*')
+    .eq('entity_type', entityType)
+    .order('display_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(item => ({
+    id: item.id,
+    entity_type: item.entity_type as CustomFieldEntityType,
+    field_name: item.field_name,
+    field_label: item.field_label,
+    field_type: item.field_type as CustomFieldType,
+    field_options: Array.isArray(item.field_options) ? (item.field_options as string[]) : [],
+    is_required: item.is_required ?? false,
+    is_visible: item.is_visible ?? true,
+    display_order: item.display_order ?? 0,
+  }));
+};
+
+/**
+ * Custom field definitions for one entity. `fields` only holds the visible
+ * ones, which is what forms, tables, filters and CSV use.
+ */
+export const useCustomFields = (entityType: CustomFieldEntityType) => {
+  const { user } = useAuth();
+
+  const { data: allFields = [], isLoading } = useQuery({
+    queryKey: ['custom-fields', entityType],
+    queryFn: () => fetchCustomFields(entityType),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const fields = useMemo(() => allFields.filter(field => field.is_visible), [allFields]);
+
+  return { fields, allFields, isLoading };
+};
+
+// Default column list for a table with the entity's custom fields appended (hidden by default)
+export const useColumnsWithCustomFields = <T extends { field: string; order: number }>(
+  entityType: CustomFieldEntityType,
+  defaultColumns: T[]
+) => {
+  const { fields } = useCustomFields(entityType);
+
+  const customColumns = useMemo(
+    () => buildCustomFieldColumns(fields, defaultColumns.length),
+    [fields, defaultColumns.length]
+  );
+
+  const columns = useMemo(
+    () => [...defaultColumns, ...(customColumns as unknown as T[])],
+    [defaultColumns, customColumns]
+  );
+
+  return { columns, customColumns, customFields: fields };
+};
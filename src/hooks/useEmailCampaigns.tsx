@@ -0,0 +1,135 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+export type CampaignAction = 'pause' | 'resume' | 'cancel';
+
+export interface EmailCampaign {
+  id: string;
+  name: string;
+  subject: string;
+  sender_email: string;
+  status: string;
+  throttle_per_minute: number;
+  total_recipients: number;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  counts: Record<'pending' | 'sending' | 'sent' | 'failed' | 'cancelled', number>;
+}
+
+export interface CampaignRecipientResult {
+  id: string;
+  recipient_type: string;
+  recipient_id: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  sent_at: string | null;
+  email: {
+    status: string;
+    open_count: number | null;
+    click_count: number | null;
+    opened_at: string | null;
+    clicked_at: string | null;
+    replied_at: string | null;
+    bounced_at: string | null;
+    bounce_reason: string | null;
+  } | null;
+}
+
+const ACTIVE_STATUSES = ['queued', 'sending'];
+
+export const isCampaignActive = (status: string) => ACTIVE_STATUSES.includes(status);
+
+export const useEmailCampaigns = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: campaigns = [], isLoading: loading, refetch } = useQuery({
+    queryKey: ['email-campaigns'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_campaigns')
+        .select('*, email_campaign_recipients (status)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(({ email_campaign_recipients, ...campaign }) => {
+        const counts = { pending: 0, sending: 0, sent: 0, failed: 0, cancelled: 0 };
+        (email_campaign_recipients || []).forEach(r => {
+          if (r.status in counts) counts[r.status as keyof typeof counts]++;
+        });
+        return { ...campaign, counts };
+      }) as EmailCampaign[];
+    },
+    enabled: !!user,
+    staleTime: 30 * 1000,
+    // Keep progress moving while the worker is sending
+    refetchInterval: (query) =>
+      (query.state.data as EmailCampaign[] | undefined)?.some(c => isCampaignActive(c.status)) ? 15 * 1000 : false,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ campaignId, action }: { campaignId: string; action: CampaignAction }) => {
+      const { error } = await supabase.rpc('set_email_campaign_status', {
+        p_campaign_id: campaignId,
+        p_action: action,
+      });
+      if (error) throw new Error(error.message);
+
+      // Resumed campaigns start again right away instead of on the next scheduled run
+      if (action === 'resume') {
+        supabase.functions.invoke('process-email-campaigns', { body: { campaignId } }).catch(() => undefined);
+      }
+      return action;
+    },
+    onSuccess: (action) => {
+      toast.success(action === 'pause' ? 'Campaign paused' : action === 'resume' ? 'Campaign resumed' : 'Campaign cancelled');
+      queryClient.invalidateQueries({ queryKey: ['email-campaigns'] });
+      queryClient.invalidateQueries({ queryKey: ['email-campaign-results'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error updating campaign:', error);
+      toast.error(error.message || 'Failed to update campaign');
+    },
+  });
+
+  return {
+    campaigns,
+    loading,
+    refetch,
+    setStatus: (campaignId: string, action: CampaignAction) => statusMutation.mutateAsync({ campaignId, action }),
+    updating: statusMutation.isPending,
+  };
+};
+
+export const useEmailCampaignResults = (campaignId: string | null, live: boolean) => {
+  const { data: recipients = [], isLoading: loading } = useQuery({
+    queryKey: ['email-campaign-results', campaignId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_campaign_recipients')
+        .select(`
+          id, recipient_type, recipient_id, recipient_email, recipient_name, status, attempts, last_error, next_attempt_at, sent_at,
+          email:email_history_id (status, open_count, click_count, opened_at, clicked_at, replied_at, bounced_at, bounce_reason)
+        `)
+        .eq('campaign_id', campaignId!)
+        .order('recipient_name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as CampaignRecipientResult[];
+    },
+    enabled: !!campaignId,
+    staleTime: 30 * 1000,
+    refetchInterval: live ? 15 * 1000 : false,
+  });
+
+  return { recipients, loading };
+};
@@ -0,0 +1,248 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+export type SequenceStepType = 'email' | 'wait' | 'task';
+
+export interface SequenceStep {
+  id?: string;
+  step_order: number;
+  step_type: SequenceStepType;
+  template_id: string | null;
+  wait_days: number | null;
+  task_title: string | null;
+  task_description: string | null;
+  task_due_days: number;
+}
+
+export interface EmailSequence {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  steps: SequenceStep[];
+  counts: Record<'active' | 'completed' | 'exited', number>;
+}
+
+export interface SequenceEnrollment {
+  id: string;
+  entity_type: 'lead' | 'contact';
+  entity_id: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  status: string;
+  exit_reason: string | null;
+  current_step: number;
+  next_run_at: string;
+  last_error: string | null;
+  enrolled_at: string;
+  finished_at: string | null;
+}
+
+export interface SequenceStepRun {
+  enrollment_id: string;
+  step_id: string | null;
+  step_order: number;
+  email: {
+    opened_at: string | null;
+    clicked_at: string | null;
+    replied_at: string | null;
+    bounced_at: string | null;
+  } | null;
+}
+
+export interface SequenceEnrollee {
+  type: 'lead' | 'contact';
+  id: string;
+  email: string | null;
+  name: string | null;
+}
+
+export interface SaveSequenceInput {
+  id?: string;
+  name: string;
+  description: string;
+  is_active: boolean;
+  steps: SequenceStep[];
+}
+
+export const EXIT_REASON_LABELS: Record<string, string> = {
+  replied: 'Replied',
+  bounced: 'Bounced',
+  meeting_booked: 'Meeting booked',
+  converted: 'Converted',
+  manual: 'Removed',
+  failed: 'Failed',
+};
+
+const STEP_COLUMNS = 'id, step_order, step_type, template_id, wait_days, task_title, task_description, task_due_days';
+
+export const useEmailSequences = (enabled = true) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: sequences = [], isLoading: loading } = useQuery({
+    queryKey: ['email-sequences'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_sequences')
+        .select(`*, email_sequence_steps (${STEP_COLUMNS}), email_sequence_enrollments (status)`)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(({ email_sequence_steps, email_sequence_enrollments, ...sequence }) => {
+        const counts = { active: 0, completed: 0, exited: 0 };
+        (email_sequence_enrollments || []).forEach(e => {
+          if (e.status in counts) counts[e.status as keyof typeof counts]++;
+        });
+        const steps = [...(email_sequence_steps || [])].sort((a, b) => a.step_order - b.step_order);
+        return { ...sequence, steps, counts };
+      }) as EmailSequence[];
+    },
+    enabled: !!user && enabled,
+    staleTime: 30 * 1000,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (input: SaveSequenceInput) => {
+      const { data, error } = await supabase.rpc('save_email_sequence', {
+        p_sequence_id: input.id ?? null,
+        p_name: input.name,
+        p_description: input.description,
+        p_is_active: input.is_active,
+        p_steps: input.steps.map(({ id, step_type, template_id, wait_days, task_title, task_description, task_due_days }) => ({
+          id, step_type, template_id, wait_days, task_title, task_description, task_due_days,
+        })),
+      });
+      if (error) throw new Error(error.message);
+      return data;
+    },
+    onSuccess: (_id, input) => {
+      toast.success(input.id ? 'Sequence updated' : 'Sequence created');
+      queryClient.invalidateQueries({ queryKey: ['email-sequences'] });
+      queryClient.invalidateQueries({ queryKey: ['email-sequence-dashboard'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error saving sequence:', error);
+      toast.error(error.message || 'Failed to save sequence');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (sequenceId: string) => {
+      const { error } = await supabase.from('email_sequences').delete().eq('id', sequenceId);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      toast.success('Sequence deleted');
+      queryClient.invalidateQueries({ queryKey: ['email-sequences'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting sequence:', error);
+      toast.error(error.message || 'Failed to delete sequence');
+    },
+  });
+
+  return {
+    sequences,
+    loading,
+    saveSequence: saveMutation.mutateAsync,
+    saving: saveMutation.isPending,
+    deleteSequence: deleteMutation.mutateAsync,
+  };
+};
+
+export const useSequenceDashboard = (sequenceId: string | null) => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading: loading } = useQuery({
+    queryKey: ['email-sequence-dashboard', sequenceId],
+    queryFn: async () => {
+      const { data: enrollments, error } = await supabase
+        .from('email_sequence_enrollments')
+        .select('id, entity_type, entity_id, recipient_email, recipient_name, status, exit_reason, current_step, next_run_at, last_error, enrolled_at, finished_at')
+        .eq('sequence_id', sequenceId!)
+        .order('enrolled_at', { ascending: false });
+      if (error) throw error;
+
+      const enrollmentIds = (enrollments || []).map(e => e.id);
+      let runs: SequenceStepRun[] = [];
+      if (enrollmentIds.length > 0) {
+        const { data: runData, error: runError } = await supabase
+          .from('email_sequence_step_runs')
+          .select('enrollment_id, step_id, step_order, email:email_history_id (opened_at, clicked_at, replied_at, bounced_at)')
+          .in('enrollment_id', enrollmentIds);
+        if (runError) throw runError;
+        runs = (runData || []) as SequenceStepRun[];
+      }
+
+      return { enrollments: (enrollments || []) as SequenceEnrollment[], runs };
+    },
+    enabled: !!sequenceId,
+    staleTime: 30 * 1000,
+  });
+
+  const exitMutation = useMutation({
+    mutationFn: async (enrollmentId: string) => {
+      const { error } = await supabase.rpc('exit_email_sequence_enrollment', { p_enrollment_id: enrollmentId });
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => {
+      toast.success('Removed from sequence');
+      queryClient.invalidateQueries({ queryKey: ['email-sequence-dashboard', sequenceId] });
+      queryClient.invalidateQueries({ queryKey: ['email-sequences'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error removing enrollment:', error);
+      toast.error(error.message || 'Failed to remove from sequence');
+    },
+  });
+
+  return {
+    enrollments: data?.enrollments ?? [],
+    runs: data?.runs ?? [],
+    loading,
+    exitEnrollment: exitMutation.mutateAsync,
+    exiting: exitMutation.isPending,
+  };
+};
+
+export const useEnrollInSequence = () => {
+  const queryClient = useQueryClient();
+
+  const enrollMutation = useMutation({
+    mutationFn: async ({ sequenceId, enrollees }: { sequenceId: string; enrollees: SequenceEnrollee[] }) => {
+      const { data, error } = await supabase.rpc('enroll_in_email_sequence', {
+        p_sequence_id: sequenceId,
+        p_entities: enrollees.map(e => ({ type: e.type, id: e.id, email: e.email, name: e.name })),
+      });
+      if (error) throw new Error(error.message);
+
+      // First steps go out right away instead of on the next scheduled run
+      supabase.functions.invoke('run-email-sequences').catch(() => undefined);
+      return { enrolled: data ?? 0, requested: enrollees.length };
+    },
+    onSuccess: ({ enrolled, requested }) => {
+      const skipped = requested - enrolled;
+      toast.success(
+        `Enrolled ${enrolled} recipient${enrolled === 1 ? '' : 's'}` +
+        (skipped > 0 ? ` (${skipped} skipped: no email, converted or already enrolled)` : '')
+      );
+      queryClient.invalidateQueries({ queryKey: ['email-sequences'] });
+      queryClient.invalidateQueries({ queryKey: ['email-sequence-dashboard'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error enrolling in sequence:', error);
+      toast.error(error.message || 'Failed to enroll in sequence');
+    },
+  });
+
+  return {
+    enroll: enrollMutation.mutateAsync,
+    enrolling: enrollMutation.isPending,
+  };
+};
@@ -0,0 +1,206 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { fetchCurrencyConversion } from '@/hooks/useCurrencyConversion';
+import { fetchPipelineStages } from '@/hooks/usePipelineStages';
+import { ForecastCategory } from '@/types/deal';
+import { buildForecastDeals, ForecastDealInput, ForecastOverride, SnapshotDealRow } from '@/utils/forecasting';
+import { Quarter } from '@/utils/revenueAttainment';
+
+const PAGE_SIZE = 1000;
+
+const DEAL_COLUMNS = [
+  'id', 'deal_name', 'stage', 'lead_owner', 'created_by', 'region', 'probability', 'currency_type', 'forecast_category',
+  'total_contract_value', 'total_revenue', 'quarterly_revenue_q1', 'quarterly_revenue_q2',
+  'quarterly_revenue_q3', 'quarterly_revenue_q4', 'expected_closing_date', 'signed_contract_date', 'created_at',
+].join(', ');
+
+// Deals closing in `year` or later, read page by page past the API row limit. The
+// later ones are needed to tell a deal that slipped out of the year from one that
+// dropped out of the forecast.
+const fetchDeals = async (year: number): Promise<ForecastDealInput[]> => {
+  const yearStart = `${year}-01-01`;
+  const rows: ForecastDealInput[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('deals')
+      .select(DEAL_COLUMNS)
+      .or(`expected_closing_date.gte.${yearStart},signed_contract_date.gte.${yearStart}`)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as unknown as ForecastDealInput[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+export interface ForecastSnapshot {
+  id: string;
+  snapshot_date: string;
+  reporting_currency: string;
+  deal_count: number;
+  taken_by: string | null;
+}
+
+export type ForecastOverrideInput = Pick<ForecastOverride, 'owner_id' | 'commit_amount' | 'best_case_amount' | 'note'>;
+
+// Live forecast for the deals closing in `year` or later, plus the manager overrides for `year`
+export const useForecast = (year: number, quarter: Quarter) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading: loading } = useQuery({
+    queryKey: ['forecast', year],
+    queryFn: async () => {
+      const [deals, { data: overrides, error: overridesError }, stages, { reportingCurrency, rates }] = await Promise.all([
+        fetchDeals(year),
+        supabase
+          .from('forecast_overrides')
+          .select('id, year, quarter, owner_id, commit_amount, best_case_amount, currency, note, updated_at')
+          .eq('year', year),
+        fetchPipelineStages(),
+        fetchCurrencyConversion(),
+      ]);
+      if (overridesError) throw overridesError;
+
+      return {
+        deals: buildForecastDeals(deals, stages, rates, reportingCurrency),
+        overrides: (overrides || []) as ForecastOverride[],
+        rates,
+        reportingCurrency,
+      };
+    },
+    enabled: !!user,
+    staleTime: 60 * 1000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['forecast'] });
+    queryClient.invalidateQueries({ queryKey: ['forecast-snapshots'] });
+  };
+
+  const saveOverrideMutation = useMutation({
+    mutationFn: async (input: ForecastOverrideInput) => {
+      if (input.commit_amount === null && input.best_case_amount === null) {
+        const { error } = await supabase
+          .from('forecast_overrides')
+          .delete()
+          .eq('year', year)
+          .eq('quarter', quarter)
+          .eq('owner_id', input.owner_id);
+        if (error) throw error;
+        return;
+      }
+
+      const { error } = await supabase
+        .from('forecast_overrides')
+        .upsert({
+          year,
+          quarter,
+          owner_id: input.owner_id,
+          commit_amount: input.commit_amount,
+          best_case_amount: input.best_case_amount,
+          note: input.note?.trim() || null,
+          currency: data?.reportingCurrency || 'EUR',
+          updated_by: user?.id,
+        }, { onConflict: 'year,quarter,owner_id' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Forecast override saved');
+      invalidate();
+    },
+    onError: (error: Error) => {
+      console.error('Error saving forecast override:', error);
+      toast.error(error.message || 'Failed to save override');
+    },
+  });
+
+  const setDealCategoryMutation = useMutation({
+    mutationFn: async ({ dealId, category }: { dealId: string; category: ForecastCategory | null }) => {
+      const { error } = await supabase
+        .from('deals')
+        .update({ forecast_category: category })
+        .eq('id', dealId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Forecast category updated');
+      invalidate();
+    },
+    onError: (error: Error) => {
+      console.error('Error updating forecast category:', error);
+      toast.error(error.message || 'Failed to update forecast category');
+    },
+  });
+
+  return {
+    deals: data?.deals ?? [],
+    overrides: data?.overrides ?? [],
+    rates: data?.rates ?? [],
+    reportingCurrency: data?.reportingCurrency,
+    loading,
+    saveOverride: saveOverrideMutation.mutateAsync,
+    savingOverride: saveOverrideMutation.isPending,
+    setDealCategory: setDealCategoryMutation.mutateAsync,
+  };
+};
+
+// Snapshot history, with each snapshot's deals closing in `year`
+export const useForecastSnapshots = (year: number) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading: loading } = useQuery({
+    queryKey: ['forecast-snapshots', year],
+    queryFn: async () => {
+      const [{ data: snapshots, error }, { data: snapshotDeals, error: dealsError }] = await Promise.all([
+        supabase
+          .from('forecast_snapshots')
+          .select('id, snapshot_date, reporting_currency, deal_count, taken_by')
+          .order('snapshot_date', { ascending: false })
+          .limit(52),
+        supabase
+          .from('forecast_snapshot_deals')
+          .select('snapshot_id, deal_id, deal_name, owner_id, stage, forecast_category, close_date, close_year, close_quarter, probability, amount, weighted_amount')
+          // The following year too, so deals pulled in from it show up
+          .in('close_year', [year, year + 1]),
+      ]);
+      if (error) throw error;
+      if (dealsError) throw dealsError;
+
+      return {
+        snapshots: (snapshots || []) as ForecastSnapshot[],
+        snapshotDeals: (snapshotDeals || []) as SnapshotDealRow[],
+      };
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const takeSnapshotMutation = useMutation({
+    mutationFn: async () => {
+      const { data: snapshotId, error } = await supabase.rpc('take_forecast_snapshot', {});
+      if (error) throw new Error(error.message);
+      return snapshotId;
+    },
+    onSuccess: () => {
+      toast.success("Snapshot of today's forecast saved");
+      queryClient.invalidateQueries({ queryKey: ['forecast-snapshots'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error taking forecast snapshot:', error);
+      toast.error(error.message || 'Failed to take snapshot');
+    },
+  });
+
+  return {
+    snapshots: data?.snapshots ?? [],
+    snapshotDeals: data?.snapshotDeals ?? [],
+    loading,
+    takeSnapshot: takeSnapshotMutation.mutateAsync,
+    takingSnapshot: takeSnapshotMutation.isPending,
+  };
+};
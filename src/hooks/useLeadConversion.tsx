@@ -0,0 +1,221 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+export interface ConvertibleLead {
+  id: string;
+  lead_name: string;
+  company_name?: string | null;
+  email?: string | null;
+  account_id?: string | null;
+  converted_from_contact_id?: string | null;
+}
+
+export interface AccountMatch {
+  id: string;
+  company_name: string;
+  country: string | null;
+  reason: string;
+}
+
+export interface ContactMatch {
+  id: string;
+  contact_name: string;
+  email: string | null;
+  company_name: string | null;
+  reason: string;
+}
+
+export interface RelatedRecordCounts {
+  actionItems: number;
+  tasks: number;
+  meetings: number;
+  emails: number;
+}
+
+export interface ConvertLeadInput {
+  leadId: string;
+  deal: {
+    deal_name: string;
+    customer_name: string;
+    lead_name: string;
+    lead_owner: string | null;
+    region: string;
+    priority: number;
+    currency_type: string;
+    project_name: string;
+    internal_comment: string;
+  };
+  // null links nothing; 'new' creates the record from the lead
+  accountId: string | 'new' | null;
+  contactId: string | 'new' | null;
+  moveActionItems: boolean;
+  moveTasks: boolean;
+  moveMeetings: boolean;
+  moveEmails: boolean;
+}
+
+export interface RevertConversionResult {
+  // The deal changed stage or value since the conversion; nothing was undone
+  dealChanged: boolean;
+  contact_removed?: boolean;
+  account_removed?: boolean;
+}
+
+const MATCH_LIMIT = 5;
+
+// revert_lead_conversion raises this when the deal moved on and force is not set
+const DEAL_CHANGED_ERROR_CODE = '55000';
+
+const addMatch = <T extends { id: string }>(matches: T[], match: T) => {
+  if (!matches.some(existing => existing.id === match.id)) matches.push(match);
+};
+
+const countRows = async (query: PromiseLike<{ count: number | null; error: unknown }>) => {
+  const { count, error } = await query;
+  if (error) throw error;
+  return count ?? 0;
+};
+
+// Possible existing account and contact for the lead, and how many records would move
+export const useLeadConversionCandidates = (lead: ConvertibleLead | null, enabled: boolean) => {
+  const { user } = useAuth();
+
+  const { data, isLoading: loading } = useQuery({
+    queryKey: ['lead-conversion-candidates', lead?.id],
+    queryFn: async () => {
+      if (!lead) throw new Error('No lead selected');
+      const company = lead.company_name?.trim();
+      const email = lead.email?.trim();
+
+      const [linkedAccount, companyAccounts, sourceContact, emailContacts, nameContacts] = await Promise.all([
+        lead.account_id
+          ? supabase.from('accounts').select('id, company_name, country').eq('id', lead.account_id).maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+        company
+          ? supabase.from('accounts').select('id, company_name, country').ilike('company_name', company).limit(MATCH_LIMIT)
+          : Promise.resolve({ data: [], error: null }),
+        lead.converted_from_contact_id
+          ? supabase.from('contacts').select('id, contact_name, email, company_name').eq('id', lead.converted_from_contact_id).maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+        email
+          ? supabase.from('contacts').select('id, contact_name, email, company_name').ilike('email', email).limit(MATCH_LIMIT)
+          : Promise.resolve({ data: [], error: null }),
+        supabase.from('contacts').select('id, contact_name, email, company_name').ilike('contact_name', lead.lead_name.trim()).limit(MATCH_LIMIT),
+      ]);
+
+      for (const result of [linkedAccount, companyAccounts, sourceContact, emailContacts, nameContacts]) {
+        if (result.error) throw result.error;
+      }
+
+      const accounts: AccountMatch[] = [];
+      if (linkedAccount.data) addMatch(accounts, { ...linkedAccount.data, reason: 'Linked to this lead' });
+      (companyAccounts.data || []).forEach(account => addMatch(accounts, { ...account, reason: 'Same company name' }));
+
+      const contacts: ContactMatch[] = [];
+      if (sourceContact.data) addMatch(contacts, { ...sourceContact.data, reason: 'Lead was created from this contact' });
+      (emailContacts.data || []).forEach(contact => addMatch(contacts, { ...contact, reason: 'Same email' }));
+      (nameContacts.data || []).forEach(contact => addMatch(contacts, { ...contact, reason: 'Same name' }));
+
+      // Same filters convert_lead_to_deal uses when moving records
+      const [actionItems, tasks, meetings, emails] = await Promise.all([
+        countRows(supabase.from('lead_action_items').select('id', { count: 'exact', head: true }).eq('lead_id', lead.id).neq('status', 'Closed')),
+        countRows(supabase.from('tasks').select('id', { count: 'exact', head: true }).eq('lead_id', lead.id).is('deal_id', null).neq('status', 'completed')),
+        countRows(supabase.from('meetings').select('id', { count: 'exact', head: true }).eq('lead_id', lead.id).is('deal_id', null)),
+        countRows(supabase.from('email_history').select('id', { count: 'exact', head: true }).eq('lead_id', lead.id).is('deal_id', null)),
+      ]);
+
+      return {
+        accounts,
+        contacts,
+        related: { actionItems, tasks, meetings, emails } as RelatedRecordCounts,
+      };
+    },
+    enabled: !!user && !!lead && enabled,
+    staleTime: 0,
+  });
+
+  return {
+    accounts: data?.accounts ?? [],
+    contacts: data?.contacts ?? [],
+    related: data?.related ?? { actionItems: 0, tasks: 0, meetings: 0, emails: 0 },
+    loading,
+  };
+};
+
+export const useLeadConversion = () => {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    ['leads', 'deals', 'accounts', 'contacts', 'tasks', 'meetings', 'lead-conversion-candidates'].forEach(key =>
+      queryClient.invalidateQueries({ queryKey: [key] })
+    );
+  };
+
+  const convertMutation = useMutation({
+    mutationFn: async (input: ConvertLeadInput) => {
+      const { data, error } = await supabase.rpc('convert_lead_to_deal', {
+        p_lead_id: input.leadId,
+        p_deal: input.deal,
+        p_account_id: input.accountId && input.accountId !== 'new' ? input.accountId : undefined,
+        p_create_account: input.accountId === 'new',
+        p_contact_id: input.contactId && input.contactId !== 'new' ? input.contactId : undefined,
+        p_create_contact: input.contactId === 'new',
+        p_move_action_items: input.moveActionItems,
+        p_move_tasks: input.moveTasks,
+        p_move_meetings: input.moveMeetings,
+        p_move_emails: input.moveEmails,
+      });
+      if (error) throw new Error(error.message);
+      return data as { conversion_id: string; deal_id: string };
+    },
+    onSuccess: () => {
+      toast.success('Lead converted to deal');
+      invalidate();
+    },
+    onError: (error: Error) => {
+      console.error('Error converting lead to deal:', error);
+      toast.error(error.message || 'Failed to convert lead to deal');
+    },
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async ({ leadId, force = false }: { leadId: string; force?: boolean }): Promise<RevertConversionResult> => {
+      const { data: conversion, error: lookupError } = await supabase
+        .from('lead_conversions')
+        .select('id')
+        .eq('lead_id', leadId)
+        .is('reverted_at', null)
+        .order('converted_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (lookupError) throw lookupError;
+      if (!conversion) throw new Error('No conversion found for this lead');
+
+      const { data, error } = await supabase.rpc('revert_lead_conversion', {
+        p_conversion_id: conversion.id,
+        p_force: force,
+      });
+      if (error?.code === DEAL_CHANGED_ERROR_CODE) return { dealChanged: true };
+      if (error) throw new Error(error.message);
+      return { dealChanged: false, ...(data as { contact_removed: boolean; account_removed: boolean }) };
+    },
+    onSuccess: (result) => {
+      if (result.dealChanged) return;
+      toast.success('Conversion undone and lead restored');
+      invalidate();
+    },
+    onError: (error: Error) => {
+      console.error('Error undoing lead conversion:', error);
+      toast.error(error.message || 'Failed to undo conversion');
+    },
+  });
+
+  return {
+    convertLead: convertMutation.mutateAsync,
+    converting: convertMutation.isPending,
+    revertConversion: revertMutation.mutateAsync,
+    reverting: revertMutation.isPending,
+  };
+};
@@ -0,0 +1,200 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { getAuthSessionId } from '@/utils/authSession';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import type { SessionRole } from '@/hooks/useSessionPolicies';
+import { toast } from 'sonner';
+
+export interface MfaEnrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+export interface MfaStatus {
+  // Verified TOTP factor, if the user has set up an authenticator
+  factorId: string | null;
+  // aal2 once this session has passed the authenticator step
+  currentLevel: 'aal1' | 'aal2' | null;
+  // Whether the role's session policy makes 2FA mandatory
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+const TOTP_ISSUER = 'RealThingks CRM';
+
+/**
+ * TOTP two-factor authentication of the signed-in user. Factors live in
+ * Supabase Auth; recovery codes and the per-role requirement in the database.
+ */
+export const useMfa = () => {
+  const { user, session } = useAuth();
+  const { userRole, loading: roleLoading } = usePermissions();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading, error } = useQuery({
+    // Keyed by auth session, so a cached aal2 never carries over to a new sign-in
+    queryKey: ['mfa-status', user?.id, getAuthSessionId(session), userRole],
+    queryFn: async (): Promise<MfaStatus> => {
+      const [factorsResult, levelResult, policyResult, codesResult] = await Promise.all([
+        supabase.auth.mfa.listFactors(),
+        supabase.auth.mfa.getAuthenticatorAssuranceLevel(),
+        supabase.from('session_policies').select('require_mfa').eq('role', userRole as SessionRole).maybeSingle(),
+        supabase
+          .from('mfa_recovery_codes')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', user!.id)
+          .is('used_at', null),
+      ]);
+      if (factorsResult.error) throw factorsResult.error;
+      if (levelResult.error) throw levelResult.error;
+      if (policyResult.error) throw policyResult.error;
+
+      return {
+        factorId: factorsResult.data.totp[0]?.id || null,
+        currentLevel: levelResult.data.currentLevel,
+        required: !!policyResult.data?.require_mfa,
+        recoveryCodesLeft: codesResult.count || 0,
+      };
+    },
+    enabled: !!user && !roleLoading,
+  });
+
+  const afterChange = () => queryClient.invalidateQueries({ queryKey: ['mfa-status'] });
+
+  // Drops half-finished enrollments so a new QR code can be issued
+  const startEnrollmentMutation = useMutation({
+    mutationFn: async (): Promise<MfaEnrollment> => {
+      const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+      for (const factor of factors.all.filter(f => f.factor_type === 'totp' && f.status === 'unverified')) {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        issuer: TOTP_ISSUER,
+        friendlyName: `Authenticator ${new Date().toISOString().slice(0, 10)}`,
+      });
+      if (error) throw error;
+      return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+    },
+    onError: (error: Error) => {
+      console.error('Error starting 2FA enrollment:', error);
+      toast.error('Failed to start two-factor setup');
+    },
+  });
+
+  // Verifying the first code upgrades the session to aal2, which is what
+  // generate_mfa_recovery_codes needs. The status is refreshed by the caller
+  // once the codes were saved, so a guard does not unmount the list first.
+  const confirmEnrollmentMutation = useMutation({
+    mutationFn: async ({ factorId, code }: { factorId: string; code: string }): Promise<string[]> => {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+      if (error) throw error;
+      const { data: codes, error: codesError } = await supabase.rpc('generate_mfa_recovery_codes');
+      if (codesError) throw codesError;
+      return codes || [];
+    },
+    onSuccess: () => {
+      toast.success('Two-factor authentication enabled');
+    },
+    onError: (error: Error) => {
+      console.error('Error verifying 2FA enrollment:', error);
+      toast.error(error.message || 'Invalid code');
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (code: string) => {
+      if (!status?.factorId) throw new Error('No authenticator is set up');
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: status.factorId, code });
+      if (error) throw error;
+    },
+    onSuccess: afterChange,
+    onError: (error: Error) => {
+      console.error('Error verifying 2FA code:', error);
+      toast.error('Invalid code, please try again');
+    },
+  });
+
+  const regenerateCodesMutation = useMutation({
+    mutationFn: async (): Promise<string[]> => {
+      const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+      if (error) throw error;
+      return data || [];
+    },
+    onSuccess: () => {
+      afterChange();
+      toast.success('New recovery codes generated');
+    },
+    onError: (error: Error) => {
+      console.error('Error generating recovery codes:', error);
+      toast.error('Failed to generate recovery codes');
+    },
+  });
+
+  // The refreshed session no longer lists the removed factor, so the app
+  // stops asking for the authenticator
+  const redeemCodeMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const { data, error } = await supabase.functions.invoke('user-admin', {
+        method: 'POST',
+        body: { action: 'redeem-recovery-code', code },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      await supabase.auth.refreshSession();
+    },
+    onSuccess: () => {
+      afterChange();
+      toast.success('Recovery code accepted. Set up your authenticator again from your security settings.');
+    },
+    onError: (error: Error) => {
+      console.error('Error redeeming recovery code:', error);
+      toast.error('Invalid or already used recovery code');
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+      for (const factor of factors.all.filter(f => f.factor_type === 'totp')) {
+        const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        if (error) throw error;
+      }
+      await supabase.from('mfa_recovery_codes').delete().eq('user_id', user!.id);
+      await supabase.auth.refreshSession();
+    },
+    onSuccess: () => {
+      afterChange();
+      toast.success('Two-factor authentication disabled');
+    },
+    onError: (error: Error) => {
+      console.error('Error disabling 2FA:', error);
+      toast.error('Failed to disable two-factor authentication');
+    },
+  });
+
+  return {
+    status,
+    loading: roleLoading || isLoading,
+    error,
+    refresh: afterChange,
+    startEnrollment: startEnrollmentMutation.mutateAsync,
+    confirmEnrollment: confirmEnrollmentMutation.mutateAsync,
+    verify: verifyMutation.mutateAsync,
+    regenerateRecoveryCodes: regenerateCodesMutation.mutateAsync,
+    redeemRecoveryCode: redeemCodeMutation.mutateAsync,
+    disable: disableMutation.mutateAsync,
+    saving:
+      startEnrollmentMutation.isPending ||
+      confirmEnrollmentMutation.isPending ||
+      verifyMutation.isPending ||
+      regenerateCodesMutation.isPending ||
+      redeemCodeMutation.isPending ||
+      disableMutation.isPending,
+  };
+};
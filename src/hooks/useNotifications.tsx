@@ -13,6 +13,7 @@ interface Notification {
   status: 'read' | 'unread';
   notification_type: string;
   action_item_id: string | null;
+  link: string | null;
   created_at: string;
   updated_at: string;
 }
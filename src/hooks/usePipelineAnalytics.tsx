@@ -0,0 +1,83 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { AnalyticsDeal, StageHistoryEntry } from '@/utils/pipelineAnalytics';
+
+const PAGE_SIZE = 1000;
+
+const DEAL_COLUMNS = [
+  'id', 'deal_name', 'stage', 'lead_owner', 'created_by', 'region', 'contact_id', 'total_contract_value',
+  'currency_type', 'created_at', 'project_name', 'lead_name', 'customer_name', 'priority', 'probability', 'handoff_status',
+].join(', ');
+
+// Deals and their stage history are read page by page past the API row limit
+const fetchDeals = async (): Promise<AnalyticsDeal[]> => {
+  const rows: AnalyticsDeal[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('deals')
+      .select(DEAL_COLUMNS)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as unknown as AnalyticsDeal[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const fetchStageHistory = async (): Promise<StageHistoryEntry[]> => {
+  const rows: StageHistoryEntry[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('deal_stage_history')
+      .select('deal_id, from_stage, to_stage, changed_at')
+      .order('changed_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+/**
+ * Deals, their full stage history and the source of each deal's contact.
+ * Filtering and the analytics themselves run on the client so the page can
+ * reuse the deal filters.
+ */
+export const usePipelineAnalytics = () => {
+  const { user } = useAuth();
+
+  const { data, isLoading: loading, refetch } = useQuery({
+    queryKey: ['pipeline-analytics'],
+    queryFn: async () => {
+      const [dealRows, history] = await Promise.all([fetchDeals(), fetchStageHistory()]);
+
+      const contactIds = Array.from(new Set(dealRows.map(d => d.contact_id).filter(Boolean))) as string[];
+      const sources: Record<string, string> = {};
+      for (let i = 0; i < contactIds.length; i += 200) {
+        const { data: contacts, error: contactsError } = await supabase
+          .from('contacts')
+          .select('id, contact_source')
+          .in('id', contactIds.slice(i, i + 200));
+        if (contactsError) throw contactsError;
+        (contacts || []).forEach(c => {
+          if (c.contact_source) sources[c.id] = c.contact_source;
+        });
+      }
+
+      return { deals: dealRows, history, sources };
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    deals: data?.deals ?? [],
+    history: data?.history ?? [],
+    sources: data?.sources ?? {},
+    loading,
+    refetch,
+  };
+};
@@ -0,0 +1,86 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { DEFAULT_PIPELINE_STAGES, ForecastCategory, PipelineStage, isClosedStage } from '@/types/deal';
+
+export const fetchPipelineStages = async (): Promise<PipelineStage[]> => {
+  const { data, error } = await supabase
+    .from('pipeline_stages')
+    .select('*')
+    .order('stage_order', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(item => ({
+    id: item.id,
+    stage_name: item.stage_name,
+    stage_order: item.stage_order,
+    stage_color: item.stage_color || '#6b7280',
+    stage_probability: item.stage_probability ?? 0,
+    is_active: item.is_active ?? true,
+    is_won_stage: item.is_won_stage ?? false,
+    is_lost_stage: item.is_lost_stage ?? false,
+    forecast_category: (item.forecast_category as ForecastCategory)
+      || (item.is_won_stage ? 'closed' : item.is_lost_stage ? 'omitted' : 'pipeline'),
+    stuck_after_days: item.stuck_after_days ?? null,
+    form_fields: item.form_fields || [],
+  }));
+};
+
+// Configured stages, or the built-in ones until an admin has set any up
+export const withDefaultStages = (stages?: PipelineStage[]): PipelineStage[] =>
+  stages && stages.length > 0 ? stages : DEFAULT_PIPELINE_STAGES;
+
+// Names of the won and lost stages, for classifying deals by their stage text
+export const getStageOutcomes = (stages: PipelineStage[]) => ({
+  won: new Set(stages.filter(stage => stage.is_won_stage).map(stage => stage.stage_name)),
+  lost: new Set(stages.filter(stage => stage.is_lost_stage).map(stage => stage.stage_name)),
+});
+
+/**
+ * Deal pipeline stages in board order. `stages` includes retired ones so
+ * deals still sitting in them can be shown; `activeStages` is what users
+ * can move deals into.
+ */
+export const usePipelineStages = () => {
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['pipeline-stages'],
+    queryFn: fetchPipelineStages,
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const stages = useMemo(() => withDefaultStages(data), [data]);
+  const activeStages = useMemo(() => stages.filter(stage => stage.is_active), [stages]);
+  const openStages = useMemo(() => activeStages.filter(stage => !isClosedStage(stage)), [activeStages]);
+  const closedStages = useMemo(() => activeStages.filter(isClosedStage), [activeStages]);
+  const outcomes = useMemo(() => getStageOutcomes(stages), [stages]);
+
+  const getStage = useCallback(
+    (stageName?: string | null) => stages.find(stage => stage.stage_name === stageName),
+    [stages]
+  );
+
+  // Next open stage in order; closing a deal is always an explicit choice
+  const getNextStage = useCallback((stageName?: string | null): string | null => {
+    const current = getStage(stageName);
+    if (!current || isClosedStage(current)) return null;
+    return openStages.find(stage => stage.stage_order > current.stage_order)?.stage_name ?? null;
+  }, [getStage, openStages]);
+
+  return {
+    stages,
+    activeStages,
+    openStages,
+    closedStages,
+    wonStageNames: outcomes.won,
+    lostStageNames: outcomes.lost,
+    defaultStage: openStages[0]?.stage_name ?? activeStages[0]?.stage_name ?? '',
+    getStage,
+    getNextStage,
+    isLoading,
+  };
+};
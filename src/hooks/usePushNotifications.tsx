@@ -0,0 +1,123 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+const isPushSupported = () =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// VAPID keys are base64url; the Push API wants the raw bytes
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+const getCurrentSubscription = async () => {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+/**
+ * Browser push for the current device. Enabling registers the service worker,
+ * asks for permission and stores the subscription in push_subscriptions, where
+ * the send-push-notifications worker picks it up; each device subscribes on its own.
+ */
+export const usePushNotifications = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const supported = isPushSupported();
+
+  const { data: subscribed = false, isLoading: loading } = useQuery({
+    queryKey: ['push-subscription', user?.id],
+    queryFn: async () => {
+      const subscription = await getCurrentSubscription();
+      if (!subscription) return false;
+      const { data, error } = await supabase
+        .from('push_subscriptions')
+        .select('id')
+        .eq('endpoint', subscription.endpoint)
+        .maybeSingle();
+      if (error) throw error;
+      return !!data;
+    },
+    enabled: !!user && supported,
+  });
+
+  const afterChange = () => queryClient.invalidateQueries({ queryKey: ['push-subscription'] });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      if (!supported) throw new Error('This browser does not support push notifications');
+
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        throw new Error('Notifications are blocked for this site. Allow them in the browser settings and try again.');
+      }
+
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      await navigator.serviceWorker.ready;
+
+      let subscription = await registration.pushManager.getSubscription();
+      if (!subscription) {
+        const { data, error } = await supabase.functions.invoke('send-push-notifications', {
+          body: { action: 'public-key' },
+        });
+        if (error) throw error;
+        if (!data?.publicKey) throw new Error('Push notifications are not configured on the server');
+
+        subscription = await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(data.publicKey),
+        });
+      }
+
+      const { keys } = subscription.toJSON();
+      const { error } = await supabase.from('push_subscriptions').upsert(
+        {
+          user_id: user!.id,
+          endpoint: subscription.endpoint,
+          p256dh: keys?.p256dh || '',
+          auth: keys?.auth || '',
+          user_agent: navigator.userAgent,
+        },
+        { onConflict: 'endpoint' }
+      );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      afterChange();
+      toast.success('Push notifications enabled on this device');
+    },
+    onError: (error: Error) => {
+      console.error('Error enabling push notifications:', error);
+      toast.error(error.message || 'Failed to enable push notifications');
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const subscription = await getCurrentSubscription();
+      if (!subscription) return;
+      const { error } = await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+      if (error) throw error;
+      await subscription.unsubscribe();
+    },
+    onSuccess: afterChange,
+    onError: (error: Error) => {
+      console.error('Error disabling push notifications:', error);
+      toast.error('Failed to turn off push notifications on this device');
+    },
+  });
+
+  return {
+    supported,
+    subscribed,
+    loading,
+    enable: enableMutation.mutateAsync,
+    disable: disableMutation.mutateAsync,
+    pending: enableMutation.isPending || disableMutation.isPending,
+  };
+};
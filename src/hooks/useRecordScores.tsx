@@ -0,0 +1,168 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+export type ScoreEntityType = 'lead' | 'contact' | 'account';
+export type ScoringRuleType = 'field' | 'engagement' | 'recency' | 'decay';
+export type ScoringOperator = 'equals' | 'not_equals' | 'contains' | 'is_set' | 'is_empty';
+export type ScoringMetric = 'email_opens' | 'email_clicks' | 'email_replies' | 'meetings_held' | 'activities' | 'contacts';
+
+export interface ScoringRule {
+  id: string;
+  entity_type: ScoreEntityType;
+  name: string;
+  rule_type: ScoringRuleType;
+  field: string | null;
+  operator: ScoringOperator | null;
+  value: string | null;
+  metric: ScoringMetric | null;
+  points: number;
+  max_points: number | null;
+  period_days: number | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export type ScoringRuleInput = Omit<ScoringRule, 'id' | 'created_at'> & { id?: string };
+
+export interface ScoreContribution {
+  rule_id: string;
+  name: string;
+  rule_type: ScoringRuleType;
+  points: number;
+  detail: string | null;
+}
+
+export interface RecordScore {
+  score: number;
+  breakdown: ScoreContribution[];
+  last_engagement_at: string | null;
+  computed_at: string;
+}
+
+// Same thresholds the contact list uses to colour engagement
+export const getScoreTier = (score: number) => {
+  if (score >= 70) return { label: 'Hot', className: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300' };
+  if (score >= 40) return { label: 'Warm', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300' };
+  return { label: 'Cold', className: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300' };
+};
+
+export const useScoringRules = (entityType: ScoreEntityType) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: rules = [], isLoading: loading } = useQuery({
+    queryKey: ['scoring-rules', entityType],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('scoring_rules')
+        .select('id, entity_type, name, rule_type, field, operator, value, metric, points, max_points, period_days, is_active, created_at')
+        .eq('entity_type', entityType)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as ScoringRule[];
+    },
+    enabled: !!user,
+    staleTime: 60 * 1000,
+  });
+
+  // Rule changes apply to every existing record of the type, not just the next one touched
+  const recompute = async () => {
+    const { error } = await supabase.rpc('recompute_record_scores', { p_entity_type: entityType });
+    if (error) throw new Error(error.message);
+  };
+
+  const afterChange = (message: string) => {
+    toast.success(message);
+    queryClient.invalidateQueries({ queryKey: ['scoring-rules', entityType] });
+    queryClient.invalidateQueries({ queryKey: ['record-score', entityType] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (rule: ScoringRuleInput) => {
+      const { id, ...values } = rule;
+      const { error } = id
+        ? await supabase.from('scoring_rules').update(values).eq('id', id)
+        : await supabase.from('scoring_rules').insert({ ...values, created_by: user?.id });
+      if (error) throw new Error(error.message);
+      await recompute();
+      return rule;
+    },
+    onSuccess: (rule) => afterChange(rule.id ? 'Rule updated and scores recalculated' : 'Rule added and scores recalculated'),
+    onError: (error: Error) => {
+      console.error('Error saving scoring rule:', error);
+      toast.error(error.message || 'Failed to save rule');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (ruleId: string) => {
+      const { error } = await supabase.from('scoring_rules').delete().eq('id', ruleId);
+      if (error) throw new Error(error.message);
+      await recompute();
+    },
+    onSuccess: () => afterChange('Rule deleted and scores recalculated'),
+    onError: (error: Error) => {
+      console.error('Error deleting scoring rule:', error);
+      toast.error(error.message || 'Failed to delete rule');
+    },
+  });
+
+  const recomputeMutation = useMutation({
+    mutationFn: recompute,
+    onSuccess: () => afterChange('Scores recalculated'),
+    onError: (error: Error) => {
+      console.error('Error recalculating scores:', error);
+      toast.error(error.message || 'Failed to recalculate scores');
+    },
+  });
+
+  return {
+    rules,
+    loading,
+    saveRule: saveMutation.mutateAsync,
+    deleteRule: deleteMutation.mutateAsync,
+    recalculate: recomputeMutation.mutateAsync,
+    saving: saveMutation.isPending || deleteMutation.isPending || recomputeMutation.isPending,
+  };
+};
+
+export const useRecordScore = (entityType: ScoreEntityType, entityId: string | undefined) => {
+  const { user } = useAuth();
+
+  const { data: score = null, isLoading: loading } = useQuery({
+    queryKey: ['record-score', entityType, entityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('record_scores')
+        .select('score, breakdown, last_engagement_at, computed_at')
+        .eq('entity_type', entityType)
+        .eq('entity_id', entityId!)
+        .maybeSingle();
+      if (error) throw error;
+      if (data) return data as unknown as RecordScore;
+
+      // Records created before scoring existed are scored on first view
+      const { error: computeError } = await supabase.rpc('compute_record_score', {
+        p_entity_type: entityType,
+        p_entity_id: entityId!,
+      });
+      if (computeError) throw computeError;
+
+      const { data: computed, error: refetchError } = await supabase
+        .from('record_scores')
+        .select('score, breakdown, last_engagement_at, computed_at')
+        .eq('entity_type', entityType)
+        .eq('entity_id', entityId!)
+        .maybeSingle();
+      if (refetchError) throw refetchError;
+      return (computed ?? null) as unknown as RecordScore | null;
+    },
+    enabled: !!user && !!entityId,
+    staleTime: 30 * 1000,
+  });
+
+  return { score, loading };
+};
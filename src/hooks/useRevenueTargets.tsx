@@ -0,0 +1,124 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { fetchCurrencyConversion } from '@/hooks/useCurrencyConversion';
+import { fetchPipelineStages } from '@/hooks/usePipelineStages';
+import { AttainmentDealInput, buildContributions, RevenueTarget } from '@/utils/revenueAttainment';
+
+const PAGE_SIZE = 1000;
+
+const DEAL_COLUMNS = [
+  'id', 'deal_name', 'stage', 'lead_owner', 'created_by', 'region', 'probability', 'currency_type',
+  'total_contract_value', 'total_revenue', 'quarterly_revenue_q1', 'quarterly_revenue_q2',
+  'quarterly_revenue_q3', 'quarterly_revenue_q4', 'expected_closing_date', 'signed_contract_date', 'created_at',
+].join(', ');
+
+const fetchRevenueTargets = async (year: number): Promise<RevenueTarget[]> => {
+  const { data, error } = await supabase
+    .from('revenue_targets')
+    .select('id, year, quarter, owner_id, region, amount, currency')
+    .eq('year', year);
+  if (error) throw error;
+  return (data || []).map(t => ({ ...t, amount: Number(t.amount) })) as RevenueTarget[];
+};
+
+// Deals signed or expected to close in `year`, read page by page past the API row limit
+const fetchDeals = async (year: number): Promise<AttainmentDealInput[]> => {
+  const yearStart = `${year}-01-01`;
+  const nextYearStart = `${year + 1}-01-01`;
+  const rows: AttainmentDealInput[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('deals')
+      .select(DEAL_COLUMNS)
+      .or(
+        `and(expected_closing_date.gte.${yearStart},expected_closing_date.lt.${nextYearStart}),` +
+        `and(signed_contract_date.gte.${yearStart},signed_contract_date.lt.${nextYearStart})`
+      )
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as unknown as AttainmentDealInput[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+export const useRevenueTargets = (year: number) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: targets = [], isLoading: loading } = useQuery({
+    queryKey: ['revenue-targets', year],
+    queryFn: () => fetchRevenueTargets(year),
+    enabled: !!user,
+    staleTime: 60 * 1000,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ targets, currency }: { targets: Omit<RevenueTarget, 'id' | 'year' | 'currency'>[]; currency: string }) => {
+      const { data, error } = await supabase.rpc('save_revenue_targets', {
+        p_year: year,
+        p_targets: targets.map(({ owner_id, region, quarter, amount }) => ({ owner_id, region, quarter, amount })),
+        p_currency: currency,
+      });
+      if (error) throw new Error(error.message);
+      return data ?? 0;
+    },
+    onSuccess: () => {
+      toast.success(`Targets for ${year} saved`);
+      queryClient.invalidateQueries({ queryKey: ['revenue-targets', year] });
+      queryClient.invalidateQueries({ queryKey: ['revenue-attainment', year] });
+    },
+    onError: (error: Error) => {
+      console.error('Error saving revenue targets:', error);
+      toast.error(error.message || 'Failed to save targets');
+    },
+  });
+
+  return {
+    targets,
+    loading,
+    saveTargets: saveMutation.mutateAsync,
+    saving: saveMutation.isPending,
+  };
+};
+
+// Targets plus each deal's won and committed contribution per quarter of `year`
+export const useRevenueAttainment = (year: number) => {
+  const { user } = useAuth();
+
+  const { data, isLoading: loading } = useQuery({
+    queryKey: ['revenue-attainment', year],
+    queryFn: async () => {
+      const [targets, dealRows, stages, { reportingCurrency, rates }] = await Promise.all([
+        fetchRevenueTargets(year),
+        fetchDeals(year),
+        fetchPipelineStages(),
+        fetchCurrencyConversion(),
+      ]);
+
+      const regions = Array.from(new Set(dealRows.map(d => d.region).filter(Boolean) as string[])).sort();
+
+      return {
+        targets,
+        contributions: buildContributions(dealRows, year, stages, rates, reportingCurrency),
+        regions,
+        rates,
+        reportingCurrency,
+      };
+    },
+    enabled: !!user,
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    targets: data?.targets ?? [],
+    contributions: data?.contributions ?? [],
+    regions: data?.regions ?? [],
+    rates: data?.rates ?? [],
+    reportingCurrency: data?.reportingCurrency,
+    loading,
+  };
+};
@@ -0,0 +1,62 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import type { Database } from '@/integrations/supabase/types';
+
+export type SessionRole = Database['public']['Enums']['user_role'];
+
+export interface SessionPolicy {
+  role: SessionRole;
+  idle_timeout_minutes: number | null;
+  max_concurrent_sessions: number | null;
+  require_mfa: boolean;
+}
+
+/**
+ * Idle timeout, concurrent session limit and 2FA requirement per role. The
+ * idle timeout is enforced by check_user_session, the limit by user-admin at
+ * sign-in and the 2FA requirement by MfaGuard.
+ */
+export const useSessionPolicies = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: policies = [], isLoading: loading } = useQuery({
+    queryKey: ['session-policies'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('session_policies')
+        .select('role, idle_timeout_minutes, max_concurrent_sessions, require_mfa')
+        .order('role');
+      if (error) throw error;
+      return (data || []) as SessionPolicy[];
+    },
+    enabled: !!user,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (policy: SessionPolicy) => {
+      const { error } = await supabase
+        .from('session_policies')
+        .upsert({ ...policy, updated_by: user!.id }, { onConflict: 'role' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['session-policies'] });
+      queryClient.invalidateQueries({ queryKey: ['mfa-status'] });
+      toast.success('Session policy saved');
+    },
+    onError: (error: Error) => {
+      console.error('Error saving session policy:', error);
+      toast.error('Failed to save session policy');
+    },
+  });
+
+  return {
+    policies,
+    loading,
+    savePolicy: saveMutation.mutateAsync,
+    saving: saveMutation.isPending,
+  };
+};
@@ -5,6 +5,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { GenericCSVProcessor } from './import-export/genericCSVProcessor';
 import { GenericCSVExporter } from './import-export/genericCSVExporter';
+import { fetchCSVCustomFields } from './import-export/customFieldsCSV';
 import { getExportFilename } from '@/utils/exportUtils';
 
 // Contacts field order - Removed website, industry, region, country, segment as per requirements
@@ -99,7 +100,8 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
 
       const filename = getExportFilename('contacts', 'all');
       const exporter = new GenericCSVExporter();
-      await exporter.exportToCSV(contacts, filename, CONTACTS_EXPORT_FIELDS);
+      const customFields = await fetchCSVCustomFields('contact');
+      await exporter.exportToCSV(contacts, filename, CONTACTS_EXPORT_FIELDS, customFields);
 
       toast({
         title: "Export Successful",
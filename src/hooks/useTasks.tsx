@@ -2,8 +2,10 @@ import { useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
-import { Task, CreateTaskData, TaskStatus } from '@/types/task';
+import { Task, CreateTaskData, TaskStatus, TaskSeriesScope } from '@/types/task';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { addDays, differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import { getTaskSeriesId, isTaskInSeries } from '@/utils/taskRecurrence';
 
 // Helper to send task notification email
 const sendTaskNotificationEmail = async (
@@ -53,6 +55,68 @@ const getCurrentUserName = async (userId: string): Promise<string> => {
   }
 };
 
+// Fields an "all future occurrences" edit carries across the series
+const SERIES_FIELDS = [
+  'title', 'description', 'priority', 'due_time', 'assigned_to', 'module_type',
+  'account_id', 'contact_id', 'lead_id', 'meeting_id', 'deal_id', 'recurrence', 'recurrence_end_date',
+] as const;
+
+/**
+ * Apply an edit to the open occurrences after `task` and split the series there:
+ * `task` becomes the first task of a new series and the earlier occurrences stop
+ * repeating the day before it, so both halves don't keep generating.
+ */
+const updateFutureOccurrences = async (task: Task, updates: Partial<Task>) => {
+  if (!task.due_date) return;
+  const seriesId = getTaskSeriesId(task);
+
+  const { data: series, error } = await supabase
+    .from('tasks')
+    .select('id, due_date, status')
+    .or(`id.eq.${seriesId},parent_task_id.eq.${seriesId}`)
+    .neq('id', task.id);
+
+  if (error) throw error;
+
+  const shared: Partial<Task> = {};
+  SERIES_FIELDS.forEach(field => {
+    if (field in updates) (shared as Record<string, unknown>)[field] = updates[field];
+  });
+  const dayShift = updates.due_date
+    ? differenceInCalendarDays(parseISO(updates.due_date), parseISO(task.due_date))
+    : 0;
+
+  const future = (series || []).filter(t => t.due_date && t.due_date >= task.due_date! && t.status !== 'completed');
+  for (const occurrence of future) {
+    const { error: updateError } = await supabase
+      .from('tasks')
+      .update({
+        ...shared,
+        parent_task_id: task.id,
+        due_date: dayShift ? format(addDays(parseISO(occurrence.due_date!), dayShift), 'yyyy-MM-dd') : occurrence.due_date,
+      })
+      .eq('id', occurrence.id);
+    if (updateError) throw updateError;
+  }
+
+  if (seriesId === task.id) return;
+
+  const earlier = (series || []).filter(t => !t.due_date || t.due_date < task.due_date!).map(t => t.id);
+  if (earlier.length > 0) {
+    const { error: endError } = await supabase
+      .from('tasks')
+      .update({ recurrence_end_date: format(subDays(parseISO(task.due_date), 1), 'yyyy-MM-dd') })
+      .in('id', earlier);
+    if (endError) throw endError;
+  }
+
+  const { error: splitError } = await supabase
+    .from('tasks')
+    .update({ parent_task_id: null })
+    .eq('id', task.id);
+  if (splitError) throw splitError;
+};
+
 export const useTasks = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
@@ -121,6 +185,7 @@ export const useTasks = () => {
           user_id: taskData.assigned_to,
           message: `You have been assigned a new task: ${taskData.title}`,
           notification_type: 'task_assigned',
+          link: `/tasks?viewId=${data.id}`,
         });
 
         // Send email notification - sender is the creator
@@ -152,7 +217,7 @@ export const useTasks = () => {
 
   // Update task mutation
   const updateTaskMutation = useMutation({
-    mutationFn: async ({ taskId, updates, originalTask }: { taskId: string; updates: Partial<Task>; originalTask?: Task }) => {
+    mutationFn: async ({ taskId, updates, originalTask, scope }: { taskId: string; updates: Partial<Task>; originalTask?: Task; scope?: TaskSeriesScope }) => {
       if (!user?.id) throw new Error('User not authenticated');
 
       const updateData: any = { ...updates };
@@ -171,6 +236,10 @@ export const useTasks = () => {
 
       if (error) throw error;
 
+      if (scope === 'future' && originalTask && isTaskInSeries(originalTask)) {
+        await updateFutureOccurrences(originalTask, updates);
+      }
+
       // Get current user's name for notifications
       const updaterName = await getCurrentUserName(user.id);
 
@@ -184,6 +253,7 @@ export const useTasks = () => {
               user_id: updates.assigned_to,
               message: `You have been assigned a task: ${originalTask.title}`,
               notification_type: 'task_assigned',
+              link: `/tasks?viewId=${taskId}`,
             });
 
             // Send email notification for assignment - sender is the updater
@@ -206,6 +276,7 @@ export const useTasks = () => {
               user_id: originalTask.assigned_to,
               message: `You have been unassigned from task: ${originalTask.title}`,
               notification_type: 'task_unassigned',
+              link: `/tasks?viewId=${taskId}`,
             });
 
             // Send email notification for unassignment - sender is the updater
@@ -238,6 +309,7 @@ export const useTasks = () => {
               user_id: originalTask.created_by,
               message: statusMessages[updates.status] || `Task updated: ${originalTask.title}`,
               notification_type: updates.status === 'completed' ? 'task_completed' : 'task_updated',
+              link: `/tasks?viewId=${taskId}`,
             });
 
             // Send email notification for status change - sender is the updater
@@ -262,6 +334,7 @@ export const useTasks = () => {
               user_id: originalTask.assigned_to,
               message: statusMessages[updates.status] || `Task updated: ${originalTask.title}`,
               notification_type: updates.status === 'completed' ? 'task_completed' : 'task_updated',
+              link: `/tasks?viewId=${taskId}`,
             });
 
             // Send email notification for status change - sender is the updater
@@ -285,6 +358,7 @@ export const useTasks = () => {
             user_id: originalTask.assigned_to,
             message: `Due date changed for task: ${originalTask.title}`,
             notification_type: 'task_updated',
+            link: `/tasks?viewId=${taskId}`,
           });
         }
 
@@ -294,6 +368,7 @@ export const useTasks = () => {
             user_id: originalTask.assigned_to,
             message: `Priority changed to ${updates.priority} for task: ${originalTask.title}`,
             notification_type: 'task_updated',
+            link: `/tasks?viewId=${taskId}`,
           });
         }
       }
@@ -373,9 +448,9 @@ export const useTasks = () => {
     }
   };
 
-  const updateTask = async (taskId: string, updates: Partial<Task>, originalTask?: Task) => {
+  const updateTask = async (taskId: string, updates: Partial<Task>, originalTask?: Task, scope?: TaskSeriesScope) => {
     try {
-      await updateTaskMutation.mutateAsync({ taskId, updates, originalTask });
+      await updateTaskMutation.mutateAsync({ taskId, updates, originalTask, scope });
       return true;
     } catch {
       return false;
@@ -0,0 +1,55 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+// 'me', 'team' (the manager plus everyone below them) or a single report's user id
+export type TeamScope = string;
+
+const SCOPE_STORAGE_KEY = 'team-scope';
+
+/**
+ * "My team" scoping for dashboards and analytics. Managers with a team can
+ * switch between themselves, one report or the whole team; the choice is kept
+ * in the query cache (and localStorage) so every scoped view follows it. For
+ * users without reports userIds is null and callers keep their usual behaviour.
+ */
+export const useTeamScope = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: reportIds = [], isLoading: loading } = useQuery({
+    queryKey: ['managed-users', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_managed_user_ids', { p_manager_id: user!.id });
+      if (error) throw error;
+      return (data || []) as string[];
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: storedScope = 'me' } = useQuery({
+    queryKey: ['team-scope'],
+    queryFn: () => localStorage.getItem(SCOPE_STORAGE_KEY) || 'me',
+    staleTime: Infinity,
+  });
+
+  const canSwitch = !!user && reportIds.length > 0;
+  // A stored report id may no longer be in the team
+  const scope = canSwitch && (storedScope === 'team' || reportIds.includes(storedScope)) ? storedScope : 'me';
+
+  const userIds = useMemo(() => {
+    if (!user || !canSwitch) return null;
+    if (scope === 'me') return [user.id];
+    if (scope === 'team') return [user.id, ...reportIds];
+    return [scope];
+  }, [user, canSwitch, scope, reportIds]);
+
+  const setScope = useCallback((value: TeamScope) => {
+    localStorage.setItem(SCOPE_STORAGE_KEY, value);
+    queryClient.setQueryData(['team-scope'], value);
+  }, [queryClient]);
+
+  return { scope, setScope, reportIds, userIds, canSwitch, loading };
+};
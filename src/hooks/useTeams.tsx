@@ -0,0 +1,109 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+export interface Team {
+  id: string;
+  name: string;
+  description: string | null;
+  manager_id: string | null;
+  parent_team_id: string | null;
+  member_ids: string[];
+}
+
+export type TeamInput = Omit<Team, 'id'> & { id?: string };
+
+export const useTeams = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: teams = [], isLoading: loading } = useQuery({
+    queryKey: ['teams'],
+    queryFn: async () => {
+      const [teamsResult, membersResult] = await Promise.all([
+        supabase.from('teams').select('id, name, description, manager_id, parent_team_id').order('name'),
+        supabase.from('team_members').select('team_id, user_id'),
+      ]);
+
+      if (teamsResult.error) throw teamsResult.error;
+      if (membersResult.error) throw membersResult.error;
+
+      const members = membersResult.data || [];
+      return (teamsResult.data || []).map(team => ({
+        ...team,
+        member_ids: members.filter(m => m.team_id === team.id).map(m => m.user_id),
+      })) as Team[];
+    },
+    enabled: !!user,
+    staleTime: 60 * 1000,
+  });
+
+  const afterChange = (message: string) => {
+    toast.success(message);
+    queryClient.invalidateQueries({ queryKey: ['teams'] });
+    queryClient.invalidateQueries({ queryKey: ['managed-users'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (team: TeamInput) => {
+      const { id, member_ids, ...values } = team;
+
+      let teamId = id;
+      if (teamId) {
+        const { error } = await supabase.from('teams').update(values).eq('id', teamId);
+        if (error) throw new Error(error.message);
+      } else {
+        const { data, error } = await supabase
+          .from('teams')
+          .insert({ ...values, created_by: user?.id })
+          .select('id')
+          .single();
+        if (error) throw new Error(error.message);
+        teamId = data.id;
+      }
+
+      // A user is in one team only, so adding them here moves them out of their old team
+      let removeQuery = supabase.from('team_members').delete().eq('team_id', teamId);
+      if (member_ids.length > 0) {
+        removeQuery = removeQuery.not('user_id', 'in', `(${member_ids.join(',')})`);
+      }
+      const { error: removeError } = await removeQuery;
+      if (removeError) throw new Error(removeError.message);
+
+      if (member_ids.length > 0) {
+        const { error: upsertError } = await supabase
+          .from('team_members')
+          .upsert(member_ids.map(userId => ({ team_id: teamId, user_id: userId })), { onConflict: 'user_id' });
+        if (upsertError) throw new Error(upsertError.message);
+      }
+
+      return team;
+    },
+    onSuccess: (team) => afterChange(team.id ? 'Team updated' : 'Team added'),
+    onError: (error: Error) => {
+      console.error('Error saving team:', error);
+      toast.error(error.message || 'Failed to save team');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (teamId: string) => {
+      const { error } = await supabase.from('teams').delete().eq('id', teamId);
+      if (error) throw new Error(error.message);
+    },
+    onSuccess: () => afterChange('Team deleted'),
+    onError: (error: Error) => {
+      console.error('Error deleting team:', error);
+      toast.error(error.message || 'Failed to delete team');
+    },
+  });
+
+  return {
+    teams,
+    loading,
+    saveTeam: saveMutation.mutateAsync,
+    deleteTeam: deleteMutation.mutateAsync,
+    saving: saveMutation.isPending || deleteMutation.isPending,
+  };
+};
@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { getAuthSessionId } from '@/utils/authSession';
+import { toast } from 'sonner';
+
+export interface UserSession {
+  id: string;
+  auth_session_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  device_info: { browser?: string; os?: string; device?: string } | null;
+  last_active_at: string;
+  created_at: string;
+  is_current: boolean;
+}
+
+interface RevokeInput {
+  sessionIds?: string[];
+  scope?: 'others' | 'all';
+}
+
+/**
+ * Active sessions of a user (the signed-in user unless an admin passes one).
+ * Revoking goes through user-admin, which deletes the auth session so the
+ * device is signed out for real rather than only hidden from this list.
+ */
+export const useUserSessions = (userId?: string) => {
+  const { user, session } = useAuth();
+  const queryClient = useQueryClient();
+  const ownerId = userId || user?.id;
+  const currentAuthSessionId = getAuthSessionId(session);
+
+  const { data = [], isLoading: loading, refetch } = useQuery({
+    queryKey: ['user-sessions', ownerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_sessions')
+        .select('id, auth_session_id, ip_address, user_agent, device_info, last_active_at, created_at')
+        .eq('user_id', ownerId!)
+        .eq('is_active', true)
+        .order('last_active_at', { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!ownerId,
+  });
+
+  const sessions: UserSession[] = data.map(s => ({
+    ...s,
+    ip_address: s.ip_address as string | null,
+    device_info: s.device_info as UserSession['device_info'],
+    last_active_at: s.last_active_at || s.created_at,
+    is_current: !!currentAuthSessionId && s.auth_session_id === currentAuthSessionId,
+  }));
+
+  const revokeMutation = useMutation({
+    mutationFn: async ({ sessionIds, scope }: RevokeInput) => {
+      const { data, error } = await supabase.functions.invoke('user-admin', {
+        method: 'POST',
+        body: {
+          action: 'revoke-sessions',
+          sessionIds,
+          scope,
+          userId: ownerId !== user?.id ? ownerId : undefined,
+        },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return (data?.revoked as number) || 0;
+    },
+    onSuccess: (revoked) => {
+      queryClient.invalidateQueries({ queryKey: ['user-sessions'] });
+      toast.success(revoked === 1 ? 'Session signed out' : `${revoked} sessions signed out`);
+    },
+    onError: (error: Error) => {
+      console.error('Error revoking sessions:', error);
+      toast.error('Failed to sign out the session');
+    },
+  });
+
+  return {
+    sessions,
+    loading,
+    refetch,
+    revokeSession: (sessionId: string) => revokeMutation.mutateAsync({ sessionIds: [sessionId] }),
+    revokeOtherSessions: () => revokeMutation.mutateAsync({ scope: 'others' }),
+    revoking: revokeMutation.isPending,
+  };
+};
@@ -1,46 +1,61 @@
 
-import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery } from "@tanstack/react-query";
+import { fetchCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { fetchPipelineStages, getStageOutcomes, withDefaultStages } from "@/hooks/usePipelineStages";
+import { addToMoneyTotal, emptyMoneyTotal, getDealRateDate, MoneyTotal } from "@/utils/currencyConversion";
 
 interface QuarterlyData {
-  q1: number;
-  q2: number;
-  q3: number;
-  q4: number;
+  q1: MoneyTotal;
+  q2: MoneyTotal;
+  q3: MoneyTotal;
+  q4: MoneyTotal;
 }
 
+// Amounts keep each deal's own currency alongside the reporting-currency conversion
 interface YearlyRevenueData {
   year: number;
   target: number;
+  reportingCurrency: string;
   actualRevenue: QuarterlyData;
   projectedRevenue: QuarterlyData;
-  totalActual: number;
-  totalProjected: number;
+  totalActual: MoneyTotal;
+  totalProjected: MoneyTotal;
   hasDeals: boolean;
 }
 
+const emptyQuarters = (): QuarterlyData => ({
+  q1: emptyMoneyTotal(),
+  q2: emptyMoneyTotal(),
+  q3: emptyMoneyTotal(),
+  q4: emptyMoneyTotal(),
+});
+
+const getQuarter = (date: Date): keyof QuarterlyData => {
+  const month = date.getMonth() + 1;
+  if (month <= 3) return 'q1';
+  if (month <= 6) return 'q2';
+  if (month <= 9) return 'q3';
+  return 'q4';
+};
+
 export const useYearlyRevenueData = (selectedYear: number) => {
   const { data: revenueData, isLoading, error } = useQuery({
     queryKey: ['yearly-revenue', selectedYear],
     queryFn: async (): Promise<YearlyRevenueData> => {
-      console.log('Fetching revenue data for year:', selectedYear);
-
-      // Get yearly target
-      const { data: targetData } = await supabase
-        .from('yearly_revenue_targets')
-        .select('total_target')
-        .eq('year', selectedYear)
-        .single();
-
-      console.log('Target data:', targetData);
-
-      // Get all deals and filter by year
-      const { data: allDeals } = await supabase
-        .from('deals')
-        .select('*');
-
-      console.log('All deals:', allDeals);
+      const [{ data: targetData }, { data: allDeals }, stages, { reportingCurrency, rates }] = await Promise.all([
+        supabase
+          .from('yearly_revenue_targets')
+          .select('total_target')
+          .eq('year', selectedYear)
+          .single(),
+        supabase
+          .from('deals')
+          .select('*'),
+        fetchPipelineStages(),
+        fetchCurrencyConversion(),
+      ]);
+      const { won, lost } = getStageOutcomes(withDefaultStages(stages));
 
       // Filter deals by year based on expected_closing_date or signed_contract_date
       const dealsForYear = allDeals?.filter(deal => {
@@ -50,131 +65,64 @@ export const useYearlyRevenueData = (selectedYear: number) => {
         return expectedClosingDate === selectedYear || signedContractDate === selectedYear;
       }) || [];
 
-      console.log(`Deals for year ${selectedYear}:`, dealsForYear);
+      const actualRevenue = emptyQuarters();
+      const projectedRevenue = emptyQuarters();
+      const totalActual = emptyMoneyTotal();
+      const totalProjected = emptyMoneyTotal();
 
       // If no deals exist for this year, return empty data
       if (dealsForYear.length === 0) {
         return {
           year: selectedYear,
           target: targetData?.total_target || 0,
-          actualRevenue: { q1: 0, q2: 0, q3: 0, q4: 0 },
-          projectedRevenue: { q1: 0, q2: 0, q3: 0, q4: 0 },
-          totalActual: 0,
-          totalProjected: 0,
+          reportingCurrency,
+          actualRevenue,
+          projectedRevenue,
+          totalActual,
+          totalProjected,
           hasDeals: false
         };
       }
 
-      // Separate Won and RFQ deals from filtered results
-      const wonDeals = dealsForYear.filter(deal => deal.stage === 'Won');
-      const rfqDeals = dealsForYear.filter(deal => deal.stage === 'RFQ');
+      // Separate won deals from those still open in the pipeline
+      const wonDeals = dealsForYear.filter(deal => won.has(deal.stage));
+      const openDeals = dealsForYear.filter(deal => !won.has(deal.stage) && !lost.has(deal.stage));
 
-      console.log('Won deals for year:', wonDeals);
-      console.log('RFQ deals for year:', rfqDeals);
+      // Won deals: total revenue plus its Q1-Q4 split, converted at the signing date
+      wonDeals.forEach(deal => {
+        if (!deal.total_revenue || isNaN(Number(deal.total_revenue))) return;
+        const rateDate = getDealRateDate(deal);
 
-      const actualRevenue: QuarterlyData = { q1: 0, q2: 0, q3: 0, q4: 0 };
-      const projectedRevenue: QuarterlyData = { q1: 0, q2: 0, q3: 0, q4: 0 };
+        addToMoneyTotal(totalActual, rates, deal.total_revenue, deal.currency_type, reportingCurrency, rateDate);
+        addToMoneyTotal(actualRevenue.q1, rates, deal.quarterly_revenue_q1, deal.currency_type, reportingCurrency, rateDate);
+        addToMoneyTotal(actualRevenue.q2, rates, deal.quarterly_revenue_q2, deal.currency_type, reportingCurrency, rateDate);
+        addToMoneyTotal(actualRevenue.q3, rates, deal.quarterly_revenue_q3, deal.currency_type, reportingCurrency, rateDate);
+        addToMoneyTotal(actualRevenue.q4, rates, deal.quarterly_revenue_q4, deal.currency_type, reportingCurrency, rateDate);
+      });
 
-      let totalActualRevenue = 0;
-      let totalProjectedRevenue = 0;
+      // Open deals: TCV by expected closing quarter, converted at the expected closing date
+      openDeals.forEach(deal => {
+        if (!deal.total_contract_value || isNaN(Number(deal.total_contract_value))) return;
+        const rateDate = getDealRateDate(deal);
 
-      // Process Won deals for actual revenue
-      wonDeals?.forEach(deal => {
-        console.log('Processing Won deal:', deal.deal_name, 'Total Revenue:', deal.total_revenue);
-        
-        if (deal.total_revenue) {
-          const revenue = Number(deal.total_revenue);
-          if (!isNaN(revenue)) {
-            totalActualRevenue += revenue;
-            console.log('Added actual revenue:', revenue, 'Running total:', totalActualRevenue);
-            
-            // Quarterly breakdown for actual revenue (Q1-Q4 Revenue from Won deals)
-            if (deal.quarterly_revenue_q1) {
-              const q1Revenue = Number(deal.quarterly_revenue_q1);
-              if (!isNaN(q1Revenue)) {
-                actualRevenue.q1 += q1Revenue;
-              }
-            }
-            if (deal.quarterly_revenue_q2) {
-              const q2Revenue = Number(deal.quarterly_revenue_q2);
-              if (!isNaN(q2Revenue)) {
-                actualRevenue.q2 += q2Revenue;
-              }
-            }
-            if (deal.quarterly_revenue_q3) {
-              const q3Revenue = Number(deal.quarterly_revenue_q3);
-              if (!isNaN(q3Revenue)) {
-                actualRevenue.q3 += q3Revenue;
-              }
-            }
-            if (deal.quarterly_revenue_q4) {
-              const q4Revenue = Number(deal.quarterly_revenue_q4);
-              if (!isNaN(q4Revenue)) {
-                actualRevenue.q4 += q4Revenue;
-              }
-            }
-          }
-        }
-      });
+        addToMoneyTotal(totalProjected, rates, deal.total_contract_value, deal.currency_type, reportingCurrency, rateDate);
 
-      // Process RFQ deals for projected revenue - sum all TCV values by expected closing quarter
-      rfqDeals?.forEach(deal => {
-        console.log('Processing RFQ deal:', deal.deal_name, 'Total Contract Value:', deal.total_contract_value, 'Expected Closing:', deal.expected_closing_date);
-        
-        if (deal.total_contract_value) {
-          const contractValue = Number(deal.total_contract_value);
-          if (!isNaN(contractValue)) {
-            totalProjectedRevenue += contractValue;
-            console.log('Added projected revenue:', contractValue, 'Running total:', totalProjectedRevenue);
-            
-            // Determine quarter based on expected_closing_date
-            if (deal.expected_closing_date) {
-              try {
-                const closingDate = new Date(deal.expected_closing_date);
-                const closingYear = closingDate.getFullYear();
-                
-                // Only include deals that are expected to close in the selected year
-                if (closingYear === selectedYear) {
-                  const month = closingDate.getMonth() + 1; // getMonth() returns 0-11
-                  let quarter: keyof QuarterlyData;
-                  
-                  if (month >= 1 && month <= 3) {
-                    quarter = 'q1';
-                  } else if (month >= 4 && month <= 6) {
-                    quarter = 'q2';
-                  } else if (month >= 7 && month <= 9) {
-                    quarter = 'q3';
-                  } else {
-                    quarter = 'q4';
-                  }
-                  
-                  projectedRevenue[quarter] += contractValue;
-                  console.log(`Added ${contractValue} to projected ${quarter.toUpperCase()} for year ${selectedYear}`);
-                } else {
-                  console.log(`Deal ${deal.deal_name} expected to close in ${closingYear}, not ${selectedYear} - not included in quarterly breakdown`);
-                }
-              } catch (error) {
-                console.warn('Invalid closing date for deal:', deal.deal_name, deal.expected_closing_date);
-                // If date is invalid, don't include in quarterly breakdown but still count in total
-              }
-            } else {
-              console.log(`Deal ${deal.deal_name} has no expected_closing_date - not included in quarterly breakdown`);
-            }
-          }
-        }
-      });
+        // Deals without a valid closing date in this year count in the total only
+        if (!deal.expected_closing_date) return;
+        const closingDate = new Date(deal.expected_closing_date);
+        if (isNaN(closingDate.getTime()) || closingDate.getFullYear() !== selectedYear) return;
 
-      console.log('Final totals - Actual:', totalActualRevenue, 'Projected:', totalProjectedRevenue);
-      console.log('Quarterly actual:', actualRevenue);
-      console.log('Quarterly projected:', projectedRevenue);
+        addToMoneyTotal(projectedRevenue[getQuarter(closingDate)], rates, deal.total_contract_value, deal.currency_type, reportingCurrency, rateDate);
+      });
 
       return {
         year: selectedYear,
         target: targetData?.total_target || 0,
+        reportingCurrency,
         actualRevenue,
         projectedRevenue,
-        totalActual: totalActualRevenue,
-        totalProjected: totalProjectedRevenue,
+        totalActual,
+        totalProjected,
         hasDeals: true
       };
     },
@@ -228,31 +176,26 @@ export const useDashboardStats = () => {
   const { data: stats, isLoading } = useQuery({
     queryKey: ['dashboard-stats'],
     queryFn: async () => {
-      console.log('Fetching dashboard stats...');
-      
-      const { data: deals } = await supabase
-        .from('deals')
-        .select('*');
-
-      console.log('All deals for dashboard stats:', deals);
+      const [{ data: deals }, stages, { reportingCurrency, rates }] = await Promise.all([
+        supabase
+          .from('deals')
+          .select('*'),
+        fetchPipelineStages(),
+        fetchCurrencyConversion(),
+      ]);
+      const { won } = getStageOutcomes(withDefaultStages(stages));
 
       const totalDeals = deals?.length || 0;
       
       // Calculate total revenue from Won deals using total_revenue field
-      let totalRevenue = 0;
+      const totalRevenue = emptyMoneyTotal();
       deals?.forEach(deal => {
-        console.log('Processing deal for dashboard:', deal.deal_name, 'Stage:', deal.stage, 'Total Revenue:', deal.total_revenue);
-        
-        if (deal.stage === 'Won' && deal.total_revenue) {
-          const revenue = Number(deal.total_revenue);
-          totalRevenue += revenue;
-          console.log('Adding revenue from Won deal:', revenue, 'Running total:', totalRevenue);
+        if (won.has(deal.stage)) {
+          addToMoneyTotal(totalRevenue, rates, deal.total_revenue, deal.currency_type, reportingCurrency, getDealRateDate(deal));
         }
       });
       
-      console.log('Final dashboard total revenue:', totalRevenue);
-      
-      const wonDeals = deals?.filter(deal => deal.stage === 'Won').length || 0;
+      const wonDeals = deals?.filter(deal => won.has(deal.stage)).length || 0;
 
       return {
         totalDeals,
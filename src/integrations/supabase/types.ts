@@ -73,6 +73,7 @@ export type Database = {
           country: string | null
           created_at: string | null
           created_by: string | null
+          custom_fields: Json
           deal_count: number | null
           email: string | null
           id: string
@@ -82,6 +83,7 @@ export type Database = {
           notes: string | null
           phone: string | null
           region: string | null
+          score: number | null
           status: string | null
           tags: string[] | null
           updated_at: string | null
@@ -95,6 +97,7 @@ export type Database = {
           country?: string | null
           created_at?: string | null
           created_by?: string | null
+          custom_fields?: Json
           deal_count?: number | null
           email?: string | null
           id?: string
@@ -104,6 +107,7 @@ export type Database = {
           notes?: string | null
           phone?: string | null
           region?: string | null
+          score?: number | null
           status?: string | null
           tags?: string[] | null
           updated_at?: string | null
@@ -117,6 +121,7 @@ export type Database = {
           country?: string | null
           created_at?: string | null
           created_by?: string | null
+          custom_fields?: Json
           deal_count?: number | null
           email?: string | null
           id?: string
@@ -126,6 +131,7 @@ export type Database = {
           notes?: string | null
           phone?: string | null
           region?: string | null
+          score?: number | null
           status?: string | null
           tags?: string[] | null
           updated_at?: string | null
@@ -247,12 +253,15 @@ export type Database = {
       }
       approval_requests: {
         Row: {
+          action_type: string
           completed_at: string | null
           created_at: string | null
           current_step: number | null
           entity_id: string
+          entity_name: string | null
           entity_type: string
           id: string
+          pending_changes: Json
           status: string | null
           submitted_at: string | null
           submitted_by: string | null
@@ -260,12 +269,15 @@ export type Database = {
           workflow_id: string | null
         }
         Insert: {
+          action_type?: string
           completed_at?: string | null
           created_at?: string | null
           current_step?: number | null
           entity_id: string
+          entity_name?: string | null
           entity_type: string
           id?: string
+          pending_changes?: Json
           status?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -273,12 +285,15 @@ export type Database = {
           workflow_id?: string | null
         }
         Update: {
+          action_type?: string
           completed_at?: string | null
           created_at?: string | null
           current_step?: number | null
           entity_id?: string
+          entity_name?: string | null
           entity_type?: string
           id?: string
+          pending_changes?: Json
           status?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -331,44 +346,179 @@ export type Database = {
         }
         Relationships: []
       }
+      assignment_rules: {
+        Row: {
+          countries: string[]
+          created_at: string
+          created_by: string | null
+          distribution: string
+          entity_type: string
+          id: string
+          industries: string[]
+          is_active: boolean
+          last_assigned_to: string | null
+          member_ids: string[]
+          name: string
+          priority: number
+          regions: string[]
+          sources: string[]
+          updated_at: string
+        }
+        Insert: {
+          countries?: string[]
+          created_at?: string
+          created_by?: string | null
+          distribution?: string
+          entity_type: string
+          id?: string
+          industries?: string[]
+          is_active?: boolean
+          last_assigned_to?: string | null
+          member_ids: string[]
+          name: string
+          priority?: number
+          regions?: string[]
+          sources?: string[]
+          updated_at?: string
+        }
+        Update: {
+          countries?: string[]
+          created_at?: string
+          created_by?: string | null
+          distribution?: string
+          entity_type?: string
+          id?: string
+          industries?: string[]
+          is_active?: boolean
+          last_assigned_to?: string | null
+          member_ids?: string[]
+          name?: string
+          priority?: number
+          regions?: string[]
+          sources?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      backup_schedule_runs: {
+        Row: {
+          backup_id: string | null
+          error_message: string | null
+          finished_at: string | null
+          id: string
+          pruned_count: number
+          records_count: number | null
+          schedule_id: string
+          size_bytes: number | null
+          started_at: string
+          status: string
+          triggered_by: string | null
+        }
+        Insert: {
+          backup_id?: string | null
+          error_message?: string | null
+          finished_at?: string | null
+          id?: string
+          pruned_count?: number
+          records_count?: number | null
+          schedule_id: string
+          size_bytes?: number | null
+          started_at?: string
+          status?: string
+          triggered_by?: string | null
+        }
+        Update: {
+          backup_id?: string | null
+          error_message?: string | null
+          finished_at?: string | null
+          id?: string
+          pruned_count?: number
+          records_count?: number | null
+          schedule_id?: string
+          size_bytes?: number | null
+          started_at?: string
+          status?: string
+          triggered_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "backup_schedule_runs_backup_id_fkey"
+            columns: ["backup_id"]
+            isOneToOne: false
+            referencedRelation: "backups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "backup_schedule_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "backup_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       backup_schedules: {
         Row: {
           created_at: string | null
           created_by: string | null
+          day_of_month: number | null
           day_of_week: number | null
           frequency: string
           id: string
+          include_audit_logs: boolean
           is_enabled: boolean | null
+          keep_daily: number
+          keep_monthly: number
+          keep_weekly: number
+          last_error: string | null
           last_run_at: string | null
+          last_status: string | null
           next_run_at: string | null
           retention_days: number | null
           time_of_day: string
+          timezone: string
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
           created_by?: string | null
+          day_of_month?: number | null
           day_of_week?: number | null
           frequency?: string
           id?: string
+          include_audit_logs?: boolean
           is_enabled?: boolean | null
+          keep_daily?: number
+          keep_monthly?: number
+          keep_weekly?: number
+          last_error?: string | null
           last_run_at?: string | null
+          last_status?: string | null
           next_run_at?: string | null
           retention_days?: number | null
           time_of_day?: string
+          timezone?: string
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
           created_by?: string | null
+          day_of_month?: number | null
           day_of_week?: number | null
           frequency?: string
           id?: string
+          include_audit_logs?: boolean
           is_enabled?: boolean | null
+          keep_daily?: number
+          keep_monthly?: number
+          keep_weekly?: number
+          last_error?: string | null
           last_run_at?: string | null
+          last_status?: string | null
           next_run_at?: string | null
           retention_days?: number | null
           time_of_day?: string
+          timezone?: string
           updated_at?: string | null
         }
         Relationships: []
@@ -383,6 +533,7 @@ export type Database = {
           id: string
           manifest: Json | null
           records_count: number | null
+          schedule_id: string | null
           size_bytes: number | null
           status: string
           tables_count: number | null
@@ -396,6 +547,7 @@ export type Database = {
           id?: string
           manifest?: Json | null
           records_count?: number | null
+          schedule_id?: string | null
           size_bytes?: number | null
           status?: string
           tables_count?: number | null
@@ -409,11 +561,20 @@ export type Database = {
           id?: string
           manifest?: Json | null
           records_count?: number | null
+          schedule_id?: string | null
           size_bytes?: number | null
           status?: string
           tables_count?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "backups_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "backup_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       branding_settings: {
         Row: {
@@ -517,6 +678,7 @@ export type Database = {
           contact_source: string | null
           created_by: string | null
           created_time: string | null
+          custom_fields: Json
           description: string | null
           email: string | null
           email_clicks: number | null
@@ -545,6 +707,7 @@ export type Database = {
           contact_source?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           email_clicks?: number | null
@@ -573,6 +736,7 @@ export type Database = {
           contact_source?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           email_clicks?: number | null
@@ -647,6 +811,30 @@ export type Database = {
         }
         Relationships: []
       }
+      currency_settings: {
+        Row: {
+          created_at: string
+          id: string
+          reporting_currency: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reporting_currency?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reporting_currency?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       dashboard_preferences: {
         Row: {
           card_order: Json | null
@@ -777,6 +965,7 @@ export type Database = {
           created_by: string | null
           currency_type: string | null
           current_status: string | null
+          custom_fields: Json
           customer_challenges: string | null
           customer_name: string | null
           customer_need: string | null
@@ -785,6 +974,7 @@ export type Database = {
           drop_reason: string | null
           end_date: string | null
           expected_closing_date: string | null
+          forecast_category: string | null
           handoff_status: string | null
           id: string
           implementation_start_date: string | null
@@ -827,6 +1017,7 @@ export type Database = {
           created_by?: string | null
           currency_type?: string | null
           current_status?: string | null
+          custom_fields?: Json
           customer_challenges?: string | null
           customer_name?: string | null
           customer_need?: string | null
@@ -835,6 +1026,7 @@ export type Database = {
           drop_reason?: string | null
           end_date?: string | null
           expected_closing_date?: string | null
+          forecast_category?: string | null
           handoff_status?: string | null
           id?: string
           implementation_start_date?: string | null
@@ -877,6 +1069,7 @@ export type Database = {
           created_by?: string | null
           currency_type?: string | null
           current_status?: string | null
+          custom_fields?: Json
           customer_challenges?: string | null
           customer_name?: string | null
           customer_need?: string | null
@@ -885,6 +1078,7 @@ export type Database = {
           drop_reason?: string | null
           end_date?: string | null
           expected_closing_date?: string | null
+          forecast_category?: string | null
           handoff_status?: string | null
           id?: string
           implementation_start_date?: string | null
@@ -933,21 +1127,145 @@ export type Database = {
           },
         ]
       }
+      email_campaign_recipients: {
+        Row: {
+          attempts: number
+          campaign_id: string
+          created_at: string
+          email_history_id: string | null
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          next_attempt_at: string
+          recipient_email: string
+          recipient_id: string
+          recipient_name: string | null
+          recipient_type: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          campaign_id: string
+          created_at?: string
+          email_history_id?: string | null
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          next_attempt_at?: string
+          recipient_email: string
+          recipient_id: string
+          recipient_name?: string | null
+          recipient_type: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          campaign_id?: string
+          created_at?: string
+          email_history_id?: string | null
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          next_attempt_at?: string
+          recipient_email?: string
+          recipient_id?: string
+          recipient_name?: string | null
+          recipient_type?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_campaign_recipients_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_campaign_recipients_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_campaigns: {
+        Row: {
+          body: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          sender_email: string
+          started_at: string | null
+          status: string
+          subject: string
+          throttle_per_minute: number
+          total_recipients: number
+          updated_at: string
+        }
+        Insert: {
+          body?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          sender_email: string
+          started_at?: string | null
+          status?: string
+          subject: string
+          throttle_per_minute?: number
+          total_recipients?: number
+          updated_at?: string
+        }
+        Update: {
+          body?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          sender_email?: string
+          started_at?: string | null
+          status?: string
+          subject?: string
+          throttle_per_minute?: number
+          total_recipients?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       email_history: {
         Row: {
           account_id: string | null
           body: string | null
+          bounce_reason: string | null
+          bounced_at: string | null
           click_count: number | null
           clicked_at: string | null
           contact_id: string | null
+          conversation_id: string | null
           created_at: string
+          deal_id: string | null
           delivered_at: string | null
+          graph_message_id: string | null
           id: string
+          internet_message_id: string | null
           lead_id: string | null
           open_count: number | null
           opened_at: string | null
           recipient_email: string
           recipient_name: string | null
+          replied_at: string | null
           sender_email: string
           sent_at: string
           sent_by: string | null
@@ -958,17 +1276,24 @@ export type Database = {
         Insert: {
           account_id?: string | null
           body?: string | null
+          bounce_reason?: string | null
+          bounced_at?: string | null
           click_count?: number | null
           clicked_at?: string | null
           contact_id?: string | null
+          conversation_id?: string | null
           created_at?: string
+          deal_id?: string | null
           delivered_at?: string | null
+          graph_message_id?: string | null
           id?: string
+          internet_message_id?: string | null
           lead_id?: string | null
           open_count?: number | null
           opened_at?: string | null
           recipient_email: string
           recipient_name?: string | null
+          replied_at?: string | null
           sender_email: string
           sent_at?: string
           sent_by?: string | null
@@ -979,17 +1304,24 @@ export type Database = {
         Update: {
           account_id?: string | null
           body?: string | null
+          bounce_reason?: string | null
+          bounced_at?: string | null
           click_count?: number | null
           clicked_at?: string | null
           contact_id?: string | null
+          conversation_id?: string | null
           created_at?: string
+          deal_id?: string | null
           delivered_at?: string | null
+          graph_message_id?: string | null
           id?: string
+          internet_message_id?: string | null
           lead_id?: string | null
           open_count?: number | null
           opened_at?: string | null
           recipient_email?: string
           recipient_name?: string | null
+          replied_at?: string | null
           sender_email?: string
           sent_at?: string
           sent_by?: string | null
@@ -1012,6 +1344,13 @@ export type Database = {
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "email_history_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "email_history_lead_id_fkey"
             columns: ["lead_id"]
@@ -1021,89 +1360,523 @@ export type Database = {
           },
         ]
       }
-      email_templates: {
+      email_link_clicks: {
         Row: {
-          body: string
-          created_at: string
-          created_by: string | null
+          clicked_at: string
+          email_id: string
           id: string
-          name: string
-          subject: string
-          updated_at: string
+          link_url: string
+          user_agent_hash: string | null
         }
         Insert: {
-          body: string
-          created_at?: string
-          created_by?: string | null
+          clicked_at?: string
+          email_id: string
           id?: string
-          name: string
-          subject: string
-          updated_at?: string
+          link_url: string
+          user_agent_hash?: string | null
         }
         Update: {
-          body?: string
-          created_at?: string
-          created_by?: string | null
+          clicked_at?: string
+          email_id?: string
           id?: string
-          name?: string
-          subject?: string
+          link_url?: string
+          user_agent_hash?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_link_clicks_email_id_fkey"
+            columns: ["email_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_mailbox_sync: {
+        Row: {
+          last_error: string | null
+          last_received_at: string | null
+          last_synced_at: string | null
+          mailbox: string
+          updated_at: string
+        }
+        Insert: {
+          last_error?: string | null
+          last_received_at?: string | null
+          last_synced_at?: string | null
+          mailbox: string
+          updated_at?: string
+        }
+        Update: {
+          last_error?: string | null
+          last_received_at?: string | null
+          last_synced_at?: string | null
+          mailbox?: string
           updated_at?: string
         }
         Relationships: []
       }
-      import_export_settings: {
+      email_sequence_enrollments: {
         Row: {
-          created_at: string
-          default_values: Json | null
+          attempts: number
+          current_step: number
+          enrolled_at: string
+          enrolled_by: string | null
+          entity_id: string
           entity_type: string
-          field_mappings: Json | null
+          exit_reason: string | null
+          finished_at: string | null
           id: string
-          skip_duplicates: boolean | null
+          last_error: string | null
+          next_run_at: string
+          recipient_email: string
+          recipient_name: string | null
+          sender_email: string
+          sequence_id: string
+          status: string
           updated_at: string
-          user_id: string
         }
         Insert: {
-          created_at?: string
-          default_values?: Json | null
+          attempts?: number
+          current_step?: number
+          enrolled_at?: string
+          enrolled_by?: string | null
+          entity_id: string
           entity_type: string
-          field_mappings?: Json | null
+          exit_reason?: string | null
+          finished_at?: string | null
           id?: string
-          skip_duplicates?: boolean | null
+          last_error?: string | null
+          next_run_at?: string
+          recipient_email: string
+          recipient_name?: string | null
+          sender_email: string
+          sequence_id: string
+          status?: string
           updated_at?: string
-          user_id: string
         }
         Update: {
-          created_at?: string
-          default_values?: Json | null
+          attempts?: number
+          current_step?: number
+          enrolled_at?: string
+          enrolled_by?: string | null
+          entity_id?: string
           entity_type?: string
-          field_mappings?: Json | null
+          exit_reason?: string | null
+          finished_at?: string | null
           id?: string
-          skip_duplicates?: boolean | null
+          last_error?: string | null
+          next_run_at?: string
+          recipient_email?: string
+          recipient_name?: string | null
+          sender_email?: string
+          sequence_id?: string
+          status?: string
           updated_at?: string
-          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_enrollments_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequences"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      integration_settings: {
+      email_sequence_step_runs: {
         Row: {
-          config: Json | null
-          created_at: string
+          email_history_id: string | null
+          enrollment_id: string
+          executed_at: string
           id: string
-          integration_name: string
-          is_enabled: boolean | null
-          last_sync_at: string | null
-          sync_status: string | null
-          updated_at: string
+          step_id: string | null
+          step_order: number
+          step_type: string
+          task_id: string | null
         }
         Insert: {
-          config?: Json | null
-          created_at?: string
+          email_history_id?: string | null
+          enrollment_id: string
+          executed_at?: string
           id?: string
-          integration_name: string
-          is_enabled?: boolean | null
-          last_sync_at?: string | null
-          sync_status?: string | null
-          updated_at?: string
+          step_id?: string | null
+          step_order: number
+          step_type: string
+          task_id?: string | null
+        }
+        Update: {
+          email_history_id?: string | null
+          enrollment_id?: string
+          executed_at?: string
+          id?: string
+          step_id?: string | null
+          step_order?: number
+          step_type?: string
+          task_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_step_runs_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_step_runs_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequence_enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_step_runs_step_id_fkey"
+            columns: ["step_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequence_steps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_step_runs_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequence_steps: {
+        Row: {
+          created_at: string
+          id: string
+          sequence_id: string
+          step_order: number
+          step_type: string
+          task_description: string | null
+          task_due_days: number
+          task_title: string | null
+          template_id: string | null
+          updated_at: string
+          wait_days: number | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          sequence_id: string
+          step_order: number
+          step_type: string
+          task_description?: string | null
+          task_due_days?: number
+          task_title?: string | null
+          template_id?: string | null
+          updated_at?: string
+          wait_days?: number | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          sequence_id?: string
+          step_order?: number
+          step_type?: string
+          task_description?: string | null
+          task_due_days?: number
+          task_title?: string | null
+          template_id?: string | null
+          updated_at?: string
+          wait_days?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_steps_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_steps_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequences: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_templates: {
+        Row: {
+          body: string
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_date: string
+          from_currency: string
+          id: string
+          rate: number
+          source: string
+          to_currency: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_date: string
+          from_currency: string
+          id?: string
+          rate: number
+          source?: string
+          to_currency: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_date?: string
+          from_currency?: string
+          id?: string
+          rate?: number
+          source?: string
+          to_currency?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      forecast_overrides: {
+        Row: {
+          best_case_amount: number | null
+          commit_amount: number | null
+          created_at: string
+          currency: string
+          id: string
+          note: string | null
+          owner_id: string
+          quarter: number
+          updated_at: string
+          updated_by: string | null
+          year: number
+        }
+        Insert: {
+          best_case_amount?: number | null
+          commit_amount?: number | null
+          created_at?: string
+          currency?: string
+          id?: string
+          note?: string | null
+          owner_id: string
+          quarter: number
+          updated_at?: string
+          updated_by?: string | null
+          year: number
+        }
+        Update: {
+          best_case_amount?: number | null
+          commit_amount?: number | null
+          created_at?: string
+          currency?: string
+          id?: string
+          note?: string | null
+          owner_id?: string
+          quarter?: number
+          updated_at?: string
+          updated_by?: string | null
+          year?: number
+        }
+        Relationships: []
+      }
+      forecast_snapshot_deals: {
+        Row: {
+          amount: number | null
+          close_date: string
+          close_quarter: number
+          close_year: number
+          deal_id: string
+          deal_name: string
+          forecast_category: string
+          id: string
+          owner_id: string | null
+          probability: number
+          snapshot_id: string
+          stage: string
+          weighted_amount: number | null
+        }
+        Insert: {
+          amount?: number | null
+          close_date: string
+          close_quarter: number
+          close_year: number
+          deal_id: string
+          deal_name: string
+          forecast_category: string
+          id?: string
+          owner_id?: string | null
+          probability?: number
+          snapshot_id: string
+          stage: string
+          weighted_amount?: number | null
+        }
+        Update: {
+          amount?: number | null
+          close_date?: string
+          close_quarter?: number
+          close_year?: number
+          deal_id?: string
+          deal_name?: string
+          forecast_category?: string
+          id?: string
+          owner_id?: string | null
+          probability?: number
+          snapshot_id?: string
+          stage?: string
+          weighted_amount?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "forecast_snapshot_deals_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "forecast_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      forecast_snapshots: {
+        Row: {
+          created_at: string
+          deal_count: number
+          id: string
+          reporting_currency: string
+          snapshot_date: string
+          taken_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          deal_count?: number
+          id?: string
+          reporting_currency: string
+          snapshot_date: string
+          taken_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          deal_count?: number
+          id?: string
+          reporting_currency?: string
+          snapshot_date?: string
+          taken_by?: string | null
+        }
+        Relationships: []
+      }
+      import_export_settings: {
+        Row: {
+          created_at: string
+          default_values: Json | null
+          entity_type: string
+          field_mappings: Json | null
+          id: string
+          skip_duplicates: boolean | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          default_values?: Json | null
+          entity_type: string
+          field_mappings?: Json | null
+          id?: string
+          skip_duplicates?: boolean | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          default_values?: Json | null
+          entity_type?: string
+          field_mappings?: Json | null
+          id?: string
+          skip_duplicates?: boolean | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      integration_settings: {
+        Row: {
+          config: Json | null
+          created_at: string
+          id: string
+          integration_name: string
+          is_enabled: boolean | null
+          last_sync_at: string | null
+          sync_status: string | null
+          updated_at: string
+        }
+        Insert: {
+          config?: Json | null
+          created_at?: string
+          id?: string
+          integration_name: string
+          is_enabled?: boolean | null
+          last_sync_at?: string | null
+          sync_status?: string | null
+          updated_at?: string
         }
         Update: {
           config?: Json | null
@@ -1171,6 +1944,95 @@ export type Database = {
         }
         Relationships: []
       }
+      lead_conversions: {
+        Row: {
+          account_id: string | null
+          contact_id: string | null
+          converted_at: string
+          converted_by: string | null
+          created_account: boolean
+          created_contact: boolean
+          deal_id: string | null
+          deal_name: string
+          deal_stage: string | null
+          deal_value: number | null
+          id: string
+          lead_id: string
+          moved_records: Json
+          previous_account_id: string | null
+          previous_lead_status: string | null
+          reverted_at: string | null
+          reverted_by: string | null
+        }
+        Insert: {
+          account_id?: string | null
+          contact_id?: string | null
+          converted_at?: string
+          converted_by?: string | null
+          created_account?: boolean
+          created_contact?: boolean
+          deal_id?: string | null
+          deal_name: string
+          deal_stage?: string | null
+          deal_value?: number | null
+          id?: string
+          lead_id: string
+          moved_records?: Json
+          previous_account_id?: string | null
+          previous_lead_status?: string | null
+          reverted_at?: string | null
+          reverted_by?: string | null
+        }
+        Update: {
+          account_id?: string | null
+          contact_id?: string | null
+          converted_at?: string
+          converted_by?: string | null
+          created_account?: boolean
+          created_contact?: boolean
+          deal_id?: string | null
+          deal_name?: string
+          deal_stage?: string | null
+          deal_value?: number | null
+          id?: string
+          lead_id?: string
+          moved_records?: Json
+          previous_account_id?: string | null
+          previous_lead_status?: string | null
+          reverted_at?: string | null
+          reverted_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_conversions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_conversions_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_conversions_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_conversions_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       lead_statuses: {
         Row: {
           created_at: string
@@ -1214,9 +2076,11 @@ export type Database = {
           contact_owner: string | null
           contact_source: string | null
           converted_from_contact_id: string | null
+          converted_to_deal_id: string | null
           country: string | null
           created_by: string | null
           created_time: string | null
+          custom_fields: Json
           description: string | null
           email: string | null
           id: string
@@ -1236,9 +2100,11 @@ export type Database = {
           contact_owner?: string | null
           contact_source?: string | null
           converted_from_contact_id?: string | null
+          converted_to_deal_id?: string | null
           country?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           id?: string
@@ -1258,9 +2124,11 @@ export type Database = {
           contact_owner?: string | null
           contact_source?: string | null
           converted_from_contact_id?: string | null
+          converted_to_deal_id?: string | null
           country?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           id?: string
@@ -1289,6 +2157,13 @@ export type Database = {
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "leads_converted_to_deal_id_fkey"
+            columns: ["converted_to_deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
         ]
       }
       maintenance: {
@@ -1510,6 +2385,66 @@ export type Database = {
           },
         ]
       }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_digests: {
+        Row: {
+          covered_from: string
+          digest_type: string
+          email_sent_to: string | null
+          id: string
+          item_count: number
+          notification_count: number
+          period_key: string
+          sent_at: string
+          user_id: string
+        }
+        Insert: {
+          covered_from: string
+          digest_type: string
+          email_sent_to?: string | null
+          id?: string
+          item_count?: number
+          notification_count?: number
+          period_key: string
+          sent_at?: string
+          user_id: string
+        }
+        Update: {
+          covered_from?: string
+          digest_type?: string
+          email_sent_to?: string | null
+          id?: string
+          item_count?: number
+          notification_count?: number
+          period_key?: string
+          sent_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       notification_preferences: {
         Row: {
           accounts_notifications: boolean | null
@@ -1573,8 +2508,10 @@ export type Database = {
           created_at: string
           id: string
           lead_id: string | null
+          link: string | null
           message: string
           notification_type: string
+          pushed_at: string | null
           status: string
           updated_at: string
           user_id: string
@@ -1584,8 +2521,10 @@ export type Database = {
           created_at?: string
           id?: string
           lead_id?: string | null
+          link?: string | null
           message: string
           notification_type?: string
+          pushed_at?: string | null
           status?: string
           updated_at?: string
           user_id: string
@@ -1595,8 +2534,10 @@ export type Database = {
           created_at?: string
           id?: string
           lead_id?: string | null
+          link?: string | null
           message?: string
           notification_type?: string
+          pushed_at?: string | null
           status?: string
           updated_at?: string
           user_id?: string
@@ -1643,6 +2584,8 @@ export type Database = {
         Row: {
           created_at: string
           created_by: string | null
+          forecast_category: string
+          form_fields: string[]
           id: string
           is_active: boolean | null
           is_lost_stage: boolean | null
@@ -1651,11 +2594,14 @@ export type Database = {
           stage_name: string
           stage_order: number
           stage_probability: number | null
+          stuck_after_days: number | null
           updated_at: string
         }
         Insert: {
           created_at?: string
           created_by?: string | null
+          forecast_category?: string
+          form_fields?: string[]
           id?: string
           is_active?: boolean | null
           is_lost_stage?: boolean | null
@@ -1664,11 +2610,14 @@ export type Database = {
           stage_name: string
           stage_order?: number
           stage_probability?: number | null
+          stuck_after_days?: number | null
           updated_at?: string
         }
         Update: {
           created_at?: string
           created_by?: string | null
+          forecast_category?: string
+          form_fields?: string[]
           id?: string
           is_active?: boolean | null
           is_lost_stage?: boolean | null
@@ -1677,6 +2626,7 @@ export type Database = {
           stage_name?: string
           stage_order?: number
           stage_probability?: number | null
+          stuck_after_days?: number | null
           updated_at?: string
         }
         Relationships: []
@@ -1717,6 +2667,66 @@ export type Database = {
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      record_scores: {
+        Row: {
+          breakdown: Json
+          computed_at: string
+          entity_id: string
+          entity_type: string
+          last_engagement_at: string | null
+          score: number
+        }
+        Insert: {
+          breakdown?: Json
+          computed_at?: string
+          entity_id: string
+          entity_type: string
+          last_engagement_at?: string | null
+          score?: number
+        }
+        Update: {
+          breakdown?: Json
+          computed_at?: string
+          entity_id?: string
+          entity_type?: string
+          last_engagement_at?: string | null
+          score?: number
+        }
+        Relationships: []
+      }
       report_schedules: {
         Row: {
           created_at: string | null
@@ -1768,6 +2778,45 @@ export type Database = {
         }
         Relationships: []
       }
+      revenue_targets: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          currency: string
+          id: string
+          owner_id: string | null
+          quarter: number
+          region: string | null
+          updated_at: string
+          year: number
+        }
+        Insert: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          id?: string
+          owner_id?: string | null
+          quarter: number
+          region?: string | null
+          updated_at?: string
+          year: number
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          id?: string
+          owner_id?: string | null
+          quarter?: number
+          region?: string | null
+          updated_at?: string
+          year?: number
+        }
+        Relationships: []
+      }
       saved_filters: {
         Row: {
           created_at: string
@@ -1798,6 +2847,60 @@ export type Database = {
         }
         Relationships: []
       }
+      scoring_rules: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          entity_type: string
+          field: string | null
+          id: string
+          is_active: boolean
+          max_points: number | null
+          metric: string | null
+          name: string
+          operator: string | null
+          period_days: number | null
+          points: number
+          rule_type: string
+          updated_at: string
+          value: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          entity_type: string
+          field?: string | null
+          id?: string
+          is_active?: boolean
+          max_points?: number | null
+          metric?: string | null
+          name: string
+          operator?: string | null
+          period_days?: number | null
+          points: number
+          rule_type: string
+          updated_at?: string
+          value?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          entity_type?: string
+          field?: string | null
+          id?: string
+          is_active?: boolean
+          max_points?: number | null
+          metric?: string | null
+          name?: string
+          operator?: string | null
+          period_days?: number | null
+          points?: number
+          rule_type?: string
+          updated_at?: string
+          value?: string | null
+        }
+        Relationships: []
+      }
       security_audit_log: {
         Row: {
           action: string
@@ -1834,6 +2937,39 @@ export type Database = {
         }
         Relationships: []
       }
+      session_policies: {
+        Row: {
+          created_at: string
+          id: string
+          idle_timeout_minutes: number | null
+          max_concurrent_sessions: number | null
+          require_mfa: boolean
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          idle_timeout_minutes?: number | null
+          max_concurrent_sessions?: number | null
+          require_mfa?: boolean
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          idle_timeout_minutes?: number | null
+          max_concurrent_sessions?: number | null
+          require_mfa?: boolean
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       system_updates: {
         Row: {
           created_at: string
@@ -1906,6 +3042,24 @@ export type Database = {
         }
         Relationships: []
       }
+      task_occurrence_skips: {
+        Row: {
+          created_at: string
+          due_date: string
+          series_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_date: string
+          series_id: string
+        }
+        Update: {
+          created_at?: string
+          due_date?: string
+          series_id?: string
+        }
+        Relationships: []
+      }
       task_reminder_logs: {
         Row: {
           created_at: string | null
@@ -2101,6 +3255,76 @@ export type Database = {
           },
         ]
       }
+      team_members: {
+        Row: {
+          created_at: string
+          id: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          manager_id: string | null
+          name: string
+          parent_team_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          manager_id?: string | null
+          name: string
+          parent_team_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          manager_id?: string | null
+          name?: string
+          parent_team_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_parent_team_id_fkey"
+            columns: ["parent_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_access_cache: {
         Row: {
           cache_date: string
@@ -2208,6 +3432,7 @@ export type Database = {
       }
       user_sessions: {
         Row: {
+          auth_session_id: string | null
           created_at: string
           device_info: Json | null
           expires_at: string | null
@@ -2215,11 +3440,15 @@ export type Database = {
           ip_address: unknown
           is_active: boolean | null
           last_active_at: string | null
+          revoke_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
           session_token: string
           user_agent: string | null
           user_id: string
         }
         Insert: {
+          auth_session_id?: string | null
           created_at?: string
           device_info?: Json | null
           expires_at?: string | null
@@ -2227,11 +3456,15 @@ export type Database = {
           ip_address?: unknown
           is_active?: boolean | null
           last_active_at?: string | null
+          revoke_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
           session_token: string
           user_agent?: string | null
           user_id: string
         }
         Update: {
+          auth_session_id?: string | null
           created_at?: string
           device_info?: Json | null
           expires_at?: string | null
@@ -2239,6 +3472,9 @@ export type Database = {
           ip_address?: unknown
           is_active?: boolean | null
           last_active_at?: string | null
+          revoke_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
           session_token?: string
           user_agent?: string | null
           user_id?: string
@@ -2277,6 +3513,19 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      approval_condition_matches: {
+        Args: { p_condition: Json; p_record: Json }
+        Returns: boolean
+      }
+      approval_to_numeric: { Args: { p_value: string }; Returns: number }
+      approval_value_changed: {
+        Args: { p_new: string; p_old: string }
+        Returns: boolean
+      }
+      assignment_value_matches: {
+        Args: { p_allowed: string[]; p_value: string }
+        Returns: boolean
+      }
       calculate_account_score: {
         Args: { p_account_id: string }
         Returns: number
@@ -2285,6 +3534,107 @@ export type Database = {
         Args: { p_contact_id: string }
         Returns: number
       }
+      can_manage_user: { Args: { p_user_id: string }; Returns: boolean }
+      can_act_on_approval_step: {
+        Args: { p_request_id: string; p_user_id?: string }
+        Returns: boolean
+      }
+      check_user_session: {
+        Args: { p_active?: boolean; p_auth_session_id: string }
+        Returns: string
+      }
+      claim_email_campaign_batch: {
+        Args: { p_campaign_id: string; p_limit: number }
+        Returns: {
+          attempts: number
+          campaign_id: string
+          created_at: string
+          email_history_id: string | null
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          next_attempt_at: string
+          recipient_email: string
+          recipient_id: string
+          recipient_name: string | null
+          recipient_type: string
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }[]
+      }
+      compute_backup_next_run: {
+        Args: {
+          p_after?: string
+          p_day_of_month: number
+          p_day_of_week: number
+          p_frequency: string
+          p_time_of_day: string
+          p_timezone: string
+        }
+        Returns: string
+      }
+      compute_record_score: {
+        Args: { p_entity_id: string; p_entity_type: string }
+        Returns: number
+      }
+      convert_lead_to_deal: {
+        Args: {
+          p_account_id?: string
+          p_contact_id?: string
+          p_create_account?: boolean
+          p_create_contact?: boolean
+          p_deal: Json
+          p_lead_id: string
+          p_move_action_items?: boolean
+          p_move_emails?: boolean
+          p_move_meetings?: boolean
+          p_move_tasks?: boolean
+        }
+        Returns: Json
+      }
+      convert_to_reporting_currency: {
+        Args: { p_amount: number; p_from: string; p_on?: string; p_to?: string }
+        Returns: number
+      }
+      create_email_campaign: {
+        Args: {
+          p_body: string
+          p_name: string
+          p_recipients: Json
+          p_sender_email: string
+          p_subject: string
+          p_throttle_per_minute?: number
+        }
+        Returns: string
+      }
+      default_deal_stage: { Args: never; Returns: string }
+      enroll_in_email_sequence: {
+        Args: { p_entities: Json; p_sequence_id: string }
+        Returns: number
+      }
+      exit_email_sequence_enrollment: {
+        Args: { p_enrollment_id: string }
+        Returns: boolean
+      }
+      exit_email_sequence_enrollments: {
+        Args: { p_entity_id: string; p_entity_type: string; p_reason: string }
+        Returns: number
+      }
+      generate_due_recurring_tasks: { Args: never; Returns: number }
+      generate_mfa_recovery_codes: { Args: never; Returns: string[] }
+      generate_next_task_occurrence: {
+        Args: { p_task_id: string }
+        Returns: string
+      }
+      get_exchange_rate: {
+        Args: { p_from: string; p_on?: string; p_to: string }
+        Returns: number
+      }
+      get_managed_user_ids: {
+        Args: { p_manager_id?: string }
+        Returns: string[]
+      }
       get_my_access_snapshot: {
         Args: never
         Returns: {
@@ -2294,7 +3644,13 @@ export type Database = {
           role: string
         }[]
       }
+      get_record_engagement: {
+        Args: { p_entity_id: string; p_entity_type: string }
+        Returns: Json
+      }
+      get_team_user_ids: { Args: { p_team_id: string }; Returns: string[] }
       get_user_role: { Args: { p_user_id: string }; Returns: string }
+      is_backup_restore: { Args: never; Returns: boolean }
       is_current_user_admin: { Args: never; Returns: boolean }
       is_current_user_admin_by_metadata: { Args: never; Returns: boolean }
       is_user_admin: { Args: { user_id?: string }; Returns: boolean }
@@ -2316,6 +3672,76 @@ export type Database = {
         }
         Returns: undefined
       }
+      mfa_satisfied: { Args: never; Returns: boolean }
+      notify_approval_step: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
+      process_approval_action: {
+        Args: { p_action: string; p_comments?: string; p_request_id: string }
+        Returns: string
+      }
+      recompute_record_scores: {
+        Args: { p_entity_type?: string }
+        Returns: number
+      }
+      recompute_stale_record_scores: {
+        Args: { p_limit?: number; p_max_age?: unknown }
+        Returns: number
+      }
+      record_email_link_click: {
+        Args: {
+          p_email_id: string
+          p_link_url: string
+          p_user_agent_hash?: string
+        }
+        Returns: boolean
+      }
+      retire_pipeline_stage: {
+        Args: { p_delete?: boolean; p_move_to?: string; p_stage_id: string }
+        Returns: number
+      }
+      revert_lead_conversion: {
+        Args: { p_conversion_id: string; p_force?: boolean }
+        Returns: Json
+      }
+      revoke_user_sessions: {
+        Args: { p_reason?: string; p_revoked_by?: string; p_session_ids: string[] }
+        Returns: number
+      }
+      save_email_sequence: {
+        Args: {
+          p_description: string
+          p_is_active: boolean
+          p_name: string
+          p_sequence_id: string
+          p_steps: Json
+        }
+        Returns: string
+      }
+      save_revenue_targets: {
+        Args: { p_currency?: string; p_targets: Json; p_year: number }
+        Returns: number
+      }
+      set_email_campaign_status: {
+        Args: { p_action: string; p_campaign_id: string }
+        Returns: string
+      }
+      submit_approval_request: {
+        Args: {
+          p_action_type: string
+          p_entity_id: string
+          p_entity_name: string
+          p_entity_type: string
+          p_pending_changes: Json
+          p_workflow_id: string
+        }
+        Returns: string
+      }
+      take_forecast_snapshot: {
+        Args: { p_date?: string }
+        Returns: string
+      }
       update_account_stats: {
         Args: { p_account_id: string }
         Returns: undefined
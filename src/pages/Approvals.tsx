@@ -0,0 +1,331 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow, format } from 'date-fns';
+import { CheckSquare, Check, X, ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { useApprovalRequests, ApprovalRequest } from '@/hooks/useApprovalRequests';
+import { getApprovalStatusColor, getEntityRoute } from '@/utils/approvalUtils';
+import { cn } from '@/lib/utils';
+
+type ApprovalTab = 'inbox' | 'mine' | 'all';
+
+const actionTypeLabels: Record<string, string> = {
+  create: 'Create',
+  update: 'Update',
+  stage_change: 'Stage change',
+};
+
+// Fields that are bookkeeping rather than something the approver decides on
+const HIDDEN_CHANGE_FIELDS = ['modified_at', 'modified_by', 'modified_time', 'updated_at', 'created_at', 'created_time', 'created_by'];
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const Approvals = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { isAdmin, isManager } = usePermissions();
+  const { requests, awaitingMyAction, mySubmissions, loading, refetch, approve, reject, cancel, deciding } = useApprovalRequests();
+  const [activeTab, setActiveTab] = useState<ApprovalTab>('inbox');
+  const [reviewRequest, setReviewRequest] = useState<ApprovalRequest | null>(null);
+  const [currentRecord, setCurrentRecord] = useState<Record<string, unknown> | null>(null);
+  const [comments, setComments] = useState('');
+
+  const canSeeAll = isAdmin || isManager;
+
+  const visibleRequests = activeTab === 'inbox'
+    ? awaitingMyAction
+    : activeTab === 'mine'
+      ? mySubmissions
+      : requests;
+
+  const userIds = useMemo(() => {
+    const ids = new Set<string>();
+    requests.forEach(r => {
+      if (r.submitted_by) ids.add(r.submitted_by);
+      r.actions.forEach(a => ids.add(a.approver_id));
+    });
+    return Array.from(ids);
+  }, [requests]);
+  const { displayNames } = useUserDisplayNames(userIds);
+
+  // Load the live record so approvers can compare current and proposed values
+  useEffect(() => {
+    if (!reviewRequest || reviewRequest.action_type === 'create') {
+      setCurrentRecord(null);
+      return;
+    }
+    const table = reviewRequest.entity_type as 'deals' | 'leads' | 'accounts';
+    supabase
+      .from(table)
+      .select('*')
+      .eq('id', reviewRequest.entity_id)
+      .maybeSingle()
+      .then(({ data }) => setCurrentRecord((data as Record<string, unknown>) || null));
+  }, [reviewRequest]);
+
+  const awaitingIds = useMemo(() => new Set(awaitingMyAction.map(r => r.id)), [awaitingMyAction]);
+
+  const openReview = (request: ApprovalRequest) => {
+    setComments('');
+    setReviewRequest(request);
+  };
+
+  const handleDecision = async (action: 'approved' | 'rejected') => {
+    if (!reviewRequest) return;
+    try {
+      if (action === 'approved') {
+        await approve(reviewRequest, comments);
+      } else {
+        await reject(reviewRequest, comments);
+      }
+      setReviewRequest(null);
+    } catch {
+      // Error toast handled in the hook
+    }
+  };
+
+  const changedFields = reviewRequest
+    ? Object.keys(reviewRequest.pending_changes).filter(key => !HIDDEN_CHANGE_FIELDS.includes(key))
+    : [];
+
+  return (
+    <div className="h-screen flex flex-col bg-background overflow-hidden">
+      {/* Fixed Header */}
+      <div className="flex-shrink-0 bg-background">
+        <div className="px-6 h-16 flex items-center border-b w-full">
+          <div className="flex items-center justify-between w-full">
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-3">
+                <h1 className="text-xl font-semibold text-foreground">Approvals</h1>
+                {awaitingMyAction.length > 0 && (
+                  <Badge variant="destructive" className="rounded-full">
+                    {awaitingMyAction.length} awaiting you
+                  </Badge>
+                )}
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <div className="px-6 py-3 border-b bg-muted/30">
+          <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as ApprovalTab)}>
+            <TabsList>
+              <TabsTrigger value="inbox">Awaiting My Approval ({awaitingMyAction.length})</TabsTrigger>
+              <TabsTrigger value="mine">My Requests ({mySubmissions.length})</TabsTrigger>
+              {canSeeAll && <TabsTrigger value="all">All Requests</TabsTrigger>}
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        {loading && requests.length === 0 ? (
+          <div className="space-y-4 p-6">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-12 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : visibleRequests.length === 0 ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-center text-muted-foreground">
+              <CheckSquare className="h-16 w-16 mx-auto mb-4 text-muted-foreground/50" />
+              <h3 className="text-lg font-semibold mb-2">
+                {activeTab === 'inbox' ? 'Nothing waiting for your approval' : 'No approval requests'}
+              </h3>
+              <p className="text-sm">Changes held by approval workflows will appear here</p>
+            </div>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Record</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Workflow</TableHead>
+                <TableHead>Step</TableHead>
+                <TableHead>Submitted By</TableHead>
+                <TableHead>Submitted</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRequests.map(request => (
+                <TableRow key={request.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="capitalize">{request.entity_type.replace(/s$/, '')}</Badge>
+                      <span className="font-medium truncate max-w-[220px]">{request.entity_name || 'Untitled'}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>{actionTypeLabels[request.action_type] || request.action_type}</TableCell>
+                  <TableCell className="text-muted-foreground">{request.workflow_name}</TableCell>
+                  <TableCell>
+                    {request.current_step}/{request.approval_steps.length || 1}
+                  </TableCell>
+                  <TableCell>{request.submitted_by ? displayNames[request.submitted_by] || 'Loading...' : '-'}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {request.submitted_at ? formatDistanceToNow(new Date(request.submitted_at), { addSuffix: true }) : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={cn('capitalize', getApprovalStatusColor(request.status))}>
+                      {request.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      {request.status === 'pending' && request.submitted_by === user?.id && (
+                        <Button variant="ghost" size="sm" onClick={() => cancel(request.id)}>
+                          Cancel
+                        </Button>
+                      )}
+                      <Button
+                        variant={awaitingIds.has(request.id) ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => openReview(request)}
+                      >
+                        {awaitingIds.has(request.id) ? 'Review' : 'View'}
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Review Dialog */}
+      <Dialog open={!!reviewRequest} onOpenChange={(open) => !open && setReviewRequest(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {reviewRequest && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {actionTypeLabels[reviewRequest.action_type] || 'Change'}: {reviewRequest.entity_name || 'Untitled'}
+                </DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <span>{reviewRequest.workflow_name}</span>
+                  <span>·</span>
+                  <span>Step {reviewRequest.current_step} of {reviewRequest.approval_steps.length || 1}</span>
+                  <Badge variant="outline" className={cn('capitalize ml-auto', getApprovalStatusColor(reviewRequest.status))}>
+                    {reviewRequest.status}
+                  </Badge>
+                </div>
+
+                <div className="border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Field</TableHead>
+                        {reviewRequest.action_type !== 'create' && <TableHead>Current</TableHead>}
+                        <TableHead>Proposed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changedFields.map(field => (
+                        <TableRow key={field}>
+                          <TableCell className="font-medium">{field.replace(/_/g, ' ')}</TableCell>
+                          {reviewRequest.action_type !== 'create' && (
+                            <TableCell className="text-muted-foreground">{formatValue(currentRecord?.[field])}</TableCell>
+                          )}
+                          <TableCell>{formatValue(reviewRequest.pending_changes[field])}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {reviewRequest.actions.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>History</Label>
+                    {reviewRequest.actions.map(action => (
+                      <div key={action.id} className="text-sm border rounded-md p-2">
+                        <div className="flex items-center justify-between">
+                          <span>
+                            Step {action.step_number}: <span className="capitalize font-medium">{action.action}</span> by{' '}
+                            {displayNames[action.approver_id] || 'Unknown User'}
+                          </span>
+                          {action.acted_at && (
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(action.acted_at), 'dd/MM/yyyy HH:mm')}
+                            </span>
+                          )}
+                        </div>
+                        {action.comments && <p className="text-muted-foreground mt-1">{action.comments}</p>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {awaitingIds.has(reviewRequest.id) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="approval-comments">Comment</Label>
+                    <Textarea
+                      id="approval-comments"
+                      value={comments}
+                      onChange={(e) => setComments(e.target.value)}
+                      placeholder="Optional comment for the submitter"
+                      rows={3}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter className="gap-2">
+                {reviewRequest.action_type !== 'create' && (
+                  <Button
+                    variant="ghost"
+                    className="mr-auto"
+                    onClick={() => navigate(getEntityRoute(reviewRequest.entity_type, reviewRequest.entity_id))}
+                  >
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    Open Record
+                  </Button>
+                )}
+                {awaitingIds.has(reviewRequest.id) ? (
+                  <>
+                    <Button variant="outline" onClick={() => handleDecision('rejected')} disabled={deciding}>
+                      <X className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                    <Button onClick={() => handleDecision('approved')} disabled={deciding}>
+                      {deciding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                      Approve
+                    </Button>
+                  </>
+                ) : (
+                  <Button variant="outline" onClick={() => setReviewRequest(null)}>Close</Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Approvals;
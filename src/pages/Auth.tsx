@@ -7,6 +7,16 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { SESSION_END_REASON_KEY } from "@/utils/authSession";
+
+// Why the server ended the previous session, shown once on the sign-in page
+const SESSION_END_MESSAGES: Record<string, string> = {
+  revoked: "This session was signed out from another device.",
+  idle_timeout: "You were signed out after a period of inactivity.",
+  session_limit: "You were signed out because you signed in on too many devices.",
+  user_deactivated: "Your account has been deactivated.",
+  signed_out: "You were signed out on all devices.",
+};
 
 // Safari-compatible cleanup utility
 const cleanupAuthState = () => {
@@ -67,6 +77,16 @@ const Auth = () => {
     checkUser();
   }, [checkUser]);
 
+  useEffect(() => {
+    const reason = sessionStorage.getItem(SESSION_END_REASON_KEY);
+    if (!reason) return;
+    sessionStorage.removeItem(SESSION_END_REASON_KEY);
+    toast({
+      title: "Signed out",
+      description: SESSION_END_MESSAGES[reason] || SESSION_END_MESSAGES.revoked,
+    });
+  }, [toast]);
+
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -0,0 +1,288 @@
+import { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Megaphone, Pause, Play, X, RefreshCw, BarChart3, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import {
+  useEmailCampaigns,
+  useEmailCampaignResults,
+  isCampaignActive,
+  CampaignRecipientResult,
+  EmailCampaign,
+} from '@/hooks/useEmailCampaigns';
+import { cn } from '@/lib/utils';
+
+const statusColors: Record<string, string> = {
+  queued: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  sending: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
+  paused: 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300',
+  completed: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300',
+  cancelled: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400',
+  pending: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+  sent: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
+  opened: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300',
+  clicked: 'bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300',
+  replied: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-300',
+  bounced: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300',
+};
+
+// Furthest point each recipient reached, from queue state through engagement
+const getRecipientOutcome = (recipient: CampaignRecipientResult): string => {
+  if (recipient.status !== 'sent') return recipient.status;
+  if (recipient.email?.bounced_at) return 'bounced';
+  if (recipient.email?.replied_at) return 'replied';
+  if (recipient.email?.click_count) return 'clicked';
+  if (recipient.email?.open_count) return 'opened';
+  return 'sent';
+};
+
+const getRecipientNote = (recipient: CampaignRecipientResult): string => {
+  if (recipient.email?.bounce_reason) return recipient.email.bounce_reason;
+  if (recipient.status === 'pending' && recipient.attempts > 0) {
+    return `Retry ${recipient.attempts + 1} ${formatDistanceToNow(new Date(recipient.next_attempt_at), { addSuffix: true })}: ${recipient.last_error || ''}`;
+  }
+  return recipient.last_error || '';
+};
+
+const CampaignResults = ({ campaign }: { campaign: EmailCampaign }) => {
+  const { recipients, loading } = useEmailCampaignResults(campaign.id, isCampaignActive(campaign.status));
+
+  const summary = useMemo(() => {
+    const sent = recipients.filter(r => r.status === 'sent');
+    const rate = (n: number) => (sent.length > 0 ? Math.round((n / sent.length) * 100) : 0);
+    const opened = sent.filter(r => r.email?.open_count).length;
+    const clicked = sent.filter(r => r.email?.click_count).length;
+    const replied = sent.filter(r => r.email?.replied_at).length;
+    const bounced = sent.filter(r => r.email?.bounced_at).length;
+    return [
+      { label: 'Sent', value: `${sent.length}/${campaign.total_recipients}` },
+      { label: 'Opened', value: `${opened} (${rate(opened)}%)` },
+      { label: 'Clicked', value: `${clicked} (${rate(clicked)}%)` },
+      { label: 'Replied', value: `${replied} (${rate(replied)}%)` },
+      { label: 'Bounced', value: `${bounced} (${rate(bounced)}%)` },
+      { label: 'Failed', value: String(recipients.filter(r => r.status === 'failed').length) },
+    ];
+  }, [recipients, campaign.total_recipients]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+        {summary.map(item => (
+          <Card key={item.label}>
+            <CardContent className="p-3">
+              <p className="text-lg font-semibold">{item.value}</p>
+              <p className="text-xs text-muted-foreground">{item.label}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Recipient</TableHead>
+              <TableHead>Outcome</TableHead>
+              <TableHead className="text-right">Opens</TableHead>
+              <TableHead className="text-right">Clicks</TableHead>
+              <TableHead className="text-right">Attempts</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {recipients.map(recipient => {
+              const outcome = getRecipientOutcome(recipient);
+              return (
+                <TableRow key={recipient.id}>
+                  <TableCell>
+                    <div className="font-medium">{recipient.recipient_name || recipient.recipient_email}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {recipient.recipient_email} · <span className="capitalize">{recipient.recipient_type}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={cn('capitalize', statusColors[outcome])}>{outcome}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{recipient.email?.open_count || 0}</TableCell>
+                  <TableCell className="text-right">{recipient.email?.click_count || 0}</TableCell>
+                  <TableCell className="text-right">{recipient.attempts}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-[260px] truncate" title={getRecipientNote(recipient)}>
+                    {getRecipientNote(recipient) || (recipient.sent_at ? `Sent ${format(new Date(recipient.sent_at), 'dd/MM/yyyy HH:mm')}` : '')}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+const Campaigns = () => {
+  const { user } = useAuth();
+  const { isAdmin } = usePermissions();
+  const { campaigns, loading, refetch, setStatus, updating } = useEmailCampaigns();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const selectedId = searchParams.get('id');
+  const selectedCampaign = campaigns.find(c => c.id === selectedId) || null;
+
+  const openResults = (campaignId: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (campaignId) {
+      next.set('id', campaignId);
+    } else {
+      next.delete('id');
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const canManage = (campaign: EmailCampaign) => isAdmin || campaign.created_by === user?.id;
+
+  return (
+    <div className="h-screen flex flex-col bg-background overflow-hidden">
+      {/* Fixed Header */}
+      <div className="flex-shrink-0 bg-background">
+        <div className="px-6 h-16 flex items-center border-b w-full">
+          <div className="flex items-center justify-between w-full">
+            <div className="min-w-0 flex-1">
+              <h1 className="text-xl font-semibold text-foreground">Campaigns</h1>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        {loading && campaigns.length === 0 ? (
+          <div className="space-y-4 p-6">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-12 bg-muted animate-pulse rounded" />
+            ))}
+          </div>
+        ) : campaigns.length === 0 ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-center text-muted-foreground">
+              <Megaphone className="h-16 w-16 mx-auto mb-4 text-muted-foreground/50" />
+              <h3 className="text-lg font-semibold mb-2">No campaigns yet</h3>
+              <p className="text-sm">Select contacts or leads and use Send Email to start one</p>
+            </div>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Campaign</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Progress</TableHead>
+                <TableHead className="text-right">Failed</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.map(campaign => {
+                const done = campaign.counts.sent + campaign.counts.failed + campaign.counts.cancelled;
+                const percent = campaign.total_recipients > 0 ? Math.round((done / campaign.total_recipients) * 100) : 0;
+                return (
+                  <TableRow key={campaign.id}>
+                    <TableCell>
+                      <div className="font-medium truncate max-w-[260px]">{campaign.name}</div>
+                      <div className="text-xs text-muted-foreground truncate max-w-[260px]">{campaign.subject}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={cn('capitalize', statusColors[campaign.status])}>
+                        {campaign.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="min-w-[160px]">
+                      <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                        <span>{campaign.counts.sent} / {campaign.total_recipients} sent</span>
+                        <span>{percent}%</span>
+                      </div>
+                      <div className="w-full bg-secondary rounded-full h-1.5">
+                        <div className="bg-primary h-1.5 rounded-full transition-all" style={{ width: `${percent}%` }} />
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{campaign.counts.failed}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">{campaign.throttle_per_minute}/min</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {formatDistanceToNow(new Date(campaign.created_at), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {canManage(campaign) && isCampaignActive(campaign.status) && (
+                          <Button variant="ghost" size="sm" disabled={updating} onClick={() => setStatus(campaign.id, 'pause')}>
+                            <Pause className="h-4 w-4 mr-1" />
+                            Pause
+                          </Button>
+                        )}
+                        {canManage(campaign) && campaign.status === 'paused' && (
+                          <Button variant="ghost" size="sm" disabled={updating} onClick={() => setStatus(campaign.id, 'resume')}>
+                            <Play className="h-4 w-4 mr-1" />
+                            Resume
+                          </Button>
+                        )}
+                        {canManage(campaign) && (isCampaignActive(campaign.status) || campaign.status === 'paused') && (
+                          <Button variant="ghost" size="sm" disabled={updating} onClick={() => setStatus(campaign.id, 'cancel')}>
+                            <X className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => openResults(campaign.id)}>
+                          <BarChart3 className="h-4 w-4 mr-1" />
+                          Results
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {/* Results Dialog */}
+      <Dialog open={!!selectedCampaign} onOpenChange={(open) => !open && openResults(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          {selectedCampaign && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selectedCampaign.name}</DialogTitle>
+                <DialogDescription>
+                  From {selectedCampaign.sender_email}
+                  {selectedCampaign.started_at && ` · started ${format(new Date(selectedCampaign.started_at), 'dd/MM/yyyy HH:mm')}`}
+                  {selectedCampaign.completed_at && ` · finished ${format(new Date(selectedCampaign.completed_at), 'dd/MM/yyyy HH:mm')}`}
+                </DialogDescription>
+              </DialogHeader>
+              <CampaignResults campaign={selectedCampaign} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Campaigns;
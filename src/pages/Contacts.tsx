@@ -1,7 +1,7 @@
 import { ContactTable, ContactTableRef } from "@/components/ContactTable";
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Settings, Trash2, Upload, Download, Mail, Plus } from "lucide-react";
+import { Settings, Trash2, Upload, Download, Mail, Plus, ListOrdered } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
 import { Input } from "@/components/ui/input";
@@ -9,6 +9,7 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useSimpleContactsImportExport } from "@/hooks/useSimpleContactsImportExport";
 import { BulkEmailModal, BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { EnrollInSequenceModal } from "@/components/EnrollInSequenceModal";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
 const Contacts = () => {
@@ -18,6 +19,7 @@ const Contacts = () => {
   const [selectedContacts, setSelectedContacts] = useState<string[]>([]);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showBulkEmailModal, setShowBulkEmailModal] = useState(false);
+  const [showSequenceModal, setShowSequenceModal] = useState(false);
   const [bulkEmailRecipients, setBulkEmailRecipients] = useState<BulkEmailRecipient[]>([]);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -61,9 +63,8 @@ const Contacts = () => {
     setShowBulkDeleteDialog(false);
   };
 
-  const handleBulkEmailClick = async () => {
-    if (selectedContacts.length === 0) return;
-    
+  // Fetch contact details for the selected contacts
+  const fetchSelectedRecipients = async (): Promise<BulkEmailRecipient[] | null> => {
     const { data: contacts, error } = await supabase
       .from('contacts')
       .select('id, contact_name, email')
@@ -75,20 +76,33 @@ const Contacts = () => {
         description: "Failed to fetch contact details",
         variant: "destructive",
       });
-      return;
+      return null;
     }
 
-    const recipients: BulkEmailRecipient[] = (contacts || []).map(contact => ({
+    return (contacts || []).map(contact => ({
       id: contact.id,
       name: contact.contact_name,
       email: contact.email || undefined,
       type: 'contact' as const,
     }));
+  };
 
+  const handleBulkEmailClick = async () => {
+    if (selectedContacts.length === 0) return;
+    const recipients = await fetchSelectedRecipients();
+    if (!recipients) return;
     setBulkEmailRecipients(recipients);
     setShowBulkEmailModal(true);
   };
 
+  const handleAddToSequenceClick = async () => {
+    if (selectedContacts.length === 0) return;
+    const recipients = await fetchSelectedRecipients();
+    if (!recipients) return;
+    setBulkEmailRecipients(recipients);
+    setShowSequenceModal(true);
+  };
+
   return (
     <div className="h-screen flex flex-col bg-background overflow-hidden">
       {/* Fixed Header */}
@@ -151,6 +165,10 @@ const Contacts = () => {
                     <Mail className="w-4 h-4 mr-2" />
                     Send Bulk Email ({selectedContacts.length})
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleAddToSequenceClick} disabled={selectedContacts.length === 0}>
+                    <ListOrdered className="w-4 h-4 mr-2" />
+                    Add to Sequence ({selectedContacts.length})
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     onClick={handleBulkDeleteClick} 
                     disabled={selectedContacts.length === 0}
@@ -227,6 +245,14 @@ const Contacts = () => {
           setSelectedContacts([]);
         }}
       />
+
+      {/* Add to Sequence Modal */}
+      <EnrollInSequenceModal
+        open={showSequenceModal}
+        onOpenChange={setShowSequenceModal}
+        recipients={bulkEmailRecipients}
+        onEnrolled={() => setSelectedContacts([])}
+      />
     </div>
   );
 };
@@ -1,4 +1,6 @@
 import YearlyRevenueSummary from "@/components/YearlyRevenueSummary";
+import { RevenueTargetsPanel } from "@/components/dashboard/revenue-targets/RevenueTargetsPanel";
+import { ForecastPanel } from "@/components/dashboard/forecast/ForecastPanel";
 import UserDashboard from "@/components/dashboard/UserDashboard";
 
 import { useUserRole } from "@/hooks/useUserRole";
@@ -23,7 +25,9 @@ const getTimeBasedGreeting = () => {
 };
 
 const Dashboard = () => {
-  const { isAdmin, loading } = useUserRole();
+  const { isAdmin, isManager, loading } = useUserRole();
+  // Managers get the revenue view too so they can set and track team targets
+  const canViewRevenue = isAdmin || isManager;
   const { user } = useAuth();
   const queryClient = useQueryClient();
   
@@ -68,7 +72,7 @@ const Dashboard = () => {
       const view = (data as any)?.dashboard_view || data?.layout_view;
       return (view === 'analytics' ? 'analytics' : 'overview') as DashboardView;
     },
-    enabled: !!user?.id && isAdmin,
+    enabled: !!user?.id && canViewRevenue,
   });
 
   const [currentView, setCurrentView] = useState<DashboardView>("overview");
@@ -115,6 +119,8 @@ const Dashboard = () => {
           if (typeof key !== 'string') return false;
           return key.startsWith('user-') || 
                  key.startsWith('dashboard-') || 
+                 key.startsWith('revenue-') || 
+                 key.startsWith('forecast') || 
                  key === 'all-user-profiles';
         }
       });
@@ -126,7 +132,7 @@ const Dashboard = () => {
     }
   };
 
-  if (loading || (isAdmin && prefLoading)) {
+  if (loading || (canViewRevenue && prefLoading)) {
     return (
       <div className="p-6 space-y-6">
         <div className="flex items-center justify-between">
@@ -152,8 +158,8 @@ const Dashboard = () => {
           <div className="flex items-center justify-between w-full gap-4">
             {/* Left side: View toggle and greeting */}
             <div className="flex items-center gap-4 min-w-0 flex-1">
-              {/* Admin-only view toggle - positioned first/left */}
-              {isAdmin && (
+              {/* Admin/manager view toggle - positioned first/left */}
+              {canViewRevenue && (
                 <ToggleGroup 
                   type="single" 
                   value={currentView} 
@@ -203,7 +209,7 @@ const Dashboard = () => {
               <NotificationBell placement="down" size="small" />
               
               {/* Year selector for analytics view */}
-              {isAdmin && currentView === "analytics" && (
+              {canViewRevenue && currentView === "analytics" && (
                 <Select value={selectedYear.toString()} onValueChange={value => setSelectedYear(parseInt(value))}>
                   <SelectTrigger className="w-28">
                     <SelectValue />
@@ -224,9 +230,11 @@ const Dashboard = () => {
 
       {/* Main Content Area */}
       <div className="flex-1 min-h-0 overflow-auto">
-        {isAdmin && currentView === "analytics" ? (
+        {canViewRevenue && currentView === "analytics" ? (
           <div className="p-6 space-y-8">
             <YearlyRevenueSummary selectedYear={selectedYear} />
+            <RevenueTargetsPanel year={selectedYear} />
+            <ForecastPanel year={selectedYear} />
             <div className="border-t border-border" />
           </div>
         ) : (
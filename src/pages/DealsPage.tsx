@@ -16,6 +16,7 @@ import { Upload, Download, Columns, MoreVertical } from "lucide-react";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
 import { DeleteConfirmDialog } from "@/components/shared/DeleteConfirmDialog";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useApprovalWorkflows } from "@/hooks/useApprovalWorkflows";
 
 const DealsPage = () => {
   const [searchParams] = useSearchParams();
@@ -34,11 +35,12 @@ const DealsPage = () => {
     logUpdate,
     logBulkDelete
   } = useCRUDAudit();
+  const { requestApprovalIfRequired } = useApprovalWorkflows();
   const [filteredDeals, setFilteredDeals] = useState<Deal[]>([]);
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
-  const [initialStage, setInitialStage] = useState<DealStage>('Lead');
+  const [initialStage, setInitialStage] = useState<DealStage | undefined>();
   const [activeView, setActiveView] = useState<'kanban' | 'list'>('list');
   const [selectedDealIds, setSelectedDealIds] = useState<string[]>([]);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
@@ -104,7 +106,15 @@ const DealsPage = () => {
     }
   }, [deals, ownerParam, user?.id]);
   // Old fetchDeals removed - using React Query now
-  const handleUpdateDeal = async (dealId: string, updates: Partial<Deal>) => {
+  const notifyApprovalPending = (workflowName: string) => {
+    toast({
+      title: "Submitted for approval",
+      description: `"${workflowName}" must be approved before this change takes effect`
+    });
+  };
+
+  // Resolves to false when the change was held back for approval instead of saved
+  const handleUpdateDeal = async (dealId: string, updates: Partial<Deal>): Promise<boolean> => {
     try {
       console.log("=== HANDLE UPDATE DEAL DEBUG ===");
       console.log("Deal ID:", dealId);
@@ -120,6 +130,19 @@ const DealsPage = () => {
         modified_by: user?.id
       };
       console.log("Final update data:", updateData);
+
+      const approval = await requestApprovalIfRequired({
+        entityType: 'deals',
+        entityId: dealId,
+        entityName: existingDeal?.project_name || existingDeal?.deal_name,
+        changes: updateData,
+        currentRecord: existingDeal as unknown as Record<string, unknown>
+      });
+      if (approval) {
+        notifyApprovalPending(approval.workflowName);
+        return false;
+      }
+
       const {
         data,
         error
@@ -139,6 +162,7 @@ const DealsPage = () => {
         title: "Success",
         description: "Deal updated successfully"
       });
+      return true;
     } catch (error: any) {
       console.error("Update deal error:", error);
       toast({
@@ -149,7 +173,7 @@ const DealsPage = () => {
       throw error;
     }
   };
-  const handleSaveDeal = async (dealData: Partial<Deal>) => {
+  const handleSaveDeal = async (dealData: Partial<Deal>): Promise<boolean> => {
     try {
       console.log("=== SAVE DEAL DEBUG ===");
       console.log("Is creating:", isCreating);
@@ -165,6 +189,19 @@ const DealsPage = () => {
           modified_at: new Date().toISOString()
         };
         console.log("Insert data:", insertData);
+
+        // New deals held for approval are inserted with this id once approved
+        const approval = await requestApprovalIfRequired({
+          entityType: 'deals',
+          entityId: crypto.randomUUID(),
+          entityName: insertData.deal_name,
+          changes: insertData
+        });
+        if (approval) {
+          notifyApprovalPending(approval.workflowName);
+          return false;
+        }
+
         const {
           data,
           error
@@ -179,7 +216,7 @@ const DealsPage = () => {
               description: "You don't have permission to create deals.",
               variant: "destructive"
             });
-            return;
+            return false;
           }
           throw error;
         }
@@ -197,9 +234,11 @@ const DealsPage = () => {
           modified_by: user?.id
         };
         console.log("Update data for existing deal:", updateData);
-        await handleUpdateDeal(selectedDeal.id, updateData);
+        const applied = await handleUpdateDeal(selectedDeal.id, updateData);
         await fetchDeals();
+        return applied;
       }
+      return true;
     } catch (error: any) {
       console.error("Error in handleSaveDeal:", error);
       throw error;
@@ -273,7 +312,7 @@ const DealsPage = () => {
     // Refresh data after import
     await fetchDeals();
   };
-  const handleCreateDeal = (stage: DealStage) => {
+  const handleCreateDeal = (stage?: DealStage) => {
     setInitialStage(stage);
     setIsCreating(true);
     setSelectedDeal(null);
@@ -423,7 +462,7 @@ const DealsPage = () => {
                 </DropdownMenuContent>
               </DropdownMenu>
 
-              <Button size="sm" onClick={() => handleCreateDeal('Lead')} className="gap-1.5">
+              <Button size="sm" onClick={() => handleCreateDeal()} className="gap-1.5">
                 <Plus className="h-4 w-4" />
                 Add Deal
               </Button>
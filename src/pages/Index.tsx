@@ -21,7 +21,7 @@ const Index = () => {
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
-  const [initialStage, setInitialStage] = useState<DealStage>('Lead');
+  const [initialStage, setInitialStage] = useState<DealStage | undefined>();
   const [activeView, setActiveView] = useState<'kanban' | 'list'>('kanban');
 
   useEffect(() => {
@@ -177,7 +177,6 @@ const Index = () => {
         } else {
           const newDealData = {
             ...dealData,
-            stage: dealData.stage || 'Lead' as const,
             created_by: user?.id,
             modified_by: user?.id,
             deal_name: dealData.project_name || `Imported Deal ${Date.now()}`
@@ -210,7 +209,7 @@ const Index = () => {
     }
   };
 
-  const handleCreateDeal = (stage: DealStage) => {
+  const handleCreateDeal = (stage?: DealStage) => {
     setInitialStage(stage);
     setIsCreating(true);
     setSelectedDeal(null);
@@ -266,7 +265,7 @@ const Index = () => {
             </ToggleGroup>
           </div>
           <div className="flex items-center gap-2">
-            <Button onClick={() => handleCreateDeal('Lead')} size="sm" className="gap-2">
+            <Button onClick={() => handleCreateDeal()} size="sm" className="gap-2">
               <Plus className="w-4 h-4" /> New Deal
             </Button>
           </div>
@@ -1,6 +1,6 @@
 import LeadTable, { LeadTableRef } from "@/components/LeadTable";
 import { Button } from "@/components/ui/button";
-import { Settings, Plus, Trash2, Upload, Download, Mail } from "lucide-react";
+import { Settings, Plus, Trash2, Upload, Download, Mail, ListOrdered } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -8,6 +8,7 @@ import { useSimpleLeadsImportExport } from "@/hooks/useSimpleLeadsImportExport";
 import { LeadDeleteConfirmDialog } from "@/components/LeadDeleteConfirmDialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { BulkEmailModal, BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { EnrollInSequenceModal } from "@/components/EnrollInSequenceModal";
 import { supabase } from "@/integrations/supabase/client";
 import { useSearchParams } from "react-router-dom";
 
@@ -22,6 +23,7 @@ const Leads = () => {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const [showBulkEmailModal, setShowBulkEmailModal] = useState(false);
+  const [showSequenceModal, setShowSequenceModal] = useState(false);
   const [bulkEmailRecipients, setBulkEmailRecipients] = useState<BulkEmailRecipient[]>([]);
   const [isDeleting, setIsDeleting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -47,10 +49,8 @@ const Leads = () => {
     setShowBulkDeleteDialog(true);
   };
 
-  const handleBulkEmailClick = async () => {
-    if (selectedLeads.length === 0) return;
-    
-    // Fetch lead details for selected leads
+  // Fetch lead details for the selected leads
+  const fetchSelectedRecipients = async (): Promise<BulkEmailRecipient[] | null> => {
     const { data: leads, error } = await supabase
       .from('leads')
       .select('id, lead_name, email')
@@ -62,20 +62,33 @@ const Leads = () => {
         description: "Failed to fetch lead details",
         variant: "destructive",
       });
-      return;
+      return null;
     }
 
-    const recipients: BulkEmailRecipient[] = (leads || []).map(lead => ({
+    return (leads || []).map(lead => ({
       id: lead.id,
       name: lead.lead_name,
       email: lead.email || undefined,
       type: 'lead' as const,
     }));
+  };
 
+  const handleBulkEmailClick = async () => {
+    if (selectedLeads.length === 0) return;
+    const recipients = await fetchSelectedRecipients();
+    if (!recipients) return;
     setBulkEmailRecipients(recipients);
     setShowBulkEmailModal(true);
   };
 
+  const handleAddToSequenceClick = async () => {
+    if (selectedLeads.length === 0) return;
+    const recipients = await fetchSelectedRecipients();
+    if (!recipients) return;
+    setBulkEmailRecipients(recipients);
+    setShowSequenceModal(true);
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file && file.type === 'text/csv') {
@@ -159,6 +172,10 @@ const Leads = () => {
                     <Mail className="w-4 h-4 mr-2" />
                     Send Bulk Email ({selectedLeads.length})
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleAddToSequenceClick} disabled={selectedLeads.length === 0}>
+                    <ListOrdered className="w-4 h-4 mr-2" />
+                    Add to Sequence ({selectedLeads.length})
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleBulkDeleteClick} disabled={selectedLeads.length === 0 || isDeleting} className="text-destructive focus:text-destructive">
                     <Trash2 className="w-4 h-4 mr-2" />
                     {isDeleting ? 'Deleting...' : `Delete Selected (${selectedLeads.length})`}
@@ -218,6 +235,14 @@ const Leads = () => {
           setSelectedLeads([]);
         }}
       />
+
+      {/* Add to Sequence Modal */}
+      <EnrollInSequenceModal
+        open={showSequenceModal}
+        onOpenChange={setShowSequenceModal}
+        recipients={bulkEmailRecipients}
+        onEnrolled={() => setSelectedLeads([])}
+      />
     </div>
   );
 };
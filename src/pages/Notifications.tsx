@@ -113,8 +113,20 @@ const Notifications = () => {
       'task_updated', 'task_deleted'
     ];
     
-    if (taskNotificationTypes.includes(notification.notification_type)) {
+    if (notification.link) {
+      navigate(notification.link);
+    } else if (taskNotificationTypes.includes(notification.notification_type)) {
       navigate('/tasks');
+    } else if (notification.notification_type.startsWith('approval_')) {
+      navigate('/approvals');
+    } else if (notification.notification_type === 'meeting_reminder') {
+      navigate('/meetings');
+    } else if (notification.notification_type === 'backup_failed') {
+      navigate('/settings?tab=admin&section=backup');
+    } else if (notification.notification_type === 'campaign_completed') {
+      navigate('/campaigns');
+    } else if (notification.notification_type === 'email_reply' || notification.notification_type === 'email_bounced') {
+      navigate(notification.lead_id ? `/leads?viewId=${notification.lead_id}` : '/contacts');
     } else if (notification.lead_id) {
       navigate(`/leads?viewId=${notification.lead_id}`);
     } else if (dealMatch) {
@@ -123,7 +135,7 @@ const Notifications = () => {
     } else if (leadMatch) {
       const leadId = leadMatch[1];
       navigate(`/leads?viewId=${leadId}`);
-    } else if (notification.notification_type === 'deal_update') {
+    } else if (notification.notification_type === 'deal_update' || notification.notification_type === 'deal_assigned') {
       navigate('/deals');
     } else if (notification.notification_type === 'lead_update') {
       navigate('/leads');
@@ -135,8 +147,10 @@ const Notifications = () => {
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'lead_update':
+      case 'lead_assigned':
         return '👤';
       case 'deal_update':
+      case 'deal_assigned':
         return '💼';
       case 'task_assigned':
         return '✅';
@@ -148,6 +162,22 @@ const Notifications = () => {
         return '📝';
       case 'task_deleted':
         return '🗑️';
+      case 'approval_request':
+        return '🛂';
+      case 'approval_approved':
+        return '👍';
+      case 'approval_rejected':
+        return '⛔';
+      case 'meeting_reminder':
+        return '📅';
+      case 'backup_failed':
+        return '⚠️';
+      case 'email_reply':
+        return '↩️';
+      case 'email_bounced':
+        return '📭';
+      case 'campaign_completed':
+        return '📣';
       default:
         return '🔔';
     }
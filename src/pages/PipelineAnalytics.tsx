@@ -0,0 +1,123 @@
+import { useMemo, useState } from 'react';
+import { RefreshCw, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { DealsAdvancedFilter, AdvancedFilterState } from '@/components/DealsAdvancedFilter';
+import { ConversionFunnel } from '@/components/pipeline-analytics/ConversionFunnel';
+import { StageVelocityTable } from '@/components/pipeline-analytics/StageVelocityTable';
+import { DealAgingHeatmap } from '@/components/pipeline-analytics/DealAgingHeatmap';
+import { WinRateCard } from '@/components/pipeline-analytics/WinRateCard';
+import { StuckDealsTable } from '@/components/pipeline-analytics/StuckDealsTable';
+import { usePipelineAnalytics } from '@/hooks/usePipelineAnalytics';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { createNameMap, useProfiles } from '@/hooks/useProfiles';
+import { EMPTY_ADVANCED_FILTERS, getAdvancedFilterOptions, matchesAdvancedFilters } from '@/utils/dealFilters';
+import {
+  buildAgingHeatmap,
+  buildFunnel,
+  buildStageIntervals,
+  buildStageVelocity,
+  buildWinRates,
+  findStuckDeals,
+} from '@/utils/pipelineAnalytics';
+
+const FILTERS_STORAGE_KEY = 'pipeline-analytics-filters';
+
+const PipelineAnalytics = () => {
+  const { deals, history, sources, loading, refetch } = usePipelineAnalytics();
+  const { stages } = usePipelineStages();
+  const { data: profiles = [] } = useProfiles();
+  const [filters, setFilters] = useState<AdvancedFilterState>(() => {
+    try {
+      const saved = localStorage.getItem(FILTERS_STORAGE_KEY);
+      return saved ? { ...EMPTY_ADVANCED_FILTERS, ...JSON.parse(saved) } : EMPTY_ADVANCED_FILTERS;
+    } catch {
+      return EMPTY_ADVANCED_FILTERS;
+    }
+  });
+
+  const ownerNames = useMemo(() => createNameMap(profiles), [profiles]);
+  const availableOptions = useMemo(() => getAdvancedFilterOptions(deals), [deals]);
+  const filteredDeals = useMemo(() => deals.filter(deal => matchesAdvancedFilters(deal, filters)), [deals, filters]);
+
+  const analytics = useMemo(() => {
+    const intervals = buildStageIntervals(filteredDeals, history);
+    const ownerOf = (deal: typeof filteredDeals[number]) => {
+      const ownerId = deal.lead_owner || deal.created_by;
+      return ownerId ? ownerNames[ownerId] || 'Unknown User' : null;
+    };
+    return {
+      funnel: buildFunnel(filteredDeals, intervals, stages),
+      velocity: buildStageVelocity(intervals, stages),
+      aging: buildAgingHeatmap(filteredDeals, intervals, stages),
+      winRates: {
+        owner: buildWinRates(filteredDeals, stages, ownerOf),
+        region: buildWinRates(filteredDeals, stages, deal => deal.region),
+        source: buildWinRates(filteredDeals, stages, deal => (deal.contact_id ? sources[deal.contact_id] : null)),
+      },
+      stuck: findStuckDeals(filteredDeals, intervals, stages),
+    };
+  }, [filteredDeals, history, stages, ownerNames, sources]);
+
+  return (
+    <div className="h-screen flex flex-col bg-background overflow-hidden">
+      {/* Fixed Header */}
+      <div className="flex-shrink-0 bg-background">
+        <div className="px-6 h-16 flex items-center border-b w-full">
+          <div className="flex items-center justify-between w-full gap-4">
+            <div className="min-w-0 flex-1">
+              <h1 className="text-xl font-semibold text-foreground">Pipeline Analytics</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground hidden sm:inline">
+                {filteredDeals.length} of {deals.length} deals
+              </span>
+              <DealsAdvancedFilter
+                filters={filters}
+                onFiltersChange={setFilters}
+                availableRegions={availableOptions.regions}
+                availableLeadOwners={availableOptions.leadOwners}
+                availablePriorities={availableOptions.priorities}
+                availableProbabilities={availableOptions.probabilities}
+                availableHandoffStatuses={availableOptions.handoffStatuses}
+                storageKey={FILTERS_STORAGE_KEY}
+              />
+              <Button variant="outline" size="sm" onClick={() => refetch()}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        {loading ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-6">
+            {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-72 w-full" />)}
+          </div>
+        ) : deals.length === 0 ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="text-center text-muted-foreground">
+              <TrendingUp className="h-16 w-16 mx-auto mb-4 text-muted-foreground/50" />
+              <h3 className="text-lg font-semibold mb-2">No deals yet</h3>
+              <p className="text-sm">Analytics appear once deals start moving through the pipeline</p>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-6">
+            <ConversionFunnel steps={analytics.funnel} />
+            <StageVelocityTable rows={analytics.velocity} />
+            <DealAgingHeatmap rows={analytics.aging} />
+            <WinRateCard rowsByDimension={analytics.winRates} />
+            <div className="lg:col-span-2">
+              <StuckDealsTable deals={analytics.stuck} ownerNames={ownerNames} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PipelineAnalytics;
@@ -3,7 +3,7 @@ import { useSearchParams, useNavigate } from 'react-router-dom';
 import { useTasks } from '@/hooks/useTasks';
 import { useAuth } from '@/hooks/useAuth';
 import { useTasksImportExport } from '@/hooks/useTasksImportExport';
-import { Task, TaskStatus, CreateTaskData, TaskModuleType, TaskModalContext } from '@/types/task';
+import { Task, TaskStatus, CreateTaskData, TaskModuleType, TaskModalContext, TaskSeriesScope } from '@/types/task';
 import { TaskModal } from '@/components/tasks/TaskModal';
 import { TaskListView } from '@/components/tasks/TaskListView';
 import { TaskKanbanView } from '@/components/tasks/TaskKanbanView';
@@ -250,8 +250,8 @@ const Tasks = () => {
   };
 
   // Handle task update with return navigation  
-  const handleTaskUpdate = async (taskId: string, data: Partial<Task>, original?: Task) => {
-    const result = await updateTask(taskId, data, original);
+  const handleTaskUpdate = async (taskId: string, data: Partial<Task>, original?: Task, scope?: TaskSeriesScope) => {
+    const result = await updateTask(taskId, data, original, scope);
     if (result && returnPath && returnViewId) {
       navigateBack();
     }
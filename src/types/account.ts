@@ -1,3 +1,5 @@
+import type { CustomFieldValues } from '@/utils/customFieldUtils';
+
 // Shared Account type definition
 
 export interface Account {
@@ -22,6 +24,7 @@ export interface Account {
   contact_count?: number | null;
   lead_count?: number | null;
   last_activity_date?: string | null;
+  custom_fields?: CustomFieldValues;
 }
 
 export interface AccountFormData {
@@ -1,4 +1,37 @@
-export type DealStage = 'Lead' | 'Discussions' | 'Qualified' | 'RFQ' | 'Offered' | 'Won' | 'Lost' | 'Dropped';
+import type { CustomFieldValues } from '@/utils/customFieldUtils';
+
+// Stage names are configured by admins in pipeline_stages
+export type DealStage = string;
+
+// Where a deal counts in the forecast; each stage has a default, and open deals can override it
+export type ForecastCategory = 'pipeline' | 'best_case' | 'commit' | 'closed' | 'omitted';
+
+export const FORECAST_CATEGORY_LABELS: Record<ForecastCategory, string> = {
+  pipeline: 'Pipeline',
+  best_case: 'Best Case',
+  commit: 'Commit',
+  closed: 'Closed',
+  omitted: 'Omitted',
+};
+
+// Categories an open deal or stage can be put in; closed and omitted follow won/lost
+export const OPEN_FORECAST_CATEGORIES: ForecastCategory[] = ['pipeline', 'best_case', 'commit', 'omitted'];
+
+export interface PipelineStage {
+  id: string;
+  stage_name: string;
+  stage_order: number;
+  stage_color: string;
+  stage_probability: number;
+  is_active: boolean;
+  is_won_stage: boolean;
+  is_lost_stage: boolean;
+  forecast_category: ForecastCategory;
+  // Open deals in this stage longer than this are flagged as stuck; null turns it off
+  stuck_after_days: number | null;
+  // Deal fields shown in this stage's section of the deal form
+  form_fields: string[];
+}
 
 export interface Deal {
   id: string;
@@ -69,92 +102,71 @@ export interface Deal {
   
   // Dropped stage fields
   drop_reason?: string;
-}
-
-export const DEAL_STAGES: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-
-export const STAGE_COLORS = {
-  Lead: 'bg-stage-lead text-stage-lead-foreground border-stage-lead-foreground/20',
-  Discussions: 'bg-stage-discussions text-stage-discussions-foreground border-stage-discussions-foreground/20',
-  Qualified: 'bg-stage-qualified text-stage-qualified-foreground border-stage-qualified-foreground/20',
-  RFQ: 'bg-stage-rfq text-stage-rfq-foreground border-stage-rfq-foreground/20',
-  Offered: 'bg-stage-offered text-stage-offered-foreground border-stage-offered-foreground/20',
-  Won: 'bg-stage-won text-stage-won-foreground border-stage-won-foreground/20',
-  Lost: 'bg-stage-lost text-stage-lost-foreground border-stage-lost-foreground/20',
-  Dropped: 'bg-stage-dropped text-stage-dropped-foreground border-stage-dropped-foreground/20',
-};
 
-export const getStageIndex = (stage: DealStage): number => {
-  return DEAL_STAGES.indexOf(stage);
-};
+  // Overrides the stage's forecast category while the deal is open
+  forecast_category?: ForecastCategory | null;
 
-export const getFieldsForStage = (stage: DealStage): string[] => {
-  const stageIndex = getStageIndex(stage);
-  const allStages = [
-    // Lead fields
-    ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
-    // Discussions fields  
-    ['customer_need', 'relationship_strength', 'internal_comment'],
-    // Qualified fields
-    ['budget', 'business_value', 'decision_maker_level', 'customer_challenges', 'probability', 'expected_closing_date', 'is_recurring'],
-    // RFQ fields
-    ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items'],
-    // Offered fields
-    ['business_value', 'decision_maker_level', 'current_status', 'closing'],
-  ];
-  
-  let availableFields: string[] = [];
-  for (let i = 0; i <= stageIndex && i < allStages.length; i++) {
-    availableFields = [...availableFields, ...allStages[i]];
-  }
-  
-  // Add final stage-specific reason fields based on the current stage
-  if (stage === 'Won') {
-    availableFields.push('won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status');
-  } else if (stage === 'Lost') {
-    availableFields.push('lost_reason', 'need_improvement');
-  } else if (stage === 'Dropped') {
-    availableFields.push('drop_reason');
-  }
-  
-  // Always include internal_comment field
-  if (!availableFields.includes('internal_comment')) {
-    availableFields.push('internal_comment');
-  }
-  
-  return availableFields;
-};
-
-export const getEditableFieldsForStage = (stage: DealStage): string[] => {
-  // All fields are always editable according to requirements
-  return getFieldsForStage(stage);
-};
+  // Admin-defined fields, keyed by crm_custom_fields.field_name
+  custom_fields?: CustomFieldValues;
+}
 
-export const getRequiredFieldsForStage = (stage: DealStage): string[] => {
-  const requiredFields = {
-    Lead: ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
-    Discussions: ['customer_need', 'relationship_strength', 'internal_comment'],
-    Qualified: ['customer_challenges', 'budget', 'probability', 'expected_closing_date', 'is_recurring', 'internal_comment'],
-    RFQ: ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment'],
-    Offered: ['business_value', 'decision_maker_level', 'current_status', 'closing'],
-    Won: ['won_reason', 'start_date', 'total_revenue', 'signed_contract_date', 'handoff_status'],
-    Lost: ['lost_reason', 'need_improvement'],
-    Dropped: ['drop_reason'],
-  };
-  return requiredFields[stage] || [];
+// Deal fields an admin can place on a stage's form, in picker order
+export const DEAL_FIELD_LABELS: Record<string, string> = {
+  project_name: 'Project Name',
+  customer_name: 'Customer Name',
+  lead_name: 'Lead Name',
+  lead_owner: 'Lead Owner',
+  account_id: 'Account',
+  contact_id: 'Contact',
+  region: 'Region',
+  priority: 'Priority',
+  probability: 'Probability (%)',
+  internal_comment: 'Internal Comment',
+  expected_closing_date: 'Expected Closing Date',
+  customer_need: 'Customer Need',
+  customer_challenges: 'Customer Challenges',
+  relationship_strength: 'Relationship Strength',
+  budget: 'Budget',
+  business_value: 'Business Value',
+  decision_maker_level: 'Decision Maker Level',
+  is_recurring: 'Is Recurring?',
+  total_contract_value: 'Total Contract Value',
+  currency_type: 'Currency Type',
+  start_date: 'Start Date',
+  end_date: 'End Date',
+  project_duration: 'Project Duration (months)',
+  rfq_received_date: 'RFQ Received Date',
+  proposal_due_date: 'Proposal Due Date',
+  rfq_status: 'RFQ Status',
+  action_items: 'Action Items',
+  current_status: 'Current Status',
+  closing: 'Closing',
+  won_reason: 'Won Reason',
+  quarterly_revenue_q1: 'Q1 Revenue',
+  quarterly_revenue_q2: 'Q2 Revenue',
+  quarterly_revenue_q3: 'Q3 Revenue',
+  quarterly_revenue_q4: 'Q4 Revenue',
+  total_revenue: 'Total Revenue',
+  signed_contract_date: 'Signed Contract Date',
+  implementation_start_date: 'Implementation Start Date',
+  handoff_status: 'Handoff Status',
+  lost_reason: 'Lost Reason',
+  need_improvement: 'Need Improvement',
+  drop_reason: 'Drop Reason',
 };
 
-export const getNextStage = (currentStage: DealStage): DealStage | null => {
-  const stageFlow = {
-    Lead: 'Discussions',
-    Discussions: 'Qualified', 
-    Qualified: 'RFQ',
-    RFQ: 'Offered',
-    Offered: null, // After Offered, user can choose Won/Lost/Dropped
-  };
-  return stageFlow[currentStage] || null;
-};
+// Used until pipeline_stages has loaded, and if it is ever emptied
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'default-lead', stage_name: 'Lead', stage_order: 0, stage_color: '#6b7280', stage_probability: 10, is_active: true, is_won_stage: false, is_lost_stage: false, forecast_category: 'pipeline', stuck_after_days: 30, form_fields: ['project_name', 'lead_name', 'customer_name', 'account_id', 'lead_owner', 'priority'] },
+  { id: 'default-discussions', stage_name: 'Discussions', stage_order: 1, stage_color: '#10b981', stage_probability: 20, is_active: true, is_won_stage: false, is_lost_stage: false, forecast_category: 'pipeline', stuck_after_days: 30, form_fields: ['customer_need', 'relationship_strength', 'internal_comment'] },
+  { id: 'default-qualified', stage_name: 'Qualified', stage_order: 2, stage_color: '#3b82f6', stage_probability: 25, is_active: true, is_won_stage: false, is_lost_stage: false, forecast_category: 'pipeline', stuck_after_days: 30, form_fields: ['customer_challenges', 'budget', 'probability', 'expected_closing_date', 'is_recurring', 'internal_comment'] },
+  { id: 'default-rfq', stage_name: 'RFQ', stage_order: 3, stage_color: '#8b5cf6', stage_probability: 40, is_active: true, is_won_stage: false, is_lost_stage: false, forecast_category: 'best_case', stuck_after_days: 30, form_fields: ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment'] },
+  { id: 'default-offered', stage_name: 'Offered', stage_order: 4, stage_color: '#f59e0b', stage_probability: 60, is_active: true, is_won_stage: false, is_lost_stage: false, forecast_category: 'commit', stuck_after_days: 30, form_fields: ['business_value', 'decision_maker_level', 'current_status', 'closing'] },
+  { id: 'default-won', stage_name: 'Won', stage_order: 5, stage_color: '#22c55e', stage_probability: 100, is_active: true, is_won_stage: true, is_lost_stage: false, forecast_category: 'closed', stuck_after_days: null, form_fields: ['won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status'] },
+  { id: 'default-lost', stage_name: 'Lost', stage_order: 6, stage_color: '#ef4444', stage_probability: 0, is_active: true, is_won_stage: false, is_lost_stage: true, forecast_category: 'omitted', stuck_after_days: null, form_fields: ['lost_reason', 'need_improvement'] },
+  { id: 'default-dropped', stage_name: 'Dropped', stage_order: 7, stage_color: '#94a3b8', stage_probability: 0, is_active: true, is_won_stage: false, is_lost_stage: true, forecast_category: 'omitted', stuck_after_days: null, form_fields: ['drop_reason'] },
+];
 
-export const getFinalStageOptions = (): DealStage[] => {
-  return ['Won', 'Lost', 'Dropped'];
+export const isClosedStage = (stage: Pick<PipelineStage, 'is_won_stage' | 'is_lost_stage'>): boolean => {
+  return stage.is_won_stage || stage.is_lost_stage;
 };
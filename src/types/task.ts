@@ -1,6 +1,9 @@
 export type TaskStatus = 'open' | 'in_progress' | 'completed' | 'deferred';
 export type TaskPriority = 'high' | 'medium' | 'low';
 export type TaskModuleType = 'accounts' | 'contacts' | 'leads' | 'meetings' | 'deals';
+export type TaskRecurrence = 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+// Which occurrences of a recurring series an edit applies to
+export type TaskSeriesScope = 'occurrence' | 'future';
 
 export interface Task {
   id: string;
@@ -22,6 +25,10 @@ export interface Task {
   created_at: string;
   updated_at: string;
   completed_at: string | null;
+  recurrence: TaskRecurrence | null;
+  recurrence_end_date: string | null;
+  // First task of the recurring series this occurrence belongs to
+  parent_task_id: string | null;
   // Joined data
   lead_name?: string;
   contact_name?: string;
@@ -48,6 +55,8 @@ export interface CreateTaskData {
   lead_id?: string;
   meeting_id?: string;
   deal_id?: string;
+  recurrence?: TaskRecurrence;
+  recurrence_end_date?: string | null;
 }
 
 export interface TaskModalContext {
@@ -0,0 +1,160 @@
+// Shared approval workflow utilities - trigger evaluation and approver matching
+
+export type ApprovalEntityType = 'deals' | 'leads' | 'accounts';
+export type ApprovalTriggerEvent = 'create' | 'update' | 'stage_change';
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface ApprovalStep {
+  step: number;
+  role: string;
+  user_id?: string;
+}
+
+export interface ApprovalTriggerConditions {
+  field: string;
+  operator: string;
+  value: string | number;
+  events?: ApprovalTriggerEvent[];
+}
+
+export interface ApprovalWorkflowDefinition {
+  id: string;
+  name: string;
+  entity_type: string;
+  trigger_conditions: ApprovalTriggerConditions | null;
+  approval_steps: ApprovalStep[];
+  is_enabled: boolean;
+}
+
+export const APPROVAL_TRIGGER_EVENTS: { value: ApprovalTriggerEvent; label: string }[] = [
+  { value: 'create', label: 'Create' },
+  { value: 'update', label: 'Update' },
+  { value: 'stage_change', label: 'Stage change' },
+];
+
+// Workflows saved before events existed apply to creates and updates
+export const DEFAULT_TRIGGER_EVENTS: ApprovalTriggerEvent[] = ['create', 'update'];
+
+export const getApprovalStatusColor = (status?: string | null): string => {
+  switch (status) {
+    case 'approved':
+      return 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800';
+    case 'rejected':
+      return 'bg-rose-50 text-rose-700 dark:bg-rose-900/20 dark:text-rose-300 border-rose-200 dark:border-rose-800';
+    case 'cancelled':
+      return 'bg-muted text-muted-foreground border-border';
+    default:
+      return 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300 border-amber-200 dark:border-amber-800';
+  }
+};
+
+const toComparable = (value: unknown): number | string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  return Number.isNaN(num) ? String(value).toLowerCase() : num;
+};
+
+export const evaluateTriggerCondition = (
+  record: Record<string, unknown>,
+  condition: ApprovalTriggerConditions | null
+): boolean => {
+  // A workflow without a condition applies to every change
+  if (!condition?.field) return true;
+
+  const actual = toComparable(record[condition.field]);
+  const expected = toComparable(condition.value);
+  if (actual === null || expected === null) return false;
+
+  // Mixed types only support equality
+  if (typeof actual !== typeof expected) {
+    return condition.operator === '=' && String(actual) === String(expected);
+  }
+
+  switch (condition.operator) {
+    case '>=':
+      return actual >= expected;
+    case '>':
+      return actual > expected;
+    case '<=':
+      return actual <= expected;
+    case '<':
+      return actual < expected;
+    case '=':
+      return actual === expected;
+    default:
+      return false;
+  }
+};
+
+const hasChanged = (
+  field: string,
+  changes: Record<string, unknown>,
+  currentRecord?: Record<string, unknown> | null
+) => field in changes && toComparable(changes[field]) !== toComparable(currentRecord?.[field]);
+
+/**
+ * Find the first enabled workflow that a create or update must pass through.
+ * Updates only trigger when the condition field (or the deal stage, for stage
+ * change workflows) actually changes, so unrelated edits are not held back.
+ */
+export const findMatchingWorkflow = (
+  workflows: ApprovalWorkflowDefinition[],
+  entityType: ApprovalEntityType,
+  changes: Record<string, unknown>,
+  currentRecord?: Record<string, unknown> | null
+): { workflow: ApprovalWorkflowDefinition; event: ApprovalTriggerEvent } | null => {
+  const isCreate = !currentRecord;
+  const merged = { ...(currentRecord || {}), ...changes };
+  const stageChanged = entityType === 'deals' && !isCreate && hasChanged('stage', changes, currentRecord);
+
+  for (const workflow of workflows) {
+    if (!workflow.is_enabled || workflow.entity_type !== entityType) continue;
+    if (!workflow.approval_steps?.length) continue;
+
+    const condition = workflow.trigger_conditions;
+    const events = condition?.events?.length ? condition.events : DEFAULT_TRIGGER_EVENTS;
+    if (!evaluateTriggerCondition(merged, condition)) continue;
+
+    if (isCreate) {
+      if (events.includes('create')) return { workflow, event: 'create' };
+      continue;
+    }
+
+    if (stageChanged && events.includes('stage_change')) {
+      return { workflow, event: 'stage_change' };
+    }
+
+    const conditionFieldChanged = !condition?.field || hasChanged(condition.field, changes, currentRecord);
+    if (events.includes('update') && conditionFieldChanged) {
+      return { workflow, event: 'update' };
+    }
+  }
+
+  return null;
+};
+
+// Mirrors can_act_on_approval_step() so the inbox only lists actionable requests
+export const canUserActOnStep = (
+  step: ApprovalStep | undefined,
+  userId: string,
+  userRole: string,
+  submittedBy?: string | null
+): boolean => {
+  if (userRole === 'admin') return true;
+  if (!step || submittedBy === userId) return false;
+  if (step.user_id) return step.user_id === userId;
+  return step.role === userRole;
+};
+
+export const getEntityRoute = (entityType: string, entityId: string): string => {
+  switch (entityType) {
+    case 'deals':
+      return `/deals?viewId=${entityId}`;
+    case 'leads':
+      return `/leads?viewId=${entityId}`;
+    case 'accounts':
+      return `/accounts?viewId=${entityId}`;
+    default:
+      return '/dashboard';
+  }
+};
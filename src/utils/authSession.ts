@@ -0,0 +1,15 @@
+import type { Session } from '@supabase/supabase-js';
+
+// Read by the sign-in page to explain why the user was signed out
+export const SESSION_END_REASON_KEY = 'session-end-reason';
+
+// The Supabase auth session behind an access token, stable across token refreshes
+export const getAuthSessionId = (session: Session | null): string | null => {
+  if (!session?.access_token) return null;
+  try {
+    const payload = session.access_token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload)).session_id || null;
+  } catch {
+    return null;
+  }
+};
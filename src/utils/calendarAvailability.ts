@@ -0,0 +1,62 @@
+// Kept free of app imports so the Graph mock's Deno test can load it
+
+// Outlook free/busy status of a calendar block
+export type BusyStatus = 'free' | 'tentative' | 'busy' | 'oof' | 'workingElsewhere' | 'unknown';
+
+export interface BusyItem {
+  status: BusyStatus;
+  start: string;
+  end: string;
+}
+
+export interface CalendarSchedule {
+  email: string;
+  items: BusyItem[];
+  error?: string;
+}
+
+// Statuses that keep a slot from being suggested
+export const BLOCKING_STATUSES: BusyStatus[] = ['busy', 'oof', 'tentative'];
+
+export interface CommonFreeSlotOptions {
+  instantAt: (minutes: number) => number; // UTC instant of a wall-clock minute of the day
+  durationMinutes: number;
+  firstMinute: number;
+  lastMinute: number;
+  stepMinutes: number;
+  limit: number;
+  now: number;
+}
+
+/**
+ * First start times (minutes into the day) on the step grid where every readable
+ * calendar is free for the whole duration, skipping the past. Calendars that
+ * could not be read are left out.
+ */
+export const findCommonFreeSlots = (
+  schedules: CalendarSchedule[],
+  { instantAt, durationMinutes, firstMinute, lastMinute, stepMinutes, limit, now }: CommonFreeSlotOptions
+): number[] => {
+  const readable = schedules.filter(s => !s.error);
+  if (readable.length === 0 || !durationMinutes) return [];
+  const result: number[] = [];
+  for (
+    let minute = firstMinute;
+    minute + durationMinutes <= lastMinute && result.length < limit;
+    minute += stepMinutes
+  ) {
+    const start = instantAt(minute);
+    const end = instantAt(minute + durationMinutes);
+    if (start < now) continue;
+    const everyoneFree = readable.every(schedule =>
+      !schedule.items.some(
+        item =>
+          BLOCKING_STATUSES.includes(item.status) &&
+          new Date(item.start).getTime() < end &&
+          new Date(item.end).getTime() > start
+      )
+    );
+    if (everyoneFree) result.push(minute);
+  }
+  return result;
+};
@@ -0,0 +1,153 @@
+import { formatCurrency } from '@/utils/formatUtils';
+
+// Currencies a deal can be recorded in (deals.currency_type)
+export const DEAL_CURRENCIES = ['EUR', 'USD', 'INR'] as const;
+export type DealCurrency = typeof DEAL_CURRENCIES[number];
+
+// Deals saved before the currency field existed are EUR
+export const DEFAULT_DEAL_CURRENCY: DealCurrency = 'EUR';
+
+export interface ExchangeRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  effective_date: string;
+  source: 'manual' | 'csv';
+}
+
+export interface ConvertedAmount {
+  amount: number;
+  currency: string;
+  // false when no rate exists for the pair and the original amount is returned
+  converted: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (value: Date | string | null | undefined): string => {
+  if (!value) return new Date().toISOString().slice(0, 10);
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return isNaN(date.getTime()) ? new Date().toISOString().slice(0, 10) : date.toISOString().slice(0, 10);
+};
+
+/**
+ * Rate to convert `from` into `to` on a date: the latest rate on or before it,
+ * otherwise the earliest one after it. Reverse pairs count as 1 / rate, with the
+ * direct pair preferred on the same date. Mirrors public.get_exchange_rate.
+ */
+export const findExchangeRate = (
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  on?: Date | string | null
+): number | null => {
+  if (from === to) return 1;
+
+  const day = toDateKey(on);
+  const dayTime = new Date(day).getTime();
+  let best: { rate: number; past: boolean; distance: number; direction: number } | null = null;
+
+  for (const r of rates) {
+    let rate: number;
+    let direction: number;
+    if (r.from_currency === from && r.to_currency === to) {
+      rate = Number(r.rate);
+      direction = 0;
+    } else if (r.from_currency === to && r.to_currency === from) {
+      rate = 1 / Number(r.rate);
+      direction = 1;
+    } else {
+      continue;
+    }
+
+    const past = r.effective_date <= day;
+    const distance = Math.abs(new Date(r.effective_date).getTime() - dayTime) / DAY_MS;
+    const better = !best
+      || (past && !best.past)
+      || (past === best.past && (distance < best.distance || (distance === best.distance && direction < best.direction)));
+    if (better) best = { rate, past, distance, direction };
+  }
+
+  return best ? best.rate : null;
+};
+
+export const convertAmount = (
+  rates: ExchangeRate[],
+  amount: number,
+  from: string | null | undefined,
+  to: string,
+  on?: Date | string | null
+): ConvertedAmount => {
+  const source = from || DEFAULT_DEAL_CURRENCY;
+  const rate = findExchangeRate(rates, source, to, on);
+  return rate === null
+    ? { amount, currency: source, converted: false }
+    : { amount: amount * rate, currency: to, converted: true };
+};
+
+interface DatedDeal {
+  signed_contract_date?: string | null;
+  expected_closing_date?: string | null;
+  created_at?: string | null;
+}
+
+// Won deals convert at the signing date, open ones at their expected close
+export const getDealRateDate = (deal: DatedDeal): string =>
+  toDateKey(deal.signed_contract_date || deal.expected_closing_date || deal.created_at);
+
+/**
+ * A sum of deal amounts kept both ways: `original` per deal currency, and
+ * `converted` in the target currency. Amounts with no rate to the target are
+ * left out of `converted` and listed in `unconverted` instead of being mixed in.
+ */
+export interface MoneyTotal {
+  original: Record<string, number>;
+  converted: number;
+  unconverted: Record<string, number>;
+}
+
+export const emptyMoneyTotal = (): MoneyTotal => ({ original: {}, converted: 0, unconverted: {} });
+
+export const addToMoneyTotal = (
+  total: MoneyTotal,
+  rates: ExchangeRate[],
+  amount: number | null | undefined,
+  currency: string | null | undefined,
+  to: string,
+  on?: Date | string | null
+): MoneyTotal => {
+  const value = Number(amount);
+  if (!value || isNaN(value)) return total;
+
+  const source = currency || DEFAULT_DEAL_CURRENCY;
+  total.original[source] = (total.original[source] || 0) + value;
+  const result = convertAmount(rates, value, source, to, on);
+  if (result.converted) {
+    total.converted += result.amount;
+  } else {
+    total.unconverted[source] = (total.unconverted[source] || 0) + value;
+  }
+  return total;
+};
+
+export const mergeMoneyTotals = (...totals: MoneyTotal[]): MoneyTotal => {
+  const merged = emptyMoneyTotal();
+  totals.forEach(total => {
+    merged.converted += total.converted;
+    Object.entries(total.original).forEach(([currency, amount]) => {
+      merged.original[currency] = (merged.original[currency] || 0) + amount;
+    });
+    Object.entries(total.unconverted).forEach(([currency, amount]) => {
+      merged.unconverted[currency] = (merged.unconverted[currency] || 0) + amount;
+    });
+  });
+  return merged;
+};
+
+export const formatCurrencyBreakdown = (amounts: Record<string, number>): string =>
+  Object.entries(amounts)
+    .filter(([, amount]) => amount !== 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([currency, amount]) => formatCurrency(amount, currency))
+    .join(' · ');
@@ -0,0 +1,165 @@
+// Shared custom field utilities - definitions, value formatting and CSV parsing
+
+export type CustomFieldEntityType = 'lead' | 'contact' | 'account' | 'deal';
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'boolean';
+export type CustomFieldValue = string | number | boolean | string[] | null;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export interface CustomFieldDefinition {
+  id: string;
+  entity_type: CustomFieldEntityType;
+  field_name: string;
+  field_label: string;
+  field_type: CustomFieldType;
+  field_options: string[];
+  is_required: boolean;
+  is_visible: boolean;
+  display_order: number;
+}
+
+export const CUSTOM_FIELD_ENTITY_TYPES: { value: CustomFieldEntityType; label: string }[] = [
+  { value: 'lead', label: 'Leads' },
+  { value: 'contact', label: 'Contacts' },
+  { value: 'account', label: 'Accounts' },
+  { value: 'deal', label: 'Deals' },
+];
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Dropdown' },
+  { value: 'multiselect', label: 'Multi-select' },
+  { value: 'boolean', label: 'Yes / No' },
+];
+
+// Column keys for custom fields, e.g. "custom_fields.partner_tier"
+const COLUMN_PREFIX = 'custom_fields.';
+
+export const toCustomFieldName = (label: string): string =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+/, '')
+    .replace(/_+$/, '')
+    .slice(0, 50);
+
+export const isValidCustomFieldName = (name: string): boolean => /^[a-z][a-z0-9_]*$/.test(name);
+
+export const getCustomFieldColumnKey = (fieldName: string) => `${COLUMN_PREFIX}${fieldName}`;
+
+export const isCustomFieldColumn = (key: string) => key.startsWith(COLUMN_PREFIX);
+
+export const getCustomFieldNameFromColumn = (key: string) => key.slice(COLUMN_PREFIX.length);
+
+export const getCustomFieldValues = (record: { custom_fields?: unknown } | null | undefined): CustomFieldValues => {
+  const values = record?.custom_fields;
+  return values && typeof values === 'object' && !Array.isArray(values) ? (values as CustomFieldValues) : {};
+};
+
+export const isEmptyCustomFieldValue = (value: CustomFieldValue | undefined): boolean =>
+  value === null ||
+  value === undefined ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+export const formatCustomFieldValue = (
+  field: Pick<CustomFieldDefinition, 'field_type'>,
+  value: CustomFieldValue | undefined
+): string => {
+  if (isEmptyCustomFieldValue(value)) return '';
+
+  switch (field.field_type) {
+    case 'boolean':
+      return value === true || value === 'true' ? 'Yes' : 'No';
+    case 'multiselect':
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    case 'number':
+      return typeof value === 'number' ? value.toLocaleString() : String(value);
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Convert a raw CSV cell into a stored value. Returns undefined when the cell
+ * cannot be interpreted for the field's type so the caller can report it.
+ */
+export const parseCustomFieldValue = (
+  field: Pick<CustomFieldDefinition, 'field_type' | 'field_options'>,
+  raw: string | null | undefined
+): CustomFieldValue | undefined => {
+  const trimmed = (raw ?? '').toString().trim();
+  if (!trimmed) return null;
+
+  switch (field.field_type) {
+    case 'number': {
+      const num = Number(trimmed.replace(/,/g, ''));
+      return Number.isNaN(num) ? undefined : num;
+    }
+    case 'boolean': {
+      const lower = trimmed.toLowerCase();
+      if (['yes', 'true', '1', 'y'].includes(lower)) return true;
+      if (['no', 'false', '0', 'n'].includes(lower)) return false;
+      return undefined;
+    }
+    case 'date': {
+      const date = new Date(trimmed);
+      return Number.isNaN(date.getTime()) ? undefined : date.toISOString().split('T')[0];
+    }
+    case 'select': {
+      const option = field.field_options.find(o => o.toLowerCase() === trimmed.toLowerCase());
+      return option ?? undefined;
+    }
+    case 'multiselect': {
+      const parts = trimmed.split(/[,;|]/).map(p => p.trim()).filter(Boolean);
+      const options = parts.map(part => field.field_options.find(o => o.toLowerCase() === part.toLowerCase()));
+      return options.some(o => o === undefined) ? undefined : options;
+    }
+    default:
+      return trimmed;
+  }
+};
+
+// Labels of required fields that have no value
+export const getMissingRequiredFields = (
+  fields: CustomFieldDefinition[],
+  values: CustomFieldValues
+): string[] =>
+  fields
+    .filter(field => field.is_required && field.field_type !== 'boolean')
+    .filter(field => isEmptyCustomFieldValue(values[field.field_name]))
+    .map(field => field.field_label);
+
+// Column definitions for the table column customizers
+export const buildCustomFieldColumns = (fields: CustomFieldDefinition[], startOrder: number) =>
+  fields.map((field, index) => ({
+    field: getCustomFieldColumnKey(field.field_name),
+    label: field.field_label,
+    visible: false,
+    order: startOrder + index,
+  }));
+
+// Find the custom field a CSV header refers to, by label or field name
+export const matchCustomFieldHeader = (
+  fields: CustomFieldDefinition[],
+  header: string
+): CustomFieldDefinition | undefined => {
+  const normalized = header.trim().toLowerCase();
+  return fields.find(
+    field =>
+      field.field_label.toLowerCase() === normalized ||
+      field.field_name === normalized ||
+      getCustomFieldColumnKey(field.field_name) === normalized
+  );
+};
+
+// Comparable value for sorting a table by a custom field column
+export const getCustomFieldSortValue = (record: object, columnKey: string): string | number => {
+  const value = getCustomFieldValues(record as { custom_fields?: unknown })[getCustomFieldNameFromColumn(columnKey)];
+  if (isEmptyCustomFieldValue(value)) return '';
+  if (typeof value === 'number') return value;
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
@@ -0,0 +1,61 @@
+import type { AdvancedFilterState } from '@/components/DealsAdvancedFilter';
+
+type FilterableDeal = {
+  deal_name?: string | null;
+  project_name?: string | null;
+  lead_name?: string | null;
+  customer_name?: string | null;
+  stage: string;
+  region?: string | null;
+  lead_owner?: string | null;
+  priority?: number | null;
+  probability?: number | null;
+  handoff_status?: string | null;
+};
+
+export const EMPTY_ADVANCED_FILTERS: AdvancedFilterState = {
+  stages: [],
+  regions: [],
+  leadOwners: [],
+  priorities: [],
+  probabilities: [],
+  handoffStatuses: [],
+  searchTerm: "",
+  probabilityRange: [0, 100],
+};
+
+// Values present in `deals` for each multi-select in DealsAdvancedFilter
+export const getAdvancedFilterOptions = (deals: FilterableDeal[]) => ({
+  regions: Array.from(new Set(deals.map(d => d.region).filter(Boolean))) as string[],
+  leadOwners: Array.from(new Set(deals.map(d => d.lead_owner).filter(Boolean))) as string[],
+  priorities: Array.from(new Set(deals.map(d => String(d.priority)).filter(p => p !== 'undefined'))),
+  probabilities: Array.from(new Set(deals.map(d => String(d.probability)).filter(p => p !== 'undefined'))),
+  handoffStatuses: Array.from(new Set(deals.map(d => d.handoff_status).filter(Boolean))) as string[],
+});
+
+/**
+ * Whether a deal passes the DealsAdvancedFilter criteria. `extraSearch` is a
+ * page's own search box, combined with the filter's search term.
+ */
+export const matchesAdvancedFilters = (deal: FilterableDeal, filters: AdvancedFilterState, extraSearch = '') => {
+  const allSearchTerms = [extraSearch, filters.searchTerm].filter(Boolean).join(' ').toLowerCase();
+  const matchesSearch = !allSearchTerms ||
+    deal.deal_name?.toLowerCase().includes(allSearchTerms) ||
+    deal.project_name?.toLowerCase().includes(allSearchTerms) ||
+    deal.lead_name?.toLowerCase().includes(allSearchTerms) ||
+    deal.customer_name?.toLowerCase().includes(allSearchTerms) ||
+    deal.region?.toLowerCase().includes(allSearchTerms);
+
+  const matchesStages = filters.stages.length === 0 || filters.stages.includes(deal.stage);
+  const matchesRegions = filters.regions.length === 0 || filters.regions.includes(deal.region || '');
+  const matchesLeadOwners = filters.leadOwners.length === 0 || filters.leadOwners.includes(deal.lead_owner || '');
+  const matchesPriorities = filters.priorities.length === 0 || filters.priorities.includes(String(deal.priority || ''));
+  const matchesProbabilities = filters.probabilities.length === 0 || filters.probabilities.includes(String(deal.probability || ''));
+  const matchesHandoffStatuses = filters.handoffStatuses.length === 0 || filters.handoffStatuses.includes(deal.handoff_status || '');
+
+  const dealProbability = deal.probability || 0;
+  const matchesProbabilityRange = dealProbability >= filters.probabilityRange[0] && dealProbability <= filters.probabilityRange[1];
+
+  return !!matchesSearch && matchesStages && matchesRegions && matchesLeadOwners &&
+    matchesPriorities && matchesProbabilities && matchesHandoffStatuses && matchesProbabilityRange;
+};
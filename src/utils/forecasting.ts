@@ -0,0 +1,327 @@
+import { ForecastCategory, PipelineStage } from '@/types/deal';
+import { convertAmount, ExchangeRate, getDealRateDate } from '@/utils/currencyConversion';
+import { AttainmentDealInput, getDealOwner, Quarter, quarterStartDate } from '@/utils/revenueAttainment';
+
+export interface ForecastDealInput extends AttainmentDealInput {
+  forecast_category: string | null;
+}
+
+// A deal as it stands in the forecast, either live or as recorded in a snapshot
+export interface ForecastDeal {
+  dealId: string;
+  dealName: string;
+  stage: string;
+  ownerId: string | null;
+  category: ForecastCategory;
+  // Whether the category was set on the deal rather than taken from its stage
+  categoryOverridden: boolean;
+  closeDate: string;
+  year: number;
+  quarter: Quarter;
+  probability: number;
+  currency: string;
+  originalAmount: number;
+  // In the reporting currency; null without a rate
+  amount: number | null;
+  weightedAmount: number | null;
+}
+
+export interface ForecastOverride {
+  id?: string;
+  year: number;
+  quarter: Quarter;
+  owner_id: string;
+  commit_amount: number | null;
+  best_case_amount: number | null;
+  currency: string;
+  note: string | null;
+  updated_at?: string;
+}
+
+export interface ForecastTotals {
+  closed: number;
+  commit: number;
+  bestCase: number;
+  pipeline: number;
+  weighted: number;
+}
+
+export interface ForecastRow extends ForecastTotals {
+  ownerId: string | null;
+  // Closed + commit, or the manager's override
+  forecast: number;
+  // Forecast + best case, or the manager's override
+  upside: number;
+  override: ForecastOverride | null;
+  deals: ForecastDeal[];
+}
+
+export interface SnapshotDealRow {
+  snapshot_id: string;
+  deal_id: string;
+  deal_name: string;
+  owner_id: string | null;
+  stage: string;
+  forecast_category: string;
+  close_date: string;
+  close_year: number;
+  close_quarter: number;
+  probability: number;
+  amount: number | null;
+  weighted_amount: number | null;
+}
+
+export interface ForecastTrendPoint extends ForecastTotals {
+  label: string;
+  forecast: number;
+  upside: number;
+}
+
+export interface DealMovement {
+  dealId: string;
+  dealName: string;
+  ownerId: string | null;
+  // Period label before and after, e.g. "Q2 2026"; null when the deal left the forecast
+  from: string;
+  to: string | null;
+  fromDate: string;
+  toDate: string | null;
+  amount: number | null;
+  direction: 'slipped' | 'pulled_in' | 'removed';
+}
+
+export const periodLabel = (year: number, quarter: number) => `Q${quarter} ${year}`;
+
+const quarterIndex = (year: number, quarter: number) => year * 4 + quarter;
+
+const parseDate = (value: string | null) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Places each deal in the forecast the way take_forecast_snapshot does: won
+ * stages count as closed at 100% on the signing date, open deals use their own
+ * category (or the stage's) on the expected closing date, and lost deals and
+ * deals without a date are left out.
+ */
+export const buildForecastDeals = (
+  deals: ForecastDealInput[],
+  stages: PipelineStage[],
+  rates: ExchangeRate[],
+  reportingCurrency: string
+): ForecastDeal[] => {
+  const stagesByName = new Map(stages.map(s => [s.stage_name, s]));
+  const result: ForecastDeal[] = [];
+
+  deals.forEach(deal => {
+    const stage = stagesByName.get(deal.stage);
+    const stageCategory: ForecastCategory = stage?.forecast_category
+      ?? (stage?.is_won_stage ? 'closed' : stage?.is_lost_stage ? 'omitted' : 'pipeline');
+    const isFixed = stageCategory === 'closed' || stageCategory === 'omitted';
+    const dealCategory = deal.forecast_category as ForecastCategory | null;
+    const category = isFixed ? stageCategory : dealCategory || stageCategory;
+    // Lost deals drop out; open deals a rep has omitted stay listed so they can be put back
+    if (stageCategory === 'omitted') return;
+
+    const isClosed = category === 'closed';
+    const closeDateValue = isClosed
+      ? deal.signed_contract_date || deal.expected_closing_date
+      : deal.expected_closing_date;
+    const closeDate = parseDate(closeDateValue);
+    if (!closeDate || !closeDateValue) return;
+
+    const originalAmount = isClosed
+      ? Number(deal.total_revenue) || Number(deal.total_contract_value) || 0
+      : Number(deal.total_contract_value) || 0;
+    const probability = isClosed
+      ? 100
+      : Math.min(Math.max(deal.probability ?? stage?.stage_probability ?? 0, 0), 100);
+    const currency = deal.currency_type || reportingCurrency;
+    const converted = convertAmount(rates, originalAmount, currency, reportingCurrency, getDealRateDate(deal));
+    const amount = converted.converted ? converted.amount : null;
+
+    result.push({
+      dealId: deal.id,
+      dealName: deal.deal_name,
+      stage: deal.stage,
+      ownerId: getDealOwner(deal),
+      category,
+      categoryOverridden: !isFixed && !!dealCategory && dealCategory !== stageCategory,
+      closeDate: closeDateValue.slice(0, 10),
+      year: closeDate.getFullYear(),
+      quarter: (Math.floor(closeDate.getMonth() / 3) + 1) as Quarter,
+      probability,
+      currency,
+      originalAmount,
+      amount,
+      weightedAmount: amount === null ? null : amount * probability / 100,
+    });
+  });
+
+  return result;
+};
+
+export const fromSnapshotDeal = (row: SnapshotDealRow, currency: string): ForecastDeal => ({
+  dealId: row.deal_id,
+  dealName: row.deal_name,
+  stage: row.stage,
+  ownerId: row.owner_id,
+  category: row.forecast_category as ForecastCategory,
+  categoryOverridden: false,
+  closeDate: row.close_date,
+  year: row.close_year,
+  quarter: row.close_quarter as Quarter,
+  probability: row.probability,
+  currency,
+  originalAmount: Number(row.amount) || 0,
+  amount: row.amount === null ? null : Number(row.amount),
+  weightedAmount: row.weighted_amount === null ? null : Number(row.weighted_amount),
+});
+
+export const sumForecast = (deals: ForecastDeal[]): ForecastTotals => {
+  const totals: ForecastTotals = { closed: 0, commit: 0, bestCase: 0, pipeline: 0, weighted: 0 };
+  deals.forEach(deal => {
+    const amount = deal.amount ?? 0;
+    if (deal.category === 'closed') totals.closed += amount;
+    else if (deal.category === 'commit') totals.commit += amount;
+    else if (deal.category === 'best_case') totals.bestCase += amount;
+    else if (deal.category === 'pipeline') totals.pipeline += amount;
+    if (deal.category !== 'omitted') totals.weighted += deal.weightedAmount ?? 0;
+  });
+  return totals;
+};
+
+const withRollups = (totals: ForecastTotals) => {
+  const forecast = totals.closed + totals.commit;
+  return { forecast, upside: forecast + totals.bestCase };
+};
+
+/**
+ * One row per owner for the deals closing in year/quarter. A manager override
+ * replaces the rolled-up forecast and upside but leaves the category totals as
+ * the deals add up.
+ */
+export const buildForecastRows = (
+  deals: ForecastDeal[],
+  overrides: ForecastOverride[],
+  year: number,
+  quarter: Quarter,
+  rates: ExchangeRate[],
+  reportingCurrency: string
+): ForecastRow[] => {
+  const inPeriod = deals.filter(d => d.year === year && d.quarter === quarter);
+  const periodOverrides = overrides.filter(o => o.year === year && o.quarter === quarter);
+  const owners = new Set<string | null>([
+    ...inPeriod.map(d => d.ownerId),
+    ...periodOverrides.map(o => o.owner_id),
+  ]);
+
+  const toReporting = (amount: number | null, currency: string) => {
+    if (amount === null) return null;
+    const converted = convertAmount(rates, Number(amount), currency, reportingCurrency, quarterStartDate(year, quarter));
+    return converted.converted ? converted.amount : Number(amount);
+  };
+
+  return Array.from(owners).map(ownerId => {
+    const ownerDeals = inPeriod.filter(d => d.ownerId === ownerId);
+    const totals = sumForecast(ownerDeals);
+    const rollups = withRollups(totals);
+    const override = periodOverrides.find(o => o.owner_id === ownerId) ?? null;
+    const commitOverride = override ? toReporting(override.commit_amount, override.currency) : null;
+    const bestCaseOverride = override ? toReporting(override.best_case_amount, override.currency) : null;
+    const forecast = commitOverride ?? rollups.forecast;
+
+    return {
+      ownerId,
+      ...totals,
+      forecast,
+      upside: bestCaseOverride ?? Math.max(rollups.upside, forecast),
+      override,
+      deals: ownerDeals,
+    };
+  }).sort((a, b) => b.forecast - a.forecast || b.weighted - a.weighted);
+};
+
+/**
+ * Forecast totals for one quarter at each snapshot date, oldest first, with the
+ * live figures appended as "Now".
+ */
+export const buildForecastTrend = (
+  snapshots: { id: string; snapshot_date: string; reporting_currency: string }[],
+  snapshotDeals: SnapshotDealRow[],
+  liveDeals: ForecastDeal[],
+  year: number,
+  quarter: Quarter
+): ForecastTrendPoint[] => {
+  const point = (label: string, deals: ForecastDeal[]): ForecastTrendPoint => {
+    const totals = sumForecast(deals.filter(d => d.year === year && d.quarter === quarter));
+    return { label, ...totals, ...withRollups(totals) };
+  };
+
+  const points = [...snapshots]
+    .sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date))
+    .map(snapshot => point(
+      snapshot.snapshot_date,
+      snapshotDeals.filter(row => row.snapshot_id === snapshot.id).map(row => fromSnapshotDeal(row, snapshot.reporting_currency))
+    ));
+
+  return [...points, point('Now', liveDeals)];
+};
+
+/**
+ * Deals that were expected in year/quarter at the baseline and have since moved
+ * to a later quarter or dropped out of the forecast, plus deals pulled into the
+ * quarter from a later one.
+ */
+export const findDealMovements = (
+  baseline: ForecastDeal[],
+  current: ForecastDeal[],
+  year: number,
+  quarter: Quarter
+): DealMovement[] => {
+  const target = quarterIndex(year, quarter);
+  const currentById = new Map(current.map(d => [d.dealId, d]));
+  const baselineById = new Map(baseline.map(d => [d.dealId, d]));
+  const movements: DealMovement[] = [];
+
+  baseline
+    .filter(d => quarterIndex(d.year, d.quarter) === target && d.category !== 'closed')
+    .forEach(before => {
+      const found = currentById.get(before.dealId);
+      const after = found?.category === 'omitted' ? undefined : found;
+      if (after && quarterIndex(after.year, after.quarter) <= target) return;
+      movements.push({
+        dealId: before.dealId,
+        dealName: before.dealName,
+        ownerId: before.ownerId,
+        from: periodLabel(before.year, before.quarter),
+        to: after ? periodLabel(after.year, after.quarter) : null,
+        fromDate: before.closeDate,
+        toDate: after?.closeDate ?? null,
+        amount: before.amount,
+        direction: after ? 'slipped' : 'removed',
+      });
+    });
+
+  current
+    .filter(d => quarterIndex(d.year, d.quarter) === target && d.category !== 'omitted')
+    .forEach(after => {
+      const before = baselineById.get(after.dealId);
+      if (!before || quarterIndex(before.year, before.quarter) <= target) return;
+      movements.push({
+        dealId: after.dealId,
+        dealName: after.dealName,
+        ownerId: after.ownerId,
+        from: periodLabel(before.year, before.quarter),
+        to: periodLabel(after.year, after.quarter),
+        fromDate: before.closeDate,
+        toDate: after.closeDate,
+        amount: after.amount,
+        direction: 'pulled_in',
+      });
+    });
+
+  return movements;
+};
@@ -0,0 +1,289 @@
+import { PipelineStage } from '@/types/deal';
+
+export interface AnalyticsDeal {
+  id: string;
+  deal_name: string;
+  stage: string;
+  lead_owner: string | null;
+  created_by: string | null;
+  region: string | null;
+  contact_id: string | null;
+  total_contract_value: number | null;
+  currency_type: string | null;
+  created_at: string | null;
+  // Fields DealsAdvancedFilter matches on
+  project_name: string | null;
+  lead_name: string | null;
+  customer_name: string | null;
+  priority: number | null;
+  probability: number | null;
+  handoff_status: string | null;
+}
+
+export interface StageHistoryEntry {
+  deal_id: string;
+  from_stage: string | null;
+  to_stage: string;
+  changed_at: string;
+}
+
+// One stretch of time a deal spent in a stage; `end` is null while it is still there
+export interface StageInterval {
+  dealId: string;
+  stage: string;
+  start: Date;
+  end: Date | null;
+  days: number;
+}
+
+export interface FunnelStep {
+  stage: string;
+  color: string;
+  reached: number;
+  // Share of deals reaching this stage that went on to the next one; null for the last
+  conversionToNext: number | null;
+}
+
+export interface StageVelocity {
+  stage: string;
+  color: string;
+  // Completed stays only, so deals still in the stage don't drag the average down
+  avgDays: number | null;
+  medianDays: number | null;
+  completedStays: number;
+  currentDeals: number;
+  avgCurrentAge: number | null;
+}
+
+export interface AgingBucket {
+  label: string;
+  minDays: number;
+  maxDays: number | null;
+}
+
+export const AGING_BUCKETS: AgingBucket[] = [
+  { label: '0-7d', minDays: 0, maxDays: 7 },
+  { label: '8-14d', minDays: 8, maxDays: 14 },
+  { label: '15-30d', minDays: 15, maxDays: 30 },
+  { label: '31-60d', minDays: 31, maxDays: 60 },
+  { label: '61-90d', minDays: 61, maxDays: 90 },
+  { label: '90d+', minDays: 91, maxDays: null },
+];
+
+export interface AgingRow {
+  stage: string;
+  counts: number[];
+}
+
+export interface WinRateRow {
+  key: string;
+  won: number;
+  lost: number;
+  winRate: number;
+}
+
+export interface StuckDeal {
+  deal: AnalyticsDeal;
+  stage: string;
+  daysInStage: number;
+  threshold: number;
+}
+
+export type WinRateDimension = 'owner' | 'region' | 'source';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (start: Date, end: Date) => Math.max((end.getTime() - start.getTime()) / DAY_MS, 0);
+
+const average = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Turns each deal's stage history into time spent per stage. Deals created
+ * before history was recorded get a single stretch in their current stage from
+ * created_at.
+ */
+export const buildStageIntervals = (
+  deals: AnalyticsDeal[],
+  history: StageHistoryEntry[],
+  now: Date = new Date()
+): Map<string, StageInterval[]> => {
+  const historyByDeal = new Map<string, StageHistoryEntry[]>();
+  history.forEach(entry => {
+    const entries = historyByDeal.get(entry.deal_id) ?? [];
+    entries.push(entry);
+    historyByDeal.set(entry.deal_id, entries);
+  });
+
+  const result = new Map<string, StageInterval[]>();
+  deals.forEach(deal => {
+    const entries = (historyByDeal.get(deal.id) ?? [])
+      .slice()
+      .sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+    const intervals: StageInterval[] = [];
+
+    if (entries.length === 0) {
+      const start = deal.created_at ? new Date(deal.created_at) : now;
+      intervals.push({ dealId: deal.id, stage: deal.stage, start, end: null, days: daysBetween(start, now) });
+    } else {
+      // History that starts mid-way means the deal sat in from_stage since it was created
+      const first = entries[0];
+      if (first.from_stage && deal.created_at) {
+        const start = new Date(deal.created_at);
+        const end = new Date(first.changed_at);
+        intervals.push({ dealId: deal.id, stage: first.from_stage, start, end, days: daysBetween(start, end) });
+      }
+      entries.forEach((entry, index) => {
+        const start = new Date(entry.changed_at);
+        const next = entries[index + 1];
+        const end = next ? new Date(next.changed_at) : null;
+        intervals.push({ dealId: deal.id, stage: entry.to_stage, start, end, days: daysBetween(start, end ?? now) });
+      });
+    }
+
+    result.set(deal.id, intervals);
+  });
+
+  return result;
+};
+
+const funnelStages = (stages: PipelineStage[]) =>
+  stages.filter(s => !s.is_lost_stage).sort((a, b) => a.stage_order - b.stage_order);
+
+/**
+ * How many deals reached each open stage and the won stage, in board order.
+ * Skipping ahead counts as passing through the stages in between, so a deal
+ * moved straight from Lead to Offered also counts for the stages before Offered.
+ */
+export const buildFunnel = (
+  deals: AnalyticsDeal[],
+  intervals: Map<string, StageInterval[]>,
+  stages: PipelineStage[]
+): FunnelStep[] => {
+  const ordered = funnelStages(stages);
+  const orderByStage = new Map(ordered.map((s, index) => [s.stage_name, index]));
+
+  const furthest = deals.map(deal => {
+    const visited = (intervals.get(deal.id) ?? []).map(i => i.stage).concat(deal.stage);
+    return Math.max(-1, ...visited.map(stage => orderByStage.get(stage) ?? -1));
+  });
+
+  const reached = ordered.map((_, index) => furthest.filter(f => f >= index).length);
+
+  return ordered.map((stage, index) => ({
+    stage: stage.stage_name,
+    color: stage.stage_color,
+    reached: reached[index],
+    conversionToNext: index < ordered.length - 1 && reached[index] > 0
+      ? (reached[index + 1] / reached[index]) * 100
+      : null,
+  }));
+};
+
+export const buildStageVelocity = (
+  intervals: Map<string, StageInterval[]>,
+  stages: PipelineStage[]
+): StageVelocity[] => {
+  const all = Array.from(intervals.values()).flat();
+  return stages
+    .filter(s => !s.is_won_stage && !s.is_lost_stage)
+    .sort((a, b) => a.stage_order - b.stage_order)
+    .map(stage => {
+      const inStage = all.filter(i => i.stage === stage.stage_name);
+      const completed = inStage.filter(i => i.end !== null).map(i => i.days);
+      const current = inStage.filter(i => i.end === null).map(i => i.days);
+      return {
+        stage: stage.stage_name,
+        color: stage.stage_color,
+        avgDays: average(completed),
+        medianDays: median(completed),
+        completedStays: completed.length,
+        currentDeals: current.length,
+        avgCurrentAge: average(current),
+      };
+    });
+};
+
+const currentStageDays = (deal: AnalyticsDeal, intervals: Map<string, StageInterval[]>) => {
+  const open = (intervals.get(deal.id) ?? []).find(i => i.end === null && i.stage === deal.stage);
+  return open?.days ?? 0;
+};
+
+// Open deals per stage by how long they have been in it
+export const buildAgingHeatmap = (
+  deals: AnalyticsDeal[],
+  intervals: Map<string, StageInterval[]>,
+  stages: PipelineStage[]
+): AgingRow[] => {
+  return stages
+    .filter(s => !s.is_won_stage && !s.is_lost_stage)
+    .sort((a, b) => a.stage_order - b.stage_order)
+    .map(stage => {
+      const counts = AGING_BUCKETS.map(() => 0);
+      deals
+        .filter(deal => deal.stage === stage.stage_name)
+        .forEach(deal => {
+          const days = Math.floor(currentStageDays(deal, intervals));
+          const bucket = AGING_BUCKETS.findIndex(b => days >= b.minDays && (b.maxDays === null || days <= b.maxDays));
+          if (bucket >= 0) counts[bucket] += 1;
+        });
+      return { stage: stage.stage_name, counts };
+    });
+};
+
+/**
+ * Won / (won + lost) per owner, region or source, over deals that have closed.
+ * `keyOf` returns the group for a deal; empty values are grouped as "Not set".
+ */
+export const buildWinRates = (
+  deals: AnalyticsDeal[],
+  stages: PipelineStage[],
+  keyOf: (deal: AnalyticsDeal) => string | null | undefined
+): WinRateRow[] => {
+  const won = new Set(stages.filter(s => s.is_won_stage).map(s => s.stage_name));
+  const lost = new Set(stages.filter(s => s.is_lost_stage).map(s => s.stage_name));
+  const groups = new Map<string, { won: number; lost: number }>();
+
+  deals.forEach(deal => {
+    const isWon = won.has(deal.stage);
+    if (!isWon && !lost.has(deal.stage)) return;
+    const key = keyOf(deal) || 'Not set';
+    const group = groups.get(key) ?? { won: 0, lost: 0 };
+    if (isWon) group.won += 1;
+    else group.lost += 1;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, ...group, winRate: (group.won / (group.won + group.lost)) * 100 }))
+    .sort((a, b) => b.won + b.lost - (a.won + a.lost) || b.winRate - a.winRate);
+};
+
+// Open deals that have been in their stage longer than the stage's threshold
+export const findStuckDeals = (
+  deals: AnalyticsDeal[],
+  intervals: Map<string, StageInterval[]>,
+  stages: PipelineStage[]
+): StuckDeal[] => {
+  const thresholds = new Map(
+    stages
+      .filter(s => !s.is_won_stage && !s.is_lost_stage && s.stuck_after_days)
+      .map(s => [s.stage_name, s.stuck_after_days as number])
+  );
+
+  return deals
+    .map(deal => {
+      const threshold = thresholds.get(deal.stage);
+      if (!threshold) return null;
+      const daysInStage = currentStageDays(deal, intervals);
+      return daysInStage > threshold ? { deal, stage: deal.stage, daysInStage, threshold } : null;
+    })
+    .filter((d): d is StuckDeal => d !== null)
+    .sort((a, b) => b.daysInStage / b.threshold - a.daysInStage / a.threshold);
+};
@@ -0,0 +1,228 @@
+import { PipelineStage } from '@/types/deal';
+import { convertAmount, ExchangeRate, getDealRateDate } from '@/utils/currencyConversion';
+
+export type Quarter = 1 | 2 | 3 | 4;
+export const QUARTERS: Quarter[] = [1, 2, 3, 4];
+
+// Committed revenue stages when no pipeline stages are configured
+export const COMMITTED_STAGES = ['RFQ', 'Offered'];
+
+// Open stages forecast as commit or best case; their weighted value counts as committed revenue
+export const getCommittedStages = (stages: PipelineStage[]): Set<string> => {
+  if (stages.length === 0) return new Set(COMMITTED_STAGES);
+  return new Set(
+    stages
+      .filter(s => !s.is_won_stage && !s.is_lost_stage && (s.forecast_category === 'commit' || s.forecast_category === 'best_case'))
+      .map(s => s.stage_name)
+  );
+};
+
+export interface RevenueTarget {
+  id?: string;
+  year: number;
+  quarter: Quarter;
+  owner_id: string | null;
+  region: string | null;
+  amount: number;
+  currency: string;
+}
+
+export interface AttainmentDealInput {
+  id: string;
+  deal_name: string;
+  stage: string;
+  lead_owner: string | null;
+  created_by: string | null;
+  region: string | null;
+  probability: number | null;
+  currency_type: string | null;
+  total_contract_value: number | null;
+  total_revenue: number | null;
+  quarterly_revenue_q1: number | null;
+  quarterly_revenue_q2: number | null;
+  quarterly_revenue_q3: number | null;
+  quarterly_revenue_q4: number | null;
+  expected_closing_date: string | null;
+  signed_contract_date: string | null;
+  created_at: string | null;
+}
+
+// One deal's share of one quarter
+export interface DealContribution {
+  dealId: string;
+  dealName: string;
+  stage: string;
+  ownerId: string | null;
+  region: string | null;
+  quarter: Quarter;
+  kind: 'won' | 'committed';
+  currency: string;
+  // In the deal's own currency, before weighting
+  originalAmount: number;
+  probability: number | null;
+  // Weighted for committed deals, in the reporting currency; null without a rate
+  reportingAmount: number | null;
+}
+
+export interface AttainmentRow {
+  key: string;
+  ownerId: string | null;
+  region: string | null;
+  target: number;
+  won: number;
+  committed: number;
+  gap: number;
+  contributions: DealContribution[];
+}
+
+const QUARTERLY_FIELDS = ['quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4'] as const;
+
+export const getDealOwner = (deal: Pick<AttainmentDealInput, 'lead_owner' | 'created_by'>) => deal.lead_owner || deal.created_by;
+
+const quarterOf = (date: Date): Quarter => (Math.floor(date.getMonth() / 3) + 1) as Quarter;
+
+const parseDate = (value: string | null) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const quarterStartDate = (year: number, quarter: Quarter) =>
+  `${year}-${String((quarter - 1) * 3 + 1).padStart(2, '0')}-01`;
+
+/**
+ * Splits deals into per-quarter contributions for `year`.
+ * Won deals use their Q1-Q4 revenue split when one is filled in, otherwise the
+ * whole total revenue (or contract value) lands in the signing quarter. Deals in
+ * committed stages count their contract value weighted by probability in the
+ * expected closing quarter.
+ */
+export const buildContributions = (
+  deals: AttainmentDealInput[],
+  year: number,
+  stages: PipelineStage[],
+  rates: ExchangeRate[],
+  reportingCurrency: string
+): DealContribution[] => {
+  const wonStages = new Set(stages.filter(s => s.is_won_stage).map(s => s.stage_name));
+  if (wonStages.size === 0) wonStages.add('Won');
+  const committedStages = getCommittedStages(stages);
+  const stageProbability = new Map(stages.map(s => [s.stage_name, s.stage_probability]));
+
+  const contributions: DealContribution[] = [];
+
+  deals.forEach(deal => {
+    const currency = deal.currency_type || reportingCurrency;
+    const rateDate = getDealRateDate(deal);
+    const toReporting = (amount: number) => {
+      const result = convertAmount(rates, amount, currency, reportingCurrency, rateDate);
+      return result.converted ? result.amount : null;
+    };
+    const base = {
+      dealId: deal.id,
+      dealName: deal.deal_name,
+      stage: deal.stage,
+      ownerId: getDealOwner(deal),
+      region: deal.region,
+      currency,
+    };
+
+    if (wonStages.has(deal.stage)) {
+      const signed = parseDate(deal.signed_contract_date) || parseDate(deal.expected_closing_date);
+      if (!signed || signed.getFullYear() !== year) return;
+
+      const split = QUARTERLY_FIELDS.map(field => Number(deal[field]) || 0);
+      if (split.some(amount => amount > 0)) {
+        split.forEach((amount, index) => {
+          if (amount <= 0) return;
+          contributions.push({
+            ...base, quarter: (index + 1) as Quarter, kind: 'won', originalAmount: amount,
+            probability: null, reportingAmount: toReporting(amount),
+          });
+        });
+        return;
+      }
+
+      const amount = Number(deal.total_revenue) || Number(deal.total_contract_value) || 0;
+      if (amount > 0) {
+        contributions.push({
+          ...base, quarter: quarterOf(signed), kind: 'won', originalAmount: amount,
+          probability: null, reportingAmount: toReporting(amount),
+        });
+      }
+      return;
+    }
+
+    if (committedStages.has(deal.stage)) {
+      const closing = parseDate(deal.expected_closing_date);
+      const amount = Number(deal.total_contract_value) || 0;
+      if (!closing || closing.getFullYear() !== year || amount <= 0) return;
+
+      const probability = deal.probability ?? stageProbability.get(deal.stage) ?? 0;
+      const converted = toReporting(amount);
+      contributions.push({
+        ...base, quarter: quarterOf(closing), kind: 'committed', originalAmount: amount,
+        probability, reportingAmount: converted === null ? null : converted * probability / 100,
+      });
+    }
+  });
+
+  return contributions;
+};
+
+const slotKey = (ownerId: string | null, region: string | null) => `${ownerId ?? '*'}|${region ?? '*'}`;
+
+const matchesSlot = (contribution: DealContribution, ownerId: string | null, region: string | null) =>
+  (ownerId === null || contribution.ownerId === ownerId)
+  && (region === null || (contribution.region || '').toLowerCase() === region.toLowerCase());
+
+/**
+ * One row per target slot (owner × region) for the chosen quarters, plus a row
+ * for every owner with won or committed revenue but no target of their own.
+ * Targets set in another currency are converted at the start of their quarter.
+ */
+export const buildAttainmentRows = (
+  targets: RevenueTarget[],
+  contributions: DealContribution[],
+  quarters: Quarter[],
+  rates: ExchangeRate[],
+  reportingCurrency: string
+): AttainmentRow[] => {
+  const inPeriod = contributions.filter(c => quarters.includes(c.quarter));
+  const slots = new Map<string, { ownerId: string | null; region: string | null; target: number }>();
+
+  targets
+    .filter(t => quarters.includes(t.quarter))
+    .forEach(t => {
+      const key = slotKey(t.owner_id, t.region);
+      const slot = slots.get(key) ?? { ownerId: t.owner_id, region: t.region, target: 0 };
+      const converted = convertAmount(rates, Number(t.amount), t.currency, reportingCurrency, quarterStartDate(t.year, t.quarter));
+      slot.target += converted.converted ? converted.amount : Number(t.amount);
+      slots.set(key, slot);
+    });
+
+  const ownersWithTargets = new Set(targets.filter(t => t.owner_id).map(t => t.owner_id));
+  inPeriod.forEach(c => {
+    if (c.ownerId && !ownersWithTargets.has(c.ownerId) && !slots.has(slotKey(c.ownerId, null))) {
+      slots.set(slotKey(c.ownerId, null), { ownerId: c.ownerId, region: null, target: 0 });
+    }
+  });
+
+  return Array.from(slots.entries()).map(([key, slot]) => {
+    const matching = inPeriod.filter(c => matchesSlot(c, slot.ownerId, slot.region));
+    const sum = (kind: DealContribution['kind']) =>
+      matching.filter(c => c.kind === kind).reduce((total, c) => total + (c.reportingAmount ?? 0), 0);
+    const won = sum('won');
+    const committed = sum('committed');
+    return {
+      key,
+      ownerId: slot.ownerId,
+      region: slot.region,
+      target: slot.target,
+      won,
+      committed,
+      gap: Math.max(slot.target - won - committed, 0),
+      contributions: matching,
+    };
+  });
+};
@@ -1,3 +1,5 @@
+import type { CSSProperties } from 'react';
+
 // Shared status badge utilities for consistent styling across components
 
 // Task Status Utilities
@@ -73,27 +75,14 @@ export const getMeetingStatusColor = (status?: string | null): string => {
 };
 
 // Deal Stage Utilities
-export const getDealStageColor = (stage?: string | null): string => {
-  switch (stage?.toLowerCase()) {
-    case 'lead':
-      return 'bg-slate-100 text-slate-700 dark:bg-slate-800/30 dark:text-slate-300 border-slate-200 dark:border-slate-700';
-    case 'discussions':
-      return 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300 border-blue-200 dark:border-blue-800';
-    case 'qualified':
-      return 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/20 dark:text-indigo-300 border-indigo-200 dark:border-indigo-800';
-    case 'rfq':
-      return 'bg-purple-50 text-purple-700 dark:bg-purple-900/20 dark:text-purple-300 border-purple-200 dark:border-purple-800';
-    case 'offered':
-      return 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300 border-amber-200 dark:border-amber-800';
-    case 'won':
-      return 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800';
-    case 'lost':
-      return 'bg-rose-50 text-rose-700 dark:bg-rose-900/20 dark:text-rose-300 border-rose-200 dark:border-rose-800';
-    case 'dropped':
-      return 'bg-gray-100 text-gray-600 dark:bg-gray-800/30 dark:text-gray-400 border-gray-200 dark:border-gray-700';
-    default:
-      return 'bg-muted text-muted-foreground border-border';
-  }
+// Stage colors are admin-picked hex values from pipeline_stages, so they are applied inline
+export const getPipelineStageStyle = (color?: string | null): CSSProperties => {
+  if (!color || !/^#[0-9a-f]{6}$/i.test(color)) return {};
+  return {
+    backgroundColor: `${color}1a`,
+    borderColor: `${color}4d`,
+    color,
+  };
 };
 
 // Module Type Badge Utilities
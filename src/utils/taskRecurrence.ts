@@ -0,0 +1,32 @@
+import { format } from 'date-fns';
+import { Task, TaskRecurrence } from '@/types/task';
+
+export const TASK_RECURRENCE_OPTIONS: { value: TaskRecurrence; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+type RecurrenceSource = Pick<Task, 'id' | 'recurrence' | 'recurrence_end_date' | 'parent_task_id'>;
+
+export const isRecurringTask = (task: RecurrenceSource): boolean =>
+  !!task.recurrence && task.recurrence !== 'none';
+
+// A task belongs to a series if it repeats or was generated from one that did
+export const isTaskInSeries = (task: RecurrenceSource): boolean =>
+  isRecurringTask(task) || !!task.parent_task_id;
+
+// Occurrences point at the first task of the series; that task is the series id
+export const getTaskSeriesId = (task: RecurrenceSource): string =>
+  task.parent_task_id || task.id;
+
+// e.g. "Repeats weekly until 31/03/2026"
+export const getRecurrenceLabel = (task: RecurrenceSource): string => {
+  if (!isRecurringTask(task)) return 'Does not repeat';
+  const base = `Repeats ${task.recurrence}`;
+  return task.recurrence_end_date
+    ? `${base} until ${format(new Date(task.recurrence_end_date), 'dd/MM/yyyy')}`
+    : base;
+};
@@ -0,0 +1,31 @@
+// Signed click-tracking links, shared by send-email (signs) and
+// track-email-click (verifies). The links are public, so the secret is a
+// dedicated one rather than a key that also opens the API.
+
+export function getLinkSigningSecret(): string | null {
+  return Deno.env.get("EMAIL_TRACKING_SECRET") || null;
+}
+
+export async function signLink(secret: string, emailId: string, linkUrl: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${emailId}:${linkUrl}`));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Constant-time comparison so the signature cannot be guessed byte by byte
+export function signaturesMatch(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
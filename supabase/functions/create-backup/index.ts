@@ -1,22 +1,131 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Bump when the backup file layout changes; restore-backup reads older versions too
+const BACKUP_SCHEMA_VERSION = 2;
+
+// Every domain table, parents before children so restore can replay them in manifest order.
+// Left out on purpose: backups (this feature's own metadata), keep_alive, user_access_cache
+// and user_sessions (derived or ephemeral state), mfa_recovery_codes (secrets tied to an
+// authenticator that a backup can't bring back) and security_audit_log (appended
+// when includeAuditLogs is set).
+const BACKUP_TABLES = [
+  'profiles',
+  'user_roles',
+  'teams',
+  'team_members',
+  'session_policies',
+  'user_preferences',
+  'dashboard_preferences',
+  'notification_preferences',
+  'push_subscriptions',
+  'table_column_preferences',
+  'saved_filters',
+  'page_permissions',
+  'branding_settings',
+  'integration_settings',
+  'currency_settings',
+  'exchange_rates',
+  'import_export_settings',
+  'maintenance',
+  'system_updates',
+  'announcements',
+  'announcement_dismissals',
+  'pipeline_stages',
+  'lead_statuses',
+  'crm_custom_fields',
+  'scoring_rules',
+  'assignment_rules',
+  'email_templates',
+  'approval_workflows',
+  'accounts',
+  'account_activities',
+  'contacts',
+  'contact_activities',
+  'leads',
+  'lead_action_items',
+  'deals',
+  'deal_action_items',
+  'deal_stage_history',
+  'lead_conversions',
+  'record_scores',
+  'approval_requests',
+  'approval_actions',
+  'meetings',
+  'meeting_reminders',
+  'meeting_follow_ups',
+  'tasks',
+  'task_subtasks',
+  'task_reminder_logs',
+  'email_history',
+  'email_link_clicks',
+  'email_mailbox_sync',
+  'email_campaigns',
+  'email_campaign_recipients',
+  'email_sequences',
+  'email_sequence_steps',
+  'email_sequence_enrollments',
+  'email_sequence_step_runs',
+  'notifications',
+  'notification_digests',
+  'yearly_revenue_targets',
+  'revenue_targets',
+  'forecast_overrides',
+  'forecast_snapshots',
+  'forecast_snapshot_deals',
+  'report_schedules',
+  'backup_schedules',
+  'backup_schedule_runs',
+];
+
+// Tables keyed by something other than id
+const PRIMARY_KEYS: Record<string, string> = {
+  email_mailbox_sync: 'mailbox',
+};
+
+const PAGE_SIZE = 1000;
+
+interface BackupTableManifest {
+  name: string;
+  row_count: number;
+  primary_key: string;
+  // Columns present when the backup was taken, used by restore to detect schema drift
+  columns: string[];
+  error?: string;
+}
+
 interface BackupManifest {
   version: string;
+  schema_version: number;
   created_at: string;
-  created_by: string;
-  tables: {
-    name: string;
-    row_count: number;
-  }[];
+  created_by: string | null;
+  tables: BackupTableManifest[];
   total_records: number;
   include_audit_logs: boolean;
 }
 
+type BackupRow = Record<string, unknown>;
+
+// PostgREST caps a single select, so read the table page by page
+const fetchAllRows = async (supabase: SupabaseClient, tableName: string, primaryKey = 'id'): Promise<BackupRow[]> => {
+  const rows: BackupRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(tableName)
+      .select('*')
+      .order(primaryKey, { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -33,61 +142,66 @@ Deno.serve(async (req) => {
 
     // Create admin client for backup operations
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
-    
-    // Create user client for auth check
-    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
-      global: { headers: { Authorization: authHeader } }
-    });
 
-    // Verify user is authenticated and is admin
-    const { data: { user }, error: authError } = await supabaseUser.auth.getUser();
-    if (authError || !user) {
-      throw new Error('Unauthorized');
-    }
+    const { includeAuditLogs = true, scheduleId } = await req.json().catch(() => ({}));
 
-    // Check if user is admin
-    const { data: roleData } = await supabaseAdmin
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id)
-      .single();
+    // run-backup-schedules calls in with the service role key on behalf of a schedule
+    const isScheduledRun = !!scheduleId && authHeader === `Bearer ${supabaseServiceKey}`;
+    let createdBy: string | null;
+
+    if (isScheduledRun) {
+      const { data: schedule } = await supabaseAdmin
+        .from('backup_schedules')
+        .select('id, created_by')
+        .eq('id', scheduleId)
+        .single();
+
+      if (!schedule) {
+        throw new Error('Backup schedule not found');
+      }
+
+      createdBy = schedule.created_by;
+      console.log('Starting scheduled backup for schedule:', scheduleId);
+    } else {
+      // Create user client for auth check
+      const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+        global: { headers: { Authorization: authHeader } }
+      });
 
-    const userRole = roleData?.role || user.user_metadata?.role || 'user';
-    if (userRole !== 'admin') {
-      throw new Error('Only admins can create backups');
+      // Verify user is authenticated and is admin
+      const { data: { user }, error: authError } = await supabaseUser.auth.getUser();
+      if (authError || !user) {
+        throw new Error('Unauthorized');
+      }
+
+      // Check if user is admin
+      const { data: roleData } = await supabaseAdmin
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .single();
+
+      const userRole = roleData?.role || user.user_metadata?.role || 'user';
+      if (userRole !== 'admin') {
+        throw new Error('Only admins can create backups');
+      }
+
+      createdBy = user.id;
+      console.log('Starting backup creation for user:', user.email);
     }
 
-    console.log('Starting backup creation for user:', user.email);
-
-    const { includeAuditLogs = true } = await req.json().catch(() => ({}));
-
-    // Tables to backup
-    const tablesToBackup = [
-      'accounts',
-      'contacts',
-      'leads',
-      'deals',
-      'deal_action_items',
-      'lead_action_items',
-      'notifications',
-      'profiles',
-      'saved_filters',
-      'user_preferences',
-      'user_roles',
-      'dashboard_preferences',
-      'yearly_revenue_targets',
-      'page_permissions',
-    ];
+    const tablesToBackup = [...BACKUP_TABLES];
 
     if (includeAuditLogs) {
       tablesToBackup.push('security_audit_log');
     }
 
-    const backupData: Record<string, any[]> = {};
+    const backupData: Record<string, BackupRow[]> = {};
     const manifest: BackupManifest = {
-      version: '1.0',
+      version: '2.0',
+      schema_version: BACKUP_SCHEMA_VERSION,
       created_at: new Date().toISOString(),
-      created_by: user.id,
+      created_by: createdBy,
       tables: [],
       total_records: 0,
       include_audit_logs: includeAuditLogs,
@@ -96,23 +210,19 @@ Deno.serve(async (req) => {
     // Fetch data from each table
     for (const tableName of tablesToBackup) {
       try {
-        const { data, error } = await supabaseAdmin
-          .from(tableName)
-          .select('*');
-
-        if (error) {
-          console.warn(`Error fetching ${tableName}:`, error.message);
-          backupData[tableName] = [];
-          manifest.tables.push({ name: tableName, row_count: 0 });
-        } else {
-          backupData[tableName] = data || [];
-          manifest.tables.push({ name: tableName, row_count: data?.length || 0 });
-          manifest.total_records += data?.length || 0;
-        }
+        const primaryKey = PRIMARY_KEYS[tableName] || 'id';
+        const rows = await fetchAllRows(supabaseAdmin, tableName, primaryKey);
+        const columns = [...new Set(rows.flatMap(row => Object.keys(row)))].sort();
+
+        backupData[tableName] = rows;
+        manifest.tables.push({ name: tableName, row_count: rows.length, primary_key: primaryKey, columns });
+        manifest.total_records += rows.length;
       } catch (err) {
-        console.warn(`Failed to backup ${tableName}:`, err);
+        // Recorded in the manifest so a partial backup is visible instead of silently short
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`Failed to backup ${tableName}:`, message);
         backupData[tableName] = [];
-        manifest.tables.push({ name: tableName, row_count: 0 });
+        manifest.tables.push({ name: tableName, row_count: 0, primary_key: PRIMARY_KEYS[tableName] || 'id', columns: [], error: message });
       }
     }
 
@@ -125,7 +235,7 @@ Deno.serve(async (req) => {
     // Generate file name
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
     const fileName = `backup_${timestamp}.json`;
-    const filePath = `${user.id}/${fileName}`;
+    const filePath = isScheduledRun ? `scheduled/${scheduleId}/${fileName}` : `${createdBy}/${fileName}`;
 
     // Upload to storage
     const { error: uploadError } = await supabaseAdmin.storage
@@ -152,10 +262,11 @@ Deno.serve(async (req) => {
         size_bytes: sizeBytes,
         tables_count: manifest.tables.length,
         records_count: manifest.total_records,
-        backup_type: 'manual',
+        backup_type: isScheduledRun ? 'scheduled' : 'manual',
         status: 'completed',
         manifest: manifest,
-        created_by: user.id,
+        created_by: createdBy,
+        schedule_id: isScheduledRun ? scheduleId : null,
       })
       .select()
       .single();
@@ -165,13 +276,14 @@ Deno.serve(async (req) => {
       throw new Error(`Failed to save backup metadata: ${dbError.message}`);
     }
 
-    // Clean up old backups (keep only last 10)
+    // Clean up old manual backups (keep only last 10); scheduled backups follow their schedule's retention
     const { data: allBackups } = await supabaseAdmin
       .from('backups')
       .select('id, file_path, created_at')
+      .eq('backup_type', 'manual')
       .order('created_at', { ascending: false });
 
-    if (allBackups && allBackups.length > 10) {
+    if (!isScheduledRun && allBackups && allBackups.length > 10) {
       const backupsToDelete = allBackups.slice(10);
       
       for (const oldBackup of backupsToDelete) {
@@ -7,6 +7,13 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
+// Overridable so the function can run against supabase/mocks/graph-server.ts
+const GRAPH_API_BASE_URL = Deno.env.get('GRAPH_API_BASE_URL') || 'https://graph.microsoft.com/v1.0';
+const AZURE_LOGIN_BASE_URL = Deno.env.get('AZURE_LOGIN_BASE_URL') || 'https://login.microsoftonline.com';
+
+// getSchedule accepts at most this many calendars per request
+const MAX_SCHEDULES = 20;
+
 interface Attendee {
   email: string;
   name: string;
@@ -21,6 +28,35 @@ interface MeetingRequest {
   description?: string;
 }
 
+interface ScheduleRequest {
+  action: 'get-schedule';
+  schedules: string[];
+  startTime: string;
+  endTime: string;
+  intervalMinutes?: number;
+}
+
+interface BusyItem {
+  status: string;
+  start: string;
+  end: string;
+}
+
+// One entry of a getSchedule response
+interface GraphScheduleInformation {
+  scheduleId: string;
+  availabilityView?: string;
+  scheduleItems?: { status: string; start: { dateTime: string }; end: { dateTime: string } }[];
+  error?: { message: string; responseCode?: string };
+}
+
+interface ScheduleResult {
+  email: string;
+  availabilityView: string;
+  items: BusyItem[];
+  error?: string;
+}
+
 async function getAccessToken(): Promise<string> {
   const tenantId = Deno.env.get('AZURE_TEAMS_TENANT_ID');
   const clientId = Deno.env.get('AZURE_TEAMS_CLIENT_ID');
@@ -32,7 +68,7 @@ async function getAccessToken(): Promise<string> {
 
   console.log('Fetching access token from Azure AD...');
   
-  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
+  const tokenUrl = `${AZURE_LOGIN_BASE_URL}/${tenantId}/oauth2/v2.0/token`;
   
   const params = new URLSearchParams();
   params.append('client_id', clientId);
@@ -61,7 +97,7 @@ async function getAccessToken(): Promise<string> {
 
 async function getUserId(accessToken: string, email: string): Promise<string> {
   const userResponse = await fetch(
-    `https://graph.microsoft.com/v1.0/users/${encodeURIComponent(email)}`,
+    `${GRAPH_API_BASE_URL}/users/${encodeURIComponent(email)}`,
     {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
@@ -125,7 +161,7 @@ async function createOnlineMeeting(accessToken: string, meetingRequest: MeetingR
   console.log('Online meeting request body:', JSON.stringify(meetingBody, null, 2));
 
   const meetingResponse = await fetch(
-    `https://graph.microsoft.com/v1.0/users/${organizerUserId}/onlineMeetings`,
+    `${GRAPH_API_BASE_URL}/users/${organizerUserId}/onlineMeetings`,
     {
       method: 'POST',
       headers: {
@@ -216,7 +252,7 @@ async function createCalendarEvent(
   console.log('Calendar event request body:', JSON.stringify(eventBody, null, 2));
 
   const eventResponse = await fetch(
-    `https://graph.microsoft.com/v1.0/users/${organizerUserId}/events`,
+    `${GRAPH_API_BASE_URL}/users/${organizerUserId}/events`,
     {
       method: 'POST',
       headers: {
@@ -253,6 +289,61 @@ async function createCalendarEvent(
   };
 }
 
+// Graph returns schedule times without an offset in the zone asked for, UTC here
+const toUtcIso = (dateTime: string): string =>
+  new Date(/[zZ]|[+-]\d{2}:\d{2}$/.test(dateTime) ? dateTime : `${dateTime}Z`).toISOString();
+
+// Free/busy of each calendar between two instants, read through the organizer's mailbox
+async function getSchedule(
+  accessToken: string,
+  organizerEmail: string,
+  request: ScheduleRequest
+): Promise<ScheduleResult[]> {
+  const scheduleResponse = await fetch(
+    `${GRAPH_API_BASE_URL}/users/${encodeURIComponent(organizerEmail)}/calendar/getSchedule`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'Prefer': 'outlook.timezone="UTC"',
+      },
+      body: JSON.stringify({
+        schedules: request.schedules,
+        startTime: { dateTime: request.startTime.replace(/Z$/, ''), timeZone: 'UTC' },
+        endTime: { dateTime: request.endTime.replace(/Z$/, ''), timeZone: 'UTC' },
+        availabilityViewInterval: request.intervalMinutes || 30,
+      }),
+    }
+  );
+
+  const scheduleData = await scheduleResponse.json();
+
+  if (!scheduleResponse.ok) {
+    console.error('Graph API error reading schedules:', scheduleData);
+
+    if (scheduleData.error?.code === 'ErrorAccessDenied' || scheduleData.error?.code === 'AuthenticationError') {
+      throw new Error(
+        'Access denied reading calendars. ' +
+        'Please ensure the Azure App has Calendars.Read permission with admin consent.'
+      );
+    }
+
+    throw new Error(scheduleData.error?.message || 'Failed to read calendar availability');
+  }
+
+  return ((scheduleData.value || []) as GraphScheduleInformation[]).map(schedule => ({
+    email: String(schedule.scheduleId || '').toLowerCase(),
+    availabilityView: schedule.availabilityView || '',
+    items: (schedule.scheduleItems || []).map(item => ({
+      status: item.status,
+      start: toUtcIso(item.start.dateTime),
+      end: toUtcIso(item.end.dateTime),
+    })),
+    error: schedule.error?.message,
+  }));
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -291,7 +382,49 @@ serve(async (req) => {
       );
     }
 
-    const { subject, attendees, startTime, endTime, timezone, description }: MeetingRequest = await req.json();
+    const body = await req.json();
+
+    // Free/busy lookup for the scheduling grid. Only colleagues in the organizer's
+    // tenant have calendars Graph can read, so other addresses are dropped.
+    if (body.action === 'get-schedule') {
+      const { schedules, startTime, endTime, intervalMinutes }: ScheduleRequest = body;
+      if (!Array.isArray(schedules) || schedules.length === 0 || !startTime || !endTime) {
+        return new Response(
+          JSON.stringify({ error: 'Missing required fields: schedules, startTime, endTime' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const organizerEmail = user.email!;
+      const domain = organizerEmail.split('@')[1]?.toLowerCase();
+      const internal = [...new Set(schedules.map(email => String(email).trim().toLowerCase()))]
+        .filter(email => email.split('@')[1] === domain)
+        .slice(0, MAX_SCHEDULES);
+
+      if (internal.length === 0) {
+        return new Response(
+          JSON.stringify({ success: true, schedules: [] }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const accessToken = await getAccessToken();
+      const results = await getSchedule(accessToken, organizerEmail, {
+        action: 'get-schedule',
+        schedules: internal,
+        startTime: new Date(startTime).toISOString(),
+        endTime: new Date(endTime).toISOString(),
+        intervalMinutes,
+      });
+
+      console.log('Schedules read:', results.length, 'for', organizerEmail);
+      return new Response(
+        JSON.stringify({ success: true, schedules: results }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { subject, attendees, startTime, endTime, timezone, description }: MeetingRequest = body;
 
     if (!subject || !attendees || !startTime || !endTime) {
       return new Response(
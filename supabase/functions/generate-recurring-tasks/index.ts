@@ -0,0 +1,48 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Scheduled pass for recurring tasks. Completing an occurrence already creates the
+// next one (generate_next_recurring_task trigger); this catches series whose latest
+// occurrence fell due without being completed.
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    console.log("Starting generate-recurring-tasks function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: created, error } = await supabase.rpc("generate_due_recurring_tasks");
+
+    if (error) {
+      console.error("Error generating recurring tasks:", error);
+      throw new Error(error.message);
+    }
+
+    console.log(`Recurring task pass complete: ${created ?? 0} occurrences created`);
+
+    return new Response(
+      JSON.stringify({ success: true, occurrencesCreated: created ?? 0 }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in generate-recurring-tasks:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,278 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// A recipient is tried this many times before it is marked failed
+const MAX_ATTEMPTS = 3;
+// Retry delay doubles after each failure: 1, 2, 4... minutes
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const THROTTLE_WINDOW_MS = 60 * 1000;
+
+interface EmailCampaign {
+  id: string;
+  name: string;
+  subject: string;
+  body: string | null;
+  sender_email: string;
+  status: string;
+  throttle_per_minute: number;
+  created_by: string | null;
+  started_at: string | null;
+}
+
+interface CampaignRecipient {
+  id: string;
+  recipient_type: string;
+  recipient_id: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  attempts: number;
+}
+
+interface CampaignRunResult {
+  campaignId: string;
+  sent: number;
+  retrying: number;
+  failed: number;
+  status: string;
+}
+
+const replaceVariables = (text: string, recipient: CampaignRecipient) => {
+  return text
+    .replace(/\{\{contact_name\}\}/g, recipient.recipient_name || "")
+    .replace(/\{\{name\}\}/g, recipient.recipient_name || "");
+};
+
+// Sends through send-email so tracking and the single email_history row stay in one place
+const sendToRecipient = async (
+  campaign: EmailCampaign,
+  recipient: CampaignRecipient,
+): Promise<string> => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${supabaseServiceKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      to: recipient.recipient_email,
+      toName: recipient.recipient_name || recipient.recipient_email,
+      subject: replaceVariables(campaign.subject, recipient),
+      body: replaceVariables(campaign.body || "", recipient),
+      from: campaign.sender_email,
+      entityType: recipient.recipient_type,
+      entityId: recipient.recipient_id,
+      sentBy: campaign.created_by,
+    }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.emailId) {
+    throw new Error(result.error || `send-email returned ${response.status}`);
+  }
+  return result.emailId as string;
+};
+
+const getCampaignStatus = async (supabase: SupabaseClient, campaignId: string): Promise<string | null> => {
+  const { data } = await supabase.from("email_campaigns").select("status").eq("id", campaignId).single();
+  return data?.status ?? null;
+};
+
+const finishCampaignIfDone = async (supabase: SupabaseClient, campaign: EmailCampaign): Promise<boolean> => {
+  const { count } = await supabase
+    .from("email_campaign_recipients")
+    .select("id", { count: "exact", head: true })
+    .eq("campaign_id", campaign.id)
+    .in("status", ["pending", "sending"]);
+
+  if ((count ?? 0) > 0) return false;
+
+  const { data: finished } = await supabase
+    .from("email_campaigns")
+    .update({ status: "completed", completed_at: new Date().toISOString() })
+    .eq("id", campaign.id)
+    .eq("status", "sending")
+    .select("id");
+
+  if (!finished || finished.length === 0 || !campaign.created_by) return true;
+
+  const { data: recipients } = await supabase
+    .from("email_campaign_recipients")
+    .select("status")
+    .eq("campaign_id", campaign.id);
+
+  const sent = (recipients || []).filter(r => r.status === "sent").length;
+  const failed = (recipients || []).filter(r => r.status === "failed").length;
+
+  await supabase.from("notifications").insert({
+    user_id: campaign.created_by,
+    message: `Campaign "${campaign.name}" finished: ${sent} sent${failed > 0 ? `, ${failed} failed` : ""}`,
+    notification_type: "campaign_completed",
+    status: "unread",
+  });
+
+  return true;
+};
+
+const runCampaign = async (supabase: SupabaseClient, campaign: EmailCampaign): Promise<CampaignRunResult> => {
+  const result: CampaignRunResult = { campaignId: campaign.id, sent: 0, retrying: 0, failed: 0, status: campaign.status };
+
+  // Per-minute throttle: attempts already made in the last minute count against this run
+  const { count: recentAttempts } = await supabase
+    .from("email_campaign_recipients")
+    .select("id", { count: "exact", head: true })
+    .eq("campaign_id", campaign.id)
+    .gte("last_attempt_at", new Date(Date.now() - THROTTLE_WINDOW_MS).toISOString());
+
+  const allowance = campaign.throttle_per_minute - (recentAttempts ?? 0);
+  if (allowance <= 0) {
+    console.log(`Campaign ${campaign.id} is at its limit of ${campaign.throttle_per_minute}/min`);
+    return result;
+  }
+
+  const { data: claimed, error: claimError } = await supabase.rpc("claim_email_campaign_batch", {
+    p_campaign_id: campaign.id,
+    p_limit: allowance,
+  });
+  if (claimError) throw new Error(claimError.message);
+
+  const batch = (claimed || []) as CampaignRecipient[];
+
+  if (batch.length > 0 && campaign.status === "queued") {
+    await supabase
+      .from("email_campaigns")
+      .update({ status: "sending", started_at: campaign.started_at || new Date().toISOString() })
+      .eq("id", campaign.id)
+      .eq("status", "queued");
+    campaign.status = "sending";
+  }
+
+  for (let i = 0; i < batch.length; i++) {
+    const recipient = batch[i];
+
+    // Pausing or cancelling takes effect between sends; hand unsent claims back
+    const status = await getCampaignStatus(supabase, campaign.id);
+    if (status !== "sending") {
+      const remaining = batch.slice(i).map(r => r.id);
+      await supabase
+        .from("email_campaign_recipients")
+        .update({ status: status === "cancelled" ? "cancelled" : "pending", last_attempt_at: null })
+        .in("id", remaining);
+      console.log(`Campaign ${campaign.id} is ${status}; released ${remaining.length} recipient(s)`);
+      result.status = status || result.status;
+      return result;
+    }
+
+    const attempts = recipient.attempts + 1;
+    try {
+      const emailHistoryId = await sendToRecipient(campaign, recipient);
+      await supabase
+        .from("email_campaign_recipients")
+        .update({
+          status: "sent",
+          attempts,
+          email_history_id: emailHistoryId,
+          sent_at: new Date().toISOString(),
+          last_error: null,
+        })
+        .eq("id", recipient.id);
+      result.sent++;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const giveUp = attempts >= MAX_ATTEMPTS;
+      console.error(`Campaign ${campaign.id}: send to ${recipient.recipient_email} failed (attempt ${attempts}):`, errorMessage);
+
+      await supabase
+        .from("email_campaign_recipients")
+        .update({
+          status: giveUp ? "failed" : "pending",
+          attempts,
+          last_error: errorMessage,
+          next_attempt_at: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)).toISOString(),
+        })
+        .eq("id", recipient.id);
+
+      if (giveUp) {
+        result.failed++;
+      } else {
+        result.retrying++;
+      }
+    }
+  }
+
+  if (campaign.status === "sending" && await finishCampaignIfDone(supabase, campaign)) {
+    result.status = "completed";
+  }
+
+  return result;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    console.log("Starting process-email-campaigns function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The browser kicks a new campaign so it starts without waiting for the next cron tick
+    const { campaignId } = await req.json().catch(() => ({}));
+
+    let query = supabase
+      .from("email_campaigns")
+      .select("id, name, subject, body, sender_email, status, throttle_per_minute, created_by, started_at")
+      .in("status", ["queued", "sending"])
+      .order("created_at", { ascending: true });
+    if (campaignId) {
+      query = query.eq("id", campaignId);
+    }
+
+    const { data: campaigns, error: campaignsError } = await query;
+
+    if (campaignsError) {
+      console.error("Error fetching campaigns:", campaignsError);
+      throw new Error(campaignsError.message);
+    }
+
+    const results: CampaignRunResult[] = [];
+
+    for (const campaign of (campaigns || []) as EmailCampaign[]) {
+      try {
+        results.push(await runCampaign(supabase, campaign));
+      } catch (error: unknown) {
+        console.error(`Error processing campaign ${campaign.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log(
+      `Campaign processing complete: ${results.length} campaign(s), ` +
+      `${results.reduce((n, r) => n + r.sent, 0)} sent, ${results.reduce((n, r) => n + r.failed, 0)} failed`
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, campaignsProcessed: results.length, results }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in process-email-campaigns:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,48 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Scheduled pass for record scores. Record and activity changes already rescore
+// through triggers; this keeps recency and decay rules current for records nobody
+// has touched since they were last scored.
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    console.log("Starting recompute-record-scores function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: rescored, error } = await supabase.rpc("recompute_stale_record_scores");
+
+    if (error) {
+      console.error("Error recomputing record scores:", error);
+      throw new Error(error.message);
+    }
+
+    console.log(`Score pass complete: ${rescored ?? 0} records rescored`);
+
+    return new Response(
+      JSON.stringify({ success: true, recordsRescored: rescored ?? 0 }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in recompute-record-scores:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
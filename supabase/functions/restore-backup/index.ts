@@ -1,10 +1,270 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+type BackupRow = Record<string, unknown>;
+type ConflictPolicy = 'skip' | 'overwrite' | 'merge';
+type RecordStatus = 'new' | 'changed' | 'unchanged';
+
+interface BackupTableManifest {
+  name: string;
+  row_count: number;
+  primary_key?: string;
+  columns?: string[];
+}
+
+interface BackupManifest {
+  version: string;
+  schema_version?: number;
+  tables: BackupTableManifest[];
+  total_records: number;
+  include_audit_logs: boolean;
+}
+
+interface RestoreRequest {
+  backupId: string;
+  // 'preview' diffs the backup against live data without writing anything
+  mode?: 'preview' | 'restore';
+  dryRun?: boolean;
+  // Restrict the restore to these tables; defaults to every table in the backup
+  tables?: string[];
+  // Restrict a table to these record ids
+  records?: Record<string, string[]>;
+  conflictPolicy?: Record<string, ConflictPolicy>;
+}
+
+interface TableDiff {
+  table: string;
+  backup_count: number;
+  live_count: number;
+  new_count: number;
+  changed_count: number;
+  unchanged_count: number;
+  // Live records the backup doesn't contain - restore never deletes them
+  live_only_count: number;
+  missing_columns: string[];
+  records: { id: string; status: RecordStatus; label: string }[];
+  records_truncated: boolean;
+  error?: string;
+}
+
+interface TableResult {
+  table: string;
+  policy: ConflictPolicy;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  errors: string[];
+}
+
+const CURRENT_SCHEMA_VERSION = 2;
+const PAGE_SIZE = 1000;
+const BATCH_SIZE = 100;
+const MAX_PREVIEW_RECORDS = 200;
+const DEFAULT_POLICY: ConflictPolicy = 'overwrite';
+
+// Version 1.0 backups carry no table order, so replay them in the order they were written
+const LEGACY_RESTORE_ORDER = [
+  'profiles',
+  'user_roles',
+  'user_preferences',
+  'dashboard_preferences',
+  'accounts',
+  'contacts',
+  'leads',
+  'deals',
+  'deal_action_items',
+  'lead_action_items',
+  'notifications',
+  'saved_filters',
+  'yearly_revenue_targets',
+  'page_permissions',
+  'security_audit_log',
+];
+
+// Tables whose rows reference other rows of the same table
+const SELF_REFERENCES: Record<string, string> = {
+  tasks: 'parent_task_id',
+  teams: 'parent_team_id',
+};
+
+// Fields tried in order for a readable record label in the preview
+const LABEL_FIELDS = [
+  'title', 'subject', 'deal_name', 'lead_name', 'contact_name', 'company_name', 'full_name',
+  'stage_name', 'status_name', 'name', 'template_name', 'field_label', 'file_name', 'message',
+];
+
+const fetchAllRows = async (supabase: SupabaseClient, tableName: string, primaryKey = 'id'): Promise<BackupRow[]> => {
+  const rows: BackupRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(tableName)
+      .select('*')
+      .order(primaryKey, { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const getRestoreOrder = (manifest: BackupManifest, backupData: Record<string, BackupRow[]>): string[] => {
+  if ((manifest.schema_version || 1) >= 2) {
+    return manifest.tables.map(t => t.name).filter(name => backupData[name]);
+  }
+  return LEGACY_RESTORE_ORDER.filter(name => backupData[name]);
+};
+
+const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const entries = Object.keys(value as BackupRow).sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify((value as BackupRow)[key])}`);
+  return `{${entries.join(',')}}`;
+};
+
+// Only the columns the backup row knows about are compared, so new live columns don't count as changes
+const isSameRecord = (backupRow: BackupRow, liveRow: BackupRow, liveColumns: Set<string>) =>
+  Object.keys(backupRow)
+    .filter(key => liveColumns.has(key))
+    .every(key => stableStringify(backupRow[key]) === stableStringify(liveRow[key]));
+
+const getRecordLabel = (row: BackupRow, primaryKey: string): string => {
+  const field = LABEL_FIELDS.find(f => typeof row[f] === 'string' && row[f]);
+  const label = field ? String(row[field]) : String(row[primaryKey]);
+  return label.length > 80 ? `${label.slice(0, 77)}...` : label;
+};
+
+const getLiveColumns = (backupRows: BackupRow[], liveRows: BackupRow[], manifestColumns?: string[]) => {
+  // With no live rows there's nothing to compare against, so trust the backup's columns
+  if (liveRows.length === 0) {
+    return new Set(manifestColumns?.length ? manifestColumns : backupRows.flatMap(row => Object.keys(row)));
+  }
+  return new Set(Object.keys(liveRows[0]));
+};
+
+const selectRecords = (rows: BackupRow[], ids?: string[], primaryKey = 'id') => {
+  if (!ids) return rows;
+  const wanted = new Set(ids);
+  return rows.filter(row => wanted.has(String(row[primaryKey])));
+};
+
+// Parents first so self-referencing rows never point at a row that isn't there yet
+const sortSelfReferences = (tableName: string, rows: BackupRow[]) => {
+  const parentColumn = SELF_REFERENCES[tableName];
+  if (!parentColumn) return rows;
+  return [...rows].sort((a, b) => Number(!!a[parentColumn]) - Number(!!b[parentColumn]));
+};
+
+const diffTable = (
+  tableName: string,
+  backupRows: BackupRow[],
+  liveRows: BackupRow[],
+  manifestColumns?: string[],
+  primaryKey = 'id'
+): TableDiff => {
+  const liveById = new Map(liveRows.map(row => [String(row[primaryKey]), row]));
+  const backupIds = new Set(backupRows.map(row => String(row[primaryKey])));
+  const liveColumns = getLiveColumns(backupRows, liveRows, manifestColumns);
+
+  const diff: TableDiff = {
+    table: tableName,
+    backup_count: backupRows.length,
+    live_count: liveRows.length,
+    new_count: 0,
+    changed_count: 0,
+    unchanged_count: 0,
+    live_only_count: liveRows.filter(row => !backupIds.has(String(row[primaryKey]))).length,
+    missing_columns: [...new Set(backupRows.flatMap(row => Object.keys(row)))].filter(col => !liveColumns.has(col)),
+    records: [],
+    records_truncated: false,
+  };
+
+  backupRows.forEach(row => {
+    const live = liveById.get(String(row[primaryKey]));
+    const status: RecordStatus = !live ? 'new' : isSameRecord(row, live, liveColumns) ? 'unchanged' : 'changed';
+    diff[`${status}_count` as const]++;
+
+    if (status === 'unchanged') return;
+    if (diff.records.length < MAX_PREVIEW_RECORDS) {
+      diff.records.push({ id: String(row[primaryKey]), status, label: getRecordLabel(row, primaryKey) });
+    } else {
+      diff.records_truncated = true;
+    }
+  });
+
+  return diff;
+};
+
+// Build the rows to write for one table under its conflict policy
+const planTableRestore = (
+  backupRows: BackupRow[],
+  liveRows: BackupRow[],
+  policy: ConflictPolicy,
+  liveColumns: Set<string>,
+  primaryKey = 'id'
+) => {
+  const liveById = new Map(liveRows.map(row => [String(row[primaryKey]), row]));
+  const inserts: BackupRow[] = [];
+  const updates: BackupRow[] = [];
+  let skipped = 0;
+
+  backupRows.forEach(backupRow => {
+    // Columns dropped from the live schema since the backup can't be written back
+    const row = Object.fromEntries(Object.entries(backupRow).filter(([key]) => liveColumns.has(key)));
+    const live = liveById.get(String(row[primaryKey]));
+
+    if (!live) {
+      inserts.push(row);
+    } else if (policy === 'skip' || isSameRecord(row, live, liveColumns)) {
+      skipped++;
+    } else if (policy === 'overwrite') {
+      updates.push(row);
+    } else {
+      // merge: live values win, the backup only fills fields that are empty now
+      const merged = { ...live };
+      Object.entries(row).forEach(([key, value]) => {
+        if (merged[key] === null || merged[key] === undefined || merged[key] === '') merged[key] = value;
+      });
+      if (isSameRecord(merged, live, liveColumns)) {
+        skipped++;
+      } else {
+        updates.push(merged);
+      }
+    }
+  });
+
+  return { inserts, updates, skipped };
+};
+
+const writeBatches = async (
+  supabase: SupabaseClient,
+  tableName: string,
+  rows: BackupRow[],
+  errors: string[],
+  primaryKey = 'id'
+) => {
+  let written = 0;
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    const { error } = await supabase
+      .from(tableName)
+      .upsert(batch, { onConflict: primaryKey, ignoreDuplicates: false });
+
+    if (error) {
+      console.warn(`Warning writing ${tableName}:`, error.message);
+      errors.push(error.message);
+    } else {
+      written += batch.length;
+    }
+  }
+  return written;
+};
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -13,7 +273,7 @@ Deno.serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    
+
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
       throw new Error('Missing authorization header');
@@ -21,7 +281,12 @@ Deno.serve(async (req) => {
 
     // Create admin client for restore operations
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
-    
+
+    // Writes through this client skip assignment rules and owner history (is_backup_restore())
+    const supabaseRestore = createClient(supabaseUrl, supabaseServiceKey, {
+      global: { headers: { 'x-backup-restore': 'true' } }
+    });
+
     // Create user client for auth check
     const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
       global: { headers: { Authorization: authHeader } }
@@ -45,12 +310,20 @@ Deno.serve(async (req) => {
       throw new Error('Only admins can restore backups');
     }
 
-    const { backupId } = await req.json();
+    const {
+      backupId,
+      mode = 'restore',
+      dryRun = false,
+      tables: selectedTables,
+      records: selectedRecords = {},
+      conflictPolicy = {},
+    }: RestoreRequest = await req.json();
+
     if (!backupId) {
       throw new Error('Backup ID is required');
     }
 
-    console.log('Starting restore for backup:', backupId, 'by user:', user.email);
+    console.log(`Starting ${mode}${dryRun ? ' (dry run)' : ''} for backup:`, backupId, 'by user:', user.email);
 
     // Get backup metadata
     const { data: backup, error: backupError } = await supabaseAdmin
@@ -73,144 +346,148 @@ Deno.serve(async (req) => {
     }
 
     const backupContent = JSON.parse(await fileData.text());
-    const { manifest, data: backupData } = backupContent;
-
-    console.log('Restore manifest:', manifest);
+    const { manifest, data: backupData } = backupContent as { manifest: BackupManifest; data: Record<string, BackupRow[]> };
 
     // Validate manifest
     if (!manifest || !manifest.version || !backupData) {
       throw new Error('Invalid backup file format');
     }
 
-    // Log restore start
-    await supabaseAdmin.rpc('log_security_event', {
-      p_action: 'RESTORE_STARTED',
-      p_resource_type: 'backup',
-      p_resource_id: backupId,
-      p_details: {
-        backup_file: backup.file_name,
-        tables_count: manifest.tables.length,
-        records_count: manifest.total_records,
+    const schemaVersion = manifest.schema_version || 1;
+    if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+      throw new Error(`Backup schema version ${schemaVersion} is newer than this system supports (${CURRENT_SCHEMA_VERSION})`);
+    }
+
+    const manifestColumns = new Map(manifest.tables.map(t => [t.name, t.columns]));
+    const primaryKeys = new Map(manifest.tables.map(t => [t.name, t.primary_key || 'id']));
+    const restoreOrder = getRestoreOrder(manifest, backupData)
+      .filter(name => !selectedTables || selectedTables.includes(name));
+
+    if (mode === 'preview') {
+      const diffs: TableDiff[] = [];
+      for (const tableName of restoreOrder) {
+        const backupRows = backupData[tableName];
+        try {
+          const primaryKey = primaryKeys.get(tableName);
+          const liveRows = await fetchAllRows(supabaseAdmin, tableName, primaryKey);
+          diffs.push(diffTable(tableName, backupRows, liveRows, manifestColumns.get(tableName), primaryKey));
+        } catch (err) {
+          diffs.push({
+            ...diffTable(tableName, backupRows, [], manifestColumns.get(tableName), primaryKeys.get(tableName)),
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
       }
-    });
 
-    // Tables to restore in order (respecting foreign key constraints)
-    const restoreOrder = [
-      'profiles',
-      'user_roles',
-      'user_preferences',
-      'dashboard_preferences',
-      'accounts',
-      'contacts',
-      'leads',
-      'deals',
-      'deal_action_items',
-      'lead_action_items',
-      'notifications',
-      'saved_filters',
-      'yearly_revenue_targets',
-      'page_permissions',
-    ];
-
-    // Optional: include audit logs if they were in the backup
-    if (manifest.include_audit_logs && backupData['security_audit_log']) {
-      restoreOrder.push('security_audit_log');
+      return new Response(
+        JSON.stringify({
+          success: true,
+          backup: { id: backup.id, file_name: backup.file_name, created_at: backup.created_at },
+          schema_version: schemaVersion,
+          current_schema_version: CURRENT_SCHEMA_VERSION,
+          tables: diffs,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      );
+    }
+
+    if (!dryRun) {
+      // Log restore start
+      await supabaseAdmin.rpc('log_security_event', {
+        p_action: 'RESTORE_STARTED',
+        p_resource_type: 'backup',
+        p_resource_id: backupId,
+        p_details: {
+          backup_file: backup.file_name,
+          tables: restoreOrder,
+          selective_records: Object.keys(selectedRecords),
+          conflict_policy: conflictPolicy,
+        }
+      });
     }
 
-    const errors: string[] = [];
-    const restoredTables: string[] = [];
+    const results: TableResult[] = [];
 
-    // Restore each table
     for (const tableName of restoreOrder) {
-      if (!backupData[tableName]) {
-        console.log(`Skipping ${tableName} - not in backup`);
-        continue;
-      }
+      const policy = conflictPolicy[tableName] || DEFAULT_POLICY;
+      const result: TableResult = { table: tableName, policy, inserted: 0, updated: 0, skipped: 0, errors: [] };
+      results.push(result);
 
       try {
-        const records = backupData[tableName];
-        
-        if (records.length === 0) {
-          console.log(`Skipping ${tableName} - no records`);
-          restoredTables.push(tableName);
-          continue;
-        }
+        const primaryKey = primaryKeys.get(tableName);
+        const backupRows = sortSelfReferences(
+          tableName,
+          selectRecords(backupData[tableName], selectedRecords[tableName], primaryKey)
+        );
+        if (backupRows.length === 0) continue;
 
-        // Delete existing data first (for non-critical tables)
-        // Skip deletion for profiles and user_roles to preserve current users
-        if (!['profiles', 'user_roles'].includes(tableName)) {
-          const { error: deleteError } = await supabaseAdmin
-            .from(tableName)
-            .delete()
-            .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all
-
-          if (deleteError) {
-            console.warn(`Warning deleting ${tableName}:`, deleteError.message);
-          }
-        }
+        const liveRows = await fetchAllRows(supabaseAdmin, tableName, primaryKey);
+        const liveColumns = getLiveColumns(backupRows, liveRows, manifestColumns.get(tableName));
+        const { inserts, updates, skipped } = planTableRestore(backupRows, liveRows, policy, liveColumns, primaryKey);
+        result.skipped = skipped;
 
-        // Insert backup data in batches
-        const batchSize = 100;
-        for (let i = 0; i < records.length; i += batchSize) {
-          const batch = records.slice(i, i + batchSize);
-          
-          const { error: insertError } = await supabaseAdmin
-            .from(tableName)
-            .upsert(batch, { 
-              onConflict: 'id',
-              ignoreDuplicates: false 
-            });
-
-          if (insertError) {
-            console.warn(`Warning inserting ${tableName}:`, insertError.message);
-            errors.push(`${tableName}: ${insertError.message}`);
-          }
+        if (dryRun) {
+          result.inserted = inserts.length;
+          result.updated = updates.length;
+          continue;
         }
 
-        restoredTables.push(tableName);
-        console.log(`Restored ${tableName}: ${records.length} records`);
-      } catch (err: any) {
+        result.inserted = await writeBatches(supabaseRestore, tableName, inserts, result.errors, primaryKey);
+        result.updated = await writeBatches(supabaseRestore, tableName, updates, result.errors, primaryKey);
+        console.log(`Restored ${tableName}: ${result.inserted} inserted, ${result.updated} updated, ${result.skipped} skipped`);
+      } catch (err) {
         console.error(`Error restoring ${tableName}:`, err);
-        errors.push(`${tableName}: ${err.message}`);
+        result.errors.push(err instanceof Error ? err.message : String(err));
       }
     }
 
-    // Log restore completion
-    await supabaseAdmin.rpc('log_security_event', {
-      p_action: 'RESTORE_COMPLETED',
-      p_resource_type: 'backup',
-      p_resource_id: backupId,
-      p_details: {
-        backup_file: backup.file_name,
-        restored_tables: restoredTables,
-        errors: errors,
-        success: errors.length === 0,
-      }
-    });
+    const errors = results.flatMap(r => r.errors.map(e => `${r.table}: ${e}`));
+
+    if (!dryRun) {
+      // Log restore completion
+      await supabaseAdmin.rpc('log_security_event', {
+        p_action: 'RESTORE_COMPLETED',
+        p_resource_type: 'backup',
+        p_resource_id: backupId,
+        p_details: {
+          backup_file: backup.file_name,
+          restored_tables: results.filter(r => r.errors.length === 0).map(r => r.table),
+          inserted: results.reduce((sum, r) => sum + r.inserted, 0),
+          updated: results.reduce((sum, r) => sum + r.updated, 0),
+          errors: errors,
+          success: errors.length === 0,
+        }
+      });
+    }
 
-    console.log('Restore completed with', errors.length, 'errors');
+    console.log(`${dryRun ? 'Dry run' : 'Restore'} completed with`, errors.length, 'errors');
 
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         success: errors.length === 0,
-        restored_tables: restoredTables,
+        dry_run: dryRun,
+        results,
+        restored_tables: results.filter(r => r.errors.length === 0).map(r => r.table),
         errors: errors,
-        message: errors.length === 0 
-          ? 'Restore completed successfully' 
-          : `Restore completed with ${errors.length} errors`
+        message: dryRun
+          ? 'Dry run completed - no data was changed'
+          : errors.length === 0
+            ? 'Restore completed successfully'
+            : `Restore completed with ${errors.length} errors`
       }),
-      { 
+      {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200 
+        status: 200
       }
     );
-  } catch (error: any) {
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
     console.error('Restore error:', error);
     return new Response(
-      JSON.stringify({ error: error.message }),
-      { 
+      JSON.stringify({ error: message }),
+      {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: error.message === 'Unauthorized' ? 401 : 500 
+        status: message === 'Unauthorized' ? 401 : 500
       }
     );
   }
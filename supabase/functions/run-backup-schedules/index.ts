@@ -0,0 +1,398 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Azure Graph API email functions (same as send-email)
+async function getAccessToken(): Promise<string> {
+  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID");
+  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID");
+  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET");
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error("Azure email credentials not configured");
+  }
+
+  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
+  const params = new URLSearchParams({
+    client_id: clientId,
+    client_secret: clientSecret,
+    scope: "https://graph.microsoft.com/.default",
+    grant_type: "client_credentials",
+  });
+
+  const response = await fetch(tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Azure token error:", errorText);
+    throw new Error(`Failed to get Azure access token: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+async function sendEmailViaGraph(
+  accessToken: string,
+  to: string[],
+  subject: string,
+  body: string,
+  from: string
+): Promise<void> {
+  const graphUrl = `https://graph.microsoft.com/v1.0/users/${from}/sendMail`;
+
+  const emailPayload = {
+    message: {
+      subject,
+      body: {
+        contentType: "HTML",
+        content: body,
+      },
+      toRecipients: to.map(address => ({ emailAddress: { address } })),
+    },
+    saveToSentItems: false,
+  };
+
+  const response = await fetch(graphUrl, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(emailPayload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Graph API error:", errorText);
+    throw new Error(`Failed to send email via Graph API: ${response.status}`);
+  }
+}
+
+interface BackupSchedule {
+  id: string;
+  frequency: string;
+  timezone: string;
+  include_audit_logs: boolean;
+  keep_daily: number;
+  keep_weekly: number;
+  keep_monthly: number;
+  next_run_at: string | null;
+}
+
+interface ScheduledBackup {
+  id: string;
+  file_path: string;
+  created_at: string;
+}
+
+interface RunResult {
+  scheduleId: string;
+  status: "success" | "failed";
+  backupId?: string;
+  pruned?: number;
+  error?: string;
+}
+
+const getLocalParts = (iso: string, timezone: string) => {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(new Date(iso));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get("year"), month: get("month"), day: get("day") };
+};
+
+// Retention buckets in the schedule's timezone: calendar day, ISO week and month
+const getRetentionBuckets = (iso: string, timezone: string) => {
+  const { year, month, day } = getLocalParts(iso, timezone);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // ISO week: the Thursday of the week decides its year
+  const thursday = new Date(date);
+  thursday.setUTCDate(date.getUTCDate() + 3 - ((date.getUTCDay() + 6) % 7));
+  const firstThursday = new Date(Date.UTC(thursday.getUTCFullYear(), 0, 4));
+  const week = 1 + Math.round(((thursday.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getUTCDay() + 6) % 7)) / 7);
+
+  return {
+    daily: `${year}-${month}-${day}`,
+    weekly: `${thursday.getUTCFullYear()}-W${week}`,
+    monthly: `${year}-${month}`,
+  };
+};
+
+/**
+ * Grandfather-father-son retention: keep the newest backup of each of the last
+ * keep_daily days, keep_weekly weeks and keep_monthly months. The newest backup
+ * is always kept so a schedule never prunes itself down to nothing.
+ */
+const selectBackupsToPrune = (backups: ScheduledBackup[], schedule: BackupSchedule): ScheduledBackup[] => {
+  const sorted = [...backups].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const keep = new Set<string>(sorted.slice(0, 1).map(b => b.id));
+
+  (["daily", "weekly", "monthly"] as const).forEach(period => {
+    const limit = schedule[`keep_${period}` as const] ?? 0;
+    const seen = new Set<string>();
+    for (const backup of sorted) {
+      if (seen.size >= limit) break;
+      const bucket = getRetentionBuckets(backup.created_at, schedule.timezone)[period];
+      if (seen.has(bucket)) continue;
+      seen.add(bucket);
+      keep.add(backup.id);
+    }
+  });
+
+  return sorted.filter(b => !keep.has(b.id));
+};
+
+const applyRetention = async (supabase: SupabaseClient, schedule: BackupSchedule): Promise<number> => {
+  const { data: backups, error } = await supabase
+    .from("backups")
+    .select("id, file_path, created_at")
+    .eq("schedule_id", schedule.id)
+    .eq("status", "completed");
+
+  if (error) throw new Error(`Failed to load backups for retention: ${error.message}`);
+
+  const toPrune = selectBackupsToPrune((backups || []) as ScheduledBackup[], schedule);
+  for (const backup of toPrune) {
+    await supabase.storage.from("backups").remove([backup.file_path]);
+    await supabase.from("backups").delete().eq("id", backup.id);
+  }
+
+  if (toPrune.length > 0) {
+    console.log(`Pruned ${toPrune.length} backups for schedule ${schedule.id}`);
+  }
+  return toPrune.length;
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const notifyAdminsOfFailure = async (supabase: SupabaseClient, schedule: BackupSchedule, errorMessage: string) => {
+  const { data: adminRoles } = await supabase
+    .from("user_roles")
+    .select("user_id")
+    .eq("role", "admin");
+
+  const adminIds = (adminRoles || []).map(r => r.user_id);
+  if (adminIds.length === 0) return;
+
+  const { data: profiles } = await supabase
+    .from("profiles")
+    .select('id, "Email ID"')
+    .in("id", adminIds);
+
+  const emails = (profiles || [])
+    .map(p => p["Email ID"] as string | null)
+    .filter((email): email is string => !!email);
+
+  // In-app alert as well, in case email delivery is what's broken
+  await supabase.from("notifications").insert(
+    adminIds.map(userId => ({
+      user_id: userId,
+      message: `Scheduled ${schedule.frequency} backup failed: ${errorMessage}`,
+      notification_type: "backup_failed",
+      status: "unread",
+    }))
+  );
+
+  if (emails.length === 0) return;
+
+  const sender = Deno.env.get("BACKUP_ALERT_SENDER_EMAIL") || emails[0];
+  const appUrl = Deno.env.get("APP_URL") || "https://insidesales.realthingks.com";
+  const html = `
+<div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h2 style="color: #b91c1c; margin: 0 0 16px;">⚠️ Scheduled backup failed</h2>
+  <p style="color: #374151;">The ${escapeHtml(schedule.frequency)} backup scheduled for ${escapeHtml(schedule.next_run_at || "now")} did not complete.</p>
+  <pre style="background: #fef2f2; border: 1px solid #fecaca; border-radius: 8px; padding: 12px; white-space: pre-wrap; color: #991b1b;">${escapeHtml(errorMessage)}</pre>
+  <p style="color: #374151;">The next attempt will run at the following scheduled time. You can also run it now from
+    <a href="${appUrl}/settings?tab=admin&section=backup" style="color: #2563eb;">Backup &amp; Restore settings</a>.</p>
+</div>`;
+
+  try {
+    const accessToken = await getAccessToken();
+    await sendEmailViaGraph(accessToken, emails, "Scheduled backup failed", html, sender);
+    console.log(`Backup failure alert sent to ${emails.length} admins`);
+  } catch (err) {
+    console.error("Failed to send backup failure alert:", err);
+  }
+};
+
+const runSchedule = async (
+  supabase: SupabaseClient,
+  schedule: BackupSchedule,
+  triggeredBy: string | null
+): Promise<RunResult> => {
+  const { data: run } = await supabase
+    .from("backup_schedule_runs")
+    .insert({ schedule_id: schedule.id, status: "running", triggered_by: triggeredBy })
+    .select("id")
+    .single();
+
+  try {
+    const { data, error } = await supabase.functions.invoke("create-backup", {
+      body: { scheduleId: schedule.id, includeAuditLogs: schedule.include_audit_logs },
+    });
+
+    if (error) {
+      // create-backup reports failures in its JSON body
+      const details = await error.context?.json?.().catch(() => null);
+      throw new Error(details?.error || error.message);
+    }
+    if (data?.error || !data?.backup) throw new Error(data?.error || "Backup function returned no backup");
+
+    const backup = data.backup as { id: string; records_count: number | null; size_bytes: number | null };
+    const pruned = await applyRetention(supabase, schedule);
+
+    if (run) {
+      await supabase
+        .from("backup_schedule_runs")
+        .update({
+          status: "success",
+          finished_at: new Date().toISOString(),
+          backup_id: backup.id,
+          records_count: backup.records_count,
+          size_bytes: backup.size_bytes,
+          pruned_count: pruned,
+        })
+        .eq("id", run.id);
+    }
+
+    await supabase
+      .from("backup_schedules")
+      .update({ last_run_at: new Date().toISOString(), last_status: "success", last_error: null })
+      .eq("id", schedule.id);
+
+    return { scheduleId: schedule.id, status: "success", backupId: backup.id, pruned };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    console.error(`Scheduled backup ${schedule.id} failed:`, errorMessage);
+
+    if (run) {
+      await supabase
+        .from("backup_schedule_runs")
+        .update({ status: "failed", finished_at: new Date().toISOString(), error_message: errorMessage })
+        .eq("id", run.id);
+    }
+
+    await supabase
+      .from("backup_schedules")
+      .update({ last_run_at: new Date().toISOString(), last_status: "failed", last_error: errorMessage })
+      .eq("id", schedule.id);
+
+    await notifyAdminsOfFailure(supabase, schedule, errorMessage);
+
+    return { scheduleId: schedule.id, status: "failed", error: errorMessage };
+  }
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    console.log("Starting run-backup-schedules function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { scheduleId } = await req.json().catch(() => ({}));
+    let triggeredBy: string | null = null;
+
+    // "Run now" for a single schedule is limited to admins
+    if (scheduleId) {
+      const authHeader = req.headers.get("Authorization");
+      const supabaseUser = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+        global: { headers: { Authorization: authHeader || "" } },
+      });
+      const { data: { user } } = await supabaseUser.auth.getUser();
+      if (!user) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const { data: roleData } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .single();
+
+      if (roleData?.role !== "admin") {
+        return new Response(JSON.stringify({ error: "Only admins can run backup schedules" }), {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      triggeredBy = user.id;
+    }
+
+    let query = supabase.from("backup_schedules").select("*");
+    query = scheduleId
+      ? query.eq("id", scheduleId)
+      : query.eq("is_enabled", true).lte("next_run_at", new Date().toISOString());
+
+    const { data: schedules, error: schedulesError } = await query;
+
+    if (schedulesError) {
+      console.error("Error fetching backup schedules:", schedulesError);
+      throw new Error(schedulesError.message);
+    }
+
+    const results: RunResult[] = [];
+
+    for (const schedule of (schedules || []) as BackupSchedule[]) {
+      if (!scheduleId) {
+        // Claim the run: clearing next_run_at makes the table trigger move it to the
+        // following slot, and only one concurrent pass can match the old value
+        const { data: claimed } = await supabase
+          .from("backup_schedules")
+          .update({ next_run_at: null })
+          .eq("id", schedule.id)
+          .eq("next_run_at", schedule.next_run_at)
+          .select("id");
+
+        if (!claimed || claimed.length === 0) {
+          console.log(`Schedule ${schedule.id} already claimed by another run`);
+          continue;
+        }
+      }
+
+      results.push(await runSchedule(supabase, schedule, triggeredBy));
+    }
+
+    console.log(`Backup schedules complete: ${results.length} run`);
+
+    return new Response(
+      JSON.stringify({
+        success: results.every(r => r.status === "success"),
+        schedulesRun: results.length,
+        results,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in run-backup-schedules:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,375 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Enrollments handled per invocation
+const BATCH_SIZE = 50;
+// How long a claimed enrollment is hidden from other workers
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+// A failing email step is retried hourly, then the enrollment exits as failed
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SequenceStep {
+  id: string;
+  step_order: number;
+  step_type: "email" | "wait" | "task";
+  template_id: string | null;
+  wait_days: number | null;
+  task_title: string | null;
+  task_description: string | null;
+  task_due_days: number;
+}
+
+interface Enrollment {
+  id: string;
+  sequence_id: string;
+  entity_type: "lead" | "contact";
+  entity_id: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  sender_email: string;
+  current_step: number;
+  next_run_at: string;
+  attempts: number;
+  enrolled_by: string | null;
+}
+
+interface RecipientData {
+  name: string;
+  company_name: string;
+  position: string;
+  email: string;
+}
+
+interface RunStats {
+  processed: number;
+  emailsSent: number;
+  tasksCreated: number;
+  completed: number;
+  failed: number;
+}
+
+const replaceVariables = (text: string, recipient: RecipientData) => {
+  return text
+    .replace(/\{\{contact_name\}\}/g, recipient.name)
+    .replace(/\{\{name\}\}/g, recipient.name)
+    .replace(/\{\{company_name\}\}/g, recipient.company_name)
+    .replace(/\{\{position\}\}/g, recipient.position)
+    .replace(/\{\{email\}\}/g, recipient.email);
+};
+
+const loadRecipient = async (supabase: SupabaseClient, enrollment: Enrollment): Promise<RecipientData> => {
+  const fallback = {
+    name: enrollment.recipient_name || "",
+    company_name: "",
+    position: "",
+    email: enrollment.recipient_email,
+  };
+
+  if (enrollment.entity_type === "lead") {
+    const { data } = await supabase
+      .from("leads")
+      .select("lead_name, company_name, position, email")
+      .eq("id", enrollment.entity_id)
+      .maybeSingle();
+    if (!data) return fallback;
+    return {
+      name: data.lead_name || fallback.name,
+      company_name: data.company_name || "",
+      position: data.position || "",
+      email: data.email || fallback.email,
+    };
+  }
+
+  const { data } = await supabase
+    .from("contacts")
+    .select("contact_name, company_name, position, email")
+    .eq("id", enrollment.entity_id)
+    .maybeSingle();
+  if (!data) return fallback;
+  return {
+    name: data.contact_name || fallback.name,
+    company_name: data.company_name || "",
+    position: data.position || "",
+    email: data.email || fallback.email,
+  };
+};
+
+// Sends through send-email so tracking, reply detection and email_history stay in one place
+const sendStepEmail = async (
+  supabase: SupabaseClient,
+  enrollment: Enrollment,
+  step: SequenceStep,
+): Promise<string> => {
+  if (!step.template_id) throw new Error("The email template for this step was deleted");
+
+  const { data: template, error: templateError } = await supabase
+    .from("email_templates")
+    .select("subject, body")
+    .eq("id", step.template_id)
+    .maybeSingle();
+  if (templateError) throw new Error(templateError.message);
+  if (!template) throw new Error("The email template for this step was deleted");
+
+  const recipient = await loadRecipient(supabase, enrollment);
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${supabaseServiceKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      to: recipient.email,
+      toName: recipient.name || recipient.email,
+      subject: replaceVariables(template.subject, recipient),
+      body: replaceVariables(template.body || "", recipient),
+      from: enrollment.sender_email,
+      entityType: enrollment.entity_type,
+      entityId: enrollment.entity_id,
+      sentBy: enrollment.enrolled_by,
+    }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.emailId) {
+    throw new Error(result.error || `send-email returned ${response.status}`);
+  }
+  return result.emailId as string;
+};
+
+const createStepTask = async (
+  supabase: SupabaseClient,
+  enrollment: Enrollment,
+  step: SequenceStep,
+): Promise<string> => {
+  const recipient = await loadRecipient(supabase, enrollment);
+  const dueDate = new Date(Date.now() + step.task_due_days * DAY_MS).toISOString().split("T")[0];
+
+  const { data, error } = await supabase
+    .from("tasks")
+    .insert({
+      title: replaceVariables(step.task_title || "Follow up", recipient),
+      description: step.task_description ? replaceVariables(step.task_description, recipient) : null,
+      status: "open",
+      priority: "medium",
+      due_date: dueDate,
+      assigned_to: enrollment.enrolled_by,
+      created_by: enrollment.enrolled_by,
+      lead_id: enrollment.entity_type === "lead" ? enrollment.entity_id : null,
+      contact_id: enrollment.entity_type === "contact" ? enrollment.entity_id : null,
+      module_type: enrollment.entity_type === "lead" ? "leads" : "contacts",
+    })
+    .select("id")
+    .single();
+
+  if (error) throw new Error(error.message);
+  return data.id as string;
+};
+
+// Exits, made by triggers while a step runs, win over the worker's own updates
+const updateIfActive = async (
+  supabase: SupabaseClient,
+  enrollmentId: string,
+  changes: Record<string, unknown>,
+): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from("email_sequence_enrollments")
+    .update(changes)
+    .eq("id", enrollmentId)
+    .eq("status", "active")
+    .select("id");
+  if (error) throw new Error(error.message);
+  return (data || []).length > 0;
+};
+
+const isStillActive = async (supabase: SupabaseClient, enrollmentId: string): Promise<boolean> => {
+  const { data } = await supabase
+    .from("email_sequence_enrollments")
+    .select("status")
+    .eq("id", enrollmentId)
+    .single();
+  return data?.status === "active";
+};
+
+const recordStepRun = async (
+  supabase: SupabaseClient,
+  enrollment: Enrollment,
+  step: SequenceStep,
+  refs: { email_history_id?: string; task_id?: string } = {},
+) => {
+  const { error } = await supabase.from("email_sequence_step_runs").insert({
+    enrollment_id: enrollment.id,
+    step_id: step.id,
+    step_order: step.step_order,
+    step_type: step.step_type,
+    ...refs,
+  });
+  if (error) console.error(`Error recording step run for enrollment ${enrollment.id}:`, error);
+};
+
+// Runs steps for one enrollment until it reaches a wait, fails, finishes or exits
+const runEnrollment = async (
+  supabase: SupabaseClient,
+  enrollment: Enrollment,
+  steps: SequenceStep[],
+  stats: RunStats,
+) => {
+  while (true) {
+    if (!(await isStillActive(supabase, enrollment.id))) return;
+
+    const step = steps.find(s => s.step_order === enrollment.current_step);
+    if (!step) {
+      if (await updateIfActive(supabase, enrollment.id, {
+        status: "completed",
+        finished_at: new Date().toISOString(),
+        last_error: null,
+      })) {
+        stats.completed++;
+      }
+      return;
+    }
+
+    const nextStep = step.step_order + 1;
+
+    if (step.step_type === "wait") {
+      await recordStepRun(supabase, enrollment, step);
+      await updateIfActive(supabase, enrollment.id, {
+        current_step: nextStep,
+        attempts: 0,
+        next_run_at: new Date(Date.now() + (step.wait_days || 1) * DAY_MS).toISOString(),
+      });
+      return;
+    }
+
+    try {
+      if (step.step_type === "email") {
+        const emailHistoryId = await sendStepEmail(supabase, enrollment, step);
+        await recordStepRun(supabase, enrollment, step, { email_history_id: emailHistoryId });
+        stats.emailsSent++;
+      } else {
+        const taskId = await createStepTask(supabase, enrollment, step);
+        await recordStepRun(supabase, enrollment, step, { task_id: taskId });
+        stats.tasksCreated++;
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const attempts = enrollment.attempts + 1;
+      const giveUp = attempts >= MAX_ATTEMPTS;
+      console.error(`Enrollment ${enrollment.id}: step ${step.step_order} failed (attempt ${attempts}):`, errorMessage);
+
+      await updateIfActive(supabase, enrollment.id, giveUp
+        ? { status: "exited", exit_reason: "failed", finished_at: new Date().toISOString(), attempts, last_error: errorMessage }
+        : { attempts, last_error: errorMessage, next_run_at: new Date(Date.now() + RETRY_DELAY_MS).toISOString() });
+      if (giveUp) stats.failed++;
+      return;
+    }
+
+    const advanced = await updateIfActive(supabase, enrollment.id, {
+      current_step: nextStep,
+      attempts: 0,
+      last_error: null,
+      next_run_at: new Date().toISOString(),
+    });
+    if (!advanced) return;
+
+    enrollment.current_step = nextStep;
+    enrollment.attempts = 0;
+  }
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    console.log("Starting run-email-sequences function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: due, error: dueError } = await supabase
+      .from("email_sequence_enrollments")
+      .select(`
+        id, sequence_id, entity_type, entity_id, recipient_email, recipient_name, sender_email,
+        current_step, next_run_at, attempts, enrolled_by,
+        email_sequences!inner (is_active)
+      `)
+      .eq("status", "active")
+      .eq("email_sequences.is_active", true)
+      .lte("next_run_at", new Date().toISOString())
+      .order("next_run_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (dueError) {
+      console.error("Error fetching due enrollments:", dueError);
+      throw new Error(dueError.message);
+    }
+
+    const stats: RunStats = { processed: 0, emailsSent: 0, tasksCreated: 0, completed: 0, failed: 0 };
+    const stepsBySequence = new Map<string, SequenceStep[]>();
+
+    for (const row of due || []) {
+      const { email_sequences: _sequence, ...enrollment } = row as unknown as Enrollment & { email_sequences: unknown };
+
+      // Claim by pushing next_run_at forward; a concurrent run sees it already moved and skips
+      const { data: claimed } = await supabase
+        .from("email_sequence_enrollments")
+        .update({ next_run_at: new Date(Date.now() + CLAIM_TIMEOUT_MS).toISOString() })
+        .eq("id", enrollment.id)
+        .eq("status", "active")
+        .eq("next_run_at", enrollment.next_run_at)
+        .select("id");
+
+      if (!claimed || claimed.length === 0) continue;
+
+      try {
+        if (!stepsBySequence.has(enrollment.sequence_id)) {
+          const { data: steps, error: stepsError } = await supabase
+            .from("email_sequence_steps")
+            .select("id, step_order, step_type, template_id, wait_days, task_title, task_description, task_due_days")
+            .eq("sequence_id", enrollment.sequence_id)
+            .order("step_order", { ascending: true });
+          if (stepsError) throw new Error(stepsError.message);
+          stepsBySequence.set(enrollment.sequence_id, (steps || []) as SequenceStep[]);
+        }
+
+        await runEnrollment(supabase, enrollment, stepsBySequence.get(enrollment.sequence_id)!, stats);
+        stats.processed++;
+      } catch (error: unknown) {
+        console.error(`Error processing enrollment ${enrollment.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log(
+      `Sequence run complete: ${stats.processed} enrollment(s), ${stats.emailsSent} email(s) sent, ` +
+      `${stats.tasksCreated} task(s) created, ${stats.completed} completed, ${stats.failed} failed`
+    );
+
+    return new Response(
+      JSON.stringify({ success: true, ...stats }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in run-email-sequences:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
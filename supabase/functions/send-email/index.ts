@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getLinkSigningSecret, signLink } from "../_shared/email-link-signing.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,6 +13,10 @@ interface EmailAttachment {
   contentBytes: string; // Base64 encoded
 }
 
+// Overridable so local runs can point at supabase/mocks/graph-server.ts
+const GRAPH_API_BASE_URL = Deno.env.get("GRAPH_API_BASE_URL") || "https://graph.microsoft.com/v1.0";
+const AZURE_LOGIN_BASE_URL = Deno.env.get("AZURE_LOGIN_BASE_URL") || "https://login.microsoftonline.com";
+
 interface EmailRequest {
   to: string;
   subject: string;
@@ -21,6 +26,14 @@ interface EmailRequest {
   attachments?: EmailAttachment[];
   entityType?: string; // 'lead', 'contact', 'account'
   entityId?: string;
+  sentBy?: string; // Only honoured for server-side callers using the service role key
+}
+
+// Identifiers Graph assigns to the sent message, kept for reply and bounce matching
+interface SentMessageIds {
+  graphMessageId: string;
+  conversationId: string | null;
+  internetMessageId: string | null;
 }
 
 async function getAccessToken(): Promise<string> {
@@ -33,7 +46,7 @@ async function getAccessToken(): Promise<string> {
     throw new Error("Azure email credentials not configured. Please set AZURE_EMAIL_TENANT_ID, AZURE_EMAIL_CLIENT_ID, and AZURE_EMAIL_CLIENT_SECRET.");
   }
 
-  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
+  const tokenUrl = `${AZURE_LOGIN_BASE_URL}/${tenantId}/oauth2/v2.0/token`;
 
   const params = new URLSearchParams();
   params.append("client_id", clientId);
@@ -150,8 +163,38 @@ function wrapEmailContent(htmlBody: string): string {
   return `<div style="font-family: Calibri, Arial, Helvetica, sans-serif; font-size: 11pt; line-height: 1.15; color: #000000;">${processed}</div>`;
 }
 
-async function sendEmail(accessToken: string, emailRequest: EmailRequest, emailHistoryId: string): Promise<void> {
-  const graphUrl = `https://graph.microsoft.com/v1.0/users/${emailRequest.from}/sendMail`;
+// Point every http(s) anchor at the signed click redirect; mailto:, tel: and anchors are left alone
+async function rewriteLinksForTracking(htmlBody: string, emailHistoryId: string): Promise<string> {
+  const secret = getLinkSigningSecret();
+  if (!secret) {
+    console.warn("EMAIL_TRACKING_SECRET is not set, sending links without click tracking");
+    return htmlBody;
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const anchorHref = /(<a\b[^>]*?\shref\s*=\s*)(["'])(.*?)\2/gi;
+
+  const replacements = new Map<string, string>();
+  for (const match of htmlBody.matchAll(anchorHref)) {
+    const rawHref = match[3];
+    const linkUrl = rawHref.trim().replace(/&amp;/g, "&");
+    if (!/^https?:\/\//i.test(linkUrl) || replacements.has(rawHref)) continue;
+
+    const signature = await signLink(secret, emailHistoryId, linkUrl);
+    const params = new URLSearchParams({ id: emailHistoryId, url: linkUrl, sig: signature });
+    replacements.set(rawHref, `${supabaseUrl}/functions/v1/track-email-click?${params.toString().replace(/&/g, "&amp;")}`);
+  }
+
+  if (replacements.size === 0) return htmlBody;
+
+  return htmlBody.replace(anchorHref, (match, prefix, quote, rawHref) => {
+    const trackedUrl = replacements.get(rawHref);
+    return trackedUrl ? `${prefix}${quote}${trackedUrl}${quote}` : match;
+  });
+}
+
+async function sendEmail(accessToken: string, emailRequest: EmailRequest, emailHistoryId: string): Promise<SentMessageIds> {
+  const mailboxUrl = `${GRAPH_API_BASE_URL}/users/${encodeURIComponent(emailRequest.from)}/messages`;
 
   // Build attachments array for Microsoft Graph API
   const attachments = emailRequest.attachments?.map(att => ({
@@ -165,47 +208,62 @@ async function sendEmail(accessToken: string, emailRequest: EmailRequest, emailH
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const trackingPixelUrl = `${supabaseUrl}/functions/v1/track-email-open?id=${emailHistoryId}`;
   
-  // Wrap the content with proper inline styles for email clients
-  const wrappedBody = wrapEmailContent(emailRequest.body);
+  // Wrap the content with proper inline styles for email clients, then route links through click tracking
+  const wrappedBody = await rewriteLinksForTracking(wrapEmailContent(emailRequest.body), emailHistoryId);
   
   // Embed tracking pixel in email body (append to HTML content)
   const trackingPixel = `<img src="${trackingPixelUrl}" width="1" height="1" style="display:none;" alt="" />`;
   const bodyWithTracking = wrappedBody + trackingPixel;
 
-  const emailPayload: any = {
-    message: {
-      subject: emailRequest.subject,
-      body: {
-        contentType: "HTML",
-        content: bodyWithTracking,
-      },
-      toRecipients: [
-        {
-          emailAddress: {
-            address: emailRequest.to,
-            name: emailRequest.toName || emailRequest.to,
-          },
-        },
-      ],
+  const message: Record<string, unknown> = {
+    subject: emailRequest.subject,
+    body: {
+      contentType: "HTML",
+      content: bodyWithTracking,
     },
-    saveToSentItems: true,
+    toRecipients: [
+      {
+        emailAddress: {
+          address: emailRequest.to,
+          name: emailRequest.toName || emailRequest.to,
+        },
+      },
+    ],
   };
 
   // Add attachments if present
   if (attachments.length > 0) {
-    emailPayload.message.attachments = attachments;
+    message.attachments = attachments;
     console.log(`Adding ${attachments.length} attachment(s) to email`);
   }
 
-  console.log(`Sending email to ${emailRequest.to} with open tracking...`);
+  console.log(`Sending email to ${emailRequest.to} with open and click tracking...`);
 
-  const response = await fetch(graphUrl, {
+  // sendMail returns no body, so create a draft first to learn the message's
+  // conversation and Internet message IDs, then send that draft
+  const draftResponse = await fetch(mailboxUrl, {
     method: "POST",
     headers: {
       Authorization: `Bearer ${accessToken}`,
       "Content-Type": "application/json",
     },
-    body: JSON.stringify(emailPayload),
+    body: JSON.stringify(message),
+  });
+
+  if (!draftResponse.ok) {
+    const errorText = await draftResponse.text();
+    console.error("Failed to create email draft:", errorText);
+    throw new Error(`Failed to send email: ${draftResponse.status} ${errorText}`);
+  }
+
+  const draft = await draftResponse.json();
+
+  const response = await fetch(`${mailboxUrl}/${encodeURIComponent(draft.id)}/send`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Length": "0",
+    },
   });
 
   if (!response.ok) {
@@ -214,7 +272,13 @@ async function sendEmail(accessToken: string, emailRequest: EmailRequest, emailH
     throw new Error(`Failed to send email: ${response.status} ${errorText}`);
   }
 
-  console.log("Email sent successfully with open tracking embedded");
+  console.log("Email sent successfully with open and click tracking embedded");
+
+  return {
+    graphMessageId: draft.id,
+    conversationId: draft.conversationId || null,
+    internetMessageId: draft.internetMessageId || null,
+  };
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -224,7 +288,7 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { to, subject, body, toName, from, attachments, entityType, entityId }: EmailRequest = await req.json();
+    const { to, subject, body, toName, from, attachments, entityType, entityId, sentBy }: EmailRequest = await req.json();
 
     if (!to || !subject || !from) {
       return new Response(
@@ -249,8 +313,13 @@ const handler = async (req: Request): Promise<Response> => {
     
     if (authHeader) {
       const token = authHeader.replace("Bearer ", "");
-      const { data: { user } } = await supabase.auth.getUser(token);
-      userId = user?.id || null;
+      if (token === supabaseServiceKey) {
+        // Sent on a user's behalf by another function (e.g. process-email-campaigns)
+        userId = sentBy || null;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser(token);
+        userId = user?.id || null;
+      }
     }
 
     // Create email history record first to get the ID for tracking
@@ -286,18 +355,28 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Created email history record with ID: ${emailRecord.id}`);
 
-    // Get access token from Azure AD
-    const accessToken = await getAccessToken();
-
-    // Send email via Microsoft Graph API with tracking pixel and click tracking
-    await sendEmail(accessToken, { to, subject, body, toName, from, attachments }, emailRecord.id);
+    let sentIds: SentMessageIds;
+    try {
+      // Get access token from Azure AD
+      const accessToken = await getAccessToken();
+
+      // Send email via Microsoft Graph API with tracking pixel and click tracking
+      sentIds = await sendEmail(accessToken, { to, subject, body, toName, from, attachments }, emailRecord.id);
+    } catch (sendError) {
+      // Keep the history honest: the row was written before sending
+      await supabase.from("email_history").update({ status: "failed" }).eq("id", emailRecord.id);
+      throw sendError;
+    }
 
-    // Update email history to mark as delivered
+    // Update email history to mark as delivered; sync-email-replies later moves it to replied or bounced
     await supabase
       .from("email_history")
       .update({ 
         status: "delivered",
-        delivered_at: new Date().toISOString()
+        delivered_at: new Date().toISOString(),
+        graph_message_id: sentIds.graphMessageId,
+        conversation_id: sentIds.conversationId,
+        internet_message_id: sentIds.internetMessageId,
       })
       .eq("id", emailRecord.id);
 
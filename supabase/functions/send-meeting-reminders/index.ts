@@ -0,0 +1,496 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Azure Graph API email functions (same as send-email)
+async function getAccessToken(): Promise<string> {
+  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID");
+  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID");
+  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET");
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error("Azure email credentials not configured");
+  }
+
+  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
+  const params = new URLSearchParams({
+    client_id: clientId,
+    client_secret: clientSecret,
+    scope: "https://graph.microsoft.com/.default",
+    grant_type: "client_credentials",
+  });
+
+  const response = await fetch(tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Azure token error:", errorText);
+    throw new Error(`Failed to get Azure access token: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+async function sendEmailViaGraph(
+  accessToken: string,
+  to: string,
+  toName: string,
+  subject: string,
+  body: string,
+  from: string
+): Promise<void> {
+  const graphUrl = `https://graph.microsoft.com/v1.0/users/${from}/sendMail`;
+
+  const emailPayload = {
+    message: {
+      subject,
+      body: {
+        contentType: "HTML",
+        content: body,
+      },
+      toRecipients: [
+        {
+          emailAddress: {
+            address: to,
+            name: toName || to,
+          },
+        },
+      ],
+    },
+    saveToSentItems: false,
+  };
+
+  const response = await fetch(graphUrl, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(emailPayload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Graph API error:", errorText);
+    throw new Error(`Failed to send email via Graph API: ${response.status}`);
+  }
+
+  console.log(`Email sent successfully to ${to}`);
+}
+
+type ReminderWindowKey = "1day" | "1hr" | "15min";
+
+interface ReminderWindow {
+  key: ReminderWindowKey;
+  minutes: number;
+  label: string;
+}
+
+// Ordered from the furthest window to the most imminent
+const REMINDER_WINDOWS: ReminderWindow[] = [
+  { key: "1day", minutes: 24 * 60, label: "tomorrow" },
+  { key: "1hr", minutes: 60, label: "in 1 hour" },
+  { key: "15min", minutes: 15, label: "in 15 minutes" },
+];
+
+interface Meeting {
+  id: string;
+  subject: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  join_url: string | null;
+  status: string;
+  attendees: unknown;
+  created_by: string | null;
+}
+
+interface MeetingReminder {
+  id: string;
+  meeting_id: string;
+  remind_15min: boolean;
+  remind_1hr: boolean;
+  remind_1day: boolean;
+  sent_15min: boolean;
+  sent_1hr: boolean;
+  sent_1day: boolean;
+}
+
+interface Profile {
+  id: string;
+  full_name: string | null;
+  "Email ID": string | null;
+  timezone: string | null;
+}
+
+interface NotificationPrefs {
+  user_id: string;
+  email_notifications: boolean | null;
+  in_app_notifications: boolean | null;
+  meeting_reminders: boolean | null;
+  notification_frequency: string | null;
+}
+
+const formatMeetingTime = (iso: string, timezone: string): string => {
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+    timeZoneName: "short",
+  };
+  try {
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: timezone }).format(new Date(iso));
+  } catch (err) {
+    console.error(`Invalid timezone ${timezone}, defaulting to Asia/Kolkata:`, err);
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: "Asia/Kolkata" }).format(new Date(iso));
+  }
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const generateEmailHtml = (
+  meeting: Meeting,
+  window: ReminderWindow,
+  recipientName: string,
+  timezone: string,
+  appUrl: string
+): string => {
+  const startLabel = formatMeetingTime(meeting.start_time, timezone);
+  const durationMinutes = Math.round((new Date(meeting.end_time).getTime() - new Date(meeting.start_time).getTime()) / 60000);
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Meeting Reminder</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f9fafb;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <!-- Header -->
+    <div style="background: linear-gradient(135deg, #3b82f6, #1d4ed8); padding: 32px; border-radius: 12px 12px 0 0; text-align: center;">
+      <h1 style="margin: 0; color: white; font-size: 24px; font-weight: 600;">⏰ Meeting ${window.label}</h1>
+      <p style="margin: 8px 0 0; color: rgba(255,255,255,0.9); font-size: 14px;">${escapeHtml(startLabel)}</p>
+    </div>
+
+    <!-- Content -->
+    <div style="background: white; padding: 24px; border-radius: 0 0 12px 12px; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
+      <p style="margin: 0 0 24px; color: #374151; font-size: 16px;">
+        Hi <strong>${escapeHtml(recipientName || "there")}</strong>, this is a reminder for your upcoming meeting.
+      </p>
+
+      <div style="padding: 16px; background: #f3f4f6; border-radius: 8px; border-left: 4px solid #3b82f6;">
+        <div style="font-size: 18px; font-weight: 600; color: #1f2937;">${escapeHtml(meeting.subject)}</div>
+        <div style="font-size: 14px; color: #4b5563; margin-top: 8px;">🕒 ${escapeHtml(startLabel)}${durationMinutes > 0 ? ` · ${durationMinutes} min` : ""}</div>
+        ${meeting.description ? `<div style="font-size: 13px; color: #6b7280; margin-top: 8px;">${escapeHtml(meeting.description.substring(0, 300))}${meeting.description.length > 300 ? "..." : ""}</div>` : ""}
+      </div>
+
+      <!-- CTA Buttons -->
+      <div style="text-align: center; margin-top: 24px;">
+        ${meeting.join_url ? `
+        <a href="${escapeHtml(meeting.join_url)}" style="display: inline-block; padding: 12px 32px; background: #4f46e5; color: white; text-decoration: none; border-radius: 8px; font-weight: 500; font-size: 14px; margin: 4px;">
+          Join Teams Meeting
+        </a>` : ""}
+        <a href="${appUrl}/meetings" style="display: inline-block; padding: 12px 32px; background: #3b82f6; color: white; text-decoration: none; border-radius: 8px; font-weight: 500; font-size: 14px; margin: 4px;">
+          View Meetings →
+        </a>
+      </div>
+    </div>
+
+    <!-- Footer -->
+    <div style="text-align: center; padding: 24px;">
+      <p style="margin: 0; font-size: 12px; color: #9ca3af;">
+        You're receiving this because you have meeting reminders enabled.<br>
+        <a href="${appUrl}/settings" style="color: #6b7280; text-decoration: underline;">Manage notification settings</a>
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+};
+
+const getAttendeeEmails = (attendees: unknown): string[] => {
+  if (!Array.isArray(attendees)) return [];
+  return attendees
+    .map(a => (a && typeof a === "object" ? (a as { email?: string }).email : null))
+    .filter((email): email is string => !!email)
+    .map(email => email.trim().toLowerCase());
+};
+
+/**
+ * The most imminent enabled window the meeting has entered and not yet been
+ * reminded for. Windows it has already passed through unsent (e.g. a meeting
+ * booked 30 minutes ahead) are returned as skipped so they get flagged too,
+ * instead of producing a burst of stale reminders.
+ */
+const getDueWindow = (reminder: MeetingReminder, minutesUntilStart: number) => {
+  const entered = REMINDER_WINDOWS.filter(w =>
+    minutesUntilStart <= w.minutes &&
+    reminder[`remind_${w.key}` as const] &&
+    !reminder[`sent_${w.key}` as const]
+  );
+  if (entered.length === 0) return null;
+
+  return { due: entered[entered.length - 1], flagged: entered };
+};
+
+// Meetings without a reminder row use the same defaults as MeetingReminderSettings
+const ensureReminderRow = async (supabase: SupabaseClient, meetingId: string): Promise<MeetingReminder | null> => {
+  const { data: inserted, error } = await supabase
+    .from("meeting_reminders")
+    .insert({ meeting_id: meetingId })
+    .select("*")
+    .single();
+
+  if (!error) return inserted as MeetingReminder;
+
+  // Another run created it first
+  const { data: existing } = await supabase
+    .from("meeting_reminders")
+    .select("*")
+    .eq("meeting_id", meetingId)
+    .maybeSingle();
+  return existing as MeetingReminder | null;
+};
+
+/**
+ * Flag the windows as sent before notifying anyone. The update only matches
+ * while the due window is still unsent, so overlapping runs can't both claim it.
+ */
+const claimWindows = async (
+  supabase: SupabaseClient,
+  reminder: MeetingReminder,
+  due: ReminderWindow,
+  flagged: ReminderWindow[]
+): Promise<boolean> => {
+  const updates: Record<string, boolean | string> = { updated_at: new Date().toISOString() };
+  flagged.forEach(w => { updates[`sent_${w.key}`] = true; });
+
+  const { data, error } = await supabase
+    .from("meeting_reminders")
+    .update(updates)
+    .eq("id", reminder.id)
+    .eq(`sent_${due.key}`, false)
+    .select("id");
+
+  if (error) {
+    console.error(`Failed to claim reminder ${reminder.id}:`, error);
+    return false;
+  }
+  return (data?.length || 0) > 0;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    console.log("Starting send-meeting-reminders function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+    const horizon = new Date(now.getTime() + REMINDER_WINDOWS[0].minutes * 60 * 1000);
+
+    // Meetings starting within the widest reminder window
+    const { data: meetings, error: meetingsError } = await supabase
+      .from("meetings")
+      .select("id, subject, description, start_time, end_time, join_url, status, attendees, created_by")
+      .gt("start_time", now.toISOString())
+      .lte("start_time", horizon.toISOString())
+      .not("status", "in", "(cancelled,completed)");
+
+    if (meetingsError) {
+      console.error("Error fetching meetings:", meetingsError);
+      throw meetingsError;
+    }
+
+    if (!meetings || meetings.length === 0) {
+      console.log("No upcoming meetings in any reminder window");
+      return new Response(
+        JSON.stringify({ success: true, message: "No meetings to remind", remindersSent: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: reminderRows, error: remindersError } = await supabase
+      .from("meeting_reminders")
+      .select("*")
+      .in("meeting_id", meetings.map(m => m.id));
+
+    if (remindersError) {
+      console.error("Error fetching meeting reminders:", remindersError);
+      throw remindersError;
+    }
+
+    // Profiles are matched against attendee emails to find internal attendees
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select('id, full_name, "Email ID", timezone');
+
+    if (profilesError) {
+      console.error("Error fetching profiles:", profilesError);
+      throw profilesError;
+    }
+
+    const profileById = new Map<string, Profile>();
+    const profileByEmail = new Map<string, Profile>();
+    (profiles as Profile[] || []).forEach(profile => {
+      profileById.set(profile.id, profile);
+      const email = profile["Email ID"]?.trim().toLowerCase();
+      if (email) profileByEmail.set(email, profile);
+    });
+
+    const { data: notifPrefs, error: prefsError } = await supabase
+      .from("notification_preferences")
+      .select("user_id, email_notifications, in_app_notifications, meeting_reminders, notification_frequency");
+
+    if (prefsError) {
+      console.error("Error fetching notification preferences:", prefsError);
+    }
+
+    const prefsByUser = new Map<string, NotificationPrefs>();
+    (notifPrefs as NotificationPrefs[] || []).forEach(p => prefsByUser.set(p.user_id, p));
+
+    // Use production app URL (configurable via secret)
+    const appUrl = Deno.env.get("APP_URL") || "https://insidesales.realthingks.com";
+
+    let accessToken: string | null = null;
+    const results: { meetingId: string; window?: string; notified: number; emailed: number; skipped?: string; errors?: string[] }[] = [];
+
+    for (const meeting of meetings as Meeting[]) {
+      let reminder = (reminderRows as MeetingReminder[] || []).find(r => r.meeting_id === meeting.id) || null;
+      if (!reminder) {
+        reminder = await ensureReminderRow(supabase, meeting.id);
+        if (!reminder) {
+          results.push({ meetingId: meeting.id, notified: 0, emailed: 0, skipped: "no_reminder_settings" });
+          continue;
+        }
+      }
+
+      const minutesUntilStart = (new Date(meeting.start_time).getTime() - now.getTime()) / 60000;
+      const window = getDueWindow(reminder, minutesUntilStart);
+      if (!window) continue;
+
+      if (!(await claimWindows(supabase, reminder, window.due, window.flagged))) {
+        results.push({ meetingId: meeting.id, window: window.due.key, notified: 0, emailed: 0, skipped: "already_claimed" });
+        continue;
+      }
+
+      // Organizer plus attendees who are CRM users
+      const recipientIds = new Set<string>();
+      if (meeting.created_by) recipientIds.add(meeting.created_by);
+      getAttendeeEmails(meeting.attendees).forEach(email => {
+        const profile = profileByEmail.get(email);
+        if (profile) recipientIds.add(profile.id);
+      });
+
+      const organizerEmail = meeting.created_by ? profileById.get(meeting.created_by)?.["Email ID"] : null;
+      const result = { meetingId: meeting.id, window: window.due.key, notified: 0, emailed: 0, errors: [] as string[] };
+
+      for (const userId of recipientIds) {
+        const profile = profileById.get(userId);
+        const prefs = prefsByUser.get(userId);
+
+        if (prefs?.meeting_reminders === false) {
+          console.log(`Skipping user ${userId} - meeting reminders disabled`);
+          continue;
+        }
+
+        const timezone = profile?.timezone || "Asia/Kolkata";
+        const message = `Reminder: "${meeting.subject}" starts ${window.due.label} (${formatMeetingTime(meeting.start_time, timezone)})`;
+
+        if (prefs?.in_app_notifications !== false) {
+          const { error: notifError } = await supabase
+            .from("notifications")
+            .insert({
+              user_id: userId,
+              message,
+              notification_type: "meeting_reminder",
+              status: "unread",
+              link: `/meetings?viewId=${meeting.id}`,
+            });
+
+          if (notifError) {
+            console.error(`Failed to create notification for ${userId}:`, notifError);
+            result.errors.push(`notification:${userId}`);
+          } else {
+            result.notified++;
+          }
+        }
+
+        const email = profile?.["Email ID"];
+        if (prefs?.email_notifications === false || !email) continue;
+        // Digest users get the in-app reminder above; the email waits for their digest
+        if (prefs?.notification_frequency && prefs.notification_frequency !== "instant") continue;
+
+        try {
+          accessToken = accessToken || await getAccessToken();
+          await sendEmailViaGraph(
+            accessToken,
+            email,
+            profile?.full_name || "",
+            `⏰ ${meeting.subject} starts ${window.due.label}`,
+            generateEmailHtml(meeting, window.due, profile?.full_name || "", timezone, appUrl),
+            // Sent from the organizer's mailbox, or as a self-reminder when there is none
+            organizerEmail || email
+          );
+          result.emailed++;
+        } catch (err) {
+          console.error(`Exception sending reminder to user ${userId}:`, err);
+          result.errors.push(`email:${userId}`);
+        }
+      }
+
+      results.push(result);
+    }
+
+    const notified = results.reduce((sum, r) => sum + r.notified, 0);
+    const emailed = results.reduce((sum, r) => sum + r.emailed, 0);
+
+    console.log(`Meeting reminders complete: ${notified} in-app, ${emailed} emails across ${results.length} meetings`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Sent reminders for ${results.filter(r => !r.skipped).length} meetings`,
+        notificationsCreated: notified,
+        emailsSent: emailed,
+        results,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in send-meeting-reminders:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,741 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Local hour the daily and weekly digests go out; the weekly one on Mondays
+const DIGEST_HOUR = 8;
+// Open leads untouched for this many days are listed as stale
+const STALE_LEAD_DAYS = 14;
+// Rows listed per section; the heading still shows the full count
+const SECTION_LIMIT = 10;
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Azure Graph API email functions (same as send-email)
+async function getAccessToken(): Promise<string> {
+  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID");
+  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID");
+  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET");
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error("Azure email credentials not configured");
+  }
+
+  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
+  const params = new URLSearchParams({
+    client_id: clientId,
+    client_secret: clientSecret,
+    scope: "https://graph.microsoft.com/.default",
+    grant_type: "client_credentials",
+  });
+
+  const response = await fetch(tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Azure token error:", errorText);
+    throw new Error(`Failed to get Azure access token: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+async function sendEmailViaGraph(
+  accessToken: string,
+  to: string,
+  toName: string,
+  subject: string,
+  body: string,
+  from: string
+): Promise<void> {
+  const graphUrl = `https://graph.microsoft.com/v1.0/users/${from}/sendMail`;
+
+  const response = await fetch(graphUrl, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      message: {
+        subject,
+        body: { contentType: "HTML", content: body },
+        toRecipients: [{ emailAddress: { address: to, name: toName || to } }],
+      },
+      saveToSentItems: true,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Graph API error:", errorText);
+    throw new Error(`Failed to send email via Graph API: ${response.status}`);
+  }
+}
+
+type DigestType = "hourly" | "daily" | "weekly";
+
+interface DigestRequest {
+  force?: boolean;
+  userId?: string;
+}
+
+interface NotificationPrefs {
+  user_id: string;
+  email_notifications: boolean | null;
+  lead_assigned: boolean | null;
+  deal_updates: boolean | null;
+  task_reminders: boolean | null;
+  meeting_reminders: boolean | null;
+  leads_notifications: boolean | null;
+  weekly_digest: boolean | null;
+  notification_frequency: string | null;
+}
+
+interface Profile {
+  id: string;
+  full_name: string | null;
+  "Email ID": string | null;
+  timezone: string | null;
+}
+
+interface NotificationRow {
+  user_id: string;
+  message: string;
+  notification_type: string | null;
+  created_at: string;
+}
+
+interface TaskRow {
+  title: string;
+  due_date: string | null;
+  priority: string | null;
+  assigned_to: string | null;
+}
+
+interface MeetingRow {
+  subject: string;
+  start_time: string;
+  created_by: string | null;
+}
+
+interface DealRow {
+  deal_name: string;
+  stage: string;
+  expected_closing_date: string | null;
+  total_contract_value: number | null;
+  currency_type: string | null;
+  created_by: string | null;
+  lead_owner: string | null;
+}
+
+interface LeadRow {
+  lead_name: string;
+  company_name: string | null;
+  lead_status: string | null;
+  modified_time: string | null;
+  contact_owner: string | null;
+}
+
+interface LocalClock {
+  date: string; // YYYY-MM-DD
+  hour: number;
+  weekday: number; // 0 = Sunday
+}
+
+interface DigestSection {
+  title: string;
+  total: number;
+  rows: string[];
+  link: string;
+}
+
+const DIGEST_TITLES: Record<DigestType, string> = {
+  hourly: "Hourly Update",
+  daily: "Daily Digest",
+  weekly: "Weekly Digest",
+};
+
+const PERIOD_HOURS: Record<DigestType, number> = { hourly: 1, daily: 24, weekly: 24 * 7 };
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const getLocalClock = (timezone: string, now: Date): LocalClock => {
+  const read = (tz: string) => {
+    const parts = new Intl.DateTimeFormat("en-CA", {
+      timeZone: tz,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "numeric",
+      hour12: false,
+      weekday: "short",
+    }).formatToParts(now);
+    const get = (type: string) => parts.find(p => p.type === type)?.value || "";
+    const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+    return {
+      date: `${get("year")}-${get("month")}-${get("day")}`,
+      hour: parseInt(get("hour")) % 24,
+      weekday: weekdays.indexOf(get("weekday")),
+    };
+  };
+
+  try {
+    return read(timezone);
+  } catch (err) {
+    console.error(`Invalid timezone ${timezone}, defaulting to ${DEFAULT_TIMEZONE}:`, err);
+    return read(DEFAULT_TIMEZONE);
+  }
+};
+
+const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+};
+
+// ISO week, e.g. 2026-W08, for the weekly digest's period key
+const isoWeekKey = (date: string): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day);
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+};
+
+const periodKey = (type: DigestType, clock: LocalClock): string => {
+  if (type === "hourly") return `${clock.date}T${String(clock.hour).padStart(2, "0")}`;
+  if (type === "daily") return clock.date;
+  return isoWeekKey(clock.date);
+};
+
+/**
+ * Digests due for a user on this run. Hourly users get their notifications
+ * batched every hour plus the daily agenda; daily and weekly users get one
+ * digest per period. weekly_digest adds the weekly summary to any frequency.
+ */
+const getDueDigests = (prefs: NotificationPrefs, clock: LocalClock, force: boolean): DigestType[] => {
+  const frequency = prefs.notification_frequency || "instant";
+  const atDigestHour = force || clock.hour === DIGEST_HOUR;
+  const onDigestDay = force || clock.weekday === 1;
+
+  const due: DigestType[] = [];
+  if (frequency === "hourly") due.push("hourly");
+  if (atDigestHour && (frequency === "hourly" || frequency === "daily")) due.push("daily");
+  if (atDigestHour && onDigestDay && (frequency === "weekly" || prefs.weekly_digest)) due.push("weekly");
+  return due;
+};
+
+// Leaves out notification types the user has switched off
+const wantsNotification = (prefs: NotificationPrefs, type: string | null): boolean => {
+  if (!type) return true;
+  if (type === "lead_assigned") return prefs.lead_assigned !== false;
+  if (type.startsWith("lead_")) return prefs.leads_notifications !== false;
+  if (type.startsWith("deal_")) return prefs.deal_updates !== false;
+  if (type.startsWith("task_")) return prefs.task_reminders !== false;
+  if (type.startsWith("meeting_")) return prefs.meeting_reminders !== false;
+  return true;
+};
+
+const formatDateTime = (iso: string, timezone: string): string => {
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  };
+  try {
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: timezone }).format(new Date(iso));
+  } catch {
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: DEFAULT_TIMEZONE }).format(new Date(iso));
+  }
+};
+
+const formatAmount = (deal: DealRow): string =>
+  deal.total_contract_value
+    ? ` · ${deal.currency_type || "EUR"} ${Number(deal.total_contract_value).toLocaleString("en-US", { maximumFractionDigits: 0 })}`
+    : "";
+
+const generateEmailHtml = (
+  type: DigestType,
+  recipientName: string,
+  periodLabel: string,
+  sections: DigestSection[],
+  appUrl: string
+): string => {
+  const renderSection = (section: DigestSection) => `
+      <div style="margin-bottom: 24px;">
+        <h2 style="margin: 0 0 12px; color: #1f2937; font-size: 16px; font-weight: 600;">
+          ${escapeHtml(section.title)} (${section.total})
+        </h2>
+        <table style="width: 100%; border-collapse: collapse; background: #f9fafb; border-radius: 8px;">
+          <tbody>
+            ${section.rows.map(row => `
+            <tr style="border-bottom: 1px solid #e5e7eb;">
+              <td style="padding: 10px 12px; font-size: 14px; color: #374151;">${row}</td>
+            </tr>`).join("")}
+          </tbody>
+        </table>
+        ${section.total > section.rows.length ? `
+        <p style="margin: 8px 0 0; font-size: 12px;">
+          <a href="${appUrl}${section.link}" style="color: #3b82f6;">and ${section.total - section.rows.length} more →</a>
+        </p>` : ""}
+      </div>`;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${DIGEST_TITLES[type]}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f9fafb;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <!-- Header -->
+    <div style="background: linear-gradient(135deg, #3b82f6, #1d4ed8); padding: 32px; border-radius: 12px 12px 0 0; text-align: center;">
+      <h1 style="margin: 0; color: white; font-size: 24px; font-weight: 600;">📬 ${DIGEST_TITLES[type]}</h1>
+      <p style="margin: 8px 0 0; color: rgba(255,255,255,0.9); font-size: 14px;">${escapeHtml(periodLabel)}</p>
+    </div>
+
+    <!-- Content -->
+    <div style="background: white; padding: 24px; border-radius: 0 0 12px 12px; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
+      <p style="margin: 0 0 24px; color: #374151; font-size: 16px;">
+        Hi <strong>${escapeHtml(recipientName || "there")}</strong>, here is what needs your attention.
+      </p>
+
+      ${sections.map(renderSection).join("")}
+
+      <!-- CTA Button -->
+      <div style="text-align: center; margin-top: 24px;">
+        <a href="${appUrl}/dashboard" style="display: inline-block; padding: 12px 32px; background: #3b82f6; color: white; text-decoration: none; border-radius: 8px; font-weight: 500; font-size: 14px;">
+          Open Dashboard →
+        </a>
+      </div>
+    </div>
+
+    <!-- Footer -->
+    <div style="text-align: center; padding: 24px;">
+      <p style="margin: 0; font-size: 12px; color: #9ca3af;">
+        You're receiving this digest instead of individual emails because of your notification frequency.<br>
+        <a href="${appUrl}/settings" style="color: #6b7280; text-decoration: underline;">Manage notification settings</a>
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+};
+
+interface DigestData {
+  notifications: NotificationRow[];
+  tasks: TaskRow[];
+  meetings: MeetingRow[];
+  deals: DealRow[];
+  leads: LeadRow[];
+  closedLeadStatuses: Set<string>;
+  closedStages: Set<string>;
+}
+
+// Every row of a query, one page at a time. The query must order by a unique
+// column last so pages do not overlap.
+const fetchAllPages = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+// Everything the digests of this run can draw from, fetched once for all users
+const fetchDigestData = async (supabase: SupabaseClient, userIds: string[], now: Date): Promise<DigestData> => {
+  const weekAgo = new Date(now.getTime() - 7 * 86400000);
+  const weekAhead = new Date(now.getTime() + 8 * 86400000);
+  const staleBefore = new Date(now.getTime() - STALE_LEAD_DAYS * 86400000);
+  const today = now.toISOString().split("T")[0];
+
+  const [notifications, tasks, meetings, deals, leads, leadStatuses, stages] = await Promise.all([
+    fetchAllPages<NotificationRow>((from, to) => supabase
+      .from("notifications")
+      .select("user_id, message, notification_type, created_at")
+      .in("user_id", userIds)
+      .eq("status", "unread")
+      .gte("created_at", weekAgo.toISOString())
+      .order("created_at", { ascending: false })
+      .order("id")
+      .range(from, to)),
+    fetchAllPages<TaskRow>((from, to) => supabase
+      .from("tasks")
+      .select("title, due_date, priority, assigned_to")
+      .in("assigned_to", userIds)
+      .in("status", ["open", "in_progress"])
+      .lte("due_date", weekAhead.toISOString().split("T")[0])
+      .order("due_date", { ascending: true })
+      .order("id")
+      .range(from, to)),
+    fetchAllPages<MeetingRow>((from, to) => supabase
+      .from("meetings")
+      .select("subject, start_time, created_by")
+      .in("created_by", userIds)
+      .neq("status", "cancelled")
+      .gte("start_time", now.toISOString())
+      .lte("start_time", weekAhead.toISOString())
+      .order("start_time", { ascending: true })
+      .order("id")
+      .range(from, to)),
+    fetchAllPages<DealRow>((from, to) => supabase
+      .from("deals")
+      .select("deal_name, stage, expected_closing_date, total_contract_value, currency_type, created_by, lead_owner")
+      .gte("expected_closing_date", addDays(today, -7))
+      .lte("expected_closing_date", addDays(today, 8))
+      .order("expected_closing_date", { ascending: true })
+      .order("id")
+      .range(from, to)),
+    fetchAllPages<LeadRow>((from, to) => supabase
+      .from("leads")
+      .select("lead_name, company_name, lead_status, modified_time, contact_owner")
+      .in("contact_owner", userIds)
+      .lt("modified_time", staleBefore.toISOString())
+      .order("modified_time", { ascending: true })
+      .order("id")
+      .range(from, to)),
+    supabase.from("lead_statuses").select("status_name").eq("is_converted_status", true),
+    supabase.from("pipeline_stages").select("stage_name").or("is_won_stage.eq.true,is_lost_stage.eq.true"),
+  ]);
+
+  return {
+    notifications,
+    tasks,
+    meetings,
+    deals,
+    leads,
+    closedLeadStatuses: new Set(["Converted", "Lost", ...(leadStatuses.data || []).map(s => s.status_name)]),
+    closedStages: new Set(["Won", "Lost", "Dropped", ...(stages.data || []).map(s => s.stage_name)]),
+  };
+};
+
+const buildSections = (
+  type: DigestType,
+  prefs: NotificationPrefs,
+  data: DigestData,
+  clock: LocalClock,
+  timezone: string,
+  coveredFrom: Date
+): DigestSection[] => {
+  const userId = prefs.user_id;
+  const sections: DigestSection[] = [];
+  const take = <T>(rows: T[], render: (row: T) => string) => rows.slice(0, SECTION_LIMIT).map(render);
+
+  const notifications = data.notifications.filter(n =>
+    n.user_id === userId && new Date(n.created_at) > coveredFrom && wantsNotification(prefs, n.notification_type)
+  );
+  if (notifications.length > 0) {
+    sections.push({
+      title: "🔔 Notifications",
+      total: notifications.length,
+      rows: take(notifications, n => `${escapeHtml(n.message)} <span style="color: #9ca3af; font-size: 12px;">${formatDateTime(n.created_at, timezone)}</span>`),
+      link: "/notifications",
+    });
+  }
+
+  // The hourly batch only carries notifications; the agenda comes with the daily one
+  if (type === "hourly") return sections;
+
+  const horizon = addDays(clock.date, type === "weekly" ? 7 : 1);
+
+  if (prefs.task_reminders !== false) {
+    const userTasks = data.tasks.filter(t => t.assigned_to === userId && t.due_date);
+    const overdue = userTasks.filter(t => t.due_date! < clock.date);
+    const upcoming = userTasks.filter(t => t.due_date! >= clock.date && t.due_date! < horizon);
+    if (overdue.length > 0) {
+      sections.push({
+        title: "⚠️ Overdue tasks",
+        total: overdue.length,
+        rows: take(overdue, t => `${escapeHtml(t.title)} <span style="color: #ef4444; font-size: 12px;">due ${t.due_date}</span>`),
+        link: "/tasks",
+      });
+    }
+    if (upcoming.length > 0) {
+      sections.push({
+        title: type === "weekly" ? "📌 Tasks due this week" : "📌 Tasks due today",
+        total: upcoming.length,
+        rows: take(upcoming, t => `${escapeHtml(t.title)} <span style="color: #6b7280; font-size: 12px;">${t.due_date}${t.priority ? ` · ${t.priority}` : ""}</span>`),
+        link: "/tasks",
+      });
+    }
+  }
+
+  if (prefs.meeting_reminders !== false) {
+    const horizonTime = Date.now() + PERIOD_HOURS[type] * 3600000;
+    const meetings = data.meetings.filter(m => m.created_by === userId && new Date(m.start_time).getTime() <= horizonTime);
+    if (meetings.length > 0) {
+      sections.push({
+        title: "📅 Upcoming meetings",
+        total: meetings.length,
+        rows: take(meetings, m => `${escapeHtml(m.subject)} <span style="color: #6b7280; font-size: 12px;">${formatDateTime(m.start_time, timezone)}</span>`),
+        link: "/meetings",
+      });
+    }
+  }
+
+  if (prefs.deal_updates !== false) {
+    // Monday to Sunday of the user's current week
+    const weekStart = addDays(clock.date, -((clock.weekday + 6) % 7));
+    const weekEnd = addDays(weekStart, 7);
+    const deals = data.deals.filter(d =>
+      (d.lead_owner === userId || (!d.lead_owner && d.created_by === userId)) &&
+      !data.closedStages.has(d.stage) &&
+      d.expected_closing_date! >= weekStart && d.expected_closing_date! < weekEnd
+    );
+    if (deals.length > 0) {
+      sections.push({
+        title: "💼 Deals closing this week",
+        total: deals.length,
+        rows: take(deals, d => `${escapeHtml(d.deal_name)} <span style="color: #6b7280; font-size: 12px;">${d.stage} · ${d.expected_closing_date}${formatAmount(d)}</span>`),
+        link: "/deals",
+      });
+    }
+  }
+
+  if (prefs.leads_notifications !== false) {
+    const leads = data.leads.filter(l => l.contact_owner === userId && !data.closedLeadStatuses.has(l.lead_status || ""));
+    if (leads.length > 0) {
+      sections.push({
+        title: `🕸️ Leads untouched for ${STALE_LEAD_DAYS}+ days`,
+        total: leads.length,
+        rows: take(leads, l => `${escapeHtml(l.lead_name)}${l.company_name ? ` · ${escapeHtml(l.company_name)}` : ""} <span style="color: #6b7280; font-size: 12px;">last updated ${(l.modified_time || "").split("T")[0]}</span>`),
+        link: "/leads",
+      });
+    }
+  }
+
+  return sections;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The scheduler calls in with the service role key; anyone else must be an admin
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Missing authorization header" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      const supabaseUser = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user }, error: authError } = await supabaseUser.auth.getUser();
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ success: false, error: "Unauthorized" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: roleData } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .maybeSingle();
+      if (roleData?.role !== "admin") {
+        return new Response(
+          JSON.stringify({ success: false, error: "Only admins can send notification digests" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // force ignores the digest hour and weekday, and sends again for a period already covered
+    let body: DigestRequest = {};
+    try {
+      body = await req.json();
+    } catch {
+      // No body: a scheduled run
+    }
+    const force = body.force === true;
+
+    const appUrl = Deno.env.get("APP_URL") || "https://insidesales.realthingks.com";
+    const now = new Date();
+
+    let prefsQuery = supabase
+      .from("notification_preferences")
+      .select("user_id, email_notifications, lead_assigned, deal_updates, task_reminders, meeting_reminders, leads_notifications, weekly_digest, notification_frequency")
+      .or("notification_frequency.in.(hourly,daily,weekly),weekly_digest.eq.true")
+      .neq("email_notifications", false);
+    if (body.userId) prefsQuery = prefsQuery.eq("user_id", body.userId);
+
+    const { data: prefsRows, error: prefsError } = await prefsQuery;
+    if (prefsError) throw prefsError;
+
+    const allPrefs = (prefsRows || []) as NotificationPrefs[];
+    if (allPrefs.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "No users with digests", digestsSent: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select('id, full_name, "Email ID", timezone')
+      .in("id", allPrefs.map(p => p.user_id));
+    if (profilesError) throw profilesError;
+    const profileById = new Map(((profiles || []) as Profile[]).map(p => [p.id, p]));
+
+    // Work out who is due before fetching their records
+    const due = allPrefs
+      .map(prefs => {
+        const profile = profileById.get(prefs.user_id);
+        const timezone = profile?.timezone || DEFAULT_TIMEZONE;
+        const clock = getLocalClock(timezone, now);
+        return { prefs, profile, timezone, clock, types: getDueDigests(prefs, clock, force) };
+      })
+      .filter(entry => entry.types.length > 0 && entry.profile?.["Email ID"]);
+
+    if (due.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "No digests due", digestsSent: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const dueUserIds = due.map(entry => entry.prefs.user_id);
+    const data = await fetchDigestData(supabase, dueUserIds, now);
+
+    // Notifications already delivered by an earlier digest of the same type are
+    // not repeated. Only the last week matters: older notifications are not read.
+    const lastDigests = await fetchAllPages<{ id: string; user_id: string; digest_type: DigestType; sent_at: string }>((from, to) => supabase
+      .from("notification_digests")
+      .select("id, user_id, digest_type, sent_at")
+      .in("user_id", dueUserIds)
+      .gte("sent_at", new Date(now.getTime() - 7 * 86400000).toISOString())
+      .order("sent_at", { ascending: false })
+      .order("id")
+      .range(from, to));
+    const digestKey = (userId: string, type: DigestType) => `${userId}:${type}`;
+    const lastSentByDigest = new Map<string, Date>();
+    for (const digest of lastDigests) {
+      const key = digestKey(digest.user_id, digest.digest_type);
+      if (!lastSentByDigest.has(key)) lastSentByDigest.set(key, new Date(digest.sent_at));
+    }
+
+    let accessToken: string | null = null;
+    const results: { userId: string; type: DigestType; sent: boolean; skipped?: string; error?: string }[] = [];
+
+    for (const { prefs, profile, timezone, clock, types } of due) {
+      const email = profile!["Email ID"]!;
+
+      for (const type of types) {
+        const coveredFrom = lastSentByDigest.get(digestKey(prefs.user_id, type))
+          || new Date(now.getTime() - PERIOD_HOURS[type] * 3600000);
+
+        const sections = buildSections(type, prefs, data, clock, timezone, coveredFrom);
+        if (sections.length === 0) {
+          results.push({ userId: prefs.user_id, type, sent: false, skipped: "nothing_to_report" });
+          continue;
+        }
+
+        const key = periodKey(type, clock);
+        const notificationCount = sections.find(s => s.title.includes("Notifications"))?.total || 0;
+        const itemCount = sections.reduce((sum, s) => sum + s.total, 0);
+
+        // Claim the period first so an overlapping run cannot send it as well
+        if (force) {
+          await supabase
+            .from("notification_digests")
+            .delete()
+            .eq("user_id", prefs.user_id)
+            .eq("digest_type", type)
+            .eq("period_key", key);
+        }
+        const { data: claim, error: claimError } = await supabase
+          .from("notification_digests")
+          .insert({
+            user_id: prefs.user_id,
+            digest_type: type,
+            period_key: key,
+            covered_from: coveredFrom.toISOString(),
+            notification_count: notificationCount,
+            item_count: itemCount,
+            email_sent_to: email,
+          })
+          .select("id")
+          .maybeSingle();
+
+        if (claimError || !claim) {
+          results.push({ userId: prefs.user_id, type, sent: false, skipped: "already_sent" });
+          continue;
+        }
+
+        try {
+          accessToken = accessToken || await getAccessToken();
+          const periodLabel = type === "weekly" ? `Week ${key.split("-W")[1]}, ${clock.date.slice(0, 4)}` : clock.date;
+          await sendEmailViaGraph(
+            accessToken,
+            email,
+            profile?.full_name || "",
+            `📬 ${DIGEST_TITLES[type]}: ${itemCount} item${itemCount !== 1 ? "s" : ""} for you`,
+            generateEmailHtml(type, profile?.full_name || "", periodLabel, sections, appUrl),
+            // Sent as a self-reminder, like the daily task reminder
+            email
+          );
+          results.push({ userId: prefs.user_id, type, sent: true });
+        } catch (err) {
+          console.error(`Failed to send ${type} digest to ${prefs.user_id}:`, err);
+          // Release the claim so the next run retries
+          await supabase.from("notification_digests").delete().eq("id", claim.id);
+          results.push({ userId: prefs.user_id, type, sent: false, error: String(err) });
+        }
+      }
+    }
+
+    const sent = results.filter(r => r.sent).length;
+    const failed = results.filter(r => r.error).length;
+    console.log(`Notification digests complete: ${sent} sent, ${failed} failed, ${results.length - sent - failed} skipped`);
+
+    return new Response(
+      JSON.stringify({ success: true, message: `Sent ${sent} digests`, digestsSent: sent, digestsFailed: failed, results }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in send-notification-digests:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
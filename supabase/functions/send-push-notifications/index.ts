@@ -0,0 +1,223 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.7";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Delivers new in-app notifications as browser push to every device the
+// recipient subscribed. Scheduled every minute; also serves the VAPID public key.
+
+// Notifications older than this when the worker first sees them are dropped
+// rather than pushed, so a stalled schedule does not flood devices afterwards
+const PUSH_WINDOW_MINUTES = 15;
+// How long the push service keeps trying to reach an offline device
+const PUSH_TTL_SECONDS = 60 * 60;
+
+interface PushRequest {
+  action?: "public-key";
+}
+
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  lead_id: string | null;
+  message: string;
+  notification_type: string | null;
+  link: string | null;
+}
+
+interface PushPrefs {
+  user_id: string;
+  push_notifications: boolean | null;
+  lead_assigned: boolean | null;
+  deal_updates: boolean | null;
+  task_reminders: boolean | null;
+  meeting_reminders: boolean | null;
+  leads_notifications: boolean | null;
+}
+
+interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// Leaves out notification types the user has switched off
+const wantsNotification = (prefs: PushPrefs, type: string | null): boolean => {
+  if (!type) return true;
+  if (type === "lead_assigned") return prefs.lead_assigned !== false;
+  if (type.startsWith("lead_")) return prefs.leads_notifications !== false;
+  if (type.startsWith("deal_")) return prefs.deal_updates !== false;
+  if (type.startsWith("task_")) return prefs.task_reminders !== false;
+  if (type.startsWith("meeting_")) return prefs.meeting_reminders !== false;
+  return true;
+};
+
+const getTitle = (type: string | null): string => {
+  if (!type) return "CRM notification";
+  if (type === "task_assigned") return "New task assigned";
+  if (type.startsWith("task_")) return "Task update";
+  if (type === "meeting_reminder") return "Meeting reminder";
+  if (type === "deal_assigned") return "Deal assigned to you";
+  if (type.startsWith("deal_")) return "Deal update";
+  if (type === "lead_assigned") return "Lead assigned to you";
+  if (type === "approval_request") return "Approval needed";
+  if (type.startsWith("approval_")) return "Approval decision";
+  return "CRM notification";
+};
+
+// Same fallbacks as the in-app notification list for rows without a link
+const getPath = (notification: NotificationRow): string => {
+  const type = notification.notification_type || "";
+  if (notification.link) return notification.link;
+  if (type.startsWith("task_")) return "/tasks";
+  if (type.startsWith("approval_")) return "/approvals";
+  if (type === "meeting_reminder") return "/meetings";
+  if (notification.lead_id) return `/leads?viewId=${notification.lead_id}`;
+  if (type.startsWith("deal_")) return "/deals";
+  return "/notifications";
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    let body: PushRequest = {};
+    try {
+      body = await req.json();
+    } catch {
+      // No body: a scheduled run
+    }
+
+    const publicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+    const privateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+
+    // Browsers need the public key to subscribe
+    if (body.action === "public-key") {
+      return new Response(
+        JSON.stringify({ publicKey: publicKey || null }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!publicKey || !privateKey) {
+      throw new Error("VAPID keys not configured");
+    }
+    webpush.setVapidDetails(Deno.env.get("VAPID_SUBJECT") || "mailto:admin@realthingks.com", publicKey, privateKey);
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const now = new Date();
+
+    // Claim everything new in one update so overlapping runs never push a notification twice
+    const { data: claimed, error: claimError } = await supabase
+      .from("notifications")
+      .update({ pushed_at: now.toISOString() })
+      .is("pushed_at", null)
+      .gte("created_at", new Date(now.getTime() - PUSH_WINDOW_MINUTES * 60 * 1000).toISOString())
+      .select("id, user_id, lead_id, message, notification_type, link");
+
+    if (claimError) throw claimError;
+
+    const notifications = (claimed || []) as NotificationRow[];
+    if (notifications.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "No notifications to push", pushed: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userIds = [...new Set(notifications.map(n => n.user_id))];
+
+    const [{ data: prefsRows, error: prefsError }, { data: subscriptionRows, error: subscriptionsError }] = await Promise.all([
+      supabase
+        .from("notification_preferences")
+        .select("user_id, push_notifications, lead_assigned, deal_updates, task_reminders, meeting_reminders, leads_notifications")
+        .in("user_id", userIds)
+        .eq("push_notifications", true),
+      supabase
+        .from("push_subscriptions")
+        .select("id, user_id, endpoint, p256dh, auth")
+        .in("user_id", userIds),
+    ]);
+
+    if (prefsError) throw prefsError;
+    if (subscriptionsError) throw subscriptionsError;
+
+    const prefsByUser = new Map(((prefsRows || []) as PushPrefs[]).map(p => [p.user_id, p]));
+    const subscriptions = (subscriptionRows || []) as PushSubscriptionRow[];
+
+    let pushed = 0;
+    let skipped = 0;
+    const failed: string[] = [];
+    const expired = new Set<string>();
+    const delivered = new Set<string>();
+
+    for (const notification of notifications) {
+      const prefs = prefsByUser.get(notification.user_id);
+      const devices = subscriptions.filter(s => s.user_id === notification.user_id && !expired.has(s.id));
+      if (!prefs || !wantsNotification(prefs, notification.notification_type) || devices.length === 0) {
+        skipped++;
+        continue;
+      }
+
+      const payload = JSON.stringify({
+        title: getTitle(notification.notification_type),
+        body: notification.message,
+        // Relative, so it opens on whichever origin the service worker was installed from
+        url: getPath(notification),
+        tag: notification.id,
+      });
+
+      for (const device of devices) {
+        try {
+          await webpush.sendNotification(
+            { endpoint: device.endpoint, keys: { p256dh: device.p256dh, auth: device.auth } },
+            payload,
+            { TTL: PUSH_TTL_SECONDS }
+          );
+          delivered.add(device.id);
+          pushed++;
+        } catch (err) {
+          const statusCode = (err as { statusCode?: number }).statusCode;
+          // 404 and 410 mean the browser dropped the subscription
+          if (statusCode === 404 || statusCode === 410) {
+            expired.add(device.id);
+          } else {
+            console.error(`Failed to push notification ${notification.id} to ${device.id}:`, err);
+            failed.push(notification.id);
+          }
+        }
+      }
+    }
+
+    if (expired.size > 0) {
+      await supabase.from("push_subscriptions").delete().in("id", [...expired]);
+    }
+    if (delivered.size > 0) {
+      await supabase.from("push_subscriptions").update({ last_used_at: now.toISOString() }).in("id", [...delivered]);
+    }
+
+    console.log(`Push notifications complete: ${pushed} pushed, ${skipped} skipped, ${failed.length} failed, ${expired.size} expired subscriptions removed`);
+
+    return new Response(
+      JSON.stringify({ success: true, message: `Pushed ${pushed} notifications`, pushed, skipped, failed: failed.length, expired: expired.size }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in send-push-notifications:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,882 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Schedules have no timezone of their own, so times are read in the app's timezone
+const REPORT_TIMEZONE = Deno.env.get("REPORT_TIMEZONE") || "Asia/Kolkata";
+
+// PostgREST caps a select at this many rows
+const PAGE_SIZE = 1000;
+
+interface ReportSchedule {
+  id: string;
+  name: string;
+  report_type: string;
+  frequency: string;
+  day_of_week: number | null;
+  day_of_month: number | null;
+  time_of_day: string;
+  recipients: unknown;
+  filters: ReportFilters | null;
+  is_enabled: boolean | null;
+  last_sent_at: string | null;
+  created_by: string | null;
+}
+
+interface ReportFilters {
+  date_range?: "default" | "last_7_days" | "last_30_days" | "last_90_days" | "this_month" | "this_quarter" | "this_year";
+  owner_id?: string | null;
+  team_id?: string | null;
+  region?: string | null;
+}
+
+interface ReportRequest {
+  scheduleId?: string;
+  mode?: "preview" | "send";
+  force?: boolean;
+}
+
+interface DealRow {
+  deal_name: string;
+  stage: string;
+  customer_name: string | null;
+  region: string | null;
+  created_by: string | null;
+  total_contract_value: number | null;
+  currency_type: string | null;
+  probability: number | null;
+  expected_closing_date: string | null;
+  created_at: string | null;
+  modified_at: string | null;
+}
+
+interface LeadRow {
+  lead_name: string;
+  company_name: string | null;
+  lead_status: string | null;
+  contact_source: string | null;
+  contact_owner: string | null;
+  created_time: string | null;
+  modified_time: string | null;
+}
+
+interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: (string | number)[][];
+}
+
+interface BuiltReport {
+  title: string;
+  periodLabel: string;
+  summary: { label: string; value: string }[];
+  tables: ReportTable[];
+  csv: { columns: string[]; rows: (string | number | null)[][] };
+}
+
+interface ReportContext {
+  supabase: SupabaseClient;
+  schedule: ReportSchedule;
+  filters: ReportFilters;
+  // Owners the report is limited to by the owner and team filters; null means everyone
+  ownerIds: string[] | null;
+  from: Date;
+  to: Date;
+  userNames: Record<string, string>;
+  stages: { name: string; probability: number; isWon: boolean; isLost: boolean }[];
+}
+
+const REPORT_TITLES: Record<string, string> = {
+  deals_summary: "Deals Summary",
+  leads_activity: "Leads Activity",
+  pipeline_status: "Pipeline Status",
+  revenue_forecast: "Revenue Forecast",
+  team_performance: "Team Performance",
+};
+
+// Fallback when pipeline_stages is empty
+const CLOSED_WON_STAGES = ["Won"];
+const CLOSED_LOST_STAGES = ["Lost", "Dropped"];
+
+// Azure Graph API email functions (same as send-email)
+async function getAccessToken(): Promise<string> {
+  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID");
+  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID");
+  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET");
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error("Azure email credentials not configured");
+  }
+
+  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
+  const params = new URLSearchParams({
+    client_id: clientId,
+    client_secret: clientSecret,
+    scope: "https://graph.microsoft.com/.default",
+    grant_type: "client_credentials",
+  });
+
+  const response = await fetch(tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Azure token error:", errorText);
+    throw new Error(`Failed to get Azure access token: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+async function sendReportViaGraph(
+  accessToken: string,
+  from: string,
+  recipients: string[],
+  subject: string,
+  html: string,
+  attachment: { name: string; content: string }
+): Promise<void> {
+  const graphUrl = `https://graph.microsoft.com/v1.0/users/${from}/sendMail`;
+
+  const emailPayload = {
+    message: {
+      subject,
+      body: {
+        contentType: "HTML",
+        content: html,
+      },
+      toRecipients: recipients.map(address => ({ emailAddress: { address } })),
+      attachments: [
+        {
+          "@odata.type": "#microsoft.graph.fileAttachment",
+          name: attachment.name,
+          contentType: "text/csv",
+          contentBytes: toBase64(attachment.content),
+        },
+      ],
+    },
+    saveToSentItems: true,
+  };
+
+  const response = await fetch(graphUrl, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(emailPayload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Graph API error:", errorText);
+    throw new Error(`Failed to send email via Graph API: ${response.status}`);
+  }
+}
+
+const toBase64 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const escapeCsv = (value: unknown): string => {
+  const str = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+const buildCsv = (columns: string[], rows: (string | number | null)[][]): string =>
+  [columns, ...rows].map(row => row.map(escapeCsv).join(",")).join("\n");
+
+const formatDate = (value: string | Date | null | undefined): string => {
+  if (!value) return "";
+  const date = typeof value === "string" ? new Date(value) : value;
+  return Number.isNaN(date.getTime()) ? "" : date.toISOString().split("T")[0];
+};
+
+const formatNumber = (value: number): string =>
+  value.toLocaleString("en-US", { maximumFractionDigits: 0 });
+
+// Deal values are summed per currency rather than mixed together
+const sumByCurrency = (deals: DealRow[], weighted?: (deal: DealRow) => number) => {
+  const totals: Record<string, number> = {};
+  deals.forEach(deal => {
+    const currency = deal.currency_type || "EUR";
+    const amount = weighted ? weighted(deal) : Number(deal.total_contract_value || 0);
+    totals[currency] = (totals[currency] || 0) + amount;
+  });
+  return totals;
+};
+
+const formatAmounts = (totals: Record<string, number>): string => {
+  const entries = Object.entries(totals).filter(([, amount]) => amount !== 0);
+  if (entries.length === 0) return "0";
+  return entries.map(([currency, amount]) => `${currency} ${formatNumber(amount)}`).join(" · ");
+};
+
+/**
+ * Local date parts for the report timezone
+ */
+const getZonedParts = (date: Date) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: REPORT_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+    hour12: false,
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || "";
+  const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    day: parseInt(get("day")),
+    weekday: weekdays.indexOf(get("weekday")),
+    minutes: (parseInt(get("hour")) % 24) * 60 + parseInt(get("minute")),
+  };
+};
+
+/**
+ * A schedule is due once its local send time has passed on a matching day and
+ * it hasn't already gone out that day. Checking "passed" rather than an exact
+ * minute means a delayed cron run still delivers the report.
+ */
+const isScheduleDue = (schedule: ReportSchedule, now: Date): boolean => {
+  const local = getZonedParts(now);
+
+  if (schedule.frequency === "weekly" && local.weekday !== (schedule.day_of_week ?? 1)) return false;
+  if (schedule.frequency === "monthly" && local.day !== (schedule.day_of_month ?? 1)) return false;
+
+  const [hours, minutes] = (schedule.time_of_day || "08:00").split(":").map(Number);
+  if (local.minutes < hours * 60 + (minutes || 0)) return false;
+
+  if (schedule.last_sent_at && getZonedParts(new Date(schedule.last_sent_at)).date === local.date) {
+    return false;
+  }
+
+  return true;
+};
+
+// Reporting window: explicit filter, otherwise the period since the previous run
+const getReportPeriod = (schedule: ReportSchedule, filters: ReportFilters, now: Date) => {
+  const to = now;
+  const from = new Date(now);
+
+  switch (filters.date_range) {
+    case "last_7_days":
+      from.setDate(from.getDate() - 7);
+      break;
+    case "last_30_days":
+      from.setDate(from.getDate() - 30);
+      break;
+    case "last_90_days":
+      from.setDate(from.getDate() - 90);
+      break;
+    case "this_month":
+      from.setUTCDate(1);
+      from.setUTCHours(0, 0, 0, 0);
+      break;
+    case "this_quarter":
+      from.setUTCMonth(Math.floor(from.getUTCMonth() / 3) * 3, 1);
+      from.setUTCHours(0, 0, 0, 0);
+      break;
+    case "this_year":
+      from.setUTCMonth(0, 1);
+      from.setUTCHours(0, 0, 0, 0);
+      break;
+    default:
+      if (schedule.frequency === "daily") from.setDate(from.getDate() - 1);
+      else if (schedule.frequency === "monthly") from.setMonth(from.getMonth() - 1);
+      else from.setDate(from.getDate() - 7);
+  }
+
+  return { from, to };
+};
+
+// A team covers its sub-teams too; with an owner as well, only that owner if they are in the team
+const resolveOwnerIds = async (supabase: SupabaseClient, filters: ReportFilters): Promise<string[] | null> => {
+  const ownerIds = filters.owner_id ? [filters.owner_id] : null;
+  if (!filters.team_id) return ownerIds;
+
+  const { data, error } = await supabase.rpc("get_team_user_ids", { p_team_id: filters.team_id });
+  if (error) throw error;
+  const teamIds = (data || []) as string[];
+  return ownerIds ? ownerIds.filter(id => teamIds.includes(id)) : teamIds;
+};
+
+const fetchAllPages = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const fetchDeals = (ctx: ReportContext, dateColumn: "created_at" | "modified_at" | null) =>
+  fetchAllPages<DealRow>((from, to) => {
+    let query = ctx.supabase.from("deals").select("*");
+    if (dateColumn) {
+      query = query.gte(dateColumn, ctx.from.toISOString()).lte(dateColumn, ctx.to.toISOString());
+    }
+    if (ctx.ownerIds) query = query.in("created_by", ctx.ownerIds);
+    if (ctx.filters.region) query = query.eq("region", ctx.filters.region);
+    return query.order("created_at", { ascending: false }).order("id").range(from, to);
+  });
+
+const fetchLeads = (ctx: ReportContext) =>
+  fetchAllPages<LeadRow>((from, to) => {
+    let query = ctx.supabase
+      .from("leads")
+      .select("*")
+      .or(`created_time.gte.${ctx.from.toISOString()},modified_time.gte.${ctx.from.toISOString()}`);
+    if (ctx.ownerIds) query = query.in("contact_owner", ctx.ownerIds);
+    return query.order("created_time", { ascending: false }).order("id").range(from, to);
+  });
+
+const isWonStage = (ctx: ReportContext, stage: string) =>
+  ctx.stages.length > 0 ? ctx.stages.some(s => s.name === stage && s.isWon) : CLOSED_WON_STAGES.includes(stage);
+
+const isLostStage = (ctx: ReportContext, stage: string) =>
+  ctx.stages.length > 0 ? ctx.stages.some(s => s.name === stage && s.isLost) : CLOSED_LOST_STAGES.includes(stage);
+
+// Deal probability, falling back to the stage's default probability
+const getProbability = (ctx: ReportContext, deal: { probability: number | null; stage: string }) => {
+  if (deal.probability !== null && deal.probability !== undefined) return deal.probability;
+  return ctx.stages.find(s => s.name === deal.stage)?.probability ?? 0;
+};
+
+const stageOrder = (ctx: ReportContext, stages: string[]) => {
+  const known = ctx.stages.map(s => s.name).filter(name => stages.includes(name));
+  return [...known, ...stages.filter(stage => !known.includes(stage))];
+};
+
+const DEAL_CSV_COLUMNS = [
+  "Deal Name", "Stage", "Customer", "Region", "Owner", "Contract Value", "Currency",
+  "Probability", "Expected Closing Date", "Created At",
+];
+
+const dealCsvRow = (ctx: ReportContext, deal: DealRow) => [
+  deal.deal_name,
+  deal.stage,
+  deal.customer_name,
+  deal.region,
+  (deal.created_by && ctx.userNames[deal.created_by]) || "",
+  deal.total_contract_value,
+  deal.currency_type,
+  getProbability(ctx, deal),
+  formatDate(deal.expected_closing_date),
+  formatDate(deal.created_at),
+];
+
+const buildDealsSummary = async (ctx: ReportContext): Promise<BuiltReport> => {
+  const deals = await fetchDeals(ctx, "created_at");
+  const won = deals.filter(d => isWonStage(ctx, d.stage));
+  const lost = deals.filter(d => isLostStage(ctx, d.stage));
+
+  const stages = stageOrder(ctx, [...new Set(deals.map(d => d.stage))]);
+  const byStage = stages.map(stage => {
+    const stageDeals = deals.filter(d => d.stage === stage);
+    return [stage, stageDeals.length, formatAmounts(sumByCurrency(stageDeals))];
+  });
+
+  return {
+    title: REPORT_TITLES.deals_summary,
+    periodLabel: "",
+    summary: [
+      { label: "New deals", value: String(deals.length) },
+      { label: "Won", value: String(won.length) },
+      { label: "Lost / dropped", value: String(lost.length) },
+      { label: "Total value", value: formatAmounts(sumByCurrency(deals)) },
+    ],
+    tables: [
+      { title: "Deals by stage", columns: ["Stage", "Deals", "Value"], rows: byStage },
+      {
+        title: "Latest deals",
+        columns: ["Deal", "Stage", "Customer", "Value"],
+        rows: deals.slice(0, 10).map(d => [
+          d.deal_name,
+          d.stage,
+          d.customer_name || "-",
+          d.total_contract_value ? `${d.currency_type || "EUR"} ${formatNumber(d.total_contract_value)}` : "-",
+        ]),
+      },
+    ],
+    csv: { columns: DEAL_CSV_COLUMNS, rows: deals.map(d => dealCsvRow(ctx, d)) },
+  };
+};
+
+const buildLeadsActivity = async (ctx: ReportContext): Promise<BuiltReport> => {
+  const leads = await fetchLeads(ctx);
+  const fromIso = ctx.from.toISOString();
+  const created = leads.filter(l => l.created_time && l.created_time >= fromIso);
+  const updated = leads.filter(l => !(l.created_time && l.created_time >= fromIso));
+
+  const countBy = (key: "lead_status" | "contact_source") => {
+    const counts: Record<string, number> = {};
+    leads.forEach(lead => {
+      const value = lead[key] || "Unspecified";
+      counts[value] = (counts[value] || 0) + 1;
+    });
+    return Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  };
+
+  return {
+    title: REPORT_TITLES.leads_activity,
+    periodLabel: "",
+    summary: [
+      { label: "New leads", value: String(created.length) },
+      { label: "Updated leads", value: String(updated.length) },
+      { label: "Converted", value: String(leads.filter(l => l.lead_status === "Converted").length) },
+    ],
+    tables: [
+      { title: "By status", columns: ["Status", "Leads"], rows: countBy("lead_status") },
+      { title: "By source", columns: ["Source", "Leads"], rows: countBy("contact_source") },
+    ],
+    csv: {
+      columns: ["Lead Name", "Company", "Status", "Source", "Owner", "Created", "Last Modified"],
+      rows: leads.map(l => [
+        l.lead_name,
+        l.company_name,
+        l.lead_status,
+        l.contact_source,
+        (l.contact_owner && ctx.userNames[l.contact_owner]) || "",
+        formatDate(l.created_time),
+        formatDate(l.modified_time),
+      ]),
+    },
+  };
+};
+
+const buildPipelineStatus = async (ctx: ReportContext): Promise<BuiltReport> => {
+  // Pipeline is a point-in-time view, so every open deal counts regardless of the period
+  const deals = (await fetchDeals(ctx, null)).filter(d => !isWonStage(ctx, d.stage) && !isLostStage(ctx, d.stage));
+  const weighted = (deal: DealRow) => Number(deal.total_contract_value || 0) * getProbability(ctx, deal) / 100;
+
+  const stages = stageOrder(ctx, [...new Set(deals.map(d => d.stage))]);
+  const byStage = stages.map(stage => {
+    const stageDeals = deals.filter(d => d.stage === stage);
+    return [
+      stage,
+      stageDeals.length,
+      formatAmounts(sumByCurrency(stageDeals)),
+      formatAmounts(sumByCurrency(stageDeals, weighted)),
+    ];
+  });
+
+  const overdue = deals.filter(d => d.expected_closing_date && new Date(d.expected_closing_date) < ctx.to);
+
+  return {
+    title: REPORT_TITLES.pipeline_status,
+    periodLabel: `As of ${formatDate(ctx.to)}`,
+    summary: [
+      { label: "Open deals", value: String(deals.length) },
+      { label: "Pipeline value", value: formatAmounts(sumByCurrency(deals)) },
+      { label: "Weighted value", value: formatAmounts(sumByCurrency(deals, weighted)) },
+      { label: "Past closing date", value: String(overdue.length) },
+    ],
+    tables: [
+      { title: "Open deals by stage", columns: ["Stage", "Deals", "Value", "Weighted"], rows: byStage },
+    ],
+    csv: { columns: DEAL_CSV_COLUMNS, rows: deals.map(d => dealCsvRow(ctx, d)) },
+  };
+};
+
+const buildRevenueForecast = async (ctx: ReportContext): Promise<BuiltReport> => {
+  const allDeals = await fetchDeals(ctx, null);
+  const fromIso = ctx.from.toISOString();
+  const wonInPeriod = allDeals.filter(d => isWonStage(ctx, d.stage) && (d.modified_at || d.created_at || "") >= fromIso);
+
+  const horizon = new Date(ctx.to);
+  horizon.setMonth(horizon.getMonth() + 3);
+  const upcoming = allDeals.filter(d =>
+    !isWonStage(ctx, d.stage) &&
+    !isLostStage(ctx, d.stage) &&
+    d.expected_closing_date &&
+    new Date(d.expected_closing_date) <= horizon
+  );
+  const weighted = (deal: DealRow) => Number(deal.total_contract_value || 0) * getProbability(ctx, deal) / 100;
+
+  const months: Record<string, DealRow[]> = {};
+  upcoming.forEach(deal => {
+    const month = String(deal.expected_closing_date).slice(0, 7);
+    months[month] = [...(months[month] || []), deal];
+  });
+
+  return {
+    title: REPORT_TITLES.revenue_forecast,
+    periodLabel: "",
+    summary: [
+      { label: "Won this period", value: formatAmounts(sumByCurrency(wonInPeriod)) },
+      { label: "Closing in next 3 months", value: formatAmounts(sumByCurrency(upcoming)) },
+      { label: "Weighted forecast", value: formatAmounts(sumByCurrency(upcoming, weighted)) },
+    ],
+    tables: [
+      {
+        title: "Expected closings by month",
+        columns: ["Month", "Deals", "Value", "Weighted"],
+        rows: Object.keys(months).sort().map(month => [
+          month,
+          months[month].length,
+          formatAmounts(sumByCurrency(months[month])),
+          formatAmounts(sumByCurrency(months[month], weighted)),
+        ]),
+      },
+    ],
+    csv: {
+      columns: [...DEAL_CSV_COLUMNS, "Weighted Value"],
+      rows: upcoming.map(d => [...dealCsvRow(ctx, d), Math.round(weighted(d))]),
+    },
+  };
+};
+
+const buildTeamPerformance = async (ctx: ReportContext): Promise<BuiltReport> => {
+  const [deals, leads] = await Promise.all([fetchDeals(ctx, "modified_at"), fetchLeads(ctx)]);
+  const fromIso = ctx.from.toISOString();
+
+  const userIds = [...new Set([
+    ...deals.map(d => d.created_by),
+    ...leads.map(l => l.contact_owner),
+  ].filter(Boolean))] as string[];
+
+  const rows = userIds.map(userId => {
+    const userDeals = deals.filter(d => d.created_by === userId);
+    const won = userDeals.filter(d => isWonStage(ctx, d.stage));
+    const newLeads = leads.filter(l => l.contact_owner === userId && l.created_time && l.created_time >= fromIso);
+    return {
+      name: ctx.userNames[userId] || "Unknown User",
+      leads: newLeads.length,
+      deals: userDeals.length,
+      won: won.length,
+      wonValue: sumByCurrency(won),
+    };
+  }).sort((a, b) => b.won - a.won || b.deals - a.deals);
+
+  return {
+    title: REPORT_TITLES.team_performance,
+    periodLabel: "",
+    summary: [
+      { label: "Active users", value: String(rows.length) },
+      { label: "Deals worked", value: String(deals.length) },
+      { label: "Deals won", value: String(rows.reduce((sum, r) => sum + r.won, 0)) },
+    ],
+    tables: [
+      {
+        title: "By user",
+        columns: ["User", "New leads", "Deals worked", "Won", "Won value"],
+        rows: rows.map(r => [r.name, r.leads, r.deals, r.won, formatAmounts(r.wonValue)]),
+      },
+    ],
+    csv: {
+      columns: ["User", "New Leads", "Deals Worked", "Deals Won", ...Object.keys(sumByCurrency(deals)).map(c => `Won Value (${c})`)],
+      rows: rows.map(r => [
+        r.name, r.leads, r.deals, r.won,
+        ...Object.keys(sumByCurrency(deals)).map(c => Math.round(r.wonValue[c] || 0)),
+      ]),
+    },
+  };
+};
+
+const REPORT_BUILDERS: Record<string, (ctx: ReportContext) => Promise<BuiltReport>> = {
+  deals_summary: buildDealsSummary,
+  leads_activity: buildLeadsActivity,
+  pipeline_status: buildPipelineStatus,
+  revenue_forecast: buildRevenueForecast,
+  team_performance: buildTeamPerformance,
+};
+
+const renderReportHtml = (schedule: ReportSchedule, report: BuiltReport, appUrl: string): string => {
+  const summaryCells = report.summary.map(item => `
+        <td style="padding: 12px; background: #f3f4f6; border-radius: 8px; text-align: center;">
+          <div style="font-size: 12px; color: #6b7280;">${escapeHtml(item.label)}</div>
+          <div style="font-size: 18px; font-weight: 600; color: #1f2937; margin-top: 4px;">${escapeHtml(item.value)}</div>
+        </td>`).join("");
+
+  const tables = report.tables.map(table => `
+      <h2 style="margin: 24px 0 8px; color: #1f2937; font-size: 16px; font-weight: 600;">${escapeHtml(table.title)}</h2>
+      ${table.rows.length === 0
+        ? `<p style="margin: 0; color: #6b7280; font-size: 14px;">No data for this period.</p>`
+        : `<table style="width: 100%; border-collapse: collapse; font-size: 13px;">
+        <thead>
+          <tr>${table.columns.map(c => `<th style="text-align: left; padding: 8px; border-bottom: 2px solid #e5e7eb; color: #4b5563;">${escapeHtml(c)}</th>`).join("")}</tr>
+        </thead>
+        <tbody>
+          ${table.rows.map(row => `<tr>${row.map(cell => `<td style="padding: 8px; border-bottom: 1px solid #e5e7eb; color: #1f2937;">${escapeHtml(cell)}</td>`).join("")}</tr>`).join("")}
+        </tbody>
+      </table>`}`).join("");
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(schedule.name)}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f9fafb;">
+  <div style="max-width: 680px; margin: 0 auto; padding: 20px;">
+    <div style="background: linear-gradient(135deg, #3b82f6, #1d4ed8); padding: 32px; border-radius: 12px 12px 0 0; text-align: center;">
+      <h1 style="margin: 0; color: white; font-size: 24px; font-weight: 600;">${escapeHtml(schedule.name)}</h1>
+      <p style="margin: 8px 0 0; color: rgba(255,255,255,0.9); font-size: 14px;">${escapeHtml(report.title)} · ${escapeHtml(report.periodLabel)}</p>
+    </div>
+
+    <div style="background: white; padding: 24px; border-radius: 0 0 12px 12px; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
+      <table style="width: 100%; border-collapse: separate; border-spacing: 8px;">
+        <tr>${summaryCells}</tr>
+      </table>
+      ${tables}
+
+      <p style="margin: 24px 0 0; color: #6b7280; font-size: 13px;">The full data set is attached as a CSV file.</p>
+
+      <div style="text-align: center; margin-top: 24px;">
+        <a href="${appUrl}/dashboard" style="display: inline-block; padding: 12px 32px; background: #3b82f6; color: white; text-decoration: none; border-radius: 8px; font-weight: 500; font-size: 14px;">
+          Open CRM →
+        </a>
+      </div>
+    </div>
+
+    <div style="text-align: center; padding: 24px;">
+      <p style="margin: 0; font-size: 12px; color: #9ca3af;">
+        You're receiving this scheduled report because you are on its recipient list.<br>
+        <a href="${appUrl}/settings" style="color: #6b7280; text-decoration: underline;">Manage scheduled reports</a>
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+};
+
+const getRecipients = (schedule: ReportSchedule): string[] =>
+  Array.isArray(schedule.recipients)
+    ? schedule.recipients.map(r => String(r).trim()).filter(r => r.includes("@"))
+    : [];
+
+const generateReport = async (supabase: SupabaseClient, schedule: ReportSchedule, now: Date) => {
+  const builder = REPORT_BUILDERS[schedule.report_type];
+  if (!builder) {
+    throw new Error(`Unknown report type: ${schedule.report_type}`);
+  }
+
+  const filters: ReportFilters = schedule.filters && typeof schedule.filters === "object" ? schedule.filters : {};
+  const { from, to } = getReportPeriod(schedule, filters, now);
+
+  const [{ data: profiles }, { data: stages }, ownerIds] = await Promise.all([
+    supabase.from("profiles").select("id, full_name"),
+    supabase.from("pipeline_stages").select("stage_name, stage_probability, is_won_stage, is_lost_stage, stage_order").order("stage_order"),
+    resolveOwnerIds(supabase, filters),
+  ]);
+
+  const userNames: Record<string, string> = {};
+  (profiles || []).forEach(p => {
+    if (p.full_name) userNames[p.id] = p.full_name;
+  });
+
+  const report = await builder({
+    supabase,
+    schedule,
+    filters,
+    ownerIds,
+    from,
+    to,
+    userNames,
+    stages: (stages || []).map(s => ({
+      name: s.stage_name,
+      probability: s.stage_probability ?? 0,
+      isWon: !!s.is_won_stage,
+      isLost: !!s.is_lost_stage,
+    })),
+  });
+
+  if (!report.periodLabel) {
+    report.periodLabel = `${formatDate(from)} – ${formatDate(to)}`;
+  }
+
+  const appUrl = Deno.env.get("APP_URL") || "https://insidesales.realthingks.com";
+  const subject = `📊 ${schedule.name} – ${report.periodLabel}`;
+  const html = renderReportHtml(schedule, report, appUrl);
+  const csv = buildCsv(report.csv.columns, report.csv.rows);
+  const filename = `${schedule.report_type}_${formatDate(now)}.csv`;
+
+  return { subject, html, csv, filename, rowCount: report.csv.rows.length };
+};
+
+// Reports go out from the schedule owner's mailbox unless a shared sender is configured
+const getSenderEmail = async (supabase: SupabaseClient, schedule: ReportSchedule): Promise<string> => {
+  const configured = Deno.env.get("REPORT_SENDER_EMAIL");
+  if (configured) return configured;
+
+  if (schedule.created_by) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select('"Email ID"')
+      .eq("id", schedule.created_by)
+      .maybeSingle();
+    const email = (profile as Record<string, string> | null)?.["Email ID"];
+    if (email) return email;
+  }
+
+  throw new Error("No sender mailbox available for this schedule");
+};
+
+const sendSchedule = async (supabase: SupabaseClient, schedule: ReportSchedule, now: Date) => {
+  const recipients = getRecipients(schedule);
+  if (recipients.length === 0) {
+    throw new Error("Schedule has no valid recipients");
+  }
+
+  const report = await generateReport(supabase, schedule, now);
+  const sender = await getSenderEmail(supabase, schedule);
+  const accessToken = await getAccessToken();
+
+  await sendReportViaGraph(accessToken, sender, recipients, report.subject, report.html, {
+    name: report.filename,
+    content: report.csv,
+  });
+
+  const { error: stampError } = await supabase
+    .from("report_schedules")
+    .update({ last_sent_at: now.toISOString() })
+    .eq("id", schedule.id);
+
+  if (stampError) {
+    console.error(`Failed to stamp last_sent_at for ${schedule.id}:`, stampError);
+  }
+
+  console.log(`Report "${schedule.name}" sent to ${recipients.length} recipient(s)`);
+  return { recipients: recipients.length, rowCount: report.rowCount };
+};
+
+// Manual preview/send is limited to admins; scheduled runs come from the cron job with the service key
+const requireAdmin = async (req: Request, supabase: SupabaseClient) => {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) throw new Error("Missing authorization header");
+
+  const supabaseUser = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+
+  const { data: { user }, error } = await supabaseUser.auth.getUser();
+  if (error || !user) throw new Error("Unauthorized");
+
+  const { data: roleData } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (roleData?.role !== "admin") {
+    throw new Error("Only admins can preview or send reports");
+  }
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  try {
+    let request: ReportRequest = {};
+    try {
+      request = await req.json();
+    } catch {
+      // No body - scheduled run
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+
+    // Single schedule: preview or send now from the settings page
+    if (request.scheduleId) {
+      await requireAdmin(req, supabase);
+
+      const { data: schedule, error } = await supabase
+        .from("report_schedules")
+        .select("*")
+        .eq("id", request.scheduleId)
+        .single();
+
+      if (error || !schedule) throw new Error("Report schedule not found");
+
+      if (request.mode === "preview") {
+        const report = await generateReport(supabase, schedule, now);
+        return jsonResponse({ success: true, ...report, recipients: getRecipients(schedule) });
+      }
+
+      const result = await sendSchedule(supabase, schedule, now);
+      return jsonResponse({ success: true, sent: 1, ...result });
+    }
+
+    // Forcing every enabled schedule out is a manual action
+    if (request.force === true) {
+      await requireAdmin(req, supabase);
+    }
+
+    console.log(`Starting send-scheduled-reports run (force: ${request.force === true})`);
+
+    const { data: schedules, error: schedulesError } = await supabase
+      .from("report_schedules")
+      .select("*")
+      .eq("is_enabled", true);
+
+    if (schedulesError) throw schedulesError;
+
+    const due = (schedules || []).filter(s => request.force === true || isScheduleDue(s, now));
+    console.log(`${due.length} of ${schedules?.length || 0} enabled schedules are due`);
+
+    const results: { scheduleId: string; success: boolean; error?: string }[] = [];
+    for (const schedule of due) {
+      try {
+        await sendSchedule(supabase, schedule, now);
+        results.push({ scheduleId: schedule.id, success: true });
+      } catch (err) {
+        console.error(`Failed to send report ${schedule.id}:`, err);
+        results.push({ scheduleId: schedule.id, success: false, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    const sent = results.filter(r => r.success).length;
+    return jsonResponse({
+      success: true,
+      message: `Sent ${sent} scheduled report${sent !== 1 ? "s" : ""}`,
+      sent,
+      failed: results.length - sent,
+      results,
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in send-scheduled-reports:", error);
+    return jsonResponse({ success: false, error: errorMessage }, 500);
+  }
+};
+
+serve(handler);
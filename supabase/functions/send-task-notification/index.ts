@@ -361,7 +361,7 @@ const handler = async (req: Request): Promise<Response> => {
     // Check notification preferences
     const { data: prefs } = await supabase
       .from("notification_preferences")
-      .select("email_notifications, task_reminders")
+      .select("email_notifications, task_reminders, notification_frequency")
       .eq("user_id", recipientUserId)
       .single();
 
@@ -373,6 +373,15 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
+    // Anything but instant is left to send-notification-digests, which picks up the in-app notification
+    if (prefs?.notification_frequency && prefs.notification_frequency !== "instant") {
+      console.log(`User ${recipientUserId} gets ${prefs.notification_frequency} digests, skipping individual email`);
+      return new Response(
+        JSON.stringify({ success: false, message: "Batched into notification digest" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     const appUrl = Deno.env.get("APP_URL") || "https://insidesales.realthingks.com";
     const emailHtml = generateEmailHtml(
       notificationType,
@@ -346,7 +346,7 @@ const handler = async (req: Request): Promise<Response> => {
     // Fetch notification preferences
     const { data: notifPrefs, error: prefsError } = await supabase
       .from("notification_preferences")
-      .select("user_id, task_reminders, email_notifications")
+      .select("user_id, task_reminders, email_notifications, notification_frequency")
       .in("user_id", userIds);
 
     if (prefsError) {
@@ -370,6 +370,12 @@ const handler = async (req: Request): Promise<Response> => {
         continue;
       }
 
+      // Their tasks go out with the daily or weekly digest instead
+      if (prefs?.notification_frequency && prefs.notification_frequency !== "instant") {
+        emailResults.push({ userId, success: false, skipped: "batched_in_digest" });
+        continue;
+      }
+
       const email = profile?.["Email ID"];
       if (!email) {
         console.log(`Skipping user ${userId} - no email found`);
@@ -0,0 +1,356 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Overridable so local runs can point at supabase/mocks/graph-server.ts
+const GRAPH_API_BASE_URL = Deno.env.get("GRAPH_API_BASE_URL") || "https://graph.microsoft.com/v1.0";
+const AZURE_LOGIN_BASE_URL = Deno.env.get("AZURE_LOGIN_BASE_URL") || "https://login.microsoftonline.com";
+
+// Only emails sent this recently are watched for replies and bounces
+const LOOKBACK_DAYS = 30;
+const PAGE_SIZE = 50;
+
+interface TrackedEmail {
+  id: string;
+  subject: string;
+  recipient_email: string;
+  sender_email: string;
+  sent_by: string | null;
+  sent_at: string;
+  conversation_id: string | null;
+  internet_message_id: string | null;
+  contact_id: string | null;
+  lead_id: string | null;
+  replied_at: string | null;
+  bounced_at: string | null;
+}
+
+interface GraphMessage {
+  id: string;
+  conversationId?: string;
+  internetMessageId?: string;
+  subject?: string;
+  bodyPreview?: string;
+  receivedDateTime: string;
+  from?: { emailAddress?: { address?: string; name?: string } };
+  internetMessageHeaders?: { name: string; value: string }[];
+}
+
+interface MailboxResult {
+  mailbox: string;
+  scanned: number;
+  replies: number;
+  bounces: number;
+  error?: string;
+}
+
+// Azure Graph API token (same as send-email)
+async function getAccessToken(): Promise<string> {
+  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID");
+  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID");
+  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET");
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error("Azure email credentials not configured");
+  }
+
+  const tokenUrl = `${AZURE_LOGIN_BASE_URL}/${tenantId}/oauth2/v2.0/token`;
+  const params = new URLSearchParams({
+    client_id: clientId,
+    client_secret: clientSecret,
+    scope: "https://graph.microsoft.com/.default",
+    grant_type: "client_credentials",
+  });
+
+  const response = await fetch(tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Azure token error:", errorText);
+    throw new Error(`Failed to get Azure access token: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+const fetchInboxMessages = async (accessToken: string, mailbox: string, since: string): Promise<GraphMessage[]> => {
+  const params = new URLSearchParams({
+    $filter: `receivedDateTime gt ${since}`,
+    $orderby: "receivedDateTime asc",
+    $select: "id,conversationId,internetMessageId,subject,bodyPreview,receivedDateTime,from,internetMessageHeaders",
+    $top: String(PAGE_SIZE),
+  });
+  let url: string | null =
+    `${GRAPH_API_BASE_URL}/users/${encodeURIComponent(mailbox)}/mailFolders/inbox/messages?${params.toString()}`;
+  const messages: GraphMessage[] = [];
+
+  while (url) {
+    const response = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to list inbox messages: ${response.status} ${errorText}`);
+    }
+    const page = await response.json();
+    messages.push(...(page.value || []));
+    url = page["@odata.nextLink"] || null;
+  }
+
+  return messages;
+};
+
+// Postgres and Graph format timestamps differently, so compare them as instants
+const toTime = (iso: string): number => new Date(iso).getTime();
+
+const getHeader = (message: GraphMessage, name: string): string | null =>
+  message.internetMessageHeaders?.find(h => h.name.toLowerCase() === name.toLowerCase())?.value ?? null;
+
+// Exchange flags its own NDRs; other servers send multipart/report from postmaster or mailer-daemon
+const isNonDeliveryReport = (message: GraphMessage): boolean => {
+  if (getHeader(message, "X-MS-Exchange-Message-Is-Ndr") !== null) return true;
+  if (/report-type=["']?delivery-status/i.test(getHeader(message, "Content-Type") || "")) return true;
+  const from = message.from?.emailAddress?.address || "";
+  return /^(postmaster|mailer-daemon)@/i.test(from) && /^(undeliverable|undelivered|delivery status notification)/i.test(message.subject || "");
+};
+
+// Message IDs of the original email quoted by an NDR
+const getReferencedMessageIds = (message: GraphMessage): string[] => {
+  const headers = [getHeader(message, "In-Reply-To"), getHeader(message, "References")].filter(Boolean).join(" ");
+  return headers.match(/<[^<>\s]+>/g) || [];
+};
+
+const logEmailEvent = async (
+  supabase: SupabaseClient,
+  email: TrackedEmail,
+  kind: "reply" | "bounce",
+  message: GraphMessage,
+) => {
+  const fromAddress = message.from?.emailAddress?.address || email.recipient_email;
+  const fromName = message.from?.emailAddress?.name || fromAddress;
+  const preview = (message.bodyPreview || "").slice(0, 500) || null;
+  const subject = kind === "reply" ? `Reply received: ${email.subject}` : `Email bounced: ${email.subject}`;
+
+  if (email.contact_id) {
+    const { error } = await supabase.from("contact_activities").insert({
+      contact_id: email.contact_id,
+      activity_type: "email",
+      subject,
+      description: preview,
+      activity_date: message.receivedDateTime,
+      outcome: kind === "reply" ? "replied" : "bounced",
+      created_by: email.sent_by,
+    });
+    if (error) console.error(`Error logging contact activity for email ${email.id}:`, error);
+  }
+
+  // Lead activities are tasks with an "[EMAIL]" title prefix, as logged from the lead detail view
+  if (email.lead_id) {
+    const { error } = await supabase.from("tasks").insert({
+      lead_id: email.lead_id,
+      title: `[EMAIL] ${subject}`,
+      description: preview,
+      status: "completed",
+      completed_at: message.receivedDateTime,
+      priority: kind === "reply" ? "medium" : "high",
+      created_by: email.sent_by,
+      module_type: "leads",
+    });
+    if (error) console.error(`Error logging lead activity for email ${email.id}:`, error);
+  }
+
+  if (email.sent_by) {
+    const { error } = await supabase.from("notifications").insert({
+      user_id: email.sent_by,
+      lead_id: email.lead_id,
+      message: kind === "reply"
+        ? `${fromName} replied to "${email.subject}"`
+        : `Your email "${email.subject}" to ${email.recipient_email} bounced`,
+      notification_type: kind === "reply" ? "email_reply" : "email_bounced",
+      status: "unread",
+    });
+    if (error) console.error(`Error notifying sender of email ${email.id}:`, error);
+  }
+};
+
+const syncMailbox = async (
+  supabase: SupabaseClient,
+  accessToken: string,
+  mailbox: string,
+  emails: TrackedEmail[],
+  lastReceivedAt: string | null,
+): Promise<MailboxResult> => {
+  const result: MailboxResult = { mailbox, scanned: 0, replies: 0, bounces: 0 };
+  const byConversation = new Map<string, TrackedEmail[]>();
+  const byMessageId = new Map<string, TrackedEmail>();
+
+  for (const email of emails) {
+    if (email.conversation_id) {
+      byConversation.set(email.conversation_id, [...(byConversation.get(email.conversation_id) || []), email]);
+    }
+    if (email.internet_message_id) {
+      byMessageId.set(email.internet_message_id, email);
+    }
+  }
+
+  // First sync of a mailbox starts from its oldest watched email
+  const since = lastReceivedAt || emails.reduce((min, e) => (toTime(e.sent_at) < toTime(min) ? e.sent_at : min), emails[0].sent_at);
+  const messages = await fetchInboxMessages(accessToken, mailbox, new Date(since).toISOString());
+  let newestReceivedAt = since;
+
+  for (const message of messages) {
+    result.scanned++;
+    if (toTime(message.receivedDateTime) > toTime(newestReceivedAt)) newestReceivedAt = message.receivedDateTime;
+
+    if (isNonDeliveryReport(message)) {
+      const email = getReferencedMessageIds(message).map(id => byMessageId.get(id)).find(Boolean);
+      if (!email || email.bounced_at) continue;
+
+      const { error } = await supabase
+        .from("email_history")
+        .update({
+          status: "bounced",
+          bounced_at: message.receivedDateTime,
+          bounce_reason: (message.bodyPreview || message.subject || "").slice(0, 500) || null,
+        })
+        .eq("id", email.id);
+      if (error) throw new Error(error.message);
+
+      email.bounced_at = message.receivedDateTime;
+      await logEmailEvent(supabase, email, "bounce", message);
+      result.bounces++;
+      continue;
+    }
+
+    const fromAddress = (message.from?.emailAddress?.address || "").toLowerCase();
+    if (!message.conversationId || fromAddress === mailbox) continue;
+
+    // The reply belongs to the latest email in the thread sent before it arrived
+    const email = (byConversation.get(message.conversationId) || [])
+      .filter(e => toTime(e.sent_at) <= toTime(message.receivedDateTime))
+      .sort((a, b) => toTime(b.sent_at) - toTime(a.sent_at))[0];
+    if (!email || email.replied_at) continue;
+
+    const { error } = await supabase
+      .from("email_history")
+      .update({ status: "replied", replied_at: message.receivedDateTime })
+      .eq("id", email.id);
+    if (error) throw new Error(error.message);
+
+    email.replied_at = message.receivedDateTime;
+    await logEmailEvent(supabase, email, "reply", message);
+    result.replies++;
+  }
+
+  await supabase.from("email_mailbox_sync").upsert({
+    mailbox,
+    last_received_at: newestReceivedAt,
+    last_synced_at: new Date().toISOString(),
+    last_error: null,
+    updated_at: new Date().toISOString(),
+  });
+
+  return result;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    console.log("Starting sync-email-replies function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const lookbackStart = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: emails, error: emailsError } = await supabase
+      .from("email_history")
+      .select("id, subject, recipient_email, sender_email, sent_by, sent_at, conversation_id, internet_message_id, contact_id, lead_id, replied_at, bounced_at")
+      .not("conversation_id", "is", null)
+      .gte("sent_at", lookbackStart);
+
+    if (emailsError) {
+      console.error("Error fetching sent emails:", emailsError);
+      throw new Error(emailsError.message);
+    }
+
+    const emailsByMailbox = new Map<string, TrackedEmail[]>();
+    for (const email of (emails || []) as TrackedEmail[]) {
+      const mailbox = email.sender_email.toLowerCase();
+      emailsByMailbox.set(mailbox, [...(emailsByMailbox.get(mailbox) || []), email]);
+    }
+
+    if (emailsByMailbox.size === 0) {
+      console.log("No sent emails to watch");
+      return new Response(
+        JSON.stringify({ success: true, mailboxesSynced: 0, results: [] }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: syncStates } = await supabase
+      .from("email_mailbox_sync")
+      .select("mailbox, last_received_at")
+      .in("mailbox", Array.from(emailsByMailbox.keys()));
+
+    const lastReceivedByMailbox = new Map<string, string | null>(
+      (syncStates || []).map(s => [s.mailbox, s.last_received_at])
+    );
+
+    const accessToken = await getAccessToken();
+    const results: MailboxResult[] = [];
+
+    for (const [mailbox, mailboxEmails] of emailsByMailbox) {
+      try {
+        results.push(await syncMailbox(supabase, accessToken, mailbox, mailboxEmails, lastReceivedByMailbox.get(mailbox) ?? null));
+      } catch (error: unknown) {
+        // One unreachable mailbox should not stop the others; keep its cursor where it was
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Error syncing mailbox ${mailbox}:`, errorMessage);
+        await supabase.from("email_mailbox_sync").upsert({
+          mailbox,
+          last_received_at: lastReceivedByMailbox.get(mailbox) ?? null,
+          last_synced_at: new Date().toISOString(),
+          last_error: errorMessage,
+          updated_at: new Date().toISOString(),
+        });
+        results.push({ mailbox, scanned: 0, replies: 0, bounces: 0, error: errorMessage });
+      }
+    }
+
+    console.log(
+      `Email sync complete: ${results.length} mailbox(es), ` +
+      `${results.reduce((n, r) => n + r.replies, 0)} replies, ${results.reduce((n, r) => n + r.bounces, 0)} bounces`
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: results.every(r => !r.error),
+        mailboxesSynced: results.length,
+        results,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in sync-email-replies:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,80 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getLinkSigningSecret, signLink, signaturesMatch } from "../_shared/email-link-signing.ts";
+
+const APP_URL = Deno.env.get("APP_URL") || "https://insidesales.realthingks.com";
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function hashUserAgent(userAgent: string | null): Promise<string | null> {
+  if (!userAgent) return null;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(userAgent));
+  return toHex(digest);
+}
+
+function redirect(location: string): Response {
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: location,
+      "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+    },
+  });
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  const url = new URL(req.url);
+  const emailId = url.searchParams.get("id");
+  const linkUrl = url.searchParams.get("url");
+  const signature = url.searchParams.get("sig");
+
+  // Only ever redirect to http(s) targets; anything else goes to the app
+  if (!linkUrl || !/^https?:\/\//i.test(linkUrl)) {
+    console.log("Missing or unsupported link URL, redirecting to app");
+    return redirect(APP_URL);
+  }
+
+  // An unsigned or tampered link would make this an open redirect
+  const secret = getLinkSigningSecret();
+  if (!secret) {
+    console.error("EMAIL_TRACKING_SECRET is not set, cannot verify click links");
+    return redirect(APP_URL);
+  }
+  if (!emailId || !signature || !signaturesMatch(signature, await signLink(secret, emailId, linkUrl))) {
+    console.warn(`Rejected click with invalid signature for email ${emailId}`);
+    return redirect(APP_URL);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const userAgentHash = await hashUserAgent(req.headers.get("user-agent"));
+
+    const { data: recorded, error } = await supabase.rpc("record_email_link_click", {
+      p_email_id: emailId,
+      p_link_url: linkUrl,
+      p_user_agent_hash: userAgentHash,
+    });
+
+    if (error) {
+      console.error("Error recording email click:", error);
+    } else if (!recorded) {
+      console.log(`Email ${emailId} no longer exists, click not recorded`);
+    } else {
+      console.log(`Tracked click for email ${emailId} on ${linkUrl}`);
+    }
+  } catch (error: unknown) {
+    // Never block the recipient on a tracking failure
+    console.error("Error tracking email click:", error instanceof Error ? error.message : error);
+  }
+
+  return redirect(linkUrl);
+};
+
+serve(handler);
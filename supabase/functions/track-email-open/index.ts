@@ -9,6 +9,9 @@ const TRACKING_PIXEL = new Uint8Array([
   0x00, 0x02, 0x02, 0x44, 0x01, 0x00, 0x3b,
 ]);
 
+// An open only moves these forward; replied and bounced emails keep their status
+const UPGRADABLE_STATUSES = ["sent", "delivered"];
+
 const handler = async (req: Request): Promise<Response> => {
   try {
     const url = new URL(req.url);
@@ -57,40 +60,46 @@ const handler = async (req: Request): Promise<Response> => {
     const { error: updateError } = await supabase
       .from("email_history")
       .update({
-        status: "opened",
         open_count: currentOpenCount + 1,
         opened_at: isFirstOpen ? new Date().toISOString() : undefined,
       })
       .eq("id", emailId);
 
+    // Conditional, so a reply or bounce recorded in the meantime is never overwritten
+    const { error: statusError } = await supabase
+      .from("email_history")
+      .update({ status: "opened" })
+      .eq("id", emailId)
+      .in("status", UPGRADABLE_STATUSES);
+
+    if (statusError) {
+      console.error("Error updating email status:", statusError);
+    }
+
     if (updateError) {
       console.error("Error updating email history:", updateError);
     } else {
       console.log(`Successfully tracked open for email ${emailId}, total opens: ${currentOpenCount + 1}`);
     }
 
-    // Update contact/lead email_opens and engagement_score if this is the first open
+    // Count the first open on the contact; the scoring rules rescore it from there
     if (isFirstOpen && emailData) {
       if (emailData.contact_id) {
         const { data: contact } = await supabase
           .from("contacts")
-          .select("email_opens, engagement_score")
+          .select("email_opens")
           .eq("id", emailData.contact_id)
           .single();
 
         if (contact) {
           const newOpens = (contact.email_opens || 0) + 1;
-          const newScore = Math.min((contact.engagement_score || 0) + 5, 100);
-          
+
           await supabase
             .from("contacts")
-            .update({
-              email_opens: newOpens,
-              engagement_score: newScore,
-            })
+            .update({ email_opens: newOpens })
             .eq("id", emailData.contact_id);
-          
-          console.log(`Updated contact ${emailData.contact_id} - opens: ${newOpens}, score: ${newScore}`);
+
+          console.log(`Updated contact ${emailData.contact_id} - opens: ${newOpens}`);
         }
       }
 
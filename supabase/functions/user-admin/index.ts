@@ -8,6 +8,139 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
 };
 
+// Reasons a client may give when revoking its own sessions
+const CLIENT_REVOKE_REASONS = ['revoked', 'signed_out'];
+
+// Actions a session may call before passing the authenticator step
+const MFA_EXEMPT_ACTIONS = ['register-session', 'redeem-recovery-code'];
+
+const getTokenClaim = (token: string, claim: string): string | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload))[claim] || null;
+  } catch {
+    return null;
+  }
+};
+
+// The auth session behind an access token, from its session_id claim
+const getSessionIdFromToken = (token: string): string | null => getTokenClaim(token, 'session_id');
+
+// Recovery codes are stored as the SHA-256 hex of their characters without the separator
+const hashRecoveryCode = async (code: string): Promise<string> => {
+  const normalized = code.toLowerCase().replace(/[^0-9a-f]/g, '');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Removes every authenticator of a user, which drops them back to password-only sign-in
+async function deleteMfaFactors(supabaseAdmin: ReturnType<typeof createClient>, userId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin.auth.admin.mfa.listFactors({ userId });
+  if (error) throw error;
+  const factors = data?.factors || [];
+  for (const factor of factors) {
+    const { error: deleteError } = await supabaseAdmin.auth.admin.mfa.deleteFactor({ id: factor.id, userId });
+    if (deleteError) throw deleteError;
+  }
+  return factors.length;
+}
+
+// Azure Graph API email functions (same as send-email)
+async function getAccessToken(): Promise<string> {
+  const tenantId = Deno.env.get('AZURE_EMAIL_TENANT_ID');
+  const clientId = Deno.env.get('AZURE_EMAIL_CLIENT_ID');
+  const clientSecret = Deno.env.get('AZURE_EMAIL_CLIENT_SECRET');
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error('Azure email credentials not configured');
+  }
+
+  const response = await fetch(`https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      scope: 'https://graph.microsoft.com/.default',
+      grant_type: 'client_credentials',
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    console.error('Azure token error:', await response.text());
+    throw new Error(`Failed to get Azure access token: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+async function sendEmailViaGraph(accessToken: string, to: string, toName: string, subject: string, body: string, from: string): Promise<void> {
+  const response = await fetch(`https://graph.microsoft.com/v1.0/users/${from}/sendMail`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      message: {
+        subject,
+        body: { contentType: 'HTML', content: body },
+        toRecipients: [{ emailAddress: { address: to, name: toName || to } }],
+      },
+      saveToSentItems: false,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('Graph API error:', await response.text());
+    throw new Error(`Failed to send email via Graph API: ${response.status}`);
+  }
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Tells the user about a sign-in from a browser they have not used before
+async function sendNewDeviceAlert(email: string, name: string, device: string, ipAddress: string | null): Promise<void> {
+  const appUrl = Deno.env.get('APP_URL') || 'https://insidesales.realthingks.com';
+  const signedInAt = new Date().toUTCString();
+  const html = `
+<!DOCTYPE html>
+<html>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f9fafb;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background: linear-gradient(135deg, #f59e0b, #d97706); padding: 32px; border-radius: 12px 12px 0 0; text-align: center;">
+      <h1 style="margin: 0; color: white; font-size: 24px; font-weight: 600;">🔐 New sign-in to your account</h1>
+    </div>
+    <div style="background: white; padding: 24px; border-radius: 0 0 12px 12px; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
+      <p style="margin: 0 0 16px; color: #374151; font-size: 16px;">
+        Hi <strong>${escapeHtml(name || 'there')}</strong>, your CRM account was just signed in to from a new device.
+      </p>
+      <table style="width: 100%; border-collapse: collapse; background: #f9fafb; border-radius: 8px; font-size: 14px; color: #374151;">
+        <tr><td style="padding: 10px 12px; color: #6b7280;">Device</td><td style="padding: 10px 12px;">${escapeHtml(device)}</td></tr>
+        <tr><td style="padding: 10px 12px; color: #6b7280;">IP address</td><td style="padding: 10px 12px;">${escapeHtml(ipAddress || 'Unknown')}</td></tr>
+        <tr><td style="padding: 10px 12px; color: #6b7280;">Time</td><td style="padding: 10px 12px;">${signedInAt}</td></tr>
+      </table>
+      <p style="margin: 16px 0 24px; color: #374151; font-size: 14px;">
+        If this was you, there is nothing to do. If not, sign out that session and change your password right away.
+      </p>
+      <div style="text-align: center;">
+        <a href="${appUrl}/settings?tab=account" style="display: inline-block; padding: 12px 32px; background: #3b82f6; color: white; text-decoration: none; border-radius: 8px; font-weight: 500; font-size: 14px;">
+          Review active sessions →
+        </a>
+      </div>
+    </div>
+  </div>
+</body>
+</html>`;
+
+  const accessToken = await getAccessToken();
+  // Self-sent unless a shared security mailbox is configured
+  const sender = Deno.env.get('SECURITY_ALERT_SENDER_EMAIL') || email;
+  await sendEmailViaGraph(accessToken, email, name, '🔐 New sign-in to your CRM account', html, sender);
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -67,6 +200,28 @@ serve(async (req) => {
     console.log('User role from database:', userRoleFromDB?.role || 'no role found');
     console.log('Effective role:', effectiveRole, 'isAdmin:', isAdmin);
 
+    // A password-only (aal1) session of a user with an authenticator, or whose
+    // role requires one, may only register itself or redeem a recovery code
+    if (getTokenClaim(token, 'aal') !== 'aal2') {
+      const hasVerifiedFactor = (user.user.factors || []).some(f => f.status === 'verified');
+      const { data: mfaPolicy } = await supabaseAdmin
+        .from('session_policies')
+        .select('require_mfa')
+        .eq('role', effectiveRole)
+        .maybeSingle();
+
+      if (hasVerifiedFactor || mfaPolicy?.require_mfa) {
+        const { action } = req.method === 'POST' ? await req.clone().json().catch(() => ({})) : { action: undefined };
+        if (!MFA_EXEMPT_ACTIONS.includes(action)) {
+          console.log('Rejected request without 2FA from:', user.user.email, 'action:', action);
+          return new Response(
+            JSON.stringify({ error: 'Two-factor authentication required' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+    }
+
     // GET - List all users (allow all authenticated users to view)
     if (req.method === 'GET') {
       console.log('Fetching users list...');
@@ -96,6 +251,296 @@ serve(async (req) => {
       const body = await req.json();
       console.log('POST request body:', JSON.stringify(body, null, 2));
       
+      // Record the caller's sign-in, enforce the session limit of their role and
+      // alert them when the browser is new
+      if (body.action === 'register-session') {
+        const authSessionId = getSessionIdFromToken(token);
+        if (!authSessionId) {
+          return new Response(
+            JSON.stringify({ error: 'Access token has no session' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: existing } = await supabaseAdmin
+          .from('user_sessions')
+          .select('id, is_active, revoke_reason')
+          .eq('auth_session_id', authSessionId)
+          .maybeSingle();
+
+        if (existing) {
+          if (!existing.is_active) {
+            return new Response(
+              JSON.stringify({ success: false, status: existing.revoke_reason || 'revoked' }),
+              { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+          await supabaseAdmin
+            .from('user_sessions')
+            .update({ last_active_at: new Date().toISOString() })
+            .eq('id', existing.id);
+          return new Response(
+            JSON.stringify({ success: true, status: 'active', sessionId: existing.id }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const userAgent: string | null = body.userAgent || req.headers.get('user-agent');
+        const ipAddress = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null;
+
+        const [{ count: previousSessions }, { count: sameDeviceSessions }] = await Promise.all([
+          supabaseAdmin.from('user_sessions').select('id', { count: 'exact', head: true }).eq('user_id', user.user.id),
+          supabaseAdmin
+            .from('user_sessions')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', user.user.id)
+            .eq('user_agent', userAgent || ''),
+        ]);
+
+        const { data: created, error: insertError } = await supabaseAdmin
+          .from('user_sessions')
+          .insert({
+            user_id: user.user.id,
+            session_token: authSessionId,
+            auth_session_id: authSessionId,
+            ip_address: ipAddress,
+            user_agent: userAgent,
+            device_info: body.deviceInfo || null,
+            last_active_at: new Date().toISOString(),
+            is_active: true,
+          })
+          .select('id')
+          .single();
+
+        if (insertError) {
+          console.error('Error registering session:', insertError);
+          return new Response(
+            JSON.stringify({ error: `Session registration failed: ${insertError.message}` }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Over the limit, the least recently used sessions make room for this one
+        const { data: policy } = await supabaseAdmin
+          .from('session_policies')
+          .select('max_concurrent_sessions')
+          .eq('role', effectiveRole)
+          .maybeSingle();
+
+        let revokedForLimit = 0;
+        if (policy?.max_concurrent_sessions) {
+          const { data: activeSessions } = await supabaseAdmin
+            .from('user_sessions')
+            .select('id')
+            .eq('user_id', user.user.id)
+            .eq('is_active', true)
+            .neq('id', created.id)
+            .order('last_active_at', { ascending: false });
+
+          const excess = (activeSessions || []).slice(policy.max_concurrent_sessions - 1).map(s => s.id);
+          if (excess.length > 0) {
+            const { data: count, error: revokeError } = await supabaseAdmin.rpc('revoke_user_sessions', {
+              p_session_ids: excess,
+              p_revoked_by: null,
+              p_reason: 'session_limit',
+            });
+            if (revokeError) console.error('Error enforcing session limit:', revokeError);
+            revokedForLimit = count || 0;
+          }
+        }
+
+        // A first sign-in is expected; only known accounts on an unseen browser get an alert
+        if ((previousSessions || 0) > 0 && (sameDeviceSessions || 0) === 0 && user.user.email) {
+          const device = body.deviceInfo?.browser && body.deviceInfo?.os
+            ? `${body.deviceInfo.browser} on ${body.deviceInfo.os}`
+            : userAgent || 'Unknown device';
+          try {
+            await sendNewDeviceAlert(user.user.email, user.user.user_metadata?.full_name || '', device, ipAddress);
+          } catch (alertError) {
+            console.error('Failed to send new device alert:', alertError);
+          }
+        }
+
+        console.log('Session registered for:', user.user.email, 'revoked for limit:', revokedForLimit);
+        return new Response(
+          JSON.stringify({ success: true, status: 'active', sessionId: created.id, revokedForLimit }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Revoke sessions for real: the auth session and its refresh tokens are deleted.
+      // Users revoke their own; admins may pass userId to revoke someone else's.
+      if (body.action === 'revoke-sessions') {
+        const { sessionIds, scope, userId: targetUserId } = body;
+        const ownerId = targetUserId || user.user.id;
+        if (ownerId !== user.user.id && !isAdmin) {
+          return new Response(
+            JSON.stringify({ error: "Only Admins can revoke other users' sessions" }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        let query = supabaseAdmin
+          .from('user_sessions')
+          .select('id')
+          .eq('user_id', ownerId)
+          .eq('is_active', true);
+
+        if (Array.isArray(sessionIds) && sessionIds.length > 0) {
+          query = query.in('id', sessionIds);
+        } else if (scope === 'others') {
+          query = query.neq('auth_session_id', getSessionIdFromToken(token) || '');
+        } else if (scope !== 'all') {
+          return new Response(
+            JSON.stringify({ error: 'Session IDs or a scope (others/all) are required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: sessions, error: sessionsError } = await query;
+        if (sessionsError) {
+          console.error('Error loading sessions to revoke:', sessionsError);
+          return new Response(
+            JSON.stringify({ error: `Failed to load sessions: ${sessionsError.message}` }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const ids = (sessions || []).map(s => s.id);
+        if (ids.length === 0) {
+          return new Response(
+            JSON.stringify({ success: true, revoked: 0 }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data: revoked, error: revokeError } = await supabaseAdmin.rpc('revoke_user_sessions', {
+          p_session_ids: ids,
+          p_revoked_by: user.user.id,
+          p_reason: CLIENT_REVOKE_REASONS.includes(body.reason) ? body.reason : 'revoked',
+        });
+
+        if (revokeError) {
+          console.error('Error revoking sessions:', revokeError);
+          return new Response(
+            JSON.stringify({ error: `Session revocation failed: ${revokeError.message}` }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        console.log('Revoked', revoked, 'sessions of', ownerId, 'by', user.user.email);
+        return new Response(
+          JSON.stringify({ success: true, revoked }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // A recovery code stands in for a lost authenticator: it removes the user's
+      // factors so the session no longer needs the second step. Each code works once.
+      if (body.action === 'redeem-recovery-code') {
+        if (!body.code) {
+          return new Response(
+            JSON.stringify({ error: 'Recovery code is required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const codeHash = await hashRecoveryCode(String(body.code));
+        const { data: redeemed, error: redeemError } = await supabaseAdmin
+          .from('mfa_recovery_codes')
+          .update({ used_at: new Date().toISOString() })
+          .eq('user_id', user.user.id)
+          .eq('code_hash', codeHash)
+          .is('used_at', null)
+          .select('id')
+          .maybeSingle();
+
+        if (redeemError || !redeemed) {
+          await supabaseAdmin.rpc('log_security_event', {
+            p_action: 'MFA_RECOVERY_CODE_REJECTED',
+            p_resource_type: 'auth.mfa_factors',
+            p_resource_id: user.user.id,
+            p_details: { user_email: user.user.email },
+          });
+          return new Response(
+            JSON.stringify({ error: 'Invalid or already used recovery code' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        try {
+          const removed = await deleteMfaFactors(supabaseAdmin, user.user.id);
+          // The remaining codes belonged to the removed authenticator
+          await supabaseAdmin.from('mfa_recovery_codes').delete().eq('user_id', user.user.id);
+
+          await supabaseAdmin.rpc('log_security_event', {
+            p_action: 'MFA_RECOVERY_CODE_USED',
+            p_resource_type: 'auth.mfa_factors',
+            p_resource_id: user.user.id,
+            p_details: { user_email: user.user.email, factors_removed: removed },
+          });
+
+          console.log('Recovery code redeemed by:', user.user.email, 'factors removed:', removed);
+          return new Response(
+            JSON.stringify({ success: true, factorsRemoved: removed }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        } catch (error) {
+          console.error('Error removing factors after recovery:', error);
+          return new Response(
+            JSON.stringify({ error: `Recovery failed: ${error instanceof Error ? error.message : String(error)}` }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+
+      // Remove a user's authenticators and recovery codes, e.g. after a lost phone (admin only)
+      if (body.action === 'reset-mfa') {
+        if (!isAdmin) {
+          console.log('Non-admin user attempted 2FA reset:', user.user.email);
+          return new Response(
+            JSON.stringify({ error: 'Only Admins can reset two-factor authentication' }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { userId } = body;
+        if (!userId) {
+          return new Response(
+            JSON.stringify({ error: 'User ID is required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        try {
+          const removed = await deleteMfaFactors(supabaseAdmin, userId);
+          await supabaseAdmin.from('mfa_recovery_codes').delete().eq('user_id', userId);
+
+          await supabaseAdmin.rpc('log_security_event', {
+            p_action: 'MFA_RESET',
+            p_resource_type: 'auth.mfa_factors',
+            p_resource_id: userId,
+            p_details: {
+              reset_by: user.user.id,
+              reset_by_email: user.user.email,
+              factors_removed: removed,
+            },
+          });
+
+          console.log('2FA reset for user:', userId, 'by', user.user.email, 'factors removed:', removed);
+          return new Response(
+            JSON.stringify({ success: true, factorsRemoved: removed }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        } catch (error) {
+          console.error('Error resetting 2FA:', error);
+          return new Response(
+            JSON.stringify({ error: `2FA reset failed: ${error instanceof Error ? error.message : String(error)}` }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+
       // Handle password reset with new password (admin only)
       if (body.action === 'reset-password') {
         if (!isAdmin) {
@@ -374,6 +819,24 @@ serve(async (req) => {
         }
       }
 
+      // A deactivated user is signed out everywhere straight away
+      if (action === 'deactivate') {
+        const { data: activeSessions } = await supabaseAdmin
+          .from('user_sessions')
+          .select('id')
+          .eq('user_id', userId)
+          .eq('is_active', true);
+
+        if (activeSessions && activeSessions.length > 0) {
+          const { error: revokeError } = await supabaseAdmin.rpc('revoke_user_sessions', {
+            p_session_ids: activeSessions.map(s => s.id),
+            p_revoked_by: user.user.id,
+            p_reason: 'user_deactivated',
+          });
+          if (revokeError) console.warn('Failed to revoke sessions of deactivated user:', revokeError);
+        }
+      }
+
       // Update profile if display name changed
       if (displayName !== undefined) {
         try {
@@ -0,0 +1,230 @@
+-- Approval workflow enforcement
+-- Requests now carry the held-back change so it can be applied once every step approves
+
+ALTER TABLE public.approval_requests ADD COLUMN IF NOT EXISTS action_type TEXT NOT NULL DEFAULT 'update'; -- create, update, stage_change
+ALTER TABLE public.approval_requests ADD COLUMN IF NOT EXISTS pending_changes JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.approval_requests ADD COLUMN IF NOT EXISTS entity_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_approval_requests_entity ON public.approval_requests(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_approval_requests_status ON public.approval_requests(status);
+CREATE INDEX IF NOT EXISTS idx_approval_actions_request_id ON public.approval_actions(request_id);
+
+-- Returns true when the user may act on the current step of a request
+CREATE OR REPLACE FUNCTION public.can_act_on_approval_step(p_request_id uuid, p_user_id uuid DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request approval_requests%ROWTYPE;
+  v_step jsonb;
+BEGIN
+  SELECT * INTO v_request FROM approval_requests WHERE id = p_request_id;
+
+  IF NOT FOUND OR v_request.status <> 'pending' THEN
+    RETURN false;
+  END IF;
+
+  -- Admins can always act; everyone else cannot approve their own request
+  IF is_user_admin(p_user_id) THEN
+    RETURN true;
+  END IF;
+
+  IF v_request.submitted_by = p_user_id THEN
+    RETURN false;
+  END IF;
+
+  SELECT s INTO v_step
+  FROM approval_workflows w, jsonb_array_elements(w.approval_steps) s
+  WHERE w.id = v_request.workflow_id
+    AND (s->>'step')::int = v_request.current_step;
+
+  IF v_step IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF COALESCE(v_step->>'user_id', '') <> '' THEN
+    RETURN (v_step->>'user_id')::uuid = p_user_id;
+  END IF;
+
+  RETURN get_user_role(p_user_id)::text = v_step->>'role';
+END;
+$$;
+
+-- Notify everyone who can act on the current step of a request
+CREATE OR REPLACE FUNCTION public.notify_approval_step(p_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request approval_requests%ROWTYPE;
+  v_step jsonb;
+  v_label text;
+BEGIN
+  SELECT * INTO v_request FROM approval_requests WHERE id = p_request_id;
+
+  SELECT s INTO v_step
+  FROM approval_workflows w, jsonb_array_elements(w.approval_steps) s
+  WHERE w.id = v_request.workflow_id
+    AND (s->>'step')::int = v_request.current_step;
+
+  IF v_step IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_label := rtrim(v_request.entity_type, 's') || ' "' || COALESCE(v_request.entity_name, 'Untitled') || '"';
+
+  INSERT INTO notifications (user_id, message, notification_type)
+  SELECT ur.user_id,
+         'Approval needed (step ' || v_request.current_step || '): ' || v_label,
+         'approval_request'
+  FROM user_roles ur
+  WHERE ur.user_id IS DISTINCT FROM v_request.submitted_by
+    AND (
+      CASE
+        WHEN COALESCE(v_step->>'user_id', '') <> '' THEN ur.user_id = (v_step->>'user_id')::uuid
+        ELSE ur.role::text = v_step->>'role'
+      END
+    );
+END;
+$$;
+
+-- Submit a change for approval; the change itself is held on the request
+CREATE OR REPLACE FUNCTION public.submit_approval_request(
+  p_workflow_id uuid,
+  p_entity_type text,
+  p_entity_id uuid,
+  p_entity_name text,
+  p_action_type text,
+  p_pending_changes jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_entity_type NOT IN ('deals', 'leads', 'accounts') THEN
+    RAISE EXCEPTION 'Unsupported entity type: %', p_entity_type;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM approval_requests
+    WHERE entity_type = p_entity_type AND entity_id = p_entity_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'This record already has a pending approval request';
+  END IF;
+
+  INSERT INTO approval_requests (workflow_id, entity_type, entity_id, entity_name, action_type, pending_changes, submitted_by)
+  VALUES (p_workflow_id, p_entity_type, p_entity_id, p_entity_name, p_action_type, COALESCE(p_pending_changes, '{}'::jsonb), auth.uid())
+  RETURNING id INTO v_request_id;
+
+  PERFORM notify_approval_step(v_request_id);
+
+  RETURN v_request_id;
+END;
+$$;
+
+-- Record an approve/reject decision, advance the request and apply the held change on final approval
+CREATE OR REPLACE FUNCTION public.process_approval_action(
+  p_request_id uuid,
+  p_action text,
+  p_comments text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request approval_requests%ROWTYPE;
+  v_total_steps integer;
+  v_columns text;
+  v_status text;
+  v_label text;
+BEGIN
+  IF p_action NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid approval action: %', p_action;
+  END IF;
+
+  SELECT * INTO v_request FROM approval_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval request not found';
+  END IF;
+
+  IF NOT can_act_on_approval_step(p_request_id) THEN
+    RAISE EXCEPTION 'You are not an approver for the current step of this request';
+  END IF;
+
+  INSERT INTO approval_actions (request_id, step_number, approver_id, action, comments)
+  VALUES (p_request_id, v_request.current_step, auth.uid(), p_action, p_comments);
+
+  SELECT jsonb_array_length(approval_steps) INTO v_total_steps
+  FROM approval_workflows WHERE id = v_request.workflow_id;
+
+  v_label := rtrim(v_request.entity_type, 's') || ' "' || COALESCE(v_request.entity_name, 'Untitled') || '"';
+
+  IF p_action = 'rejected' THEN
+    v_status := 'rejected';
+  ELSIF v_request.current_step < COALESCE(v_total_steps, 1) THEN
+    UPDATE approval_requests SET current_step = current_step + 1 WHERE id = p_request_id;
+    PERFORM notify_approval_step(p_request_id);
+    RETURN 'pending';
+  ELSE
+    v_status := 'approved';
+
+    -- Only apply keys that are real columns of the target table
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+    INTO v_columns
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = v_request.entity_type
+      AND c.column_name <> 'id'
+      AND v_request.pending_changes ? c.column_name;
+
+    IF v_columns IS NOT NULL THEN
+      IF v_request.action_type = 'create' THEN
+        EXECUTE format(
+          'INSERT INTO public.%I (id, %s) SELECT $2, %s FROM jsonb_populate_record(NULL::public.%I, $1)',
+          v_request.entity_type, v_columns, v_columns, v_request.entity_type
+        ) USING v_request.pending_changes, v_request.entity_id;
+      ELSE
+        EXECUTE format(
+          'UPDATE public.%I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)) WHERE id = $2',
+          v_request.entity_type, v_columns, v_columns, v_request.entity_type
+        ) USING v_request.pending_changes, v_request.entity_id;
+      END IF;
+    END IF;
+  END IF;
+
+  UPDATE approval_requests
+  SET status = v_status, completed_at = now()
+  WHERE id = p_request_id;
+
+  IF v_request.submitted_by IS NOT NULL THEN
+    INSERT INTO notifications (user_id, message, notification_type)
+    VALUES (
+      v_request.submitted_by,
+      'Your change to ' || v_label || ' was ' || v_status || COALESCE(': ' || NULLIF(p_comments, ''), ''),
+      'approval_' || v_status
+    );
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+-- Approvals inbox page
+INSERT INTO page_permissions (page_name, route, description, admin_access, manager_access, user_access)
+VALUES ('Approvals', '/approvals', 'Review and act on approval requests', true, true, true)
+ON CONFLICT (route) DO NOTHING;
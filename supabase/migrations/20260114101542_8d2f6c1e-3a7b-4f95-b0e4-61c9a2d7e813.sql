@@ -0,0 +1,54 @@
+-- Custom field values live on each record, keyed by crm_custom_fields.field_name
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.accounts ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_leads_custom_fields ON public.leads USING GIN (custom_fields);
+CREATE INDEX IF NOT EXISTS idx_contacts_custom_fields ON public.contacts USING GIN (custom_fields);
+CREATE INDEX IF NOT EXISTS idx_accounts_custom_fields ON public.accounts USING GIN (custom_fields);
+CREATE INDEX IF NOT EXISTS idx_deals_custom_fields ON public.deals USING GIN (custom_fields);
+
+-- Field names become JSON keys and CSV headers, keep them machine friendly
+ALTER TABLE public.crm_custom_fields DROP CONSTRAINT IF EXISTS crm_custom_fields_field_name_format;
+ALTER TABLE public.crm_custom_fields
+  ADD CONSTRAINT crm_custom_fields_field_name_format CHECK (field_name ~ '^[a-z][a-z0-9_]*$');
+
+ALTER TABLE public.crm_custom_fields DROP CONSTRAINT IF EXISTS crm_custom_fields_entity_type_check;
+ALTER TABLE public.crm_custom_fields
+  ADD CONSTRAINT crm_custom_fields_entity_type_check CHECK (entity_type IN ('lead', 'contact', 'account', 'deal'));
+
+ALTER TABLE public.crm_custom_fields DROP CONSTRAINT IF EXISTS crm_custom_fields_field_type_check;
+ALTER TABLE public.crm_custom_fields
+  ADD CONSTRAINT crm_custom_fields_field_type_check CHECK (field_type IN ('text', 'number', 'date', 'select', 'multiselect', 'boolean'));
+
+CREATE INDEX IF NOT EXISTS idx_crm_custom_fields_entity ON public.crm_custom_fields (entity_type, display_order);
+
+-- Drop the stored value when a field definition is removed
+CREATE OR REPLACE FUNCTION public.cleanup_custom_field_values()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  CASE OLD.entity_type
+    WHEN 'lead' THEN
+      UPDATE leads SET custom_fields = custom_fields - OLD.field_name WHERE custom_fields ? OLD.field_name;
+    WHEN 'contact' THEN
+      UPDATE contacts SET custom_fields = custom_fields - OLD.field_name WHERE custom_fields ? OLD.field_name;
+    WHEN 'account' THEN
+      UPDATE accounts SET custom_fields = custom_fields - OLD.field_name WHERE custom_fields ? OLD.field_name;
+    WHEN 'deal' THEN
+      UPDATE deals SET custom_fields = custom_fields - OLD.field_name WHERE custom_fields ? OLD.field_name;
+    ELSE
+      NULL;
+  END CASE;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cleanup_custom_field_values_on_delete ON public.crm_custom_fields;
+CREATE TRIGGER cleanup_custom_field_values_on_delete
+  AFTER DELETE ON public.crm_custom_fields
+  FOR EACH ROW EXECUTE FUNCTION public.cleanup_custom_field_values();
@@ -0,0 +1,28 @@
+-- Reminders are sent once per window; moving a meeting re-arms them for the new time
+CREATE OR REPLACE FUNCTION public.reset_meeting_reminders_on_reschedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.start_time IS DISTINCT FROM OLD.start_time THEN
+    UPDATE public.meeting_reminders
+    SET sent_15min = false,
+        sent_1hr = false,
+        sent_1day = false,
+        updated_at = now()
+    WHERE meeting_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_meeting_reminders_on_reschedule ON public.meetings;
+CREATE TRIGGER reset_meeting_reminders_on_reschedule
+  AFTER UPDATE OF start_time ON public.meetings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_meeting_reminders_on_reschedule();
+
+-- The dispatcher looks up upcoming meetings by start time on every run
+CREATE INDEX IF NOT EXISTS idx_meetings_start_time ON public.meetings (start_time);
@@ -0,0 +1,137 @@
+-- Recurring tasks: occurrences of a series point at the first task through parent_task_id
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON public.tasks(parent_task_id);
+
+-- Create the occurrence that follows p_task_id in its series, copying assignee, links and subtasks.
+-- Returns the new task id, or NULL when the series has ended or the next occurrence already exists.
+CREATE OR REPLACE FUNCTION public.generate_next_task_occurrence(p_task_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks%ROWTYPE;
+  v_series_id uuid;
+  v_anchor date;
+  v_next date;
+  v_step integer := 1;
+  v_new_id uuid;
+BEGIN
+  SELECT * INTO v_task FROM public.tasks WHERE id = p_task_id;
+
+  IF NOT FOUND
+     OR v_task.due_date IS NULL
+     OR COALESCE(v_task.recurrence, 'none') NOT IN ('daily', 'weekly', 'monthly', 'yearly') THEN
+    RETURN NULL;
+  END IF;
+
+  v_series_id := COALESCE(v_task.parent_task_id, v_task.id);
+
+  -- Completion and the scheduled pass can reach the same series at once
+  PERFORM pg_advisory_xact_lock(hashtext('task_series:' || v_series_id::text));
+
+  SELECT due_date INTO v_anchor FROM public.tasks WHERE id = v_series_id;
+  v_anchor := COALESCE(v_anchor, v_task.due_date);
+
+  -- Step from the series start so month-end dates don't drift (31st -> 28th -> 28th)
+  LOOP
+    v_next := CASE v_task.recurrence
+      WHEN 'daily' THEN v_anchor + v_step
+      WHEN 'weekly' THEN v_anchor + v_step * 7
+      WHEN 'monthly' THEN (v_anchor + make_interval(months => v_step))::date
+      ELSE (v_anchor + make_interval(years => v_step))::date
+    END;
+    EXIT WHEN v_next > v_task.due_date;
+    v_step := v_step + 1;
+  END LOOP;
+
+  IF v_task.recurrence_end_date IS NOT NULL AND v_next > v_task.recurrence_end_date THEN
+    RETURN NULL;
+  END IF;
+
+  -- The series has already moved past this occurrence
+  IF EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE (id = v_series_id OR parent_task_id = v_series_id)
+      AND due_date >= v_next
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.tasks (
+    title, description, status, priority, category, due_date, due_time, reminder_date,
+    assigned_to, created_by, module_type, account_id, contact_id, lead_id, meeting_id, deal_id,
+    tags, recurrence, recurrence_end_date, parent_task_id
+  )
+  VALUES (
+    v_task.title, v_task.description, 'open', v_task.priority, v_task.category, v_next, v_task.due_time,
+    v_task.reminder_date + make_interval(days => v_next - v_task.due_date),
+    v_task.assigned_to, v_task.created_by, v_task.module_type, v_task.account_id, v_task.contact_id,
+    v_task.lead_id, v_task.meeting_id, v_task.deal_id,
+    v_task.tags, v_task.recurrence, v_task.recurrence_end_date, v_series_id
+  )
+  RETURNING id INTO v_new_id;
+
+  INSERT INTO public.task_subtasks (task_id, title, order_index)
+  SELECT v_new_id, title, order_index
+  FROM public.task_subtasks
+  WHERE task_id = p_task_id;
+
+  RETURN v_new_id;
+END;
+$$;
+
+-- Completing an occurrence schedules the next one
+CREATE OR REPLACE FUNCTION public.handle_recurring_task_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    PERFORM public.generate_next_task_occurrence(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS generate_next_recurring_task ON public.tasks;
+CREATE TRIGGER generate_next_recurring_task
+AFTER UPDATE OF status ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_recurring_task_completion();
+
+-- Scheduled pass: keep series moving when the latest occurrence falls due without being completed
+CREATE OR REPLACE FUNCTION public.generate_due_recurring_tasks()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_latest record;
+  v_created integer := 0;
+BEGIN
+  FOR v_latest IN
+    SELECT DISTINCT ON (COALESCE(parent_task_id, id)) id, due_date
+    FROM public.tasks
+    WHERE due_date IS NOT NULL
+      AND (parent_task_id IS NOT NULL OR COALESCE(recurrence, 'none') <> 'none')
+    ORDER BY COALESCE(parent_task_id, id), due_date DESC, created_at DESC
+  LOOP
+    IF v_latest.due_date <= CURRENT_DATE
+       AND public.generate_next_task_occurrence(v_latest.id) IS NOT NULL THEN
+      v_created := v_created + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+-- Only the trigger and the generate-recurring-tasks function create occurrences
+REVOKE EXECUTE ON FUNCTION public.generate_next_task_occurrence(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.generate_due_recurring_tasks() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_next_task_occurrence(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.generate_due_recurring_tasks() TO service_role;
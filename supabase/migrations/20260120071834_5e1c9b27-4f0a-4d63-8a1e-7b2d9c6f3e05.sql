@@ -0,0 +1,110 @@
+-- Scheduled backups: schedule settings, per-schedule retention and run history
+
+ALTER TABLE public.backup_schedules
+  ADD COLUMN IF NOT EXISTS day_of_month INTEGER, -- 1-31 for monthly, clamped to the month's last day
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+  ADD COLUMN IF NOT EXISTS include_audit_logs BOOLEAN NOT NULL DEFAULT true,
+  -- Grandfather-father-son retention; replaces retention_days
+  ADD COLUMN IF NOT EXISTS keep_daily INTEGER NOT NULL DEFAULT 7,
+  ADD COLUMN IF NOT EXISTS keep_weekly INTEGER NOT NULL DEFAULT 4,
+  ADD COLUMN IF NOT EXISTS keep_monthly INTEGER NOT NULL DEFAULT 6,
+  ADD COLUMN IF NOT EXISTS last_status TEXT, -- success, failed
+  ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+ALTER TABLE public.backups
+  ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES public.backup_schedules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_backups_schedule_id ON public.backups(schedule_id);
+
+CREATE TABLE IF NOT EXISTS public.backup_schedule_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID NOT NULL REFERENCES public.backup_schedules(id) ON DELETE CASCADE,
+  backup_id UUID REFERENCES public.backups(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'running', -- running, success, failed
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  records_count INTEGER,
+  size_bytes BIGINT,
+  pruned_count INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  triggered_by UUID -- set for "run now", null for scheduled runs
+);
+
+ALTER TABLE public.backup_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view backup schedule runs" ON public.backup_schedule_runs
+  FOR SELECT USING (is_user_admin());
+
+CREATE INDEX IF NOT EXISTS idx_backup_schedule_runs_schedule ON public.backup_schedule_runs(schedule_id, started_at DESC);
+
+-- First run strictly after p_after, with time_of_day read in the schedule's timezone
+CREATE OR REPLACE FUNCTION public.compute_backup_next_run(
+  p_frequency TEXT,
+  p_day_of_week INTEGER,
+  p_day_of_month INTEGER,
+  p_time_of_day TIME,
+  p_timezone TEXT,
+  p_after TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_start DATE := (p_after AT TIME ZONE p_timezone)::date;
+  v_day DATE;
+  v_last_day INTEGER;
+  v_candidate TIMESTAMPTZ;
+BEGIN
+  FOR i IN 0..62 LOOP
+    v_day := v_start + i;
+    v_last_day := EXTRACT(DAY FROM (date_trunc('month', v_day) + interval '1 month - 1 day'))::integer;
+
+    IF p_frequency = 'daily'
+       OR (p_frequency = 'weekly' AND EXTRACT(DOW FROM v_day)::integer = COALESCE(p_day_of_week, 0))
+       OR (p_frequency = 'monthly' AND EXTRACT(DAY FROM v_day)::integer = LEAST(COALESCE(p_day_of_month, 1), v_last_day)) THEN
+      v_candidate := (v_day + p_time_of_day) AT TIME ZONE p_timezone;
+      IF v_candidate > p_after THEN
+        RETURN v_candidate;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Keep next_run_at in step with the schedule; clearing it (as the executor does after a run) recomputes it
+CREATE OR REPLACE FUNCTION public.set_backup_schedule_next_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT COALESCE(NEW.is_enabled, false) THEN
+    NEW.next_run_at := NULL;
+  ELSIF TG_OP = 'INSERT'
+     OR NEW.next_run_at IS NULL
+     OR NEW.frequency IS DISTINCT FROM OLD.frequency
+     OR NEW.day_of_week IS DISTINCT FROM OLD.day_of_week
+     OR NEW.day_of_month IS DISTINCT FROM OLD.day_of_month
+     OR NEW.time_of_day IS DISTINCT FROM OLD.time_of_day
+     OR NEW.timezone IS DISTINCT FROM OLD.timezone
+     OR NEW.is_enabled IS DISTINCT FROM OLD.is_enabled THEN
+    NEW.next_run_at := public.compute_backup_next_run(
+      NEW.frequency, NEW.day_of_week, NEW.day_of_month, NEW.time_of_day, NEW.timezone, now()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_backup_schedule_next_run ON public.backup_schedules;
+CREATE TRIGGER set_backup_schedule_next_run
+  BEFORE INSERT OR UPDATE ON public.backup_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_backup_schedule_next_run();
+
+-- Schedules enabled before this migration get a next run
+UPDATE public.backup_schedules SET next_run_at = NULL WHERE is_enabled = true;
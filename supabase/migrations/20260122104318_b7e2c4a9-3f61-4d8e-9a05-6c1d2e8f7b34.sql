@@ -0,0 +1,250 @@
+-- Configurable deal pipeline: deals.stage follows pipeline_stages instead of a fixed list
+
+-- Deal fields shown in each stage's section of the deal form
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN IF NOT EXISTS form_fields TEXT[] NOT NULL DEFAULT '{}';
+
+-- The original seed put Discussions after Offered; put the default stages back in
+-- deal-flow order, but only if an admin has not reordered them yet
+UPDATE public.pipeline_stages
+SET stage_order = CASE stage_name
+      WHEN 'Lead' THEN 0
+      WHEN 'Discussions' THEN 1
+      WHEN 'Qualified' THEN 2
+      WHEN 'RFQ' THEN 3
+      WHEN 'Offered' THEN 4
+      ELSE stage_order
+    END,
+    stage_probability = CASE
+      WHEN stage_name = 'Discussions' AND stage_probability = 80 THEN 20
+      ELSE stage_probability
+    END
+WHERE stage_name IN ('Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered')
+  AND EXISTS (SELECT 1 FROM public.pipeline_stages WHERE stage_name = 'Discussions' AND stage_order = 4)
+  AND EXISTS (SELECT 1 FROM public.pipeline_stages WHERE stage_name = 'Qualified' AND stage_order = 1);
+
+UPDATE public.pipeline_stages SET form_fields = CASE stage_name
+    WHEN 'Lead' THEN ARRAY['project_name', 'lead_name', 'customer_name', 'account_id', 'lead_owner', 'priority']
+    WHEN 'Discussions' THEN ARRAY['customer_need', 'relationship_strength', 'internal_comment']
+    WHEN 'Qualified' THEN ARRAY['customer_challenges', 'budget', 'probability', 'expected_closing_date', 'is_recurring', 'internal_comment']
+    WHEN 'RFQ' THEN ARRAY['total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment']
+    WHEN 'Offered' THEN ARRAY['business_value', 'decision_maker_level', 'current_status', 'closing']
+    WHEN 'Won' THEN ARRAY['won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status']
+    WHEN 'Lost' THEN ARRAY['lost_reason', 'need_improvement']
+    WHEN 'Dropped' THEN ARRAY['drop_reason']
+    ELSE form_fields
+  END
+WHERE form_fields = '{}';
+
+-- Any stage a deal already uses must exist before the fixed check constraint goes away
+INSERT INTO public.pipeline_stages (stage_name, stage_order)
+SELECT d.stage, (SELECT COALESCE(MAX(stage_order), -1) FROM public.pipeline_stages) + ROW_NUMBER() OVER (ORDER BY d.stage)
+FROM (SELECT DISTINCT stage FROM public.deals) d
+WHERE NOT EXISTS (SELECT 1 FROM public.pipeline_stages ps WHERE ps.stage_name = d.stage);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipeline_stages_name ON public.pipeline_stages (lower(stage_name));
+
+ALTER TABLE public.deals DROP CONSTRAINT IF EXISTS deals_stage_check;
+
+-- First open stage of the pipeline, so a renamed or retired 'Lead' cannot break inserts
+CREATE OR REPLACE FUNCTION public.default_deal_stage()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT stage_name FROM public.pipeline_stages
+  WHERE COALESCE(is_active, true)
+    AND NOT COALESCE(is_won_stage, false)
+    AND NOT COALESCE(is_lost_stage, false)
+  ORDER BY stage_order
+  LIMIT 1;
+$$;
+
+ALTER TABLE public.deals ALTER COLUMN stage SET DEFAULT public.default_deal_stage();
+
+-- Validates deals.stage against pipeline_stages and applies the stage's default probability
+CREATE OR REPLACE FUNCTION public.apply_deal_stage_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage public.pipeline_stages%ROWTYPE;
+  v_old_probability INTEGER;
+BEGIN
+  -- Stage renames rewrite deals.stage in bulk; nothing to validate or re-default
+  IF current_setting('app.pipeline_stage_rename', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.stage IS NOT DISTINCT FROM OLD.stage THEN
+    RETURN NEW;
+  END IF;
+
+  -- Nothing configured yet: accept the stage as given
+  IF NOT EXISTS (SELECT 1 FROM public.pipeline_stages) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.stage IS NULL THEN
+    NEW.stage := public.default_deal_stage();
+    IF NEW.stage IS NULL THEN
+      RAISE EXCEPTION 'No active pipeline stage to place the deal in';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_stage FROM public.pipeline_stages WHERE stage_name = NEW.stage;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown pipeline stage: %', NEW.stage;
+  END IF;
+  IF NOT COALESCE(v_stage.is_active, true) THEN
+    RAISE EXCEPTION 'Pipeline stage "%" has been retired', NEW.stage;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.probability IS NULL THEN
+      NEW.probability := v_stage.stage_probability;
+    END IF;
+  ELSIF NEW.probability IS NOT DISTINCT FROM OLD.probability THEN
+    -- Only move probability along with the stage when nobody has tuned it by hand
+    SELECT stage_probability INTO v_old_probability
+    FROM public.pipeline_stages WHERE stage_name = OLD.stage;
+
+    IF OLD.probability IS NULL OR OLD.probability = v_old_probability THEN
+      NEW.probability := v_stage.stage_probability;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_deal_stage_rules ON public.deals;
+CREATE TRIGGER apply_deal_stage_rules
+BEFORE INSERT OR UPDATE OF stage ON public.deals
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_deal_stage_rules();
+
+-- Renaming a stage relabels the deals in it, not a stage change
+CREATE OR REPLACE FUNCTION public.log_deal_stage_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.pipeline_stage_rename', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only log if stage actually changed
+  IF (TG_OP = 'UPDATE' AND OLD.stage IS DISTINCT FROM NEW.stage) THEN
+    INSERT INTO public.deal_stage_history (deal_id, from_stage, to_stage, changed_by)
+    VALUES (NEW.id, OLD.stage, NEW.stage, auth.uid());
+  ELSIF (TG_OP = 'INSERT') THEN
+    INSERT INTO public.deal_stage_history (deal_id, from_stage, to_stage, changed_by)
+    VALUES (NEW.id, NULL, NEW.stage, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.rename_pipeline_stage_references()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.pipeline_stage_rename', 'on', true);
+
+  UPDATE public.deals SET stage = NEW.stage_name WHERE stage = OLD.stage_name;
+  UPDATE public.deal_stage_history SET from_stage = NEW.stage_name WHERE from_stage = OLD.stage_name;
+  UPDATE public.deal_stage_history SET to_stage = NEW.stage_name WHERE to_stage = OLD.stage_name;
+
+  PERFORM set_config('app.pipeline_stage_rename', 'off', true);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rename_pipeline_stage_references ON public.pipeline_stages;
+CREATE TRIGGER rename_pipeline_stage_references
+AFTER UPDATE OF stage_name ON public.pipeline_stages
+FOR EACH ROW
+WHEN (OLD.stage_name IS DISTINCT FROM NEW.stage_name)
+EXECUTE FUNCTION public.rename_pipeline_stage_references();
+
+CREATE OR REPLACE FUNCTION public.prevent_pipeline_stage_delete_in_use()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.deals WHERE stage = OLD.stage_name) THEN
+    RAISE EXCEPTION 'Pipeline stage "%" still has deals; move them to another stage first', OLD.stage_name;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_pipeline_stage_delete_in_use ON public.pipeline_stages;
+CREATE TRIGGER prevent_pipeline_stage_delete_in_use
+BEFORE DELETE ON public.pipeline_stages
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_pipeline_stage_delete_in_use();
+
+-- Moves a stage's deals to another active stage, then retires or deletes it.
+-- Returns the number of deals moved.
+CREATE OR REPLACE FUNCTION public.retire_pipeline_stage(
+  p_stage_id UUID,
+  p_move_to TEXT DEFAULT NULL,
+  p_delete BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage public.pipeline_stages%ROWTYPE;
+  v_moved INTEGER := 0;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can retire pipeline stages';
+  END IF;
+
+  SELECT * INTO v_stage FROM public.pipeline_stages WHERE id = p_stage_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pipeline stage not found';
+  END IF;
+
+  IF p_move_to IS NOT NULL THEN
+    IF p_move_to = v_stage.stage_name THEN
+      RAISE EXCEPTION 'Choose a different stage to move deals to';
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM public.pipeline_stages
+      WHERE stage_name = p_move_to AND COALESCE(is_active, true)
+    ) THEN
+      RAISE EXCEPTION 'Pipeline stage "%" is not an active stage', p_move_to;
+    END IF;
+
+    UPDATE public.deals
+    SET stage = p_move_to, modified_at = now(), modified_by = auth.uid()
+    WHERE stage = v_stage.stage_name;
+    GET DIAGNOSTICS v_moved = ROW_COUNT;
+  END IF;
+
+  IF p_delete THEN
+    DELETE FROM public.pipeline_stages WHERE id = p_stage_id;
+  ELSE
+    UPDATE public.pipeline_stages SET is_active = false WHERE id = p_stage_id;
+  END IF;
+
+  RETURN v_moved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.retire_pipeline_stage(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.retire_pipeline_stage(UUID, TEXT, BOOLEAN) TO authenticated;
@@ -0,0 +1,61 @@
+-- Per-link click tracking for sent emails
+CREATE TABLE IF NOT EXISTS public.email_link_clicks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email_id UUID NOT NULL REFERENCES public.email_history(id) ON DELETE CASCADE,
+  link_url TEXT NOT NULL,
+  clicked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  user_agent_hash TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_link_clicks_email_id ON public.email_link_clicks (email_id, clicked_at DESC);
+
+ALTER TABLE public.email_link_clicks ENABLE ROW LEVEL SECURITY;
+
+-- Clicks are visible to whoever can see the email they belong to
+DROP POLICY IF EXISTS "Users can view clicks on visible emails" ON public.email_link_clicks;
+CREATE POLICY "Users can view clicks on visible emails"
+ON public.email_link_clicks
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.email_history eh WHERE eh.id = email_link_clicks.email_id));
+
+-- Records one click and bumps the email and contact counters in the same transaction.
+-- Called by the track-email-click edge function only.
+CREATE OR REPLACE FUNCTION public.record_email_link_click(
+  p_email_id UUID,
+  p_link_url TEXT,
+  p_user_agent_hash TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contact_id UUID;
+BEGIN
+  UPDATE public.email_history
+  SET click_count = COALESCE(click_count, 0) + 1,
+      clicked_at = COALESCE(clicked_at, now()),
+      updated_at = now()
+  WHERE id = p_email_id
+  RETURNING contact_id INTO v_contact_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.email_link_clicks (email_id, link_url, user_agent_hash)
+  VALUES (p_email_id, p_link_url, p_user_agent_hash);
+
+  IF v_contact_id IS NOT NULL THEN
+    UPDATE public.contacts
+    SET email_clicks = COALESCE(email_clicks, 0) + 1
+    WHERE id = v_contact_id;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_email_link_click(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_email_link_click(UUID, TEXT, TEXT) TO service_role;
@@ -0,0 +1,33 @@
+-- Inbound reply and bounce detection for emails sent through Microsoft Graph
+
+-- Graph identifiers captured at send time, used to match replies (conversation)
+-- and non-delivery reports (original Internet message ID)
+ALTER TABLE public.email_history
+  ADD COLUMN IF NOT EXISTS graph_message_id TEXT,
+  ADD COLUMN IF NOT EXISTS conversation_id TEXT,
+  ADD COLUMN IF NOT EXISTS internet_message_id TEXT,
+  ADD COLUMN IF NOT EXISTS replied_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS bounced_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS bounce_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_email_history_conversation_id
+  ON public.email_history (conversation_id) WHERE conversation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_email_history_internet_message_id
+  ON public.email_history (internet_message_id) WHERE internet_message_id IS NOT NULL;
+
+-- Per-mailbox cursor for the sync-email-replies poller
+CREATE TABLE IF NOT EXISTS public.email_mailbox_sync (
+  mailbox TEXT NOT NULL PRIMARY KEY,
+  last_received_at TIMESTAMP WITH TIME ZONE,
+  last_synced_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.email_mailbox_sync ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view mailbox sync state" ON public.email_mailbox_sync;
+CREATE POLICY "Admins can view mailbox sync state"
+ON public.email_mailbox_sync
+FOR SELECT
+USING (is_user_admin());
@@ -0,0 +1,212 @@
+-- Server-side bulk email campaigns: a campaign, its recipient queue, and the RPCs
+-- the browser and the process-email-campaigns worker use to drive it
+
+CREATE TABLE IF NOT EXISTS public.email_campaigns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT,
+  sender_email TEXT NOT NULL,
+  -- queued -> sending -> completed; paused and cancelled are set by the owner
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'paused', 'completed', 'cancelled')),
+  throttle_per_minute INTEGER NOT NULL DEFAULT 30 CHECK (throttle_per_minute BETWEEN 1 AND 600),
+  total_recipients INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS public.email_campaign_recipients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.email_campaigns(id) ON DELETE CASCADE,
+  recipient_type TEXT NOT NULL CHECK (recipient_type IN ('lead', 'contact', 'account')),
+  recipient_id UUID NOT NULL,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  email_history_id UUID REFERENCES public.email_history(id) ON DELETE SET NULL,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_campaigns_status ON public.email_campaigns (status);
+CREATE INDEX IF NOT EXISTS idx_email_campaign_recipients_queue
+  ON public.email_campaign_recipients (campaign_id, status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_email_campaign_recipients_last_attempt
+  ON public.email_campaign_recipients (campaign_id, last_attempt_at);
+
+DROP TRIGGER IF EXISTS update_email_campaigns_updated_at ON public.email_campaigns;
+CREATE TRIGGER update_email_campaigns_updated_at
+BEFORE UPDATE ON public.email_campaigns
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_email_campaign_recipients_updated_at ON public.email_campaign_recipients;
+CREATE TRIGGER update_email_campaign_recipients_updated_at
+BEFORE UPDATE ON public.email_campaign_recipients
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.email_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+-- Campaigns are created and changed through the RPCs below; direct access is read-only
+DROP POLICY IF EXISTS "Users can view their campaigns, admins and managers view all" ON public.email_campaigns;
+CREATE POLICY "Users can view their campaigns, admins and managers view all"
+ON public.email_campaigns
+FOR SELECT
+USING (is_user_admin() OR is_user_manager() OR created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view recipients of visible campaigns" ON public.email_campaign_recipients;
+CREATE POLICY "Users can view recipients of visible campaigns"
+ON public.email_campaign_recipients
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.email_campaigns c WHERE c.id = email_campaign_recipients.campaign_id));
+
+-- Creates a campaign and queues one recipient row per entry of p_recipients
+-- ([{ "type": "lead", "id": "...", "email": "...", "name": "..." }]); entries
+-- without an email address and repeated addresses are dropped
+CREATE OR REPLACE FUNCTION public.create_email_campaign(
+  p_name TEXT,
+  p_subject TEXT,
+  p_body TEXT,
+  p_sender_email TEXT,
+  p_recipients JSONB,
+  p_throttle_per_minute INTEGER DEFAULT 30
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign_id UUID;
+  v_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF COALESCE(trim(p_subject), '') = '' THEN
+    RAISE EXCEPTION 'A subject is required';
+  END IF;
+
+  INSERT INTO public.email_campaigns (name, subject, body, sender_email, throttle_per_minute, created_by)
+  VALUES (
+    COALESCE(NULLIF(trim(p_name), ''), trim(p_subject)),
+    trim(p_subject),
+    p_body,
+    p_sender_email,
+    COALESCE(p_throttle_per_minute, 30),
+    auth.uid()
+  )
+  RETURNING id INTO v_campaign_id;
+
+  INSERT INTO public.email_campaign_recipients (campaign_id, recipient_type, recipient_id, recipient_email, recipient_name)
+  SELECT DISTINCT ON (lower(trim(r->>'email')))
+    v_campaign_id, r->>'type', (r->>'id')::UUID, trim(r->>'email'), r->>'name'
+  FROM jsonb_array_elements(p_recipients) r
+  WHERE COALESCE(trim(r->>'email'), '') <> ''
+  ORDER BY lower(trim(r->>'email'));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'None of the recipients have an email address';
+  END IF;
+
+  UPDATE public.email_campaigns SET total_recipients = v_count WHERE id = v_campaign_id;
+
+  RETURN v_campaign_id;
+END;
+$$;
+
+-- Pause, resume or cancel a campaign. Cancelling drops every recipient not yet sent.
+CREATE OR REPLACE FUNCTION public.set_email_campaign_status(p_campaign_id UUID, p_action TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign public.email_campaigns%ROWTYPE;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_campaign FROM public.email_campaigns WHERE id = p_campaign_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found';
+  END IF;
+  IF v_campaign.created_by IS DISTINCT FROM auth.uid() AND NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only the campaign owner or an admin can change this campaign';
+  END IF;
+  IF v_campaign.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Campaign is already %', v_campaign.status;
+  END IF;
+
+  IF p_action = 'pause' THEN
+    v_status := 'paused';
+  ELSIF p_action = 'resume' THEN
+    IF v_campaign.status <> 'paused' THEN
+      RAISE EXCEPTION 'Only paused campaigns can be resumed';
+    END IF;
+    v_status := CASE WHEN v_campaign.started_at IS NULL THEN 'queued' ELSE 'sending' END;
+  ELSIF p_action = 'cancel' THEN
+    v_status := 'cancelled';
+    UPDATE public.email_campaign_recipients
+    SET status = 'cancelled'
+    WHERE campaign_id = p_campaign_id AND status = 'pending';
+  ELSE
+    RAISE EXCEPTION 'Unknown campaign action: %', p_action;
+  END IF;
+
+  UPDATE public.email_campaigns
+  SET status = v_status,
+      completed_at = CASE WHEN v_status = 'cancelled' THEN now() ELSE completed_at END
+  WHERE id = p_campaign_id;
+
+  RETURN v_status;
+END;
+$$;
+
+-- Hands the worker up to p_limit due recipients. Rows left in 'sending' by a
+-- worker that died are picked up again after ten minutes.
+CREATE OR REPLACE FUNCTION public.claim_email_campaign_batch(p_campaign_id UUID, p_limit INTEGER)
+RETURNS SETOF public.email_campaign_recipients
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.email_campaign_recipients r
+  SET status = 'sending', last_attempt_at = now()
+  WHERE r.id IN (
+    SELECT q.id FROM public.email_campaign_recipients q
+    WHERE q.campaign_id = p_campaign_id
+      AND (
+        (q.status = 'pending' AND q.next_attempt_at <= now())
+        OR (q.status = 'sending' AND q.last_attempt_at < now() - INTERVAL '10 minutes')
+      )
+    ORDER BY q.next_attempt_at, q.created_at
+    LIMIT GREATEST(p_limit, 0)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING r.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_email_campaign(TEXT, TEXT, TEXT, TEXT, JSONB, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_email_campaign(TEXT, TEXT, TEXT, TEXT, JSONB, INTEGER) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_email_campaign_status(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_email_campaign_status(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_email_campaign_batch(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_email_campaign_batch(UUID, INTEGER) TO service_role;
+
+INSERT INTO public.page_permissions (page_name, description, route, admin_access, manager_access, user_access)
+VALUES ('Campaigns', 'Bulk email campaigns and their results', '/campaigns', true, true, true)
+ON CONFLICT (route) DO NOTHING;
@@ -0,0 +1,441 @@
+-- Multi-step email sequences: ordered email / wait / task steps that leads and
+-- contacts are enrolled in, advanced by the run-email-sequences worker, and left
+-- automatically when the recipient replies, bounces, books a meeting or converts
+
+CREATE TABLE IF NOT EXISTS public.email_sequences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.email_sequence_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sequence_id UUID NOT NULL REFERENCES public.email_sequences(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL CHECK (step_order >= 1),
+  step_type TEXT NOT NULL CHECK (step_type IN ('email', 'wait', 'task')),
+  template_id UUID REFERENCES public.email_templates(id) ON DELETE SET NULL,
+  wait_days INTEGER CHECK (wait_days IS NULL OR wait_days >= 1),
+  task_title TEXT,
+  task_description TEXT,
+  task_due_days INTEGER NOT NULL DEFAULT 0 CHECK (task_due_days >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Deferred so save_email_sequence can reorder steps in place
+  CONSTRAINT email_sequence_steps_order_key UNIQUE (sequence_id, step_order) DEFERRABLE INITIALLY DEFERRED
+);
+
+CREATE TABLE IF NOT EXISTS public.email_sequence_enrollments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sequence_id UUID NOT NULL REFERENCES public.email_sequences(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('lead', 'contact')),
+  entity_id UUID NOT NULL,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  -- Sequence emails go out from the mailbox of whoever enrolled the recipient
+  sender_email TEXT NOT NULL,
+  -- active -> completed when every step has run; exited when a stop condition fires
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'exited')),
+  exit_reason TEXT CHECK (exit_reason IS NULL OR exit_reason IN ('replied', 'bounced', 'meeting_booked', 'converted', 'manual', 'failed')),
+  -- step_order of the next step to run
+  current_step INTEGER NOT NULL DEFAULT 1,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Failed tries of the current step; reset when the enrollment moves on
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  enrolled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  enrolled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.email_sequence_step_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  enrollment_id UUID NOT NULL REFERENCES public.email_sequence_enrollments(id) ON DELETE CASCADE,
+  step_id UUID REFERENCES public.email_sequence_steps(id) ON DELETE SET NULL,
+  step_order INTEGER NOT NULL,
+  step_type TEXT NOT NULL,
+  email_history_id UUID REFERENCES public.email_history(id) ON DELETE SET NULL,
+  task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+  executed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_sequence_steps_sequence ON public.email_sequence_steps (sequence_id, step_order);
+CREATE INDEX IF NOT EXISTS idx_email_sequence_enrollments_due
+  ON public.email_sequence_enrollments (next_run_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_email_sequence_enrollments_entity
+  ON public.email_sequence_enrollments (entity_type, entity_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_email_sequence_enrollments_sequence ON public.email_sequence_enrollments (sequence_id);
+-- A lead or contact can only be running through a given sequence once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_sequence_enrollments_active_unique
+  ON public.email_sequence_enrollments (sequence_id, entity_type, entity_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_email_sequence_step_runs_enrollment ON public.email_sequence_step_runs (enrollment_id);
+CREATE INDEX IF NOT EXISTS idx_email_sequence_step_runs_step ON public.email_sequence_step_runs (step_id);
+
+DROP TRIGGER IF EXISTS update_email_sequences_updated_at ON public.email_sequences;
+CREATE TRIGGER update_email_sequences_updated_at
+BEFORE UPDATE ON public.email_sequences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_email_sequence_steps_updated_at ON public.email_sequence_steps;
+CREATE TRIGGER update_email_sequence_steps_updated_at
+BEFORE UPDATE ON public.email_sequence_steps
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_email_sequence_enrollments_updated_at ON public.email_sequence_enrollments;
+CREATE TRIGGER update_email_sequence_enrollments_updated_at
+BEFORE UPDATE ON public.email_sequence_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.email_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_enrollments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_step_runs ENABLE ROW LEVEL SECURITY;
+
+-- Sequences are shared like email templates; edits go through save_email_sequence
+DROP POLICY IF EXISTS "Authenticated users can view all email sequences" ON public.email_sequences;
+CREATE POLICY "Authenticated users can view all email sequences"
+ON public.email_sequences
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Users can delete their own sequences, admins can delete all" ON public.email_sequences;
+CREATE POLICY "Users can delete their own sequences, admins can delete all"
+ON public.email_sequences
+FOR DELETE
+USING (is_user_admin() OR created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Authenticated users can view all email sequence steps" ON public.email_sequence_steps;
+CREATE POLICY "Authenticated users can view all email sequence steps"
+ON public.email_sequence_steps
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Users can view enrollments they own or in their sequences" ON public.email_sequence_enrollments;
+CREATE POLICY "Users can view enrollments they own or in their sequences"
+ON public.email_sequence_enrollments
+FOR SELECT
+USING (
+  is_user_admin() OR is_user_manager() OR enrolled_by = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.email_sequences s
+    WHERE s.id = email_sequence_enrollments.sequence_id AND s.created_by = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view step runs of visible enrollments" ON public.email_sequence_step_runs;
+CREATE POLICY "Users can view step runs of visible enrollments"
+ON public.email_sequence_step_runs
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.email_sequence_enrollments e WHERE e.id = email_sequence_step_runs.enrollment_id));
+
+-- Creates (p_sequence_id NULL) or updates a sequence and replaces its step list with
+-- p_steps ([{ "id": "...", "step_type": "email", "template_id": "...", ... }] in order).
+-- Steps keep their id when passed back so step history survives reordering.
+CREATE OR REPLACE FUNCTION public.save_email_sequence(
+  p_sequence_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_is_active BOOLEAN,
+  p_steps JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sequence_id UUID := p_sequence_id;
+  v_owner UUID;
+  v_step JSONB;
+  v_order INTEGER := 0;
+  v_type TEXT;
+  v_kept UUID[] := ARRAY[]::UUID[];
+  v_step_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'A sequence name is required';
+  END IF;
+  IF jsonb_typeof(p_steps) IS DISTINCT FROM 'array' OR jsonb_array_length(p_steps) = 0 THEN
+    RAISE EXCEPTION 'A sequence needs at least one step';
+  END IF;
+
+  IF v_sequence_id IS NULL THEN
+    INSERT INTO public.email_sequences (name, description, is_active, created_by)
+    VALUES (trim(p_name), NULLIF(trim(p_description), ''), COALESCE(p_is_active, true), auth.uid())
+    RETURNING id INTO v_sequence_id;
+  ELSE
+    SELECT created_by INTO v_owner FROM public.email_sequences WHERE id = v_sequence_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sequence not found';
+    END IF;
+    IF v_owner IS DISTINCT FROM auth.uid() AND NOT is_user_admin() AND NOT is_user_manager() THEN
+      RAISE EXCEPTION 'Only the sequence owner, a manager or an admin can change this sequence';
+    END IF;
+
+    UPDATE public.email_sequences
+    SET name = trim(p_name),
+        description = NULLIF(trim(p_description), ''),
+        is_active = COALESCE(p_is_active, is_active)
+    WHERE id = v_sequence_id;
+  END IF;
+
+  FOR v_step IN SELECT value FROM jsonb_array_elements(p_steps)
+  LOOP
+    v_order := v_order + 1;
+    v_type := v_step->>'step_type';
+
+    IF v_type = 'email' AND COALESCE(v_step->>'template_id', '') = '' THEN
+      RAISE EXCEPTION 'Step %: choose an email template', v_order;
+    ELSIF v_type = 'wait' AND COALESCE((v_step->>'wait_days')::INTEGER, 0) < 1 THEN
+      RAISE EXCEPTION 'Step %: wait at least one day', v_order;
+    ELSIF v_type = 'task' AND COALESCE(trim(v_step->>'task_title'), '') = '' THEN
+      RAISE EXCEPTION 'Step %: a task title is required', v_order;
+    ELSIF v_type IS NULL OR v_type NOT IN ('email', 'wait', 'task') THEN
+      RAISE EXCEPTION 'Step %: unknown step type %', v_order, v_type;
+    END IF;
+
+    v_step_id := NULLIF(v_step->>'id', '')::UUID;
+
+    UPDATE public.email_sequence_steps
+    SET step_order = v_order,
+        step_type = v_type,
+        template_id = CASE WHEN v_type = 'email' THEN (v_step->>'template_id')::UUID END,
+        wait_days = CASE WHEN v_type = 'wait' THEN (v_step->>'wait_days')::INTEGER END,
+        task_title = CASE WHEN v_type = 'task' THEN trim(v_step->>'task_title') END,
+        task_description = CASE WHEN v_type = 'task' THEN NULLIF(trim(v_step->>'task_description'), '') END,
+        task_due_days = CASE WHEN v_type = 'task' THEN COALESCE((v_step->>'task_due_days')::INTEGER, 0) ELSE 0 END
+    WHERE id = v_step_id AND sequence_id = v_sequence_id;
+
+    IF v_step_id IS NULL OR NOT FOUND THEN
+      INSERT INTO public.email_sequence_steps
+        (sequence_id, step_order, step_type, template_id, wait_days, task_title, task_description, task_due_days)
+      VALUES (
+        v_sequence_id,
+        v_order,
+        v_type,
+        CASE WHEN v_type = 'email' THEN (v_step->>'template_id')::UUID END,
+        CASE WHEN v_type = 'wait' THEN (v_step->>'wait_days')::INTEGER END,
+        CASE WHEN v_type = 'task' THEN trim(v_step->>'task_title') END,
+        CASE WHEN v_type = 'task' THEN NULLIF(trim(v_step->>'task_description'), '') END,
+        CASE WHEN v_type = 'task' THEN COALESCE((v_step->>'task_due_days')::INTEGER, 0) ELSE 0 END
+      )
+      RETURNING id INTO v_step_id;
+    END IF;
+
+    v_kept := v_kept || v_step_id;
+  END LOOP;
+
+  DELETE FROM public.email_sequence_steps
+  WHERE sequence_id = v_sequence_id AND NOT (id = ANY (v_kept));
+
+  RETURN v_sequence_id;
+END;
+$$;
+
+-- Enrolls leads/contacts ([{ "type": "lead", "id": "...", "email": "...", "name": "..." }]).
+-- Entries without an email address, converted leads and anyone already active in
+-- the sequence are skipped. Returns the number of new enrollments.
+CREATE OR REPLACE FUNCTION public.enroll_in_email_sequence(p_sequence_id UUID, p_entities JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_active BOOLEAN;
+  v_sender_email TEXT;
+  v_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT email INTO v_sender_email FROM auth.users WHERE id = auth.uid();
+  IF COALESCE(v_sender_email, '') = '' THEN
+    RAISE EXCEPTION 'Your account has no email address to send from';
+  END IF;
+
+  SELECT is_active INTO v_is_active FROM public.email_sequences WHERE id = p_sequence_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sequence not found';
+  END IF;
+  IF NOT v_is_active THEN
+    RAISE EXCEPTION 'This sequence is inactive';
+  END IF;
+
+  INSERT INTO public.email_sequence_enrollments
+    (sequence_id, entity_type, entity_id, recipient_email, recipient_name, sender_email, enrolled_by)
+  SELECT DISTINCT ON (e->>'type', e->>'id')
+    p_sequence_id, e->>'type', (e->>'id')::UUID, trim(e->>'email'), e->>'name', v_sender_email, auth.uid()
+  FROM jsonb_array_elements(p_entities) e
+  WHERE e->>'type' IN ('lead', 'contact')
+    AND COALESCE(trim(e->>'email'), '') <> ''
+    AND NOT (
+      e->>'type' = 'lead'
+      AND EXISTS (SELECT 1 FROM public.leads l WHERE l.id = (e->>'id')::UUID AND l.lead_status = 'Converted')
+    )
+  ON CONFLICT (sequence_id, entity_type, entity_id) WHERE status = 'active' DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Takes every active enrollment of a lead or contact out of its sequences
+CREATE OR REPLACE FUNCTION public.exit_email_sequence_enrollments(p_entity_type TEXT, p_entity_id UUID, p_reason TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.email_sequence_enrollments
+  SET status = 'exited', exit_reason = p_reason, finished_at = now()
+  WHERE entity_type = p_entity_type AND entity_id = p_entity_id AND status = 'active';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Manual exit from the sequence dashboard
+CREATE OR REPLACE FUNCTION public.exit_email_sequence_enrollment(p_enrollment_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_enrollment public.email_sequence_enrollments%ROWTYPE;
+  v_owner UUID;
+BEGIN
+  SELECT * INTO v_enrollment FROM public.email_sequence_enrollments WHERE id = p_enrollment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Enrollment not found';
+  END IF;
+
+  SELECT created_by INTO v_owner FROM public.email_sequences WHERE id = v_enrollment.sequence_id;
+  IF v_enrollment.enrolled_by IS DISTINCT FROM auth.uid() AND v_owner IS DISTINCT FROM auth.uid()
+     AND NOT is_user_admin() AND NOT is_user_manager() THEN
+    RAISE EXCEPTION 'You cannot change this enrollment';
+  END IF;
+  IF v_enrollment.status <> 'active' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.email_sequence_enrollments
+  SET status = 'exited', exit_reason = 'manual', finished_at = now()
+  WHERE id = p_enrollment_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Stop conditions
+
+CREATE OR REPLACE FUNCTION public.exit_sequences_on_email_outcome()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.lead_id IS NOT NULL THEN
+    PERFORM public.exit_email_sequence_enrollments('lead', NEW.lead_id, NEW.status);
+  END IF;
+  IF NEW.contact_id IS NOT NULL THEN
+    PERFORM public.exit_email_sequence_enrollments('contact', NEW.contact_id, NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS exit_sequences_on_email_outcome ON public.email_history;
+CREATE TRIGGER exit_sequences_on_email_outcome
+AFTER UPDATE OF status ON public.email_history
+FOR EACH ROW
+WHEN (NEW.status IN ('replied', 'bounced') AND OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.exit_sequences_on_email_outcome();
+
+CREATE OR REPLACE FUNCTION public.exit_sequences_on_meeting()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.lead_id IS NOT NULL THEN
+    PERFORM public.exit_email_sequence_enrollments('lead', NEW.lead_id, 'meeting_booked');
+  END IF;
+  IF NEW.contact_id IS NOT NULL THEN
+    PERFORM public.exit_email_sequence_enrollments('contact', NEW.contact_id, 'meeting_booked');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS exit_sequences_on_meeting ON public.meetings;
+CREATE TRIGGER exit_sequences_on_meeting
+AFTER INSERT ON public.meetings
+FOR EACH ROW
+WHEN (NEW.lead_id IS NOT NULL OR NEW.contact_id IS NOT NULL)
+EXECUTE FUNCTION public.exit_sequences_on_meeting();
+
+CREATE OR REPLACE FUNCTION public.exit_sequences_on_lead_converted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.exit_email_sequence_enrollments('lead', NEW.id, 'converted');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS exit_sequences_on_lead_converted ON public.leads;
+CREATE TRIGGER exit_sequences_on_lead_converted
+AFTER UPDATE OF lead_status ON public.leads
+FOR EACH ROW
+WHEN (NEW.lead_status = 'Converted' AND OLD.lead_status IS DISTINCT FROM NEW.lead_status)
+EXECUTE FUNCTION public.exit_sequences_on_lead_converted();
+
+CREATE OR REPLACE FUNCTION public.exit_sequences_on_deal_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.exit_email_sequence_enrollments('contact', NEW.contact_id, 'converted');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS exit_sequences_on_deal_created ON public.deals;
+CREATE TRIGGER exit_sequences_on_deal_created
+AFTER INSERT ON public.deals
+FOR EACH ROW
+WHEN (NEW.contact_id IS NOT NULL)
+EXECUTE FUNCTION public.exit_sequences_on_deal_created();
+
+REVOKE EXECUTE ON FUNCTION public.save_email_sequence(UUID, TEXT, TEXT, BOOLEAN, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_email_sequence(UUID, TEXT, TEXT, BOOLEAN, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.enroll_in_email_sequence(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.enroll_in_email_sequence(UUID, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.exit_email_sequence_enrollment(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.exit_email_sequence_enrollment(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.exit_email_sequence_enrollments(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.exit_email_sequence_enrollments(TEXT, UUID, TEXT) TO service_role;
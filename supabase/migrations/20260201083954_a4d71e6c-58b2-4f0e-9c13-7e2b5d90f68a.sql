@@ -0,0 +1,554 @@
+-- Configurable scoring for leads, contacts and accounts. Admins edit scoring_rules;
+-- compute_record_score applies them and keeps record_scores (score plus a per-rule
+-- breakdown) current from triggers on the records and their activity.
+
+CREATE TABLE IF NOT EXISTS public.scoring_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('lead', 'contact', 'account')),
+  name TEXT NOT NULL,
+  -- field: points when a column (or custom_fields.<key>) matches
+  -- engagement: points per unit of an engagement metric, capped at max_points
+  -- recency: points when the last engagement is within period_days
+  -- decay: points (usually negative) per period_days without engagement, capped at max_points
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('field', 'engagement', 'recency', 'decay')),
+  field TEXT,
+  operator TEXT CHECK (operator IS NULL OR operator IN ('equals', 'not_equals', 'contains', 'is_set', 'is_empty')),
+  value TEXT,
+  metric TEXT CHECK (metric IS NULL OR metric IN ('email_opens', 'email_clicks', 'email_replies', 'meetings_held', 'activities', 'contacts')),
+  points INTEGER NOT NULL,
+  max_points INTEGER CHECK (max_points IS NULL OR max_points >= 0),
+  period_days INTEGER CHECK (period_days IS NULL OR period_days >= 1),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT scoring_rules_shape CHECK (
+    (rule_type = 'field' AND field IS NOT NULL AND operator IS NOT NULL)
+    OR (rule_type = 'engagement' AND metric IS NOT NULL)
+    OR (rule_type IN ('recency', 'decay') AND period_days IS NOT NULL)
+  )
+);
+
+CREATE TABLE IF NOT EXISTS public.record_scores (
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('lead', 'contact', 'account')),
+  entity_id UUID NOT NULL,
+  score INTEGER NOT NULL DEFAULT 0,
+  -- [{ "rule_id", "name", "rule_type", "points", "detail" }] for every rule that scored
+  breakdown JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_engagement_at TIMESTAMP WITH TIME ZONE,
+  computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scoring_rules_entity ON public.scoring_rules (entity_type) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_record_scores_score ON public.record_scores (entity_type, score DESC);
+CREATE INDEX IF NOT EXISTS idx_record_scores_computed_at ON public.record_scores (computed_at);
+
+DROP TRIGGER IF EXISTS update_scoring_rules_updated_at ON public.scoring_rules;
+CREATE TRIGGER update_scoring_rules_updated_at
+BEFORE UPDATE ON public.scoring_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.scoring_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.record_scores ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view scoring rules" ON public.scoring_rules;
+CREATE POLICY "Authenticated users can view scoring rules"
+ON public.scoring_rules
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can insert scoring rules" ON public.scoring_rules;
+CREATE POLICY "Admins can insert scoring rules"
+ON public.scoring_rules
+FOR INSERT
+WITH CHECK (is_user_admin());
+
+DROP POLICY IF EXISTS "Admins can update scoring rules" ON public.scoring_rules;
+CREATE POLICY "Admins can update scoring rules"
+ON public.scoring_rules
+FOR UPDATE
+USING (is_user_admin());
+
+DROP POLICY IF EXISTS "Admins can delete scoring rules" ON public.scoring_rules;
+CREATE POLICY "Admins can delete scoring rules"
+ON public.scoring_rules
+FOR DELETE
+USING (is_user_admin());
+
+-- Scores are written only by compute_record_score
+DROP POLICY IF EXISTS "Authenticated users can view record scores" ON public.record_scores;
+CREATE POLICY "Authenticated users can view record scores"
+ON public.record_scores
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Engagement counters and the most recent engagement for one record.
+-- Accounts roll up the email engagement and meetings of their contacts.
+CREATE OR REPLACE FUNCTION public.get_record_engagement(p_entity_type TEXT, p_entity_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_opens BIGINT := 0;
+  v_clicks BIGINT := 0;
+  v_replies BIGINT := 0;
+  v_meetings BIGINT := 0;
+  v_activities BIGINT := 0;
+  v_contacts BIGINT := 0;
+  v_last_email TIMESTAMP WITH TIME ZONE;
+  v_last_meeting TIMESTAMP WITH TIME ZONE;
+  v_last_activity TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_entity_type = 'lead' THEN
+    SELECT COALESCE(SUM(open_count), 0), COALESCE(SUM(click_count), 0), COUNT(replied_at),
+           GREATEST(MAX(opened_at), MAX(clicked_at), MAX(replied_at))
+    INTO v_opens, v_clicks, v_replies, v_last_email
+    FROM public.email_history WHERE lead_id = p_entity_id;
+
+    SELECT COUNT(*), MAX(start_time) INTO v_meetings, v_last_meeting
+    FROM public.meetings
+    WHERE lead_id = p_entity_id AND start_time < now()
+      AND status <> 'cancelled' AND outcome IS DISTINCT FROM 'no_show';
+
+    -- Lead activities are logged as tasks against the lead
+    SELECT COUNT(*), MAX(created_at) INTO v_activities, v_last_activity
+    FROM public.tasks WHERE lead_id = p_entity_id;
+
+  ELSIF p_entity_type = 'contact' THEN
+    SELECT COALESCE(email_opens, 0), COALESCE(email_clicks, 0)
+    INTO v_opens, v_clicks
+    FROM public.contacts WHERE id = p_entity_id;
+
+    SELECT COUNT(replied_at), GREATEST(MAX(opened_at), MAX(clicked_at), MAX(replied_at))
+    INTO v_replies, v_last_email
+    FROM public.email_history WHERE contact_id = p_entity_id;
+
+    SELECT COUNT(*), MAX(start_time) INTO v_meetings, v_last_meeting
+    FROM public.meetings
+    WHERE contact_id = p_entity_id AND start_time < now()
+      AND status <> 'cancelled' AND outcome IS DISTINCT FROM 'no_show';
+
+    SELECT COUNT(*), MAX(activity_date) INTO v_activities, v_last_activity
+    FROM public.contact_activities WHERE contact_id = p_entity_id;
+
+  ELSIF p_entity_type = 'account' THEN
+    SELECT COUNT(*), COALESCE(SUM(email_opens), 0), COALESCE(SUM(email_clicks), 0)
+    INTO v_contacts, v_opens, v_clicks
+    FROM public.contacts WHERE account_id = p_entity_id;
+
+    SELECT COUNT(eh.replied_at), GREATEST(MAX(eh.opened_at), MAX(eh.clicked_at), MAX(eh.replied_at))
+    INTO v_replies, v_last_email
+    FROM public.email_history eh
+    JOIN public.contacts c ON c.id = eh.contact_id
+    WHERE c.account_id = p_entity_id;
+
+    SELECT COUNT(*), MAX(m.start_time) INTO v_meetings, v_last_meeting
+    FROM public.meetings m
+    WHERE (m.account_id = p_entity_id
+           OR m.contact_id IN (SELECT id FROM public.contacts WHERE account_id = p_entity_id))
+      AND m.start_time < now() AND m.status <> 'cancelled' AND m.outcome IS DISTINCT FROM 'no_show';
+
+    SELECT COUNT(*), MAX(activity_date) INTO v_activities, v_last_activity
+    FROM public.account_activities WHERE account_id = p_entity_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'email_opens', v_opens,
+    'email_clicks', v_clicks,
+    'email_replies', v_replies,
+    'meetings_held', v_meetings,
+    'activities', v_activities,
+    'contacts', v_contacts,
+    'last_engagement_at', GREATEST(v_last_email, v_last_meeting, v_last_activity)
+  );
+END;
+$$;
+
+-- Applies the active rules for the record's type and stores the result. Returns the
+-- score (0-100), or NULL when the record no longer exists.
+CREATE OR REPLACE FUNCTION public.compute_record_score(p_entity_type TEXT, p_entity_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_record JSONB;
+  v_created_at TIMESTAMP WITH TIME ZONE;
+  v_engagement JSONB;
+  v_last_engagement TIMESTAMP WITH TIME ZONE;
+  v_idle_days INTEGER;
+  v_rule public.scoring_rules%ROWTYPE;
+  v_value TEXT;
+  v_values TEXT[];
+  v_matched BOOLEAN;
+  v_units NUMERIC;
+  v_points INTEGER;
+  v_detail TEXT;
+  v_total INTEGER := 0;
+  v_breakdown JSONB := '[]'::jsonb;
+BEGIN
+  IF p_entity_type = 'lead' THEN
+    SELECT to_jsonb(l), l.created_time INTO v_record, v_created_at FROM public.leads l WHERE l.id = p_entity_id;
+  ELSIF p_entity_type = 'contact' THEN
+    SELECT to_jsonb(c), c.created_time INTO v_record, v_created_at FROM public.contacts c WHERE c.id = p_entity_id;
+  ELSIF p_entity_type = 'account' THEN
+    SELECT to_jsonb(a), a.created_at INTO v_record, v_created_at FROM public.accounts a WHERE a.id = p_entity_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown entity type: %', p_entity_type;
+  END IF;
+
+  IF v_record IS NULL THEN
+    DELETE FROM public.record_scores WHERE entity_type = p_entity_type AND entity_id = p_entity_id;
+    RETURN NULL;
+  END IF;
+
+  v_engagement := public.get_record_engagement(p_entity_type, p_entity_id);
+  v_last_engagement := (v_engagement->>'last_engagement_at')::TIMESTAMP WITH TIME ZONE;
+  v_idle_days := floor(extract(epoch FROM now() - COALESCE(v_last_engagement, v_created_at, now())) / 86400)::INTEGER;
+
+  FOR v_rule IN
+    SELECT * FROM public.scoring_rules
+    WHERE entity_type = p_entity_type AND is_active
+    ORDER BY created_at
+  LOOP
+    v_points := 0;
+    v_detail := NULL;
+
+    IF v_rule.rule_type = 'field' THEN
+      v_value := CASE
+        WHEN v_rule.field LIKE 'custom_fields.%' THEN v_record->'custom_fields'->>substr(v_rule.field, 15)
+        ELSE v_record->>v_rule.field
+      END;
+      -- Comma-separated rule values match any of the listed values
+      v_values := ARRAY(
+        SELECT lower(trim(x)) FROM unnest(string_to_array(COALESCE(v_rule.value, ''), ',')) x WHERE trim(x) <> ''
+      );
+
+      v_matched := CASE v_rule.operator
+        WHEN 'is_set' THEN COALESCE(trim(v_value), '') NOT IN ('', '[]', 'false')
+        WHEN 'is_empty' THEN COALESCE(trim(v_value), '') IN ('', '[]', 'false')
+        WHEN 'equals' THEN lower(trim(v_value)) = ANY (v_values)
+        WHEN 'not_equals' THEN v_value IS NULL OR NOT (lower(trim(v_value)) = ANY (v_values))
+        WHEN 'contains' THEN EXISTS (SELECT 1 FROM unnest(v_values) x WHERE lower(v_value) LIKE '%' || x || '%')
+        ELSE false
+      END;
+
+      IF COALESCE(v_matched, false) THEN
+        v_points := v_rule.points;
+        v_detail := COALESCE(NULLIF(v_value, ''), 'empty');
+      END IF;
+
+    ELSIF v_rule.rule_type = 'engagement' THEN
+      v_units := COALESCE((v_engagement->>v_rule.metric)::NUMERIC, 0);
+      IF v_units > 0 THEN
+        v_points := (v_units * v_rule.points)::INTEGER;
+        IF v_rule.max_points IS NOT NULL THEN
+          v_points := GREATEST(LEAST(v_points, v_rule.max_points), -v_rule.max_points);
+        END IF;
+        v_detail := v_units || ' ' || replace(v_rule.metric, '_', ' ');
+      END IF;
+
+    ELSIF v_rule.rule_type = 'recency' THEN
+      IF v_last_engagement IS NOT NULL AND v_last_engagement >= now() - make_interval(days => v_rule.period_days) THEN
+        v_points := v_rule.points;
+        v_detail := 'Last engaged ' || v_idle_days || ' day(s) ago';
+      END IF;
+
+    ELSIF v_rule.rule_type = 'decay' THEN
+      v_points := (v_idle_days / v_rule.period_days) * v_rule.points;
+      IF v_rule.max_points IS NOT NULL THEN
+        v_points := GREATEST(LEAST(v_points, v_rule.max_points), -v_rule.max_points);
+      END IF;
+      v_detail := v_idle_days || ' day(s) without engagement';
+    END IF;
+
+    IF v_points <> 0 THEN
+      v_total := v_total + v_points;
+      v_breakdown := v_breakdown || jsonb_build_object(
+        'rule_id', v_rule.id,
+        'name', v_rule.name,
+        'rule_type', v_rule.rule_type,
+        'points', v_points,
+        'detail', v_detail
+      );
+    END IF;
+  END LOOP;
+
+  v_total := GREATEST(LEAST(v_total, 100), 0);
+
+  INSERT INTO public.record_scores (entity_type, entity_id, score, breakdown, last_engagement_at, computed_at)
+  VALUES (p_entity_type, p_entity_id, v_total, v_breakdown, v_last_engagement, now())
+  ON CONFLICT (entity_type, entity_id) DO UPDATE
+  SET score = EXCLUDED.score,
+      breakdown = EXCLUDED.breakdown,
+      last_engagement_at = EXCLUDED.last_engagement_at,
+      computed_at = EXCLUDED.computed_at;
+
+  RETURN v_total;
+END;
+$$;
+
+-- The old hard-coded calculators now defer to the rules
+CREATE OR REPLACE FUNCTION public.calculate_account_score(p_account_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN COALESCE(public.compute_record_score('account', p_account_id), 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.calculate_contact_score(p_contact_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN COALESCE(public.compute_record_score('contact', p_contact_id), 0);
+END;
+$$;
+
+-- Full recompute after the rules change (admins), optionally for one record type
+CREATE OR REPLACE FUNCTION public.recompute_record_scores(p_entity_type TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can recompute scores';
+  END IF;
+
+  IF p_entity_type IS NULL OR p_entity_type = 'lead' THEN
+    FOR v_id IN SELECT id FROM public.leads LOOP
+      PERFORM public.compute_record_score('lead', v_id);
+      v_count := v_count + 1;
+    END LOOP;
+  END IF;
+  IF p_entity_type IS NULL OR p_entity_type = 'contact' THEN
+    FOR v_id IN SELECT id FROM public.contacts LOOP
+      PERFORM public.compute_record_score('contact', v_id);
+      v_count := v_count + 1;
+    END LOOP;
+  END IF;
+  IF p_entity_type IS NULL OR p_entity_type = 'account' THEN
+    FOR v_id IN SELECT id FROM public.accounts LOOP
+      PERFORM public.compute_record_score('account', v_id);
+      v_count := v_count + 1;
+    END LOOP;
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Scheduled pass so recency and decay rules keep moving for records nobody touches.
+-- Picks up records never scored or last scored more than p_max_age ago.
+CREATE OR REPLACE FUNCTION public.recompute_stale_record_scores(p_max_age INTERVAL DEFAULT INTERVAL '20 hours', p_limit INTEGER DEFAULT 5000)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stale RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_stale IN
+    SELECT r.entity_type, r.entity_id
+    FROM (
+      SELECT 'lead'::TEXT AS entity_type, id AS entity_id FROM public.leads
+      UNION ALL SELECT 'contact', id FROM public.contacts
+      UNION ALL SELECT 'account', id FROM public.accounts
+    ) r
+    LEFT JOIN public.record_scores s ON s.entity_type = r.entity_type AND s.entity_id = r.entity_id
+    WHERE s.computed_at IS NULL OR s.computed_at < now() - p_max_age
+    ORDER BY s.computed_at NULLS FIRST
+    LIMIT p_limit
+  LOOP
+    PERFORM public.compute_record_score(v_stale.entity_type, v_stale.entity_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Incremental updates
+
+-- leads / contacts / accounts: rescore the record itself; contact changes also
+-- rescore the account(s) the contact belongs or belonged to
+CREATE OR REPLACE FUNCTION public.refresh_own_record_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entity_type TEXT := TG_ARGV[0];
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.record_scores WHERE entity_type = v_entity_type AND entity_id = OLD.id;
+  ELSE
+    PERFORM public.compute_record_score(v_entity_type, NEW.id);
+  END IF;
+
+  IF v_entity_type = 'contact' THEN
+    IF TG_OP <> 'DELETE' AND NEW.account_id IS NOT NULL THEN
+      PERFORM public.compute_record_score('account', NEW.account_id);
+    END IF;
+    IF TG_OP <> 'INSERT' AND OLD.account_id IS NOT NULL
+       AND (TG_OP = 'DELETE' OR OLD.account_id IS DISTINCT FROM NEW.account_id) THEN
+      PERFORM public.compute_record_score('account', OLD.account_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Activity tables: rescore whatever lead / contact / account the row points at
+CREATE OR REPLACE FUNCTION public.refresh_related_record_scores()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_keys TEXT[] := ARRAY[]::TEXT[];
+  v_key TEXT;
+  v_account_id UUID;
+BEGIN
+  FOR v_row IN
+    SELECT r FROM unnest(ARRAY[
+      CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END,
+      CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END
+    ]) r
+    WHERE r IS NOT NULL
+  LOOP
+    IF v_row->>'lead_id' IS NOT NULL THEN
+      v_keys := v_keys || ('lead:' || (v_row->>'lead_id'));
+    END IF;
+    IF v_row->>'contact_id' IS NOT NULL THEN
+      v_keys := v_keys || ('contact:' || (v_row->>'contact_id'));
+      SELECT account_id INTO v_account_id FROM public.contacts WHERE id = (v_row->>'contact_id')::UUID;
+      IF v_account_id IS NOT NULL THEN
+        v_keys := v_keys || ('account:' || v_account_id);
+      END IF;
+    END IF;
+    IF v_row->>'account_id' IS NOT NULL THEN
+      v_keys := v_keys || ('account:' || (v_row->>'account_id'));
+    END IF;
+  END LOOP;
+
+  FOR v_key IN SELECT DISTINCT unnest(v_keys) LOOP
+    PERFORM public.compute_record_score(split_part(v_key, ':', 1), split_part(v_key, ':', 2)::UUID);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_lead_score ON public.leads;
+CREATE TRIGGER refresh_lead_score
+AFTER INSERT OR UPDATE OR DELETE ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_own_record_score('lead');
+
+DROP TRIGGER IF EXISTS refresh_contact_score ON public.contacts;
+CREATE TRIGGER refresh_contact_score
+AFTER INSERT OR UPDATE OR DELETE ON public.contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_own_record_score('contact');
+
+DROP TRIGGER IF EXISTS refresh_account_score ON public.accounts;
+CREATE TRIGGER refresh_account_score
+AFTER INSERT OR UPDATE OR DELETE ON public.accounts
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_own_record_score('account');
+
+DROP TRIGGER IF EXISTS refresh_scores_on_email ON public.email_history;
+CREATE TRIGGER refresh_scores_on_email
+AFTER INSERT OR DELETE OR UPDATE OF open_count, click_count, opened_at, clicked_at, replied_at, lead_id, contact_id
+ON public.email_history
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_related_record_scores();
+
+DROP TRIGGER IF EXISTS refresh_scores_on_meeting ON public.meetings;
+CREATE TRIGGER refresh_scores_on_meeting
+AFTER INSERT OR DELETE OR UPDATE OF start_time, status, outcome, lead_id, contact_id, account_id
+ON public.meetings
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_related_record_scores();
+
+DROP TRIGGER IF EXISTS refresh_scores_on_contact_activity ON public.contact_activities;
+CREATE TRIGGER refresh_scores_on_contact_activity
+AFTER INSERT OR DELETE OR UPDATE OF activity_date, contact_id
+ON public.contact_activities
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_related_record_scores();
+
+DROP TRIGGER IF EXISTS refresh_scores_on_account_activity ON public.account_activities;
+CREATE TRIGGER refresh_scores_on_account_activity
+AFTER INSERT OR DELETE OR UPDATE OF activity_date, account_id
+ON public.account_activities
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_related_record_scores();
+
+-- Tasks count as activity for leads (see get_record_engagement)
+DROP TRIGGER IF EXISTS refresh_scores_on_lead_task ON public.tasks;
+CREATE TRIGGER refresh_scores_on_lead_task
+AFTER INSERT OR DELETE OR UPDATE OF lead_id
+ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_related_record_scores();
+
+REVOKE EXECUTE ON FUNCTION public.get_record_engagement(TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_record_engagement(TEXT, UUID) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.compute_record_score(TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.compute_record_score(TEXT, UUID) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.recompute_record_scores(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.recompute_record_scores(TEXT) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.recompute_stale_record_scores(INTERVAL, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recompute_stale_record_scores(INTERVAL, INTEGER) TO service_role;
+
+-- Starting model. The account rules reproduce the previous hard-coded calculation.
+INSERT INTO public.scoring_rules (entity_type, name, rule_type, field, operator, value, metric, points, max_points, period_days)
+SELECT v.entity_type, v.name, v.rule_type, v.field, v.operator, v.value, v.metric, v.points, v.max_points, v.period_days
+FROM (VALUES
+  ('account', 'Contacts at the account', 'engagement', NULL, NULL, NULL, 'contacts', 10, 30, NULL),
+  ('account', 'Logged activities', 'engagement', NULL, NULL, NULL, 'activities', 5, 30, NULL),
+  ('account', 'Active in the last 30 days', 'recency', NULL, NULL, NULL, NULL, 20, NULL, 30),
+  ('account', 'Has a website', 'field', 'website', 'is_set', NULL, NULL, 10, NULL, NULL),
+  ('account', 'Has a phone number', 'field', 'phone', 'is_set', NULL, NULL, 10, NULL, NULL),
+  ('contact', 'Email opens', 'engagement', NULL, NULL, NULL, 'email_opens', 2, 20, NULL),
+  ('contact', 'Email clicks', 'engagement', NULL, NULL, NULL, 'email_clicks', 5, 20, NULL),
+  ('contact', 'Email replies', 'engagement', NULL, NULL, NULL, 'email_replies', 15, 30, NULL),
+  ('contact', 'Meetings held', 'engagement', NULL, NULL, NULL, 'meetings_held', 15, 30, NULL),
+  ('contact', 'Senior position', 'field', 'position', 'contains', 'director,head,vp,chief,founder,owner', NULL, 10, NULL, NULL),
+  ('contact', 'Going cold', 'decay', NULL, NULL, NULL, NULL, -5, 30, 30),
+  ('lead', 'Email opens', 'engagement', NULL, NULL, NULL, 'email_opens', 2, 20, NULL),
+  ('lead', 'Email clicks', 'engagement', NULL, NULL, NULL, 'email_clicks', 5, 20, NULL),
+  ('lead', 'Email replies', 'engagement', NULL, NULL, NULL, 'email_replies', 15, 30, NULL),
+  ('lead', 'Meetings held', 'engagement', NULL, NULL, NULL, 'meetings_held', 15, 30, NULL),
+  ('lead', 'Senior position', 'field', 'position', 'contains', 'director,head,vp,chief,founder,owner', NULL, 10, NULL, NULL),
+  ('lead', 'Has a company', 'field', 'company_name', 'is_set', NULL, NULL, 5, NULL, NULL),
+  ('lead', 'Going cold', 'decay', NULL, NULL, NULL, NULL, -5, 30, 30)
+) AS v(entity_type, name, rule_type, field, operator, value, metric, points, max_points, period_days)
+WHERE NOT EXISTS (SELECT 1 FROM public.scoring_rules);
+
+SELECT public.recompute_record_scores();
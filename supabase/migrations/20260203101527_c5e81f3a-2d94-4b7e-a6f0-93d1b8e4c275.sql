@@ -0,0 +1,142 @@
+-- Exchange rates and an org-wide reporting currency. Deals keep their own
+-- currency_type; revenue summaries, dashboards, board totals and exports convert
+-- into the reporting currency with the rate in effect on the deal's date.
+
+CREATE TABLE IF NOT EXISTS public.currency_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reporting_currency TEXT NOT NULL DEFAULT 'EUR' CHECK (reporting_currency ~ '^[A-Z]{3}$'),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- 1 unit of from_currency = rate units of to_currency, from effective_date until the next rate
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  from_currency TEXT NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+  to_currency TEXT NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC(20, 10) NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT exchange_rates_distinct_currencies CHECK (from_currency <> to_currency),
+  CONSTRAINT exchange_rates_pair_date_key UNIQUE (from_currency, to_currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup
+ON public.exchange_rates (from_currency, to_currency, effective_date DESC);
+
+DROP TRIGGER IF EXISTS update_currency_settings_updated_at ON public.currency_settings;
+CREATE TRIGGER update_currency_settings_updated_at
+BEFORE UPDATE ON public.currency_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_exchange_rates_updated_at ON public.exchange_rates;
+CREATE TRIGGER update_exchange_rates_updated_at
+BEFORE UPDATE ON public.exchange_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.currency_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view currency settings" ON public.currency_settings;
+CREATE POLICY "Authenticated users can view currency settings"
+ON public.currency_settings
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can update currency settings" ON public.currency_settings;
+CREATE POLICY "Admins can update currency settings"
+ON public.currency_settings
+FOR UPDATE
+USING (is_user_admin());
+
+DROP POLICY IF EXISTS "Authenticated users can view exchange rates" ON public.exchange_rates;
+CREATE POLICY "Authenticated users can view exchange rates"
+ON public.exchange_rates
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can insert exchange rates" ON public.exchange_rates;
+CREATE POLICY "Admins can insert exchange rates"
+ON public.exchange_rates
+FOR INSERT
+WITH CHECK (is_user_admin());
+
+DROP POLICY IF EXISTS "Admins can update exchange rates" ON public.exchange_rates;
+CREATE POLICY "Admins can update exchange rates"
+ON public.exchange_rates
+FOR UPDATE
+USING (is_user_admin());
+
+DROP POLICY IF EXISTS "Admins can delete exchange rates" ON public.exchange_rates;
+CREATE POLICY "Admins can delete exchange rates"
+ON public.exchange_rates
+FOR DELETE
+USING (is_user_admin());
+
+-- Single settings row; revenue has always been shown in EUR
+INSERT INTO public.currency_settings (id, reporting_currency)
+VALUES ('00000000-0000-0000-0000-000000000001', 'EUR')
+ON CONFLICT (id) DO NOTHING;
+
+-- Rate for converting p_from into p_to on p_on: the latest rate on or before that
+-- date, otherwise the earliest one after it. A stored pair is used in either
+-- direction (the reverse pair as 1 / rate), preferring the direct pair on the same
+-- date. NULL when the pair has never been entered. Mirrors findExchangeRate in
+-- src/utils/currencyConversion.ts.
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(p_from TEXT, p_to TEXT, p_on DATE DEFAULT CURRENT_DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN p_from = p_to THEN 1::NUMERIC ELSE (
+    SELECT r.rate
+    FROM (
+      SELECT rate, effective_date, 0 AS direction
+      FROM public.exchange_rates
+      WHERE from_currency = p_from AND to_currency = p_to
+      UNION ALL
+      SELECT 1 / rate, effective_date, 1
+      FROM public.exchange_rates
+      WHERE from_currency = p_to AND to_currency = p_from
+    ) r
+    ORDER BY
+      (r.effective_date <= COALESCE(p_on, CURRENT_DATE)) DESC,
+      CASE WHEN r.effective_date <= COALESCE(p_on, CURRENT_DATE) THEN COALESCE(p_on, CURRENT_DATE) - r.effective_date
+           ELSE r.effective_date - COALESCE(p_on, CURRENT_DATE) END,
+      r.direction
+    LIMIT 1
+  ) END;
+$$;
+
+-- p_amount in the reporting currency (or p_to when given); NULL when no rate exists
+CREATE OR REPLACE FUNCTION public.convert_to_reporting_currency(
+  p_amount NUMERIC,
+  p_from TEXT,
+  p_on DATE DEFAULT CURRENT_DATE,
+  p_to TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_amount * public.get_exchange_rate(
+    COALESCE(p_from, 'EUR'),
+    COALESCE(p_to, (SELECT reporting_currency FROM public.currency_settings ORDER BY created_at LIMIT 1), 'EUR'),
+    p_on
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.get_exchange_rate(TEXT, TEXT, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_exchange_rate(TEXT, TEXT, DATE) TO authenticated, service_role;
+REVOKE ALL ON FUNCTION public.convert_to_reporting_currency(NUMERIC, TEXT, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.convert_to_reporting_currency(NUMERIC, TEXT, DATE, TEXT) TO authenticated, service_role;
@@ -0,0 +1,93 @@
+-- Revenue targets broken down by owner, region and quarter. A NULL owner or
+-- region means "all owners" / "all regions"; yearly_revenue_targets keeps the
+-- single company figure shown in the revenue summary.
+
+CREATE TABLE IF NOT EXISTS public.revenue_targets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  year INTEGER NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+  quarter SMALLINT NOT NULL CHECK (quarter BETWEEN 1 AND 4),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  region TEXT,
+  amount NUMERIC NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  -- Reporting currency at the time the target was set
+  currency TEXT NOT NULL DEFAULT 'EUR' CHECK (currency ~ '^[A-Z]{3}$'),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_revenue_targets_slot
+ON public.revenue_targets (year, quarter, COALESCE(owner_id, '00000000-0000-0000-0000-000000000000'::uuid), COALESCE(region, ''));
+
+CREATE INDEX IF NOT EXISTS idx_revenue_targets_owner ON public.revenue_targets (owner_id, year);
+
+DROP TRIGGER IF EXISTS update_revenue_targets_updated_at ON public.revenue_targets;
+CREATE TRIGGER update_revenue_targets_updated_at
+BEFORE UPDATE ON public.revenue_targets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.revenue_targets ENABLE ROW LEVEL SECURITY;
+
+-- Reps see their own targets and the shared (owner-less) ones
+DROP POLICY IF EXISTS "Users can view relevant revenue targets" ON public.revenue_targets;
+CREATE POLICY "Users can view relevant revenue targets"
+ON public.revenue_targets
+FOR SELECT
+USING (is_user_admin() OR is_user_manager() OR owner_id IS NULL OR owner_id = auth.uid());
+
+-- Writes go through save_revenue_targets
+DROP POLICY IF EXISTS "Managers can delete revenue targets" ON public.revenue_targets;
+CREATE POLICY "Managers can delete revenue targets"
+ON public.revenue_targets
+FOR DELETE
+USING (is_user_admin() OR is_user_manager());
+
+-- Replaces the whole grid for a year in one go. p_targets:
+-- [{ "owner_id": uuid|null, "region": text|null, "quarter": 1-4, "amount": number }]
+-- Zero amounts are dropped rather than stored.
+CREATE OR REPLACE FUNCTION public.save_revenue_targets(p_year INTEGER, p_targets JSONB, p_currency TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_currency TEXT;
+  v_saved INTEGER;
+BEGIN
+  IF NOT (is_user_admin() OR is_user_manager()) THEN
+    RAISE EXCEPTION 'Only managers and admins can set revenue targets';
+  END IF;
+
+  IF jsonb_typeof(COALESCE(p_targets, '[]'::jsonb)) <> 'array' THEN
+    RAISE EXCEPTION 'Targets must be a list';
+  END IF;
+
+  v_currency := COALESCE(
+    p_currency,
+    (SELECT reporting_currency FROM public.currency_settings ORDER BY created_at LIMIT 1),
+    'EUR'
+  );
+
+  DELETE FROM public.revenue_targets WHERE year = p_year;
+
+  INSERT INTO public.revenue_targets (year, quarter, owner_id, region, amount, currency, created_by)
+  SELECT
+    p_year,
+    (t->>'quarter')::SMALLINT,
+    NULLIF(t->>'owner_id', '')::UUID,
+    NULLIF(trim(t->>'region'), ''),
+    (t->>'amount')::NUMERIC,
+    v_currency,
+    auth.uid()
+  FROM jsonb_array_elements(COALESCE(p_targets, '[]'::jsonb)) t
+  WHERE COALESCE((t->>'amount')::NUMERIC, 0) > 0;
+
+  GET DIAGNOSTICS v_saved = ROW_COUNT;
+  RETURN v_saved;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.save_revenue_targets(INTEGER, JSONB, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_revenue_targets(INTEGER, JSONB, TEXT) TO authenticated;
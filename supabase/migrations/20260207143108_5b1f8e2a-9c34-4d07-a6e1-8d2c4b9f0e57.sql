@@ -0,0 +1,215 @@
+-- Forecasting: every stage maps to a forecast category, reps can move a single
+-- deal to another category, managers can override a rep's quarterly numbers,
+-- and weekly snapshots record where each deal stood so movement and slippage
+-- can be compared over time.
+
+ALTER TABLE public.pipeline_stages
+ADD COLUMN IF NOT EXISTS forecast_category TEXT NOT NULL DEFAULT 'pipeline';
+
+ALTER TABLE public.pipeline_stages DROP CONSTRAINT IF EXISTS pipeline_stages_forecast_category_check;
+ALTER TABLE public.pipeline_stages
+ADD CONSTRAINT pipeline_stages_forecast_category_check
+CHECK (forecast_category IN ('pipeline', 'best_case', 'commit', 'closed', 'omitted'));
+
+UPDATE public.pipeline_stages SET forecast_category = 'closed' WHERE is_won_stage;
+UPDATE public.pipeline_stages SET forecast_category = 'omitted' WHERE is_lost_stage;
+UPDATE public.pipeline_stages SET forecast_category = 'commit' WHERE stage_name = 'Offered' AND NOT is_won_stage AND NOT is_lost_stage;
+UPDATE public.pipeline_stages SET forecast_category = 'best_case' WHERE stage_name = 'RFQ' AND NOT is_won_stage AND NOT is_lost_stage;
+
+-- NULL follows the stage's category
+ALTER TABLE public.deals
+ADD COLUMN IF NOT EXISTS forecast_category TEXT;
+
+ALTER TABLE public.deals DROP CONSTRAINT IF EXISTS deals_forecast_category_check;
+ALTER TABLE public.deals
+ADD CONSTRAINT deals_forecast_category_check
+CHECK (forecast_category IS NULL OR forecast_category IN ('pipeline', 'best_case', 'commit', 'omitted'));
+
+-- Manager call on a rep's quarter, in place of the rolled-up deal numbers
+CREATE TABLE IF NOT EXISTS public.forecast_overrides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  year INTEGER NOT NULL CHECK (year BETWEEN 2000 AND 2100),
+  quarter SMALLINT NOT NULL CHECK (quarter BETWEEN 1 AND 4),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  commit_amount NUMERIC CHECK (commit_amount >= 0),
+  best_case_amount NUMERIC CHECK (best_case_amount >= 0),
+  currency TEXT NOT NULL DEFAULT 'EUR' CHECK (currency ~ '^[A-Z]{3}$'),
+  note TEXT,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (year, quarter, owner_id)
+);
+
+DROP TRIGGER IF EXISTS update_forecast_overrides_updated_at ON public.forecast_overrides;
+CREATE TRIGGER update_forecast_overrides_updated_at
+BEFORE UPDATE ON public.forecast_overrides
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.forecast_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view relevant forecast overrides" ON public.forecast_overrides;
+CREATE POLICY "Users can view relevant forecast overrides"
+ON public.forecast_overrides
+FOR SELECT
+USING (is_user_admin() OR is_user_manager() OR owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Managers can insert forecast overrides" ON public.forecast_overrides;
+CREATE POLICY "Managers can insert forecast overrides"
+ON public.forecast_overrides
+FOR INSERT
+WITH CHECK (is_user_admin() OR is_user_manager());
+
+DROP POLICY IF EXISTS "Managers can update forecast overrides" ON public.forecast_overrides;
+CREATE POLICY "Managers can update forecast overrides"
+ON public.forecast_overrides
+FOR UPDATE
+USING (is_user_admin() OR is_user_manager());
+
+DROP POLICY IF EXISTS "Managers can delete forecast overrides" ON public.forecast_overrides;
+CREATE POLICY "Managers can delete forecast overrides"
+ON public.forecast_overrides
+FOR DELETE
+USING (is_user_admin() OR is_user_manager());
+
+CREATE TABLE IF NOT EXISTS public.forecast_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  snapshot_date DATE NOT NULL UNIQUE,
+  reporting_currency TEXT NOT NULL,
+  deal_count INTEGER NOT NULL DEFAULT 0,
+  -- NULL when taken by the weekly schedule
+  taken_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- deal_id has no foreign key so history survives deal deletion
+CREATE TABLE IF NOT EXISTS public.forecast_snapshot_deals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  snapshot_id UUID NOT NULL REFERENCES public.forecast_snapshots(id) ON DELETE CASCADE,
+  deal_id UUID NOT NULL,
+  deal_name TEXT NOT NULL,
+  owner_id UUID,
+  stage TEXT NOT NULL,
+  forecast_category TEXT NOT NULL,
+  close_date DATE NOT NULL,
+  close_year INTEGER NOT NULL,
+  close_quarter SMALLINT NOT NULL,
+  probability INTEGER NOT NULL DEFAULT 0,
+  -- In the snapshot's reporting currency; NULL when the deal had no rate
+  amount NUMERIC,
+  weighted_amount NUMERIC
+);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_snapshot_deals_period
+ON public.forecast_snapshot_deals (close_year, close_quarter, snapshot_id);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_snapshot_deals_deal
+ON public.forecast_snapshot_deals (deal_id, snapshot_id);
+
+ALTER TABLE public.forecast_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forecast_snapshot_deals ENABLE ROW LEVEL SECURITY;
+
+-- Snapshots are written only by take_forecast_snapshot
+DROP POLICY IF EXISTS "Authenticated users can view forecast snapshots" ON public.forecast_snapshots;
+CREATE POLICY "Authenticated users can view forecast snapshots"
+ON public.forecast_snapshots
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Managers can delete forecast snapshots" ON public.forecast_snapshots;
+CREATE POLICY "Managers can delete forecast snapshots"
+ON public.forecast_snapshots
+FOR DELETE
+USING (is_user_admin() OR is_user_manager());
+
+DROP POLICY IF EXISTS "Users can view relevant forecast snapshot deals" ON public.forecast_snapshot_deals;
+CREATE POLICY "Users can view relevant forecast snapshot deals"
+ON public.forecast_snapshot_deals
+FOR SELECT
+USING (is_user_admin() OR is_user_manager() OR owner_id = auth.uid());
+
+-- Records every open deal with a closing date, and won deals closing this year
+-- or later, as of p_date. Re-running on the same day replaces that day's
+-- snapshot. Callable by managers and by the scheduler (service role).
+CREATE OR REPLACE FUNCTION public.take_forecast_snapshot(p_date DATE DEFAULT CURRENT_DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot_id UUID;
+  v_currency TEXT;
+  v_count INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT (is_user_admin() OR is_user_manager()) THEN
+    RAISE EXCEPTION 'Only managers and admins can take forecast snapshots';
+  END IF;
+
+  v_currency := COALESCE(
+    (SELECT reporting_currency FROM public.currency_settings ORDER BY created_at LIMIT 1),
+    'EUR'
+  );
+
+  DELETE FROM public.forecast_snapshots WHERE snapshot_date = p_date;
+
+  INSERT INTO public.forecast_snapshots (snapshot_date, reporting_currency, taken_by)
+  VALUES (p_date, v_currency, auth.uid())
+  RETURNING id INTO v_snapshot_id;
+
+  INSERT INTO public.forecast_snapshot_deals (
+    snapshot_id, deal_id, deal_name, owner_id, stage, forecast_category,
+    close_date, close_year, close_quarter, probability, amount, weighted_amount
+  )
+  SELECT
+    v_snapshot_id,
+    d.id,
+    d.deal_name,
+    COALESCE(d.lead_owner, d.created_by),
+    d.stage,
+    d.category,
+    d.close_date,
+    EXTRACT(YEAR FROM d.close_date)::INTEGER,
+    EXTRACT(QUARTER FROM d.close_date)::SMALLINT,
+    d.probability,
+    d.converted,
+    d.converted * d.probability / 100
+  FROM (
+    SELECT
+      deals.id,
+      deals.deal_name,
+      deals.lead_owner,
+      deals.created_by,
+      deals.stage,
+      CASE WHEN ps.forecast_category IN ('closed', 'omitted') THEN ps.forecast_category
+           ELSE COALESCE(deals.forecast_category, ps.forecast_category, 'pipeline') END AS category,
+      CASE WHEN ps.forecast_category = 'closed'
+           THEN COALESCE(deals.signed_contract_date, deals.expected_closing_date)
+           ELSE deals.expected_closing_date END AS close_date,
+      CASE WHEN ps.forecast_category = 'closed' THEN 100
+           ELSE LEAST(GREATEST(COALESCE(deals.probability, ps.stage_probability, 0), 0), 100) END AS probability,
+      public.convert_to_reporting_currency(
+        CASE WHEN ps.forecast_category = 'closed'
+             THEN COALESCE(NULLIF(deals.total_revenue, 0), deals.total_contract_value, 0)
+             ELSE COALESCE(deals.total_contract_value, 0) END,
+        COALESCE(deals.currency_type, 'EUR'),
+        COALESCE(deals.signed_contract_date, deals.expected_closing_date, deals.created_at::DATE),
+        v_currency
+      ) AS converted
+    FROM public.deals
+    LEFT JOIN public.pipeline_stages ps ON ps.stage_name = deals.stage
+  ) d
+  WHERE d.close_date IS NOT NULL
+    AND d.category <> 'omitted'
+    AND (d.category <> 'closed' OR EXTRACT(YEAR FROM d.close_date) >= EXTRACT(YEAR FROM p_date));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  UPDATE public.forecast_snapshots SET deal_count = v_count WHERE id = v_snapshot_id;
+
+  RETURN v_snapshot_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.take_forecast_snapshot(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.take_forecast_snapshot(DATE) TO authenticated, service_role;
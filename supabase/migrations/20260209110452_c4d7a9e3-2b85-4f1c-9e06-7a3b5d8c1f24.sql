@@ -0,0 +1,22 @@
+-- Pipeline analytics: a per-stage threshold for flagging deals that have sat in
+-- a stage too long, and the page's access entry.
+
+ALTER TABLE public.pipeline_stages
+ADD COLUMN IF NOT EXISTS stuck_after_days INTEGER;
+
+ALTER TABLE public.pipeline_stages DROP CONSTRAINT IF EXISTS pipeline_stages_stuck_after_days_check;
+ALTER TABLE public.pipeline_stages
+ADD CONSTRAINT pipeline_stages_stuck_after_days_check
+CHECK (stuck_after_days IS NULL OR stuck_after_days > 0);
+
+-- Sensible starting points for the default open stages; NULL disables the check
+UPDATE public.pipeline_stages SET stuck_after_days = 30
+WHERE stuck_after_days IS NULL AND NOT is_won_stage AND NOT is_lost_stage;
+
+-- Stage durations are read per deal in change order
+CREATE INDEX IF NOT EXISTS idx_deal_stage_history_deal_changed
+ON public.deal_stage_history (deal_id, changed_at);
+
+INSERT INTO public.page_permissions (page_name, description, route, admin_access, manager_access, user_access)
+VALUES ('Pipeline Analytics', 'Stage conversion, velocity, deal aging and win rates', '/pipeline-analytics', true, true, true)
+ON CONFLICT (route) DO NOTHING;
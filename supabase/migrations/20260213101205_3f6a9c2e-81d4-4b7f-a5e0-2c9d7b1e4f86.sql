@@ -0,0 +1,330 @@
+-- Assignment rules: route new leads and deals to an owner by region, country,
+-- industry and source, round-robin or to the least loaded member of a team.
+
+CREATE TABLE IF NOT EXISTS public.assignment_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('lead', 'deal')),
+  name TEXT NOT NULL,
+  -- Lower runs first; the first active rule that matches assigns the record
+  priority INTEGER NOT NULL DEFAULT 0,
+  -- Empty array means "any"; values are compared case-insensitively
+  regions TEXT[] NOT NULL DEFAULT '{}',
+  countries TEXT[] NOT NULL DEFAULT '{}',
+  industries TEXT[] NOT NULL DEFAULT '{}',
+  sources TEXT[] NOT NULL DEFAULT '{}',
+  distribution TEXT NOT NULL DEFAULT 'round_robin' CHECK (distribution IN ('round_robin', 'load_balanced')),
+  member_ids UUID[] NOT NULL CHECK (cardinality(member_ids) > 0),
+  last_assigned_to UUID,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_rules_entity ON public.assignment_rules (entity_type, priority) WHERE is_active;
+
+DROP TRIGGER IF EXISTS update_assignment_rules_updated_at ON public.assignment_rules;
+CREATE TRIGGER update_assignment_rules_updated_at
+BEFORE UPDATE ON public.assignment_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.assignment_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view assignment rules" ON public.assignment_rules;
+CREATE POLICY "Authenticated users can view assignment rules"
+ON public.assignment_rules
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can insert assignment rules" ON public.assignment_rules;
+CREATE POLICY "Admins can insert assignment rules"
+ON public.assignment_rules
+FOR INSERT
+WITH CHECK (is_user_admin());
+
+DROP POLICY IF EXISTS "Admins can update assignment rules" ON public.assignment_rules;
+CREATE POLICY "Admins can update assignment rules"
+ON public.assignment_rules
+FOR UPDATE
+USING (is_user_admin());
+
+DROP POLICY IF EXISTS "Admins can delete assignment rules" ON public.assignment_rules;
+CREATE POLICY "Admins can delete assignment rules"
+ON public.assignment_rules
+FOR DELETE
+USING (is_user_admin());
+
+CREATE OR REPLACE FUNCTION public.assignment_value_matches(p_allowed TEXT[], p_value TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT cardinality(p_allowed) = 0
+    OR lower(btrim(COALESCE(p_value, ''))) IN (SELECT lower(btrim(v)) FROM unnest(p_allowed) v);
+$$;
+
+-- Picks the owner from the first matching rule and advances its round-robin pointer.
+-- Returns no row when no rule matches.
+CREATE OR REPLACE FUNCTION public.pick_assignment_owner(
+  p_entity_type TEXT,
+  p_region TEXT,
+  p_country TEXT,
+  p_industry TEXT,
+  p_source TEXT
+)
+RETURNS TABLE (owner_id UUID, rule_id UUID, rule_name TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule public.assignment_rules%ROWTYPE;
+  v_owner UUID;
+  v_position INTEGER;
+BEGIN
+  SELECT * INTO v_rule
+  FROM public.assignment_rules r
+  WHERE r.entity_type = p_entity_type
+    AND r.is_active
+    AND public.assignment_value_matches(r.regions, p_region)
+    AND public.assignment_value_matches(r.countries, p_country)
+    AND public.assignment_value_matches(r.industries, p_industry)
+    AND public.assignment_value_matches(r.sources, p_source)
+  ORDER BY r.priority, r.created_at
+  LIMIT 1
+  -- Serialises concurrent inserts (e.g. an import) on the same rule
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_rule.distribution = 'load_balanced' THEN
+    SELECT m.member INTO v_owner
+    FROM unnest(v_rule.member_ids) WITH ORDINALITY AS m(member, position)
+    ORDER BY
+      CASE WHEN p_entity_type = 'lead' THEN (
+        SELECT count(*) FROM public.leads l
+        WHERE l.contact_owner = m.member
+          AND l.lead_status IS DISTINCT FROM 'Unqualified'
+          AND NOT EXISTS (
+            SELECT 1 FROM public.lead_statuses ls
+            WHERE ls.is_converted_status AND ls.status_name = l.lead_status
+          )
+      ) ELSE (
+        SELECT count(*) FROM public.deals d
+        WHERE d.lead_owner = m.member::TEXT
+          AND NOT EXISTS (
+            SELECT 1 FROM public.pipeline_stages ps
+            WHERE ps.stage_name = d.stage AND (ps.is_won_stage OR ps.is_lost_stage)
+          )
+      ) END,
+      m.position
+    LIMIT 1;
+  ELSE
+    v_position := COALESCE(array_position(v_rule.member_ids, v_rule.last_assigned_to), 0);
+    v_owner := v_rule.member_ids[(v_position % cardinality(v_rule.member_ids)) + 1];
+  END IF;
+
+  UPDATE public.assignment_rules SET last_assigned_to = v_owner WHERE id = v_rule.id;
+
+  owner_id := v_owner;
+  rule_id := v_rule.id;
+  rule_name := v_rule.name;
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.pick_assignment_owner(TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Writes the assignment to the record's change history and notifies the new owner
+CREATE OR REPLACE FUNCTION public.record_owner_assignment(
+  p_entity_type TEXT,
+  p_record_id UUID,
+  p_record_name TEXT,
+  p_old_owner UUID,
+  p_new_owner UUID,
+  p_rule_id UUID DEFAULT NULL,
+  p_rule_name TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_name TEXT;
+  v_new_name TEXT;
+BEGIN
+  SELECT full_name INTO v_old_name FROM public.profiles WHERE id = p_old_owner;
+  SELECT full_name INTO v_new_name FROM public.profiles WHERE id = p_new_owner;
+
+  PERFORM public.log_security_event('ASSIGNMENT', p_entity_type || 's', p_record_id::TEXT, jsonb_build_object(
+    'operation', 'ASSIGN',
+    'method', CASE WHEN p_rule_id IS NULL THEN 'manual' ELSE 'rule' END,
+    'rule_id', p_rule_id,
+    'rule_name', p_rule_name,
+    'field_changes', jsonb_build_object(
+      'owner', jsonb_build_object('old', COALESCE(v_old_name, p_old_owner::TEXT), 'new', COALESCE(v_new_name, p_new_owner::TEXT))
+    ),
+    'module', initcap(p_entity_type) || 's'
+  ));
+
+  IF p_new_owner IS NOT NULL AND p_new_owner IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO public.notifications (user_id, lead_id, message, notification_type)
+    VALUES (
+      p_new_owner,
+      CASE WHEN p_entity_type = 'lead' THEN p_record_id END,
+      initcap(p_entity_type) || ' assigned to you: ' || COALESCE(p_record_name, 'Untitled')
+        || CASE WHEN p_rule_name IS NOT NULL THEN ' (rule "' || p_rule_name || '")' ELSE '' END,
+      p_entity_type || '_assigned'
+    );
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_owner_assignment(TEXT, UUID, TEXT, UUID, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Rules only replace the default owner: nobody, or whoever created the record.
+-- This runs BEFORE INSERT so the owner is set on the row itself; NEW.id already
+-- holds its default, so the history entry can point at it.
+CREATE OR REPLACE FUNCTION public.apply_lead_assignment_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_region TEXT;
+  v_pick RECORD;
+BEGIN
+  IF NEW.contact_owner IS NOT NULL AND NEW.contact_owner IS DISTINCT FROM NEW.created_by THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT region INTO v_region FROM public.accounts WHERE id = NEW.account_id;
+
+  SELECT * INTO v_pick
+  FROM public.pick_assignment_owner('lead', v_region, NEW.country, NEW.industry, NEW.contact_source);
+
+  IF v_pick.owner_id IS NOT NULL AND v_pick.owner_id IS DISTINCT FROM NEW.contact_owner THEN
+    PERFORM public.record_owner_assignment(
+      'lead', NEW.id, NEW.lead_name, NEW.contact_owner, v_pick.owner_id, v_pick.rule_id, v_pick.rule_name
+    );
+    NEW.contact_owner := v_pick.owner_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_deal_assignment_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account public.accounts%ROWTYPE;
+  v_source TEXT;
+  v_creator_name TEXT;
+  v_old_owner UUID;
+  v_pick RECORD;
+BEGIN
+  -- The deal form pre-fills the creator's display name rather than their id
+  SELECT full_name INTO v_creator_name FROM public.profiles WHERE id = NEW.created_by;
+  IF NULLIF(btrim(NEW.lead_owner), '') IS NOT NULL
+     AND NEW.lead_owner IS DISTINCT FROM NEW.created_by::TEXT
+     AND NEW.lead_owner IS DISTINCT FROM v_creator_name THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_account FROM public.accounts WHERE id = NEW.account_id;
+  SELECT contact_source INTO v_source FROM public.contacts WHERE id = NEW.contact_id;
+
+  SELECT * INTO v_pick
+  FROM public.pick_assignment_owner('deal', NEW.region, v_account.country, v_account.industry, v_source);
+
+  IF v_pick.owner_id IS NOT NULL AND v_pick.owner_id::TEXT IS DISTINCT FROM NEW.lead_owner THEN
+    IF NEW.lead_owner IS NOT NULL THEN
+      v_old_owner := NEW.created_by;
+    END IF;
+    PERFORM public.record_owner_assignment(
+      'deal', NEW.id, NEW.deal_name, v_old_owner, v_pick.owner_id, v_pick.rule_id, v_pick.rule_name
+    );
+    NEW.lead_owner := v_pick.owner_id::TEXT;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Reassignments after creation (owner modal, edit form) go to the history too
+CREATE OR REPLACE FUNCTION public.log_lead_owner_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.contact_owner IS DISTINCT FROM OLD.contact_owner THEN
+    PERFORM public.record_owner_assignment('lead', NEW.id, NEW.lead_name, OLD.contact_owner, NEW.contact_owner);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_deal_owner_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_owner UUID;
+  v_new_owner UUID;
+BEGIN
+  IF NEW.lead_owner IS NOT DISTINCT FROM OLD.lead_owner THEN
+    RETURN NEW;
+  END IF;
+
+  -- Older deals may hold a display name instead of a user id
+  IF OLD.lead_owner ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    v_old_owner := OLD.lead_owner::UUID;
+  END IF;
+  IF NEW.lead_owner ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    v_new_owner := NEW.lead_owner::UUID;
+  END IF;
+
+  IF v_new_owner IS NOT NULL THEN
+    PERFORM public.record_owner_assignment('deal', NEW.id, NEW.deal_name, v_old_owner, v_new_owner);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_lead_assignment_rules ON public.leads;
+CREATE TRIGGER apply_lead_assignment_rules
+BEFORE INSERT ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_lead_assignment_rules();
+
+DROP TRIGGER IF EXISTS apply_deal_assignment_rules ON public.deals;
+CREATE TRIGGER apply_deal_assignment_rules
+BEFORE INSERT ON public.deals
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_deal_assignment_rules();
+
+DROP TRIGGER IF EXISTS log_lead_owner_change ON public.leads;
+CREATE TRIGGER log_lead_owner_change
+AFTER UPDATE OF contact_owner ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.log_lead_owner_change();
+
+DROP TRIGGER IF EXISTS log_deal_owner_change ON public.deals;
+CREATE TRIGGER log_deal_owner_change
+AFTER UPDATE OF lead_owner ON public.deals
+FOR EACH ROW
+EXECUTE FUNCTION public.log_deal_owner_change();
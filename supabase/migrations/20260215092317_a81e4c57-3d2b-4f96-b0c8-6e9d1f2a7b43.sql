@@ -0,0 +1,281 @@
+-- Teams and a manager hierarchy. A team has one manager and optionally a
+-- parent team; a manager is responsible for the members and managers of their
+-- teams and every team below them. Manager write access and the "my team"
+-- views are scoped to those users. Managers who do not manage any team keep
+-- the previous company-wide access until teams are set up.
+
+CREATE TABLE IF NOT EXISTS public.teams (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  manager_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  parent_team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT teams_not_own_parent CHECK (parent_team_id IS DISTINCT FROM id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_teams_name ON public.teams (lower(name));
+CREATE INDEX IF NOT EXISTS idx_teams_manager ON public.teams (manager_id);
+CREATE INDEX IF NOT EXISTS idx_teams_parent ON public.teams (parent_team_id);
+
+-- A user belongs to at most one team
+CREATE TABLE IF NOT EXISTS public.team_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_members_team ON public.team_members (team_id);
+
+DROP TRIGGER IF EXISTS update_teams_updated_at ON public.teams;
+CREATE TRIGGER update_teams_updated_at
+BEFORE UPDATE ON public.teams
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rejects a parent that is the team itself or one of its sub-teams
+CREATE OR REPLACE FUNCTION public.prevent_team_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_team_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_team_id FROM public.teams WHERE id = NEW.parent_team_id
+      UNION
+      SELECT t.id, t.parent_team_id FROM public.teams t JOIN ancestors a ON t.id = a.parent_team_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A team cannot report to one of its own sub-teams';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_team_cycle ON public.teams;
+CREATE TRIGGER prevent_team_cycle
+BEFORE INSERT OR UPDATE OF parent_team_id ON public.teams
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_team_cycle();
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view teams" ON public.teams;
+CREATE POLICY "Authenticated users can view teams"
+ON public.teams
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can insert teams" ON public.teams;
+CREATE POLICY "Admins can insert teams"
+ON public.teams
+FOR INSERT
+WITH CHECK (is_user_admin());
+
+DROP POLICY IF EXISTS "Admins can update teams" ON public.teams;
+CREATE POLICY "Admins can update teams"
+ON public.teams
+FOR UPDATE
+USING (is_user_admin());
+
+DROP POLICY IF EXISTS "Admins can delete teams" ON public.teams;
+CREATE POLICY "Admins can delete teams"
+ON public.teams
+FOR DELETE
+USING (is_user_admin());
+
+DROP POLICY IF EXISTS "Authenticated users can view team members" ON public.team_members;
+CREATE POLICY "Authenticated users can view team members"
+ON public.team_members
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can insert team members" ON public.team_members;
+CREATE POLICY "Admins can insert team members"
+ON public.team_members
+FOR INSERT
+WITH CHECK (is_user_admin());
+
+DROP POLICY IF EXISTS "Admins can update team members" ON public.team_members;
+CREATE POLICY "Admins can update team members"
+ON public.team_members
+FOR UPDATE
+USING (is_user_admin());
+
+DROP POLICY IF EXISTS "Admins can delete team members" ON public.team_members;
+CREATE POLICY "Admins can delete team members"
+ON public.team_members
+FOR DELETE
+USING (is_user_admin());
+
+-- Members and sub-team managers of a team and all teams below it, including
+-- the team's own manager
+CREATE OR REPLACE FUNCTION public.get_team_user_ids(p_team_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE team_tree AS (
+    SELECT id, manager_id FROM public.teams WHERE id = p_team_id
+    UNION
+    SELECT t.id, t.manager_id FROM public.teams t JOIN team_tree tt ON t.parent_team_id = tt.id
+  )
+  SELECT tm.user_id FROM public.team_members tm WHERE tm.team_id IN (SELECT id FROM team_tree)
+  UNION
+  SELECT manager_id FROM team_tree WHERE manager_id IS NOT NULL;
+$$;
+
+-- Everyone below a manager in the hierarchy, not including the manager
+CREATE OR REPLACE FUNCTION public.get_managed_user_ids(p_manager_id UUID DEFAULT auth.uid())
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT member.user_id
+  FROM public.teams t
+  CROSS JOIN LATERAL public.get_team_user_ids(t.id) AS member(user_id)
+  WHERE t.manager_id = p_manager_id
+    AND member.user_id <> p_manager_id;
+$$;
+
+-- Whether the current user may act on records owned by p_user_id on behalf of
+-- a manager: admins always, managers for users in their team tree, and
+-- managers without a team for everyone (access before teams existed)
+CREATE OR REPLACE FUNCTION public.can_manage_user(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_user_admin() OR (
+    is_user_manager() AND p_user_id IS NOT NULL AND (
+      NOT EXISTS (SELECT 1 FROM public.teams WHERE manager_id = auth.uid())
+      OR p_user_id = auth.uid()
+      OR p_user_id IN (SELECT public.get_managed_user_ids(auth.uid()))
+    )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.get_team_user_ids(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_managed_user_ids(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.can_manage_user(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_team_user_ids(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_managed_user_ids(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.can_manage_user(UUID) TO authenticated, service_role;
+
+-- Manager update access, previously company-wide, now follows the record's
+-- owner (or creator) through the team hierarchy
+
+DROP POLICY IF EXISTS "Users can update contacts, managers and admins can update all" ON public.contacts;
+DROP POLICY IF EXISTS "Users can update contacts, team managers and admins can update" ON public.contacts;
+CREATE POLICY "Users can update contacts, team managers and admins can update"
+ON public.contacts
+FOR UPDATE
+USING (is_user_admin() OR (created_by = auth.uid()) OR (contact_owner = auth.uid()) OR can_manage_user(contact_owner) OR can_manage_user(created_by));
+
+DROP POLICY IF EXISTS "Users can update accounts, managers and admins can update all" ON public.accounts;
+DROP POLICY IF EXISTS "Users can update accounts, team managers and admins can update" ON public.accounts;
+CREATE POLICY "Users can update accounts, team managers and admins can update"
+ON public.accounts
+FOR UPDATE
+USING (is_user_admin() OR (created_by = auth.uid()) OR (account_owner = auth.uid()) OR can_manage_user(account_owner) OR can_manage_user(created_by));
+
+DROP POLICY IF EXISTS "Users can update leads, managers and admins can update all" ON public.leads;
+DROP POLICY IF EXISTS "Users can update leads, team managers and admins can update" ON public.leads;
+CREATE POLICY "Users can update leads, team managers and admins can update"
+ON public.leads
+FOR UPDATE
+USING (is_user_admin() OR (created_by = auth.uid()) OR (contact_owner = auth.uid()) OR can_manage_user(contact_owner) OR can_manage_user(created_by));
+
+DROP POLICY IF EXISTS "Users can update meetings, managers and admins can update all" ON public.meetings;
+DROP POLICY IF EXISTS "Users can update meetings, team managers and admins can update" ON public.meetings;
+CREATE POLICY "Users can update meetings, team managers and admins can update"
+ON public.meetings
+FOR UPDATE
+USING (is_user_admin() OR (created_by = auth.uid()) OR can_manage_user(created_by));
+
+DROP POLICY IF EXISTS "Users can update tasks, managers and admins can update all" ON public.tasks;
+DROP POLICY IF EXISTS "Users can update tasks, team managers and admins can update" ON public.tasks;
+CREATE POLICY "Users can update tasks, team managers and admins can update"
+ON public.tasks
+FOR UPDATE
+USING (is_user_admin() OR (created_by = auth.uid()) OR (assigned_to = auth.uid()) OR can_manage_user(assigned_to) OR can_manage_user(created_by));
+
+DROP POLICY IF EXISTS "Users can update contact activities, managers and admins can update all" ON public.contact_activities;
+DROP POLICY IF EXISTS "Users can update contact activities, team managers and admins can update" ON public.contact_activities;
+CREATE POLICY "Users can update contact activities, team managers and admins can update"
+ON public.contact_activities
+FOR UPDATE
+USING (is_user_admin() OR (created_by = auth.uid()) OR can_manage_user(created_by));
+
+DROP POLICY IF EXISTS "Users can update account activities, managers and admins can update all" ON public.account_activities;
+DROP POLICY IF EXISTS "Users can update account activities, team managers and admins can update" ON public.account_activities;
+CREATE POLICY "Users can update account activities, team managers and admins can update"
+ON public.account_activities
+FOR UPDATE
+USING (is_user_admin() OR (created_by = auth.uid()) OR can_manage_user(created_by));
+
+DROP POLICY IF EXISTS "Users can update lead action items, managers and admins can update all" ON public.lead_action_items;
+DROP POLICY IF EXISTS "Users can update lead action items, team managers and admins can update" ON public.lead_action_items;
+CREATE POLICY "Users can update lead action items, team managers and admins can update"
+ON public.lead_action_items
+FOR UPDATE
+USING (is_user_admin() OR (created_by = auth.uid()) OR (assigned_to = auth.uid()) OR can_manage_user(assigned_to) OR can_manage_user(created_by));
+
+DROP POLICY IF EXISTS "Users can update deal action items, managers and admins can update all" ON public.deal_action_items;
+DROP POLICY IF EXISTS "Users can update deal action items, team managers and admins can update" ON public.deal_action_items;
+CREATE POLICY "Users can update deal action items, team managers and admins can update"
+ON public.deal_action_items
+FOR UPDATE
+USING (is_user_admin() OR (created_by = auth.uid()) OR (assigned_to = auth.uid()) OR can_manage_user(assigned_to) OR can_manage_user(created_by));
+
+DROP POLICY IF EXISTS "Users can update templates, managers and admins can update all" ON public.email_templates;
+DROP POLICY IF EXISTS "Users can update templates, team managers and admins can update" ON public.email_templates;
+CREATE POLICY "Users can update templates, team managers and admins can update"
+ON public.email_templates
+FOR UPDATE
+USING (is_user_admin() OR (created_by = auth.uid()) OR can_manage_user(created_by));
+
+DROP POLICY IF EXISTS "Users can update email history, managers and admins can update all" ON public.email_history;
+DROP POLICY IF EXISTS "Users can update email history, team managers and admins can update" ON public.email_history;
+CREATE POLICY "Users can update email history, team managers and admins can update"
+ON public.email_history
+FOR UPDATE
+USING (is_user_admin() OR (sent_by = auth.uid()) OR can_manage_user(sent_by));
+
+-- Forecast overrides: managers see and override the numbers of their own team
+
+DROP POLICY IF EXISTS "Users can view relevant forecast overrides" ON public.forecast_overrides;
+CREATE POLICY "Users can view relevant forecast overrides"
+ON public.forecast_overrides
+FOR SELECT
+USING (owner_id = auth.uid() OR can_manage_user(owner_id));
+
+DROP POLICY IF EXISTS "Managers can insert forecast overrides" ON public.forecast_overrides;
+CREATE POLICY "Managers can insert forecast overrides"
+ON public.forecast_overrides
+FOR INSERT
+WITH CHECK (can_manage_user(owner_id));
+
+DROP POLICY IF EXISTS "Managers can update forecast overrides" ON public.forecast_overrides;
+CREATE POLICY "Managers can update forecast overrides"
+ON public.forecast_overrides
+FOR UPDATE
+USING (can_manage_user(owner_id));
+
+DROP POLICY IF EXISTS "Managers can delete forecast overrides" ON public.forecast_overrides;
+CREATE POLICY "Managers can delete forecast overrides"
+ON public.forecast_overrides
+FOR DELETE
+USING (can_manage_user(owner_id));
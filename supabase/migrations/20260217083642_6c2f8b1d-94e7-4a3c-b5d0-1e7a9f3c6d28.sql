@@ -0,0 +1,40 @@
+-- Notification digests. notification_frequency now decides whether a user gets
+-- individual emails (instant) or has them batched into an hourly, daily or
+-- weekly digest sent by the send-notification-digests worker; weekly_digest
+-- adds a weekly summary on top of any frequency.
+
+ALTER TABLE public.notification_preferences
+DROP CONSTRAINT IF EXISTS notification_preferences_notification_frequency_check;
+
+ALTER TABLE public.notification_preferences
+ADD CONSTRAINT notification_preferences_notification_frequency_check
+CHECK (notification_frequency IN ('instant', 'hourly', 'daily', 'weekly'));
+
+COMMENT ON COLUMN public.notification_preferences.notification_frequency IS 'instant sends each email right away; hourly, daily and weekly hold them back for the digest';
+
+-- One row per digest sent; the unique key keeps overlapping worker runs from
+-- sending the same digest twice
+CREATE TABLE IF NOT EXISTS public.notification_digests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  digest_type TEXT NOT NULL CHECK (digest_type IN ('hourly', 'daily', 'weekly')),
+  -- The hour, day or ISO week the digest covers, in the user's timezone
+  period_key TEXT NOT NULL,
+  covered_from TIMESTAMP WITH TIME ZONE NOT NULL,
+  notification_count INTEGER NOT NULL DEFAULT 0,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  email_sent_to TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, digest_type, period_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_digests_user ON public.notification_digests (user_id, sent_at DESC);
+
+ALTER TABLE public.notification_digests ENABLE ROW LEVEL SECURITY;
+
+-- Written by the worker with the service role only
+DROP POLICY IF EXISTS "Users can view their own notification digests" ON public.notification_digests;
+CREATE POLICY "Users can view their own notification digests"
+ON public.notification_digests
+FOR SELECT
+USING (user_id = auth.uid() OR is_user_admin());
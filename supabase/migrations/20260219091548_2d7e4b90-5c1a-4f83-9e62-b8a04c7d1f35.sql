@@ -0,0 +1,144 @@
+-- Browser push notifications. Each browser a user enables push on stores its
+-- subscription here; the send-push-notifications worker delivers new in-app
+-- notifications to them with VAPID, so they arrive with the CRM tab closed.
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON public.push_subscriptions (user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can view their own push subscriptions"
+ON public.push_subscriptions
+FOR SELECT
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can add their own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can add their own push subscriptions"
+ON public.push_subscriptions
+FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can update their own push subscriptions"
+ON public.push_subscriptions
+FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can delete their own push subscriptions"
+ON public.push_subscriptions
+FOR DELETE
+USING (user_id = auth.uid());
+
+-- link is the in-app path a notification opens; pushed_at marks it as handed
+-- to the push worker so it is never delivered twice
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS link TEXT;
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS pushed_at TIMESTAMP WITH TIME ZONE;
+
+-- Nothing sent before push existed should go out now
+UPDATE public.notifications SET pushed_at = created_at WHERE pushed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_push_pending
+ON public.notifications (created_at)
+WHERE pushed_at IS NULL;
+
+-- Assignment notifications now open the record they are about
+CREATE OR REPLACE FUNCTION public.record_owner_assignment(
+  p_entity_type TEXT,
+  p_record_id UUID,
+  p_record_name TEXT,
+  p_old_owner UUID,
+  p_new_owner UUID,
+  p_rule_id UUID DEFAULT NULL,
+  p_rule_name TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_name TEXT;
+  v_new_name TEXT;
+BEGIN
+  SELECT full_name INTO v_old_name FROM public.profiles WHERE id = p_old_owner;
+  SELECT full_name INTO v_new_name FROM public.profiles WHERE id = p_new_owner;
+
+  PERFORM public.log_security_event('ASSIGNMENT', p_entity_type || 's', p_record_id::TEXT, jsonb_build_object(
+    'operation', 'ASSIGN',
+    'method', CASE WHEN p_rule_id IS NULL THEN 'manual' ELSE 'rule' END,
+    'rule_id', p_rule_id,
+    'rule_name', p_rule_name,
+    'field_changes', jsonb_build_object(
+      'owner', jsonb_build_object('old', COALESCE(v_old_name, p_old_owner::TEXT), 'new', COALESCE(v_new_name, p_new_owner::TEXT))
+    ),
+    'module', initcap(p_entity_type) || 's'
+  ));
+
+  IF p_new_owner IS NOT NULL AND p_new_owner IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO public.notifications (user_id, lead_id, message, notification_type, link)
+    VALUES (
+      p_new_owner,
+      CASE WHEN p_entity_type = 'lead' THEN p_record_id END,
+      initcap(p_entity_type) || ' assigned to you: ' || COALESCE(p_record_name, 'Untitled')
+        || CASE WHEN p_rule_name IS NOT NULL THEN ' (rule "' || p_rule_name || '")' ELSE '' END,
+      p_entity_type || '_assigned',
+      '/' || p_entity_type || 's?viewId=' || p_record_id
+    );
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_owner_assignment(TEXT, UUID, TEXT, UUID, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Tell the deal owner when someone else moves their deal to another stage
+CREATE OR REPLACE FUNCTION public.notify_deal_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner UUID;
+BEGIN
+  IF NEW.stage IS NOT DISTINCT FROM OLD.stage THEN
+    RETURN NEW;
+  END IF;
+
+  -- Older deals may hold a display name instead of a user id
+  IF NEW.lead_owner ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    v_owner := NEW.lead_owner::UUID;
+  ELSE
+    v_owner := NEW.created_by;
+  END IF;
+
+  IF v_owner IS NOT NULL AND v_owner IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO public.notifications (user_id, message, notification_type, link)
+    VALUES (
+      v_owner,
+      'Deal "' || COALESCE(NEW.deal_name, 'Untitled') || '" moved from ' || COALESCE(OLD.stage, 'no stage') || ' to ' || NEW.stage,
+      'deal_update',
+      '/deals?viewId=' || NEW.id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_deal_stage_change ON public.deals;
+CREATE TRIGGER notify_deal_stage_change
+AFTER UPDATE OF stage ON public.deals
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_deal_stage_change();
@@ -0,0 +1,164 @@
+-- Real session revocation. user_sessions rows are now keyed by the Supabase
+-- auth session (the session_id claim of the access token), so revoking one
+-- deletes the auth session and its refresh tokens instead of only hiding the
+-- row. Admins set an idle timeout and a concurrent session limit per role.
+
+ALTER TABLE public.user_sessions ADD COLUMN IF NOT EXISTS auth_session_id UUID;
+ALTER TABLE public.user_sessions ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.user_sessions ADD COLUMN IF NOT EXISTS revoked_by UUID;
+-- revoked, idle_timeout, session_limit, signed_out or user_deactivated
+ALTER TABLE public.user_sessions ADD COLUMN IF NOT EXISTS revoke_reason TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_sessions_auth_session
+ON public.user_sessions (auth_session_id)
+WHERE auth_session_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_active ON public.user_sessions (user_id, is_active);
+
+-- Older rows were keyed by a prefix of the access token, which changes on every
+-- refresh, so they cannot be matched to a device any more
+UPDATE public.user_sessions
+SET is_active = false, revoked_at = now(), revoke_reason = 'signed_out'
+WHERE auth_session_id IS NULL AND is_active IS NOT false;
+
+-- Sessions are now written by user-admin and check_user_session only, so a
+-- revoked row cannot be switched back on from the browser
+DROP POLICY IF EXISTS "Users can insert their own sessions" ON public.user_sessions;
+DROP POLICY IF EXISTS "Users can update their own sessions" ON public.user_sessions;
+DROP POLICY IF EXISTS "Users can delete their own sessions" ON public.user_sessions;
+
+CREATE TABLE IF NOT EXISTS public.session_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  role public.user_role NOT NULL UNIQUE,
+  -- NULL means no limit
+  idle_timeout_minutes INTEGER CHECK (idle_timeout_minutes IS NULL OR idle_timeout_minutes >= 5),
+  max_concurrent_sessions INTEGER CHECK (max_concurrent_sessions IS NULL OR max_concurrent_sessions >= 1),
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.session_policies (role)
+VALUES ('admin'), ('manager'), ('user')
+ON CONFLICT (role) DO NOTHING;
+
+ALTER TABLE public.session_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view session policies" ON public.session_policies;
+CREATE POLICY "Authenticated users can view session policies"
+ON public.session_policies
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can manage session policies" ON public.session_policies;
+CREATE POLICY "Admins can manage session policies"
+ON public.session_policies
+FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+DROP TRIGGER IF EXISTS update_session_policies_updated_at ON public.session_policies;
+CREATE TRIGGER update_session_policies_updated_at
+BEFORE UPDATE ON public.session_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Marks the sessions revoked and deletes their auth sessions, which invalidates
+-- the refresh tokens; the device is signed out once its access token is checked
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(
+  p_session_ids UUID[],
+  p_revoked_by UUID DEFAULT NULL,
+  p_reason TEXT DEFAULT 'revoked'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_auth_session_ids UUID[];
+BEGIN
+  WITH revoked AS (
+    UPDATE public.user_sessions
+    SET is_active = false,
+        revoked_at = now(),
+        revoked_by = p_revoked_by,
+        revoke_reason = p_reason
+    WHERE id = ANY(p_session_ids)
+      AND is_active IS NOT false
+    RETURNING auth_session_id
+  )
+  SELECT array_agg(auth_session_id) INTO v_auth_session_ids FROM revoked;
+
+  IF v_auth_session_ids IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  DELETE FROM auth.sessions WHERE id = ANY(v_auth_session_ids);
+  RETURN array_length(v_auth_session_ids, 1);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.revoke_user_sessions(UUID[], UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_user_sessions(UUID[], UUID, TEXT) TO service_role;
+
+-- Called by the browser every minute. Reports whether its session is still
+-- valid, enforces the idle timeout of the user's role and, when the user was
+-- active since the last check, records the activity.
+CREATE OR REPLACE FUNCTION public.check_user_session(
+  p_auth_session_id UUID,
+  p_active BOOLEAN DEFAULT false
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.user_sessions%ROWTYPE;
+  v_idle_minutes INTEGER;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.user_sessions
+  WHERE auth_session_id = p_auth_session_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RETURN 'unknown';
+  END IF;
+
+  IF v_session.is_active IS false THEN
+    RETURN COALESCE(v_session.revoke_reason, 'revoked');
+  END IF;
+
+  -- Signed out elsewhere, expired or removed outside the app
+  IF NOT EXISTS (SELECT 1 FROM auth.sessions WHERE id = p_auth_session_id) THEN
+    UPDATE public.user_sessions
+    SET is_active = false, revoked_at = now(), revoke_reason = 'signed_out'
+    WHERE id = v_session.id;
+    RETURN 'signed_out';
+  END IF;
+
+  SELECT sp.idle_timeout_minutes INTO v_idle_minutes
+  FROM public.session_policies sp
+  WHERE sp.role = COALESCE(
+    (SELECT ur.role FROM public.user_roles ur WHERE ur.user_id = v_session.user_id LIMIT 1),
+    'user'
+  );
+
+  IF v_idle_minutes IS NOT NULL
+     AND v_session.last_active_at < now() - make_interval(mins => v_idle_minutes) THEN
+    PERFORM public.revoke_user_sessions(ARRAY[v_session.id], NULL, 'idle_timeout');
+    RETURN 'idle_timeout';
+  END IF;
+
+  IF p_active THEN
+    UPDATE public.user_sessions SET last_active_at = now() WHERE id = v_session.id;
+  END IF;
+
+  RETURN 'active';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.check_user_session(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_user_session(UUID, BOOLEAN) TO authenticated, service_role;
@@ -0,0 +1,73 @@
+-- TOTP two-factor authentication. Factors themselves live in Supabase Auth;
+-- this adds the per-role requirement and single-use recovery codes that let a
+-- user who lost their authenticator remove it and sign in again.
+
+-- When set, users of the role must enroll an authenticator before using the app
+ALTER TABLE public.session_policies ADD COLUMN IF NOT EXISTS require_mfa BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- SHA-256 hex of the code without its separator; the code itself is shown once
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user ON public.mfa_recovery_codes (user_id);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Codes are written by generate_mfa_recovery_codes and redeemed through
+-- user-admin; users only see how many they have left
+DROP POLICY IF EXISTS "Users can view their own recovery codes" ON public.mfa_recovery_codes;
+CREATE POLICY "Users can view their own recovery codes"
+ON public.mfa_recovery_codes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Cleared when the user turns two-factor authentication off
+DROP POLICY IF EXISTS "Users can delete their own recovery codes" ON public.mfa_recovery_codes;
+CREATE POLICY "Users can delete their own recovery codes"
+ON public.mfa_recovery_codes
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Replaces the caller's recovery codes with ten new ones and returns them in
+-- plain text. Needs a session verified with the authenticator, so a stolen
+-- password alone cannot mint codes.
+CREATE OR REPLACE FUNCTION public.generate_mfa_recovery_codes()
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_codes TEXT[] := '{}';
+  v_raw TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator before generating recovery codes';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    v_raw := substr(replace(gen_random_uuid()::text, '-', ''), 1, 10);
+    INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), encode(sha256(convert_to(v_raw, 'UTF8')), 'hex'));
+    v_codes := array_append(v_codes, substr(v_raw, 1, 5) || '-' || substr(v_raw, 6, 5));
+  END LOOP;
+
+  PERFORM public.log_security_event('MFA_RECOVERY_CODES_GENERATED', 'auth.mfa_factors', auth.uid()::text, NULL);
+
+  RETURN v_codes;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.generate_mfa_recovery_codes() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_mfa_recovery_codes() TO authenticated;
@@ -0,0 +1,58 @@
+-- Enforce two-factor authentication on the server. A session that signed in
+-- with the password only (aal1) gets no rows from any table while the user has
+-- a verified authenticator or their role requires one, so a stolen password
+-- is not enough to use the API directly.
+
+-- True when the caller's session meets the 2FA requirement
+CREATE OR REPLACE FUNCTION public.mfa_satisfied()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    OR (
+      NOT EXISTS (
+        SELECT 1 FROM auth.mfa_factors f
+        WHERE f.user_id = auth.uid() AND f.status = 'verified'
+      )
+      AND NOT COALESCE((
+        SELECT sp.require_mfa
+        FROM public.session_policies sp
+        WHERE sp.role = COALESCE(
+          (SELECT ur.role FROM public.user_roles ur WHERE ur.user_id = auth.uid() LIMIT 1),
+          'user'
+        )
+      ), false)
+    );
+$$;
+
+REVOKE ALL ON FUNCTION public.mfa_satisfied() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mfa_satisfied() TO authenticated, service_role;
+
+-- A restrictive policy is ANDed with the existing permissive ones. Every table
+-- with row level security gets one, except the two the sign-in guard reads
+-- before the authenticator step. Tables added later need their own.
+DO $$
+DECLARE
+  v_table RECORD;
+BEGIN
+  FOR v_table IN
+    SELECT c.relname
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public'
+      AND c.relkind = 'r'
+      AND c.relrowsecurity
+      AND c.relname NOT IN ('session_policies', 'mfa_recovery_codes')
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Require 2FA when enrolled" ON public.%I', v_table.relname);
+    EXECUTE format(
+      'CREATE POLICY "Require 2FA when enrolled" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING ((SELECT public.mfa_satisfied())) WITH CHECK ((SELECT public.mfa_satisfied()))',
+      v_table.relname
+    );
+  END LOOP;
+END;
+$$;
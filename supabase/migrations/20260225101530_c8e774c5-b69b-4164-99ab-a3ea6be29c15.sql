@@ -0,0 +1,235 @@
+-- Enforce approval workflows in the database, not just in the forms. Requests
+-- and decisions can only be created through submit_approval_request and
+-- process_approval_action, a submitter can only cancel their own request, and a
+-- direct update of a deal, lead or account that an enabled workflow would hold
+-- back is rejected.
+
+-- Server functions that write on the user's behalf run with this set
+ALTER FUNCTION public.process_approval_action(uuid, text, text) SET app.approval_bypass = 'on';
+ALTER FUNCTION public.convert_lead_to_deal(UUID, JSONB, UUID, BOOLEAN, UUID, BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN) SET app.approval_bypass = 'on';
+ALTER FUNCTION public.revert_lead_conversion(UUID) SET app.approval_bypass = 'on';
+
+-- Requests and actions are only written by the SECURITY DEFINER functions
+DROP POLICY IF EXISTS "Users can create approval requests" ON public.approval_requests;
+DROP POLICY IF EXISTS "Approvers can create approval actions" ON public.approval_actions;
+
+DROP POLICY IF EXISTS "Admins and approvers can update approval requests" ON public.approval_requests;
+CREATE POLICY "Admins and submitters can update approval requests" ON public.approval_requests
+  FOR UPDATE
+  USING (is_user_admin() OR (submitted_by = auth.uid() AND status = 'pending'))
+  WITH CHECK (is_user_admin() OR (submitted_by = auth.uid() AND status = 'cancelled'));
+
+-- Only the status may change outside process_approval_action, and only from
+-- pending to cancelled
+CREATE OR REPLACE FUNCTION public.guard_approval_request_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR is_user_admin() OR current_setting('app.approval_bypass', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.workflow_id IS DISTINCT FROM OLD.workflow_id
+    OR NEW.entity_type IS DISTINCT FROM OLD.entity_type
+    OR NEW.entity_id IS DISTINCT FROM OLD.entity_id
+    OR NEW.entity_name IS DISTINCT FROM OLD.entity_name
+    OR NEW.action_type IS DISTINCT FROM OLD.action_type
+    OR NEW.pending_changes IS DISTINCT FROM OLD.pending_changes
+    OR NEW.current_step IS DISTINCT FROM OLD.current_step
+    OR NEW.submitted_by IS DISTINCT FROM OLD.submitted_by
+    OR NEW.submitted_at IS DISTINCT FROM OLD.submitted_at
+  THEN
+    RAISE EXCEPTION 'An approval request cannot be edited, only cancelled';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (OLD.status = 'pending' AND NEW.status = 'cancelled') THEN
+    RAISE EXCEPTION 'An approval request can only be cancelled while it is pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_approval_request_update ON public.approval_requests;
+CREATE TRIGGER guard_approval_request_update
+  BEFORE UPDATE ON public.approval_requests
+  FOR EACH ROW EXECUTE FUNCTION public.guard_approval_request_update();
+
+-- Number for numeric text, NULL otherwise
+CREATE OR REPLACE FUNCTION public.approval_to_numeric(p_value text)
+RETURNS numeric
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN p_value::numeric;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+-- Mirrors hasChanged() in src/utils/approvalUtils.ts
+CREATE OR REPLACE FUNCTION public.approval_value_changed(p_old text, p_new text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_old text := NULLIF(p_old, '');
+  v_new text := NULLIF(p_new, '');
+  v_old_num numeric := approval_to_numeric(v_old);
+  v_new_num numeric := approval_to_numeric(v_new);
+BEGIN
+  IF v_old IS NULL OR v_new IS NULL THEN
+    RETURN (v_old IS NULL) <> (v_new IS NULL);
+  END IF;
+  IF v_old_num IS NOT NULL AND v_new_num IS NOT NULL THEN
+    RETURN v_old_num <> v_new_num;
+  END IF;
+  IF v_old_num IS NULL AND v_new_num IS NULL THEN
+    RETURN lower(v_old) <> lower(v_new);
+  END IF;
+  RETURN true;
+END;
+$$;
+
+-- Mirrors evaluateTriggerCondition() in src/utils/approvalUtils.ts
+CREATE OR REPLACE FUNCTION public.approval_condition_matches(p_record jsonb, p_condition jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_operator text := p_condition->>'operator';
+  v_actual text;
+  v_expected text;
+  v_actual_num numeric;
+  v_expected_num numeric;
+BEGIN
+  -- A workflow without a condition applies to every change
+  IF COALESCE(p_condition->>'field', '') = '' THEN
+    RETURN true;
+  END IF;
+
+  v_actual := NULLIF(p_record->>(p_condition->>'field'), '');
+  v_expected := NULLIF(p_condition->>'value', '');
+  IF v_actual IS NULL OR v_expected IS NULL THEN
+    RETURN false;
+  END IF;
+
+  v_actual_num := approval_to_numeric(v_actual);
+  v_expected_num := approval_to_numeric(v_expected);
+
+  -- Mixed types only support equality
+  IF (v_actual_num IS NULL) <> (v_expected_num IS NULL) THEN
+    RETURN v_operator = '=' AND lower(v_actual) = lower(v_expected);
+  END IF;
+
+  IF v_actual_num IS NOT NULL THEN
+    RETURN CASE v_operator
+      WHEN '>=' THEN v_actual_num >= v_expected_num
+      WHEN '>' THEN v_actual_num > v_expected_num
+      WHEN '<=' THEN v_actual_num <= v_expected_num
+      WHEN '<' THEN v_actual_num < v_expected_num
+      WHEN '=' THEN v_actual_num = v_expected_num
+      ELSE false
+    END;
+  END IF;
+
+  v_actual := lower(v_actual);
+  v_expected := lower(v_expected);
+  RETURN CASE v_operator
+    WHEN '>=' THEN v_actual COLLATE "C" >= v_expected
+    WHEN '>' THEN v_actual COLLATE "C" > v_expected
+    WHEN '<=' THEN v_actual COLLATE "C" <= v_expected
+    WHEN '<' THEN v_actual COLLATE "C" < v_expected
+    WHEN '=' THEN v_actual = v_expected
+    ELSE false
+  END;
+END;
+$$;
+
+-- Rejects a direct update that findMatchingWorkflow() would have held back.
+-- Admins, the service role, updates made by other triggers (counters, stage
+-- renames) and the approval and lead conversion functions are let through.
+CREATE OR REPLACE FUNCTION public.enforce_approval_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bookkeeping text[] := ARRAY['modified_at', 'modified_by', 'modified_time', 'updated_at', 'contact_count', 'deal_count'];
+  v_old jsonb;
+  v_new jsonb;
+  v_workflow approval_workflows%ROWTYPE;
+  v_condition jsonb;
+  v_events jsonb;
+BEGIN
+  IF auth.uid() IS NULL
+    OR is_user_admin()
+    OR pg_trigger_depth() > 1
+    OR current_setting('app.approval_bypass', true) = 'on'
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_old := to_jsonb(OLD) - v_bookkeeping;
+  v_new := to_jsonb(NEW) - v_bookkeeping;
+  IF v_old = v_new THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_workflow IN
+    SELECT * FROM approval_workflows
+    WHERE COALESCE(is_enabled, false)
+      AND entity_type = TG_TABLE_NAME
+      AND jsonb_typeof(approval_steps) = 'array'
+      AND jsonb_array_length(approval_steps) > 0
+    ORDER BY created_at
+  LOOP
+    v_condition := v_workflow.trigger_conditions;
+    CONTINUE WHEN NOT approval_condition_matches(v_new, v_condition);
+
+    -- Workflows saved before events existed apply to creates and updates
+    v_events := CASE
+      WHEN jsonb_typeof(v_condition->'events') = 'array' AND jsonb_array_length(v_condition->'events') > 0
+        THEN v_condition->'events'
+      ELSE '["create", "update"]'::jsonb
+    END;
+
+    IF (TG_TABLE_NAME = 'deals' AND v_events ? 'stage_change' AND approval_value_changed(v_old->>'stage', v_new->>'stage'))
+      OR (
+        v_events ? 'update'
+        AND (
+          COALESCE(v_condition->>'field', '') = ''
+          OR approval_value_changed(v_old->>(v_condition->>'field'), v_new->>(v_condition->>'field'))
+        )
+      )
+    THEN
+      RAISE EXCEPTION 'This change needs approval through the "%" workflow', v_workflow.name
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_approval_workflow ON public.deals;
+CREATE TRIGGER enforce_approval_workflow
+  BEFORE UPDATE ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflow();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflow ON public.leads;
+CREATE TRIGGER enforce_approval_workflow
+  BEFORE UPDATE ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflow();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflow ON public.accounts;
+CREATE TRIGGER enforce_approval_workflow
+  BEFORE UPDATE ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflow();
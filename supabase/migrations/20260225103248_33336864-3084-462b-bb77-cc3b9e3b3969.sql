@@ -0,0 +1,45 @@
+-- Restoring a backup writes records back as they were. Assignment rules must
+-- not pick new owners for them, move the round-robin pointer or send
+-- notifications, and the owner history must not log the restore as a change.
+-- restore-backup marks its requests with the x-backup-restore header.
+
+-- True while restore-backup writes rows with the service role
+CREATE OR REPLACE FUNCTION public.is_backup_restore()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(auth.jwt() ->> 'role', '') = 'service_role'
+    AND COALESCE(current_setting('request.headers', true)::jsonb ->> 'x-backup-restore', '') = 'true';
+$$;
+
+REVOKE ALL ON FUNCTION public.is_backup_restore() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_backup_restore() TO authenticated, service_role;
+
+DROP TRIGGER IF EXISTS apply_lead_assignment_rules ON public.leads;
+CREATE TRIGGER apply_lead_assignment_rules
+BEFORE INSERT ON public.leads
+FOR EACH ROW
+WHEN (NOT public.is_backup_restore())
+EXECUTE FUNCTION public.apply_lead_assignment_rules();
+
+DROP TRIGGER IF EXISTS apply_deal_assignment_rules ON public.deals;
+CREATE TRIGGER apply_deal_assignment_rules
+BEFORE INSERT ON public.deals
+FOR EACH ROW
+WHEN (NOT public.is_backup_restore())
+EXECUTE FUNCTION public.apply_deal_assignment_rules();
+
+DROP TRIGGER IF EXISTS log_lead_owner_change ON public.leads;
+CREATE TRIGGER log_lead_owner_change
+AFTER UPDATE OF contact_owner ON public.leads
+FOR EACH ROW
+WHEN (NOT public.is_backup_restore())
+EXECUTE FUNCTION public.log_lead_owner_change();
+
+DROP TRIGGER IF EXISTS log_deal_owner_change ON public.deals;
+CREATE TRIGGER log_deal_owner_change
+AFTER UPDATE OF lead_owner ON public.deals
+FOR EACH ROW
+WHEN (NOT public.is_backup_restore())
+EXECUTE FUNCTION public.log_deal_owner_change();
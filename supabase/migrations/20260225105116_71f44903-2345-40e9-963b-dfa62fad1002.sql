@@ -0,0 +1,197 @@
+-- Deals created by lead conversion start in the first open pipeline stage, as
+-- configured in pipeline settings, instead of a stage literally named 'Lead'.
+
+CREATE OR REPLACE FUNCTION public.convert_lead_to_deal(
+  p_lead_id UUID,
+  p_deal JSONB,
+  p_account_id UUID DEFAULT NULL,
+  p_create_account BOOLEAN DEFAULT false,
+  p_contact_id UUID DEFAULT NULL,
+  p_create_contact BOOLEAN DEFAULT false,
+  p_move_action_items BOOLEAN DEFAULT true,
+  p_move_tasks BOOLEAN DEFAULT true,
+  p_move_meetings BOOLEAN DEFAULT true,
+  p_move_emails BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+SET app.approval_bypass = 'on'
+AS $$
+DECLARE
+  v_lead public.leads%ROWTYPE;
+  v_user UUID := auth.uid();
+  v_account_id UUID := p_account_id;
+  v_contact_id UUID := p_contact_id;
+  v_deal_id UUID;
+  v_deal_name TEXT;
+  v_company TEXT;
+  v_action_items JSONB := '[]'::jsonb;
+  v_tasks JSONB := '[]'::jsonb;
+  v_meetings JSONB := '[]'::jsonb;
+  v_emails JSONB := '[]'::jsonb;
+  v_conversion_id UUID;
+BEGIN
+  IF NOT (is_user_admin() OR is_user_manager()) THEN
+    RAISE EXCEPTION 'Only managers and admins can convert leads';
+  END IF;
+
+  SELECT * INTO v_lead FROM public.leads WHERE id = p_lead_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+  IF v_lead.converted_to_deal_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This lead has already been converted to a deal';
+  END IF;
+
+  v_deal_name := NULLIF(btrim(p_deal->>'deal_name'), '');
+  IF v_deal_name IS NULL THEN
+    RAISE EXCEPTION 'Deal name is required';
+  END IF;
+
+  IF p_create_account THEN
+    v_company := COALESCE(NULLIF(btrim(p_deal->>'customer_name'), ''), NULLIF(btrim(v_lead.company_name), ''));
+    IF v_company IS NULL THEN
+      RAISE EXCEPTION 'A company name is needed to create the account';
+    END IF;
+
+    INSERT INTO public.accounts (company_name, website, industry, country, account_owner, created_by, modified_by)
+    VALUES (v_company, v_lead.website, v_lead.industry, v_lead.country,
+            COALESCE(v_lead.contact_owner, v_user), v_user, v_user)
+    RETURNING id INTO v_account_id;
+  END IF;
+
+  IF p_create_contact THEN
+    INSERT INTO public.contacts (
+      contact_name, company_name, position, email, phone_no, linkedin, website,
+      industry, contact_source, region, description, account_id, contact_owner, created_by, modified_by
+    )
+    VALUES (
+      v_lead.lead_name, v_lead.company_name, v_lead.position, v_lead.email, v_lead.phone_no, v_lead.linkedin,
+      v_lead.website, v_lead.industry, v_lead.contact_source, v_lead.country, v_lead.description,
+      v_account_id, COALESCE(v_lead.contact_owner, v_user), v_user, v_user
+    )
+    RETURNING id INTO v_contact_id;
+  END IF;
+
+  INSERT INTO public.deals (
+    deal_name, stage, project_name, customer_name, lead_name, lead_owner, region, priority,
+    currency_type, internal_comment, account_id, contact_id, created_by, modified_by
+  )
+  VALUES (
+    v_deal_name,
+    COALESCE(NULLIF(p_deal->>'stage', ''), public.default_deal_stage()),
+    NULLIF(p_deal->>'project_name', ''),
+    COALESCE(NULLIF(p_deal->>'customer_name', ''), v_lead.company_name),
+    COALESCE(NULLIF(p_deal->>'lead_name', ''), v_lead.lead_name),
+    NULLIF(p_deal->>'lead_owner', ''),
+    NULLIF(p_deal->>'region', ''),
+    COALESCE((p_deal->>'priority')::INTEGER, 3),
+    COALESCE(NULLIF(p_deal->>'currency_type', ''), 'EUR'),
+    NULLIF(p_deal->>'internal_comment', ''),
+    v_account_id,
+    v_contact_id,
+    v_user,
+    v_user
+  )
+  RETURNING id INTO v_deal_id;
+
+  -- Open action items are recreated on the deal; the originals are kept in the audit row
+  IF p_move_action_items THEN
+    SELECT COALESCE(jsonb_agg(to_jsonb(lai)), '[]'::jsonb) INTO v_action_items
+    FROM public.lead_action_items lai
+    WHERE lai.lead_id = p_lead_id AND lai.status <> 'Closed';
+
+    INSERT INTO public.deal_action_items (deal_id, next_action, assigned_to, due_date, status, created_by, created_at)
+    SELECT v_deal_id, item.next_action, item.assigned_to, item.due_date, item.status, item.created_by, item.created_at
+    FROM jsonb_populate_recordset(NULL::public.lead_action_items, v_action_items) item;
+
+    DELETE FROM public.lead_action_items
+    WHERE id IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(v_action_items) item);
+  END IF;
+
+  IF p_move_tasks THEN
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', t.id, 'module_type', t.module_type, 'account_id', t.account_id, 'contact_id', t.contact_id
+    )), '[]'::jsonb) INTO v_tasks
+    FROM public.tasks t
+    WHERE t.lead_id = p_lead_id AND t.deal_id IS NULL AND t.status <> 'completed';
+
+    UPDATE public.tasks t
+    SET deal_id = v_deal_id,
+        module_type = 'deals',
+        account_id = COALESCE(t.account_id, v_account_id),
+        contact_id = COALESCE(t.contact_id, v_contact_id)
+    WHERE t.id IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(v_tasks) item);
+  END IF;
+
+  IF p_move_meetings THEN
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', m.id, 'account_id', m.account_id, 'contact_id', m.contact_id
+    )), '[]'::jsonb) INTO v_meetings
+    FROM public.meetings m
+    WHERE m.lead_id = p_lead_id AND m.deal_id IS NULL;
+
+    UPDATE public.meetings m
+    SET deal_id = v_deal_id,
+        account_id = COALESCE(m.account_id, v_account_id),
+        contact_id = COALESCE(m.contact_id, v_contact_id)
+    WHERE m.id IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(v_meetings) item);
+  END IF;
+
+  IF p_move_emails THEN
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', e.id, 'account_id', e.account_id, 'contact_id', e.contact_id
+    )), '[]'::jsonb) INTO v_emails
+    FROM public.email_history e
+    WHERE e.lead_id = p_lead_id AND e.deal_id IS NULL;
+
+    UPDATE public.email_history e
+    SET deal_id = v_deal_id,
+        account_id = COALESCE(e.account_id, v_account_id),
+        contact_id = COALESCE(e.contact_id, v_contact_id)
+    WHERE e.id IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(v_emails) item);
+  END IF;
+
+  UPDATE public.leads
+  SET lead_status = 'Converted',
+      converted_to_deal_id = v_deal_id,
+      account_id = COALESCE(v_account_id, account_id),
+      modified_by = v_user,
+      modified_time = now()
+  WHERE id = p_lead_id;
+
+  INSERT INTO public.lead_conversions (
+    lead_id, deal_id, deal_name, account_id, contact_id, created_account, created_contact,
+    previous_lead_status, previous_account_id, moved_records, converted_by
+  )
+  VALUES (
+    p_lead_id, v_deal_id, v_deal_name, v_account_id, v_contact_id, p_create_account, p_create_contact,
+    v_lead.lead_status, v_lead.account_id,
+    jsonb_build_object('action_items', v_action_items, 'tasks', v_tasks, 'meetings', v_meetings, 'emails', v_emails),
+    v_user
+  )
+  RETURNING id INTO v_conversion_id;
+
+  PERFORM public.log_security_event('LEAD_CONVERTED', 'leads', p_lead_id::TEXT, jsonb_build_object(
+    'conversion_id', v_conversion_id,
+    'deal_id', v_deal_id,
+    'account_id', v_account_id,
+    'contact_id', v_contact_id,
+    'created_account', p_create_account,
+    'created_contact', p_create_contact,
+    'moved', jsonb_build_object(
+      'action_items', jsonb_array_length(v_action_items),
+      'tasks', jsonb_array_length(v_tasks),
+      'meetings', jsonb_array_length(v_meetings),
+      'emails', jsonb_array_length(v_emails)
+    )
+  ));
+
+  RETURN jsonb_build_object('conversion_id', v_conversion_id, 'deal_id', v_deal_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.convert_lead_to_deal(UUID, JSONB, UUID, BOOLEAN, UUID, BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.convert_lead_to_deal(UUID, JSONB, UUID, BOOLEAN, UUID, BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN, BOOLEAN) TO authenticated;
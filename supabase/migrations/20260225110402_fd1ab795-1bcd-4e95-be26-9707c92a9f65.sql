@@ -0,0 +1,157 @@
+-- Undoing a conversion deletes the deal. Once someone has moved the deal to
+-- another stage or given it a value, that work would be lost silently, so the
+-- undo is refused unless the caller confirms it with p_force.
+
+ALTER TABLE public.lead_conversions ADD COLUMN IF NOT EXISTS deal_stage TEXT;
+ALTER TABLE public.lead_conversions ADD COLUMN IF NOT EXISTS deal_value NUMERIC;
+
+-- The deal as convert_lead_to_deal created it
+CREATE OR REPLACE FUNCTION public.snapshot_converted_deal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT d.stage, d.total_contract_value INTO NEW.deal_stage, NEW.deal_value
+  FROM public.deals d
+  WHERE d.id = NEW.deal_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS snapshot_converted_deal ON public.lead_conversions;
+CREATE TRIGGER snapshot_converted_deal
+BEFORE INSERT ON public.lead_conversions
+FOR EACH ROW
+EXECUTE FUNCTION public.snapshot_converted_deal();
+
+-- Existing conversions: the stage the deal left first after conversion, if any.
+-- Conversion never set a value, so deal_value stays NULL.
+UPDATE public.lead_conversions c
+SET deal_stage = COALESCE(
+  (
+    SELECT h.from_stage FROM public.deal_stage_history h
+    WHERE h.deal_id = c.deal_id AND h.changed_at >= c.converted_at AND h.from_stage IS NOT NULL
+    ORDER BY h.changed_at
+    LIMIT 1
+  ),
+  d.stage
+)
+FROM public.deals d
+WHERE d.id = c.deal_id AND c.reverted_at IS NULL AND c.deal_stage IS NULL;
+
+DROP FUNCTION IF EXISTS public.revert_lead_conversion(UUID);
+
+-- Undo a conversion: put moved records back on the lead, delete the deal and any
+-- account or contact the conversion created that nothing else has started using.
+CREATE OR REPLACE FUNCTION public.revert_lead_conversion(p_conversion_id UUID, p_force BOOLEAN DEFAULT false)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+SET app.approval_bypass = 'on'
+AS $$
+DECLARE
+  v_conversion public.lead_conversions%ROWTYPE;
+  v_deal public.deals%ROWTYPE;
+  v_user UUID := auth.uid();
+  v_contact_removed BOOLEAN := false;
+  v_account_removed BOOLEAN := false;
+BEGIN
+  IF NOT (is_user_admin() OR is_user_manager()) THEN
+    RAISE EXCEPTION 'Only managers and admins can undo lead conversions';
+  END IF;
+
+  SELECT * INTO v_conversion FROM public.lead_conversions WHERE id = p_conversion_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversion not found';
+  END IF;
+  IF v_conversion.reverted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This conversion has already been undone';
+  END IF;
+  IF v_conversion.deal_id IS NULL THEN
+    RAISE EXCEPTION 'The converted deal no longer exists, so the conversion cannot be undone';
+  END IF;
+
+  SELECT * INTO v_deal FROM public.deals WHERE id = v_conversion.deal_id FOR UPDATE;
+  IF NOT p_force
+     AND (v_deal.stage IS DISTINCT FROM v_conversion.deal_stage
+          OR v_deal.total_contract_value IS DISTINCT FROM v_conversion.deal_value) THEN
+    RAISE EXCEPTION 'The deal "%" has changed stage or value since the conversion', v_deal.deal_name
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  UPDATE public.tasks t
+  SET deal_id = NULL, module_type = prev.module_type, account_id = prev.account_id, contact_id = prev.contact_id
+  FROM jsonb_to_recordset(v_conversion.moved_records->'tasks') AS prev(id UUID, module_type TEXT, account_id UUID, contact_id UUID)
+  WHERE t.id = prev.id AND t.deal_id = v_conversion.deal_id;
+
+  UPDATE public.meetings m
+  SET deal_id = NULL, account_id = prev.account_id, contact_id = prev.contact_id
+  FROM jsonb_to_recordset(v_conversion.moved_records->'meetings') AS prev(id UUID, account_id UUID, contact_id UUID)
+  WHERE m.id = prev.id AND m.deal_id = v_conversion.deal_id;
+
+  UPDATE public.email_history e
+  SET deal_id = NULL, account_id = prev.account_id, contact_id = prev.contact_id
+  FROM jsonb_to_recordset(v_conversion.moved_records->'emails') AS prev(id UUID, account_id UUID, contact_id UUID)
+  WHERE e.id = prev.id AND e.deal_id = v_conversion.deal_id;
+
+  INSERT INTO public.lead_action_items
+  SELECT * FROM jsonb_populate_recordset(NULL::public.lead_action_items, v_conversion.moved_records->'action_items')
+  ON CONFLICT (id) DO NOTHING;
+
+  -- Anything added to the deal after conversion stays, just without the deal link
+  UPDATE public.tasks SET deal_id = NULL WHERE deal_id = v_conversion.deal_id;
+  UPDATE public.meetings SET deal_id = NULL WHERE deal_id = v_conversion.deal_id;
+
+  UPDATE public.leads
+  SET lead_status = v_conversion.previous_lead_status,
+      converted_to_deal_id = NULL,
+      account_id = v_conversion.previous_account_id,
+      modified_by = v_user,
+      modified_time = now()
+  WHERE id = v_conversion.lead_id;
+
+  DELETE FROM public.deal_action_items WHERE deal_id = v_conversion.deal_id;
+  DELETE FROM public.deals WHERE id = v_conversion.deal_id;
+
+  IF v_conversion.created_contact AND v_conversion.contact_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.deals WHERE contact_id = v_conversion.contact_id)
+     AND NOT EXISTS (SELECT 1 FROM public.leads WHERE converted_from_contact_id = v_conversion.contact_id)
+     AND NOT EXISTS (SELECT 1 FROM public.tasks WHERE contact_id = v_conversion.contact_id)
+     AND NOT EXISTS (SELECT 1 FROM public.meetings WHERE contact_id = v_conversion.contact_id)
+     AND NOT EXISTS (SELECT 1 FROM public.email_history WHERE contact_id = v_conversion.contact_id) THEN
+    DELETE FROM public.contacts WHERE id = v_conversion.contact_id;
+    v_contact_removed := true;
+  END IF;
+
+  IF v_conversion.created_account AND v_conversion.account_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.contacts WHERE account_id = v_conversion.account_id)
+     AND NOT EXISTS (SELECT 1 FROM public.deals WHERE account_id = v_conversion.account_id)
+     AND NOT EXISTS (SELECT 1 FROM public.leads WHERE account_id = v_conversion.account_id)
+     AND NOT EXISTS (SELECT 1 FROM public.tasks WHERE account_id = v_conversion.account_id)
+     AND NOT EXISTS (SELECT 1 FROM public.meetings WHERE account_id = v_conversion.account_id)
+     AND NOT EXISTS (SELECT 1 FROM public.email_history WHERE account_id = v_conversion.account_id) THEN
+    DELETE FROM public.accounts WHERE id = v_conversion.account_id;
+    v_account_removed := true;
+  END IF;
+
+  UPDATE public.lead_conversions
+  SET reverted_at = now(), reverted_by = v_user
+  WHERE id = p_conversion_id;
+
+  PERFORM public.log_security_event('LEAD_CONVERSION_REVERTED', 'leads', v_conversion.lead_id::TEXT, jsonb_build_object(
+    'conversion_id', p_conversion_id,
+    'deal_name', v_conversion.deal_name,
+    'forced', p_force,
+    'contact_removed', v_contact_removed,
+    'account_removed', v_account_removed
+  ));
+
+  RETURN jsonb_build_object('contact_removed', v_contact_removed, 'account_removed', v_account_removed);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.revert_lead_conversion(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revert_lead_conversion(UUID, BOOLEAN) TO authenticated;
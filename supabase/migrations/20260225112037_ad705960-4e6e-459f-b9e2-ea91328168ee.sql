@@ -0,0 +1,89 @@
+-- Revenue targets and forecast snapshot lines follow the team hierarchy like
+-- forecast overrides do: managers see and set targets of the people they
+-- manage, and saving a year only replaces those rows.
+
+DROP POLICY IF EXISTS "Users can view relevant revenue targets" ON public.revenue_targets;
+CREATE POLICY "Users can view relevant revenue targets"
+ON public.revenue_targets
+FOR SELECT
+USING (owner_id IS NULL OR owner_id = auth.uid() OR can_manage_user(owner_id));
+
+DROP POLICY IF EXISTS "Managers can delete revenue targets" ON public.revenue_targets;
+CREATE POLICY "Managers can delete revenue targets"
+ON public.revenue_targets
+FOR DELETE
+USING (can_manage_user(owner_id));
+
+DROP POLICY IF EXISTS "Users can view relevant forecast snapshot deals" ON public.forecast_snapshot_deals;
+CREATE POLICY "Users can view relevant forecast snapshot deals"
+ON public.forecast_snapshot_deals
+FOR SELECT
+USING (owner_id = auth.uid() OR can_manage_user(owner_id));
+
+-- Replaces the caller's part of the grid for a year. p_targets:
+-- [{ "owner_id": uuid|null, "region": text|null, "quarter": 1-4, "amount": number }]
+-- Zero amounts are dropped rather than stored. Rows for owners the caller does
+-- not manage (owner-less rows are admin-only) must come back unchanged.
+CREATE OR REPLACE FUNCTION public.save_revenue_targets(p_year INTEGER, p_targets JSONB, p_currency TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_currency TEXT;
+  v_saved INTEGER;
+BEGIN
+  IF NOT (is_user_admin() OR is_user_manager()) THEN
+    RAISE EXCEPTION 'Only managers and admins can set revenue targets';
+  END IF;
+
+  IF jsonb_typeof(COALESCE(p_targets, '[]'::jsonb)) <> 'array' THEN
+    RAISE EXCEPTION 'Targets must be a list';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(p_targets, '[]'::jsonb)) t
+    WHERE COALESCE((t->>'amount')::NUMERIC, 0) > 0
+      AND NOT can_manage_user(NULLIF(t->>'owner_id', '')::UUID)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.revenue_targets r
+        WHERE r.year = p_year
+          AND r.quarter = (t->>'quarter')::SMALLINT
+          AND r.owner_id IS NOT DISTINCT FROM NULLIF(t->>'owner_id', '')::UUID
+          AND r.region IS NOT DISTINCT FROM NULLIF(trim(t->>'region'), '')
+          AND r.amount = (t->>'amount')::NUMERIC
+      )
+  ) THEN
+    RAISE EXCEPTION 'You can only set targets for people you manage';
+  END IF;
+
+  v_currency := COALESCE(
+    p_currency,
+    (SELECT reporting_currency FROM public.currency_settings ORDER BY created_at LIMIT 1),
+    'EUR'
+  );
+
+  DELETE FROM public.revenue_targets WHERE year = p_year AND can_manage_user(owner_id);
+
+  INSERT INTO public.revenue_targets (year, quarter, owner_id, region, amount, currency, created_by)
+  SELECT
+    p_year,
+    (t->>'quarter')::SMALLINT,
+    NULLIF(t->>'owner_id', '')::UUID,
+    NULLIF(trim(t->>'region'), ''),
+    (t->>'amount')::NUMERIC,
+    v_currency,
+    auth.uid()
+  FROM jsonb_array_elements(COALESCE(p_targets, '[]'::jsonb)) t
+  WHERE COALESCE((t->>'amount')::NUMERIC, 0) > 0
+    AND can_manage_user(NULLIF(t->>'owner_id', '')::UUID);
+
+  GET DIAGNOSTICS v_saved = ROW_COUNT;
+  RETURN v_saved;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.save_revenue_targets(INTEGER, JSONB, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_revenue_targets(INTEGER, JSONB, TEXT) TO authenticated;
@@ -0,0 +1,40 @@
+-- Renaming a stage relabels its deals and retiring one moves them in bulk.
+-- Neither is someone working the deal, so the owners are not notified.
+
+ALTER FUNCTION public.retire_pipeline_stage(UUID, TEXT, BOOLEAN) SET app.pipeline_stage_retire = 'on';
+
+CREATE OR REPLACE FUNCTION public.notify_deal_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner UUID;
+BEGIN
+  IF NEW.stage IS NOT DISTINCT FROM OLD.stage
+    OR current_setting('app.pipeline_stage_rename', true) = 'on'
+    OR current_setting('app.pipeline_stage_retire', true) = 'on'
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- Older deals may hold a display name instead of a user id
+  IF NEW.lead_owner ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    v_owner := NEW.lead_owner::UUID;
+  ELSE
+    v_owner := NEW.created_by;
+  END IF;
+
+  IF v_owner IS NOT NULL AND v_owner IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO public.notifications (user_id, message, notification_type, link)
+    VALUES (
+      v_owner,
+      'Deal "' || COALESCE(NEW.deal_name, 'Untitled') || '" moved from ' || COALESCE(OLD.stage, 'no stage') || ' to ' || NEW.stage,
+      'deal_update',
+      '/deals?viewId=' || NEW.id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,77 @@
+-- The contact list shows contacts.engagement_score and account approval
+-- workflows can be conditioned on accounts.score, so both now carry the score
+-- the rules compute into record_scores. The copy does not count as an edit:
+-- it neither rescores the record again nor bumps updated_at.
+
+ALTER TABLE public.accounts ADD COLUMN IF NOT EXISTS score INTEGER;
+
+CREATE OR REPLACE FUNCTION public.sync_record_score_column()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.record_score_sync', 'on', true);
+
+  IF NEW.entity_type = 'contact' THEN
+    UPDATE public.contacts SET engagement_score = NEW.score
+    WHERE id = NEW.entity_id AND engagement_score IS DISTINCT FROM NEW.score;
+  ELSIF NEW.entity_type = 'account' THEN
+    UPDATE public.accounts SET score = NEW.score
+    WHERE id = NEW.entity_id AND score IS DISTINCT FROM NEW.score;
+  END IF;
+
+  PERFORM set_config('app.record_score_sync', 'off', true);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_record_score_column ON public.record_scores;
+CREATE TRIGGER sync_record_score_column
+AFTER INSERT OR UPDATE OF score ON public.record_scores
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_record_score_column();
+
+DROP TRIGGER IF EXISTS refresh_lead_score ON public.leads;
+CREATE TRIGGER refresh_lead_score
+AFTER INSERT OR UPDATE OR DELETE ON public.leads
+FOR EACH ROW
+WHEN (current_setting('app.record_score_sync', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.refresh_own_record_score('lead');
+
+DROP TRIGGER IF EXISTS refresh_contact_score ON public.contacts;
+CREATE TRIGGER refresh_contact_score
+AFTER INSERT OR UPDATE OR DELETE ON public.contacts
+FOR EACH ROW
+WHEN (current_setting('app.record_score_sync', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.refresh_own_record_score('contact');
+
+DROP TRIGGER IF EXISTS refresh_account_score ON public.accounts;
+CREATE TRIGGER refresh_account_score
+AFTER INSERT OR UPDATE OR DELETE ON public.accounts
+FOR EACH ROW
+WHEN (current_setting('app.record_score_sync', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.refresh_own_record_score('account');
+
+DROP TRIGGER IF EXISTS update_accounts_updated_at ON public.accounts;
+CREATE TRIGGER update_accounts_updated_at
+BEFORE UPDATE ON public.accounts
+FOR EACH ROW
+WHEN (current_setting('app.record_score_sync', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Bring the columns in line with the scores computed so far
+SELECT set_config('app.record_score_sync', 'on', true);
+
+UPDATE public.contacts c
+SET engagement_score = s.score
+FROM public.record_scores s
+WHERE s.entity_type = 'contact' AND s.entity_id = c.id AND c.engagement_score IS DISTINCT FROM s.score;
+
+UPDATE public.accounts a
+SET score = s.score
+FROM public.record_scores s
+WHERE s.entity_type = 'account' AND s.entity_id = a.id AND a.score IS DISTINCT FROM s.score;
+
+SELECT set_config('app.record_score_sync', 'off', true);
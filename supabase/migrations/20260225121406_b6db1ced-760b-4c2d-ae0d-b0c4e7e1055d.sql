@@ -0,0 +1,99 @@
+-- A snapshot records the forecast as it stood on its date. Users can only
+-- take today's; other dates are left to the scheduler (service role), and
+-- only admins can delete a past snapshot.
+
+DROP POLICY IF EXISTS "Managers can delete forecast snapshots" ON public.forecast_snapshots;
+DROP POLICY IF EXISTS "Admins can delete forecast snapshots" ON public.forecast_snapshots;
+CREATE POLICY "Admins can delete forecast snapshots"
+ON public.forecast_snapshots
+FOR DELETE
+USING (is_user_admin());
+
+-- Records every open deal with a closing date, and won deals closing this year
+-- or later, as of p_date. Re-running on the same day replaces that day's
+-- snapshot. Callable by managers for today and by the scheduler for any date.
+CREATE OR REPLACE FUNCTION public.take_forecast_snapshot(p_date DATE DEFAULT CURRENT_DATE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot_id UUID;
+  v_currency TEXT;
+  v_count INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT (is_user_admin() OR is_user_manager()) THEN
+    RAISE EXCEPTION 'Only managers and admins can take forecast snapshots';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND p_date IS DISTINCT FROM CURRENT_DATE THEN
+    RAISE EXCEPTION 'Forecast snapshots can only be taken for today';
+  END IF;
+
+  v_currency := COALESCE(
+    (SELECT reporting_currency FROM public.currency_settings ORDER BY created_at LIMIT 1),
+    'EUR'
+  );
+
+  DELETE FROM public.forecast_snapshots WHERE snapshot_date = p_date;
+
+  INSERT INTO public.forecast_snapshots (snapshot_date, reporting_currency, taken_by)
+  VALUES (p_date, v_currency, auth.uid())
+  RETURNING id INTO v_snapshot_id;
+
+  INSERT INTO public.forecast_snapshot_deals (
+    snapshot_id, deal_id, deal_name, owner_id, stage, forecast_category,
+    close_date, close_year, close_quarter, probability, amount, weighted_amount
+  )
+  SELECT
+    v_snapshot_id,
+    d.id,
+    d.deal_name,
+    COALESCE(d.lead_owner, d.created_by),
+    d.stage,
+    d.category,
+    d.close_date,
+    EXTRACT(YEAR FROM d.close_date)::INTEGER,
+    EXTRACT(QUARTER FROM d.close_date)::SMALLINT,
+    d.probability,
+    d.converted,
+    d.converted * d.probability / 100
+  FROM (
+    SELECT
+      deals.id,
+      deals.deal_name,
+      deals.lead_owner,
+      deals.created_by,
+      deals.stage,
+      CASE WHEN ps.forecast_category IN ('closed', 'omitted') THEN ps.forecast_category
+           ELSE COALESCE(deals.forecast_category, ps.forecast_category, 'pipeline') END AS category,
+      CASE WHEN ps.forecast_category = 'closed'
+           THEN COALESCE(deals.signed_contract_date, deals.expected_closing_date)
+           ELSE deals.expected_closing_date END AS close_date,
+      CASE WHEN ps.forecast_category = 'closed' THEN 100
+           ELSE LEAST(GREATEST(COALESCE(deals.probability, ps.stage_probability, 0), 0), 100) END AS probability,
+      public.convert_to_reporting_currency(
+        CASE WHEN ps.forecast_category = 'closed'
+             THEN COALESCE(NULLIF(deals.total_revenue, 0), deals.total_contract_value, 0)
+             ELSE COALESCE(deals.total_contract_value, 0) END,
+        COALESCE(deals.currency_type, 'EUR'),
+        COALESCE(deals.signed_contract_date, deals.expected_closing_date, deals.created_at::DATE),
+        v_currency
+      ) AS converted
+    FROM public.deals
+    LEFT JOIN public.pipeline_stages ps ON ps.stage_name = deals.stage
+  ) d
+  WHERE d.close_date IS NOT NULL
+    AND d.category <> 'omitted'
+    AND (d.category <> 'closed' OR EXTRACT(YEAR FROM d.close_date) >= EXTRACT(YEAR FROM p_date));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  UPDATE public.forecast_snapshots SET deal_count = v_count WHERE id = v_snapshot_id;
+
+  RETURN v_snapshot_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.take_forecast_snapshot(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.take_forecast_snapshot(DATE) TO authenticated, service_role;
@@ -0,0 +1,160 @@
+-- Deleting occurrences of a recurring series. The series used to fall apart when
+-- its first task was deleted (parent_task_id was nulled, so every later occurrence
+-- became a series of its own), and a deleted occurrence came back on the next
+-- scheduled pass. Deleted dates are now recorded and stepped over, and the
+-- earliest remaining occurrence takes over as the first task of the series.
+
+CREATE TABLE IF NOT EXISTS public.task_occurrence_skips (
+  series_id UUID NOT NULL,
+  due_date DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (series_id, due_date)
+);
+
+-- Only the functions below read and write it
+ALTER TABLE public.task_occurrence_skips ENABLE ROW LEVEL SECURITY;
+
+-- Checked at commit, after handle_recurring_task_delete has moved the occurrences
+-- of a deleted first task onto the new one
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_parent_task_id_fkey;
+ALTER TABLE public.tasks
+  ADD CONSTRAINT tasks_parent_task_id_fkey
+  FOREIGN KEY (parent_task_id) REFERENCES public.tasks(id)
+  DEFERRABLE INITIALLY DEFERRED;
+
+CREATE OR REPLACE FUNCTION public.handle_recurring_task_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_series_id uuid;
+  v_new_series_id uuid;
+BEGIN
+  INSERT INTO public.task_occurrence_skips (series_id, due_date)
+  SELECT DISTINCT COALESCE(d.parent_task_id, d.id), d.due_date
+  FROM deleted_tasks d
+  WHERE d.due_date IS NOT NULL
+    AND (d.parent_task_id IS NOT NULL OR COALESCE(d.recurrence, 'none') <> 'none')
+  ON CONFLICT DO NOTHING;
+
+  FOR v_old_series_id IN
+    SELECT d.id FROM deleted_tasks d
+    WHERE EXISTS (SELECT 1 FROM public.tasks t WHERE t.parent_task_id = d.id)
+  LOOP
+    SELECT id INTO v_new_series_id
+    FROM public.tasks
+    WHERE parent_task_id = v_old_series_id
+    ORDER BY due_date NULLS LAST, created_at
+    LIMIT 1;
+
+    UPDATE public.tasks SET parent_task_id = NULL WHERE id = v_new_series_id;
+    UPDATE public.tasks SET parent_task_id = v_new_series_id WHERE parent_task_id = v_old_series_id;
+    UPDATE public.task_occurrence_skips SET series_id = v_new_series_id WHERE series_id = v_old_series_id;
+  END LOOP;
+
+  -- Series with nothing left
+  DELETE FROM public.task_occurrence_skips
+  WHERE series_id IN (SELECT id FROM deleted_tasks);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_recurring_task_delete ON public.tasks;
+CREATE TRIGGER handle_recurring_task_delete
+AFTER DELETE ON public.tasks
+REFERENCING OLD TABLE AS deleted_tasks
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.handle_recurring_task_delete();
+
+-- As before, but stepping over deleted dates. The series start is the earliest
+-- date it ever had, so deleting the first task doesn't move the anchor.
+CREATE OR REPLACE FUNCTION public.generate_next_task_occurrence(p_task_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task public.tasks%ROWTYPE;
+  v_series_id uuid;
+  v_anchor date;
+  v_next date;
+  v_step integer := 1;
+  v_new_id uuid;
+BEGIN
+  SELECT * INTO v_task FROM public.tasks WHERE id = p_task_id;
+
+  IF NOT FOUND
+     OR v_task.due_date IS NULL
+     OR COALESCE(v_task.recurrence, 'none') NOT IN ('daily', 'weekly', 'monthly', 'yearly') THEN
+    RETURN NULL;
+  END IF;
+
+  v_series_id := COALESCE(v_task.parent_task_id, v_task.id);
+
+  -- Completion and the scheduled pass can reach the same series at once
+  PERFORM pg_advisory_xact_lock(hashtext('task_series:' || v_series_id::text));
+
+  SELECT LEAST(
+    (SELECT due_date FROM public.tasks WHERE id = v_series_id),
+    (SELECT MIN(due_date) FROM public.task_occurrence_skips WHERE series_id = v_series_id)
+  ) INTO v_anchor;
+  v_anchor := COALESCE(v_anchor, v_task.due_date);
+
+  -- Step from the series start so month-end dates don't drift (31st -> 28th -> 28th)
+  LOOP
+    v_next := CASE v_task.recurrence
+      WHEN 'daily' THEN v_anchor + v_step
+      WHEN 'weekly' THEN v_anchor + v_step * 7
+      WHEN 'monthly' THEN (v_anchor + make_interval(months => v_step))::date
+      ELSE (v_anchor + make_interval(years => v_step))::date
+    END;
+    EXIT WHEN v_next > v_task.due_date
+      AND NOT EXISTS (
+        SELECT 1 FROM public.task_occurrence_skips
+        WHERE series_id = v_series_id AND due_date = v_next
+      );
+    v_step := v_step + 1;
+  END LOOP;
+
+  IF v_task.recurrence_end_date IS NOT NULL AND v_next > v_task.recurrence_end_date THEN
+    RETURN NULL;
+  END IF;
+
+  -- The series has already moved past this occurrence
+  IF EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE (id = v_series_id OR parent_task_id = v_series_id)
+      AND due_date >= v_next
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.tasks (
+    title, description, status, priority, category, due_date, due_time, reminder_date,
+    assigned_to, created_by, module_type, account_id, contact_id, lead_id, meeting_id, deal_id,
+    tags, recurrence, recurrence_end_date, parent_task_id
+  )
+  VALUES (
+    v_task.title, v_task.description, 'open', v_task.priority, v_task.category, v_next, v_task.due_time,
+    v_task.reminder_date + make_interval(days => v_next - v_task.due_date),
+    v_task.assigned_to, v_task.created_by, v_task.module_type, v_task.account_id, v_task.contact_id,
+    v_task.lead_id, v_task.meeting_id, v_task.deal_id,
+    v_task.tags, v_task.recurrence, v_task.recurrence_end_date, v_series_id
+  )
+  RETURNING id INTO v_new_id;
+
+  INSERT INTO public.task_subtasks (task_id, title, order_index)
+  SELECT v_new_id, title, order_index
+  FROM public.task_subtasks
+  WHERE task_id = p_task_id;
+
+  RETURN v_new_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_next_task_occurrence(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_next_task_occurrence(uuid) TO service_role;
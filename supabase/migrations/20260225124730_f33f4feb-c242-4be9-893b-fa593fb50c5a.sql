@@ -0,0 +1,95 @@
+-- Approval workflows hold back creates as well as updates, so a deal, lead or
+-- account that an enabled create workflow covers can't be inserted directly
+-- either. process_approval_action inserts it once the request is approved.
+
+-- Rejects a direct insert or update that findMatchingWorkflow() would have held
+-- back. Admins, the service role, writes made by other triggers (counters, stage
+-- renames) and the approval and lead conversion functions are let through.
+CREATE OR REPLACE FUNCTION public.enforce_approval_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bookkeeping text[] := ARRAY['modified_at', 'modified_by', 'modified_time', 'updated_at', 'contact_count', 'deal_count'];
+  v_old jsonb;
+  v_new jsonb;
+  v_workflow approval_workflows%ROWTYPE;
+  v_condition jsonb;
+  v_events jsonb;
+BEGIN
+  IF auth.uid() IS NULL
+    OR is_user_admin()
+    OR pg_trigger_depth() > 1
+    OR current_setting('app.approval_bypass', true) = 'on'
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_new := to_jsonb(NEW) - v_bookkeeping;
+  IF TG_OP = 'UPDATE' THEN
+    v_old := to_jsonb(OLD) - v_bookkeeping;
+    IF v_old = v_new THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  FOR v_workflow IN
+    SELECT * FROM approval_workflows
+    WHERE COALESCE(is_enabled, false)
+      AND entity_type = TG_TABLE_NAME
+      AND jsonb_typeof(approval_steps) = 'array'
+      AND jsonb_array_length(approval_steps) > 0
+    ORDER BY created_at
+  LOOP
+    v_condition := v_workflow.trigger_conditions;
+    CONTINUE WHEN NOT approval_condition_matches(v_new, v_condition);
+
+    -- Workflows saved before events existed apply to creates and updates
+    v_events := CASE
+      WHEN jsonb_typeof(v_condition->'events') = 'array' AND jsonb_array_length(v_condition->'events') > 0
+        THEN v_condition->'events'
+      ELSE '["create", "update"]'::jsonb
+    END;
+
+    IF TG_OP = 'INSERT' THEN
+      IF v_events ? 'create' THEN
+        RAISE EXCEPTION 'Creating this record needs approval through the "%" workflow', v_workflow.name
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF (TG_TABLE_NAME = 'deals' AND v_events ? 'stage_change' AND approval_value_changed(v_old->>'stage', v_new->>'stage'))
+      OR (
+        v_events ? 'update'
+        AND (
+          COALESCE(v_condition->>'field', '') = ''
+          OR approval_value_changed(v_old->>(v_condition->>'field'), v_new->>(v_condition->>'field'))
+        )
+      )
+    THEN
+      RAISE EXCEPTION 'This change needs approval through the "%" workflow', v_workflow.name
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_approval_workflow ON public.deals;
+CREATE TRIGGER enforce_approval_workflow
+  BEFORE INSERT OR UPDATE ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflow();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflow ON public.leads;
+CREATE TRIGGER enforce_approval_workflow
+  BEFORE INSERT OR UPDATE ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflow();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflow ON public.accounts;
+CREATE TRIGGER enforce_approval_workflow
+  BEFORE INSERT OR UPDATE ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflow();
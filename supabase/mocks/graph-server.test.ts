@@ -0,0 +1,130 @@
+/**
+ * Starts graph-server.ts, puts appointments on two calendars and checks what
+ * getSchedule reports for them and which common free slots the meeting form
+ * would suggest from it.
+ *
+ *   deno test --allow-net --allow-env --allow-run --allow-read supabase/mocks/graph-server.test.ts
+ */
+import { assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { BusyStatus, CalendarSchedule, findCommonFreeSlots } from "../../src/utils/calendarAvailability.ts";
+
+const PORT = 54398;
+const BASE_URL = `http://localhost:${PORT}`;
+const DAY = "2030-01-07";
+const ALICE = "alice@example.com";
+const BOB = "bob@example.com";
+
+interface GraphScheduleItem {
+  status: string;
+  subject: string;
+  start: { dateTime: string };
+  end: { dateTime: string };
+}
+
+interface GraphSchedule {
+  scheduleId: string;
+  availabilityView: string;
+  scheduleItems: GraphScheduleItem[];
+}
+
+const startMock = async (): Promise<Deno.ChildProcess> => {
+  const server = new Deno.Command(Deno.execPath(), {
+    args: ["run", "--allow-net", "--allow-env", new URL("./graph-server.ts", import.meta.url).pathname],
+    env: { MOCK_GRAPH_PORT: String(PORT) },
+    stdout: "null",
+    stderr: "null",
+  }).spawn();
+
+  // The first run downloads std, so allow for it
+  for (let attempt = 0; attempt < 100; attempt++) {
+    try {
+      const response = await fetch(`${BASE_URL}/_mock/reset`, { method: "POST" });
+      await response.body?.cancel();
+      if (response.ok) return server;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+
+  server.kill();
+  await server.status;
+  throw new Error("Mock Graph server did not start");
+};
+
+const post = async (path: string, body: unknown, token?: string) => {
+  const response = await fetch(`${BASE_URL}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, data: await response.json() };
+};
+
+// Same conversion as create-teams-meeting's getSchedule
+const toUtcIso = (dateTime: string): string =>
+  new Date(/[zZ]|[+-]\d{2}:\d{2}$/.test(dateTime) ? dateTime : `${dateTime}Z`).toISOString();
+
+const toCalendarSchedule = (schedule: GraphSchedule): CalendarSchedule => ({
+  email: schedule.scheduleId.toLowerCase(),
+  items: schedule.scheduleItems.map(item => ({
+    status: item.status as BusyStatus,
+    start: toUtcIso(item.start.dateTime),
+    end: toUtcIso(item.end.dateTime),
+  })),
+});
+
+Deno.test("getSchedule reports busy time and the common free slots follow from it", async () => {
+  const server = await startMock();
+  try {
+    const { data: tokenData } = await post("/tenant/oauth2/v2.0/token", {});
+    const token = tokenData.access_token;
+
+    await post("/_mock/event", { mailbox: ALICE, start: `${DAY}T08:00:00Z`, end: `${DAY}T09:00:00Z`, status: "busy", subject: "Standup" });
+    await post("/_mock/event", { mailbox: BOB, start: `${DAY}T09:30:00Z`, end: `${DAY}T10:00:00Z`, status: "tentative", subject: "Maybe" });
+    await post("/_mock/event", { mailbox: BOB, start: `${DAY}T11:30:00Z`, end: `${DAY}T12:00:00Z`, status: "free", subject: "Reminder" });
+
+    // A meeting Alice organizes blocks Bob's calendar too
+    const created = await post(`/v1.0/users/${encodeURIComponent(ALICE)}/events`, {
+      subject: "Pipeline review",
+      start: { dateTime: `${DAY}T10:00:00`, timeZone: "UTC" },
+      end: { dateTime: `${DAY}T11:00:00`, timeZone: "UTC" },
+      attendees: [{ emailAddress: { address: BOB }, type: "required" }],
+    }, token);
+    assertEquals(created.status, 201);
+
+    const { status, data } = await post(`/v1.0/users/${encodeURIComponent(ALICE)}/calendar/getSchedule`, {
+      schedules: [ALICE, BOB],
+      startTime: { dateTime: `${DAY}T08:00:00`, timeZone: "UTC" },
+      endTime: { dateTime: `${DAY}T12:00:00`, timeZone: "UTC" },
+      availabilityViewInterval: 30,
+    }, token);
+    assertEquals(status, 200);
+
+    const [alice, bob] = data.value as GraphSchedule[];
+    assertEquals(alice.availabilityView, "22002200");
+    assertEquals(bob.availabilityView, "00012200");
+    assertEquals(alice.scheduleItems.map(item => [item.status, item.subject]), [["busy", "Standup"], ["busy", "Pipeline review"]]);
+    // Free appointments are not reported
+    assertEquals(bob.scheduleItems.map(item => [item.status, item.subject]), [["tentative", "Maybe"], ["busy", "Pipeline review"]]);
+
+    const dayStart = new Date(`${DAY}T00:00:00Z`).getTime();
+    const slots = findCommonFreeSlots(data.value.map(toCalendarSchedule), {
+      instantAt: minutes => dayStart + minutes * 60 * 1000,
+      durationMinutes: 30,
+      firstMinute: 8 * 60,
+      lastMinute: 20 * 60,
+      stepMinutes: 15,
+      limit: 3,
+      now: dayStart,
+    });
+    // The 09:00 slot ends as Bob's tentative hold starts; 11:00 and 11:15 follow the review
+    assertEquals(slots, [9 * 60, 11 * 60, 11 * 60 + 15]);
+  } finally {
+    server.kill();
+    await server.status;
+  }
+});
@@ -0,0 +1,370 @@
+/**
+ * Local stand-in for the Azure AD token endpoint and the Microsoft Graph mail and
+ * calendar APIs used by send-email, sync-email-replies and create-teams-meeting.
+ *
+ *   deno run --allow-net --allow-env supabase/mocks/graph-server.ts
+ *
+ * Point the functions at it in supabase/functions/.env:
+ *
+ *   GRAPH_API_BASE_URL=http://host.docker.internal:54399/v1.0
+ *   AZURE_LOGIN_BASE_URL=http://host.docker.internal:54399
+ *
+ * Messages sent through the mock are kept in memory. Simulate inbound mail with:
+ *
+ *   POST /_mock/reply  { "mailbox": "...", "messageId": "<graph id>", "from": "...", "body": "..." }
+ *   POST /_mock/bounce { "mailbox": "...", "messageId": "<graph id>", "reason": "..." }
+ *
+ * Events created through the mock block their organizer's and attendees' time in
+ * getSchedule. Put other appointments on a calendar with:
+ *
+ *   POST /_mock/event  { "mailbox": "...", "start": "<iso>", "end": "<iso>", "status": "busy", "subject": "..." }
+ *
+ *   GET  /_mock/state
+ *   POST /_mock/reset
+ *
+ * graph-server.test.ts runs it and checks getSchedule and the suggested free slots.
+ */
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+
+const PORT = Number(Deno.env.get("MOCK_GRAPH_PORT") || 54399);
+
+interface MockMessage {
+  id: string;
+  conversationId: string;
+  internetMessageId: string;
+  subject: string;
+  bodyPreview: string;
+  body: { contentType: string; content: string };
+  from: { emailAddress: { address: string; name: string } };
+  toRecipients: { emailAddress: { address: string; name?: string } }[];
+  receivedDateTime: string;
+  sentDateTime: string | null;
+  isDraft: boolean;
+  internetMessageHeaders: { name: string; value: string }[];
+}
+
+interface MockEvent {
+  id: string;
+  subject: string;
+  // UTC instants
+  start: string;
+  end: string;
+  // free, tentative, busy, oof or workingElsewhere
+  showAs: string;
+  attendees: string[];
+}
+
+interface MockMailbox {
+  drafts: Map<string, MockMessage>;
+  sent: MockMessage[];
+  inbox: MockMessage[];
+  events: MockEvent[];
+}
+
+let mailboxes = new Map<string, MockMailbox>();
+
+const getMailbox = (address: string): MockMailbox => {
+  const key = decodeURIComponent(address).toLowerCase();
+  if (!mailboxes.has(key)) {
+    mailboxes.set(key, { drafts: new Map(), sent: [], inbox: [], events: [] });
+  }
+  return mailboxes.get(key)!;
+};
+
+const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const graphError = (status: number, code: string, message: string): Response =>
+  json({ error: { code, message } }, status);
+
+const stripHtml = (html: string): string => html.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim().slice(0, 255);
+
+const createMessage = (mailbox: string, payload: Record<string, unknown>): MockMessage => {
+  const body = (payload.body as MockMessage["body"]) || { contentType: "Text", content: "" };
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    conversationId: crypto.randomUUID(),
+    internetMessageId: `<${crypto.randomUUID()}@mock.graph.local>`,
+    subject: String(payload.subject || ""),
+    bodyPreview: stripHtml(body.content),
+    body,
+    from: { emailAddress: { address: decodeURIComponent(mailbox), name: decodeURIComponent(mailbox) } },
+    toRecipients: (payload.toRecipients as MockMessage["toRecipients"]) || [],
+    receivedDateTime: now,
+    sentDateTime: null,
+    isDraft: true,
+    internetMessageHeaders: [],
+  };
+};
+
+const findSentMessage = (mailbox: MockMailbox, messageId: string): MockMessage | undefined =>
+  mailbox.sent.find(m => m.id === messageId || m.internetMessageId === messageId);
+
+// Supports the subset of $filter the sync function sends: receivedDateTime gt|ge <iso>
+const applyReceivedFilter = (messages: MockMessage[], filter: string | null): MockMessage[] => {
+  const match = filter?.match(/receivedDateTime\s+(gt|ge)\s+(\S+)/i);
+  if (!match) return messages;
+  const since = new Date(match[2]).getTime();
+  return messages.filter(m => {
+    const received = new Date(m.receivedDateTime).getTime();
+    return match[1].toLowerCase() === "gt" ? received > since : received >= since;
+  });
+};
+
+// Graph dateTimeTimeZone values: the mock only needs UTC and offset-qualified times
+const toInstant = (value: { dateTime: string; timeZone?: string } | string): number => {
+  const dateTime = typeof value === "string" ? value : value.dateTime;
+  return new Date(/[zZ]|[+-]\d{2}:\d{2}$/.test(dateTime) ? dateTime : `${dateTime}Z`).getTime();
+};
+
+// Without the Z, as Graph writes times in the zone the Prefer header asked for
+const toGraphDateTime = (instant: number): string => new Date(instant).toISOString().replace("Z", "0000");
+
+// Availability codes in getSchedule's availabilityView
+const AVAILABILITY_CODES: Record<string, string> = { free: "0", tentative: "1", busy: "2", oof: "3", workingElsewhere: "4" };
+
+const buildSchedule = (address: string, start: number, end: number, interval: number) => {
+  const key = address.toLowerCase();
+  const events = Array.from(mailboxes.entries())
+    .flatMap(([owner, mailbox]) => mailbox.events.filter(event => owner === key || event.attendees.includes(key)))
+    .filter(event => event.showAs !== "free" && toInstant(event.start) < end && toInstant(event.end) > start)
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+  let availabilityView = "";
+  for (let slot = start; slot < end; slot += interval * 60 * 1000) {
+    const slotEnd = slot + interval * 60 * 1000;
+    const overlapping = events.filter(e => toInstant(e.start) < slotEnd && toInstant(e.end) > slot);
+    const code = overlapping.reduce((max, e) => Math.max(max, Number(AVAILABILITY_CODES[e.showAs] || 2)), 0);
+    availabilityView += String(code);
+  }
+
+  return {
+    scheduleId: address,
+    availabilityView,
+    scheduleItems: events.map(event => ({
+      isPrivate: false,
+      status: event.showAs,
+      subject: event.subject,
+      start: { dateTime: toGraphDateTime(toInstant(event.start)), timeZone: "UTC" },
+      end: { dateTime: toGraphDateTime(toInstant(event.end)), timeZone: "UTC" },
+    })),
+  };
+};
+
+const handleGraph = async (req: Request, url: URL, path: string[]): Promise<Response> => {
+  // path: users/{mailbox}/...
+  if (path[0] !== "users" || !path[1]) {
+    return graphError(404, "ResourceNotFound", `Unsupported path /${path.join("/")}`);
+  }
+  const mailboxAddress = path[1];
+  const mailbox = getMailbox(mailboxAddress);
+  const rest = path.slice(2);
+
+  // GET users/{mailbox}: every address resolves to a user whose id is the address
+  if (req.method === "GET" && rest.length === 0) {
+    const address = decodeURIComponent(mailboxAddress);
+    return json({ id: address, mail: address, userPrincipalName: address, displayName: address.split("@")[0] });
+  }
+
+  // POST users/{mailbox}/onlineMeetings
+  if (req.method === "POST" && rest[0] === "onlineMeetings") {
+    const payload = await req.json();
+    const id = crypto.randomUUID();
+    return json({
+      id,
+      joinWebUrl: `https://teams.mock.graph.local/l/meetup-join/${id}`,
+      joinInformation: null,
+      subject: payload.subject,
+      startDateTime: payload.startDateTime,
+      endDateTime: payload.endDateTime,
+      participants: payload.participants || {},
+    }, 201);
+  }
+
+  // POST users/{mailbox}/events
+  if (req.method === "POST" && rest[0] === "events" && rest.length === 1) {
+    const payload = await req.json();
+    const event: MockEvent = {
+      id: crypto.randomUUID(),
+      subject: String(payload.subject || ""),
+      start: new Date(toInstant(payload.start)).toISOString(),
+      end: new Date(toInstant(payload.end)).toISOString(),
+      showAs: payload.showAs || "busy",
+      attendees: (payload.attendees || []).map((a: { emailAddress: { address: string } }) => a.emailAddress.address.toLowerCase()),
+    };
+    mailbox.events.push(event);
+    console.log(`[mock] event created in ${mailboxAddress}: "${event.subject}"`);
+    return json({ id: event.id, webLink: `https://outlook.mock.graph.local/${event.id}`, subject: event.subject, start: payload.start, end: payload.end }, 201);
+  }
+
+  // POST users/{mailbox}/calendar/getSchedule
+  if (req.method === "POST" && rest[0] === "calendar" && rest[1] === "getSchedule") {
+    const payload = await req.json();
+    const start = toInstant(payload.startTime);
+    const end = toInstant(payload.endTime);
+    const interval = Number(payload.availabilityViewInterval || 30);
+    if (!Array.isArray(payload.schedules) || Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+      return graphError(400, "ErrorInvalidParameter", "schedules, startTime and endTime are required");
+    }
+    return json({ value: payload.schedules.map((address: string) => buildSchedule(address, start, end, interval)) });
+  }
+
+  // POST users/{mailbox}/sendMail
+  if (req.method === "POST" && rest[0] === "sendMail") {
+    const payload = await req.json();
+    const message = createMessage(mailboxAddress, payload.message || {});
+    message.isDraft = false;
+    message.sentDateTime = new Date().toISOString();
+    mailbox.sent.push(message);
+    console.log(`[mock] sendMail from ${mailboxAddress}: "${message.subject}"`);
+    return new Response(null, { status: 202 });
+  }
+
+  // POST users/{mailbox}/messages (create draft)
+  if (req.method === "POST" && rest[0] === "messages" && rest.length === 1) {
+    const message = createMessage(mailboxAddress, await req.json());
+    mailbox.drafts.set(message.id, message);
+    return json(message, 201);
+  }
+
+  // POST users/{mailbox}/messages/{id}/send
+  if (req.method === "POST" && rest[0] === "messages" && rest[2] === "send") {
+    const draft = mailbox.drafts.get(decodeURIComponent(rest[1]));
+    if (!draft) return graphError(404, "ErrorItemNotFound", "The specified object was not found in the store.");
+    mailbox.drafts.delete(draft.id);
+    draft.isDraft = false;
+    draft.sentDateTime = new Date().toISOString();
+    mailbox.sent.push(draft);
+    console.log(`[mock] sent draft ${draft.id} from ${mailboxAddress}: "${draft.subject}"`);
+    return new Response(null, { status: 202 });
+  }
+
+  // GET users/{mailbox}/mailFolders/inbox/messages
+  if (req.method === "GET" && rest[0] === "mailFolders" && rest[1]?.toLowerCase() === "inbox" && rest[2] === "messages") {
+    const top = Number(url.searchParams.get("$top") || 10);
+    const skip = Number(url.searchParams.get("$skip") || 0);
+    const matching = applyReceivedFilter(mailbox.inbox, url.searchParams.get("$filter"))
+      .sort((a, b) => a.receivedDateTime.localeCompare(b.receivedDateTime));
+    const page = matching.slice(skip, skip + top);
+
+    let nextLink: string | undefined;
+    if (skip + top < matching.length) {
+      const next = new URL(url);
+      next.searchParams.set("$skip", String(skip + top));
+      nextLink = next.toString();
+    }
+
+    return json({ value: page, ...(nextLink ? { "@odata.nextLink": nextLink } : {}) });
+  }
+
+  return graphError(404, "ResourceNotFound", `Unsupported request ${req.method} /${path.join("/")}`);
+};
+
+const handleMockControl = async (req: Request, action: string): Promise<Response> => {
+  if (action === "state" && req.method === "GET") {
+    return json(Object.fromEntries(
+      Array.from(mailboxes.entries()).map(([address, mailbox]) => [
+        address,
+        { drafts: Array.from(mailbox.drafts.values()), sent: mailbox.sent, inbox: mailbox.inbox, events: mailbox.events },
+      ])
+    ));
+  }
+
+  if (action === "reset" && req.method === "POST") {
+    mailboxes = new Map();
+    return json({ success: true });
+  }
+
+  if (action === "event" && req.method === "POST") {
+    const { mailbox: address, start, end, status, subject } = await req.json();
+    if (!address || !start || !end) return json({ error: "mailbox, start and end are required" }, 400);
+
+    const event: MockEvent = {
+      id: crypto.randomUUID(),
+      subject: String(subject || "Busy"),
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      showAs: status || "busy",
+      attendees: [],
+    };
+    getMailbox(address).events.push(event);
+    console.log(`[mock] ${event.showAs} ${event.start} - ${event.end} added to ${address}`);
+    return json(event, 201);
+  }
+
+  if ((action === "reply" || action === "bounce") && req.method === "POST") {
+    const { mailbox: address, messageId, from, body, reason } = await req.json();
+    if (!address || !messageId) return json({ error: "mailbox and messageId are required" }, 400);
+
+    const mailbox = getMailbox(address);
+    const original = findSentMessage(mailbox, messageId);
+    if (!original) return json({ error: `No sent message ${messageId} in ${address}` }, 404);
+
+    const recipient = original.toRecipients[0]?.emailAddress.address || "recipient@example.com";
+    const inbound = createMessage(address, {});
+    inbound.isDraft = false;
+    inbound.receivedDateTime = new Date().toISOString();
+
+    if (action === "reply") {
+      inbound.conversationId = original.conversationId;
+      inbound.subject = `RE: ${original.subject}`;
+      inbound.bodyPreview = String(body || "Thanks, let's talk next week.");
+      inbound.from = { emailAddress: { address: from || recipient, name: from || recipient } };
+      inbound.internetMessageHeaders = [
+        { name: "In-Reply-To", value: original.internetMessageId },
+        { name: "References", value: original.internetMessageId },
+      ];
+    } else {
+      // Shaped like an Exchange Online NDR
+      const domain = String(address).split("@")[1] || "mock.graph.local";
+      inbound.conversationId = original.conversationId;
+      inbound.subject = `Undeliverable: ${original.subject}`;
+      inbound.bodyPreview = String(reason || `Delivery has failed to these recipients or groups: ${recipient}. The email address couldn't be found.`);
+      inbound.from = { emailAddress: { address: `postmaster@${domain}`, name: "Microsoft Outlook" } };
+      inbound.internetMessageHeaders = [
+        { name: "X-MS-Exchange-Message-Is-Ndr", value: "" },
+        { name: "Content-Type", value: 'multipart/report; report-type=delivery-status; boundary="mock"' },
+        { name: "In-Reply-To", value: original.internetMessageId },
+        { name: "References", value: original.internetMessageId },
+      ];
+    }
+
+    mailbox.inbox.push(inbound);
+    console.log(`[mock] ${action} queued in ${address} for "${original.subject}"`);
+    return json(inbound, 201);
+  }
+
+  return json({ error: `Unknown mock action ${action}` }, 404);
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  const url = new URL(req.url);
+  const path = url.pathname.split("/").filter(Boolean);
+
+  try {
+    // POST /{tenant}/oauth2/v2.0/token
+    if (req.method === "POST" && path[1] === "oauth2" && path[3] === "token") {
+      return json({ token_type: "Bearer", expires_in: 3600, access_token: "mock-graph-token" });
+    }
+
+    if (path[0] === "_mock") {
+      return await handleMockControl(req, path[1] || "");
+    }
+
+    if (path[0] === "v1.0") {
+      if (req.headers.get("Authorization") !== "Bearer mock-graph-token") {
+        return graphError(401, "InvalidAuthenticationToken", "Access token is empty or invalid.");
+      }
+      return await handleGraph(req, url, path.slice(1));
+    }
+
+    return graphError(404, "ResourceNotFound", `Unsupported path ${url.pathname}`);
+  } catch (error: unknown) {
+    console.error("[mock] request failed:", error);
+    return graphError(500, "InternalServerError", error instanceof Error ? error.message : String(error));
+  }
+};
+
+console.log(`Mock Graph server listening on http://localhost:${PORT}`);
+serve(handler, { port: PORT });